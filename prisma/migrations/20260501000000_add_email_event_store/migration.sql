@@ -0,0 +1,47 @@
+-- Raw webhook email events (idempotent on provider event id) plus the
+-- per-campaign rollup that replaces the removed CampaignEmailStats table.
+CREATE TABLE "EmailEvent" (
+    "id"                TEXT NOT NULL,
+    "provider"          TEXT NOT NULL,
+    "accountId"         TEXT NOT NULL,
+    "accountKey"        TEXT,
+    "campaignId"        TEXT NOT NULL,
+    "email"             TEXT,
+    "eventType"         TEXT NOT NULL,
+    "providerEvent"     TEXT,
+    "providerEventId"   TEXT NOT NULL,
+    "providerMessageId" TEXT,
+    "occurredAt"        TIMESTAMP(3) NOT NULL,
+    "createdAt"         TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmailEvent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "EmailEvent_provider_providerEventId_key" ON "EmailEvent"("provider", "providerEventId");
+CREATE INDEX "EmailEvent_provider_accountId_campaignId_idx" ON "EmailEvent"("provider", "accountId", "campaignId");
+CREATE INDEX "EmailEvent_accountKey_occurredAt_idx" ON "EmailEvent"("accountKey", "occurredAt");
+CREATE INDEX "EmailEvent_email_idx" ON "EmailEvent"("email");
+
+-- The baseline created CampaignEmailStats; environments that were later
+-- db-pushed without the model dropped it, so recreate only when missing.
+CREATE TABLE IF NOT EXISTS "CampaignEmailStats" (
+    "id"                TEXT NOT NULL,
+    "provider"          TEXT NOT NULL,
+    "accountId"         TEXT NOT NULL,
+    "campaignId"        TEXT NOT NULL,
+    "firstDeliveredAt"  TIMESTAMP(3),
+    "deliveredCount"    INTEGER NOT NULL DEFAULT 0,
+    "openedCount"       INTEGER NOT NULL DEFAULT 0,
+    "clickedCount"      INTEGER NOT NULL DEFAULT 0,
+    "bouncedCount"      INTEGER NOT NULL DEFAULT 0,
+    "complainedCount"   INTEGER NOT NULL DEFAULT 0,
+    "unsubscribedCount" INTEGER NOT NULL DEFAULT 0,
+    "lastEventAt"       TIMESTAMP(3),
+    "createdAt"         TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"         TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CampaignEmailStats_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "CampaignEmailStats_provider_accountId_campaignId_key" ON "CampaignEmailStats"("provider", "accountId", "campaignId");
+CREATE INDEX IF NOT EXISTS "CampaignEmailStats_provider_accountId_idx" ON "CampaignEmailStats"("provider", "accountId");
@@ -0,0 +1,3 @@
+-- Contact merge-field snapshot per recipient so native sends can resolve
+-- {{contact.*}} tokens individually.
+ALTER TABLE "EmailCampaignRecipient" ADD COLUMN "mergeData" TEXT;
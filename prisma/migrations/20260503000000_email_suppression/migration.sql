@@ -0,0 +1,20 @@
+-- Loomi-wide email suppression list (unsubscribes, hard bounces, complaints,
+-- manual entries) and a skipped counter on native email campaigns.
+CREATE TABLE "EmailSuppression" (
+    "id"         TEXT NOT NULL,
+    "email"      TEXT NOT NULL,
+    "accountKey" TEXT NOT NULL DEFAULT '',
+    "reason"     TEXT NOT NULL,
+    "source"     TEXT,
+    "campaignId" TEXT,
+    "note"       TEXT,
+    "createdAt"  TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"  TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailSuppression_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "EmailSuppression_email_accountKey_key" ON "EmailSuppression"("email", "accountKey");
+CREATE INDEX "EmailSuppression_accountKey_createdAt_idx" ON "EmailSuppression"("accountKey", "createdAt");
+
+ALTER TABLE "EmailCampaign" ADD COLUMN "skippedCount" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,58 @@
+-- Server-side contact index: full per-account copies of ESP contacts so
+-- audiences can be evaluated exactly instead of against a browser sample.
+CREATE TABLE "IndexedContact" (
+    "id"                 TEXT NOT NULL,
+    "accountKey"         TEXT NOT NULL,
+    "provider"           TEXT NOT NULL,
+    "contactId"          TEXT NOT NULL,
+    "firstName"          TEXT NOT NULL DEFAULT '',
+    "lastName"           TEXT NOT NULL DEFAULT '',
+    "fullName"           TEXT NOT NULL DEFAULT '',
+    "email"              TEXT NOT NULL DEFAULT '',
+    "phone"              TEXT NOT NULL DEFAULT '',
+    "address1"           TEXT NOT NULL DEFAULT '',
+    "city"               TEXT NOT NULL DEFAULT '',
+    "state"              TEXT NOT NULL DEFAULT '',
+    "postalCode"         TEXT NOT NULL DEFAULT '',
+    "country"            TEXT NOT NULL DEFAULT '',
+    "tags"               TEXT NOT NULL DEFAULT '[]',
+    "dateAdded"          TEXT NOT NULL DEFAULT '',
+    "source"             TEXT NOT NULL DEFAULT '',
+    "vehicleYear"        TEXT NOT NULL DEFAULT '',
+    "vehicleMake"        TEXT NOT NULL DEFAULT '',
+    "vehicleModel"       TEXT NOT NULL DEFAULT '',
+    "vehicleVin"         TEXT NOT NULL DEFAULT '',
+    "vehicleMileage"     TEXT NOT NULL DEFAULT '',
+    "lastServiceDate"    TEXT NOT NULL DEFAULT '',
+    "nextServiceDate"    TEXT NOT NULL DEFAULT '',
+    "leaseEndDate"       TEXT NOT NULL DEFAULT '',
+    "warrantyEndDate"    TEXT NOT NULL DEFAULT '',
+    "purchaseDate"       TEXT NOT NULL DEFAULT '',
+    "hasReceivedMessage" BOOLEAN NOT NULL DEFAULT false,
+    "hasReceivedEmail"   BOOLEAN NOT NULL DEFAULT false,
+    "hasReceivedSms"     BOOLEAN NOT NULL DEFAULT false,
+    "lastMessageDate"    TEXT NOT NULL DEFAULT '',
+    "syncedAt"           TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IndexedContact_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "IndexedContact_accountKey_contactId_key" ON "IndexedContact"("accountKey", "contactId");
+CREATE INDEX "IndexedContact_accountKey_email_idx" ON "IndexedContact"("accountKey", "email");
+
+CREATE TABLE "ContactIndexState" (
+    "id"           TEXT NOT NULL,
+    "accountKey"   TEXT NOT NULL,
+    "provider"     TEXT,
+    "status"       TEXT NOT NULL DEFAULT 'idle',
+    "contactCount" INTEGER NOT NULL DEFAULT 0,
+    "runStartedAt" TIMESTAMP(3),
+    "lastSyncedAt" TIMESTAMP(3),
+    "lastError"    TEXT,
+    "createdAt"    TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"    TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ContactIndexState_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "ContactIndexState_accountKey_key" ON "ContactIndexState"("accountKey");
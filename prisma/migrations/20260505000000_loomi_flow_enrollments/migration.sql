@@ -0,0 +1,27 @@
+-- Native LoomiFlow runtime: per-contact enrollments advanced by the flow runner.
+ALTER TABLE "LoomiFlow" ADD COLUMN "lastTriggeredAt" TIMESTAMP(3);
+
+CREATE TABLE "LoomiFlowEnrollment" (
+    "id"            TEXT NOT NULL,
+    "flowId"        TEXT NOT NULL,
+    "accountKey"    TEXT NOT NULL,
+    "contactId"     TEXT NOT NULL,
+    "triggerKey"    TEXT NOT NULL,
+    "status"        TEXT NOT NULL DEFAULT 'active',
+    "currentStepId" TEXT,
+    "nextRunAt"     TIMESTAMP(3),
+    "attempts"      INTEGER NOT NULL DEFAULT 0,
+    "lastError"     TEXT,
+    "history"       TEXT NOT NULL DEFAULT '[]',
+    "enrolledAt"    TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt"   TIMESTAMP(3),
+    "updatedAt"     TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LoomiFlowEnrollment_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "LoomiFlowEnrollment_flowId_accountKey_contactId_triggerKey_key" ON "LoomiFlowEnrollment"("flowId", "accountKey", "contactId", "triggerKey");
+CREATE INDEX "LoomiFlowEnrollment_status_nextRunAt_idx" ON "LoomiFlowEnrollment"("status", "nextRunAt");
+CREATE INDEX "LoomiFlowEnrollment_flowId_status_idx" ON "LoomiFlowEnrollment"("flowId", "status");
+
+ALTER TABLE "LoomiFlowEnrollment" ADD CONSTRAINT "LoomiFlowEnrollment_flowId_fkey" FOREIGN KEY ("flowId") REFERENCES "LoomiFlow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
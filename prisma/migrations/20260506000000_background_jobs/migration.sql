@@ -0,0 +1,45 @@
+-- Postgres-backed background job queue with cron-style schedules.
+CREATE TABLE "BackgroundJob" (
+    "id"          TEXT NOT NULL,
+    "kind"        TEXT NOT NULL,
+    "payload"     TEXT NOT NULL DEFAULT '{}',
+    "status"      TEXT NOT NULL DEFAULT 'queued',
+    "priority"    INTEGER NOT NULL DEFAULT 0,
+    "runAt"       TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "attempts"    INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "leaseOwner"  TEXT,
+    "leasedUntil" TIMESTAMP(3),
+    "dedupeKey"   TEXT,
+    "scheduleKey" TEXT,
+    "lastError"   TEXT,
+    "result"      TEXT,
+    "startedAt"   TIMESTAMP(3),
+    "finishedAt"  TIMESTAMP(3),
+    "createdAt"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"   TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BackgroundJob_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "BackgroundJob_dedupeKey_key" ON "BackgroundJob"("dedupeKey");
+CREATE INDEX "BackgroundJob_status_runAt_idx" ON "BackgroundJob"("status", "runAt");
+CREATE INDEX "BackgroundJob_kind_status_idx" ON "BackgroundJob"("kind", "status");
+CREATE INDEX "BackgroundJob_createdAt_idx" ON "BackgroundJob"("createdAt");
+
+CREATE TABLE "JobSchedule" (
+    "id"             TEXT NOT NULL,
+    "key"            TEXT NOT NULL,
+    "kind"           TEXT NOT NULL,
+    "payload"        TEXT NOT NULL DEFAULT '{}',
+    "cron"           TEXT NOT NULL,
+    "enabled"        BOOLEAN NOT NULL DEFAULT true,
+    "nextRunAt"      TIMESTAMP(3),
+    "lastEnqueuedAt" TIMESTAMP(3),
+    "createdAt"      TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"      TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "JobSchedule_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "JobSchedule_key_key" ON "JobSchedule"("key");
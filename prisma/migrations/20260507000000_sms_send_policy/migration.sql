@@ -0,0 +1,3 @@
+-- Per-account SMS send windows and throughput; campaigns wait for the window.
+ALTER TABLE "Account" ADD COLUMN "smsSendPolicy" TEXT;
+ALTER TABLE "SmsCampaign" ADD COLUMN "waitingUntil" TIMESTAMP(3);
@@ -0,0 +1,30 @@
+-- A/B testing for native email campaigns: per-campaign variants and per-recipient assignment.
+ALTER TABLE "EmailCampaign" ADD COLUMN "testPercent" INTEGER;
+ALTER TABLE "EmailCampaign" ADD COLUMN "winnerMetric" TEXT;
+ALTER TABLE "EmailCampaign" ADD COLUMN "testWaitMinutes" INTEGER;
+ALTER TABLE "EmailCampaign" ADD COLUMN "testDecideAt" TIMESTAMP(3);
+ALTER TABLE "EmailCampaign" ADD COLUMN "winnerVariantId" TEXT;
+
+CREATE TABLE "EmailCampaignVariant" (
+    "id"          TEXT NOT NULL,
+    "campaignId"  TEXT NOT NULL,
+    "label"       TEXT NOT NULL,
+    "subject"     TEXT NOT NULL,
+    "previewText" TEXT,
+    "htmlContent" TEXT NOT NULL,
+    "textContent" TEXT,
+    "createdAt"   TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"   TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailCampaignVariant_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "EmailCampaignVariant_campaignId_label_key" ON "EmailCampaignVariant"("campaignId", "label");
+
+ALTER TABLE "EmailCampaignVariant" ADD CONSTRAINT "EmailCampaignVariant_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "EmailCampaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "EmailCampaignRecipient" ADD COLUMN "variantId" TEXT;
+
+CREATE INDEX "EmailCampaignRecipient_campaignId_variantId_idx" ON "EmailCampaignRecipient"("campaignId", "variantId");
+
+ALTER TABLE "EmailCampaignRecipient" ADD CONSTRAINT "EmailCampaignRecipient_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "EmailCampaignVariant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
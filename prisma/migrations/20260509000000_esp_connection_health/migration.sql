@@ -0,0 +1,19 @@
+-- Scheduled ESP connection health checks (token refresh, scopes, live validation) and their history.
+CREATE TABLE "EspConnectionHealthCheck" (
+    "id"             TEXT NOT NULL,
+    "accountKey"     TEXT NOT NULL,
+    "provider"       TEXT NOT NULL,
+    "status"         TEXT NOT NULL,
+    "issues"         TEXT NOT NULL DEFAULT '[]',
+    "missingScopes"  TEXT NOT NULL DEFAULT '[]',
+    "tokenExpiresAt" TIMESTAMP(3),
+    "durationMs"     INTEGER NOT NULL DEFAULT 0,
+    "checkedAt"      TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EspConnectionHealthCheck_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "EspConnectionHealthCheck_accountKey_provider_checkedAt_idx" ON "EspConnectionHealthCheck"("accountKey", "provider", "checkedAt");
+CREATE INDEX "EspConnectionHealthCheck_checkedAt_idx" ON "EspConnectionHealthCheck"("checkedAt");
+
+ALTER TABLE "EspConnectionHealthCheck" ADD CONSTRAINT "EspConnectionHealthCheck_accountKey_fkey" FOREIGN KEY ("accountKey") REFERENCES "Account"("key") ON DELETE CASCADE ON UPDATE CASCADE;
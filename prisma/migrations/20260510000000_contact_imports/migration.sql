@@ -0,0 +1,29 @@
+-- Bulk contact CSV imports: mapped rows, progress counters and the per-row error report.
+CREATE TABLE "ContactImport" (
+    "id"              TEXT NOT NULL,
+    "accountKey"      TEXT NOT NULL,
+    "provider"        TEXT NOT NULL,
+    "fileName"        TEXT NOT NULL DEFAULT '',
+    "status"          TEXT NOT NULL DEFAULT 'queued',
+    "headers"         TEXT NOT NULL DEFAULT '[]',
+    "mapping"         TEXT NOT NULL DEFAULT '[]',
+    "rows"            TEXT NOT NULL DEFAULT '[]',
+    "errors"          TEXT NOT NULL DEFAULT '[]',
+    "totalRows"       INTEGER NOT NULL DEFAULT 0,
+    "processedRows"   INTEGER NOT NULL DEFAULT 0,
+    "createdCount"    INTEGER NOT NULL DEFAULT 0,
+    "updatedCount"    INTEGER NOT NULL DEFAULT 0,
+    "failedCount"     INTEGER NOT NULL DEFAULT 0,
+    "lastError"       TEXT,
+    "createdByUserId" TEXT,
+    "startedAt"       TIMESTAMP(3),
+    "finishedAt"      TIMESTAMP(3),
+    "createdAt"       TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"       TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ContactImport_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "ContactImport_accountKey_createdAt_idx" ON "ContactImport"("accountKey", "createdAt");
+
+ALTER TABLE "ContactImport" ADD CONSTRAINT "ContactImport_accountKey_fkey" FOREIGN KEY ("accountKey") REFERENCES "Account"("key") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- Central audit trail of user actions, plus the singleton retention policy.
+CREATE TABLE "AuditEvent" (
+    "id"                 TEXT NOT NULL,
+    "action"             TEXT NOT NULL,
+    "targetType"         TEXT NOT NULL,
+    "targetId"           TEXT,
+    "targetLabel"        TEXT,
+    "accountKey"         TEXT,
+    "actorUserId"        TEXT,
+    "actorName"          TEXT,
+    "actorEmail"         TEXT,
+    "actorRole"          TEXT,
+    "impersonatorUserId" TEXT,
+    "impersonatorName"   TEXT,
+    "changes"            TEXT NOT NULL DEFAULT '{}',
+    "metadata"           TEXT NOT NULL DEFAULT '{}',
+    "createdAt"          TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditEvent_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "AuditEvent_createdAt_idx" ON "AuditEvent"("createdAt");
+
+CREATE INDEX "AuditEvent_accountKey_createdAt_idx" ON "AuditEvent"("accountKey", "createdAt");
+
+CREATE INDEX "AuditEvent_actorUserId_createdAt_idx" ON "AuditEvent"("actorUserId", "createdAt");
+
+CREATE INDEX "AuditEvent_targetType_targetId_idx" ON "AuditEvent"("targetType", "targetId");
+
+CREATE TABLE "AuditLogSettings" (
+    "id"              TEXT NOT NULL,
+    "singletonKey"    TEXT NOT NULL DEFAULT 'primary',
+    "retentionDays"   INTEGER NOT NULL DEFAULT 365,
+    "updatedByUserId" TEXT,
+    "createdAt"       TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"       TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AuditLogSettings_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "AuditLogSettings_singletonKey_key" ON "AuditLogSettings"("singletonKey");
@@ -0,0 +1,12 @@
+-- Unlimited template version history: named releases, restore provenance and per-snapshot size.
+ALTER TABLE "TemplateVersion" ADD COLUMN "size"                  INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "TemplateVersion" ADD COLUMN "source"                TEXT NOT NULL DEFAULT 'save';
+ALTER TABLE "TemplateVersion" ADD COLUMN "restoredFromVersionId" TEXT;
+ALTER TABLE "TemplateVersion" ADD COLUMN "releaseLabel"          TEXT;
+ALTER TABLE "TemplateVersion" ADD COLUMN "releaseNote"           TEXT;
+ALTER TABLE "TemplateVersion" ADD COLUMN "labeledByUserId"       TEXT;
+ALTER TABLE "TemplateVersion" ADD COLUMN "labeledAt"             TIMESTAMP(3);
+
+UPDATE "TemplateVersion" SET "size" = octet_length("content");
+
+CREATE INDEX "TemplateVersion_templateId_createdAt_idx" ON "TemplateVersion"("templateId", "createdAt");
@@ -0,0 +1,34 @@
+-- Template approval workflow: review state on ESP templates and component-anchored comment threads.
+ALTER TABLE "EspTemplate" ADD COLUMN "reviewStatus"            TEXT NOT NULL DEFAULT 'draft';
+ALTER TABLE "EspTemplate" ADD COLUMN "reviewerUserIds"         TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE "EspTemplate" ADD COLUMN "reviewRequestedAt"       TIMESTAMP(3);
+ALTER TABLE "EspTemplate" ADD COLUMN "reviewRequestedByUserId" TEXT;
+ALTER TABLE "EspTemplate" ADD COLUMN "reviewedAt"              TIMESTAMP(3);
+ALTER TABLE "EspTemplate" ADD COLUMN "reviewedByUserId"        TEXT;
+ALTER TABLE "EspTemplate" ADD COLUMN "approvedHtmlHash"        TEXT;
+
+-- Templates already live on a provider predate the workflow; treat them as published.
+UPDATE "EspTemplate" SET "reviewStatus" = 'published' WHERE "lastSyncedAt" IS NOT NULL;
+
+CREATE INDEX "EspTemplate_accountKey_reviewStatus_idx" ON "EspTemplate"("accountKey", "reviewStatus");
+
+CREATE TABLE "EspTemplateComment" (
+    "id"               TEXT NOT NULL,
+    "templateId"       TEXT NOT NULL,
+    "parentId"         TEXT,
+    "componentIndex"   INTEGER,
+    "componentType"    TEXT,
+    "body"             TEXT NOT NULL,
+    "authorUserId"     TEXT,
+    "authorName"       TEXT,
+    "resolvedAt"       TIMESTAMP(3),
+    "resolvedByUserId" TEXT,
+    "createdAt"        TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"        TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EspTemplateComment_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "EspTemplateComment_templateId_createdAt_idx" ON "EspTemplateComment"("templateId", "createdAt");
+
+ALTER TABLE "EspTemplateComment" ADD CONSTRAINT "EspTemplateComment_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "EspTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
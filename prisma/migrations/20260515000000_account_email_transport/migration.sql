@@ -0,0 +1,26 @@
+-- Per-account email campaign transport (SMTP, SendGrid Mail Send or Klaviyo) instead of the global SMTP relay.
+CREATE TABLE "AccountEmailTransport" (
+    "id"              TEXT NOT NULL,
+    "accountKey"      TEXT NOT NULL,
+    "provider"        TEXT NOT NULL,
+    "fromEmail"       TEXT NOT NULL,
+    "fromName"        TEXT,
+    "replyTo"         TEXT,
+    "smtpHost"        TEXT,
+    "smtpPort"        INTEGER,
+    "smtpUser"        TEXT,
+    "smtpPass"        TEXT,
+    "updatedByUserId" TEXT,
+    "createdAt"       TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"       TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AccountEmailTransport_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "AccountEmailTransport_accountKey_key" ON "AccountEmailTransport"("accountKey");
+
+ALTER TABLE "AccountEmailTransport" ADD CONSTRAINT "AccountEmailTransport_accountKey_fkey" FOREIGN KEY ("accountKey") REFERENCES "Account"("key") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "EmailCampaignRecipient" ADD COLUMN "transport" TEXT;
+
+CREATE INDEX "EmailCampaignRecipient_accountKey_transport_idx" ON "EmailCampaignRecipient"("accountKey", "transport");
@@ -0,0 +1,15 @@
+-- Per-account seed list for template proofs sent before a campaign goes out.
+CREATE TABLE "EmailSeedAddress" (
+    "id"              TEXT NOT NULL,
+    "accountKey"      TEXT NOT NULL,
+    "email"           TEXT NOT NULL,
+    "label"           TEXT,
+    "createdByUserId" TEXT,
+    "createdAt"       TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmailSeedAddress_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "EmailSeedAddress_accountKey_email_key" ON "EmailSeedAddress"("accountKey", "email");
+
+ALTER TABLE "EmailSeedAddress" ADD CONSTRAINT "EmailSeedAddress_accountKey_fkey" FOREIGN KEY ("accountKey") REFERENCES "Account"("key") ON DELETE CASCADE ON UPDATE CASCADE;
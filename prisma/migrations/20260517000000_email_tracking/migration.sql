@@ -0,0 +1,6 @@
+-- Loomi open/click tracking for native email sends, with a per-account opt-out.
+ALTER TABLE "Account" ADD COLUMN "emailTrackingPolicy" TEXT;
+
+ALTER TABLE "EmailEvent" ADD COLUMN "recipientId" TEXT;
+ALTER TABLE "EmailEvent" ADD COLUMN "url"         TEXT;
+ALTER TABLE "EmailEvent" ADD COLUMN "userAgent"   TEXT;
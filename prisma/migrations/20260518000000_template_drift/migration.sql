@@ -0,0 +1,25 @@
+-- Template drift: per-provider sync baselines on ESP templates and a version history for pulls.
+ALTER TABLE "EspTemplate" ADD COLUMN "remoteSyncState" TEXT;
+ALTER TABLE "EspTemplate" ADD COLUMN "driftDetectedAt" TIMESTAMP(3);
+
+CREATE INDEX "EspTemplate_accountKey_driftDetectedAt_idx" ON "EspTemplate"("accountKey", "driftDetectedAt");
+
+CREATE TABLE "EspTemplateVersion" (
+    "id"              TEXT NOT NULL,
+    "templateId"      TEXT NOT NULL,
+    "html"            TEXT NOT NULL,
+    "markup"          TEXT,
+    "subject"         TEXT,
+    "previewText"     TEXT,
+    "origin"          TEXT NOT NULL,
+    "provider"        TEXT,
+    "remoteId"        TEXT,
+    "createdByUserId" TEXT,
+    "createdAt"       TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EspTemplateVersion_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "EspTemplateVersion_templateId_createdAt_idx" ON "EspTemplateVersion"("templateId", "createdAt");
+
+ALTER TABLE "EspTemplateVersion" ADD CONSTRAINT "EspTemplateVersion_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "EspTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- Saved sections: reusable component bundles that templates reference by pinned version.
+CREATE TABLE "SavedSection" (
+    "id"              TEXT NOT NULL,
+    "accountKey"      TEXT,
+    "name"            TEXT NOT NULL,
+    "description"     TEXT,
+    "version"         INTEGER NOT NULL DEFAULT 1,
+    "components"      TEXT NOT NULL,
+    "createdByUserId" TEXT,
+    "updatedByUserId" TEXT,
+    "createdAt"       TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"       TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SavedSection_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "SavedSection_accountKey_name_idx" ON "SavedSection"("accountKey", "name");
+
+ALTER TABLE "SavedSection" ADD CONSTRAINT "SavedSection_accountKey_fkey" FOREIGN KEY ("accountKey") REFERENCES "Account"("key") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "SavedSectionVersion" (
+    "id"              TEXT NOT NULL,
+    "sectionId"       TEXT NOT NULL,
+    "version"         INTEGER NOT NULL,
+    "components"      TEXT NOT NULL,
+    "note"            TEXT,
+    "createdByUserId" TEXT,
+    "createdAt"       TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SavedSectionVersion_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "SavedSectionVersion_sectionId_version_key" ON "SavedSectionVersion"("sectionId", "version");
+
+ALTER TABLE "SavedSectionVersion" ADD CONSTRAINT "SavedSectionVersion_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "SavedSection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- Loomi flow email steps: one campaign per step, idempotent sends per enrollment step run.
+ALTER TABLE "LoomiFlowEnrollment" ADD COLUMN "stepRunKey" TEXT;
+
+ALTER TABLE "EmailCampaign" ADD COLUMN "flowStepKey" TEXT;
+CREATE UNIQUE INDEX "EmailCampaign_flowStepKey_key" ON "EmailCampaign"("flowStepKey");
+
+ALTER TABLE "EmailCampaignRecipient" ADD COLUMN "sendKey" TEXT;
+CREATE UNIQUE INDEX "EmailCampaignRecipient_sendKey_key" ON "EmailCampaignRecipient"("sendKey");
+
+-- A flow step campaign can send to the same contact more than once.
+DROP INDEX "EmailCampaignRecipient_campaignId_contactId_accountKey_key";
+CREATE INDEX "EmailCampaignRecipient_campaignId_contactId_accountKey_idx" ON "EmailCampaignRecipient"("campaignId", "contactId", "accountKey");
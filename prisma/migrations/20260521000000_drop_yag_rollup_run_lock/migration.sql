@@ -0,0 +1,2 @@
+-- YAG rollup runs hold a job queue dedupe key instead of a per-config run flag.
+ALTER TABLE "YagRollupConfig" DROP COLUMN "currentRunStartedAt";
@@ -0,0 +1,10 @@
+-- Approvals now cover subject and preview text as well as HTML. Re-stamp
+-- existing approvals in the new format from the HTML hash they were given
+-- for, taking the current subject and preview text as the approved ones.
+UPDATE "EspTemplate"
+SET "approvedHtmlHash" = encode(sha256(convert_to(
+  encode(sha256(convert_to(COALESCE("subject", ''), 'UTF8')), 'hex') || ':' ||
+  encode(sha256(convert_to(COALESCE("previewText", ''), 'UTF8')), 'hex') || ':' ||
+  "approvedHtmlHash",
+  'UTF8')), 'hex')
+WHERE "approvedHtmlHash" IS NOT NULL;
@@ -0,0 +1,47 @@
+-- Opens and clicks now count once per recipient email per campaign; the raw
+-- event totals move to their own columns.
+ALTER TABLE "CampaignEmailStats" ADD COLUMN "openEventCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "CampaignEmailStats" ADD COLUMN "clickEventCount" INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE "EmailEngagementMarker" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmailEngagementMarker_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "EmailEngagementMarker_provider_accountId_campaignId_email_eventType_key"
+    ON "EmailEngagementMarker"("provider", "accountId", "campaignId", "email", "eventType");
+
+-- Backfill: existing counters were raw event totals.
+UPDATE "CampaignEmailStats"
+SET "openEventCount" = "openedCount", "clickEventCount" = "clickedCount";
+
+INSERT INTO "EmailEngagementMarker" ("id", "provider", "accountId", "campaignId", "email", "eventType", "createdAt")
+SELECT
+  'eem_' || md5("provider" || ':' || "accountId" || ':' || "campaignId" || ':' || "email" || ':' || "eventType"),
+  "provider", "accountId", "campaignId", "email", "eventType", MIN("occurredAt")
+FROM "EmailEvent"
+WHERE "email" IS NOT NULL AND "eventType" IN ('opened', 'clicked')
+GROUP BY "provider", "accountId", "campaignId", "email", "eventType";
+
+UPDATE "CampaignEmailStats" AS s
+SET
+  "openedCount" = COALESCE(m."opened", 0),
+  "clickedCount" = COALESCE(m."clicked", 0)
+FROM (
+  SELECT
+    "provider",
+    "accountId",
+    "campaignId",
+    COUNT(*) FILTER (WHERE "eventType" = 'opened') AS "opened",
+    COUNT(*) FILTER (WHERE "eventType" = 'clicked') AS "clicked"
+  FROM "EmailEngagementMarker"
+  GROUP BY "provider", "accountId", "campaignId"
+) AS m
+WHERE s."provider" = m."provider" AND s."accountId" = m."accountId" AND s."campaignId" = m."campaignId";
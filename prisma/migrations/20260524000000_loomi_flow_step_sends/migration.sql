@@ -0,0 +1,15 @@
+-- Send markers for Loomi flow SMS steps, so a retried step never resends.
+CREATE TABLE "LoomiFlowStepSend" (
+    "sendKey"      TEXT NOT NULL,
+    "enrollmentId" TEXT NOT NULL,
+    "status"       TEXT NOT NULL DEFAULT 'sending',
+    "messageId"    TEXT,
+    "createdAt"    TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt"    TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LoomiFlowStepSend_pkey" PRIMARY KEY ("sendKey")
+);
+
+CREATE INDEX "LoomiFlowStepSend_enrollmentId_idx" ON "LoomiFlowStepSend"("enrollmentId");
+
+ALTER TABLE "LoomiFlowStepSend" ADD CONSTRAINT "LoomiFlowStepSend_enrollmentId_fkey" FOREIGN KEY ("enrollmentId") REFERENCES "LoomiFlowEnrollment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,156 @@
+import path from 'node:path';
+import { readFile } from 'node:fs/promises';
+import { normalizeContact, requestContacts } from '@/lib/esp/adapters/mailchimp/contacts';
+import { fetchCampaignAnalytics, fetchCampaigns } from '@/lib/esp/adapters/mailchimp/campaigns';
+import { mergeTagForFieldKey, syncCustomValues } from '@/lib/esp/adapters/mailchimp/custom-values';
+import { listMedia } from '@/lib/esp/adapters/mailchimp/media';
+import { mailchimpBaseUrl, subscriberHash } from '@/lib/esp/adapters/mailchimp/client';
+
+// Replays recorded Mailchimp Marketing API responses through the adapter
+// modules with fetch stubbed out, so no network access or database is needed.
+
+type JsonObject = Record<string, unknown>;
+
+const FIXTURE_DIR = path.join(process.cwd(), 'scripts', 'fixtures', 'mailchimp');
+const API_KEY = '0123456789abcdef0123456789abcdef-us21';
+const AUDIENCE_ID = 'a1b2c3d4e5';
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+async function loadFixture(name: string): Promise<JsonObject> {
+  const raw = await readFile(path.join(FIXTURE_DIR, name), 'utf8');
+  return JSON.parse(raw) as JsonObject;
+}
+
+type RecordedCall = { method: string; path: string; body: JsonObject | null };
+
+/**
+ * Stub global fetch: `routes` maps "METHOD /path" (query string ignored) to a
+ * response body. Unrouted calls fail the run.
+ */
+function stubFetch(routes: Record<string, JsonObject | null>): RecordedCall[] {
+  const calls: RecordedCall[] = [];
+  const base = mailchimpBaseUrl(API_KEY);
+
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input instanceof Request ? input.url : input);
+    assert(url.startsWith(base), `Unexpected request outside the Marketing API: ${url}`);
+    const method = (init?.method || 'GET').toUpperCase();
+    const apiPath = url.slice(base.length).split('?')[0];
+    const body = typeof init?.body === 'string' ? JSON.parse(init.body) as JsonObject : null;
+    calls.push({ method, path: apiPath, body });
+
+    const key = `${method} ${apiPath}`;
+    assert(key in routes, `No recorded response for ${key}`);
+    const response = routes[key];
+    return response === null
+      ? new Response(null, { status: 204 })
+      : new Response(JSON.stringify(response), { status: 200, headers: { 'content-type': 'application/json' } });
+  }) as typeof fetch;
+
+  return calls;
+}
+
+async function runContactsScenario() {
+  const members = await loadFixture('list-members.json');
+  stubFetch({ [`GET /lists/${AUDIENCE_ID}/members`]: members });
+
+  const { contacts, total } = await requestContacts({ token: API_KEY, locationId: AUDIENCE_ID, limit: 50, search: '' });
+  assert(total === 2 && contacts.length === 2, `Expected 2 members (got ${contacts.length}/${total})`);
+
+  const jordan = normalizeContact(contacts[0]);
+  assert(jordan.fullName === 'Jordan Lee', `Unexpected full name "${jordan.fullName}"`);
+  assert(jordan.city === 'Springfield' && jordan.postalCode === '62701', 'Address merge field was not mapped');
+  assert(jordan.vehicleModel === 'RAV4' && jordan.vehicleMake === 'Toyota', 'Vehicle merge field aliases were not mapped');
+  assert(jordan.lastServiceDate === '2026-03-14', 'Service date merge field was not mapped');
+  assert(jordan.tags.join(',') === 'service-due,vip', `Unexpected tags ${jordan.tags.join(',')}`);
+  assert(jordan.hasReceivedEmail === true, 'Engagement averages should mark the contact as emailed');
+
+  const sam = normalizeContact(contacts[1]);
+  assert(sam.fullName === 'sam@example.com', 'Nameless members should fall back to their email');
+  assert(sam.dateAdded === '2026-01-10T12:00:00+00:00', 'dateAdded should fall back to timestamp_opt');
+  assert(sam.hasReceivedEmail === false && sam.address1 === '', 'Empty member fields should normalize to blanks');
+
+  assert(subscriberHash(' Jordan.Lee@Example.com ') === subscriberHash('jordan.lee@example.com'), 'Subscriber hash must be case-insensitive');
+}
+
+async function runCampaignsScenario() {
+  stubFetch({
+    'GET /campaigns': await loadFixture('campaigns.json'),
+    'GET /reports/42694e9e57': await loadFixture('campaign-report.json'),
+  });
+
+  const campaigns = await fetchCampaigns(API_KEY, AUDIENCE_ID, { forceRefresh: true });
+  assert(campaigns.length === 3, `Expected 3 campaigns (got ${campaigns.length})`);
+  const [sent, scheduled, draft] = campaigns;
+  assert(sent.status === 'sent' && sent.sentAt === '2026-04-02T15:00:00+00:00', 'Sent campaign status/sentAt mismatch');
+  assert(sent.openedCount === 480 && sent.clickedCount === 96, 'Report summary was not mapped');
+  assert(scheduled.status === 'scheduled' && scheduled.scheduledAt === '2026-05-01T16:00:00+00:00', 'Scheduled campaign mismatch');
+  assert(scheduled.name === 'May lease-end reminder', 'Untitled campaigns should fall back to the subject line');
+  assert(draft.status === 'draft' && !draft.sentAt, 'Draft campaign mismatch');
+
+  const analytics = await fetchCampaignAnalytics(API_KEY, AUDIENCE_ID, { campaignId: '42694e9e57' });
+  assert(analytics.sentCount === 1200 && analytics.bouncedCount === 20, 'Report totals mismatch');
+  assert(analytics.deliveredCount === 1180, `Delivered should exclude bounces (got ${String(analytics.deliveredCount)})`);
+  assert(analytics.unsubscribedCount === 7 && analytics.openRate === 0.4, 'Report rates mismatch');
+}
+
+async function runCustomValuesScenario() {
+  const calls = stubFetch({
+    [`GET /lists/${AUDIENCE_ID}/merge-fields`]: await loadFixture('merge-fields.json'),
+    [`PATCH /lists/${AUDIENCE_ID}/merge-fields/5`]: { merge_id: 5, tag: 'CRM_NAME', name: 'CRM Name', default_value: 'Loomi Motors' },
+    [`POST /lists/${AUDIENCE_ID}/merge-fields`]: { merge_id: 8, tag: 'SERVICE_PH', name: 'Service Phone', default_value: '+15555550111' },
+    [`DELETE /lists/${AUDIENCE_ID}/merge-fields/7`]: null,
+  });
+
+  assert(mergeTagForFieldKey('custom_values.service_phone') === 'SERVICE_PH', 'Merge tags must be capped at 10 characters');
+
+  const result = await syncCustomValues(API_KEY, AUDIENCE_ID, [
+    { name: 'CRM Name', fieldKey: 'crm_name', value: 'Loomi Motors' },
+    { name: 'Main Phone', fieldKey: 'phone_main', value: '+15555550100' },
+    { name: 'Service Phone', fieldKey: 'custom_values.service_phone', value: '+15555550111' },
+  ], ['CRM Name', 'Main Phone', 'Service Phone', 'Old Promo']);
+
+  assert(result.errors.length === 0, `Sync errors: ${JSON.stringify(result.errors)}`);
+  assert(result.updated.join() === 'crm_name', `Unexpected updates ${result.updated.join()}`);
+  assert(result.skipped.join() === 'phone_main', `Unexpected skips ${result.skipped.join()}`);
+  assert(result.created.join() === 'custom_values.service_phone', `Unexpected creates ${result.created.join()}`);
+  assert(result.deleted.join() === 'OLD_PROMO', `Unexpected deletes ${result.deleted.join()}`);
+
+  const created = calls.find((call) => call.method === 'POST');
+  assert(created?.body?.tag === 'SERVICE_PH' && created.body.default_value === '+15555550111', 'Created merge field payload mismatch');
+  assert(!calls.some((call) => call.path.endsWith('/merge-fields/1')), 'Unmanaged merge fields must not be touched');
+}
+
+async function runMediaScenario() {
+  stubFetch({ 'GET /file-manager/files': await loadFixture('file-manager-files.json') });
+
+  const page = await listMedia(API_KEY, AUDIENCE_ID, { limit: 2 });
+  assert(page.files.length === 2 && page.total === 5, 'File Manager page mismatch');
+  assert(page.nextCursor === '2', `Next cursor should be the next offset (got ${String(page.nextCursor)})`);
+  assert(page.files[0].id === '9001' && page.files[0].type === 'image', 'File id/type mismatch');
+  assert(page.files[1].thumbnailUrl === page.files[1].url, 'Files without thumbnails should fall back to the file URL');
+}
+
+async function main() {
+  const originalFetch = globalThis.fetch;
+  try {
+    await runContactsScenario();
+    await runCampaignsScenario();
+    await runCustomValuesScenario();
+    await runMediaScenario();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+  console.log('Mailchimp fixtures passed: contacts, campaigns + reports, merge-field sync, File Manager');
+}
+
+main()
+  .catch((err) => {
+    console.error('Mailchimp fixture validation failed:', err);
+    process.exit(1);
+  });
@@ -4,9 +4,11 @@ import path from 'node:path';
 import { readFile } from 'node:fs/promises';
 import { NextRequest } from 'next/server';
 import '@/lib/esp/init';
+import { prisma } from '@/lib/prisma';
 import {
   POST as providerFamilyPostRoute,
 } from '@/app/api/webhooks/esp/[provider]/[family]/route';
+import { computeMandrillSignature } from '@/lib/esp/adapters/mailchimp/webhook';
 
 type JsonObject = Record<string, unknown>;
 
@@ -32,6 +34,57 @@ function applyReplacements<T>(value: T, replacements: Record<string, string>): T
   return JSON.parse(encoded) as T;
 }
 
+/**
+ * Stand in for the Prisma calls the email-stats store makes, keeping ingested
+ * event ids in memory so the handlers (including retry dedupe) run without a
+ * database.
+ */
+function stubEmailStatsPersistence() {
+  const eventIds = new Set<string>();
+  const engagementMarkers = new Set<string>();
+  const state = { failWrites: false };
+  const tx = {
+    emailEvent: {
+      create: async ({ data }: { data: { providerEventId: string } }) => {
+        if (state.failWrites) throw new Error('Database unavailable');
+        if (eventIds.has(data.providerEventId)) {
+          throw Object.assign(new Error('Unique constraint failed'), {
+            code: 'P2002',
+            meta: { target: ['providerEventId'] },
+          });
+        }
+        eventIds.add(data.providerEventId);
+        return data;
+      },
+    },
+    emailEngagementMarker: {
+      createMany: async ({ data }: { data: Array<Record<string, string>> }) => {
+        let count = 0;
+        for (const row of data) {
+          const key = [row.provider, row.accountId, row.campaignId, row.email, row.eventType].join('|');
+          if (engagementMarkers.has(key)) continue;
+          engagementMarkers.add(key);
+          count += 1;
+        }
+        return { count };
+      },
+    },
+    campaignEmailStats: {
+      upsert: async () => ({}),
+      updateMany: async () => ({ count: 1 }),
+    },
+  };
+
+  const client = prisma as unknown as Record<string, Record<string, unknown>>;
+  client.espConnection.findFirst = async () => null;
+  client.espOAuthConnection.findFirst = async () => null;
+  client.account.findUnique = async () => null;
+  (prisma as unknown as Record<string, unknown>).$transaction = async (
+    run: (client: typeof tx) => Promise<unknown>,
+  ) => run(tx);
+  return state;
+}
+
 function buildPostRequest(params: {
   url: string;
   body: JsonObject;
@@ -47,7 +100,7 @@ function buildPostRequest(params: {
   }));
 }
 
-async function runKlaviyoFixtureScenario() {
+async function runKlaviyoFixtureScenario(persistence: { failWrites: boolean }) {
   const scenarioId = `__webhook-fixture__:klaviyo:${Date.now()}`;
   const accountId = `${scenarioId}:account`;
   const campaignId = `${scenarioId}:campaign`;
@@ -71,7 +124,7 @@ async function runKlaviyoFixtureScenario() {
     .update(timestamp)
     .digest('hex');
 
-  const res = await providerFamilyPostRoute(
+  const post = () => providerFamilyPostRoute(
     buildPostRequest({
       url: 'http://localhost/api/webhooks/esp/klaviyo/email-stats',
       body: payload,
@@ -82,7 +135,80 @@ async function runKlaviyoFixtureScenario() {
     }),
     { params: Promise.resolve({ provider: 'klaviyo', family: 'email-stats' }) },
   );
+
+  // Lost writes must make the provider redeliver the batch.
+  persistence.failWrites = true;
+  const failedWrite = await post();
+  persistence.failWrites = false;
+  assert(failedWrite.status >= 500, `Klaviyo fixture should fail when events can't be stored (received ${failedWrite.status})`);
+
+  const res = await post();
   assert(res.status === 200, `Klaviyo fixture failed (${res.status})`);
+  const first = await res.json() as JsonObject;
+  assert(first.updated === 2, `Klaviyo fixture should record 2 events (recorded ${String(first.updated)})`);
+
+  // Provider retries must not double count.
+  const retry = await post();
+  assert(retry.status === 200, `Klaviyo retry fixture failed (${retry.status})`);
+  const second = await retry.json() as JsonObject;
+  assert(
+    second.updated === 0 && second.duplicates === 2,
+    `Klaviyo retry should be deduplicated (updated ${String(second.updated)}, duplicates ${String(second.duplicates)})`,
+  );
+}
+
+async function runMailchimpFixtureScenario() {
+  const scenarioId = `__webhook-fixture__:mailchimp:${Date.now()}`;
+  const accountId = `${scenarioId}:audience`;
+  const campaignId = `${scenarioId}:campaign`;
+  const timestamp = String(Math.floor(Date.now() / 1000));
+
+  const payload = applyReplacements(
+    await loadFixture('mailchimp-email-events.json'),
+    {
+      '__ACCOUNT_ID__': accountId,
+      '__CAMPAIGN_ID__': campaignId,
+      '__MESSAGE_ID__': `${scenarioId}:message`,
+      '__TIMESTAMP__': timestamp,
+    },
+  );
+
+  const url = 'http://localhost/api/webhooks/esp/mailchimp/email-stats';
+  const key = process.env.MAILCHIMP_WEBHOOK_KEY || `fixture-key-${Date.now()}`;
+  const env = process.env as Record<string, string | undefined>;
+  env.MAILCHIMP_WEBHOOK_KEY = key;
+  env.MAILCHIMP_WEBHOOK_URL = url;
+  // Mandrill posts form-encoded batches and signs the URL + sorted params.
+  const rawBody = new URLSearchParams({ mandrill_events: JSON.stringify(payload.mandrill_events) }).toString();
+  const signature = computeMandrillSignature(key, url, rawBody);
+
+  const post = (sig: string) => providerFamilyPostRoute(
+    new NextRequest(new Request(url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/x-www-form-urlencoded',
+        'x-mandrill-signature': sig,
+      },
+      body: rawBody,
+    })),
+    { params: Promise.resolve({ provider: 'mailchimp', family: 'email-stats' }) },
+  );
+
+  const forged = await post(computeMandrillSignature(`${key}-wrong`, url, rawBody));
+  assert(forged.status === 401, `Mailchimp forged signature should be rejected (received ${forged.status})`);
+
+  const res = await post(signature);
+  assert(res.status === 200, `Mailchimp fixture failed (${res.status})`);
+  const first = await res.json() as JsonObject;
+  assert(first.updated === 2, `Mailchimp fixture should record 2 events (recorded ${String(first.updated)})`);
+
+  const retry = await post(signature);
+  assert(retry.status === 200, `Mailchimp retry fixture failed (${retry.status})`);
+  const second = await retry.json() as JsonObject;
+  assert(
+    second.updated === 0 && second.duplicates === 2,
+    `Mailchimp retry should be deduplicated (updated ${String(second.updated)}, duplicates ${String(second.duplicates)})`,
+  );
 }
 
 async function runUnsupportedFamilyScenario() {
@@ -101,9 +227,11 @@ async function runUnsupportedFamilyScenario() {
 }
 
 async function main() {
-  await runKlaviyoFixtureScenario();
+  const persistence = stubEmailStatsPersistence();
+  await runKlaviyoFixtureScenario(persistence);
+  await runMailchimpFixtureScenario();
   await runUnsupportedFamilyScenario();
-  console.log('Webhook fixtures passed: Klaviyo email-stats handler + unknown-family guard');
+  console.log('Webhook fixtures passed: Klaviyo + Mailchimp email-stats handlers + retry dedupe + failed-write retry + unknown-family guard');
 }
 
 main()
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Session } from 'next-auth';
+import { requireAuth } from '@/lib/api-auth';
+import { hasUnrestrictedAccountAccess, type UserRole } from '@/lib/roles';
+import { getBrandCompleteness } from '@/lib/services/brand-kit';
+
+function canAccessAccount(session: Session, key: string): boolean {
+  const accountKeys = session.user.accountKeys ?? [];
+  return hasUnrestrictedAccountAccess(session.user.role as UserRole, accountKeys) || accountKeys.includes(key);
+}
+
+/**
+ * GET /api/accounts/[key]/brand-kit
+ *
+ * Brand completeness check: the value each theme token resolves to for this
+ * account, the tokens its brand kit is missing and the account's templates
+ * that use one of them.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ key: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { key } = await params;
+  if (!canAccessAccount(session!, key)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const completeness = await getBrandCompleteness(key);
+    if (!completeness) return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    return NextResponse.json(completeness);
+  } catch (err) {
+    console.error('[brand-kit] Failed to check brand completeness:', err);
+    return NextResponse.json({ error: 'Failed to check brand completeness' }, { status: 500 });
+  }
+}
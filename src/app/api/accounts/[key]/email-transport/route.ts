@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Session } from 'next-auth';
+import { requireRole } from '@/lib/api-auth';
+import { MANAGEMENT_ROLES } from '@/lib/auth';
+import { hasUnrestrictedAccountAccess, type UserRole } from '@/lib/roles';
+import { auditActorFromSession } from '@/lib/services/audit-log';
+import {
+  EmailTransportError,
+  getAccountEmailTransportSettings,
+  removeAccountEmailTransport,
+  saveAccountEmailTransportSettings,
+} from '@/lib/services/email-transport';
+
+function canManageAccount(session: Session, key: string): boolean {
+  const accountKeys = session.user.accountKeys ?? [];
+  return hasUnrestrictedAccountAccess(session.user.role as UserRole, accountKeys) || accountKeys.includes(key);
+}
+
+function transportErrorResponse(err: unknown, fallback: string) {
+  if (err instanceof EmailTransportError) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+  console.error(`[email-transport] ${fallback}:`, err);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+/**
+ * GET /api/accounts/[key]/email-transport
+ *
+ * How Loomi-native email campaigns for this account are sent. Never returns
+ * the SMTP password — only whether one is stored.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ key: string }> },
+) {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  const { key } = await params;
+  if (!canManageAccount(session!, key)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    return NextResponse.json({ transport: await getAccountEmailTransportSettings(key) });
+  } catch (err) {
+    return transportErrorResponse(err, 'Failed to load email transport');
+  }
+}
+
+/**
+ * PUT /api/accounts/[key]/email-transport
+ *
+ * Body: { provider: 'sendgrid' | 'klaviyo' | 'smtp', fromEmail, fromName?, replyTo?,
+ *         smtpHost?, smtpPort?, smtpUser?, smtpPass? }
+ * SendGrid and Klaviyo require the provider to be connected on the account.
+ * Leave smtpPass empty to keep the stored password.
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ key: string }> },
+) {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  const { key } = await params;
+  if (!canManageAccount(session!, key)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const body = await req.json();
+    const transport = await saveAccountEmailTransportSettings(key, body, auditActorFromSession(session));
+    return NextResponse.json({ transport });
+  } catch (err) {
+    return transportErrorResponse(err, 'Failed to save email transport');
+  }
+}
+
+/**
+ * DELETE /api/accounts/[key]/email-transport
+ *
+ * Remove the account's transport; campaigns fall back to the global SMTP relay.
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ key: string }> },
+) {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  const { key } = await params;
+  if (!canManageAccount(session!, key)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const transport = await removeAccountEmailTransport(key, auditActorFromSession(session));
+    return NextResponse.json({ transport });
+  } catch (err) {
+    return transportErrorResponse(err, 'Failed to remove email transport');
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { MANAGEMENT_ROLES } from '@/lib/auth';
+import { hasUnrestrictedAccountAccess, type UserRole } from '@/lib/roles';
+import {
+  EmailTransportError,
+  sendAccountEmailTransportTest,
+} from '@/lib/services/email-transport';
+
+/**
+ * POST /api/accounts/[key]/email-transport/test
+ *
+ * Body: { to }. Sends a test message through the account's saved transport
+ * (or the global SMTP relay when none is configured).
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ key: string }> },
+) {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  const { key } = await params;
+  const accountKeys = session!.user.accountKeys ?? [];
+  if (!hasUnrestrictedAccountAccess(session!.user.role as UserRole, accountKeys) && !accountKeys.includes(key)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const { to } = await req.json();
+    const result = await sendAccountEmailTransportTest(key, to);
+    return NextResponse.json({ success: true, ...result });
+  } catch (err) {
+    if (err instanceof EmailTransportError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : 'Failed to send test email';
+    return NextResponse.json({ error: message }, { status: 502 });
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireRole } from '@/lib/api-auth';
 import { MANAGEMENT_ROLES } from '@/lib/auth';
 import * as accountService from '@/lib/services/accounts';
+import { auditActorFromSession } from '@/lib/services/audit-log';
 import { resolveAdapterAndCredentials, isResolveError } from '@/lib/esp/route-helpers';
 import type { MediaUploadInput } from '@/lib/esp/types';
 import fs from 'fs';
@@ -69,7 +70,7 @@ export async function POST(
   req: NextRequest,
   { params }: { params: Promise<{ key: string }> },
 ) {
-  const { error } = await requireRole(...MANAGEMENT_ROLES);
+  const { error, session } = await requireRole(...MANAGEMENT_ROLES);
   if (error) return error;
 
   try {
@@ -163,7 +164,7 @@ export async function POST(
       };
       await accountService.updateAccount(key, {
         customValues: JSON.stringify(existingCustomValues),
-      });
+      }, auditActorFromSession(session));
     } else {
       let logos: Record<string, unknown> = {};
       if (account.logos) {
@@ -176,7 +177,7 @@ export async function POST(
       logos[variant] = url;
       await accountService.updateAccount(key, {
         logos: JSON.stringify(logos),
-      });
+      }, auditActorFromSession(session));
     }
 
     return NextResponse.json({ url, source });
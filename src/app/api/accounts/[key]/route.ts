@@ -2,7 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireRole } from '@/lib/api-auth';
 import { MANAGEMENT_ROLES } from '@/lib/auth';
 import { normalizeOems } from '@/lib/oems';
+import { normalizeSmsSendPolicy } from '@/lib/sms-send-policy';
+import { normalizeEmailTrackingPolicy } from '@/lib/email-tracking-options';
 import * as accountService from '@/lib/services/accounts';
+import { auditActorFromSession } from '@/lib/services/audit-log';
 import '@/lib/esp/init';
 import { getAdapterForAccount } from '@/lib/esp/registry';
 import type { CustomValueInput, EspCredentials } from '@/lib/esp/types';
@@ -142,8 +145,22 @@ export async function PATCH(
             : JSON.stringify(body.customValues);
     }
 
+    if ('smsSendPolicy' in body) {
+      updatePayload.smsSendPolicy =
+        body.smsSendPolicy && typeof body.smsSendPolicy === 'object'
+          ? JSON.stringify(normalizeSmsSendPolicy(body.smsSendPolicy))
+          : '';
+    }
+
+    if ('emailTrackingPolicy' in body) {
+      updatePayload.emailTrackingPolicy =
+        body.emailTrackingPolicy && typeof body.emailTrackingPolicy === 'object'
+          ? JSON.stringify(normalizeEmailTrackingPolicy(body.emailTrackingPolicy))
+          : '';
+    }
+
     // previewValues replaces entirely if provided
-    const saved = await accountService.updateAccount(key, updatePayload);
+    const saved = await accountService.updateAccount(key, updatePayload, auditActorFromSession(session));
 
     // ── Provider sync: push business details/custom values when supported ──
     const normalizeComparable = (value: unknown) =>
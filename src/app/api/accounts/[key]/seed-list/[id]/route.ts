@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import { hasUnrestrictedAccountAccess, type UserRole } from '@/lib/roles';
+import { EmailProofError, removeSeedAddress } from '@/lib/services/email-proofs';
+
+/**
+ * DELETE /api/accounts/[key]/seed-list/[id]
+ *
+ * Remove one address from the account's seed list.
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ key: string; id: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { key, id } = await params;
+  const accountKeys = session!.user.accountKeys ?? [];
+  if (!hasUnrestrictedAccountAccess(session!.user.role as UserRole, accountKeys) && !accountKeys.includes(key)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    await removeSeedAddress(key, id);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    if (err instanceof EmailProofError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[seed-list] Failed to remove seed address:', err);
+    return NextResponse.json({ error: 'Failed to remove seed address' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Session } from 'next-auth';
+import { requireAuth } from '@/lib/api-auth';
+import { hasUnrestrictedAccountAccess, type UserRole } from '@/lib/roles';
+import { EmailProofError, addSeedAddress, listSeedAddresses } from '@/lib/services/email-proofs';
+
+function canAccessAccount(session: Session, key: string): boolean {
+  const accountKeys = session.user.accountKeys ?? [];
+  return hasUnrestrictedAccountAccess(session.user.role as UserRole, accountKeys) || accountKeys.includes(key);
+}
+
+/**
+ * GET /api/accounts/[key]/seed-list
+ *
+ * Inbox seed addresses that template proofs for this account are sent to.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ key: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { key } = await params;
+  if (!canAccessAccount(session!, key)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    return NextResponse.json({ seeds: await listSeedAddresses(key) });
+  } catch (err) {
+    console.error('[seed-list] Failed to load seed list:', err);
+    return NextResponse.json({ error: 'Failed to load seed list' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/accounts/[key]/seed-list
+ *
+ * Body: { email, label? }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ key: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { key } = await params;
+  if (!canAccessAccount(session!, key)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const seed = await addSeedAddress(key, body, session!.user.id);
+    return NextResponse.json({ seed }, { status: 201 });
+  } catch (err) {
+    if (err instanceof EmailProofError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[seed-list] Failed to add seed address:', err);
+    return NextResponse.json({ error: 'Failed to add seed address' }, { status: 500 });
+  }
+}
@@ -11,8 +11,10 @@ import { parseEspProvider, providerValidationMessage } from '@/lib/esp/provider-
 import { listOAuthConnections } from '@/lib/esp/oauth-connections';
 import { listApiKeyConnections } from '@/lib/esp/api-key-connections';
 import { listAccountProviderLinks } from '@/lib/esp/account-provider-links';
+import { getLatestConnectionHealth } from '@/lib/esp/connection-health';
 import { getIndustryDefaults } from '@/data/industry-defaults';
 import { hasUnrestrictedAccountAccess } from '@/lib/roles';
+import { auditActorFromSession } from '@/lib/services/audit-log';
 
 export async function GET() {
   const { session, error } = await requireAuth();
@@ -29,10 +31,11 @@ export async function GET() {
 
     // Fetch connection status in bulk (provider-agnostic OAuth + API-key rows)
     const allKeys = accounts.map(a => a.key);
-    const [oauthConnections, espConnections, accountProviderLinks] = await Promise.all([
+    const [oauthConnections, espConnections, accountProviderLinks, healthChecks] = await Promise.all([
       listOAuthConnections({ accountKeys: allKeys }),
       listApiKeyConnections({ accountKeys: allKeys }),
       listAccountProviderLinks({ accountKeys: allKeys }).catch(() => []),
+      getLatestConnectionHealth(allKeys).catch(() => []),
     ]);
     const oauthByAccount = new Map<string, Array<{
       provider: string;
@@ -83,6 +86,23 @@ export async function GET() {
       espByAccount.set(connection.accountKey, list);
     }
 
+    const healthByAccount = new Map<string, Array<{
+      provider: string;
+      status: string;
+      issues: string[];
+      checkedAt: string;
+    }>>();
+    for (const check of healthChecks) {
+      const list = healthByAccount.get(check.accountKey) || [];
+      list.push({
+        provider: check.provider,
+        status: check.status,
+        issues: check.issues.map((issue) => issue.message),
+        checkedAt: check.checkedAt,
+      });
+      healthByAccount.set(check.accountKey, list);
+    }
+
     // Return as key-indexed account map: { [accountKey]: accountData }
     const result: Record<string, Record<string, unknown>> = {};
     for (const account of accounts) {
@@ -107,6 +127,7 @@ export async function GET() {
         espConnections: esp,
       });
       Object.assign(data, metadata);
+      data.connectionHealth = healthByAccount.get(key) || [];
       result[key] = data;
     }
     return NextResponse.json(result);
@@ -116,7 +137,7 @@ export async function GET() {
 }
 
 export async function POST(req: NextRequest) {
-  const { error } = await requireRole(...ELEVATED_ROLES);
+  const { error, session } = await requireRole(...ELEVATED_ROLES);
   if (error) return error;
   try {
     const payload = await req.json() as Record<string, unknown>;
@@ -216,7 +237,7 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    const account = await accountService.createAccount(accountData);
+    const account = await accountService.createAccount(accountData, auditActorFromSession(session));
     return NextResponse.json({ key: account.key, dealer: account.dealer });
   } catch (err) {
     return NextResponse.json({ error: String(err) }, { status: 500 });
@@ -224,7 +245,7 @@ export async function POST(req: NextRequest) {
 }
 
 export async function DELETE(req: NextRequest) {
-  const { error } = await requireRole(...ELEVATED_ROLES);
+  const { error, session } = await requireRole(...ELEVATED_ROLES);
   if (error) return error;
   try {
     const key = req.nextUrl.searchParams.get('key');
@@ -237,7 +258,7 @@ export async function DELETE(req: NextRequest) {
       return NextResponse.json({ error: 'Account not found' }, { status: 404 });
     }
 
-    await accountService.deleteAccount(key);
+    await accountService.deleteAccount(key, auditActorFromSession(session));
     return NextResponse.json({ success: true });
   } catch (err) {
     return NextResponse.json({ error: String(err) }, { status: 500 });
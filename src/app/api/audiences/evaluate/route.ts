@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import { AudienceSelectionError, resolveAudienceSelection } from '@/lib/services/audiences';
+import { evaluateAudienceFromIndex } from '@/lib/services/contact-index';
+
+/**
+ * POST /api/audiences/evaluate
+ * Evaluate an audience (by `audienceId` or inline `filters`; every contact
+ * when neither is given) against the server-side contact index. Returns exact
+ * per-account counts and one page of matching contacts.
+ */
+export async function POST(req: Request) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    const selection = await resolveAudienceSelection(session!.user, body ?? {});
+    const evaluation = await evaluateAudienceFromIndex({
+      definition: selection.definition,
+      accountKeys: selection.accountKeys,
+      page: Number(body?.page) || 1,
+      pageSize: Math.min(500, Number(body?.pageSize) || 100),
+    });
+    return NextResponse.json(evaluation);
+  } catch (err) {
+    if (err instanceof AudienceSelectionError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    const message = err instanceof Error ? err.message : 'Failed to evaluate audience';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
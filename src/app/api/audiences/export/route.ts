@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import * as accountService from '@/lib/services/accounts';
+import * as audienceService from '@/lib/services/audiences';
+import { scanIndexedContacts } from '@/lib/services/contact-index';
+import { filterAccountKeysByAccess } from '@/lib/roles';
+import { parseFilterDefinition, type FilterDefinition } from '@/lib/smart-list-types';
+import { contactExportRow, resolveExportColumns, toCsv } from '@/lib/contact-csv';
+
+/**
+ * POST /api/audiences/export
+ * Export the contacts matching an audience (by `audienceId` or inline
+ * `filters`; all contacts when neither is given) from the server-side
+ * contact index as CSV. `columns` selects NormalizedContact fields.
+ */
+export async function POST(req: Request) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const body = await req.json().catch(() => ({}));
+  const audienceId = typeof body?.audienceId === 'string' ? body.audienceId.trim() : '';
+
+  let definition: FilterDefinition | null = null;
+  let audienceAccountKey: string | null = null;
+  let fileName = 'contacts';
+  if (audienceId) {
+    const audience = await audienceService.getAudience(audienceId);
+    if (!audience) {
+      return NextResponse.json({ error: 'Audience not found' }, { status: 404 });
+    }
+    definition = parseFilterDefinition(audience.filters);
+    audienceAccountKey = audience.accountKey;
+    fileName = audience.name;
+    if (!definition) {
+      return NextResponse.json({ error: 'Audience has an invalid filter definition' }, { status: 400 });
+    }
+  } else if (body?.filters) {
+    definition = parseFilterDefinition(body.filters);
+    if (!definition) {
+      return NextResponse.json({ error: 'A valid filter definition is required' }, { status: 400 });
+    }
+  }
+
+  const allAccounts = await accountService.getAccounts();
+  const allKeys = allAccounts.filter((account) => !account.key.startsWith('_')).map((account) => account.key);
+  const allowedKeys = filterAccountKeysByAccess(allKeys, session!.user.role, session!.user.accountKeys ?? []);
+  if (audienceAccountKey && !allowedKeys.includes(audienceAccountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const requestedKeys: string[] = Array.isArray(body?.accountKeys)
+    ? body.accountKeys.map((key: unknown) => String(key).trim()).filter(Boolean)
+    : [];
+  let selectedKeys = requestedKeys.length > 0
+    ? requestedKeys.filter((key) => allowedKeys.includes(key))
+    : allowedKeys;
+  if (audienceAccountKey) {
+    selectedKeys = selectedKeys.filter((key) => key === audienceAccountKey);
+  }
+  if (selectedKeys.length === 0) {
+    return NextResponse.json({ error: 'No accessible accounts selected' }, { status: 403 });
+  }
+
+  const columns = resolveExportColumns(body?.columns);
+  const includeAccount = selectedKeys.length > 1;
+  const rows: string[][] = [[
+    ...(includeAccount ? ['Account'] : []),
+    ...columns.map((column) => column.label),
+  ]];
+
+  try {
+    for (const accountKey of [...selectedKeys].sort()) {
+      await scanIndexedContacts({ accountKey, definition }, (contact) => {
+        rows.push([...(includeAccount ? [accountKey] : []), ...contactExportRow(contact, columns)]);
+      });
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to export contacts';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+
+  const safeName = fileName.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'contacts';
+  return new NextResponse(toCsv(rows), {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${safeName}.csv"`,
+      'X-Export-Row-Count': String(rows.length - 1),
+    },
+  });
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { ELEVATED_ROLES } from '@/lib/roles';
+import { toCsv } from '@/lib/contact-csv';
+import { collectAuditEvents, parseAuditEventFilters } from '@/lib/services/audit-log';
+
+const MAX_EXPORT_ROWS = 10000;
+
+const EXPORT_HEADERS = [
+  'Timestamp',
+  'Action',
+  'Target Type',
+  'Target ID',
+  'Target',
+  'Account',
+  'Actor ID',
+  'Actor',
+  'Actor Email',
+  'Actor Role',
+  'Impersonated By',
+  'Changes',
+  'Metadata',
+];
+
+/**
+ * GET /api/audit-log/export
+ *
+ * CSV of audit events matching the viewer filters (newest first, capped).
+ */
+export async function GET(req: NextRequest) {
+  const { error } = await requireRole(...ELEVATED_ROLES);
+  if (error) return error;
+
+  try {
+    const events = await collectAuditEvents(parseAuditEventFilters(req.nextUrl.searchParams), MAX_EXPORT_ROWS);
+    const csv = toCsv([
+      EXPORT_HEADERS,
+      ...events.map((event) => [
+        event.createdAt,
+        event.action,
+        event.targetType,
+        event.targetId,
+        event.targetLabel,
+        event.accountKey,
+        event.actorUserId,
+        event.actorName,
+        event.actorEmail,
+        event.actorRole,
+        event.impersonatorName || event.impersonatorUserId,
+        Object.keys(event.changes).length > 0 ? JSON.stringify(event.changes) : '',
+        Object.keys(event.metadata).length > 0 ? JSON.stringify(event.metadata) : '',
+      ]),
+    ]);
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="audit-log-${date}.csv"`,
+      },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to export audit log';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
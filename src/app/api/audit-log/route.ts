@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { ELEVATED_ROLES } from '@/lib/roles';
+import { listAuditEvents, parseAuditEventFilters } from '@/lib/services/audit-log';
+
+/**
+ * GET /api/audit-log
+ *
+ * Newest-first audit events. Filters: `accountKey`, `actorUserId`, `action`,
+ * `targetType`, `targetId`, `from`, `to`; paged with `cursor` + `limit`.
+ */
+export async function GET(req: NextRequest) {
+  const { error } = await requireRole(...ELEVATED_ROLES);
+  if (error) return error;
+
+  const { searchParams } = req.nextUrl;
+  const limitRaw = Number(searchParams.get('limit') || '50');
+
+  try {
+    const result = await listAuditEvents(parseAuditEventFilters(searchParams), {
+      limit: Number.isFinite(limitRaw) ? limitRaw : 50,
+      cursor: searchParams.get('cursor') || null,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to load audit log';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
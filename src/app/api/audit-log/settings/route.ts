@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { ELEVATED_ROLES } from '@/lib/roles';
+import {
+  auditActorFromSession,
+  getAuditLogSettings,
+  updateAuditLogSettings,
+} from '@/lib/services/audit-log';
+
+/**
+ * GET /api/audit-log/settings
+ *
+ * Current audit log retention policy.
+ */
+export async function GET() {
+  const { error } = await requireRole(...ELEVATED_ROLES);
+  if (error) return error;
+
+  return NextResponse.json({ settings: await getAuditLogSettings() });
+}
+
+/**
+ * PUT /api/audit-log/settings
+ *
+ * Body: { retentionDays: number }. Older events are deleted by the nightly
+ * `audit-events.prune` job.
+ */
+export async function PUT(req: NextRequest) {
+  const { session, error } = await requireRole(...ELEVATED_ROLES);
+  if (error) return error;
+
+  const body = await req.json().catch(() => ({}));
+  try {
+    const settings = await updateAuditLogSettings(
+      { retentionDays: body?.retentionDays },
+      auditActorFromSession(session),
+    );
+    return NextResponse.json({ settings });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to update audit settings';
+    return NextResponse.json({ error: message }, { status: message.includes('retentionDays') ? 400 : 500 });
+  }
+}
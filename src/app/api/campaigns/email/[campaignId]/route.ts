@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { hasUnrestrictedAccountAccess } from '@/lib/roles';
+import { cancelEmailCampaign, getEmailCampaign } from '@/lib/services/email-campaigns';
+import { auditActorFromSession } from '@/lib/services/audit-log';
+
+type RouteContext = { params: Promise<{ campaignId: string }> };
+
+/**
+ * PATCH /api/campaigns/email/:campaignId
+ *
+ * Body: { action: 'cancel' } — cancels a queued, scheduled or testing campaign.
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const { session, error } = await requireRole('developer', 'super_admin', 'admin', 'client');
+  if (error) return error;
+
+  const { campaignId } = await params;
+  const body = await req.json().catch(() => ({}));
+  if (body?.action !== 'cancel') {
+    return NextResponse.json({ error: 'action must be "cancel"' }, { status: 400 });
+  }
+
+  const campaign = await getEmailCampaign(campaignId);
+  if (!campaign) {
+    return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+  }
+
+  const userAccountKeys = session!.user.accountKeys ?? [];
+  if (
+    !hasUnrestrictedAccountAccess(session!.user.role, userAccountKeys) &&
+    !campaign.accountKeys.every((key) => userAccountKeys.includes(key))
+  ) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const canceled = await cancelEmailCampaign(campaignId, auditActorFromSession(session));
+    return NextResponse.json({ campaign: canceled });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to cancel campaign';
+    return NextResponse.json({ error: message }, { status: message.includes('cannot be canceled') ? 409 : 500 });
+  }
+}
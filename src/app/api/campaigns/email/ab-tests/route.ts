@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { hasUnrestrictedAccountAccess } from '@/lib/roles';
+import { listEmailAbTests } from '@/lib/services/email-ab-tests';
+
+/**
+ * GET /api/campaigns/email/ab-tests
+ *
+ * Recent A/B test campaigns with per-variant sends, open and click rates.
+ * Optional `accountKey` narrows to one account.
+ */
+export async function GET(req: NextRequest) {
+  const { session, error } = await requireRole('developer', 'super_admin', 'admin', 'client');
+  if (error) return error;
+
+  const limitRaw = Number(req.nextUrl.searchParams.get('limit') || '10');
+  const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(50, limitRaw)) : 10;
+  const accountKey = req.nextUrl.searchParams.get('accountKey')?.trim() || '';
+
+  const userAccountKeys = session!.user.accountKeys ?? [];
+  // Variant results are scoped to these accounts as well as the listing.
+  let accountKeys = hasUnrestrictedAccountAccess(session!.user.role, userAccountKeys)
+    ? undefined
+    : userAccountKeys;
+  if (accountKey) {
+    if (accountKeys && !accountKeys.includes(accountKey)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    accountKeys = [accountKey];
+  }
+
+  const tests = await listEmailAbTests({ limit, accountKeys });
+  return NextResponse.json({ tests });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import {
+  previewEmailCampaignPersonalization,
+  resolveAudienceEmailRecipients,
+} from '@/lib/services/email-campaigns';
+import { AudienceSelectionError, resolveAudienceSelection } from '@/lib/services/audiences';
+import { normalizeVariableFallbacks } from '@/lib/services/email-personalization';
+
+/**
+ * POST /api/campaigns/email/personalization
+ *
+ * Pre-send review: reports which recipients of the audience (`audienceId` or
+ * inline `filters`, across `accountKeys`) would render with empty merge
+ * fields so the sender can fix data or set fallbacks before sending.
+ */
+export async function POST(req: NextRequest) {
+  const { session, error } = await requireRole('developer', 'super_admin', 'admin', 'client');
+  if (error) return error;
+
+  const body = await req.json().catch(() => ({}));
+  const subject = typeof body?.subject === 'string' ? body.subject : '';
+  const htmlContent = typeof body?.htmlContent === 'string' ? body.htmlContent : '';
+
+  if (!subject.trim() && !htmlContent.trim()) {
+    return NextResponse.json({ error: 'subject or htmlContent is required' }, { status: 400 });
+  }
+
+  try {
+    const selection = await resolveAudienceSelection(session!.user, body ?? {});
+    const recipients = await resolveAudienceEmailRecipients(selection);
+    const report = await previewEmailCampaignPersonalization({
+      subject,
+      htmlContent,
+      previewText: typeof body?.previewText === 'string' ? body.previewText : '',
+      textContent: typeof body?.textContent === 'string' ? body.textContent : '',
+      recipients,
+      variableFallbacks: normalizeVariableFallbacks(body?.variableFallbacks),
+    });
+    return NextResponse.json({ report });
+  } catch (err) {
+    if (err instanceof AudienceSelectionError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[email-personalization] Report failed:', err);
+    return NextResponse.json({ error: 'Failed to build personalization report' }, { status: 500 });
+  }
+}
@@ -4,8 +4,20 @@ import {
   createEmailCampaign,
   listEmailCampaigns,
   processEmailCampaign,
+  resolveAudienceEmailRecipients,
   type EmailRecipientInput,
 } from '@/lib/services/email-campaigns';
+import {
+  AudienceSelectionError,
+  resolveAudienceSelection,
+  type AudienceSelection,
+} from '@/lib/services/audiences';
+import { normalizeVariableFallbacks } from '@/lib/services/email-personalization';
+import { normalizeEmailUtmParams } from '@/lib/email-tracking-options';
+import { parseEmailAbTest, type EmailAbTestInput } from '@/lib/services/email-ab-tests';
+import { auditActorFromSession } from '@/lib/services/audit-log';
+import { JobConflictError, runJobInline } from '@/lib/jobs/queue';
+import '@/lib/jobs/init';
 
 function parseDate(value: unknown): Date | null {
   if (typeof value !== 'string' || !value.trim()) return null;
@@ -14,26 +26,6 @@ function parseDate(value: unknown): Date | null {
   return date;
 }
 
-function normalizeRecipients(raw: unknown): EmailRecipientInput[] {
-  if (!Array.isArray(raw)) return [];
-  const recipients: EmailRecipientInput[] = [];
-  for (const item of raw) {
-    if (!item || typeof item !== 'object' || Array.isArray(item)) continue;
-    const row = item as Record<string, unknown>;
-    const contactId = String(row.contactId || '').trim();
-    const accountKey = String(row.accountKey || '').trim();
-    if (!contactId || !accountKey) continue;
-
-    recipients.push({
-      contactId,
-      accountKey,
-      email: String(row.email || '').trim(),
-      fullName: String(row.fullName || '').trim(),
-    });
-  }
-  return recipients;
-}
-
 /**
  * GET /api/campaigns/email
  *
@@ -57,6 +49,8 @@ export async function GET(req: NextRequest) {
  * POST /api/campaigns/email
  *
  * Creates a bulk email campaign and optionally processes it immediately.
+ * Recipients are the audience (`audienceId` or inline `filters`, across
+ * `accountKeys`) evaluated against the server-side contact index.
  */
 export async function POST(req: NextRequest) {
   const { session, error } = await requireRole('developer', 'super_admin', 'admin', 'client');
@@ -70,30 +64,38 @@ export async function POST(req: NextRequest) {
   const sourceType = typeof body?.sourceType === 'string' ? body.sourceType : '';
   const scheduledForRaw = body?.scheduledFor;
   const scheduledFor = parseDate(scheduledForRaw);
-  const recipients = normalizeRecipients(body?.recipients);
   const processNow = typeof body?.processNow === 'boolean'
     ? body.processNow
     : !(scheduledFor && scheduledFor.getTime() > Date.now());
 
-  if (!subject.trim()) {
+  let abTest: EmailAbTestInput | null;
+  try {
+    abTest = parseEmailAbTest(body?.abTest);
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : 'Invalid A/B test' }, { status: 400 });
+  }
+
+  if (!abTest && !subject.trim()) {
     return NextResponse.json({ error: 'subject is required' }, { status: 400 });
   }
-  if (!htmlContent.trim()) {
+  if (!abTest && !htmlContent.trim()) {
     return NextResponse.json({ error: 'htmlContent is required' }, { status: 400 });
   }
-  if (recipients.length === 0) {
-    return NextResponse.json({ error: 'At least one recipient is required' }, { status: 400 });
-  }
-  if (recipients.length > 1000) {
-    return NextResponse.json({ error: 'Recipient limit is 1000 per email send' }, { status: 400 });
-  }
 
-  if (session!.user.role === 'client') {
-    const allowed = new Set(session!.user.accountKeys ?? []);
-    const forbiddenRecipient = recipients.find((recipient) => !allowed.has(recipient.accountKey));
-    if (forbiddenRecipient) {
-      return NextResponse.json({ error: 'Forbidden recipient account selection' }, { status: 403 });
+  let selection: AudienceSelection;
+  let recipients: EmailRecipientInput[];
+  try {
+    selection = await resolveAudienceSelection(session!.user, body ?? {}, { requireTarget: true });
+    recipients = await resolveAudienceEmailRecipients(selection);
+  } catch (err) {
+    if (err instanceof AudienceSelectionError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
     }
+    console.error('[email-campaigns] Audience evaluation failed:', err);
+    return NextResponse.json({ error: 'Failed to evaluate audience' }, { status: 500 });
+  }
+  if (recipients.length === 0) {
+    return NextResponse.json({ error: 'No contacts with an email address match this audience' }, { status: 400 });
   }
 
   try {
@@ -108,21 +110,33 @@ export async function POST(req: NextRequest) {
       scheduledFor: scheduledFor?.toISOString() || null,
       createdByUserId: session!.user.id,
       createdByRole: session!.user.role,
-      sourceAudienceId: typeof body?.audienceId === 'string' ? body.audienceId : null,
-      sourceFilter: typeof body?.sourceFilter === 'string' ? body.sourceFilter : null,
+      sourceAudienceId: selection.audienceId,
+      sourceFilter: !selection.audienceId && selection.definition ? JSON.stringify(selection.definition) : null,
       metadata: typeof body?.metadata === 'string' ? body.metadata : null,
+      variableFallbacks: normalizeVariableFallbacks(body?.variableFallbacks),
+      utm: normalizeEmailUtmParams(body?.utm),
+      abTest,
+      actor: auditActorFromSession(session),
     });
 
     if (!processNow) {
       return NextResponse.json({ campaign: created, processed: false }, { status: 201 });
     }
 
-    const processed = await processEmailCampaign(created.id, { concurrency: 3 });
-    return NextResponse.json({ campaign: processed, processed: true }, { status: 201 });
+    // Same job key as the queue's run, so the two can never send this campaign at once.
+    try {
+      const processed = await runJobInline('email-campaign.process', { campaignId: created.id }, () => (
+        processEmailCampaign(created.id, { concurrency: 3 })
+      ));
+      return NextResponse.json({ campaign: processed, processed: true }, { status: 201 });
+    } catch (err) {
+      if (!(err instanceof JobConflictError)) throw err;
+      return NextResponse.json({ campaign: created, processed: false }, { status: 201 });
+    }
   } catch (err) {
     const messageText = err instanceof Error ? err.message : 'Failed to create email campaign';
     const normalized = messageText.toLowerCase();
-    const status = normalized.includes('required') || normalized.includes('invalid')
+    const status = normalized.includes('required') || normalized.includes('invalid') || normalized.includes('not enough recipients')
       ? 400
       : normalized.includes('configured')
         ? 500
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireRole } from '@/lib/api-auth';
 import * as accountService from '@/lib/services/accounts';
+import { auditActorFromSession } from '@/lib/services/audit-log';
 import { prisma } from '@/lib/prisma';
 
 type CustomValueDef = { name: string; value: string };
@@ -89,7 +90,7 @@ export async function PUT(
   req: NextRequest,
   { params }: { params: Promise<{ key: string }> },
 ) {
-  const { error } = await requireRole('developer', 'super_admin');
+  const { error, session } = await requireRole('developer', 'super_admin');
   if (error) return error;
 
   try {
@@ -112,7 +113,7 @@ export async function PUT(
       }
     }
 
-    await accountService.updateAccount(key, { customValues: JSON.stringify(body) });
+    await accountService.updateAccount(key, { customValues: JSON.stringify(body) }, auditActorFromSession(session));
 
     // Return merged result
     const defaults = await readDefaults();
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { hasUnrestrictedAccountAccess, ELEVATED_ROLES, type UserRole } from '@/lib/roles';
+import { getSuppression, removeSuppression } from '@/lib/services/email-suppression';
+
+/**
+ * DELETE /api/email/suppressions/[id]
+ *
+ * Remove an address from the suppression list. Management roles only; global
+ * entries require an elevated role.
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { session, error } = await requireRole('developer', 'super_admin', 'admin');
+  if (error) return error;
+
+  const { id } = await params;
+  const existing = await getSuppression(id);
+  if (!existing) {
+    return NextResponse.json({ error: 'Suppression not found' }, { status: 404 });
+  }
+
+  const role = session!.user.role as UserRole;
+  const userAccountKeys = session!.user.accountKeys ?? [];
+  if (existing.global && !ELEVATED_ROLES.includes(role)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+  if (!existing.global && !hasUnrestrictedAccountAccess(role, userAccountKeys) && !userAccountKeys.includes(existing.accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  await removeSuppression(id);
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { hasUnrestrictedAccountAccess, ELEVATED_ROLES, MANAGEMENT_ROLES, type UserRole } from '@/lib/roles';
+import { isLikelyDeliverableEmail } from '@/lib/contact-hygiene';
+import {
+  isSuppressionReason,
+  listSuppressions,
+  suppressEmail,
+} from '@/lib/services/email-suppression';
+
+/**
+ * GET /api/email/suppressions
+ *
+ * Lists suppressed addresses for the caller's accounts. Global entries are
+ * only included for management roles. Optional `accountKey`, `search` and
+ * `limit` params.
+ */
+export async function GET(req: NextRequest) {
+  const { session, error } = await requireRole('developer', 'super_admin', 'admin', 'client');
+  if (error) return error;
+
+  const role = session!.user.role as UserRole;
+  const userAccountKeys = session!.user.accountKeys ?? [];
+  const accountKey = req.nextUrl.searchParams.get('accountKey')?.trim() || '';
+  const limitRaw = Number(req.nextUrl.searchParams.get('limit') || '100');
+
+  if (accountKey && !hasUnrestrictedAccountAccess(role, userAccountKeys) && !userAccountKeys.includes(accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const accountKeys = accountKey
+    ? [accountKey]
+    : hasUnrestrictedAccountAccess(role, userAccountKeys)
+      ? undefined
+      : userAccountKeys;
+
+  const suppressions = await listSuppressions({
+    accountKeys,
+    includeGlobal: MANAGEMENT_ROLES.includes(role),
+    search: req.nextUrl.searchParams.get('search') || '',
+    limit: Number.isFinite(limitRaw) ? limitRaw : 100,
+  });
+  return NextResponse.json({ suppressions });
+}
+
+/**
+ * POST /api/email/suppressions
+ *
+ * Manually suppress an address for one account, or globally (`global: true`,
+ * elevated roles only).
+ */
+export async function POST(req: NextRequest) {
+  const { session, error } = await requireRole('developer', 'super_admin', 'admin', 'client');
+  if (error) return error;
+
+  const role = session!.user.role as UserRole;
+  const userAccountKeys = session!.user.accountKeys ?? [];
+  const body = await req.json().catch(() => ({}));
+  const email = typeof body?.email === 'string' ? body.email.trim() : '';
+  const accountKey = typeof body?.accountKey === 'string' ? body.accountKey.trim() : '';
+  const global = body?.global === true;
+  const reason = isSuppressionReason(body?.reason) ? body.reason : 'manual';
+
+  if (!isLikelyDeliverableEmail(email)) {
+    return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+  }
+  if (!global && !accountKey) {
+    return NextResponse.json({ error: 'accountKey is required unless global is set' }, { status: 400 });
+  }
+  if (global && !ELEVATED_ROLES.includes(role)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+  if (!global && !hasUnrestrictedAccountAccess(role, userAccountKeys) && !userAccountKeys.includes(accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const suppression = await suppressEmail({
+    email,
+    accountKey: global ? null : accountKey,
+    reason,
+    source: `user:${session!.user.id}`,
+    note: typeof body?.note === 'string' ? body.note.trim().slice(0, 500) : null,
+  });
+  return NextResponse.json({ suppression }, { status: 201 });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyEmailTrackingToken } from '@/lib/email-tracking';
+import { recordEmailTrackingEvent } from '@/lib/services/email-tracking';
+
+/**
+ * GET /api/email/track/click?t=...
+ *
+ * Public redirect behind every tracked link in a native email. The destination
+ * lives inside the signed token, so this can't be used as an open redirect.
+ * Recording never blocks or breaks the redirect.
+ */
+export async function GET(req: NextRequest) {
+  const payload = verifyEmailTrackingToken(req.nextUrl.searchParams.get('t') || '');
+  if (!payload || payload.kind !== 'click' || !payload.url) {
+    return new NextResponse('This link is invalid or has expired.', {
+      status: 400,
+      headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' },
+    });
+  }
+
+  try {
+    await recordEmailTrackingEvent(payload, { userAgent: req.headers.get('user-agent') });
+  } catch (err) {
+    console.warn('[email-tracking] Failed to record click:', err);
+  }
+
+  return NextResponse.redirect(payload.url, {
+    status: 302,
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
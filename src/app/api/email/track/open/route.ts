@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyEmailTrackingToken } from '@/lib/email-tracking';
+import { recordEmailTrackingEvent } from '@/lib/services/email-tracking';
+
+// 1×1 transparent GIF
+const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+function pixelResponse() {
+  return new NextResponse(PIXEL as unknown as BodyInit, {
+    status: 200,
+    headers: {
+      'Content-Type': 'image/gif',
+      'Content-Length': String(PIXEL.length),
+      'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+    },
+  });
+}
+
+/**
+ * GET /api/email/track/open?t=...
+ *
+ * Open pixel appended to native emails. Always returns the pixel, even for
+ * invalid tokens, so mail clients never show a broken image.
+ */
+export async function GET(req: NextRequest) {
+  const payload = verifyEmailTrackingToken(req.nextUrl.searchParams.get('t') || '');
+  if (payload?.kind === 'open') {
+    try {
+      await recordEmailTrackingEvent(payload, { userAgent: req.headers.get('user-agent') });
+    } catch (err) {
+      console.warn('[email-tracking] Failed to record open:', err);
+    }
+  }
+  return pixelResponse();
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { verifyEmailUnsubscribeToken } from '@/lib/email-unsubscribe';
+import { suppressEmail } from '@/lib/services/email-suppression';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function htmlPage(title: string, body: string, status = 200) {
+  const html = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+</head>
+<body style="margin:0;padding:48px 16px;background:#f4f4f5;font-family:Arial,sans-serif;color:#18181b;">
+<div style="max-width:440px;margin:0 auto;background:#fff;border-radius:12px;padding:32px;text-align:center;">
+<h1 style="margin:0 0 12px;font-size:20px;">${escapeHtml(title)}</h1>
+${body}
+</div>
+</body>
+</html>`;
+  return new NextResponse(html, {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+async function dealerName(accountKey: string): Promise<string> {
+  const account = await prisma.account.findUnique({
+    where: { key: accountKey },
+    select: { dealer: true },
+  });
+  return account?.dealer || 'this sender';
+}
+
+/**
+ * GET /api/email/unsubscribe?token=...
+ *
+ * Public confirmation page for the signed link in every native email. The
+ * unsubscribe itself happens on POST so link scanners can't opt people out.
+ */
+export async function GET(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get('token') || '';
+  const payload = verifyEmailUnsubscribeToken(token);
+  if (!payload) {
+    return htmlPage('Link not valid', '<p style="margin:0;line-height:1.5;">This unsubscribe link is invalid or has been replaced.</p>', 400);
+  }
+
+  const dealer = await dealerName(payload.accountKey);
+  return htmlPage(
+    'Unsubscribe',
+    `<p style="margin:0 0 20px;line-height:1.5;">Stop marketing emails from ${escapeHtml(dealer)} to <strong>${escapeHtml(payload.email)}</strong>?</p>
+<form method="post" action="?token=${encodeURIComponent(token)}">
+<button type="submit" style="padding:10px 18px;border:0;border-radius:6px;background:#18181b;color:#fff;font-size:14px;cursor:pointer;">Unsubscribe</button>
+</form>`,
+  );
+}
+
+/**
+ * POST /api/email/unsubscribe?token=...
+ *
+ * Handles both the confirmation form and RFC 8058 one-click requests
+ * (`List-Unsubscribe=One-Click` body sent by mailbox providers).
+ */
+export async function POST(req: NextRequest) {
+  const token = req.nextUrl.searchParams.get('token') || '';
+  const payload = verifyEmailUnsubscribeToken(token);
+  const rawBody = await req.text().catch(() => '');
+  const oneClick = new URLSearchParams(rawBody).get('List-Unsubscribe') === 'One-Click';
+
+  if (!payload) {
+    return oneClick
+      ? NextResponse.json({ error: 'Invalid unsubscribe token' }, { status: 400 })
+      : htmlPage('Link not valid', '<p style="margin:0;line-height:1.5;">This unsubscribe link is invalid or has been replaced.</p>', 400);
+  }
+
+  try {
+    await suppressEmail({
+      email: payload.email,
+      accountKey: payload.accountKey,
+      reason: 'unsubscribe',
+      source: oneClick ? 'one-click' : 'unsubscribe-page',
+      campaignId: payload.campaignId,
+    });
+  } catch (err) {
+    console.error('[email-unsubscribe] Failed to record unsubscribe:', err);
+    return oneClick
+      ? NextResponse.json({ error: 'Failed to unsubscribe' }, { status: 500 })
+      : htmlPage('Something went wrong', '<p style="margin:0;line-height:1.5;">We couldn\'t process your request. Please try again.</p>', 500);
+  }
+
+  if (oneClick) return NextResponse.json({ ok: true });
+
+  const dealer = await dealerName(payload.accountKey);
+  return htmlPage(
+    'You\'re unsubscribed',
+    `<p style="margin:0;line-height:1.5;"><strong>${escapeHtml(payload.email)}</strong> will no longer receive marketing emails from ${escapeHtml(dealer)}.</p>`,
+  );
+}
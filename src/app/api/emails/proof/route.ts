@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import { hasUnrestrictedAccountAccess, type UserRole } from '@/lib/roles';
+import { EmailTransportError } from '@/lib/services/email-transport';
+import { EmailProofError, sendTemplateProof } from '@/lib/services/email-proofs';
+
+/**
+ * POST /api/emails/proof
+ *
+ * Body: { accountKey, source, subject?, contactId?, contact?, recipients? }
+ * Renders the template with variables resolved for the chosen contact (sample
+ * data when none) and sends it to the account's seed list through the
+ * account's email transport. `recipients` narrows the send to part of the list.
+ */
+export async function POST(req: NextRequest) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const body = await req.json().catch(() => ({}));
+  const accountKey = typeof body.accountKey === 'string' ? body.accountKey.trim() : '';
+  if (!accountKey) {
+    return NextResponse.json({ error: 'accountKey is required' }, { status: 400 });
+  }
+  const accountKeys = session!.user.accountKeys ?? [];
+  if (!hasUnrestrictedAccountAccess(session!.user.role as UserRole, accountKeys) && !accountKeys.includes(accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const result = await sendTemplateProof({
+      accountKey,
+      source: body.source,
+      subject: body.subject,
+      contactId: typeof body.contactId === 'string' ? body.contactId : null,
+      contact: body.contact && typeof body.contact === 'object' ? body.contact : null,
+      recipients: body.recipients,
+    });
+    const status = result.sent.length === 0 ? 502 : 200;
+    return NextResponse.json(
+      status === 200 ? result : { ...result, error: result.failed[0]?.error || 'Failed to send proof' },
+      { status },
+    );
+  } catch (err) {
+    if (err instanceof EmailProofError || err instanceof EmailTransportError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[email-proof] Failed to send proof:', err);
+    return NextResponse.json({ error: 'Failed to send proof' }, { status: 500 });
+  }
+}
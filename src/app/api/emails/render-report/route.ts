@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import { hasUnrestrictedAccountAccess, type UserRole } from '@/lib/roles';
+import { EmailProofError, buildProofRenderReport } from '@/lib/services/email-proofs';
+
+/**
+ * POST /api/emails/render-report
+ *
+ * Body: { accountKey, source, contactId?, contact?, checkLinks? }
+ * Compiles the template like a real send and reports email-client pitfalls:
+ * unsupported CSS, Gmail clipping, missing alt text or image dimensions and
+ * broken links. `checkLinks` also requests every http(s) link; links that
+ * resolve (or redirect) to non-public addresses are reported, not fetched.
+ */
+export async function POST(req: NextRequest) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const body = await req.json().catch(() => ({}));
+  const accountKey = typeof body.accountKey === 'string' ? body.accountKey.trim() : '';
+  if (!accountKey) {
+    return NextResponse.json({ error: 'accountKey is required' }, { status: 400 });
+  }
+  const accountKeys = session!.user.accountKeys ?? [];
+  if (!hasUnrestrictedAccountAccess(session!.user.role as UserRole, accountKeys) && !accountKeys.includes(accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const { report, contactLabel } = await buildProofRenderReport({
+      accountKey,
+      source: body.source,
+      contactId: typeof body.contactId === 'string' ? body.contactId : null,
+      contact: body.contact && typeof body.contact === 'object' ? body.contact : null,
+      checkLinks: body.checkLinks === true,
+    });
+    return NextResponse.json({ report, contactLabel });
+  } catch (err) {
+    if (err instanceof EmailProofError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[render-report] Failed to build render report:', err);
+    return NextResponse.json({ error: 'Failed to build render report' }, { status: 500 });
+  }
+}
@@ -5,6 +5,7 @@ import { getAdapterForAccount } from '@/lib/esp/registry';
 import { readAccounts, withConcurrencyLimit } from '@/lib/esp/utils';
 import type { EspCampaign } from '@/lib/esp/types';
 import { filterAccountKeysByAccess } from '@/lib/roles';
+import { applyStoredEmailStats } from '@/lib/esp/webhooks/email-stats-store';
 import '@/lib/esp/init';
 
 /**
@@ -58,7 +59,10 @@ export async function GET(req: NextRequest) {
           return;
         }
 
-        const campaigns = await adapter.campaigns.fetchCampaigns(credentials.token, credentials.locationId);
+        const campaigns = await applyStoredEmailStats(
+          adapter.provider,
+          await adapter.campaigns.fetchCampaigns(credentials.token, credentials.locationId),
+        );
         const tagged = campaigns.map((campaign) => ({
           ...campaign,
           accountKey: campaign.accountKey || accountKey,
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import { resolveAdapterAndCredentials, isResolveError } from '@/lib/esp/route-helpers';
+import { getCampaignLinkClicks } from '@/lib/services/campaign-link-clicks';
+import { getEmailCampaignHtml } from '@/lib/services/email-campaigns';
+import type { CampaignLinkClicksReport } from '@/lib/campaign-link-heatmap';
+
+/**
+ * GET /api/esp/campaigns/link-clicks?accountKey=xxx&campaignId=yyy
+ *
+ * Per-link click breakdown for one campaign, plus the preview HTML to draw
+ * the heatmap on. Loomi campaigns use their stored HTML; ESP campaigns use
+ * the provider's preview. A missing preview still returns the link table.
+ */
+export async function GET(req: NextRequest) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const accountKey = req.nextUrl.searchParams.get('accountKey')?.trim() || '';
+  const campaignId = req.nextUrl.searchParams.get('campaignId')?.trim() || '';
+  if (!accountKey || !campaignId) {
+    return NextResponse.json({ error: 'accountKey and campaignId are required' }, { status: 400 });
+  }
+
+  const userRole = session!.user.role;
+  const userAccountKeys: string[] = session!.user.accountKeys ?? [];
+  const hasUnrestrictedAdminAccess = userRole === 'admin' && userAccountKeys.length === 0;
+  if (userRole !== 'developer' && !hasUnrestrictedAdminAccess && !userAccountKeys.includes(accountKey)) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  try {
+    const [clicks, nativeHtml] = await Promise.all([
+      getCampaignLinkClicks(accountKey, campaignId),
+      getEmailCampaignHtml(campaignId, accountKey),
+    ]);
+
+    let html = nativeHtml || '';
+    if (!html) {
+      const result = await resolveAdapterAndCredentials(accountKey, { requireCapability: 'campaigns' });
+      if (!isResolveError(result) && result.adapter.campaigns) {
+        try {
+          const preview = await result.adapter.campaigns.fetchCampaignPreviewHtml(
+            result.credentials.token,
+            result.credentials.locationId,
+            campaignId,
+          );
+          html = preview.html || '';
+        } catch (err) {
+          console.warn(`[link-clicks] Preview unavailable for ${accountKey}/${campaignId}:`, err);
+        }
+      }
+    }
+
+    const report: CampaignLinkClicksReport = { campaignId, accountKey, html, ...clicks };
+    return NextResponse.json(report);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to load link clicks';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
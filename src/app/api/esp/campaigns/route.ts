@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/api-auth';
 import { resolveAdapterAndCredentials, isResolveError } from '@/lib/esp/route-helpers';
 import { unsupportedCapabilityPayload } from '@/lib/esp/unsupported';
+import { applyStoredEmailStats } from '@/lib/esp/webhooks/email-stats-store';
 
 /**
  * GET /api/esp/campaigns?accountKey=xxx
@@ -40,7 +41,10 @@ export async function GET(req: NextRequest) {
   }
 
   try {
-    const campaigns = await adapter.campaigns.fetchCampaigns(credentials.token, credentials.locationId);
+    const campaigns = await applyStoredEmailStats(
+      adapter.provider,
+      await adapter.campaigns.fetchCampaigns(credentials.token, credentials.locationId),
+    );
     const taggedCampaigns = campaigns.map((campaign) => ({
       ...campaign,
       accountKey: campaign.accountKey || accountKey,
@@ -4,6 +4,7 @@ import { MANAGEMENT_ROLES } from '@/lib/auth';
 import { completeEspOAuthCallback } from '@/lib/esp/oauth-callback';
 import { parseEspProvider, providerValidationMessage } from '@/lib/esp/provider-utils';
 import { resolveOAuthProviderFromState } from '@/lib/esp/oauth-provider-resolution';
+import { auditActorFromSession } from '@/lib/services/audit-log';
 
 /**
  * GET /api/esp/connections/callback?provider=provider-id&code=...&state=...
@@ -39,5 +40,5 @@ export async function GET(req: NextRequest) {
     );
   }
 
-  return completeEspOAuthCallback(req, provider);
+  return completeEspOAuthCallback(req, provider, auditActorFromSession(session));
 }
@@ -3,21 +3,24 @@ import { requireRole } from '@/lib/api-auth';
 import { MANAGEMENT_ROLES } from '@/lib/auth';
 import { connectEspConnection, EspConnectionError } from '@/lib/esp/connections';
 import { parseEspProvider, providerValidationMessage } from '@/lib/esp/provider-utils';
+import { auditActorFromSession } from '@/lib/services/audit-log';
 
 /**
  * POST /api/esp/connections/connect
  *
  * Provider-agnostic direct credential connect endpoint.
- * Body shape depends on provider auth model (currently apiKey providers).
+ * Body shape depends on provider auth model (currently apiKey providers,
+ * plus optional provider-specific `extraCredentials`).
  */
 export async function POST(req: NextRequest) {
-  const { error } = await requireRole(...MANAGEMENT_ROLES);
+  const { error, session } = await requireRole(...MANAGEMENT_ROLES);
   if (error) return error;
 
   let body: {
     accountKey?: string;
     provider?: string;
     apiKey?: string;
+    extraCredentials?: Record<string, unknown>;
   };
   try {
     body = await req.json();
@@ -31,6 +34,12 @@ export async function POST(req: NextRequest) {
   const providerRaw = typeof body.provider === 'string' ? body.provider : '';
   const provider = parseEspProvider(providerRaw);
   const apiKey = body.apiKey;
+  const extraCredentials: Record<string, string> = {};
+  if (body.extraCredentials && typeof body.extraCredentials === 'object') {
+    for (const [field, value] of Object.entries(body.extraCredentials)) {
+      if (typeof value === 'string' && value.trim()) extraCredentials[field] = value.trim();
+    }
+  }
 
   if (!accountKey) {
     return NextResponse.json({ error: 'accountKey is required' }, { status: 400 });
@@ -47,6 +56,8 @@ export async function POST(req: NextRequest) {
       accountKey,
       provider,
       apiKey,
+      extraCredentials,
+      actor: auditActorFromSession(session),
     });
     return NextResponse.json(result);
   } catch (err) {
@@ -3,6 +3,7 @@ import { requireRole } from '@/lib/api-auth';
 import { MANAGEMENT_ROLES } from '@/lib/auth';
 import { disconnectEspConnection } from '@/lib/esp/connections';
 import { parseEspProvider, providerValidationMessage } from '@/lib/esp/provider-utils';
+import { auditActorFromSession } from '@/lib/services/audit-log';
 
 /**
  * POST /api/esp/connections/disconnect
@@ -10,7 +11,7 @@ import { parseEspProvider, providerValidationMessage } from '@/lib/esp/provider-
  * Body: { accountKey: string, provider: string | 'any' }
  */
 export async function POST(req: NextRequest) {
-  const { error } = await requireRole(...MANAGEMENT_ROLES);
+  const { error, session } = await requireRole(...MANAGEMENT_ROLES);
   if (error) return error;
 
   let body: { accountKey?: string; provider?: string };
@@ -44,7 +45,7 @@ export async function POST(req: NextRequest) {
   }
 
   try {
-    const result = await disconnectEspConnection({ accountKey, provider });
+    const result = await disconnectEspConnection({ accountKey, provider, actor: auditActorFromSession(session) });
     if (!result.removed) {
       return NextResponse.json(
         { error: `No ${result.provider} connection found for this account`, provider: result.provider },
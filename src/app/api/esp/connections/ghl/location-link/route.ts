@@ -7,6 +7,7 @@ import {
   linkAccountToLocation,
   unlinkAccountLocation,
 } from '@/lib/esp/adapters/ghl/oauth';
+import { auditActorFromSession, recordAuditEvent } from '@/lib/services/audit-log';
 
 /**
  * GET /api/esp/connections/ghl/location-link?accountKey=xxx
@@ -49,7 +50,7 @@ export async function GET(req: NextRequest) {
  * Body: { accountKey: string, locationId: string, locationName?: string }
  */
 export async function POST(req: NextRequest) {
-  const { error } = await requireRole(...MANAGEMENT_ROLES);
+  const { error, session } = await requireRole(...MANAGEMENT_ROLES);
   if (error) return error;
 
   let body: { accountKey?: string; locationId?: string; locationName?: string };
@@ -81,6 +82,15 @@ export async function POST(req: NextRequest) {
       locationId,
       ...(locationName ? { locationName } : {}),
     });
+    await recordAuditEvent({
+      action: 'esp.connect',
+      targetType: 'esp-connection',
+      targetId: `${accountKey}:ghl`,
+      targetLabel: locationName || locationId,
+      accountKey,
+      actor: auditActorFromSession(session),
+      metadata: { provider: 'ghl', method: 'location-link', locationId },
+    });
     return NextResponse.json({
       success: true,
       provider: 'ghl',
@@ -103,7 +113,7 @@ export async function POST(req: NextRequest) {
  * Body: { accountKey: string }
  */
 export async function DELETE(req: NextRequest) {
-  const { error } = await requireRole(...MANAGEMENT_ROLES);
+  const { error, session } = await requireRole(...MANAGEMENT_ROLES);
   if (error) return error;
 
   let body: { accountKey?: string };
@@ -120,6 +130,17 @@ export async function DELETE(req: NextRequest) {
 
   try {
     const removed = await unlinkAccountLocation(accountKey);
+    if (removed) {
+      await recordAuditEvent({
+        action: 'esp.disconnect',
+        targetType: 'esp-connection',
+        targetId: `${accountKey}:ghl`,
+        targetLabel: 'ghl',
+        accountKey,
+        actor: auditActorFromSession(session),
+        metadata: { provider: 'ghl', method: 'location-link' },
+      });
+    }
     return NextResponse.json({
       success: true,
       provider: 'ghl',
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { ELEVATED_ROLES, MANAGEMENT_ROLES } from '@/lib/auth';
+import { hasUnrestrictedAccountAccess } from '@/lib/roles';
+import { parseEspProvider } from '@/lib/esp/provider-utils';
+import {
+  listConnectionHealthHistory,
+  runConnectionHealthChecks,
+} from '@/lib/esp/connection-health';
+
+/**
+ * GET /api/esp/connections/health?accountKey=xxx&provider=yyy
+ *
+ * Health check history for an account's ESP connections, newest first.
+ */
+export async function GET(req: NextRequest) {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  const accountKey = req.nextUrl.searchParams.get('accountKey')?.trim() || '';
+  if (!accountKey) {
+    return NextResponse.json({ error: 'accountKey is required' }, { status: 400 });
+  }
+
+  const accountKeys = session!.user.accountKeys ?? [];
+  if (!hasUnrestrictedAccountAccess(session!.user.role, accountKeys) && !accountKeys.includes(accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const checks = await listConnectionHealthHistory({
+      accountKey,
+      provider: parseEspProvider(req.nextUrl.searchParams.get('provider')) ?? undefined,
+      limit: Number(req.nextUrl.searchParams.get('limit')) || undefined,
+    });
+    return NextResponse.json({ checks });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to load connection health';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/esp/connections/health
+ *
+ * Run the connection health check now, for every account or the
+ * `accountKeys` in the body.
+ */
+export async function POST(req: NextRequest) {
+  const { error } = await requireRole(...ELEVATED_ROLES);
+  if (error) return error;
+
+  try {
+    const body = await req.json().catch(() => ({})) as { accountKeys?: unknown };
+    const accountKeys = Array.isArray(body.accountKeys)
+      ? body.accountKeys.map(String).filter(Boolean)
+      : [];
+    const result = await runConnectionHealthChecks({
+      accountKeys: accountKeys.length > 0 ? accountKeys : undefined,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to run connection health checks';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
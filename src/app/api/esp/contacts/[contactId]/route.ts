@@ -1,8 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireRole } from '@/lib/api-auth';
 import { resolveAdapterAndCredentials, isResolveError } from '@/lib/esp/route-helpers';
+import { parseContactPatch, parseTagList } from '@/lib/esp/contact-patch';
 import type { EspContactCapabilities } from '@/lib/esp/types';
 import { unsupportedCapabilityPayload } from '@/lib/esp/unsupported';
+import { MANAGEMENT_ROLES } from '@/lib/auth';
+import { hasUnrestrictedAccountAccess } from '@/lib/roles';
+import {
+  removeIndexedContact,
+  updateIndexedContactTags,
+  upsertIndexedContact,
+} from '@/lib/services/contact-index';
 
 type RouteContext = { params: Promise<{ contactId: string }> };
 
@@ -173,3 +181,143 @@ export async function PATCH(
     return NextResponse.json({ error: message }, { status: statusFromError(err) });
   }
 }
+
+/**
+ * PUT /api/esp/contacts/:contactId?accountKey=xxx
+ *
+ * Provider-agnostic contact write-back. Body:
+ * `{ contact?: ContactPatch, addTags?: string[], removeTags?: string[] }`.
+ * Field edits are applied first, then tag changes.
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: RouteContext,
+) {
+  const { session, error } = await requireRole('developer', 'super_admin', 'admin', 'client');
+  if (error) return error;
+
+  const { contactId } = await params;
+  const accountKey = req.nextUrl.searchParams.get('accountKey')?.trim()
+    || '';
+  if (!accountKey) {
+    return NextResponse.json({ error: 'accountKey is required' }, { status: 400 });
+  }
+
+  const userAccountKeys = session!.user.accountKeys ?? [];
+  if (!hasUnrestrictedAccountAccess(session!.user.role, userAccountKeys) && !userAccountKeys.includes(accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const patch = parseContactPatch(body?.contact);
+  const addTags = parseTagList(body?.addTags);
+  const removeTags = parseTagList(body?.removeTags);
+  const hasPatch = Object.keys(patch).length > 0;
+  if (!hasPatch && addTags.length === 0 && removeTags.length === 0) {
+    return NextResponse.json({ error: 'No contact changes provided' }, { status: 400 });
+  }
+
+  const result = await resolveAdapterAndCredentials(accountKey, {
+    requireCapability: 'contacts',
+  });
+  if (isResolveError(result)) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  const { adapter, credentials } = result;
+  const contacts = adapter.contacts!;
+  if (hasPatch && !contacts.updateContact) {
+    return NextResponse.json(unsupportedCapabilityPayload(adapter.provider, 'contact updates'), { status: 501 });
+  }
+  if ((addTags.length > 0 && !contacts.addTags) || (removeTags.length > 0 && !contacts.removeTags)) {
+    return NextResponse.json(unsupportedCapabilityPayload(adapter.provider, 'contact tag updates'), { status: 501 });
+  }
+
+  const target = { token: credentials.token, locationId: credentials.locationId, contactId };
+  try {
+    let contact = hasPatch
+      ? await contacts.updateContact!({ ...target, patch })
+      : null;
+    if (addTags.length > 0) await contacts.addTags!({ ...target, tags: addTags });
+    if (removeTags.length > 0) await contacts.removeTags!({ ...target, tags: removeTags });
+
+    if (contact) {
+      const removed = new Set(removeTags.map((tag) => tag.toLowerCase()));
+      const tags = contact.tags.filter((tag) => !removed.has(tag.toLowerCase()));
+      for (const tag of addTags) {
+        if (!tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+      }
+      contact = { ...contact, tags };
+    }
+
+    try {
+      if (contact) await upsertIndexedContact(accountKey, adapter.provider, contact);
+      else await updateIndexedContactTags(accountKey, contactId, { add: addTags, remove: removeTags });
+    } catch (err) {
+      console.error(`[contacts] Failed to refresh indexed contact ${accountKey}/${contactId}:`, err);
+    }
+
+    return NextResponse.json({ contact, provider: adapter.provider });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to update contact';
+    return NextResponse.json({ error: message }, { status: statusFromError(err) });
+  }
+}
+
+/**
+ * DELETE /api/esp/contacts/:contactId?accountKey=xxx
+ *
+ * Provider-agnostic contact deletion. Some providers (Klaviyo) delete
+ * asynchronously, so the contact may remain visible for a short while.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: RouteContext,
+) {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  const { contactId } = await params;
+  const accountKey = req.nextUrl.searchParams.get('accountKey')?.trim()
+    || '';
+  if (!accountKey) {
+    return NextResponse.json({ error: 'accountKey is required' }, { status: 400 });
+  }
+
+  const userAccountKeys = session!.user.accountKeys ?? [];
+  if (!hasUnrestrictedAccountAccess(session!.user.role, userAccountKeys) && !userAccountKeys.includes(accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const result = await resolveAdapterAndCredentials(accountKey, {
+    requireCapability: 'contacts',
+  });
+  if (isResolveError(result)) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  const { adapter, credentials } = result;
+  const contacts = adapter.contacts!;
+  if (!contacts.deleteContact) {
+    return NextResponse.json(unsupportedCapabilityPayload(adapter.provider, 'contact deletion'), { status: 501 });
+  }
+
+  try {
+    await contacts.deleteContact({
+      token: credentials.token,
+      locationId: credentials.locationId,
+      contactId,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to delete contact';
+    return NextResponse.json({ error: message }, { status: statusFromError(err) });
+  }
+
+  try {
+    await removeIndexedContact(accountKey, contactId);
+  } catch (err) {
+    console.error(`[contacts] Failed to remove indexed contact ${accountKey}/${contactId}:`, err);
+  }
+
+  return NextResponse.json({ ok: true, provider: adapter.provider });
+}
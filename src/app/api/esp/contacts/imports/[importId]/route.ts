@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { MANAGEMENT_ROLES } from '@/lib/auth';
+import { hasUnrestrictedAccountAccess } from '@/lib/roles';
+import { getContactImport } from '@/lib/services/contact-imports';
+
+type RouteContext = { params: Promise<{ importId: string }> };
+
+/**
+ * GET /api/esp/contacts/imports/:importId
+ *
+ * Progress and counts for one contact import.
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  const { importId } = await params;
+  const contactImport = await getContactImport(importId);
+  if (!contactImport) {
+    return NextResponse.json({ error: 'Import not found' }, { status: 404 });
+  }
+
+  const userAccountKeys = session!.user.accountKeys ?? [];
+  if (!hasUnrestrictedAccountAccess(session!.user.role, userAccountKeys) && !userAccountKeys.includes(contactImport.accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return NextResponse.json({ import: contactImport });
+}
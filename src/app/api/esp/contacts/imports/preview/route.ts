@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { MANAGEMENT_ROLES } from '@/lib/auth';
+import { hasUnrestrictedAccountAccess } from '@/lib/roles';
+import { parseCsv } from '@/lib/contact-csv';
+import { previewContactImport } from '@/lib/services/contact-imports';
+
+const MAX_CSV_LENGTH = 20 * 1024 * 1024;
+
+/**
+ * POST /api/esp/contacts/imports/preview
+ *
+ * Map and validate a CSV without writing anything. Body:
+ * `{ accountKey, csv, mapping? }`; omit `mapping` to get the auto-mapping.
+ * Returns create/update/invalid counts and the first rows of the plan.
+ */
+export async function POST(req: NextRequest) {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  const body = await req.json().catch(() => ({}));
+  const accountKey = typeof body?.accountKey === 'string' ? body.accountKey.trim() : '';
+  if (!accountKey) {
+    return NextResponse.json({ error: 'accountKey is required' }, { status: 400 });
+  }
+
+  const userAccountKeys = session!.user.accountKeys ?? [];
+  if (!hasUnrestrictedAccountAccess(session!.user.role, userAccountKeys) && !userAccountKeys.includes(accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const csv = typeof body?.csv === 'string' ? body.csv : '';
+  if (!csv.trim()) {
+    return NextResponse.json({ error: 'csv is required' }, { status: 400 });
+  }
+  if (csv.length > MAX_CSV_LENGTH) {
+    return NextResponse.json({ error: 'CSV files are limited to 20 MB' }, { status: 413 });
+  }
+
+  try {
+    const preview = await previewContactImport({
+      accountKey,
+      csvRows: parseCsv(csv),
+      mapping: body?.mapping,
+    });
+    return NextResponse.json(preview);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to preview import';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
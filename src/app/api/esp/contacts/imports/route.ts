@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { MANAGEMENT_ROLES } from '@/lib/auth';
+import * as accountService from '@/lib/services/accounts';
+import { filterAccountKeysByAccess, hasUnrestrictedAccountAccess } from '@/lib/roles';
+import { parseCsv } from '@/lib/contact-csv';
+import { createContactImport, listContactImports } from '@/lib/services/contact-imports';
+import { enqueueJob } from '@/lib/jobs/queue';
+import '@/lib/jobs/init';
+
+const MAX_CSV_LENGTH = 20 * 1024 * 1024;
+
+/**
+ * GET /api/esp/contacts/imports?accountKey=xxx
+ *
+ * Recent contact imports for one account (or every accessible account).
+ */
+export async function GET(req: NextRequest) {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  const role = session!.user.role;
+  const userAccountKeys = session!.user.accountKeys ?? [];
+  const requested = req.nextUrl.searchParams.get('accountKey')?.trim() || '';
+
+  let accountKeys: string[];
+  if (requested) {
+    if (!hasUnrestrictedAccountAccess(role, userAccountKeys) && !userAccountKeys.includes(requested)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    accountKeys = [requested];
+  } else {
+    const allAccounts = await accountService.getAccounts();
+    accountKeys = filterAccountKeysByAccess(allAccounts.map((account) => account.key), role, userAccountKeys);
+  }
+
+  const imports = await listContactImports(accountKeys);
+  return NextResponse.json({ imports });
+}
+
+/**
+ * POST /api/esp/contacts/imports
+ *
+ * Start a contact import. Body: `{ accountKey, fileName, csv, mapping? }`
+ * where `mapping` is one contact field (or null) per CSV column. Rows are
+ * pushed through the account's adapter by a background job.
+ */
+export async function POST(req: NextRequest) {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  const body = await req.json().catch(() => ({}));
+  const accountKey = typeof body?.accountKey === 'string' ? body.accountKey.trim() : '';
+  if (!accountKey) {
+    return NextResponse.json({ error: 'accountKey is required' }, { status: 400 });
+  }
+
+  const userAccountKeys = session!.user.accountKeys ?? [];
+  if (!hasUnrestrictedAccountAccess(session!.user.role, userAccountKeys) && !userAccountKeys.includes(accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const csv = typeof body?.csv === 'string' ? body.csv : '';
+  if (!csv.trim()) {
+    return NextResponse.json({ error: 'csv is required' }, { status: 400 });
+  }
+  if (csv.length > MAX_CSV_LENGTH) {
+    return NextResponse.json({ error: 'CSV files are limited to 20 MB' }, { status: 413 });
+  }
+
+  try {
+    const contactImport = await createContactImport({
+      accountKey,
+      fileName: typeof body?.fileName === 'string' ? body.fileName : '',
+      csvRows: parseCsv(csv),
+      mapping: body?.mapping,
+      createdByUserId: session!.user.id,
+    });
+    await enqueueJob('contact-import.process', { importId: contactImport.id });
+    return NextResponse.json({ import: contactImport }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to start import';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
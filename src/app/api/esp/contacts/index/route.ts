@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { MANAGEMENT_ROLES } from '@/lib/auth';
+import * as accountService from '@/lib/services/accounts';
+import { filterAccountKeysByAccess, type UserRole } from '@/lib/roles';
+import {
+  getContactIndexStatus,
+  syncAccountContactIndex,
+} from '@/lib/services/contact-index';
+import { withConcurrencyLimit } from '@/lib/esp/utils';
+
+async function resolveAllowedKeys(role: UserRole, userAccountKeys: string[], requested: string[]) {
+  const allAccounts = await accountService.getAccounts();
+  const allKeys = allAccounts.filter((account) => !account.key.startsWith('_')).map((account) => account.key);
+  const allowedKeys = filterAccountKeysByAccess(allKeys, role, userAccountKeys);
+  return requested.length > 0
+    ? requested.filter((key) => allowedKeys.includes(key))
+    : allowedKeys;
+}
+
+function parseKeys(value: string | null | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean);
+}
+
+/**
+ * GET /api/esp/contacts/index
+ *
+ * Contact index sync status per account.
+ */
+export async function GET(req: NextRequest) {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  const selectedKeys = await resolveAllowedKeys(
+    session!.user.role,
+    session!.user.accountKeys ?? [],
+    parseKeys(req.nextUrl.searchParams.get('accountKeys')),
+  );
+  const statuses = await getContactIndexStatus(selectedKeys);
+  return NextResponse.json({ statuses });
+}
+
+/**
+ * POST /api/esp/contacts/index
+ *
+ * Re-sync the contact index now for the given `accountKeys` (max 10).
+ */
+export async function POST(req: NextRequest) {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  const body = await req.json().catch(() => ({}));
+  const requested: string[] = Array.isArray(body?.accountKeys)
+    ? body.accountKeys.map((key: unknown) => String(key).trim()).filter(Boolean)
+    : [];
+  if (requested.length === 0) {
+    return NextResponse.json({ error: 'accountKeys is required' }, { status: 400 });
+  }
+  if (requested.length > 10) {
+    return NextResponse.json({ error: 'At most 10 accounts can be re-synced at once' }, { status: 400 });
+  }
+
+  const selectedKeys = await resolveAllowedKeys(session!.user.role, session!.user.accountKeys ?? [], requested);
+  if (selectedKeys.length === 0) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const results: Awaited<ReturnType<typeof syncAccountContactIndex>>[] = [];
+  await withConcurrencyLimit(
+    selectedKeys.map((accountKey) => async () => {
+      results.push(await syncAccountContactIndex(accountKey));
+    }),
+    2,
+  );
+  return NextResponse.json({ results });
+}
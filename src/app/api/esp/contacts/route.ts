@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireRole } from '@/lib/api-auth';
 import { resolveAdapterAndCredentials, isResolveError } from '@/lib/esp/route-helpers';
+import { parseContactPatch, parseTagList } from '@/lib/esp/contact-patch';
+import { unsupportedCapabilityPayload } from '@/lib/esp/unsupported';
+import { hasUnrestrictedAccountAccess } from '@/lib/roles';
+import { upsertIndexedContact } from '@/lib/services/contact-index';
 
 /**
  * GET /api/esp/contacts?accountKey=xxx
@@ -80,3 +84,63 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: message }, { status });
   }
 }
+
+/**
+ * POST /api/esp/contacts
+ *
+ * Provider-agnostic contact creation.
+ * Body: `{ accountKey, contact: ContactPatch, tags?: string[] }`.
+ */
+export async function POST(req: NextRequest) {
+  const { session, error } = await requireRole('developer', 'super_admin', 'admin', 'client');
+  if (error) return error;
+
+  const body = await req.json().catch(() => ({}));
+  const accountKey = typeof body?.accountKey === 'string' ? body.accountKey.trim() : '';
+  if (!accountKey) {
+    return NextResponse.json({ error: 'accountKey is required' }, { status: 400 });
+  }
+
+  const userAccountKeys = session!.user.accountKeys ?? [];
+  if (!hasUnrestrictedAccountAccess(session!.user.role, userAccountKeys) && !userAccountKeys.includes(accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const patch = parseContactPatch(body?.contact);
+  if (!patch.email && !patch.phone) {
+    return NextResponse.json({ error: 'An email or phone is required' }, { status: 400 });
+  }
+  const tags = parseTagList(body?.tags);
+
+  const result = await resolveAdapterAndCredentials(accountKey, {
+    requireCapability: 'contacts',
+  });
+  if (isResolveError(result)) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  const { adapter, credentials } = result;
+  if (!adapter.contacts!.createContact) {
+    return NextResponse.json(unsupportedCapabilityPayload(adapter.provider, 'contact creation'), { status: 501 });
+  }
+
+  try {
+    const contact = await adapter.contacts!.createContact({
+      token: credentials.token,
+      locationId: credentials.locationId,
+      contact: { ...patch, tags },
+    });
+
+    try {
+      await upsertIndexedContact(accountKey, adapter.provider, contact);
+    } catch (err) {
+      console.error(`[contacts] Failed to index created contact ${accountKey}/${contact.id}:`, err);
+    }
+
+    return NextResponse.json({ contact, provider: adapter.provider }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to create contact';
+    const status = (err as { status?: unknown })?.status;
+    return NextResponse.json({ error: message }, { status: typeof status === 'number' ? status : 500 });
+  }
+}
@@ -1,12 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireRole } from '@/lib/api-auth';
+import { auditActorFromSession } from '@/lib/services/audit-log';
 import {
   createSmsCampaign,
   listSmsCampaigns,
   processSmsCampaign,
+  resolveAudienceSmsRecipients,
   type SmsRecipientInput,
 } from '@/lib/services/sms-campaigns';
+import {
+  AudienceSelectionError,
+  resolveAudienceSelection,
+  type AudienceSelection,
+} from '@/lib/services/audiences';
 import type { OutboundMessageChannel } from '@/lib/esp/types';
+import { JobConflictError, runJobInline } from '@/lib/jobs/queue';
+import '@/lib/jobs/init';
 
 function parseDate(value: unknown): Date | null {
   if (typeof value !== 'string' || !value.trim()) return null;
@@ -15,26 +24,6 @@ function parseDate(value: unknown): Date | null {
   return date;
 }
 
-function normalizeRecipients(raw: unknown): SmsRecipientInput[] {
-  if (!Array.isArray(raw)) return [];
-  const recipients: SmsRecipientInput[] = [];
-  for (const item of raw) {
-    if (!item || typeof item !== 'object' || Array.isArray(item)) continue;
-    const row = item as Record<string, unknown>;
-    const contactId = String(row.contactId || '').trim();
-    const accountKey = String(row.accountKey || '').trim();
-    if (!contactId || !accountKey) continue;
-
-    recipients.push({
-      contactId,
-      accountKey,
-      phone: String(row.phone || '').trim(),
-      fullName: String(row.fullName || '').trim(),
-    });
-  }
-  return recipients;
-}
-
 function normalizeChannel(value: unknown): OutboundMessageChannel {
   const text = typeof value === 'string' ? value.trim().toUpperCase() : '';
   return text === 'MMS' ? 'MMS' : 'SMS';
@@ -72,6 +61,8 @@ export async function GET(req: NextRequest) {
  * POST /api/esp/messages/bulk
  *
  * Creates a bulk outbound message campaign and optionally processes it immediately.
+ * Recipients are the audience (`audienceId` or inline `filters`, across
+ * `accountKeys`) evaluated against the server-side contact index.
  */
 export async function POST(req: NextRequest) {
   const { session, error } = await requireRole('developer', 'super_admin', 'admin', 'client');
@@ -83,7 +74,6 @@ export async function POST(req: NextRequest) {
   const mediaUrls = normalizeMediaUrls(body?.mediaUrls);
   const scheduledForRaw = body?.scheduledFor;
   const scheduledFor = parseDate(scheduledForRaw);
-  const recipients = normalizeRecipients(body?.recipients);
   const processNow = typeof body?.processNow === 'boolean'
     ? body.processNow
     : !(scheduledFor && scheduledFor.getTime() > Date.now());
@@ -91,19 +81,21 @@ export async function POST(req: NextRequest) {
   if (!message.trim() && mediaUrls.length === 0) {
     return NextResponse.json({ error: 'message or mediaUrls is required' }, { status: 400 });
   }
-  if (recipients.length === 0) {
-    return NextResponse.json({ error: 'At least one recipient is required' }, { status: 400 });
-  }
-  if (recipients.length > 500) {
-    return NextResponse.json({ error: 'Recipient limit is 500 per bulk send' }, { status: 400 });
-  }
 
-  if (session!.user.role === 'client') {
-    const allowed = new Set(session!.user.accountKeys ?? []);
-    const forbiddenRecipient = recipients.find((recipient) => !allowed.has(recipient.accountKey));
-    if (forbiddenRecipient) {
-      return NextResponse.json({ error: 'Forbidden recipient account selection' }, { status: 403 });
+  let selection: AudienceSelection;
+  let recipients: SmsRecipientInput[];
+  try {
+    selection = await resolveAudienceSelection(session!.user, body ?? {}, { requireTarget: true });
+    recipients = await resolveAudienceSmsRecipients(selection);
+  } catch (err) {
+    if (err instanceof AudienceSelectionError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
     }
+    console.error('[bulk-messages] Audience evaluation failed:', err);
+    return NextResponse.json({ error: 'Failed to evaluate audience' }, { status: 500 });
+  }
+  if (recipients.length === 0) {
+    return NextResponse.json({ error: 'No contacts with a phone number match this audience' }, { status: 400 });
   }
 
   try {
@@ -116,17 +108,27 @@ export async function POST(req: NextRequest) {
       scheduledFor: scheduledFor?.toISOString() || null,
       createdByUserId: session!.user.id,
       createdByRole: session!.user.role,
-      sourceAudienceId: typeof body?.audienceId === 'string' ? body.audienceId : null,
-      sourceFilter: typeof body?.sourceFilter === 'string' ? body.sourceFilter : null,
+      sourceAudienceId: selection.audienceId,
+      sourceFilter: !selection.audienceId && selection.definition ? JSON.stringify(selection.definition) : null,
       metadata: typeof body?.metadata === 'string' ? body.metadata : null,
+      actor: auditActorFromSession(session),
     });
 
     if (!processNow) {
       return NextResponse.json({ campaign: created, processed: false }, { status: 201 });
     }
 
-    const processed = await processSmsCampaign(created.id, { concurrency: 4 });
-    return NextResponse.json({ campaign: processed, processed: true }, { status: 201 });
+    // Short pacing budget so the request returns; the job queue sends the rest.
+    // Same job key as the queue's run, so the two can never send this campaign at once.
+    try {
+      const processed = await runJobInline('sms-campaign.process', { campaignId: created.id }, () => (
+        processSmsCampaign(created.id, { concurrency: 4, maxDurationMs: 15_000 })
+      ));
+      return NextResponse.json({ campaign: processed, processed: true }, { status: 201 });
+    } catch (err) {
+      if (!(err instanceof JobConflictError)) throw err;
+      return NextResponse.json({ campaign: created, processed: false }, { status: 201 });
+    }
   } catch (err) {
     const messageText = err instanceof Error ? err.message : 'Failed to create bulk message campaign';
     const status = messageText.toLowerCase().includes('required') ? 400 : 500;
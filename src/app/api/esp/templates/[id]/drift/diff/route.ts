@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import { TemplateDriftError, getTemplateDriftDiff } from '@/lib/esp/template-drift';
+import { templateReviewViewerFromSession } from '@/lib/services/template-reviews';
+
+/**
+ * GET /api/esp/templates/[id]/drift/diff?provider=ghl
+ *
+ * Loomi's copy next to the provider's current copy, with the remote merge
+ * tags translated back to Loomi's so only real edits differ:
+ *   { diff: { provider, remoteId, status, loomi: { html, subject, previewText }, remote: {...} | null } }
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { id } = await params;
+  const provider = req.nextUrl.searchParams.get('provider')?.trim().toLowerCase();
+  if (!provider) {
+    return NextResponse.json({ error: 'provider is required' }, { status: 400 });
+  }
+
+  try {
+    const diff = await getTemplateDriftDiff(id, provider, templateReviewViewerFromSession(session!));
+    return NextResponse.json({ diff });
+  } catch (err) {
+    if (err instanceof TemplateDriftError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[template-drift] Failed to load template diff:', err);
+    return NextResponse.json({ error: 'Failed to load template diff' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import { TemplateDriftError, pullRemoteTemplate } from '@/lib/esp/template-drift';
+import {
+  resetReviewAfterEdit,
+  templateReviewViewerFromSession,
+} from '@/lib/services/template-reviews';
+
+/**
+ * POST /api/esp/templates/[id]/drift/pull
+ *
+ * Replace Loomi's copy with the provider's copy. Body: { provider: string }
+ *
+ * Both the replaced and the pulled copy are saved as template versions. The
+ * template becomes a code template, and like any edit it needs approval
+ * again before the next publish.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+  const provider = typeof body.provider === 'string' ? body.provider.trim().toLowerCase() : '';
+  if (!provider) {
+    return NextResponse.json({ error: 'provider is required' }, { status: 400 });
+  }
+
+  const viewer = templateReviewViewerFromSession(session!);
+  try {
+    const drift = await pullRemoteTemplate(id, provider, viewer);
+    await resetReviewAfterEdit(id, viewer);
+    return NextResponse.json({ drift });
+  } catch (err) {
+    if (err instanceof TemplateDriftError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[template-drift] Failed to pull remote template:', err);
+    return NextResponse.json({ error: 'Failed to pull remote template' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import {
+  TemplateDriftError,
+  checkTemplateDrift,
+  getTemplateDrift,
+} from '@/lib/esp/template-drift';
+import { templateReviewViewerFromSession } from '@/lib/services/template-reviews';
+
+function driftErrorResponse(err: unknown, fallback: string) {
+  if (err instanceof TemplateDriftError) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+  console.error(`[template-drift] ${fallback}:`, err);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+/**
+ * GET /api/esp/templates/[id]/drift
+ *
+ * Drift state from the last reconciliation, per provider:
+ *   { drift: { driftDetectedAt, providers: [{ provider, status, localChanged, checkedAt, ... }] } }
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { id } = await params;
+  try {
+    const drift = await getTemplateDrift(id, templateReviewViewerFromSession(session!));
+    return NextResponse.json({ drift });
+  } catch (err) {
+    return driftErrorResponse(err, 'Failed to load template drift');
+  }
+}
+
+/**
+ * POST /api/esp/templates/[id]/drift
+ *
+ * Re-fetch the template's ESP copies now and compare them with their
+ * baselines. Returns the same shape as GET.
+ */
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { id } = await params;
+  try {
+    const drift = await checkTemplateDrift(id, { viewer: templateReviewViewerFromSession(session!) });
+    return NextResponse.json({ drift });
+  } catch (err) {
+    return driftErrorResponse(err, 'Failed to check template drift');
+  }
+}
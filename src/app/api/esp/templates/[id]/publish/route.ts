@@ -2,18 +2,40 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/api-auth';
 import { prisma } from '@/lib/prisma';
 import {
+  checkTemplateMergeTags,
   serializePublishedToMapping,
   syncTemplateToProviders,
 } from '@/lib/esp/template-sync';
+import { checkTemplateDrift, recordTemplateSyncBaselines } from '@/lib/esp/template-drift';
+import { auditActorFromSession, recordAuditEvent } from '@/lib/services/audit-log';
+import {
+  checkPublishApproval,
+  markTemplatePublished,
+  templateReviewViewerFromSession,
+} from '@/lib/services/template-reviews';
 
 /**
  * POST /api/esp/templates/[id]/publish
  *
  * Publish a template to one or more connected ESPs.
- * Body: { providers: string[] }
+ * Body: { providers: string[], override?: boolean, overrideReason?: string,
+ *         allowUnmappedMergeTags?: boolean, overwriteRemoteChanges?: boolean }
+ *
+ * The template must be approved for its current subject, preview text and
+ * HTML (409 otherwise). Developers and super admins may override with a
+ * reason, which is recorded on the publish audit event.
+ *
+ * Merge tags and conditional blocks are translated into each provider's
+ * syntax. If a provider can't render some tags or visibility rules, returns
+ * 422 with { unmappedMergeTags, unsupportedConditions } (each keyed by
+ * provider) unless allowUnmappedMergeTags is set.
+ *
+ * Copies already on a provider are re-fetched first. If one was edited in the
+ * ESP since Loomi last pushed it, returns 409 with { remoteChanged: provider[] }
+ * unless overwriteRemoteChanges is set (force-push).
  *
  * Returns per-provider results:
- *   { results: { [provider]: { success, remoteId?, error? } }, publishedTo }
+ *   { results: { [provider]: { success, remoteId?, error?, mergeTags? } }, publishedTo }
  */
 export async function POST(
   req: NextRequest,
@@ -55,6 +77,64 @@ export async function POST(
     );
   }
 
+  const viewer = templateReviewViewerFromSession(session!);
+  const approval = await checkPublishApproval(
+    id,
+    viewer,
+    body.override ? { reason: body.overrideReason } : null,
+  );
+  if (!approval.allowed) {
+    return NextResponse.json(
+      { error: approval.error, reviewStatus: approval.status, approvalRequired: true },
+      { status: 409 },
+    );
+  }
+
+  if (!body.allowUnmappedMergeTags) {
+    const mergeTagReports = await checkTemplateMergeTags({
+      accountKey: template.accountKey,
+      providers,
+      html: template.html,
+      subject: template.subject,
+      previewText: template.previewText,
+    });
+    const unmappedMergeTags = Object.fromEntries(
+      Object.entries(mergeTagReports)
+        .filter(([, report]) => report.unmapped.length > 0)
+        .map(([provider, report]) => [provider, report.unmapped]),
+    );
+    const unsupportedConditions = Object.fromEntries(
+      Object.entries(mergeTagReports)
+        .filter(([, report]) => report.unsupportedConditions.length > 0)
+        .map(([provider, report]) => [provider, report.unsupportedConditions]),
+    );
+    if (Object.keys(unmappedMergeTags).length > 0 || Object.keys(unsupportedConditions).length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Some merge tags or visibility rules have no equivalent in the selected ESPs',
+          unmappedMergeTags,
+          unsupportedConditions,
+          mergeTagReports,
+        },
+        { status: 422 },
+      );
+    }
+  }
+
+  const drift = await checkTemplateDrift(id, { providers });
+  const remoteChanged = drift.providers
+    .filter((provider) => provider.status === 'remote_changed')
+    .map((provider) => provider.provider);
+  if (remoteChanged.length > 0 && !body.overwriteRemoteChanges) {
+    return NextResponse.json(
+      {
+        error: 'The template was edited in the ESP since it was last published from Loomi',
+        remoteChanged,
+      },
+      { status: 409 },
+    );
+  }
+
   const syncResult = await syncTemplateToProviders({
     accountKey: template.accountKey,
     primaryProvider: template.provider,
@@ -76,6 +156,30 @@ export async function POST(
       ...(syncResult.syncedProviders.length > 0 ? { lastSyncedAt: new Date() } : {}),
     },
   });
+  await recordTemplateSyncBaselines(id, template.html, syncResult.results);
+
+  await recordAuditEvent({
+    action: 'template.publish',
+    targetType: 'template',
+    targetId: template.id,
+    targetLabel: template.name,
+    accountKey: template.accountKey,
+    actor: auditActorFromSession(session),
+    metadata: {
+      providers,
+      syncedProviders: syncResult.syncedProviders,
+      failedProviders: providers.filter((provider) => !syncResult.syncedProviders.includes(provider)),
+      ...(approval.overridden
+        ? { approvalOverridden: true, reviewStatus: template.reviewStatus, overrideReason: approval.overrideReason }
+        : {}),
+      ...(body.allowUnmappedMergeTags ? { unmappedMergeTagsAllowed: true } : {}),
+      ...(remoteChanged.length > 0 ? { remoteChangesOverwritten: remoteChanged } : {}),
+    },
+  });
+
+  if (syncResult.syncedProviders.length > 0) {
+    await markTemplatePublished(id, viewer);
+  }
 
   return NextResponse.json({
     results: syncResult.results,
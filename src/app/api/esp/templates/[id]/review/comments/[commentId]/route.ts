@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import {
+  TemplateReviewError,
+  setTemplateCommentResolved,
+  templateReviewViewerFromSession,
+} from '@/lib/services/template-reviews';
+
+/**
+ * PATCH /api/esp/templates/[id]/review/comments/[commentId]
+ *
+ * Resolve or reopen a thread. Body: { resolved: boolean }
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { id, commentId } = await params;
+  const body = await req.json().catch(() => ({}));
+  if (typeof body.resolved !== 'boolean') {
+    return NextResponse.json({ error: 'resolved must be a boolean' }, { status: 400 });
+  }
+
+  try {
+    const comment = await setTemplateCommentResolved(
+      id,
+      commentId,
+      body.resolved,
+      templateReviewViewerFromSession(session!),
+    );
+    return NextResponse.json({ comment });
+  } catch (err) {
+    if (err instanceof TemplateReviewError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[template-review] Failed to update comment:', err);
+    return NextResponse.json({ error: 'Failed to update comment' }, { status: 500 });
+  }
+}
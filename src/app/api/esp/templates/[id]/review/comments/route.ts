@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import {
+  TemplateReviewError,
+  addTemplateComment,
+  templateReviewViewerFromSession,
+} from '@/lib/services/template-reviews';
+
+/**
+ * POST /api/esp/templates/[id]/review/comments
+ *
+ * Start a thread or reply to one.
+ * Body: { body, componentIndex?, componentType?, parentId? }
+ * Threads anchored to a component carry its index in the template source;
+ * replies inherit the anchor of the thread they belong to.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    const comment = await addTemplateComment(
+      id,
+      {
+        body: body.body,
+        componentIndex: body.componentIndex,
+        componentType: body.componentType,
+        parentId: body.parentId,
+      },
+      templateReviewViewerFromSession(session!),
+    );
+    return NextResponse.json({ comment }, { status: 201 });
+  } catch (err) {
+    if (err instanceof TemplateReviewError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[template-review] Failed to add comment:', err);
+    return NextResponse.json({ error: 'Failed to add comment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import {
+  TemplateReviewError,
+  getTemplateReview,
+  isTemplateReviewAction,
+  setTemplateReviewers,
+  templateReviewViewerFromSession,
+  transitionTemplateReview,
+} from '@/lib/services/template-reviews';
+
+function reviewErrorResponse(err: unknown, fallback: string) {
+  if (err instanceof TemplateReviewError) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+  console.error(`[template-review] ${fallback}:`, err);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+/**
+ * GET /api/esp/templates/[id]/review
+ *
+ * Review state for a template: status, reviewers, comment threads and what
+ * the current user is allowed to do.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { id } = await params;
+  try {
+    const review = await getTemplateReview(id, templateReviewViewerFromSession(session!));
+    return NextResponse.json({ review });
+  } catch (err) {
+    return reviewErrorResponse(err, 'Failed to load review');
+  }
+}
+
+/**
+ * POST /api/esp/templates/[id]/review
+ *
+ * Move the template through the review lifecycle.
+ * Body: { action: 'submit' | 'withdraw' | 'approve' | 'request_changes', note? }
+ * A note is required when requesting changes.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+  if (!isTemplateReviewAction(body.action)) {
+    return NextResponse.json({ error: 'Invalid review action' }, { status: 400 });
+  }
+
+  try {
+    const review = await transitionTemplateReview(
+      id,
+      body.action,
+      templateReviewViewerFromSession(session!),
+      body.note,
+    );
+    return NextResponse.json({ review });
+  } catch (err) {
+    return reviewErrorResponse(err, 'Failed to update review');
+  }
+}
+
+/**
+ * PUT /api/esp/templates/[id]/review
+ *
+ * Assign reviewers. Body: { reviewerUserIds: string[] }
+ * Reviewers must have access to the template's account.
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    const review = await setTemplateReviewers(
+      id,
+      body.reviewerUserIds,
+      templateReviewViewerFromSession(session!),
+    );
+    return NextResponse.json({ review });
+  } catch (err) {
+    return reviewErrorResponse(err, 'Failed to update reviewers');
+  }
+}
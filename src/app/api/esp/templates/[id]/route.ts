@@ -3,10 +3,9 @@ import { requireAuth } from '@/lib/api-auth';
 import { resolveAdapterAndCredentials, isResolveError } from '@/lib/esp/route-helpers';
 import { prisma } from '@/lib/prisma';
 import {
-  resolveTemplateSyncProviders,
-  serializePublishedToMapping,
-  syncTemplateToProviders,
-} from '@/lib/esp/template-sync';
+  resetReviewAfterEdit,
+  templateReviewViewerFromSession,
+} from '@/lib/services/template-reviews';
 
 /**
  * GET /api/esp/templates/[id]
@@ -40,8 +39,11 @@ export async function GET(
 /**
  * PUT /api/esp/templates/[id]
  *
- * Update a template locally, optionally push to ESP.
- * Body: { name?, subject?, previewText?, html?, source?, editorType?, syncToRemote?: boolean }
+ * Update a template locally.
+ * Body: { name?, subject?, previewText?, html?, source?, editorType?, accountKey? }
+ *
+ * Saving never pushes to an ESP; use POST /api/esp/templates/[id]/publish,
+ * which enforces approval, merge-tag, drift and audit checks.
  */
 export async function PUT(
   req: NextRequest,
@@ -59,9 +61,7 @@ export async function PUT(
     html,
     source,
     editorType,
-    syncToRemote,
     accountKey,
-    providers,
   } = body;
 
   // Find the local template
@@ -107,54 +107,6 @@ export async function PUT(
   }
 
   try {
-    const preferredProviders = Array.isArray(providers)
-      ? providers.filter((provider): provider is string => typeof provider === 'string' && provider.trim().length > 0)
-      : [];
-    const resolvedName = typeof name === 'string' && name.trim() ? name.trim() : existing.name;
-    const resolvedSubject = subject !== undefined ? subject : existing.subject;
-    const resolvedPreviewText = previewText !== undefined ? previewText : existing.previewText;
-    const resolvedHtml = typeof html === 'string' ? html : existing.html;
-    const resolvedEditorType = typeof editorType === 'string' ? editorType : existing.editorType;
-
-    let syncProviders: string[] = [];
-    let syncResults: Record<string, { success: boolean; remoteId?: string; error?: string }> = {};
-    let syncFailedProviders: string[] = [];
-    let publishedTo = existing.publishedTo;
-    let remoteId = existing.remoteId;
-    let lastSyncedAt = existing.lastSyncedAt;
-
-    if (syncToRemote && !accountChanged) {
-      syncProviders = await resolveTemplateSyncProviders({
-        accountKey: existing.accountKey,
-        preferredProviders,
-        publishedTo: existing.publishedTo,
-        remoteId: existing.remoteId,
-        primaryProvider: existing.provider,
-      });
-
-      if (syncProviders.length > 0) {
-        const syncResult = await syncTemplateToProviders({
-          accountKey: existing.accountKey,
-          primaryProvider: existing.provider,
-          remoteId: existing.remoteId,
-          publishedTo: existing.publishedTo,
-          providers: syncProviders,
-          name: resolvedName,
-          subject: resolvedSubject,
-          previewText: resolvedPreviewText,
-          html: resolvedHtml,
-          editorType: resolvedEditorType,
-        });
-        syncResults = syncResult.results;
-        syncFailedProviders = syncResult.failedProviders;
-        publishedTo = serializePublishedToMapping(syncResult.publishedTo);
-        remoteId = syncResult.primaryRemoteId;
-        if (syncResult.syncedProviders.length > 0) {
-          lastSyncedAt = new Date();
-        }
-      }
-    }
-
     // Update locally
     const template = await prisma.espTemplate.update({
       where: { id },
@@ -165,11 +117,6 @@ export async function PUT(
         ...(html !== undefined && { html }),
         ...(source !== undefined && { source }),
         ...(editorType !== undefined && { editorType }),
-        ...(!accountChanged && syncToRemote && {
-          publishedTo,
-          remoteId,
-          lastSyncedAt,
-        }),
         ...(accountChanged && {
           accountKey: targetAccountKey,
           provider: targetProvider,
@@ -177,18 +124,26 @@ export async function PUT(
           publishedTo: null,
           status: 'draft',
           lastSyncedAt: null,
+          remoteSyncState: null,
+          driftDetectedAt: null,
+          // Approval and reviewers belong to the old account.
+          reviewStatus: 'draft',
+          reviewerUserIds: '[]',
+          approvedHtmlHash: null,
         }),
       },
     });
 
-    return NextResponse.json({
-      template,
-      synced: syncToRemote && syncProviders.length > 0 && syncFailedProviders.length < syncProviders.length,
-      syncAttempted: syncToRemote && !accountChanged && syncProviders.length > 0,
-      syncProviders,
-      syncFailedProviders,
-      syncResults,
+    // An edited approved template needs approval again.
+    if ((html !== undefined || subject !== undefined || previewText !== undefined) && !accountChanged) {
+      await resetReviewAfterEdit(id, templateReviewViewerFromSession(session!));
+    }
+    const reviewState = await prisma.espTemplate.findUnique({
+      where: { id },
+      select: { reviewStatus: true, approvedHtmlHash: true },
     });
+
+    return NextResponse.json({ template: { ...template, ...reviewState } });
   } catch (err) {
     const message = err instanceof Error ? err.message : 'Failed to update template';
     return NextResponse.json({ error: message }, { status: 500 });
@@ -2,11 +2,6 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/api-auth';
 import { getAdapterForAccount } from '@/lib/esp/registry';
 import { prisma } from '@/lib/prisma';
-import {
-  resolveTemplateSyncProviders,
-  serializePublishedToMapping,
-  syncTemplateToProviders,
-} from '@/lib/esp/template-sync';
 
 function normalizeTemplateProvider<
   T extends {
@@ -130,8 +125,12 @@ export async function GET(req: NextRequest) {
 /**
  * POST /api/esp/templates
  *
- * Create a new template locally, optionally also on the ESP.
+ * Create a new template locally.
  * Body: { accountKey, name, subject?, previewText?, html, editorType?, syncToRemote?: boolean }
+ *
+ * New templates start in review status "draft" and are never synced on
+ * create; `syncToRemote` only sets `syncBlockedReason` so the editor can say
+ * the template is awaiting approval.
  */
 export async function POST(req: NextRequest) {
   const { session, error } = await requireAuth();
@@ -147,7 +146,6 @@ export async function POST(req: NextRequest) {
     source,
     editorType,
     syncToRemote,
-    providers,
   } = body;
 
   if (!accountKey || !name) {
@@ -171,46 +169,11 @@ export async function POST(req: NextRequest) {
   }
 
   try {
-    const preferredProviders = Array.isArray(providers)
-      ? providers.filter((provider): provider is string => typeof provider === 'string' && provider.trim().length > 0)
-      : [];
-    const syncProviders = syncToRemote
-      ? await resolveTemplateSyncProviders({
-        accountKey,
-        preferredProviders,
-        primaryProvider: providerName,
-      })
-      : [];
-
-    let remoteId: string | null = null;
-    let publishedTo: string | null = null;
-    let syncResults: Record<string, { success: boolean; remoteId?: string; error?: string }> = {};
-    let syncFailedProviders: string[] = [];
-
-    if (syncProviders.length > 0) {
-      const syncResult = await syncTemplateToProviders({
-        accountKey,
-        primaryProvider: providerName,
-        providers: syncProviders,
-        name,
-        subject,
-        previewText,
-        html: html || '',
-        editorType,
-      });
-      remoteId = syncResult.primaryRemoteId;
-      publishedTo = serializePublishedToMapping(syncResult.publishedTo);
-      syncResults = syncResult.results;
-      syncFailedProviders = syncResult.failedProviders;
-    }
-
     // Create locally — always works even without ESP connection
     const template = await prisma.espTemplate.create({
       data: {
         accountKey,
         provider: providerName,
-        remoteId,
-        publishedTo,
         name,
         subject: subject || null,
         previewText: previewText || null,
@@ -218,18 +181,13 @@ export async function POST(req: NextRequest) {
         source: source || null,
         status: 'draft',
         editorType: editorType || null,
-        lastSyncedAt: syncProviders.length > syncFailedProviders.length ? new Date() : null,
       },
     });
 
     return NextResponse.json(
       {
         template,
-        synced: syncProviders.length > syncFailedProviders.length,
-        syncAttempted: syncProviders.length > 0,
-        syncProviders,
-        syncFailedProviders,
-        syncResults,
+        syncBlockedReason: syncToRemote ? 'approval_required' : null,
       },
       { status: 201 },
     );
@@ -11,11 +11,13 @@ import {
   assignTemplatesToFolder,
 } from '@/lib/esp-template-folders-store';
 import { fetchTemplateFolders } from '@/lib/esp/adapters/ghl/templates';
+import { translateMergeTagsFromProvider } from '@/lib/esp/merge-tags';
 
 /**
  * POST /api/esp/templates/sync?accountKey=xxx
  *
  * Pull latest templates from the ESP and upsert into local EspTemplate table.
+ * Provider merge tags are rewritten back to Loomi's canonical tokens.
  * Also syncs GHL template folders into local folder store.
  * Returns a sync summary.
  */
@@ -172,8 +174,18 @@ export async function POST(req: NextRequest) {
     // Collect template IDs that belong to a GHL folder for assignment after sync
     const templateFolderAssignments: Array<{ localTemplateId: string; localFolderId: string }> = [];
 
-    for (const remote of remoteTemplates) {
-      if (!remote.id) continue;
+    const mergeTags = adapter.mergeTags;
+    const toCanonical = (content: string) =>
+      (mergeTags ? translateMergeTagsFromProvider(content, mergeTags) : content);
+
+    for (const rawRemote of remoteTemplates) {
+      if (!rawRemote.id) continue;
+      const remote = {
+        ...rawRemote,
+        subject: rawRemote.subject ? toCanonical(rawRemote.subject) : rawRemote.subject,
+        previewText: rawRemote.previewText ? toCanonical(rawRemote.previewText) : rawRemote.previewText,
+        html: rawRemote.html ? toCanonical(rawRemote.html) : rawRemote.html,
+      };
 
       let existing = await prisma.espTemplate.findUnique({
         where: {
@@ -4,7 +4,8 @@ import { MANAGEMENT_ROLES } from '@/lib/auth';
 import { getAdapterForAccount } from '@/lib/esp/registry';
 import { readAccounts, withConcurrencyLimit } from '@/lib/esp/utils';
 import type { EspWorkflow } from '@/lib/esp/types';
-import { filterAccountKeysByAccess } from '@/lib/roles';
+import { filterAccountKeysByAccess, hasUnrestrictedAccountAccess } from '@/lib/roles';
+import { listLoomiFlows } from '@/lib/services/loomi-flows';
 import '@/lib/esp/init';
 
 /**
@@ -31,7 +32,7 @@ export async function GET(req: NextRequest) {
       ? requestedKeys.filter((key) => allowedKeys.includes(key))
       : allowedKeys;
 
-    const allWorkflows: (EspWorkflow & { accountKey: string; dealer: string; provider: string })[] = [];
+    const allWorkflows: (EspWorkflow & { accountKey: string; dealer: string; provider: string; source?: string })[] = [];
     const perAccount: Record<string, { dealer: string; count: number; connected: boolean; provider: string }> = {};
     const errors: Record<string, string> = {};
 
@@ -75,6 +76,29 @@ export async function GET(req: NextRequest) {
 
     await withConcurrencyLimit(tasks, 5);
 
+    // Loomi-native flows run on our side, so they list regardless of ESP connection.
+    try {
+      const includeShared = hasUnrestrictedAccountAccess(userRole, userAccountKeys) && requestedKeys.length === 0;
+      const loomiFlows = await listLoomiFlows({ accountKeys: selectedKeys });
+      for (const flow of loomiFlows) {
+        if (!flow.accountKey && !includeShared) continue;
+        allWorkflows.push({
+          id: flow.id,
+          name: flow.name,
+          status: flow.status,
+          createdAt: flow.createdAt,
+          updatedAt: flow.updatedAt,
+          locationId: '',
+          accountKey: flow.accountKey || '',
+          dealer: flow.accountKey ? accounts[flow.accountKey]?.dealer || flow.accountKey : 'All accounts',
+          provider: 'loomi',
+          source: 'loomi',
+        });
+      }
+    } catch (err) {
+      console.warn('[workflows/aggregate] Failed to load Loomi flows:', err);
+    }
+
     const errorCount = Object.keys(errors).length;
     if (skippedNoCredentials > 0 || errorCount > 0) {
       console.warn(
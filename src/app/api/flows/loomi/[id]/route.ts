@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { MANAGEMENT_ROLES } from '@/lib/auth';
+import { hasUnrestrictedAccountAccess, type UserRole } from '@/lib/roles';
+import {
+  deleteLoomiFlow,
+  getLoomiFlow,
+  getLoomiFlowEnrollmentCounts,
+  setLoomiFlowStatus,
+  updateLoomiFlow,
+  type LoomiFlowSummary,
+} from '@/lib/services/loomi-flows';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** Shared flows are only editable by users with unrestricted account access. */
+function canAccessFlow(flow: LoomiFlowSummary, role: UserRole, userAccountKeys: string[]): boolean {
+  if (hasUnrestrictedAccountAccess(role, userAccountKeys)) return true;
+  return Boolean(flow.accountKey && userAccountKeys.includes(flow.accountKey));
+}
+
+async function loadAccessibleFlow(id: string, role: UserRole, userAccountKeys: string[]) {
+  const flow = await getLoomiFlow(id);
+  if (!flow) return { response: NextResponse.json({ error: 'Flow not found' }, { status: 404 }) };
+  if (!canAccessFlow(flow, role, userAccountKeys)) {
+    return { response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+  return { flow };
+}
+
+/**
+ * GET /api/flows/loomi/[id]
+ *
+ * Returns the flow definition with enrollment counts by status.
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  const { id } = await params;
+  const { flow, response } = await loadAccessibleFlow(id, session!.user.role, session!.user.accountKeys ?? []);
+  if (response) return response;
+
+  const enrollments = await getLoomiFlowEnrollmentCounts(flow.id);
+  return NextResponse.json({ flow, enrollments });
+}
+
+/**
+ * PATCH /api/flows/loomi/[id]
+ *
+ * Update flow fields and/or `status` ("active" | "inactive"). Editing the
+ * definition of an active flow applies to in-flight enrollments on their
+ * next step.
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  const { id } = await params;
+  const userAccountKeys: string[] = session!.user.accountKeys ?? [];
+  const { flow, response } = await loadAccessibleFlow(id, session!.user.role, userAccountKeys);
+  if (response) return response;
+
+  const body = await req.json().catch(() => ({})) as Record<string, unknown>;
+  if (body.accountKey !== undefined) {
+    const accountKey = typeof body.accountKey === 'string' ? body.accountKey.trim() : '';
+    const unrestricted = hasUnrestrictedAccountAccess(session!.user.role, userAccountKeys);
+    if (!unrestricted && (!accountKey || !userAccountKeys.includes(accountKey))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+  }
+  if (body.status !== undefined && body.status !== 'active' && body.status !== 'inactive') {
+    return NextResponse.json({ error: 'status must be "active" or "inactive"' }, { status: 400 });
+  }
+
+  try {
+    let updated = flow;
+    const { status, ...fields } = body;
+    if (Object.keys(fields).length > 0) {
+      updated = await updateLoomiFlow(flow.id, {
+        name: fields.name as string | undefined,
+        description: fields.description as string | null | undefined,
+        accountKey: fields.accountKey as string | null | undefined,
+        sourceAudienceId: fields.sourceAudienceId as string | null | undefined,
+        sourceFilter: fields.sourceFilter,
+        definition: fields.definition,
+      });
+    }
+    if (status === 'active' || status === 'inactive') {
+      updated = await setLoomiFlowStatus(flow.id, status);
+    }
+    return NextResponse.json({ flow: updated });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to update flow';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
+
+/**
+ * DELETE /api/flows/loomi/[id]
+ *
+ * Deletes the flow and all of its enrollments.
+ */
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  const { id } = await params;
+  const { flow, response } = await loadAccessibleFlow(id, session!.user.role, session!.user.accountKeys ?? []);
+  if (response) return response;
+
+  await deleteLoomiFlow(flow.id);
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { MANAGEMENT_ROLES } from '@/lib/auth';
+import { hasUnrestrictedAccountAccess } from '@/lib/roles';
+import { createLoomiFlow, listLoomiFlows } from '@/lib/services/loomi-flows';
+
+/**
+ * GET /api/flows/loomi
+ *
+ * Lists Loomi-native flows visible to the caller (shared flows plus flows
+ * scoped to their accounts).
+ */
+export async function GET() {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  const userAccountKeys: string[] = session!.user.accountKeys ?? [];
+  const accountKeys = hasUnrestrictedAccountAccess(session!.user.role, userAccountKeys)
+    ? undefined
+    : userAccountKeys;
+
+  try {
+    const flows = await listLoomiFlows({ accountKeys });
+    return NextResponse.json({ flows });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to list flows';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/flows/loomi
+ *
+ * Create a flow from a name, optional account scope, source audience or
+ * filter, and a step-graph `definition`. New flows start inactive.
+ */
+export async function POST(req: NextRequest) {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  const body = await req.json().catch(() => ({})) as Record<string, unknown>;
+  const accountKey = typeof body.accountKey === 'string' ? body.accountKey.trim() : '';
+  const userAccountKeys: string[] = session!.user.accountKeys ?? [];
+  const unrestricted = hasUnrestrictedAccountAccess(session!.user.role, userAccountKeys);
+
+  if (!accountKey && !unrestricted) {
+    return NextResponse.json({ error: 'accountKey is required' }, { status: 400 });
+  }
+  if (accountKey && !unrestricted && !userAccountKeys.includes(accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const flow = await createLoomiFlow({
+      name: typeof body.name === 'string' ? body.name : '',
+      description: typeof body.description === 'string' ? body.description : null,
+      accountKey: accountKey || null,
+      sourceAudienceId: typeof body.sourceAudienceId === 'string' ? body.sourceAudienceId : null,
+      sourceFilter: body.sourceFilter,
+      definition: body.definition,
+      createdByUserId: session!.user.id,
+    });
+    return NextResponse.json({ flow }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to create flow';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireRole, requireAuth } from '@/lib/api-auth';
 import { prisma } from '@/lib/prisma';
 import type { UserRole } from '@/lib/auth';
+import { auditActorFromSession, recordAuditEvent } from '@/lib/services/audit-log';
 
 function parseAccountKeys(raw: string): string[] {
   try {
@@ -44,6 +45,15 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'User not found' }, { status: 404 });
   }
 
+  await recordAuditEvent({
+    action: 'user.impersonate.start',
+    targetType: 'user',
+    targetId: target.id,
+    targetLabel: target.name,
+    actor: auditActorFromSession(session),
+    metadata: { targetRole: target.role },
+  });
+
   const accountKeys = parseAccountKeys(target.accountKeys);
   return NextResponse.json({
     id: target.id,
@@ -89,6 +99,15 @@ export async function DELETE() {
     return NextResponse.json({ error: 'Original user not found' }, { status: 404 });
   }
 
+  // Attributed to the impersonated identity, with the original user as impersonator.
+  await recordAuditEvent({
+    action: 'user.impersonate.stop',
+    targetType: 'user',
+    targetId: session!.user.id,
+    targetLabel: session!.user.name,
+    actor: auditActorFromSession(session),
+  });
+
   const accountKeys = parseAccountKeys(original.accountKeys);
   return NextResponse.json({
     id: original.id,
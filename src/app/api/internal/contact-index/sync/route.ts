@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireInternalJobAuth } from '@/lib/internal-jobs';
+import { syncStaleContactIndexes } from '@/lib/services/contact-index';
+
+function parseOptionalInt(value: unknown, fallback: number | undefined): number | undefined {
+  if (value === undefined || value === null || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) return fallback;
+  return Math.floor(parsed);
+}
+
+export async function POST(req: NextRequest) {
+  const authError = requireInternalJobAuth(req);
+  if (authError) return authError;
+
+  try {
+    const body = await req.json().catch(() => ({})) as Record<string, unknown>;
+    const accountKeys = Array.isArray(body.accountKeys)
+      ? body.accountKeys.map((key) => String(key).trim()).filter(Boolean)
+      : undefined;
+    const staleAfterMinutes = parseOptionalInt(body.staleAfterMinutes, undefined);
+
+    const results = await syncStaleContactIndexes({
+      accountKeys,
+      staleAfterMs: staleAfterMinutes !== undefined ? staleAfterMinutes * 60_000 : undefined,
+      limit: parseOptionalInt(body.limit, undefined),
+      concurrency: parseOptionalInt(body.concurrency, undefined),
+    });
+
+    return NextResponse.json({
+      ok: true,
+      synced: results.filter((result) => result.status === 'ok').length,
+      failed: results.filter((result) => result.status === 'failed').length,
+      skipped: results.filter((result) => result.status === 'skipped').length,
+      results,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to sync contact index';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
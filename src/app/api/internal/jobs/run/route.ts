@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireInternalJobAuth } from '@/lib/internal-jobs';
+import { runJobWorker } from '@/lib/jobs/worker';
+
+function parseOptionalInt(value: unknown, fallback: number | undefined): number | undefined {
+  if (value === undefined || value === null || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) return fallback;
+  return Math.floor(parsed);
+}
+
+/**
+ * POST /api/internal/jobs/run
+ *
+ * Background job worker tick: enqueues due cron schedules, then runs queued
+ * jobs until `maxJobs` or `timeBudgetMs` is reached.
+ */
+export async function POST(req: NextRequest) {
+  const authError = requireInternalJobAuth(req);
+  if (authError) return authError;
+
+  try {
+    const body = await req.json().catch(() => ({})) as Record<string, unknown>;
+    const result = await runJobWorker({
+      maxJobs: parseOptionalInt(body.maxJobs, undefined),
+      timeBudgetMs: parseOptionalInt(body.timeBudgetMs, undefined),
+    });
+    const failed = result.processed.some((job) => job.status !== 'succeeded');
+    return NextResponse.json(result, { status: failed ? 207 : 200 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to run job worker';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
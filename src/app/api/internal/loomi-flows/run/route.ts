@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireInternalJobAuth } from '@/lib/internal-jobs';
+import { runLoomiFlows } from '@/lib/services/loomi-flows';
+
+function parseOptionalInt(value: unknown, fallback: number | undefined): number | undefined {
+  if (value === undefined || value === null || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) return fallback;
+  return Math.floor(parsed);
+}
+
+/**
+ * POST /api/internal/loomi-flows/run
+ *
+ * Runner tick for Loomi-native flows: enrolls newly eligible contacts and
+ * advances due enrollments. Meant to be called by cron every few minutes.
+ */
+export async function POST(req: NextRequest) {
+  const authError = requireInternalJobAuth(req);
+  if (authError) return authError;
+
+  try {
+    const body = await req.json().catch(() => ({})) as Record<string, unknown>;
+    const flowIds = Array.isArray(body.flowIds)
+      ? body.flowIds.filter((id): id is string => typeof id === 'string' && id.trim() !== '')
+      : undefined;
+
+    const result = await runLoomiFlows({
+      flowIds,
+      enrollmentLimit: parseOptionalInt(body.enrollmentLimit, undefined),
+      forceEnrollmentScan: body.forceEnrollmentScan === true,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to run Loomi flows';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
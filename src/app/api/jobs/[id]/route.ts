@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { ELEVATED_ROLES } from '@/lib/roles';
+import { cancelJob, getJob, retryJob } from '@/lib/jobs/queue';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/jobs/[id]
+ *
+ * Full job record including payload, result and last error.
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+  const { error } = await requireRole(...ELEVATED_ROLES);
+  if (error) return error;
+
+  const { id } = await params;
+  const job = await getJob(id);
+  if (!job) return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  return NextResponse.json({ job });
+}
+
+/**
+ * PATCH /api/jobs/[id]
+ *
+ * `{ action: "retry" }` re-queues a dead or canceled job;
+ * `{ action: "cancel" }` cancels a job that has not started.
+ */
+export async function PATCH(req: NextRequest, { params }: RouteContext) {
+  const { error } = await requireRole(...ELEVATED_ROLES);
+  if (error) return error;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+  const action = body?.action;
+  if (action !== 'retry' && action !== 'cancel') {
+    return NextResponse.json({ error: 'action must be "retry" or "cancel"' }, { status: 400 });
+  }
+
+  const existing = await getJob(id);
+  if (!existing) return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+
+  try {
+    const job = action === 'retry' ? await retryJob(id) : await cancelJob(id);
+    return NextResponse.json({ job });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to update job';
+    return NextResponse.json({ error: message }, { status: 409 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { ELEVATED_ROLES } from '@/lib/roles';
+import { enqueueJob, getJobCounts, listJobs } from '@/lib/jobs/queue';
+import { listJobSchedules } from '@/lib/jobs/scheduler';
+import { getRegisteredJobs, isRegisteredJobKind } from '@/lib/jobs/registry';
+import { JOB_STATUSES, type JobStatus } from '@/lib/jobs/types';
+import '@/lib/jobs/init';
+
+/**
+ * GET /api/jobs
+ *
+ * Admin view of the background job queue: recent jobs (optional `status`,
+ * `kind`, `limit` filters), counts by status, schedules and registered kinds.
+ */
+export async function GET(req: NextRequest) {
+  const { error } = await requireRole(...ELEVATED_ROLES);
+  if (error) return error;
+
+  const statusParam = req.nextUrl.searchParams.get('status') || '';
+  const status = JOB_STATUSES.includes(statusParam as JobStatus) ? statusParam as JobStatus : undefined;
+  const kind = req.nextUrl.searchParams.get('kind')?.trim() || undefined;
+  const limitRaw = Number(req.nextUrl.searchParams.get('limit') || '100');
+
+  try {
+    const [jobs, counts, schedules] = await Promise.all([
+      listJobs({ status, kind, limit: Number.isFinite(limitRaw) ? limitRaw : 100 }),
+      getJobCounts(),
+      listJobSchedules(),
+    ]);
+    return NextResponse.json({ jobs, counts, schedules, kinds: getRegisteredJobs() });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to load jobs';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/jobs
+ *
+ * Enqueue a job manually: `{ kind, payload?, runAt? }`.
+ */
+export async function POST(req: NextRequest) {
+  const { error } = await requireRole(...ELEVATED_ROLES);
+  if (error) return error;
+
+  const body = await req.json().catch(() => ({})) as Record<string, unknown>;
+  const kind = typeof body.kind === 'string' ? body.kind.trim() : '';
+  if (!isRegisteredJobKind(kind)) {
+    return NextResponse.json({ error: 'Unknown job kind' }, { status: 400 });
+  }
+  const payload = body.payload && typeof body.payload === 'object' && !Array.isArray(body.payload)
+    ? body.payload
+    : {};
+  const runAt = typeof body.runAt === 'string' ? new Date(body.runAt) : undefined;
+  if (runAt && Number.isNaN(runAt.getTime())) {
+    return NextResponse.json({ error: 'Invalid runAt' }, { status: 400 });
+  }
+
+  try {
+    const job = await enqueueJob(kind, payload as never, { runAt });
+    return NextResponse.json({ job }, { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to enqueue job';
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { ELEVATED_ROLES } from '@/lib/roles';
+import { updateJobSchedule } from '@/lib/jobs/scheduler';
+
+/**
+ * PATCH /api/jobs/schedules/[key]
+ *
+ * Change a schedule's `cron` expression (UTC) or toggle `enabled`.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ key: string }> },
+) {
+  const { error } = await requireRole(...ELEVATED_ROLES);
+  if (error) return error;
+
+  const { key } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  try {
+    const schedule = await updateJobSchedule(key, {
+      cron: typeof body?.cron === 'string' ? body.cron : undefined,
+      enabled: typeof body?.enabled === 'boolean' ? body.enabled : undefined,
+    });
+    return NextResponse.json({ schedule });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to update schedule';
+    const status = message === 'Schedule not found' ? 404 : 400;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
+import type { Session } from 'next-auth';
 import { PATHS } from '@/lib/paths';
 import { requireAuth } from '@/lib/api-auth';
+import { hasUnrestrictedAccountAccess, type UserRole } from '@/lib/roles';
 import * as templateService from '@/lib/services/templates';
 import * as accountEmailService from '@/lib/services/account-emails';
 import { maizzleRender } from '@/lib/maizzle-render';
+import { expandSavedSections } from '@/lib/services/saved-sections';
+import { applyAccountTheme } from '@/lib/services/brand-kit';
 import crypto from 'crypto';
 import { readdir, stat } from 'fs/promises';
 import { existsSync } from 'fs';
@@ -32,6 +36,11 @@ const memoryCache = new Map<string, string>();
 
 // ── Helpers ──
 
+function canAccessAccount(session: Session, key: string): boolean {
+  const accountKeys = session.user.accountKeys ?? [];
+  return hasUnrestrictedAccountAccess(session.user.role as UserRole, accountKeys) || accountKeys.includes(key);
+}
+
 function escapeRegex(value: string): string {
   return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
@@ -127,18 +136,23 @@ function setCachedPreview(cacheKey: string, html: string) {
 // ── POST /api/preview — Editor preview ──
 
 export async function POST(req: NextRequest) {
-  const { error } = await requireAuth();
+  const { session, error } = await requireAuth();
   if (error) return error;
 
   try {
-    const { html, previewValues } = await req.json();
+    const { html, previewValues, accountKey } = await req.json();
 
     if (!html) {
       return NextResponse.json({ error: 'No HTML provided' }, { status: 400 });
     }
 
+    // Theme tokens take the account's brand kit; without one (or without
+    // access to it) they fall back to the default theme.
+    const themeAccountKey = typeof accountKey === 'string' && accountKey && canAccessAccount(session!, accountKey)
+      ? accountKey
+      : null;
     const resolvedHtml = applyPreviewValues(
-      html,
+      await applyAccountTheme(await expandSavedSections(html), themeAccountKey),
       previewValues && typeof previewValues === 'object'
         ? previewValues as Record<string, string>
         : undefined,
@@ -182,6 +196,7 @@ export async function GET(req: NextRequest) {
     const wantsHtml = req.nextUrl.searchParams.get('format') === 'html';
 
     let html: string | null = null;
+    let themeAccountKey: string | null = null;
     let previewValues: Record<string, string> = {};
 
     if (emailId) {
@@ -190,6 +205,7 @@ export async function GET(req: NextRequest) {
         return NextResponse.json({ error: 'Account email not found' }, { status: 404 });
       }
       html = accountEmail.content || accountEmail.template.content;
+      themeAccountKey = accountEmail.accountKey;
 
       if (accountEmail.account) {
         const account = accountEmail.account;
@@ -222,7 +238,10 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'No template content' }, { status: 404 });
     }
 
-    const resolvedHtml = applyPreviewValues(html, previewValues);
+    const resolvedHtml = applyPreviewValues(
+      await applyAccountTheme(await expandSavedSections(html), themeAccountKey),
+      previewValues,
+    );
 
     // Check in-memory cache
     const engineSig = await getEngineSignature();
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import {
+  SavedSectionError,
+  propagateSavedSection,
+  type SavedSectionPropagationTarget,
+} from '@/lib/services/saved-sections';
+import { templateReviewViewerFromSession } from '@/lib/services/template-reviews';
+
+const USAGE_KINDS = new Set(['esp-template', 'library-template', 'account-email']);
+
+/**
+ * POST /api/saved-sections/[id]/propagate
+ *
+ * Move templates that reference the section onto its latest version.
+ * Body: { targets?: [{ kind, id }] } — omit to update every outdated usage.
+ * ESP templates are not republished; their approval resets like any edit.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+  let targets: SavedSectionPropagationTarget[] | undefined;
+  if (body.targets !== undefined) {
+    if (!Array.isArray(body.targets)) {
+      return NextResponse.json({ error: 'targets must be an array' }, { status: 400 });
+    }
+    targets = body.targets.filter(
+      (target: unknown): target is SavedSectionPropagationTarget =>
+        !!target
+        && typeof (target as SavedSectionPropagationTarget).id === 'string'
+        && USAGE_KINDS.has((target as SavedSectionPropagationTarget).kind),
+    );
+  }
+
+  try {
+    const result = await propagateSavedSection(id, { targets }, templateReviewViewerFromSession(session!));
+    return NextResponse.json(result);
+  } catch (err) {
+    if (err instanceof SavedSectionError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[saved-sections] Failed to apply section update:', err);
+    return NextResponse.json({ error: 'Failed to apply section update' }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import {
+  SavedSectionError,
+  deleteSavedSection,
+  getSavedSection,
+  updateSavedSection,
+} from '@/lib/services/saved-sections';
+import { templateReviewViewerFromSession } from '@/lib/services/template-reviews';
+
+function sectionErrorResponse(err: unknown, fallback: string) {
+  if (err instanceof SavedSectionError) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+  console.error(`[saved-sections] ${fallback}:`, err);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+/**
+ * GET /api/saved-sections/[id]?version=
+ *
+ * The section with its components, at the latest version unless one is given.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { id } = await params;
+  const version = Number(req.nextUrl.searchParams.get('version'));
+  try {
+    const section = await getSavedSection(
+      id,
+      templateReviewViewerFromSession(session!),
+      Number.isInteger(version) && version > 0 ? version : undefined,
+    );
+    return NextResponse.json({ section });
+  } catch (err) {
+    return sectionErrorResponse(err, 'Failed to load saved section');
+  }
+}
+
+/**
+ * PUT /api/saved-sections/[id]
+ *
+ * Body: { name?, description?, components?, note? }. New components become a
+ * new version; templates move to it only through /propagate.
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+  try {
+    const section = await updateSavedSection(id, body, templateReviewViewerFromSession(session!));
+    return NextResponse.json({ section });
+  } catch (err) {
+    return sectionErrorResponse(err, 'Failed to update saved section');
+  }
+}
+
+/**
+ * DELETE /api/saved-sections/[id]
+ *
+ * Refused with 409 while any template still references the section.
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { id } = await params;
+  try {
+    await deleteSavedSection(id, templateReviewViewerFromSession(session!));
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    return sectionErrorResponse(err, 'Failed to delete saved section');
+  }
+}
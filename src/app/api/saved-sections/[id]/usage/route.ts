@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import { SavedSectionError, getSavedSectionUsage } from '@/lib/services/saved-sections';
+import { templateReviewViewerFromSession } from '@/lib/services/template-reviews';
+
+/**
+ * GET /api/saved-sections/[id]/usage
+ *
+ * Impact preview before applying an update:
+ *   { section, usages: [{ kind, id, name, accountKey, pinnedVersion, outdated, publishedToEsp? }] }
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { id } = await params;
+  try {
+    const usage = await getSavedSectionUsage(id, templateReviewViewerFromSession(session!));
+    return NextResponse.json(usage);
+  } catch (err) {
+    if (err instanceof SavedSectionError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[saved-sections] Failed to load section usage:', err);
+    return NextResponse.json({ error: 'Failed to load section usage' }, { status: 500 });
+  }
+}
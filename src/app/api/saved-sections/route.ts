@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import {
+  SavedSectionError,
+  createSavedSection,
+  listSavedSections,
+} from '@/lib/services/saved-sections';
+import { templateReviewViewerFromSession } from '@/lib/services/template-reviews';
+
+function sectionErrorResponse(err: unknown, fallback: string) {
+  if (err instanceof SavedSectionError) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+  console.error(`[saved-sections] ${fallback}:`, err);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+/**
+ * GET /api/saved-sections?accountKey=
+ *
+ * Shared sections plus the account's own (every accessible account's when
+ * no accountKey is given): { sections: SavedSectionSummary[] }
+ */
+export async function GET(req: NextRequest) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const accountKey = req.nextUrl.searchParams.get('accountKey')?.trim() || null;
+  try {
+    const sections = await listSavedSections(templateReviewViewerFromSession(session!), accountKey);
+    return NextResponse.json({ sections });
+  } catch (err) {
+    return sectionErrorResponse(err, 'Failed to load saved sections');
+  }
+}
+
+/**
+ * POST /api/saved-sections
+ *
+ * Body: { name, description?, accountKey? (omit for a shared section), components: ParsedComponent[] }
+ */
+export async function POST(req: NextRequest) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const body = await req.json().catch(() => ({}));
+  try {
+    const section = await createSavedSection(body, templateReviewViewerFromSession(session!));
+    return NextResponse.json({ section }, { status: 201 });
+  } catch (err) {
+    return sectionErrorResponse(err, 'Failed to save section');
+  }
+}
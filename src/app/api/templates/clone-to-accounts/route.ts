@@ -3,6 +3,9 @@ import { requireRole } from '@/lib/api-auth';
 import { MANAGEMENT_ROLES } from '@/lib/auth';
 import * as templateService from '@/lib/services/templates';
 import { maizzleRender } from '@/lib/maizzle-render';
+import { expandSavedSections } from '@/lib/services/saved-sections';
+import { resolveAccountThemeTokens } from '@/lib/services/brand-kit';
+import { applyThemeTokens, findThemeTokens } from '@/lib/theme-tokens';
 import { resolveAdapterAndCredentials, isResolveError } from '@/lib/esp/route-helpers';
 import { prisma } from '@/lib/prisma';
 
@@ -10,7 +13,9 @@ import { prisma } from '@/lib/prisma';
  * POST /api/templates/clone-to-accounts
  *
  * Compiles a Maizzle library template and creates ESP templates
- * for each of the specified account keys.
+ * for each of the specified account keys. Theme tokens are resolved
+ * from each account's brand kit, so every copy is compiled for its
+ * account; `brandWarnings` lists the tokens an account fell back on.
  *
  * Body: { sourceDesign: string, accountKeys: string[] }
  */
@@ -34,15 +39,20 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Template not found' }, { status: 404 });
     }
 
-    // Compile Maizzle source → final HTML
-    const compiledHtml = await maizzleRender.renderTemplate(template.content, {
+    // Compile Maizzle source → final HTML. Without theme tokens every
+    // account gets the same output, so it's compiled once.
+    const source = await expandSavedSections(template.content);
+    const usedTokens = findThemeTokens(source);
+    const compile = (html: string) => maizzleRender.renderTemplate(html, {
       prettify: false,
       purge: { safelist: ['*loomi-*'] },
     });
+    const sharedHtml = usedTokens.length === 0 ? await compile(source) : null;
 
     // Create an ESP template for each account
     const created: string[] = [];
     const errors: { accountKey: string; error: string }[] = [];
+    const brandWarnings: { accountKey: string; missingTokens: string[] }[] = [];
 
     await Promise.all(
       accountKeys.map(async (accountKey: string) => {
@@ -54,12 +64,20 @@ export async function POST(req: NextRequest) {
             providerName = resolved.adapter.provider;
           }
 
+          let html = sharedHtml;
+          if (html === null) {
+            const { values, missing } = await resolveAccountThemeTokens(accountKey);
+            html = await compile(applyThemeTokens(source, values));
+            const missingTokens = usedTokens.filter((key) => missing.includes(key));
+            if (missingTokens.length > 0) brandWarnings.push({ accountKey, missingTokens });
+          }
+
           await prisma.espTemplate.create({
             data: {
               accountKey,
               provider: providerName,
               name: template.title,
-              html: compiledHtml,
+              html,
               source: `library:${sourceDesign}`,
               status: 'draft',
             },
@@ -76,6 +94,7 @@ export async function POST(req: NextRequest) {
       success: true,
       created: created.length,
       errors,
+      brandWarnings,
     });
   } catch (err) {
     const message = err instanceof Error ? err.message : 'Failed to clone to accounts';
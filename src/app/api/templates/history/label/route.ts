@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/api-auth';
+import { MANAGEMENT_ROLES } from '@/lib/auth';
+import * as templateService from '@/lib/services/templates';
+import * as versionService from '@/lib/services/template-versions';
+import { auditActorFromSession } from '@/lib/services/audit-log';
+
+/**
+ * POST /api/templates/history/label
+ *
+ * Body: { design, versionId, label, note? }. Names a version as a release so
+ * it is never compacted; an empty label clears it.
+ */
+export async function POST(req: NextRequest) {
+  const { session, error } = await requireRole(...MANAGEMENT_ROLES);
+  if (error) return error;
+
+  try {
+    const { design, versionId, label, note } = await req.json();
+
+    if (!design) {
+      return NextResponse.json({ error: 'Missing design' }, { status: 400 });
+    }
+    if (!versionId) {
+      return NextResponse.json({ error: 'Missing versionId' }, { status: 400 });
+    }
+
+    const template = await templateService.getTemplate(design);
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+    }
+
+    const version = await versionService.labelVersion(
+      template.id,
+      versionId,
+      { label, note },
+      auditActorFromSession(session),
+    );
+
+    return NextResponse.json({
+      version: {
+        id: version.id,
+        releaseLabel: version.releaseLabel,
+        releaseNote: version.releaseNote,
+        labeledAt: version.labeledAt?.toISOString() ?? null,
+      },
+    });
+  } catch (err: any) {
+    if (err instanceof versionService.TemplateVersionInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    const message = err?.message || 'Failed to label template version';
+    let status = 500;
+    if (message.includes('not found')) status = 404;
+    if (message.includes('does not belong')) status = 400;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
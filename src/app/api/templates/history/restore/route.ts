@@ -3,6 +3,7 @@ import { requireRole } from '@/lib/api-auth';
 import { MANAGEMENT_ROLES } from '@/lib/auth';
 import * as templateService from '@/lib/services/templates';
 import * as versionService from '@/lib/services/template-versions';
+import { auditActorFromSession } from '@/lib/services/audit-log';
 
 export async function POST(req: NextRequest) {
   const { session, error } = await requireRole(...MANAGEMENT_ROLES);
@@ -23,7 +24,7 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Template not found' }, { status: 404 });
     }
 
-    const restored = await versionService.restoreVersion(template.id, versionId, session!.user.id);
+    const restored = await versionService.restoreVersion(template.id, versionId, auditActorFromSession(session));
 
     return NextResponse.json({ success: true, raw: restored.content });
   } catch (err: any) {
@@ -4,6 +4,12 @@ import { MANAGEMENT_ROLES } from '@/lib/auth';
 import * as templateService from '@/lib/services/templates';
 import * as versionService from '@/lib/services/template-versions';
 
+/**
+ * GET /api/templates/history?design=slug[&versionId=id][&releases=1]
+ *
+ * Full version history for a template (newest first), or one version's raw
+ * content when `versionId` is given. `releases=1` lists named releases only.
+ */
 export async function GET(req: NextRequest) {
   const { error } = await requireRole(...MANAGEMENT_ROLES);
   if (error) return error;
@@ -25,15 +31,26 @@ export async function GET(req: NextRequest) {
       if (!version) {
         return NextResponse.json({ error: 'Version not found' }, { status: 404 });
       }
+      if (version.templateId !== template.id) {
+        return NextResponse.json({ error: 'Version does not belong to template' }, { status: 400 });
+      }
       return NextResponse.json({ id: version.id, raw: version.content, createdAt: version.createdAt });
     }
 
-    const versions = await versionService.getVersions(template.id);
+    const versions = await versionService.getVersions(template.id, {
+      releasesOnly: req.nextUrl.searchParams.get('releases') === '1',
+    });
     return NextResponse.json({
       versions: versions.map((v) => ({
         id: v.id,
         createdAt: v.createdAt.toISOString(),
         createdBy: v.createdByUser?.name || null,
+        size: v.size,
+        source: v.source,
+        restoredFromVersionId: v.restoredFromVersionId,
+        releaseLabel: v.releaseLabel,
+        releaseNote: v.releaseNote,
+        labeledAt: v.labeledAt?.toISOString() ?? null,
       })),
     });
   } catch (err: any) {
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import { revokeApiToken } from '@/lib/users/api-tokens';
+import { auditActorFromSession } from '@/lib/services/audit-log';
+
+type RouteContext = { params: Promise<{ tokenId: string }> };
+
+/**
+ * DELETE /api/users/me/tokens/:tokenId
+ *
+ * Revoke one of the signed-in user's personal access tokens.
+ */
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const { tokenId } = await params;
+  const revoked = await revokeApiToken(session!.user.id, tokenId, auditActorFromSession(session));
+  if (!revoked) {
+    return NextResponse.json({ error: 'Token not found' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/api-auth';
+import { ApiTokenInputError, createApiToken, listApiTokens } from '@/lib/users/api-tokens';
+import { auditActorFromSession } from '@/lib/services/audit-log';
+
+/**
+ * GET /api/users/me/tokens
+ *
+ * The signed-in user's personal access tokens (never the plaintext).
+ */
+export async function GET() {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  const tokens = await listApiTokens(session!.user.id);
+  return NextResponse.json({ tokens });
+}
+
+/**
+ * POST /api/users/me/tokens
+ *
+ * Create a personal access token. Body: { name, scopes, accountKeys?, expiresInDays? }.
+ * The plaintext token is only ever returned in this response.
+ */
+export async function POST(req: NextRequest) {
+  const { session, error } = await requireAuth();
+  if (error) return error;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const { token, summary } = await createApiToken({
+      userId: session!.user.id,
+      name: body.name,
+      scopes: body.scopes,
+      accountKeys: body.accountKeys,
+      expiresInDays: body.expiresInDays,
+      actor: auditActorFromSession(session),
+    });
+    return NextResponse.json({ token, apiToken: summary }, { status: 201 });
+  } catch (err) {
+    if (err instanceof ApiTokenInputError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error('[api-tokens] Failed to create token:', err);
+    return NextResponse.json({ error: 'Failed to create token' }, { status: 500 });
+  }
+}
@@ -6,6 +6,9 @@ import bcryptjs from 'bcryptjs';
 import crypto from 'crypto';
 import { issueAndSendUserInvite } from '@/lib/users/invitations';
 import { sendUserDeletedEmail } from '@/lib/users/deleted-email';
+import { auditActorFromSession, diffAuditFields, recordAuditEvent } from '@/lib/services/audit-log';
+
+const AUDITED_USER_FIELDS = ['name', 'title', 'email', 'role', 'department', 'accountKeys', 'password'] as const;
 
 function parseAccountKeys(raw: string): string[] {
   try {
@@ -165,6 +168,20 @@ export async function POST(req: NextRequest) {
     },
   });
 
+  await recordAuditEvent({
+    action: 'user.create',
+    targetType: 'user',
+    targetId: user.id,
+    targetLabel: user.name,
+    actor: auditActorFromSession(session),
+    metadata: {
+      email: user.email,
+      role: user.role,
+      accountKeys: normalizedAccountKeys,
+      invited: shouldSendInvite,
+    },
+  });
+
   let invite: {
     sent: boolean;
     expiresAt?: string;
@@ -228,6 +245,11 @@ export async function PUT(req: NextRequest) {
   }
   if (password) data.password = await bcryptjs.hash(password, 12);
 
+  const before = await prisma.user.findUnique({
+    where: { id },
+    select: { name: true, title: true, email: true, role: true, department: true, accountKeys: true, password: true },
+  });
+
   const user = await prisma.user.update({
     where: { id },
     data,
@@ -244,6 +266,22 @@ export async function PUT(req: NextRequest) {
     },
   });
 
+  const changes = diffAuditFields(
+    before ? { ...before, accountKeys: parseAccountKeys(before.accountKeys) } : null,
+    { ...user, accountKeys: parseAccountKeys(user.accountKeys), password: data.password ?? before?.password },
+    AUDITED_USER_FIELDS,
+  );
+  if (Object.keys(changes).length > 0) {
+    await recordAuditEvent({
+      action: 'user.update',
+      targetType: 'user',
+      targetId: user.id,
+      targetLabel: user.name,
+      actor: auditActorFromSession(session),
+      changes,
+    });
+  }
+
   return NextResponse.json(withAccountKeys(user));
 }
 
@@ -264,11 +302,20 @@ export async function DELETE(req: NextRequest) {
   // Fetch user info before deletion for the notification email
   const userToDelete = await prisma.user.findUnique({
     where: { id },
-    select: { name: true, email: true },
+    select: { name: true, email: true, role: true },
   });
 
   await prisma.user.delete({ where: { id } });
 
+  await recordAuditEvent({
+    action: 'user.delete',
+    targetType: 'user',
+    targetId: id,
+    targetLabel: userToDelete?.name || null,
+    actor: auditActorFromSession(session),
+    metadata: userToDelete ? { email: userToDelete.email, role: userToDelete.role } : {},
+  });
+
   // Fire-and-forget: send deletion notification email
   if (userToDelete) {
     sendUserDeletedEmail({
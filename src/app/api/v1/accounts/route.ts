@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { requireApiToken } from '@/lib/api-auth';
+import { getPrincipalAccountKeys, serializeAccount } from '@/lib/api-v1';
+import * as accountService from '@/lib/services/accounts';
+
+/**
+ * GET /api/v1/accounts
+ *
+ * Accounts the token can reach. Scope: `accounts:read`.
+ */
+export async function GET(req: Request) {
+  const { principal, error } = await requireApiToken(req, 'accounts:read');
+  if (error) return error;
+
+  const accountKeys = await getPrincipalAccountKeys(principal!);
+  if (accountKeys.length === 0) return NextResponse.json({ accounts: [] });
+
+  const accounts = await accountService.getAccounts(accountKeys);
+  return NextResponse.json({ accounts: accounts.map(serializeAccount) });
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireApiToken } from '@/lib/api-auth';
+import { getPrincipalAccountKeys, parsePagination } from '@/lib/api-v1';
+import * as audienceService from '@/lib/services/audiences';
+import { evaluateAudienceFromIndex } from '@/lib/services/contact-index';
+import { parseFilterDefinition } from '@/lib/smart-list-types';
+
+type RouteContext = { params: Promise<{ audienceId: string }> };
+
+/**
+ * GET /api/v1/audiences/:audienceId/contacts
+ *
+ * One page of the audience's members from the contact index, across every
+ * reachable account (or `?accountKey=`). Paged with `?page=&pageSize=`.
+ * Scope: `contacts:read`.
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { principal, error } = await requireApiToken(req, 'contacts:read');
+  if (error) return error;
+
+  const { audienceId } = await params;
+  const audience = await audienceService.getAudience(audienceId);
+  if (!audience) {
+    return NextResponse.json({ error: 'Audience not found' }, { status: 404 });
+  }
+  const definition = parseFilterDefinition(audience.filters);
+  if (!definition) {
+    return NextResponse.json({ error: 'Audience has an invalid filter definition' }, { status: 422 });
+  }
+
+  const allowedKeys = await getPrincipalAccountKeys(principal!);
+  if (audience.accountKey && !allowedKeys.includes(audience.accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const accountKey = req.nextUrl.searchParams.get('accountKey')?.trim() || '';
+  if (accountKey && !allowedKeys.includes(accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  let selectedKeys = accountKey ? [accountKey] : allowedKeys;
+  if (audience.accountKey) {
+    selectedKeys = selectedKeys.filter((key) => key === audience.accountKey);
+  }
+
+  const { page, pageSize } = parsePagination(req.nextUrl.searchParams);
+  try {
+    const evaluation = await evaluateAudienceFromIndex({ definition, accountKeys: selectedKeys, page, pageSize });
+    return NextResponse.json({
+      total: evaluation.total,
+      page: evaluation.page,
+      pageSize: evaluation.pageSize,
+      perAccount: evaluation.perAccount,
+      contacts: evaluation.contacts.map(({ _accountKey, ...contact }) => ({ ...contact, accountKey: _accountKey })),
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to evaluate audience';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
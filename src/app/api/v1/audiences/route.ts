@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireApiToken } from '@/lib/api-auth';
+import { getPrincipalAccountKeys, serializeAudience } from '@/lib/api-v1';
+import * as audienceService from '@/lib/services/audiences';
+
+/**
+ * GET /api/v1/audiences
+ *
+ * Saved audiences: shared ones plus those owned by reachable accounts.
+ * Optional `?accountKey=` narrows to one account. Scope: `audiences:read`.
+ */
+export async function GET(req: NextRequest) {
+  const { principal, error } = await requireApiToken(req, 'audiences:read');
+  if (error) return error;
+
+  const accountKeys = await getPrincipalAccountKeys(principal!);
+  const accountKey = req.nextUrl.searchParams.get('accountKey')?.trim() || '';
+  if (accountKey && !accountKeys.includes(accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const audiences = await audienceService.getAudiences(accountKey ? [accountKey] : accountKeys);
+  return NextResponse.json({ audiences: audiences.map(serializeAudience) });
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { requireApiToken } from '@/lib/api-auth';
+import { getEmailCampaign } from '@/lib/services/email-campaigns';
+import { principalCanAccessAccount } from '@/lib/users/api-tokens';
+
+type RouteContext = { params: Promise<{ campaignId: string }> };
+
+/**
+ * GET /api/v1/campaigns/:campaignId
+ *
+ * Status and delivery counts for one email campaign. Scope: `campaigns:read`.
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const { principal, error } = await requireApiToken(req, 'campaigns:read');
+  if (error) return error;
+
+  const { campaignId } = await params;
+  const campaign = await getEmailCampaign(campaignId);
+  if (!campaign) {
+    return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+  }
+  if (!campaign.accountKeys.some((key) => principalCanAccessAccount(principal!, key))) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return NextResponse.json({ campaign });
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireApiToken } from '@/lib/api-auth';
+import { getPrincipalAccountKeys } from '@/lib/api-v1';
+import {
+  createEmailCampaign,
+  listEmailCampaigns,
+  parseEmailRecipients,
+} from '@/lib/services/email-campaigns';
+import { normalizeVariableFallbacks } from '@/lib/services/email-personalization';
+import { normalizeEmailUtmParams } from '@/lib/email-tracking-options';
+import { principalCanAccessAccount } from '@/lib/users/api-tokens';
+import { enqueueJob } from '@/lib/jobs/queue';
+import '@/lib/jobs/init';
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return date;
+}
+
+/**
+ * GET /api/v1/campaigns
+ *
+ * Recent email campaigns that touch a reachable account. Scope: `campaigns:read`.
+ */
+export async function GET(req: NextRequest) {
+  const { principal, error } = await requireApiToken(req, 'campaigns:read');
+  if (error) return error;
+
+  const accountKeys = await getPrincipalAccountKeys(principal!);
+  if (accountKeys.length === 0) return NextResponse.json({ campaigns: [] });
+
+  const limitRaw = Number(req.nextUrl.searchParams.get('limit') || '25');
+  const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(100, limitRaw)) : 25;
+  const campaigns = await listEmailCampaigns({ limit, accountKeys });
+  return NextResponse.json({ campaigns });
+}
+
+/**
+ * POST /api/v1/campaigns
+ *
+ * Creates an email campaign and queues it for delivery (or leaves it for the
+ * scheduler when `scheduledFor` is in the future). Every recipient must
+ * belong to a reachable account. Scope: `campaigns:write`.
+ */
+export async function POST(req: NextRequest) {
+  const { principal, error } = await requireApiToken(req, 'campaigns:write');
+  if (error) return error;
+
+  const body = await req.json().catch(() => ({}));
+  const subject = typeof body?.subject === 'string' ? body.subject : '';
+  const htmlContent = typeof body?.htmlContent === 'string' ? body.htmlContent : '';
+  const scheduledFor = parseDate(body?.scheduledFor);
+  const recipients = parseEmailRecipients(body?.recipients);
+
+  if (!subject.trim()) {
+    return NextResponse.json({ error: 'subject is required' }, { status: 400 });
+  }
+  if (!htmlContent.trim()) {
+    return NextResponse.json({ error: 'htmlContent is required' }, { status: 400 });
+  }
+  if (recipients.length === 0) {
+    return NextResponse.json({ error: 'At least one recipient is required' }, { status: 400 });
+  }
+  if (recipients.length > 1000) {
+    return NextResponse.json({ error: 'Recipient limit is 1000 per email send' }, { status: 400 });
+  }
+
+  const forbiddenRecipient = recipients.find((recipient) => !principalCanAccessAccount(principal!, recipient.accountKey));
+  if (forbiddenRecipient) {
+    return NextResponse.json({ error: 'Forbidden recipient account selection' }, { status: 403 });
+  }
+
+  try {
+    const created = await createEmailCampaign({
+      name: typeof body?.name === 'string' ? body.name : '',
+      subject,
+      previewText: typeof body?.previewText === 'string' ? body.previewText : '',
+      htmlContent,
+      textContent: typeof body?.textContent === 'string' ? body.textContent : '',
+      sourceType: 'html',
+      recipients,
+      scheduledFor: scheduledFor?.toISOString() || null,
+      createdByUserId: principal!.userId,
+      createdByRole: principal!.role,
+      sourceAudienceId: typeof body?.audienceId === 'string' ? body.audienceId : null,
+      metadata: JSON.stringify({ apiTokenId: principal!.tokenId }),
+      variableFallbacks: normalizeVariableFallbacks(body?.variableFallbacks),
+      utm: normalizeEmailUtmParams(body?.utm),
+      actor: { userId: principal!.userId, role: principal!.role },
+    });
+
+    const queued = !(scheduledFor && scheduledFor.getTime() > Date.now());
+    if (queued) {
+      await enqueueJob('email-campaign.process', { campaignId: created.id });
+    }
+    return NextResponse.json({ campaign: created, queued }, { status: 201 });
+  } catch (err) {
+    const messageText = err instanceof Error ? err.message : 'Failed to create email campaign';
+    const normalized = messageText.toLowerCase();
+    const status = normalized.includes('required') || normalized.includes('invalid') || normalized.includes('not enough recipients')
+      ? 400
+      : 500;
+    return NextResponse.json({ error: messageText }, { status });
+  }
+}
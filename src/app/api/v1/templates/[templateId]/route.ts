@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { requireApiToken } from '@/lib/api-auth';
+import { serializeTemplateDetail } from '@/lib/api-v1';
+import { prisma } from '@/lib/prisma';
+import { principalCanAccessAccount } from '@/lib/users/api-tokens';
+
+type RouteContext = { params: Promise<{ templateId: string }> };
+
+/**
+ * GET /api/v1/templates/:templateId
+ *
+ * One ESP template including its rendered HTML. Scope: `templates:read`.
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const { principal, error } = await requireApiToken(req, 'templates:read');
+  if (error) return error;
+
+  const { templateId } = await params;
+  const template = await prisma.espTemplate.findUnique({ where: { id: templateId } });
+  if (!template) {
+    return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+  }
+  if (!principalCanAccessAccount(principal!, template.accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return NextResponse.json({ template: serializeTemplateDetail(template) });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireApiToken } from '@/lib/api-auth';
+import { getPrincipalAccountKeys, serializeTemplate } from '@/lib/api-v1';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * GET /api/v1/templates
+ *
+ * ESP templates for reachable accounts, newest first, without HTML bodies.
+ * Optional `?accountKey=` narrows to one account. Scope: `templates:read`.
+ */
+export async function GET(req: NextRequest) {
+  const { principal, error } = await requireApiToken(req, 'templates:read');
+  if (error) return error;
+
+  const accountKeys = await getPrincipalAccountKeys(principal!);
+  const accountKey = req.nextUrl.searchParams.get('accountKey')?.trim() || '';
+  if (accountKey && !accountKeys.includes(accountKey)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const templates = await prisma.espTemplate.findMany({
+    where: { accountKey: { in: accountKey ? [accountKey] : accountKeys } },
+    orderBy: { updatedAt: 'desc' },
+    select: {
+      id: true,
+      accountKey: true,
+      provider: true,
+      name: true,
+      subject: true,
+      previewText: true,
+      status: true,
+      editorType: true,
+      thumbnailUrl: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+  return NextResponse.json({ templates: templates.map(serializeTemplate) });
+}
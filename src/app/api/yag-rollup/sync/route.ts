@@ -1,8 +1,15 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { requireRole } from '@/lib/api-auth';
 import { ELEVATED_ROLES } from '@/lib/auth';
-import { runYagRollupSync } from '@/lib/services/yag-rollup';
+import { findActiveJob, runJobInline } from '@/lib/jobs/queue';
+import {
+  normalizeYagRollupJobKey,
+  normalizeYagRollupJobKeyForRoute,
+  runYagRollupSync,
+  yagRollupJobDedupeKey,
+} from '@/lib/services/yag-rollup';
 import type { YagRollupProgressEvent } from '@/lib/services/yag-rollup';
+import '@/lib/jobs/init';
 
 function parseOptionalInt(value: unknown): number | undefined {
   if (value === undefined || value === null || value === '') return undefined;
@@ -16,6 +23,21 @@ export async function POST(req: NextRequest) {
   if (error) return error;
 
   const body = await req.json().catch(() => ({})) as Record<string, unknown>;
+  const jobKey = normalizeYagRollupJobKeyForRoute(
+    normalizeYagRollupJobKey(typeof body.jobKey === 'string' ? body.jobKey : undefined),
+  );
+  const dryRun = body.dryRun === true;
+  const fullSync = body.fullSync === true;
+
+  // The run holds the same queue slot as scheduled syncs and wipes of this
+  // rollup job; refuse up front rather than mid-stream when it is taken.
+  const activeJob = await findActiveJob(yagRollupJobDedupeKey(jobKey));
+  if (activeJob) {
+    return NextResponse.json(
+      { error: `A YAG rollup ${activeJob.kind === 'yag-rollup.wipe' ? 'wipe' : 'sync'} is already ${activeJob.status} for this job` },
+      { status: 409 },
+    );
+  }
 
   const encoder = new TextEncoder();
   const stream = new ReadableStream({
@@ -31,10 +53,10 @@ export async function POST(req: NextRequest) {
       send({ type: 'start', timestamp: new Date().toISOString() });
 
       try {
-        const result = await runYagRollupSync({
-          jobKey: typeof body.jobKey === 'string' ? body.jobKey : undefined,
-          dryRun: body.dryRun === true,
-          fullSync: body.fullSync === true,
+        const result = await runJobInline('yag-rollup.sync', { jobKey, dryRun, fullSync }, () => runYagRollupSync({
+          jobKey,
+          dryRun,
+          fullSync,
           sourceAccountLimit: parseOptionalInt(body.sourceAccountLimit),
           maxUpserts: parseOptionalInt(body.maxUpserts),
           triggerSource: 'settings-ui',
@@ -46,7 +68,7 @@ export async function POST(req: NextRequest) {
           onProgress: (event: YagRollupProgressEvent) => {
             send({ type: 'progress', ...event });
           },
-        });
+        }));
 
         send({ type: 'done', result });
       } catch (err) {
@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireRole } from '@/lib/api-auth';
 import { ELEVATED_ROLES } from '@/lib/auth';
-import { runYagRollupWipe, type YagRollupWipeMode } from '@/lib/services/yag-rollup';
+import { JobConflictError, runJobInline } from '@/lib/jobs/queue';
+import {
+  normalizeYagRollupJobKey,
+  normalizeYagRollupJobKeyForRoute,
+  runYagRollupWipe,
+  type YagRollupWipeMode,
+} from '@/lib/services/yag-rollup';
+import '@/lib/jobs/init';
 
 function parseOptionalInt(value: unknown): number | undefined {
   if (value === undefined || value === null || value === '') return undefined;
@@ -30,22 +37,27 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const result = await runYagRollupWipe({
-      jobKey: typeof body.jobKey === 'string' ? body.jobKey : undefined,
-      dryRun,
-      mode,
-      maxDeletes: parseOptionalInt(body.maxDeletes),
+    const jobKey = normalizeYagRollupJobKeyForRoute(
+      normalizeYagRollupJobKey(typeof body.jobKey === 'string' ? body.jobKey : undefined),
+    );
+    const maxDeletes = parseOptionalInt(body.maxDeletes);
+    const payload = { jobKey, dryRun, mode, maxDeletes };
+    const result = await runJobInline('yag-rollup.wipe', payload, () => runYagRollupWipe({
+      ...payload,
       triggerSource: 'settings-ui',
       triggeredByUserId: session!.user.id,
       triggeredByUserName: session!.user.name || null,
       triggeredByUserEmail: session!.user.email || null,
       triggeredByUserRole: session!.user.role || null,
       triggeredByUserAvatarUrl: session!.user.avatarUrl || null,
-    });
+    }));
 
     const statusCode = result.status === 'failed' ? 500 : 200;
     return NextResponse.json(result, { status: statusCode });
   } catch (err) {
+    if (err instanceof JobConflictError) {
+      return NextResponse.json({ error: 'A YAG rollup sync or wipe is already running for this job' }, { status: err.status });
+    }
     const message = err instanceof Error ? err.message : 'Failed to run YAG rollup wipe';
     return NextResponse.json({ error: message }, { status: 500 });
   }
@@ -1,7 +1,7 @@
 'use client';
 
 import Link from 'next/link';
-import { useParams, useSearchParams } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { useEffect, useMemo, useState, type ComponentType, type SVGProps } from 'react';
 import { useAccount } from '@/contexts/account-context';
 import { useSubaccountHref } from '@/hooks/use-subaccount-href';
@@ -19,6 +19,7 @@ import {
   ChatBubbleLeftRightIcon,
 } from '@heroicons/react/24/outline';
 import PrimaryButton from '@/components/primary-button';
+import { ContactEditPanel, type EditableContact } from '@/components/contacts/contact-edit-panel';
 
 interface ContactDetail {
   id: string;
@@ -421,8 +422,9 @@ function normalizeContactCapabilities(value: unknown): ContactCapabilities {
 }
 
 export default function ContactDetailPage() {
-  const { isAccount } = useAccount();
+  const { isAccount, userRole } = useAccount();
   const subHref = useSubaccountHref();
+  const router = useRouter();
   const params = useParams<{ contactId: string | string[] }>();
   const searchParams = useSearchParams();
   const contactId = Array.isArray(params.contactId) ? params.contactId[0] : params.contactId;
@@ -799,6 +801,22 @@ export default function ContactDetailPage() {
                 </div>
               </section>
 
+              <ContactEditPanel
+                contactId={contactId}
+                accountKey={accountKey}
+                contact={contact}
+                canDelete={userRole !== 'client'}
+                onSaved={(changes: Partial<EditableContact>) =>
+                  setContact((prev) => {
+                    if (!prev) return prev;
+                    const next = { ...prev, ...changes };
+                    next.fullName = `${next.firstName} ${next.lastName}`.trim() || prev.fullName;
+                    return next;
+                  })
+                }
+                onDeleted={() => router.push(subHref('/contacts'))}
+              />
+
               <section className="glass-card rounded-xl p-4 border border-[var(--border)]/70">
                 <h3 className="text-xs uppercase tracking-wider text-[var(--muted-foreground)] mb-1">
                   Do Not Disturb
@@ -7,6 +7,8 @@ import { ContactsTable } from '@/components/contacts/contacts-table';
 import type { Contact } from '@/components/contacts/contacts-table';
 import { ContactsToolbar, AudiencesMenuButton, ContactsAccountFilter } from '@/components/contacts/contacts-toolbar';
 import { FilterBuilder } from '@/components/contacts/filter-builder';
+import { ContactImportModal } from '@/components/contacts/contact-import-modal';
+import { ContactExportModal } from '@/components/contacts/contact-export-modal';
 import { evaluateFilter } from '@/lib/smart-list-engine';
 import type { FilterDefinition, PresetFilter } from '@/lib/smart-list-types';
 import { resolveAccountLocationId, resolveAccountProvider } from '@/lib/account-resolvers';
@@ -16,6 +18,8 @@ import { isYagRollupAccount } from '@/lib/accounts/rollup';
 import {
   UserGroupIcon,
   ChatBubbleLeftRightIcon,
+  ArrowUpTrayIcon,
+  ArrowDownTrayIcon,
 } from '@heroicons/react/24/outline';
 
 interface SingleAccountResponse {
@@ -310,9 +314,12 @@ function useContactFilters(rawContacts: Contact[], initialAccountFilter = '') {
 // ── Admin View ──
 
 function AdminContactsView() {
-  const { accounts: accountMap } = useAccount();
+  const { accounts: accountMap, userRole } = useAccount();
   const searchParams = useSearchParams();
   const requestedAccount = searchParams.get('account') || '';
+  const canImport = userRole !== 'client';
+  const [showImport, setShowImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
 
   const [baseContacts, setBaseContacts] = useState<Contact[]>([]);
   const [contactsLoading, setContactsLoading] = useState(false);
@@ -544,6 +551,24 @@ function AdminContactsView() {
                 Campaign Builder Unavailable
               </button>
             )}
+            <button
+              type="button"
+              onClick={() => setShowExport(true)}
+              className="flex items-center gap-1.5 px-3 h-10 text-sm rounded-lg border border-[var(--border)] bg-[var(--card)] hover:border-[var(--primary)]/40"
+            >
+              <ArrowDownTrayIcon className="w-4 h-4" />
+              Export
+            </button>
+            {canImport && (
+              <button
+                type="button"
+                onClick={() => setShowImport(true)}
+                className="flex items-center gap-1.5 px-3 h-10 text-sm rounded-lg border border-[var(--border)] bg-[var(--card)] hover:border-[var(--primary)]/40"
+              >
+                <ArrowUpTrayIcon className="w-4 h-4" />
+                Import
+              </button>
+            )}
             <ContactsAccountFilter
               values={filters.accountFilters}
               onChange={filters.setAccountFilters}
@@ -589,6 +614,24 @@ function AdminContactsView() {
         />
       )}
 
+      {showImport && (
+        <ContactImportModal
+          accounts={availableAccounts}
+          defaultAccountKey={filters.accountFilters[0]}
+          onClose={() => setShowImport(false)}
+          onImported={() => setRefreshTick((value) => value + 1)}
+        />
+      )}
+
+      {showExport && (
+        <ContactExportModal
+          accountKeys={filters.accountFilters.length > 0 ? filters.accountFilters : availableAccounts.map((account) => account.key)}
+          audienceId={filters.activeAudienceId}
+          definition={filters.activeFilter}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
       <ContactsTable
         contacts={filters.filtered}
         loading={loading}
@@ -606,9 +649,12 @@ function AccountContactsView({
 }: {
   accountKey: string;
 }) {
-  const { accounts } = useAccount();
+  const { accounts, userRole } = useAccount();
   const searchParams = useSearchParams();
   const requestedAccount = searchParams.get('account') || '';
+  const canImport = userRole !== 'client';
+  const [showImport, setShowImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [loading, setLoading] = useState(true);
   const [messagingLoading, setMessagingLoading] = useState(false);
@@ -736,6 +782,24 @@ function AccountContactsView({
                 Campaign Builder Unavailable
               </button>
             )}
+            <button
+              type="button"
+              onClick={() => setShowExport(true)}
+              className="flex items-center gap-1.5 px-3 h-10 text-sm rounded-lg border border-[var(--border)] bg-[var(--card)] hover:border-[var(--primary)]/40"
+            >
+              <ArrowDownTrayIcon className="w-4 h-4" />
+              Export
+            </button>
+            {canImport && (
+              <button
+                type="button"
+                onClick={() => setShowImport(true)}
+                className="flex items-center gap-1.5 px-3 h-10 text-sm rounded-lg border border-[var(--border)] bg-[var(--card)] hover:border-[var(--primary)]/40"
+              >
+                <ArrowUpTrayIcon className="w-4 h-4" />
+                Import
+              </button>
+            )}
             <AudiencesMenuButton
               activeAudienceId={filters.activeAudienceId}
               onAudienceChange={filters.handleAudienceChange}
@@ -774,6 +838,24 @@ function AccountContactsView({
         />
       )}
 
+      {showImport && activeAccount && (
+        <ContactImportModal
+          accounts={[{ key: accountKey, dealer: activeAccount.dealer || accountKey }]}
+          defaultAccountKey={accountKey}
+          onClose={() => setShowImport(false)}
+          onImported={fetchData}
+        />
+      )}
+
+      {showExport && (
+        <ContactExportModal
+          accountKeys={[accountKey]}
+          audienceId={filters.activeAudienceId}
+          definition={filters.activeFilter}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
       <ContactsTable
         contacts={filters.filtered}
         loading={loading}
@@ -1,6 +1,7 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
 import { AdminOnly } from '@/components/route-guard';
 import { useAccount } from '@/contexts/account-context';
 import { useWorkflowsAggregate } from '@/hooks/use-dashboard-data';
@@ -27,6 +28,7 @@ interface Workflow {
   id: string;
   name: string;
   status: string;
+  source?: string;
   provider?: string;
   locationId?: string;
   createdAt?: string;
@@ -86,7 +88,26 @@ function inRange(workflow: Workflow, start: Date, end: Date): boolean {
 type PageTab = 'analytics' | 'list';
 
 function AdminFlowsPage() {
-  const { data: aggData, error: aggError, isLoading: aggLoading } = useWorkflowsAggregate();
+  const { data: aggData, error: aggError, isLoading: aggLoading, mutate: mutateWorkflows } = useWorkflowsAggregate();
+
+  const toggleLoomiStatus = useCallback(async (workflow: Workflow, nextStatus: 'active' | 'inactive') => {
+    try {
+      const res = await fetch(`/api/flows/loomi/${encodeURIComponent(workflow.id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: nextStatus }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to update flow status');
+        return;
+      }
+      toast.success(nextStatus === 'active' ? 'Flow activated' : 'Flow paused');
+      await mutateWorkflows();
+    } catch {
+      toast.error('Failed to update flow status');
+    }
+  }, [mutateWorkflows]);
 
   const workflows = (aggData?.workflows ?? []) as Workflow[];
   const flowError = useMemo(() => {
@@ -483,6 +504,7 @@ function AdminFlowsPage() {
               accountMeta={accountMeta}
               accountProviders={accountProviders}
               emptyState={flowEmptyState}
+              onToggleLoomiStatus={toggleLoomiStatus}
             />
           )}
         </div>
@@ -101,6 +101,10 @@ const PROVIDER_META: Record<string, ProviderInfo> = {
     displayName: 'Klaviyo',
     iconSrc: 'https://storage.googleapis.com/msgsndr/CVpny6EUSHRxlXfqAFb7/media/6992d3ac3b3cc9155bdaf06e.png',
   },
+  mailchimp: {
+    id: 'mailchimp',
+    displayName: 'Mailchimp',
+  },
   s3: {
     id: 's3',
     displayName: 'Loomi',
@@ -9,6 +9,7 @@ import { useUnsavedChanges } from '@/contexts/unsaved-changes-context';
 import { UserAvatar } from '@/components/user-avatar';
 import { safeJson } from '@/lib/safe-json';
 import PrimaryButton from '@/components/primary-button';
+import { ApiTokensPanel } from '@/components/api-tokens-panel';
 import {
   EnvelopeIcon,
   ShieldCheckIcon,
@@ -408,6 +409,10 @@ export default function ProfilePage() {
         </div>
       </section>
 
+      <section className="py-6 border-b border-[var(--border)]">
+        <ApiTokensPanel />
+      </section>
+
       <section className="pt-6">
         <p className="text-xs font-medium uppercase tracking-wider text-[var(--muted-foreground)] mb-2">Assigned Accounts</p>
         {user.accountKeys.length === 0 ? (
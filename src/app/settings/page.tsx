@@ -13,7 +13,7 @@ import {
   CheckCircleIcon, AdjustmentsHorizontalIcon, LinkIcon,
   TrashIcon, ExclamationTriangleIcon, ClockIcon, CogIcon,
   EnvelopeIcon, PhoneIcon, PencilSquareIcon,
-  PlayCircleIcon, BellIcon,
+  PlayCircleIcon, BellIcon, QueueListIcon, ShieldCheckIcon,
 } from '@heroicons/react/24/outline';
 import { toast } from '@/lib/toast';
 import { CodeEditor } from '@/components/code-editor';
@@ -42,6 +42,8 @@ import { fetchRequiredScopesByCatalogUrl } from '@/lib/esp/provider-scopes';
 import { UsersTab } from '@/components/settings/users-tab';
 import { AppearanceTab } from '@/components/settings/appearance-tab';
 import { NotificationsTab } from '@/components/settings/notifications-tab';
+import { JobQueueTab } from '@/components/settings/job-queue-tab';
+import { AuditLogTab } from '@/components/settings/audit-log-tab';
 
 const CATEGORY_SUGGESTIONS = ['Automotive', 'Powersports', 'Ecommerce', 'Healthcare', 'Real Estate', 'Hospitality', 'Retail', 'General'];
 
@@ -53,6 +55,8 @@ type Tab =
   | 'custom-values'
   | 'knowledge'
   | 'jobs'
+  | 'queue'
+  | 'audit'
   | 'notifications'
   | 'appearance';
 
@@ -95,6 +99,8 @@ export default function SettingsPage() {
   if (userRole === 'developer' || userRole === 'super_admin') tabs.push({ key: 'custom-values', label: 'Custom Values', icon: AdjustmentsHorizontalIcon });
   if (hasAdminAccess && isAdmin) tabs.push({ key: 'knowledge', label: 'Knowledge Base', icon: SparklesIcon });
   if (hasRollupAccess && isAdmin) tabs.push({ key: 'jobs', label: 'Jobs', icon: JobsScheduleTabIcon });
+  if (hasRollupAccess && isAdmin) tabs.push({ key: 'queue', label: 'Job Queue', icon: QueueListIcon });
+  if (hasRollupAccess && isAdmin) tabs.push({ key: 'audit', label: 'Audit Log', icon: ShieldCheckIcon });
   tabs.push({ key: 'notifications', label: 'Notifications', icon: BellIcon });
   tabs.push({ key: 'appearance', label: 'Appearance', icon: SwatchIcon });
 
@@ -213,6 +219,8 @@ export default function SettingsPage() {
           )}
           {activeTab === 'knowledge' && hasAdminAccess && isAdmin && <KnowledgeBaseTab />}
           {activeTab === 'jobs' && hasRollupAccess && isAdmin && <JobsTab activeJobKey={routeJobKey || DEFAULT_JOB_KEY} />}
+          {activeTab === 'queue' && hasRollupAccess && isAdmin && <JobQueueTab />}
+          {activeTab === 'audit' && hasRollupAccess && isAdmin && <AuditLogTab />}
           {activeTab === 'notifications' && <NotificationsTab />}
           {activeTab === 'appearance' && <AppearanceTab />}
         </div>
@@ -3108,12 +3116,12 @@ interface YagRollupSnapshotResponse {
     lastSyncedAt: string | null;
     lastSyncStatus: string | null;
     lastSyncSummary: Record<string, unknown> | null;
-    currentRunStartedAt: string | null;
   };
   targetOptions: Array<{ key: string; dealer: string }>;
   sourceOptions: Array<{ key: string; dealer: string }>;
   accountOptions: Array<{ key: string; dealer: string }>;
   isDefaultConfig: boolean;
+  activeRun: { kind: string; status: string; startedAt: string } | null;
   jobs: Array<{ key: string; label: string }>;
   history: YagRollupHistoryEntry[];
   runHistory: YagRollupRunHistoryEntry[];
@@ -3186,13 +3194,6 @@ function formatRollupDate(value: string | null): string {
   return parsed.toLocaleString();
 }
 
-const STALE_RUN_THRESHOLD_MS = 2 * 60 * 60 * 1000; // 2 hours
-
-function isRunStale(startedAt: string | null): boolean {
-  if (!startedAt) return false;
-  return Date.now() - new Date(startedAt).getTime() > STALE_RUN_THRESHOLD_MS;
-}
-
 function formatRollupChangedField(field: string): string {
   const labels: Record<string, string> = {
     targetAccountKey: 'Target account',
@@ -3854,14 +3855,9 @@ function YagRollupTab({ jobKey }: { jobKey: string }) {
     loadSnapshot();
   }, [loadSnapshot]);
 
-  // Derived: detect remote run in-flight (set by server, not this browser session)
-  const remoteRunInProgress = Boolean(
-    snapshot?.config.currentRunStartedAt,
-  ) && !isRunStale(snapshot?.config.currentRunStartedAt ?? null);
-
-  const remoteRunIsStale = Boolean(
-    snapshot?.config.currentRunStartedAt,
-  ) && isRunStale(snapshot?.config.currentRunStartedAt ?? null);
+  // Derived: a queued or running sync/wipe job for this rollup job (from the
+  // job queue, not this browser session)
+  const remoteRunInProgress = Boolean(snapshot?.activeRun);
 
   // Poll config while a remote run is in-flight and this session didn't start it
   useEffect(() => {
@@ -3980,25 +3976,6 @@ function YagRollupTab({ jobKey }: { jobKey: string }) {
     setSaving(false);
   }
 
-  async function clearStaleLock() {
-    try {
-      const res = await fetch('/api/yag-rollup/config/clear-lock', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ jobKey }),
-      });
-      if (!res.ok) {
-        const data = await res.json().catch(() => ({}));
-        throw new Error(typeof data.error === 'string' ? data.error : 'Failed to clear stale lock');
-      }
-      toast.success('Stale lock cleared');
-      await loadSnapshot();
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to clear stale lock';
-      toast.error(message);
-    }
-  }
-
   async function runSync(mode: 'dry' | 'incremental' | 'full') {
     setRunningMode(mode);
     setSyncProgress(null);
@@ -4516,7 +4493,7 @@ function YagRollupTab({ jobKey }: { jobKey: string }) {
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
               </svg>
               <p className="text-sm font-medium text-blue-400">
-                Sync in progress since {formatRollupDate(snapshot?.config.currentRunStartedAt ?? null)}
+                {snapshot?.activeRun?.kind === 'yag-rollup.wipe' ? 'Wipe' : 'Sync'} {snapshot?.activeRun?.status === 'queued' ? 'queued' : 'in progress'} since {formatRollupDate(snapshot?.activeRun?.startedAt ?? null)}
               </p>
             </div>
             <p className="text-xs text-[var(--muted-foreground)] mt-1">
@@ -4525,29 +4502,6 @@ function YagRollupTab({ jobKey }: { jobKey: string }) {
           </div>
         )}
 
-        {remoteRunIsStale && (
-          <div className="mt-4 p-3 rounded-lg border border-amber-500/30 bg-amber-500/10">
-            <div className="flex items-center gap-2">
-              <svg className="w-4 h-4 text-amber-500" viewBox="0 0 20 20" fill="currentColor">
-                <path fillRule="evenodd" d="M8.485 2.495c.673-1.167 2.357-1.167 3.03 0l6.28 10.875c.673 1.167-.168 2.625-1.516 2.625H3.72c-1.347 0-2.189-1.458-1.515-2.625L8.485 2.495zM10 6a.75.75 0 01.75.75v3.5a.75.75 0 01-1.5 0v-3.5A.75.75 0 0110 6zm0 9a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
-              </svg>
-              <p className="text-sm font-medium text-amber-400">
-                A sync appears to be stuck (started {formatRollupDate(snapshot?.config.currentRunStartedAt ?? null)})
-              </p>
-            </div>
-            <p className="text-xs text-[var(--muted-foreground)] mt-1">
-              This sync started over 2 hours ago and may have crashed. You can clear this lock to start a new run.
-            </p>
-            <button
-              type="button"
-              onClick={clearStaleLock}
-              className="mt-2 px-3 py-1.5 text-xs rounded-lg border border-amber-500/30 text-amber-400 hover:bg-amber-500/10"
-            >
-              Clear Stale Lock
-            </button>
-          </div>
-        )}
-
         {syncProgress && (
           <div className="mt-4">
             <div className="h-2 rounded-full bg-[var(--muted)] overflow-hidden">
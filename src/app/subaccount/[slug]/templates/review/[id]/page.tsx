@@ -0,0 +1 @@
+export { default } from '@/app/templates/review/[id]/page';
@@ -35,7 +35,6 @@ import {
 import { toast } from "sonner";
 import { useAccount } from "@/contexts/account-context";
 import { useUnsavedChanges } from "@/contexts/unsaved-changes-context";
-import { useLoomiDialog } from "@/contexts/loomi-dialog-context";
 import {
   componentSchemas,
   getAvailableComponents,
@@ -49,6 +48,7 @@ import {
 } from "@/lib/preview-variables";
 import { ComponentIcon, SectionsIcon } from "@/components/icon-map";
 import { CodeEditor } from "@/components/code-editor";
+import { TemplateHistoryModal } from "@/components/template-history-modal";
 import { TEMPLATE_AI_SIDEBAR_TOGGLE_EVENT } from "@/lib/ui-events";
 import { buildCurrentEmailContext } from "@/lib/template-editor-ai-context";
 import PrimaryButton from "@/components/primary-button";
@@ -69,61 +69,12 @@ const PREVIEW_ZOOM_MIN = 50;
 const PREVIEW_ZOOM_MAX = 200;
 const PREVIEW_ZOOM_STEP = 10;
 
-interface TemplateHistoryVersion {
-  id: string;
-  createdAt: string;
-  size: number;
-}
-
-interface SimpleDiffLine {
-  line: number;
-  current: string;
-  snapshot: string;
-  kind: "changed" | "added" | "removed";
-}
-
 interface AssistantComponentEdit {
   key: string;
   value: string;
   reason?: string;
 }
 
-function formatBytes(bytes: number): string {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-}
-
-function formatHistoryDate(iso: string): string {
-  return new Date(iso).toLocaleString("en-US", {
-    month: "short",
-    day: "numeric",
-    year: "numeric",
-    hour: "numeric",
-    minute: "2-digit",
-  });
-}
-
-function buildSimpleDiff(current: string, snapshot: string): SimpleDiffLine[] {
-  const currentLines = current.split("\n");
-  const snapshotLines = snapshot.split("\n");
-  const max = Math.max(currentLines.length, snapshotLines.length);
-  const lines: SimpleDiffLine[] = [];
-
-  for (let i = 0; i < max; i += 1) {
-    const cur = currentLines[i] ?? "";
-    const old = snapshotLines[i] ?? "";
-    if (cur === old) continue;
-    lines.push({
-      line: i + 1,
-      current: cur,
-      snapshot: old,
-      kind: !old ? "added" : !cur ? "removed" : "changed",
-    });
-  }
-  return lines;
-}
-
 // --- CSS unit helpers ---
 // Strip "px" suffix so user sees just the number
 function stripUnit(val: string): string {
@@ -1443,7 +1394,6 @@ export default function TemplateEditorPage() {
   const params = useParams();
   const router = useRouter();
   const searchParams = useSearchParams();
-  const { confirm } = useLoomiDialog();
   const design = params.oem as string;
   const templateName = params.type as string;
   const { isAccount, accountKey, accountData } = useAccount();
@@ -1501,17 +1451,6 @@ export default function TemplateEditorPage() {
   >([]);
   const aiScrollRef = useRef<HTMLDivElement>(null);
   const [showHistory, setShowHistory] = useState(false);
-  const [historyLoading, setHistoryLoading] = useState(false);
-  const [historyVersions, setHistoryVersions] = useState<
-    TemplateHistoryVersion[]
-  >([]);
-  const [historyCompareLoading, setHistoryCompareLoading] = useState(false);
-  const [selectedHistoryVersion, setSelectedHistoryVersion] =
-    useState<TemplateHistoryVersion | null>(null);
-  const [selectedHistoryRaw, setSelectedHistoryRaw] = useState("");
-  const [restoringVersionId, setRestoringVersionId] = useState<string | null>(
-    null,
-  );
   const [sectionTags, setSectionTags] = useState<{
     tags: string[];
     assignments: Record<string, string[]>;
@@ -1747,57 +1686,9 @@ export default function TemplateEditorPage() {
     }
   }, [accountKey]);
 
-  const loadTemplateHistory = useCallback(async () => {
-    setHistoryLoading(true);
-    try {
-      const res = await fetch(
-        `/api/templates/history?design=${encodeURIComponent(design)}&type=${encodeURIComponent(templateName)}`,
-      );
-      const data = await res.json();
-      if (!res.ok) {
-        setMessage(data.error || "Failed to load history");
-        return;
-      }
-      setHistoryVersions(Array.isArray(data.versions) ? data.versions : []);
-    } catch {
-      setMessage("Failed to load history");
-    } finally {
-      setHistoryLoading(false);
-    }
-  }, [design, templateName]);
-
-  const loadHistoryVersion = useCallback(
-    async (version: TemplateHistoryVersion) => {
-      setHistoryCompareLoading(true);
-      setSelectedHistoryVersion(version);
-      setSelectedHistoryRaw("");
-      try {
-        const res = await fetch(
-          `/api/templates/history?design=${encodeURIComponent(design)}&type=${encodeURIComponent(templateName)}&versionId=${encodeURIComponent(version.id)}`,
-        );
-        const data = await res.json();
-        if (!res.ok || !data.raw) {
-          setSelectedHistoryRaw("");
-          setMessage(data.error || "Failed to load version");
-          return;
-        }
-        setSelectedHistoryRaw(data.raw);
-      } catch {
-        setSelectedHistoryRaw("");
-        setMessage("Failed to load version");
-      } finally {
-        setHistoryCompareLoading(false);
-      }
-    },
-    [design, templateName],
-  );
-
   const handleOpenHistory = useCallback(() => {
     setShowHistory(true);
-    setSelectedHistoryVersion(null);
-    setSelectedHistoryRaw("");
-    loadTemplateHistory();
-  }, [loadTemplateHistory]);
+  }, []);
 
   // Load template + ESP variables
   useEffect(() => {
@@ -2492,61 +2383,30 @@ export default function TemplateEditorPage() {
     setExporting(false);
   };
 
-  const handleRestoreVersion = async (versionId: string) => {
-    const confirmed = await confirm({
-      title: "Restore Version",
-      message: "Restore this version? Current content will be replaced.",
-      confirmLabel: "Restore",
-    });
-    if (!confirmed) return;
-    setRestoringVersionId(versionId);
-    setMessage("");
-    try {
-      const res = await fetch("/api/templates/history/restore", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          design,
-          type: templateName,
-          versionId,
-        }),
-      });
-      const data = await res.json();
-      if (!res.ok || !data.raw) {
-        setMessage(data.error || "Failed to restore version");
-        return;
-      }
-
-      const restoredRaw = data.raw as string;
-      historyRef.current = [];
-      futureRef.current = [];
-      historySkipRef.current = true;
-      setCanUndo(false);
-      setCanRedo(false);
-      setExpandedComponents(new Set());
-      setHiddenComponents(new Set());
-      setSelectedComponent(null);
-      setCode(restoredRaw);
-      setOriginalCode(restoredRaw);
-
-      const reparsed = parseTemplate(restoredRaw);
-      setParsed(reparsed);
-      const previewCode = serializeTemplateForPreview(reparsed, new Set());
-      if (previewTimerRef.current) clearTimeout(previewTimerRef.current);
-      previewTimerRef.current = setTimeout(
-        () => compilePreview(previewCode),
-        200,
-      );
+  const handleVersionRestored = (restoredRaw: string) => {
+    historyRef.current = [];
+    futureRef.current = [];
+    historySkipRef.current = true;
+    setCanUndo(false);
+    setCanRedo(false);
+    setExpandedComponents(new Set());
+    setHiddenComponents(new Set());
+    setSelectedComponent(null);
+    setCode(restoredRaw);
+    setOriginalCode(restoredRaw);
+
+    const reparsed = parseTemplate(restoredRaw);
+    setParsed(reparsed);
+    const previewCode = serializeTemplateForPreview(reparsed, new Set());
+    if (previewTimerRef.current) clearTimeout(previewTimerRef.current);
+    previewTimerRef.current = setTimeout(
+      () => compilePreview(previewCode),
+      200,
+    );
 
-      setMessage("Version restored");
-      setTimeout(() => setMessage(""), 3000);
-      setShowHistory(false);
-      loadTemplateHistory();
-    } catch {
-      setMessage("Failed to restore version");
-    } finally {
-      setRestoringVersionId(null);
-    }
+    setMessage("Version restored");
+    setTimeout(() => setMessage(""), 3000);
+    setShowHistory(false);
   };
 
   const handleCopyHtml = async (format: "compiled" | "source" | "text" = "compiled") => {
@@ -2623,11 +2483,6 @@ export default function TemplateEditorPage() {
     }
   }, [sendTestTo, sendTestSubject, previewHtml, parsed, templateName]);
 
-  const historyDiff = useMemo(
-    () => buildSimpleDiff(code, selectedHistoryRaw),
-    [code, selectedHistoryRaw],
-  );
-
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
       const mod = e.metaKey || e.ctrlKey;
@@ -4098,179 +3953,15 @@ export default function TemplateEditorPage() {
         )}
       </div>
 
-      {/* History Modal */}
-      {showHistory && (
-        <div
-          className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 animate-overlay-in"
-          onClick={() => setShowHistory(false)}
-        >
-          <div
-            className="glass-modal w-[980px] h-[78vh] max-h-[780px] flex flex-col"
-            onClick={(e) => e.stopPropagation()}
-          >
-            <div className="px-5 py-4 border-b border-[var(--border)] flex items-center justify-between">
-              <div>
-                <h3 className="text-sm font-semibold">Template History</h3>
-                <p className="text-xs text-[var(--muted-foreground)] mt-0.5">
-                  Last 5 saved versions for {designLabel}
-                </p>
-              </div>
-              <div className="flex items-center gap-2">
-                <button
-                  onClick={loadTemplateHistory}
-                  disabled={historyLoading}
-                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-[var(--muted)] hover:bg-[var(--accent)] disabled:opacity-40 transition-colors"
-                >
-                  <ArrowPathIcon
-                    className={`w-3.5 h-3.5 ${historyLoading ? "animate-spin" : ""}`}
-                  />
-                  Refresh
-                </button>
-                <button
-                  onClick={() => setShowHistory(false)}
-                  className="p-1 rounded-lg text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors"
-                >
-                  <XMarkIcon className="w-4 h-4" />
-                </button>
-              </div>
-            </div>
-
-            <div className="flex-1 min-h-0 flex">
-              <div className="w-[320px] border-r border-[var(--border)] overflow-y-auto p-2 space-y-1.5">
-                {historyLoading ? (
-                  <p className="text-xs text-[var(--muted-foreground)] px-2 py-2">
-                    Loading history...
-                  </p>
-                ) : historyVersions.length === 0 ? (
-                  <p className="text-xs text-[var(--muted-foreground)] px-2 py-2">
-                    No saved versions yet.
-                  </p>
-                ) : (
-                  historyVersions.map((version) => {
-                    const selected = selectedHistoryVersion?.id === version.id;
-                    return (
-                      <div
-                        key={version.id}
-                        className={`border rounded-lg p-2.5 transition-colors ${selected ? "border-[var(--primary)] bg-[var(--primary)]/5" : "border-[var(--border)] bg-[var(--background)]"}`}
-                      >
-                        <button
-                          onClick={() => loadHistoryVersion(version)}
-                          className="w-full text-left"
-                        >
-                          <p className="text-xs font-medium">
-                            {formatHistoryDate(version.createdAt)}
-                          </p>
-                          <p className="text-[10px] text-[var(--muted-foreground)] mt-0.5">
-                            {formatBytes(version.size)}
-                          </p>
-                        </button>
-                        <button
-                          onClick={() => handleRestoreVersion(version.id)}
-                          disabled={restoringVersionId === version.id}
-                          className="mt-2 w-full text-center px-2 py-1.5 rounded-md text-xs font-medium bg-[var(--muted)] hover:bg-[var(--accent)] disabled:opacity-40 transition-colors"
-                        >
-                          {restoringVersionId === version.id
-                            ? "Restoring..."
-                            : "Restore"}
-                        </button>
-                      </div>
-                    );
-                  })
-                )}
-              </div>
-
-              <div className="flex-1 min-h-0 overflow-y-auto p-4">
-                {!selectedHistoryVersion && (
-                  <div className="h-full flex items-center justify-center text-center">
-                    <p className="text-sm text-[var(--muted-foreground)]">
-                      Select a version to compare against your current editor
-                      content.
-                    </p>
-                  </div>
-                )}
-
-                {selectedHistoryVersion && (
-                  <div className="space-y-3">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="text-sm font-medium">
-                          Comparing with{" "}
-                          {formatHistoryDate(selectedHistoryVersion.createdAt)}
-                        </p>
-                        {!historyCompareLoading && (
-                          <p className="text-xs text-[var(--muted-foreground)]">
-                            {historyDiff.length} changed line
-                            {historyDiff.length === 1 ? "" : "s"}
-                          </p>
-                        )}
-                      </div>
-                    </div>
-
-                    {historyCompareLoading ? (
-                      <p className="text-xs text-[var(--muted-foreground)]">
-                        Loading version...
-                      </p>
-                    ) : historyDiff.length === 0 ? (
-                      <div className="p-4 border border-[var(--border)] rounded-lg bg-[var(--background)]">
-                        <p className="text-sm text-[var(--muted-foreground)]">
-                          No differences from current editor content.
-                        </p>
-                      </div>
-                    ) : (
-                      <div className="border border-[var(--border)] rounded-lg overflow-hidden">
-                        <div className="grid grid-cols-[76px_1fr_1fr] gap-0 text-[10px] uppercase tracking-wider text-[var(--muted-foreground)] bg-[var(--muted)] border-b border-[var(--border)]">
-                          <div className="px-2 py-1.5">Line</div>
-                          <div className="px-2 py-1.5 border-l border-[var(--border)]">
-                            Snapshot
-                          </div>
-                          <div className="px-2 py-1.5 border-l border-[var(--border)]">
-                            Current
-                          </div>
-                        </div>
-                        <div className="max-h-[480px] overflow-auto font-mono text-xs">
-                          {historyDiff.slice(0, 240).map((row) => (
-                            <div
-                              key={`${row.line}-${row.kind}-${row.snapshot}-${row.current}`}
-                              className="grid grid-cols-[76px_1fr_1fr] gap-0 border-b border-[var(--border)] last:border-b-0"
-                            >
-                              <div className="px-2 py-1.5 text-[10px] text-[var(--muted-foreground)] bg-[var(--muted)]/40">
-                                {row.line}
-                              </div>
-                              <div
-                                className={`px-2 py-1.5 border-l border-[var(--border)] whitespace-pre-wrap break-words ${row.kind === "added" ? "bg-transparent" : "bg-red-500/10"}`}
-                              >
-                                {row.snapshot || (
-                                  <span className="opacity-40">
-                                    &lt;empty&gt;
-                                  </span>
-                                )}
-                              </div>
-                              <div
-                                className={`px-2 py-1.5 border-l border-[var(--border)] whitespace-pre-wrap break-words ${row.kind === "removed" ? "bg-transparent" : "bg-green-500/10"}`}
-                              >
-                                {row.current || (
-                                  <span className="opacity-40">
-                                    &lt;empty&gt;
-                                  </span>
-                                )}
-                              </div>
-                            </div>
-                          ))}
-                          {historyDiff.length > 240 && (
-                            <div className="px-3 py-2 text-[10px] text-[var(--muted-foreground)] bg-[var(--muted)]/30">
-                              Showing first 240 changed lines.
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                )}
-              </div>
-            </div>
-          </div>
-        </div>
-      )}
+      <TemplateHistoryModal
+        open={showHistory}
+        onClose={() => setShowHistory(false)}
+        design={design}
+        designLabel={designLabel}
+        currentCode={code}
+        previewValues={previewVariableMap}
+        onRestored={handleVersionRestored}
+      />
 
       {/* Section Picker Modal */}
       {showComponentPicker && (
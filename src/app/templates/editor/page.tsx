@@ -41,23 +41,51 @@ import {
   PhotoIcon,
   ChevronUpDownIcon,
   MagnifyingGlassIcon,
+  BookmarkIcon,
   Squares2X2Icon,
+  ClipboardDocumentCheckIcon,
 } from "@heroicons/react/24/outline";
 import { toast } from "sonner";
 import Link from "next/link";
 import { VariablePickerButton } from "@/components/variable-picker";
 import { AccountAvatar } from "@/components/account-avatar";
+import { TemplateHistoryModal } from "@/components/template-history-modal";
+import { TemplateProofModal } from "@/components/template-proof-modal";
+import { ContentVisibilityEditor } from "@/components/content-visibility-editor";
+import { SaveSectionModal } from "@/components/save-section-modal";
+import { SavedSectionImpactModal } from "@/components/saved-section-impact-modal";
 import { useAccount } from "@/contexts/account-context";
+import { useLoomiDialog } from "@/contexts/loomi-dialog-context";
+import { ELEVATED_ROLES } from "@/lib/roles";
 import { useSubaccountHref } from "@/hooks/use-subaccount-href";
 import { useUnsavedChanges } from "@/contexts/unsaved-changes-context";
-import { useLoomiDialog } from "@/contexts/loomi-dialog-context";
 import {
   componentSchemas,
   getAvailableComponents,
   IMAGE_PLACEHOLDER,
   type RepeatableGroup,
 } from "@/lib/component-schemas";
-import { parseTemplate, type ParsedTemplate } from "@/lib/template-parser";
+import { parseTemplate, type ParsedComponent, type ParsedTemplate } from "@/lib/template-parser";
+import {
+  SAVED_SECTION_VERSION_ATTRIBUTE,
+  readSavedSectionReference,
+  savedSectionReference,
+  type SavedSectionSummary,
+} from "@/lib/saved-sections";
+import {
+  THEME_TOKENS,
+  readThemeTokenReference,
+  resolveThemeTokens,
+  themeTokenReference,
+} from "@/lib/theme-tokens";
+import {
+  SAMPLE_VISIBILITY_CONTACTS,
+  VISIBILITY_ATTRIBUTE,
+  applyContentConditions,
+  describeVisibilityRule,
+  findSampleVisibilityContact,
+  parseVisibilityRule,
+} from "@/lib/content-conditions";
 import {
   buildPreviewVariableMap,
   findMissingPreviewVariables,
@@ -159,20 +187,6 @@ async function rasterizeSvgToPngFile(
   }
 }
 
-interface TemplateHistoryVersion {
-  id: string;
-  createdAt: string;
-  size: number;
-  createdBy?: string | null;
-}
-
-interface SimpleDiffLine {
-  line: number;
-  current: string;
-  snapshot: string;
-  kind: "changed" | "added" | "removed";
-}
-
 interface AssistantComponentEdit {
   componentIndex?: number;
   key: string;
@@ -249,42 +263,6 @@ function filterInlineVariableOptions(
   });
 }
 
-function formatBytes(bytes: number): string {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-}
-
-function formatHistoryDate(iso: string): string {
-  return new Date(iso).toLocaleString("en-US", {
-    month: "short",
-    day: "numeric",
-    year: "numeric",
-    hour: "numeric",
-    minute: "2-digit",
-  });
-}
-
-function buildSimpleDiff(current: string, snapshot: string): SimpleDiffLine[] {
-  const currentLines = current.split("\n");
-  const snapshotLines = snapshot.split("\n");
-  const max = Math.max(currentLines.length, snapshotLines.length);
-  const lines: SimpleDiffLine[] = [];
-
-  for (let i = 0; i < max; i += 1) {
-    const cur = currentLines[i] ?? "";
-    const old = snapshotLines[i] ?? "";
-    if (cur === old) continue;
-    lines.push({
-      line: i + 1,
-      current: cur,
-      snapshot: old,
-      kind: !old ? "added" : !cur ? "removed" : "changed",
-    });
-  }
-  return lines;
-}
-
 // --- CSS unit helpers ---
 // Strip "px" suffix so user sees just the number
 function stripUnit(val: string): string {
@@ -3066,7 +3044,7 @@ function PropField({
   onBrowseIcon?: () => void;
   onUploadMedia?: (file: File) => Promise<void>;
   onInsertVariable?: (token: string) => void;
-  brandColors?: { label: string; value: string }[];
+  brandColors?: { label: string; value: string; token?: string }[];
   previewAsLabel?: string;
   richTextBaseFontFamily?: string;
   inlineVariableOptions?: InlineVariableOption[];
@@ -3166,7 +3144,10 @@ function PropField({
     const svPanelRef = useRef<HTMLDivElement>(null);
     const huePanelRef = useRef<HTMLDivElement>(null);
     const swatches = brandColors?.filter((c) => c.value) || [];
-    const displayColor = value || placeholderText || "#000000";
+    // A theme token shows as the color it resolves to for this account
+    const valueToken = readThemeTokenReference(value);
+    const displayColor = (valueToken && swatches.find((c) => c.token === valueToken)?.value)
+      || value || placeholderText || "#000000";
     const [dropdownPos, setDropdownPos] = useState<CSSProperties>({});
     const draggingRef = useRef<"sv" | "hue" | null>(null);
 
@@ -3239,6 +3220,10 @@ function PropField({
     };
 
     const applyColor = (c: string) => { onChange(c); onLiveStyle?.(c); };
+    const applySwatch = (c: { value: string; token?: string }) => {
+      onChange(c.token ? themeTokenReference(c.token) : c.value);
+      onLiveStyle?.(c.value);
+    };
 
     const handleSvDown = (e: React.MouseEvent) => {
       draggingRef.current = "sv";
@@ -3283,16 +3268,16 @@ function PropField({
                 <span className="text-[10px] font-medium uppercase tracking-wider text-[var(--muted-foreground)] mb-2 block">Brand Colors</span>
                 <div className="flex flex-wrap gap-1.5">
                   {swatches.map((c) => {
-                    const isActive = value?.toLowerCase() === c.value.toLowerCase();
+                    const isActive = c.token ? valueToken === c.token : value?.toLowerCase() === c.value.toLowerCase();
                     return (
                       <button
                         key={c.label}
                         type="button"
                         onClick={() => {
-                          applyColor(c.value);
+                          applySwatch(c);
                           if (isValidHex(c.value)) { const p = hexToHsv(c.value); setHue(p.h); setSat(p.s); setBright(p.v); }
                         }}
-                        title={`${c.label} (${c.value})`}
+                        title={c.token ? `${c.label} (${themeTokenReference(c.token)}, ${c.value} for this account)` : `${c.label} (${c.value})`}
                         className={`flex items-center gap-1.5 px-2 py-1 rounded-md border text-[10px] font-medium transition-all ${
                           isActive
                             ? "border-[var(--primary)] bg-[var(--primary)]/10 text-[var(--primary)]"
@@ -4025,7 +4010,7 @@ function BorderSideEditor({
   values: Record<string, string>;
   onChange: (key: string, val: string) => void;
   onLiveStyle?: (key: string, val: string) => void;
-  brandColors?: { label: string; value: string }[];
+  brandColors?: { label: string; value: string; token?: string }[];
 }) {
   const sides = ["top", "right", "bottom", "left"] as const;
   type Side = (typeof sides)[number];
@@ -4891,7 +4876,7 @@ function ComponentPropsRenderer({
   onUploadMedia?: (propKey: string, file: File) => Promise<void>;
   onInsertVariable?: (propKey: string, token: string) => void;
   previewWidth: 'desktop' | 'mobile';
-  brandColors?: { label: string; value: string }[];
+  brandColors?: { label: string; value: string; token?: string }[];
   previewAsLabel?: string;
   defaultFontFamily?: string;
   inlineVariableOptions?: InlineVariableOption[];
@@ -5337,17 +5322,17 @@ function ComponentPropsRenderer({
         i += 1;
       } else if (
         prop.key === "logo-url" &&
-        (schema.name === "header" || schema.name === "footer") &&
-        accountLogos
+        (schema.name === "header" || schema.name === "footer")
       ) {
-        // Custom logo picker: variant buttons + media library
+        // Custom logo picker: variant buttons + media library. Variants apply
+        // as theme tokens, so the logo follows the account the template is for.
         const logoVariants: { key: keyof NonNullable<typeof accountLogos>; label: string }[] = [
           { key: "light", label: "Light" },
           { key: "dark", label: "Dark" },
           { key: "white", label: "White" },
           { key: "black", label: "Black" },
         ];
-        const available = logoVariants.filter((v) => accountLogos[v.key]);
+        const logoValues = resolveThemeTokens({ logos: accountLogos }).values;
         const currentVal = r.value;
         elements.push(
           <div key={prop.key}>
@@ -5356,35 +5341,34 @@ function ComponentPropsRenderer({
               <RespIndicator isResp={r.isResp} hasMobileOverride={r.hasMobileOverride} />
               <ClearMobile prop={prop} isResp={r.isResp} />
             </label>
-            {available.length > 0 && (
-              <div className="flex flex-wrap gap-1.5 mb-2">
-                {available.map((v) => {
-                  const url = accountLogos[v.key]!;
-                  const isActive = currentVal === url;
-                  return (
-                    <button
-                      key={v.key}
-                      type="button"
-                      onClick={() => onPropChange(r.effectiveKey, url)}
-                      className={`group relative flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg border text-[11px] font-medium transition-all ${
-                        isActive
-                          ? "border-[var(--primary)] bg-[var(--primary)]/10 text-[var(--primary)]"
-                          : "border-[var(--border)] bg-[var(--input)] text-[var(--muted-foreground)] hover:border-[var(--primary)]/50 hover:text-[var(--foreground)]"
-                      }`}
-                      title={url}
-                    >
-                      <img
-                        src={url}
-                        alt={v.label}
-                        className="h-4 w-auto max-w-[48px] object-contain"
-                        onError={(e) => { (e.target as HTMLImageElement).style.display = "none"; }}
-                      />
-                      <span>{v.label}</span>
-                    </button>
-                  );
-                })}
-              </div>
-            )}
+            <div className="flex flex-wrap gap-1.5 mb-2">
+              {logoVariants.map((v) => {
+                const token = themeTokenReference(`logo.${v.key}`);
+                const url = logoValues[`logo.${v.key}`];
+                const isActive = currentVal === token || currentVal === accountLogos?.[v.key];
+                return (
+                  <button
+                    key={v.key}
+                    type="button"
+                    onClick={() => onPropChange(r.effectiveKey, token)}
+                    className={`group relative flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg border text-[11px] font-medium transition-all ${
+                      isActive
+                        ? "border-[var(--primary)] bg-[var(--primary)]/10 text-[var(--primary)]"
+                        : "border-[var(--border)] bg-[var(--input)] text-[var(--muted-foreground)] hover:border-[var(--primary)]/50 hover:text-[var(--foreground)]"
+                    }`}
+                    title={accountLogos?.[v.key] ? `${token} (${url})` : `${token} (not set for this account)`}
+                  >
+                    <img
+                      src={url}
+                      alt={v.label}
+                      className="h-4 w-auto max-w-[48px] object-contain"
+                      onError={(e) => { (e.target as HTMLImageElement).style.display = "none"; }}
+                    />
+                    <span>{v.label}</span>
+                  </button>
+                );
+              })}
+            </div>
             <PropField
               prop={r.propOverride}
               value={currentVal}
@@ -5981,6 +5965,11 @@ const WEBSAFE_FONTS = [
   { label: 'Lucida Console', value: 'Lucida Console, Monaco, monospace' },
 ];
 
+// The account's brand fonts, applied as theme tokens
+const BRAND_FONT_OPTIONS = THEME_TOKENS
+  .filter((token) => token.kind === 'font')
+  .map((token) => ({ label: `Brand ${token.label.toLowerCase()}`, value: themeTokenReference(token.key) }));
+
 // Settings sections with static defaults (no theme system)
 const SETTINGS_SECTIONS: SettingsSection[] = [
   {
@@ -6000,7 +5989,7 @@ const SETTINGS_SECTIONS: SettingsSection[] = [
         type: "fontSelect",
         target: "allComponentsFont",
         placeholder: 'Helvetica Neue, Helvetica, Arial, sans-serif',
-        options: WEBSAFE_FONTS,
+        options: [...BRAND_FONT_OPTIONS, ...WEBSAFE_FONTS],
       },
     ],
   },
@@ -6459,7 +6448,6 @@ function hasVisualTemplateScaffold(raw: string): boolean {
 export default function TemplateEditorPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const { confirm } = useLoomiDialog();
   const designParam = searchParams.get("design") || "";
   const [design, setDesign] = useState(designParam);
   const templateName = "template";
@@ -6467,7 +6455,8 @@ export default function TemplateEditorPage() {
   const modeParam = searchParams.get("mode");
   const accountKeyParam = searchParams.get("accountKey") || "";
   const libraryTemplateSlug = searchParams.get("libraryTemplate") || "";
-  const { isAdmin, isAccount, accountKey, accountData, accounts } = useAccount();
+  const { isAdmin, isAccount, accountKey, accountData, accounts, userRole } = useAccount();
+  const { prompt: promptDialog, confirm: confirmDialog } = useLoomiDialog();
   const subHref = useSubaccountHref();
   const { markClean, markDirty } = useUnsavedChanges();
   // Track account key from loaded ESP template (may not be in URL)
@@ -6503,17 +6492,6 @@ export default function TemplateEditorPage() {
     }
     return raw;
   }, [effectiveAccountData?.branding]);
-  const brandColors = useMemo(() => {
-    const colors = parsedBranding?.colors;
-    if (!colors) return undefined;
-    const entries: { label: string; value: string }[] = [];
-    if (colors.primary) entries.push({ label: "Primary", value: colors.primary });
-    if (colors.secondary) entries.push({ label: "Secondary", value: colors.secondary });
-    if (colors.accent) entries.push({ label: "Accent", value: colors.accent });
-    if (colors.background) entries.push({ label: "Background", value: colors.background });
-    if (colors.text) entries.push({ label: "Text", value: colors.text });
-    return entries.length > 0 ? entries : undefined;
-  }, [parsedBranding?.colors]);
   const inlineVariableOptions = useMemo<InlineVariableOption[]>(() => {
     const byToken = new Map<string, InlineVariableOption>();
     for (const option of BASE_INLINE_VARIABLE_OPTIONS) {
@@ -6559,6 +6537,22 @@ export default function TemplateEditorPage() {
     }
     return raw;
   }, [effectiveAccountData?.logos]);
+  // Brand colors apply as theme tokens, so a template renders in whichever
+  // account's colors it's sent for; swatches show this account's values.
+  const themeTokenValues = useMemo(
+    () => resolveThemeTokens({ branding: parsedBranding, logos: accountLogos }).values,
+    [parsedBranding, accountLogos],
+  );
+  const brandColors = useMemo(
+    () => THEME_TOKENS
+      .filter((token) => token.kind === "color")
+      .map((token) => ({
+        label: token.label.replace(/ color$/, ""),
+        value: themeTokenValues[token.key],
+        token: token.key,
+      })),
+    [themeTokenValues],
+  );
   const mediaPickerAccountKey = effectiveAccountKey || undefined;
   const canBrowseMedia = Boolean(mediaPickerAccountKey || isAdmin);
   const builderMode = searchParams.get("builder");
@@ -6654,22 +6648,14 @@ export default function TemplateEditorPage() {
   const [pendingAiBuild, setPendingAiBuild] = useState<TemplateBuild | null>(null);
   const aiScrollRef = useRef<HTMLDivElement>(null);
   const [showHistory, setShowHistory] = useState(false);
-  const [historyLoading, setHistoryLoading] = useState(false);
-  const [historyVersions, setHistoryVersions] = useState<
-    TemplateHistoryVersion[]
-  >([]);
-  const [historyCompareLoading, setHistoryCompareLoading] = useState(false);
-  const [selectedHistoryVersion, setSelectedHistoryVersion] =
-    useState<TemplateHistoryVersion | null>(null);
-  const [selectedHistoryRaw, setSelectedHistoryRaw] = useState("");
-  const [restoringVersionId, setRestoringVersionId] = useState<string | null>(
-    null,
-  );
   const [sectionTags, setSectionTags] = useState<{
     tags: string[];
     assignments: Record<string, string[]>;
   } | null>(null);
   const [pickerTag, setPickerTag] = useState<string>("all");
+  const [savedSections, setSavedSections] = useState<SavedSectionSummary[]>([]);
+  const [saveSectionIndexes, setSaveSectionIndexes] = useState<number[] | null>(null);
+  const [sectionImpact, setSectionImpact] = useState<{ id: string; name: string } | null>(null);
   const [hiddenComponents, setHiddenComponents] = useState<Set<number>>(
     new Set(),
   );
@@ -6846,15 +6832,20 @@ export default function TemplateEditorPage() {
     };
   }, [clampEditorPanelWidth, isResizingPanels]);
 
-  const selectedPreviewContact = useMemo(
-    () =>
-      previewContacts.find((c) => c.id === selectedPreviewContactId) || null,
-    [previewContacts, selectedPreviewContactId],
-  );
+  const selectedPreviewContact = useMemo((): PreviewContact | null => {
+    const contact = previewContacts.find((c) => c.id === selectedPreviewContactId);
+    if (contact) return contact;
+    // "__sample__" keeps the preview's built-in sample values
+    if (selectedPreviewContactId === "__sample__") return null;
+    const sample = findSampleVisibilityContact(selectedPreviewContactId);
+    return sample ? { ...sample.contact, id: sample.id } : null;
+  }, [previewContacts, selectedPreviewContactId]);
   const previewAsLabel = useMemo(() => {
     if (selectedPreviewContactId === "__sample__" || !selectedPreviewContact) {
       return "Sample";
     }
+    const sample = findSampleVisibilityContact(selectedPreviewContactId);
+    if (sample) return sample.label;
     return (
       selectedPreviewContact.fullName ||
       [selectedPreviewContact.firstName, selectedPreviewContact.lastName]
@@ -6870,6 +6861,16 @@ export default function TemplateEditorPage() {
     [effectiveAccountData, selectedPreviewContact],
   );
 
+  // Conditional sections are resolved for the preview contact; the compiled
+  // HTML keeps every section so saving and publishing never lose one.
+  const [applyVisibilityRules, setApplyVisibilityRules] = useState(true);
+  const hasConditionalSections = previewHtml.includes("data-loomi-if");
+  const displayedPreviewHtml = useMemo(() => {
+    if (!applyVisibilityRules || !hasConditionalSections) return previewHtml;
+    const contact = selectedPreviewContact ?? SAMPLE_VISIBILITY_CONTACTS[0].contact;
+    return applyContentConditions(previewHtml, contact);
+  }, [applyVisibilityRules, hasConditionalSections, previewHtml, selectedPreviewContact]);
+
   const missingPreviewVars = useMemo(
     () => findMissingPreviewVariables(code, previewVariableMap),
     [code, previewVariableMap],
@@ -6935,6 +6936,7 @@ export default function TemplateEditorPage() {
             html,
             project: "core",
             previewValues: previewVariableMap,
+            accountKey: effectiveAccountKey || undefined,
           }),
           signal: controller.signal,
         });
@@ -6956,13 +6958,14 @@ export default function TemplateEditorPage() {
       }
       if (!controller.signal.aborted) setPreviewLoading(false);
     },
-    [previewVariableMap],
+    [previewVariableMap, effectiveAccountKey],
   );
 
   // Clear client-side preview cache when preview variables change (different contact selected)
+  // or theme tokens resolve against a different account
   useEffect(() => {
     previewCacheRef.current.clear();
-  }, [previewVariableMap]);
+  }, [previewVariableMap, effectiveAccountKey]);
 
   const loadPreviewContacts = useCallback(async () => {
     if (!effectiveAccountKey) {
@@ -6989,7 +6992,10 @@ export default function TemplateEditorPage() {
         : [];
       setPreviewContacts(contacts);
       setSelectedPreviewContactId((prev) => {
-        if (prev !== "__sample__" && !contacts.some((c) => c.id === prev))
+        if (
+          !findSampleVisibilityContact(prev) &&
+          !contacts.some((c) => c.id === prev)
+        )
           return "__sample__";
         return prev;
       });
@@ -7001,57 +7007,9 @@ export default function TemplateEditorPage() {
     }
   }, [effectiveAccountKey]);
 
-  const loadTemplateHistory = useCallback(async () => {
-    setHistoryLoading(true);
-    try {
-      const res = await fetch(
-        `/api/templates/history?design=${encodeURIComponent(design)}&type=${encodeURIComponent(templateName)}`,
-      );
-      const data = await res.json();
-      if (!res.ok) {
-        setMessage(data.error || "Failed to load history");
-        return;
-      }
-      setHistoryVersions(Array.isArray(data.versions) ? data.versions : []);
-    } catch {
-      setMessage("Failed to load history");
-    } finally {
-      setHistoryLoading(false);
-    }
-  }, [design, templateName]);
-
-  const loadHistoryVersion = useCallback(
-    async (version: TemplateHistoryVersion) => {
-      setHistoryCompareLoading(true);
-      setSelectedHistoryVersion(version);
-      setSelectedHistoryRaw("");
-      try {
-        const res = await fetch(
-          `/api/templates/history?design=${encodeURIComponent(design)}&type=${encodeURIComponent(templateName)}&versionId=${encodeURIComponent(version.id)}`,
-        );
-        const data = await res.json();
-        if (!res.ok || !data.raw) {
-          setSelectedHistoryRaw("");
-          setMessage(data.error || "Failed to load version");
-          return;
-        }
-        setSelectedHistoryRaw(data.raw);
-      } catch {
-        setSelectedHistoryRaw("");
-        setMessage("Failed to load version");
-      } finally {
-        setHistoryCompareLoading(false);
-      }
-    },
-    [design, templateName],
-  );
-
   const handleOpenHistory = useCallback(() => {
     setShowHistory(true);
-    setSelectedHistoryVersion(null);
-    setSelectedHistoryRaw("");
-    loadTemplateHistory();
-  }, [loadTemplateHistory]);
+  }, []);
 
   // Load template + ESP variables
   useEffect(() => {
@@ -7298,7 +7256,7 @@ export default function TemplateEditorPage() {
       const compileRes = await fetch("/api/preview", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ html: code, project: "core" }),
+        body: JSON.stringify({ html: code, project: "core", accountKey: effectiveAccountKey || undefined }),
       });
       const compileData = await compileRes.json().catch(() => ({}));
       const compiledHtml =
@@ -7314,19 +7272,14 @@ export default function TemplateEditorPage() {
     }
 
     return undefined;
-  }, [code, editorMode, previewHtml]);
+  }, [code, editorMode, previewHtml, effectiveAccountKey]);
 
+  // Saves are local only; pushing to an ESP goes through the publish flow.
   const getEspSaveMessage = useCallback((data: {
-    syncAttempted?: boolean;
-    syncResults?: Record<string, { success: boolean }>;
+    syncBlockedReason?: string | null;
   } | null | undefined): string => {
-    if (!data?.syncAttempted) return "Saved";
-    const results = Object.values(data.syncResults || {});
-    if (results.length === 0) return "Saved";
-    const successCount = results.filter((result) => result.success).length;
-    if (successCount === results.length) return "Saved & synced";
-    if (successCount > 0) return "Saved • partial sync";
-    return "Saved locally • sync failed";
+    if (data?.syncBlockedReason === "approval_required") return "Saved • awaiting approval to sync";
+    return "Saved";
   }, []);
 
   useEffect(() => {
@@ -7393,7 +7346,6 @@ export default function TemplateEditorPage() {
               html: htmlForSave,
               editorType: editorMode,
               accountKey: effectiveAccountKey || undefined,
-              syncToRemote: true,
             }),
           });
           if (res.ok) {
@@ -7488,6 +7440,22 @@ export default function TemplateEditorPage() {
     }
   }, [showComponentPicker, sectionTags]);
 
+  // Saved sections for the picker and for labelling references in the component list
+  const loadSavedSections = useCallback(async () => {
+    try {
+      const query = effectiveAccountKey ? `?accountKey=${encodeURIComponent(effectiveAccountKey)}` : "";
+      const res = await fetch(`/api/saved-sections${query}`);
+      const data = await res.json().catch(() => ({}));
+      if (res.ok && Array.isArray(data.sections)) setSavedSections(data.sections);
+    } catch {
+      // Non-fatal: references still render, they just show a generic label.
+    }
+  }, [effectiveAccountKey]);
+
+  useEffect(() => {
+    loadSavedSections();
+  }, [loadSavedSections]);
+
   // Re-compile preview when preview variables or hidden components change.
   // Reads parsed/code from refs to avoid double-triggering with syncVisualToCode.
   useEffect(() => {
@@ -7571,8 +7539,8 @@ export default function TemplateEditorPage() {
     if (!currentParsed) return;
     const newComponents = [...currentParsed.components];
     const newProps = { ...newComponents[compIndex].props };
-    if (!value && (key.startsWith('m:') || key.includes('-m:'))) {
-      // Clear mobile override — remove the key entirely
+    if (!value && (key.startsWith('m:') || key.includes('-m:') || key === VISIBILITY_ATTRIBUTE)) {
+      // Clear mobile override or visibility rule — remove the key entirely
       delete newProps[key];
     } else {
       newProps[key] = value;
@@ -8314,6 +8282,90 @@ export default function TemplateEditorPage() {
     syncVisualToCode(newParsed);
   };
 
+  // Replace components with others in place, keeping expanded/hidden state on
+  // the components that stay
+  const spliceComponents = (
+    base: ParsedTemplate,
+    removed: number[],
+    insertAt: number,
+    inserted: ParsedComponent[],
+  ) => {
+    const removedSet = new Set(removed);
+    const indexMap = new Map<number, number>();
+    const newComponents: ParsedComponent[] = [];
+    base.components.forEach((comp, i) => {
+      if (i === insertAt) newComponents.push(...inserted);
+      if (removedSet.has(i)) return;
+      indexMap.set(i, newComponents.length);
+      newComponents.push(comp);
+    });
+    if (insertAt >= base.components.length) newComponents.push(...inserted);
+    const newParsed = { ...base, components: newComponents };
+    setParsed(newParsed);
+    const remap = (oldSet: Set<number>) =>
+      new Set([...oldSet].filter((i) => indexMap.has(i)).map((i) => indexMap.get(i)!));
+    setExpandedComponents((prev) => remap(prev));
+    setHiddenComponents((prev) => remap(prev));
+    syncVisualToCode(newParsed);
+  };
+
+  const handleInsertSavedSection = (section: SavedSectionSummary) => {
+    if (!parsed) return;
+    spliceComponents(parsed, [], parsed.components.length, [
+      savedSectionReference(section.id, section.version),
+    ]);
+    setShowComponentPicker(false);
+  };
+
+  const handleSectionSaved = (
+    section: SavedSectionSummary,
+    indexes: number[],
+    updatedExisting: boolean,
+  ) => {
+    setSaveSectionIndexes(null);
+    loadSavedSections();
+    if (!parsed || indexes.length === 0) return;
+    // Other references to the same section in this template move to the new version too
+    const base = updatedExisting
+      ? {
+          ...parsed,
+          components: parsed.components.map((comp) =>
+            readSavedSectionReference(comp)?.sectionId === section.id
+              ? savedSectionReference(section.id, section.version)
+              : comp,
+          ),
+        }
+      : parsed;
+    spliceComponents(base, indexes, Math.min(...indexes), [
+      savedSectionReference(section.id, section.version),
+    ]);
+    if (updatedExisting) setSectionImpact({ id: section.id, name: section.name });
+  };
+
+  const handleUpdateSavedSectionReference = (index: number, version: number) => {
+    updateComponentProp(index, SAVED_SECTION_VERSION_ATTRIBUTE, String(version));
+  };
+
+  const handleDetachSavedSection = async (index: number) => {
+    const reference = parsed ? readSavedSectionReference(parsed.components[index]) : null;
+    if (!parsed || !reference) return;
+    const confirmed = await confirmDialog({
+      title: "Detach section",
+      message: "Copy the section's components into this template? The copy won't receive future updates to the saved section.",
+      confirmLabel: "Detach",
+    });
+    if (!confirmed) return;
+    try {
+      const query = reference.version ? `?version=${reference.version}` : "";
+      const res = await fetch(`/api/saved-sections/${reference.sectionId}${query}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.section) throw new Error(data.error || "Failed to load saved section");
+      spliceComponents(parsed, [index], index, data.section.components);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load saved section");
+    }
+  };
+
   const handleReorderComponent = (from: number, to: number) => {
     if (!parsed || from === to) return;
     const newComponents = [...parsed.components];
@@ -8412,7 +8464,6 @@ export default function TemplateEditorPage() {
             html: htmlForSave,
             editorType: editorMode,
             accountKey: effectiveAccountKey || undefined,
-            syncToRemote: true,
           }),
         });
       } else if (espMode && !espRecordId && effectiveAccountKey) {
@@ -8579,7 +8630,7 @@ export default function TemplateEditorPage() {
         const compileRes = await fetch("/api/preview", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ html: code, project: "core" }),
+          body: JSON.stringify({ html: code, project: "core", accountKey: effectiveAccountKey || undefined }),
         });
         const compileData = await compileRes.json();
         if (compileData.html) compiledHtml = compileData.html;
@@ -8652,12 +8703,104 @@ export default function TemplateEditorPage() {
         setEspRecordId(espTemplate.id);
       }
 
-      // 4. Publish to selected providers
-      const publishRes = await fetch(`/api/esp/templates/${targetEspTemplateId}/publish`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ providers: selectedProviders }),
-      });
+      // 4. Publish to selected providers (requires client approval unless overridden)
+      let override: { reason: string } | null = null;
+      let allowUnmappedMergeTags = false;
+      let overwriteRemoteChanges = false;
+      const publish = () =>
+        fetch(`/api/esp/templates/${targetEspTemplateId}/publish`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            providers: selectedProviders,
+            ...(override && { override: true, overrideReason: override.reason }),
+            ...(allowUnmappedMergeTags && { allowUnmappedMergeTags: true }),
+            ...(overwriteRemoteChanges && { overwriteRemoteChanges: true }),
+          }),
+        });
+      // 409 means either a missing approval or ESP copies edited since the last publish
+      const readConflict = async (res: Response) =>
+        res.status === 409 ? res.clone().json().catch(() => ({})) : null;
+      let publishRes = await publish();
+
+      const approvalConflict = await readConflict(publishRes);
+      if (approvalConflict && !approvalConflict.remoteChanged) {
+        const err = approvalConflict;
+        const reviewHref = `/templates/review/${targetEspTemplateId}`;
+        if (!userRole || !ELEVATED_ROLES.includes(userRole)) {
+          toast.error(err.error || "Template must be approved before publishing", {
+            action: { label: "Open review", onClick: () => router.push(reviewHref) },
+          });
+          setSavingTemplate(false);
+          return;
+        }
+        const reason = await promptDialog({
+          title: "Publish without approval?",
+          message: `${err.error || "This template has not been approved."} Publishing anyway is recorded in the audit log.`,
+          placeholder: "Reason for overriding approval",
+          confirmLabel: "Override & Publish",
+          required: true,
+          multiline: true,
+        });
+        if (!reason?.trim()) {
+          toast("Publish cancelled — the template was saved on Loomi", {
+            action: { label: "Open review", onClick: () => router.push(reviewHref) },
+          });
+          setSavingTemplate(false);
+          return;
+        }
+        override = { reason: reason.trim() };
+        publishRes = await publish();
+      }
+
+      // 5. Merge tags or visibility rules some ESPs can't render — confirm before shipping them as-is
+      if (publishRes.status === 422) {
+        const err = await publishRes.json().catch(() => ({}));
+        const unmapped: Record<string, string[]> = err.unmappedMergeTags || {};
+        const conditions: Record<string, string[]> = err.unsupportedConditions || {};
+        const providerName = (provider: string) => PROVIDER_META[provider]?.displayName || provider;
+        const lines = [
+          ...Object.entries(unmapped).map(
+            ([provider, tags]) => `${providerName(provider)}: ${tags.map((tag) => `{{${tag}}}`).join(", ")}`,
+          ),
+          ...Object.entries(conditions).map(
+            ([provider, rules]) => `${providerName(provider)} can't check: ${rules.join("; ")}`,
+          ),
+        ];
+        const proceed = await confirmDialog({
+          title: "Unsupported merge tags",
+          message: `${err.error || "Some merge tags have no equivalent in the selected ESPs."}\n\n${lines.join("\n")}\n\nPublish anyway? Unmapped tags appear as-is and unsupported visibility rules show their section to everyone.`,
+          confirmLabel: "Publish Anyway",
+        });
+        if (!proceed) {
+          toast("Publish cancelled — the template was saved on Loomi");
+          setSavingTemplate(false);
+          return;
+        }
+        allowUnmappedMergeTags = true;
+        publishRes = await publish();
+      }
+
+      // 6. Someone edited the ESP copy directly — overwriting it needs an explicit OK
+      const remoteConflict = await readConflict(publishRes);
+      if (remoteConflict?.remoteChanged) {
+        const names = (remoteConflict.remoteChanged as string[])
+          .map((provider) => PROVIDER_META[provider]?.displayName || provider)
+          .join(", ");
+        const proceed = await confirmDialog({
+          title: "Overwrite ESP edits?",
+          message: `The template was edited directly in ${names} since it was last published from Loomi. Publishing replaces those edits. To keep them instead, use "Compare with ESP" on the templates list and pull them into Loomi.`,
+          confirmLabel: "Overwrite & Publish",
+          destructive: true,
+        });
+        if (!proceed) {
+          toast("Publish cancelled — the template was saved on Loomi");
+          setSavingTemplate(false);
+          return;
+        }
+        overwriteRemoteChanges = true;
+        publishRes = await publish();
+      }
 
       if (!publishRes.ok) {
         const err = await publishRes.json();
@@ -8688,61 +8831,30 @@ export default function TemplateEditorPage() {
     }
   };
 
-  const handleRestoreVersion = async (versionId: string) => {
-    const confirmed = await confirm({
-      title: "Restore Version",
-      message: "Restore this version? Current content will be replaced.",
-      confirmLabel: "Restore",
-    });
-    if (!confirmed) return;
-    setRestoringVersionId(versionId);
-    setMessage("");
-    try {
-      const res = await fetch("/api/templates/history/restore", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          design,
-          type: templateName,
-          versionId,
-        }),
-      });
-      const data = await res.json();
-      if (!res.ok || !data.raw) {
-        setMessage(data.error || "Failed to restore version");
-        return;
-      }
-
-      const restoredRaw = data.raw as string;
-      historyRef.current = [];
-      futureRef.current = [];
-      historySkipRef.current = true;
-      setCanUndo(false);
-      setCanRedo(false);
-      setExpandedComponents(new Set());
-      setHiddenComponents(new Set());
-      setSelectedComponent(null);
-      setCode(restoredRaw);
-      setOriginalCode(restoredRaw);
-
-      const reparsed = parseTemplate(restoredRaw);
-      setParsed(reparsed);
-      const previewCode = serializeTemplateForPreview(reparsed, new Set());
-      if (previewTimerRef.current) clearTimeout(previewTimerRef.current);
-      previewTimerRef.current = setTimeout(
-        () => compilePreview(previewCode),
-        300,
-      );
+  const handleVersionRestored = (restoredRaw: string) => {
+    historyRef.current = [];
+    futureRef.current = [];
+    historySkipRef.current = true;
+    setCanUndo(false);
+    setCanRedo(false);
+    setExpandedComponents(new Set());
+    setHiddenComponents(new Set());
+    setSelectedComponent(null);
+    setCode(restoredRaw);
+    setOriginalCode(restoredRaw);
+
+    const reparsed = parseTemplate(restoredRaw);
+    setParsed(reparsed);
+    const previewCode = serializeTemplateForPreview(reparsed, new Set());
+    if (previewTimerRef.current) clearTimeout(previewTimerRef.current);
+    previewTimerRef.current = setTimeout(
+      () => compilePreview(previewCode),
+      300,
+    );
 
-      setMessage("Version restored");
-      setTimeout(() => setMessage(""), 3000);
-      setShowHistory(false);
-      loadTemplateHistory();
-    } catch {
-      setMessage("Failed to restore version");
-    } finally {
-      setRestoringVersionId(null);
-    }
+    setMessage("Version restored");
+    setTimeout(() => setMessage(""), 3000);
+    setShowHistory(false);
   };
 
   const handleCopyHtml = async (format: "compiled" | "source" | "text" = "compiled") => {
@@ -8780,6 +8892,7 @@ export default function TemplateEditorPage() {
   // ── Send Test Email ──
   const [showShortcuts, setShowShortcuts] = useState(false);
   const [showSendTest, setShowSendTest] = useState(false);
+  const [showProof, setShowProof] = useState(false);
   const [sendTestTo, setSendTestTo] = useState("");
   const [sendTestSubject, setSendTestSubject] = useState("");
   const [sendingTest, setSendingTest] = useState(false);
@@ -8819,11 +8932,6 @@ export default function TemplateEditorPage() {
     }
   }, [sendTestTo, sendTestSubject, previewHtml, parsed, templateName]);
 
-  const historyDiff = useMemo(
-    () => buildSimpleDiff(code, selectedHistoryRaw),
-    [code, selectedHistoryRaw],
-  );
-
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
       const mod = e.metaKey || e.ctrlKey;
@@ -9598,6 +9706,18 @@ export default function TemplateEditorPage() {
             <EnvelopeIcon className="w-3.5 h-3.5" />
             Send Test
           </button>
+          {/* Proof to seed list + rendering report */}
+          {effectiveAccountKey && (
+            <button
+              onClick={() => setShowProof(true)}
+              disabled={!code.trim()}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-[var(--muted)] hover:bg-[var(--accent)] disabled:opacity-40 transition-colors"
+              title="Send a proof to the account's seed list and check email-client rendering"
+            >
+              <ClipboardDocumentCheckIcon className="w-3.5 h-3.5" />
+              Proof
+            </button>
+          )}
           {/* Save Template */}
           <button
             onClick={handleOpenSaveTemplate}
@@ -9966,12 +10086,14 @@ export default function TemplateEditorPage() {
                                 f.target === "allComponentsFont" &&
                                 parsed
                               ) {
+                                const fontToken = readThemeTokenReference(v);
+                                const fontFamily = fontToken ? themeTokenValues[fontToken] : v;
                                 parsed.components.forEach((_c, idx) => {
                                   injectLiveStyle(
                                     iframeRef.current,
                                     idx,
                                     "font-family",
-                                    v,
+                                    fontFamily,
                                   );
                                 });
                               } else if (
@@ -10150,16 +10272,25 @@ export default function TemplateEditorPage() {
                     {parsed?.components.map((comp, index) => {
                       const schema = componentSchemas[comp.type];
                       const isExpanded = expandedComponents.has(index);
-                      const label = schema?.label || comp.type;
-                      const iconName = schema?.icon || "DocumentIcon";
+                      const sectionReference = readSavedSectionReference(comp);
+                      const savedSection = sectionReference
+                        ? savedSections.find((section) => section.id === sectionReference.sectionId)
+                        : undefined;
+                      const label = sectionReference
+                        ? savedSection?.name || "Saved section"
+                        : schema?.label || comp.type;
+                      const iconName = sectionReference
+                        ? "RectangleGroupIcon"
+                        : schema?.icon || "DocumentIcon";
 
                       const setProps = Object.keys(comp.props).filter(
-                        (k) => k !== "rooftop" && k !== "component-index",
+                        (k) => k !== "rooftop" && k !== "component-index" && k !== VISIBILITY_ATTRIBUTE,
                       );
+                      const visibilityRule = parseVisibilityRule(comp.props[VISIBILITY_ATTRIBUTE]);
                       const allSchemaProps =
                         schema?.props.filter((p) => p.key !== "rooftop" && p.key !== "component-index") || [];
 
-                      const rawProps = schema ? null : setProps;
+                      const rawProps = schema || sectionReference ? null : setProps;
                       const isHidden = hiddenComponents.has(index);
 
                       const isDragging = dragIndex === index;
@@ -10286,6 +10417,27 @@ export default function TemplateEditorPage() {
                                 <span className="text-sm font-medium">
                                   {label}
                                 </span>
+                                {visibilityRule && (
+                                  <span title={`Only shown when ${describeVisibilityRule(visibilityRule)}`}>
+                                    <FunnelIcon className="w-3.5 h-3.5 text-[var(--primary)]" />
+                                  </span>
+                                )}
+                                {sectionReference && (
+                                  <span
+                                    className={`text-[10px] font-medium px-1.5 py-0.5 rounded-full ${
+                                      savedSection && sectionReference.version < savedSection.version
+                                        ? "text-amber-300 bg-amber-500/10"
+                                        : "text-[var(--muted-foreground)] bg-[var(--muted)]"
+                                    }`}
+                                    title={
+                                      savedSection && sectionReference.version < savedSection.version
+                                        ? `Version ${savedSection.version} is available`
+                                        : "Saved section"
+                                    }
+                                  >
+                                    v{sectionReference.version || savedSection?.version || 1}
+                                  </span>
+                                )}
                                 {!isExpanded && setProps.length > 0 && (
                                   <span className="text-[10px] text-[var(--muted-foreground)] truncate max-w-[120px] ml-auto pr-1">
                                     {comp.props["headline"] ||
@@ -10317,6 +10469,18 @@ export default function TemplateEditorPage() {
                                     <EyeIcon className="w-3.5 h-3.5" />
                                   )}
                                 </button>
+                                {!sectionReference && (
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      setSaveSectionIndexes([index]);
+                                    }}
+                                    className="p-1.5 rounded-lg text-[var(--muted-foreground)] hover:text-[var(--foreground)] transition-colors flex-shrink-0"
+                                    title="Save as reusable section"
+                                  >
+                                    <BookmarkIcon className="w-3.5 h-3.5" />
+                                  </button>
+                                )}
                                 <button
                                   onClick={(e) => {
                                     e.stopPropagation();
@@ -10342,7 +10506,44 @@ export default function TemplateEditorPage() {
 
                             {isExpanded && (
                               <div className="p-3">
-                                {schema ? (
+                                {sectionReference ? (
+                                  <div className="space-y-2" data-no-component-drag>
+                                    <p className="text-xs text-[var(--muted-foreground)] leading-relaxed">
+                                      {savedSection
+                                        ? `${savedSection.description ? `${savedSection.description} · ` : ""}${savedSection.componentCount} component${savedSection.componentCount === 1 ? "" : "s"}, shared with other templates. Edit it by saving components over it as a new version.`
+                                        : "This saved section was deleted or isn't available to this account."}
+                                    </p>
+                                    {savedSection && sectionReference.version < savedSection.version && (
+                                      <div className="flex items-center justify-between gap-2 rounded-lg border border-amber-500/30 bg-amber-500/5 px-3 py-2">
+                                        <span className="text-xs text-amber-300">
+                                          Version {savedSection.version} is available
+                                        </span>
+                                        <button
+                                          onClick={() => handleUpdateSavedSectionReference(index, savedSection.version)}
+                                          className="text-xs font-medium text-[var(--primary)] hover:underline"
+                                        >
+                                          Update
+                                        </button>
+                                      </div>
+                                    )}
+                                    <div className="flex items-center gap-3">
+                                      {savedSection && (
+                                        <button
+                                          onClick={() => setSectionImpact({ id: savedSection.id, name: savedSection.name })}
+                                          className="text-xs text-[var(--primary)] hover:underline"
+                                        >
+                                          Where it&apos;s used
+                                        </button>
+                                      )}
+                                      <button
+                                        onClick={() => handleDetachSavedSection(index)}
+                                        className="text-xs text-[var(--muted-foreground)] hover:text-[var(--foreground)]"
+                                      >
+                                        Detach (copy into template)
+                                      </button>
+                                    </div>
+                                  </div>
+                                ) : schema ? (
                                   <ComponentPropsRenderer
                                     schema={schema}
                                     props={comp.props}
@@ -10409,6 +10610,14 @@ export default function TemplateEditorPage() {
                                     </div>
                                   ))
                                 )}
+                                {!sectionReference && (
+                                  <ContentVisibilityEditor
+                                    value={comp.props[VISIBILITY_ATTRIBUTE]}
+                                    onChange={(val) =>
+                                      updateComponentProp(index, VISIBILITY_ATTRIBUTE, val)
+                                    }
+                                  />
+                                )}
                               </div>
                             )}
                           </div>
@@ -10475,6 +10684,11 @@ export default function TemplateEditorPage() {
                   className="w-[220px] max-w-[28vw] min-w-0 bg-transparent text-xs text-[var(--foreground)] focus:outline-none"
                 >
                   <option value="__sample__">Preview As: Sample</option>
+                  {SAMPLE_VISIBILITY_CONTACTS.filter((sample) => sample.id !== "__sample__").map((sample) => (
+                    <option key={sample.id} value={sample.id}>
+                      Preview As: {sample.label}
+                    </option>
+                  ))}
                   {previewContacts.map((contact) => (
                     <option key={contact.id} value={contact.id}>
                       {contact.fullName ||
@@ -10503,6 +10717,23 @@ export default function TemplateEditorPage() {
                   />
                 </button>
               </div>
+              {hasConditionalSections && (
+                <button
+                  onClick={() => setApplyVisibilityRules((prev) => !prev)}
+                  className={`p-1 rounded-lg transition-colors ${
+                    applyVisibilityRules
+                      ? "text-[var(--primary)]"
+                      : "text-[var(--muted-foreground)] hover:text-[var(--foreground)]"
+                  }`}
+                  title={
+                    applyVisibilityRules
+                      ? `Showing sections visible to ${previewAsLabel} — click to show all`
+                      : "Showing all sections — click to apply visibility rules"
+                  }
+                >
+                  <FunnelIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
               {previewLoading && (
                 <span className="text-[10px] text-amber-400 ml-1">Compiling...</span>
               )}
@@ -10700,7 +10931,7 @@ export default function TemplateEditorPage() {
                 <iframe
                   ref={iframeRef}
                   key={`${previewKeyRef.current}-${previewWidth}`}
-                  srcDoc={previewHtml}
+                  srcDoc={displayedPreviewHtml}
                   className="w-full border-0 block mx-auto"
                   style={{
                     minHeight: "100vh",
@@ -11024,186 +11255,59 @@ export default function TemplateEditorPage() {
         )}
       </div>
 
-      {/* History Modal */}
-      {showHistory && (
-        <div
-          className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 animate-overlay-in"
-          onClick={() => setShowHistory(false)}
-        >
-          <div
-            className="glass-modal w-[980px] h-[78vh] max-h-[780px] flex flex-col"
-            onClick={(e) => e.stopPropagation()}
-          >
-            <div className="px-5 py-4 border-b border-[var(--border)] flex items-center justify-between">
-              <div>
-                <h3 className="text-sm font-semibold">Template History</h3>
-                <p className="text-xs text-[var(--muted-foreground)] mt-0.5">
-                  Last 5 saved versions for {designLabel}
-                </p>
-              </div>
-              <div className="flex items-center gap-2">
-                <button
-                  onClick={loadTemplateHistory}
-                  disabled={historyLoading}
-                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-[var(--muted)] hover:bg-[var(--accent)] disabled:opacity-40 transition-colors"
-                >
-                  <ArrowPathIcon
-                    className={`w-3.5 h-3.5 ${historyLoading ? "animate-spin" : ""}`}
-                  />
-                  Refresh
-                </button>
-                <button
-                  onClick={() => setShowHistory(false)}
-                  className="p-1 rounded-lg text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors"
-                >
-                  <XMarkIcon className="w-4 h-4" />
-                </button>
-              </div>
-            </div>
-
-            <div className="flex-1 min-h-0 flex">
-              <div className="w-[320px] border-r border-[var(--border)] overflow-y-auto p-2 space-y-1.5">
-                {historyLoading ? (
-                  <p className="text-xs text-[var(--muted-foreground)] px-2 py-2">
-                    Loading history...
-                  </p>
-                ) : historyVersions.length === 0 ? (
-                  <p className="text-xs text-[var(--muted-foreground)] px-2 py-2">
-                    No saved versions yet.
-                  </p>
-                ) : (
-                  historyVersions.map((version) => {
-                    const selected = selectedHistoryVersion?.id === version.id;
-                    return (
-                      <div
-                        key={version.id}
-                        className={`border rounded-lg p-2.5 transition-colors ${selected ? "border-[var(--primary)] bg-[var(--primary)]/5" : "border-[var(--border)] bg-[var(--background)]"}`}
-                      >
-                        <button
-                          onClick={() => loadHistoryVersion(version)}
-                          className="w-full text-left"
-                        >
-                          <p className="text-xs font-medium">
-                            {formatHistoryDate(version.createdAt)}
-                          </p>
-                          <div className="flex items-center gap-1.5 mt-0.5">
-                            {version.createdBy && (
-                              <span className="text-[10px] text-[var(--muted-foreground)]">
-                                {version.createdBy}
-                              </span>
-                            )}
-                            {version.createdBy && <span className="text-[10px] text-[var(--muted-foreground)] opacity-40">·</span>}
-                            <span className="text-[10px] text-[var(--muted-foreground)]">
-                              {formatBytes(version.size)}
-                            </span>
-                          </div>
-                        </button>
-                        <button
-                          onClick={() => handleRestoreVersion(version.id)}
-                          disabled={restoringVersionId === version.id}
-                          className="mt-2 w-full text-center px-2 py-1.5 rounded-md text-xs font-medium bg-[var(--muted)] hover:bg-[var(--accent)] disabled:opacity-40 transition-colors"
-                        >
-                          {restoringVersionId === version.id
-                            ? "Restoring..."
-                            : "Restore"}
-                        </button>
-                      </div>
-                    );
-                  })
-                )}
-              </div>
+      {parsed && (
+        <SaveSectionModal
+          open={saveSectionIndexes !== null}
+          onClose={() => setSaveSectionIndexes(null)}
+          components={parsed.components}
+          options={parsed.components.flatMap((comp, index) =>
+            readSavedSectionReference(comp)
+              ? []
+              : [{
+                  index,
+                  label: componentSchemas[comp.type]?.label || comp.type,
+                  detail: comp.props["headline"] || comp.props["button-text"] || undefined,
+                }],
+          )}
+          initialIndexes={saveSectionIndexes ?? []}
+          sections={savedSections.filter((section) => !section.accountKey || section.accountKey === effectiveAccountKey)}
+          accountKey={effectiveAccountKey || null}
+          onSaved={handleSectionSaved}
+        />
+      )}
 
-              <div className="flex-1 min-h-0 overflow-y-auto p-4">
-                {!selectedHistoryVersion && (
-                  <div className="h-full flex items-center justify-center text-center">
-                    <p className="text-sm text-[var(--muted-foreground)]">
-                      Select a version to compare against your current editor
-                      content.
-                    </p>
-                  </div>
-                )}
+      {sectionImpact && (
+        <SavedSectionImpactModal
+          open
+          onClose={() => setSectionImpact(null)}
+          sectionId={sectionImpact.id}
+          sectionName={sectionImpact.name}
+        />
+      )}
 
-                {selectedHistoryVersion && (
-                  <div className="space-y-3">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="text-sm font-medium">
-                          Comparing with{" "}
-                          {formatHistoryDate(selectedHistoryVersion.createdAt)}
-                        </p>
-                        {!historyCompareLoading && (
-                          <p className="text-xs text-[var(--muted-foreground)]">
-                            {historyDiff.length} changed line
-                            {historyDiff.length === 1 ? "" : "s"}
-                          </p>
-                        )}
-                      </div>
-                    </div>
+      <TemplateHistoryModal
+        open={showHistory}
+        onClose={() => setShowHistory(false)}
+        design={design}
+        designLabel={designLabel}
+        currentCode={code}
+        previewValues={previewVariableMap}
+        onRestored={handleVersionRestored}
+      />
 
-                    {historyCompareLoading ? (
-                      <p className="text-xs text-[var(--muted-foreground)]">
-                        Loading version...
-                      </p>
-                    ) : historyDiff.length === 0 ? (
-                      <div className="p-4 border border-[var(--border)] rounded-lg bg-[var(--background)]">
-                        <p className="text-sm text-[var(--muted-foreground)]">
-                          No differences from current editor content.
-                        </p>
-                      </div>
-                    ) : (
-                      <div className="border border-[var(--border)] rounded-lg overflow-hidden">
-                        <div className="grid grid-cols-[76px_1fr_1fr] gap-0 text-[10px] uppercase tracking-wider text-[var(--muted-foreground)] bg-[var(--muted)] border-b border-[var(--border)]">
-                          <div className="px-2 py-1.5">Line</div>
-                          <div className="px-2 py-1.5 border-l border-[var(--border)]">
-                            Snapshot
-                          </div>
-                          <div className="px-2 py-1.5 border-l border-[var(--border)]">
-                            Current
-                          </div>
-                        </div>
-                        <div className="max-h-[480px] overflow-auto font-mono text-xs">
-                          {historyDiff.slice(0, 240).map((row) => (
-                            <div
-                              key={`${row.line}-${row.kind}-${row.snapshot}-${row.current}`}
-                              className="grid grid-cols-[76px_1fr_1fr] gap-0 border-b border-[var(--border)] last:border-b-0"
-                            >
-                              <div className="px-2 py-1.5 text-[10px] text-[var(--muted-foreground)] bg-[var(--muted)]/40">
-                                {row.line}
-                              </div>
-                              <div
-                                className={`px-2 py-1.5 border-l border-[var(--border)] whitespace-pre-wrap break-words ${row.kind === "added" ? "bg-transparent" : "bg-red-500/10"}`}
-                              >
-                                {row.snapshot || (
-                                  <span className="opacity-40">
-                                    &lt;empty&gt;
-                                  </span>
-                                )}
-                              </div>
-                              <div
-                                className={`px-2 py-1.5 border-l border-[var(--border)] whitespace-pre-wrap break-words ${row.kind === "removed" ? "bg-transparent" : "bg-green-500/10"}`}
-                              >
-                                {row.current || (
-                                  <span className="opacity-40">
-                                    &lt;empty&gt;
-                                  </span>
-                                )}
-                              </div>
-                            </div>
-                          ))}
-                          {historyDiff.length > 240 && (
-                            <div className="px-3 py-2 text-[10px] text-[var(--muted-foreground)] bg-[var(--muted)]/30">
-                              Showing first 240 changed lines.
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                )}
-              </div>
-            </div>
-          </div>
-        </div>
+      {effectiveAccountKey && (
+        <TemplateProofModal
+          open={showProof}
+          onClose={() => setShowProof(false)}
+          accountKey={effectiveAccountKey}
+          source={code}
+          defaultSubject={parsed?.frontmatter?.title || templateName || ""}
+          contact={
+            selectedPreviewContactId === "__sample__"
+              ? null
+              : selectedPreviewContact
+          }
+        />
       )}
 
       {/* Section Picker Modal */}
@@ -11257,6 +11361,35 @@ export default function TemplateEditorPage() {
               )}
             </div>
             <div className="flex-1 overflow-y-auto p-2">
+              {pickerTag === "all" && savedSections.length > 0 && (
+                <div className="mb-2 pb-2 border-b border-[var(--border)]">
+                  <p className="px-3 pt-1 pb-1.5 text-[10px] font-semibold uppercase tracking-wider text-[var(--muted-foreground)]">
+                    Saved sections
+                  </p>
+                  {savedSections.map((section) => (
+                    <button
+                      key={section.id}
+                      onClick={() => handleInsertSavedSection(section)}
+                      className="w-full flex items-center gap-3 px-3 py-2.5 text-left hover:bg-[var(--muted)] rounded-lg transition-colors"
+                    >
+                      <ComponentIcon
+                        name="RectangleGroupIcon"
+                        className="w-5 h-5 text-[var(--muted-foreground)]"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium truncate">{section.name}</div>
+                        <div className="text-[10px] text-[var(--muted-foreground)] truncate">
+                          v{section.version} · {section.componentTypes
+                            .map((type) => componentSchemas[type]?.label || type)
+                            .join(", ")}
+                          {section.accountKey ? "" : " · shared"}
+                        </div>
+                      </div>
+                      <PlusIcon className="w-4 h-4 text-[var(--muted-foreground)]" />
+                    </button>
+                  ))}
+                </div>
+              )}
               {(() => {
                 const filtered = getAvailableComponents().filter((schema) => {
                   // Only allow one footer per template
@@ -32,14 +32,22 @@ import {
   FolderPlusIcon,
   HomeIcon,
   ChevronRightIcon,
+  ClipboardDocumentCheckIcon,
+  ArrowsRightLeftIcon,
 } from '@heroicons/react/24/outline';
 import { toast } from '@/lib/toast';
+import {
+  TEMPLATE_REVIEW_STATUS_COLORS,
+  TEMPLATE_REVIEW_STATUS_LABELS,
+  normalizeTemplateReviewStatus,
+} from '@/lib/template-review-status';
 import { useAccount, type AccountData } from '@/contexts/account-context';
 import { useLoomiDialog } from '@/contexts/loomi-dialog-context';
 import { AccountAvatar } from '@/components/account-avatar';
 import BulkActionDock from '@/components/bulk-action-dock';
 import { LibraryPickerContent } from '@/components/library-picker-content';
 import PrimaryButton from '@/components/primary-button';
+import { TemplateDriftModal } from '@/components/template-drift-modal';
 import { getStarterTemplate } from '@/lib/template-starters';
 
 // ── Types ──
@@ -56,6 +64,9 @@ interface EspTemplateRecord {
   html: string;
   source?: string | null;
   status: string;
+  reviewStatus?: string;
+  /** Set while a published copy has been edited directly in the ESP. */
+  driftDetectedAt?: string | null;
   editorType: string | null;
   thumbnailUrl: string | null;
   lastSyncedAt: string | null;
@@ -233,6 +244,10 @@ const PROVIDER_META: Record<string, ProviderInfo> = {
     displayName: 'Klaviyo',
     iconSrc: 'https://storage.googleapis.com/msgsndr/CVpny6EUSHRxlXfqAFb7/media/6992d3ac3b3cc9155bdaf06e.png',
   },
+  mailchimp: {
+    id: 'mailchimp',
+    displayName: 'Mailchimp',
+  },
 };
 
 function providerLabel(provider: string): string {
@@ -392,6 +407,8 @@ interface TemplateCardProps {
   onPreview: (t: EspTemplateRecord) => void;
   onEdit: (t: Pick<EspTemplateRecord, 'id' | 'editorType'>) => void;
   onRename: (t: EspTemplateRecord) => void;
+  onReview: (t: EspTemplateRecord) => void;
+  onCompare: (t: EspTemplateRecord) => void;
   onMove: (t: EspTemplateRecord) => void;
   onClone: (t: EspTemplateRecord) => void;
   onDownloadScreenshot: (t: EspTemplateRecord) => void;
@@ -412,6 +429,8 @@ function TemplateCard({
   onPreview,
   onEdit,
   onRename,
+  onReview,
+  onCompare,
   onMove,
   onClone,
   onDownloadScreenshot,
@@ -420,6 +439,7 @@ function TemplateCard({
 }: TemplateCardProps) {
   const normStatus = displayStatus(t.status);
   const sc = statusColors[normStatus];
+  const reviewStatus = normalizeTemplateReviewStatus(t.reviewStatus);
   const templateTypeLabel = getTemplateTypeLabel(t);
   const previewHtml = getLatestRenderableHtml(t);
   const hasLiveHtmlPreview = previewHtml.length > 0;
@@ -505,6 +525,20 @@ function TemplateCard({
                   >
                     <PencilIcon className="w-4 h-4" /> Rename
                   </button>
+                  <button
+                    onClick={() => { onMenuToggle(null); onReview(t); }}
+                    className="w-full flex items-center gap-2 px-3 py-2 text-sm text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors"
+                  >
+                    <ClipboardDocumentCheckIcon className="w-4 h-4" /> Review
+                  </button>
+                  {isPublishedToEsp(t) && (
+                    <button
+                      onClick={() => { onMenuToggle(null); onCompare(t); }}
+                      className="w-full flex items-center gap-2 px-3 py-2 text-sm text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors"
+                    >
+                      <ArrowsRightLeftIcon className="w-4 h-4" /> Compare with ESP
+                    </button>
+                  )}
                   {canMove && (
                     <button
                       onClick={() => { onMenuToggle(null); onMove(t); }}
@@ -558,6 +592,23 @@ function TemplateCard({
           >
             {normStatus}
           </span>
+          {reviewStatus !== 'draft' && (
+            <span
+              className="text-[10px] font-medium uppercase tracking-wider px-2 py-0.5 rounded-full truncate"
+              style={{ backgroundColor: TEMPLATE_REVIEW_STATUS_COLORS[reviewStatus].bg, color: TEMPLATE_REVIEW_STATUS_COLORS[reviewStatus].text }}
+            >
+              {TEMPLATE_REVIEW_STATUS_LABELS[reviewStatus]}
+            </span>
+          )}
+          {t.driftDetectedAt && (
+            <button
+              onClick={(e) => { e.stopPropagation(); if (!selectMode) onCompare(t); }}
+              className="text-[10px] font-medium uppercase tracking-wider px-2 py-0.5 rounded-full truncate bg-amber-500/10 text-amber-300 hover:bg-amber-500/20 transition-colors"
+              title="A published copy was edited in the ESP — compare before publishing"
+            >
+              Edited in ESP
+            </button>
+          )}
           {t.remoteId && (
             <ArrowUpTrayIcon className="w-3 h-3 text-[var(--muted-foreground)]" title="Published" />
           )}
@@ -581,6 +632,8 @@ interface TemplateRowProps {
   onPreview: (t: EspTemplateRecord) => void;
   onEdit: (t: Pick<EspTemplateRecord, 'id' | 'editorType'>) => void;
   onRename: (t: EspTemplateRecord) => void;
+  onReview: (t: EspTemplateRecord) => void;
+  onCompare: (t: EspTemplateRecord) => void;
   onMove: (t: EspTemplateRecord) => void;
   onClone: (t: EspTemplateRecord) => void;
   onDownloadScreenshot: (t: EspTemplateRecord) => void;
@@ -601,6 +654,8 @@ function TemplateRow({
   onPreview,
   onEdit,
   onRename,
+  onReview,
+  onCompare,
   onMove,
   onClone,
   onDownloadScreenshot,
@@ -609,6 +664,7 @@ function TemplateRow({
 }: TemplateRowProps) {
   const normStatus = displayStatus(t.status);
   const sc = statusColors[normStatus];
+  const reviewStatus = normalizeTemplateReviewStatus(t.reviewStatus);
   const templateTypeLabel = getTemplateTypeLabel(t);
 
   return (
@@ -666,6 +722,23 @@ function TemplateRow({
       >
         {normStatus}
       </span>
+      {reviewStatus !== 'draft' && (
+        <span
+          className="text-[10px] font-medium uppercase tracking-wider px-2 py-0.5 rounded-full flex-shrink-0"
+          style={{ backgroundColor: TEMPLATE_REVIEW_STATUS_COLORS[reviewStatus].bg, color: TEMPLATE_REVIEW_STATUS_COLORS[reviewStatus].text }}
+        >
+          {TEMPLATE_REVIEW_STATUS_LABELS[reviewStatus]}
+        </span>
+      )}
+      {t.driftDetectedAt && (
+        <button
+          onClick={(e) => { e.stopPropagation(); if (!selectMode) onCompare(t); }}
+          className="text-[10px] font-medium uppercase tracking-wider px-2 py-0.5 rounded-full flex-shrink-0 bg-amber-500/10 text-amber-300 hover:bg-amber-500/20 transition-colors"
+          title="A published copy was edited in the ESP — compare before publishing"
+        >
+          Edited in ESP
+        </button>
+      )}
       {t.remoteId && (
         <ArrowUpTrayIcon className="w-3.5 h-3.5 text-[var(--muted-foreground)] flex-shrink-0" title="Published" />
       )}
@@ -700,6 +773,20 @@ function TemplateRow({
               >
                 <PencilIcon className="w-4 h-4" /> Rename
               </button>
+              <button
+                onClick={() => { onMenuToggle(null); onReview(t); }}
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors"
+              >
+                <ClipboardDocumentCheckIcon className="w-4 h-4" /> Review
+              </button>
+              {isPublishedToEsp(t) && (
+                <button
+                  onClick={() => { onMenuToggle(null); onCompare(t); }}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-sm text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors"
+                >
+                  <ArrowsRightLeftIcon className="w-4 h-4" /> Compare with ESP
+                </button>
+              )}
               {canMove && (
                 <button
                   onClick={() => { onMenuToggle(null); onMove(t); }}
@@ -1041,6 +1128,8 @@ interface TemplateListViewProps {
   onPreview: (t: EspTemplateRecord) => void;
   onEdit: (t: Pick<EspTemplateRecord, 'id' | 'editorType'>) => void;
   onRename: (t: EspTemplateRecord) => void;
+  onReview: (t: EspTemplateRecord) => void;
+  onCompare: (t: EspTemplateRecord) => void;
   onMove: (t: EspTemplateRecord) => void;
   onClone: (t: EspTemplateRecord) => void;
   onDownloadScreenshot: (t: EspTemplateRecord) => void;
@@ -1066,6 +1155,8 @@ function TemplateListView({
   onPreview,
   onEdit,
   onRename,
+  onReview,
+  onCompare,
   onMove,
   onClone,
   onDownloadScreenshot,
@@ -1127,6 +1218,8 @@ function TemplateListView({
                 onPreview={onPreview}
                 onEdit={onEdit}
                 onRename={onRename}
+                onReview={onReview}
+                onCompare={onCompare}
                 onMove={onMove}
                 onClone={onClone}
                 onDownloadScreenshot={onDownloadScreenshot}
@@ -1152,6 +1245,8 @@ function TemplateListView({
                 onPreview={onPreview}
                 onEdit={onEdit}
                 onRename={onRename}
+                onReview={onReview}
+                onCompare={onCompare}
                 onMove={onMove}
                 onClone={onClone}
                 onDownloadScreenshot={onDownloadScreenshot}
@@ -1188,6 +1283,7 @@ export default function TemplatesPage() {
   const [deleteTemplate, setDeleteTemplate] = useState<EspTemplateRecord | null>(null);
   const [previewTemplate, setPreviewTemplate] = useState<EspTemplateRecord | null>(null);
   const [renameTemplate, setRenameTemplate] = useState<EspTemplateRecord | null>(null);
+  const [compareTemplate, setCompareTemplate] = useState<EspTemplateRecord | null>(null);
   const [renameValue, setRenameValue] = useState('');
   const [cloneTemplate, setCloneTemplate] = useState<EspTemplateRecord | null>(null);
   const [cloneDestination, setCloneDestination] = useState<'loomi' | 'subaccounts' | null>(null);
@@ -2387,6 +2483,8 @@ export default function TemplatesPage() {
     onPreview: setPreviewTemplate,
     onEdit: navigateToEditor,
     onRename: openRenameModal,
+    onReview: (template: EspTemplateRecord) => router.push(subHref(`/templates/review/${template.id}`)),
+    onCompare: setCompareTemplate,
     onMove: (template: EspTemplateRecord) => openMoveTemplatesModal([template.id]),
     onClone: openCloneModal,
     onDownloadScreenshot: handleDownloadScreenshot,
@@ -3251,6 +3349,15 @@ export default function TemplatesPage() {
         </div>
       )}
 
+      {/* ── Compare with ESP Modal ── */}
+      <TemplateDriftModal
+        open={compareTemplate !== null}
+        onClose={() => setCompareTemplate(null)}
+        templateId={compareTemplate?.id ?? ''}
+        templateName={compareTemplate?.name ?? ''}
+        onResolved={() => { loadTemplates(); }}
+      />
+
       {/* ── Rename Modal ── */}
       {renameTemplate && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 animate-overlay-in" onClick={closeRenameModal}>
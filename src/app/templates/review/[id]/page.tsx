@@ -0,0 +1,517 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeftIcon, ChatBubbleLeftRightIcon, CheckCircleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import PrimaryButton from '@/components/primary-button';
+import { useLoomiDialog } from '@/contexts/loomi-dialog-context';
+import { useSubaccountHref } from '@/hooks/use-subaccount-href';
+import { roleDisplayName } from '@/lib/roles';
+import { safeJson } from '@/lib/safe-json';
+import { parseTemplate, type ParsedComponent } from '@/lib/template-parser';
+import {
+  TEMPLATE_REVIEW_STATUS_COLORS,
+  TEMPLATE_REVIEW_STATUS_LABELS,
+  type TemplateReviewAction,
+  type TemplateReviewStatus,
+} from '@/lib/template-review-status';
+import { toast } from '@/lib/toast';
+
+interface ReviewUser {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+}
+
+interface ReviewComment {
+  id: string;
+  parentId: string | null;
+  componentIndex: number | null;
+  componentType: string | null;
+  body: string;
+  authorUserId: string | null;
+  authorName: string;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+interface ReviewState {
+  templateId: string;
+  accountKey: string;
+  name: string;
+  status: TemplateReviewStatus;
+  approvalCurrent: boolean;
+  reviewers: ReviewUser[];
+  requestedAt: string | null;
+  requestedBy: ReviewUser | null;
+  reviewedAt: string | null;
+  reviewedBy: ReviewUser | null;
+  comments: ReviewComment[];
+  permissions: {
+    canSubmit: boolean;
+    canWithdraw: boolean;
+    canDecide: boolean;
+    canAssign: boolean;
+    canOverride: boolean;
+  };
+  reviewerCandidates: ReviewUser[];
+}
+
+interface ReviewTemplate {
+  id: string;
+  name: string;
+  subject: string | null;
+  html: string;
+  source: string | null;
+}
+
+interface Thread {
+  root: ReviewComment;
+  replies: ReviewComment[];
+}
+
+/** `null` anchors the general (whole-template) thread list. */
+type Anchor = number | null;
+
+function formatTimestamp(value: string | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleString();
+}
+
+function componentLabel(component: ParsedComponent): string {
+  const hint = component.props.headline || component.props.title || component.props.heading || component.props.text || '';
+  const clean = hint.replace(/<[^>]+>/g, '').trim();
+  return clean ? `${component.type} · ${clean.length > 40 ? `${clean.slice(0, 40)}…` : clean}` : component.type;
+}
+
+export default function TemplateReviewPage() {
+  const params = useParams();
+  const templateId = params.id as string;
+  const href = useSubaccountHref();
+  const { prompt } = useLoomiDialog();
+
+  const [loading, setLoading] = useState(true);
+  const [template, setTemplate] = useState<ReviewTemplate | null>(null);
+  const [review, setReview] = useState<ReviewState | null>(null);
+  const [acting, setActing] = useState(false);
+  const [anchor, setAnchor] = useState<Anchor>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [posting, setPosting] = useState(false);
+  const [addingReviewer, setAddingReviewer] = useState('');
+
+  const load = useCallback(async () => {
+    const [templateRes, reviewRes] = await Promise.all([
+      fetch(`/api/esp/templates/${templateId}`),
+      fetch(`/api/esp/templates/${templateId}/review`),
+    ]);
+    const templateData = await safeJson<{ template: ReviewTemplate }>(templateRes);
+    const reviewData = await safeJson<{ review: ReviewState }>(reviewRes);
+    if (!templateData.ok || !reviewData.ok || !templateData.data || !reviewData.data) {
+      throw new Error(reviewData.error || templateData.error || 'Failed to load review');
+    }
+    setTemplate(templateData.data.template);
+    setReview(reviewData.data.review);
+  }, [templateId]);
+
+  useEffect(() => {
+    load()
+      .catch((err) => toast.error(err instanceof Error ? err.message : 'Failed to load review'))
+      .finally(() => setLoading(false));
+  }, [load]);
+
+  const components = useMemo(() => {
+    if (!template?.source) return [];
+    try {
+      return parseTemplate(template.source).components;
+    } catch {
+      return [];
+    }
+  }, [template?.source]);
+
+  const threads = useMemo(() => {
+    const byRoot = new Map<string, Thread>();
+    for (const comment of review?.comments ?? []) {
+      if (!comment.parentId) byRoot.set(comment.id, { root: comment, replies: [] });
+    }
+    for (const comment of review?.comments ?? []) {
+      if (comment.parentId) byRoot.get(comment.parentId)?.replies.push(comment);
+    }
+    return [...byRoot.values()];
+  }, [review?.comments]);
+
+  const openCountByAnchor = useMemo(() => {
+    const counts = new Map<Anchor, number>();
+    for (const { root } of threads) {
+      if (root.resolvedAt) continue;
+      counts.set(root.componentIndex, (counts.get(root.componentIndex) ?? 0) + 1);
+    }
+    return counts;
+  }, [threads]);
+
+  const visibleThreads = threads.filter(({ root }) =>
+    root.componentIndex === anchor && (showResolved || !root.resolvedAt),
+  );
+  const resolvedHidden = threads.filter(({ root }) => root.componentIndex === anchor && root.resolvedAt).length;
+
+  const runAction = async (action: TemplateReviewAction) => {
+    let note: string | null = null;
+    if (action === 'request_changes') {
+      note = await prompt({
+        title: 'Request changes',
+        message: 'Describe what needs to change. The note is added to the general thread.',
+        placeholder: 'e.g. Swap the hero image for the spring lineup',
+        confirmLabel: 'Request Changes',
+        required: true,
+        multiline: true,
+      });
+      if (!note?.trim()) return;
+    } else if (action === 'approve') {
+      note = await prompt({
+        title: 'Approve template',
+        message: 'Approve this version for publishing. Optionally leave a note.',
+        placeholder: 'Optional note',
+        confirmLabel: 'Approve',
+        multiline: true,
+      });
+      if (note === null) return;
+    }
+
+    setActing(true);
+    try {
+      const res = await fetch(`/api/esp/templates/${templateId}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, note: note || undefined }),
+      });
+      const { ok, data, error } = await safeJson<{ review: ReviewState }>(res);
+      if (!ok || !data) throw new Error(error || 'Failed to update review');
+      setReview(data.review);
+      toast.success(`Template ${TEMPLATE_REVIEW_STATUS_LABELS[data.review.status].toLowerCase()}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update review');
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const saveReviewers = async (reviewerUserIds: string[]) => {
+    try {
+      const res = await fetch(`/api/esp/templates/${templateId}/review`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reviewerUserIds }),
+      });
+      const { ok, data, error } = await safeJson<{ review: ReviewState }>(res);
+      if (!ok || !data) throw new Error(error || 'Failed to update reviewers');
+      setReview(data.review);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update reviewers');
+    }
+  };
+
+  const postComment = async (body: string, parentId?: string) => {
+    const text = body.trim();
+    if (!text) return;
+    const component = anchor !== null ? components[anchor] : undefined;
+    setPosting(true);
+    try {
+      const res = await fetch(`/api/esp/templates/${templateId}/review/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(parentId
+          ? { body: text, parentId }
+          : { body: text, componentIndex: anchor, componentType: component?.type }),
+      });
+      const { ok, data, error } = await safeJson<{ comment: ReviewComment }>(res);
+      if (!ok || !data) throw new Error(error || 'Failed to post comment');
+      setReview((prev) => prev ? { ...prev, comments: [...prev.comments, data.comment] } : prev);
+      if (parentId) {
+        setReplyDrafts((prev) => ({ ...prev, [parentId]: '' }));
+      } else {
+        setDraft('');
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to post comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const setResolved = async (commentId: string, resolved: boolean) => {
+    try {
+      const res = await fetch(`/api/esp/templates/${templateId}/review/comments/${commentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolved }),
+      });
+      const { ok, data, error } = await safeJson<{ comment: ReviewComment }>(res);
+      if (!ok || !data) throw new Error(error || 'Failed to update thread');
+      setReview((prev) => prev
+        ? { ...prev, comments: prev.comments.map((comment) => comment.id === commentId ? data.comment : comment) }
+        : prev);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update thread');
+    }
+  };
+
+  if (loading) {
+    return <div className="text-[var(--muted-foreground)]">Loading...</div>;
+  }
+
+  if (!template || !review) {
+    return (
+      <div className="text-center py-16">
+        <p className="text-[var(--muted-foreground)]">Template not found</p>
+        <Link href={href('/templates')} className="text-sm text-[var(--primary)] mt-2 inline-block hover:underline">
+          Back to Templates
+        </Link>
+      </div>
+    );
+  }
+
+  const statusColor = TEMPLATE_REVIEW_STATUS_COLORS[review.status];
+  const { permissions } = review;
+  const availableCandidates = review.reviewerCandidates.filter(
+    (candidate) => !review.reviewers.some((reviewer) => reviewer.id === candidate.id),
+  );
+  const sectionHeadingClass = 'text-sm font-semibold text-[var(--muted-foreground)] uppercase tracking-wider mb-3';
+  const secondaryButtonClass = 'px-3.5 py-2 border border-[var(--border)] rounded-lg text-sm font-medium text-[var(--foreground)] hover:bg-[var(--muted)] disabled:opacity-50 transition-colors';
+  const inputClass = 'w-full px-3 py-2 text-sm rounded-lg border border-[var(--border)] bg-[var(--card)] focus:outline-none focus:border-[var(--primary)]';
+
+  const renderComment = (comment: ReviewComment) => (
+    <div key={comment.id} className="text-sm">
+      <div className="flex items-baseline gap-2">
+        <span className="font-medium">{comment.authorName}</span>
+        <span className="text-[10px] text-[var(--muted-foreground)]">{formatTimestamp(comment.createdAt)}</span>
+      </div>
+      <p className="whitespace-pre-wrap text-[var(--foreground)]/90">{comment.body}</p>
+    </div>
+  );
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="page-sticky-header flex items-center gap-3 mb-6">
+        <Link
+          href={href('/templates')}
+          className="p-1.5 rounded-lg text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors"
+        >
+          <ArrowLeftIcon className="w-4 h-4" />
+        </Link>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <h2 className="text-2xl font-bold truncate">{review.name}</h2>
+            <span
+              className="text-[10px] font-semibold uppercase tracking-wider rounded px-1.5 py-0.5"
+              style={{ backgroundColor: statusColor.bg, color: statusColor.text }}
+            >
+              {TEMPLATE_REVIEW_STATUS_LABELS[review.status]}
+            </span>
+          </div>
+          <p className="text-xs text-[var(--muted-foreground)] truncate">
+            {review.requestedBy && `Submitted by ${review.requestedBy.name} ${formatTimestamp(review.requestedAt)}`}
+            {review.reviewedBy && ` · ${review.status === 'changes_requested' ? 'Changes requested' : 'Approved'} by ${review.reviewedBy.name} ${formatTimestamp(review.reviewedAt)}`}
+            {!review.requestedBy && (template.subject || 'Not yet submitted for review')}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {permissions.canWithdraw && (
+            <button onClick={() => runAction('withdraw')} disabled={acting} className={secondaryButtonClass}>
+              Withdraw
+            </button>
+          )}
+          {permissions.canDecide && (
+            <button onClick={() => runAction('request_changes')} disabled={acting} className={secondaryButtonClass}>
+              Request Changes
+            </button>
+          )}
+          {permissions.canDecide && (
+            <PrimaryButton onClick={() => runAction('approve')} disabled={acting}>
+              <CheckCircleIcon className="w-4 h-4" />
+              Approve
+            </PrimaryButton>
+          )}
+          {permissions.canSubmit && (
+            <PrimaryButton onClick={() => runAction('submit')} disabled={acting}>
+              {review.status === 'changes_requested' ? 'Resubmit for Review' : 'Submit for Review'}
+            </PrimaryButton>
+          )}
+        </div>
+      </div>
+
+      {(review.status === 'approved' || review.status === 'published') && !review.approvalCurrent && (
+        <div className="mb-4 rounded-lg border border-amber-500/30 bg-amber-500/10 px-4 py-2 text-sm text-amber-400">
+          This template changed after it was approved. It must be reviewed again before it can be published.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 xl:grid-cols-[minmax(0,1fr)_420px] gap-6">
+        {/* Preview */}
+        <section className="glass-section-card rounded-xl p-3">
+          <iframe
+            title="Template preview"
+            srcDoc={template.html}
+            sandbox=""
+            className="w-full h-[75vh] rounded-lg bg-white"
+          />
+        </section>
+
+        <div className="space-y-6">
+          {/* Reviewers */}
+          <section className="glass-section-card rounded-xl p-5">
+            <h3 className={sectionHeadingClass}>Reviewers</h3>
+            {review.reviewers.length === 0 ? (
+              <p className="text-sm text-[var(--muted-foreground)]">
+                No reviewers assigned — any client user on this account can approve.
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {review.reviewers.map((reviewer) => (
+                  <span
+                    key={reviewer.id}
+                    className="inline-flex items-center gap-1.5 rounded-full border border-[var(--border)] px-2.5 py-1 text-xs"
+                    title={reviewer.email}
+                  >
+                    {reviewer.name}
+                    <span className="text-[var(--muted-foreground)]">{roleDisplayName(reviewer.role)}</span>
+                    {permissions.canAssign && (
+                      <button
+                        onClick={() => saveReviewers(review.reviewers.filter((r) => r.id !== reviewer.id).map((r) => r.id))}
+                        className="text-[var(--muted-foreground)] hover:text-[var(--foreground)]"
+                        aria-label={`Remove ${reviewer.name}`}
+                      >
+                        <XMarkIcon className="w-3 h-3" />
+                      </button>
+                    )}
+                  </span>
+                ))}
+              </div>
+            )}
+            {permissions.canAssign && availableCandidates.length > 0 && (
+              <select
+                value={addingReviewer}
+                onChange={(e) => {
+                  const userId = e.target.value;
+                  setAddingReviewer('');
+                  if (userId) saveReviewers([...review.reviewers.map((r) => r.id), userId]);
+                }}
+                className={`${inputClass} mt-3`}
+              >
+                <option value="">Add reviewer…</option>
+                {availableCandidates.map((candidate) => (
+                  <option key={candidate.id} value={candidate.id}>
+                    {candidate.name} ({roleDisplayName(candidate.role)})
+                  </option>
+                ))}
+              </select>
+            )}
+          </section>
+
+          {/* Comments */}
+          <section className="glass-section-card rounded-xl p-5">
+            <h3 className={sectionHeadingClass}>Comments</h3>
+            <div className="flex flex-wrap gap-1.5 mb-4">
+              {[null, ...components.map((_, index) => index)].map((target) => {
+                const count = openCountByAnchor.get(target) ?? 0;
+                const active = anchor === target;
+                return (
+                  <button
+                    key={target ?? 'general'}
+                    onClick={() => setAnchor(target)}
+                    className={`inline-flex items-center gap-1 rounded-md px-2 py-1 text-xs border transition-colors ${
+                      active
+                        ? 'border-[var(--primary)] text-[var(--primary)] bg-[var(--primary)]/10'
+                        : 'border-[var(--border)] text-[var(--muted-foreground)] hover:text-[var(--foreground)]'
+                    }`}
+                    title={target === null ? 'Comments about the whole template' : componentLabel(components[target])}
+                  >
+                    {target === null ? 'General' : `${target + 1}. ${components[target].type}`}
+                    {count > 0 && (
+                      <span className="inline-flex items-center gap-0.5 text-[10px]">
+                        <ChatBubbleLeftRightIcon className="w-3 h-3" />
+                        {count}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+
+            {anchor !== null && components[anchor] && (
+              <p className="text-xs text-[var(--muted-foreground)] mb-3">
+                Commenting on component {anchor + 1}: {componentLabel(components[anchor])}
+              </p>
+            )}
+
+            <div className="space-y-3">
+              {visibleThreads.length === 0 && (
+                <p className="text-sm text-[var(--muted-foreground)]">No open threads here.</p>
+              )}
+              {visibleThreads.map(({ root, replies }) => (
+                <div
+                  key={root.id}
+                  className={`rounded-lg border border-[var(--border)] p-3 space-y-2 ${root.resolvedAt ? 'opacity-60' : ''}`}
+                >
+                  {renderComment(root)}
+                  {replies.length > 0 && (
+                    <div className="pl-3 border-l border-[var(--border)] space-y-2">
+                      {replies.map(renderComment)}
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={replyDrafts[root.id] ?? ''}
+                      onChange={(e) => setReplyDrafts((prev) => ({ ...prev, [root.id]: e.target.value }))}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          postComment(replyDrafts[root.id] ?? '', root.id);
+                        }
+                      }}
+                      placeholder="Reply…"
+                      className={`${inputClass} py-1.5 text-xs`}
+                    />
+                    <button
+                      onClick={() => setResolved(root.id, !root.resolvedAt)}
+                      className="shrink-0 text-xs text-[var(--muted-foreground)] hover:text-[var(--foreground)]"
+                    >
+                      {root.resolvedAt ? 'Reopen' : 'Resolve'}
+                    </button>
+                  </div>
+                </div>
+              ))}
+              {resolvedHidden > 0 && (
+                <button
+                  onClick={() => setShowResolved((prev) => !prev)}
+                  className="text-xs text-[var(--primary)] hover:underline"
+                >
+                  {showResolved ? 'Hide resolved' : `Show ${resolvedHidden} resolved`}
+                </button>
+              )}
+            </div>
+
+            <div className="mt-4 space-y-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={3}
+                placeholder={anchor === null ? 'Comment on the whole template…' : 'Comment on this component…'}
+                className={inputClass}
+              />
+              <div className="flex justify-end">
+                <PrimaryButton onClick={() => postComment(draft)} disabled={posting || !draft.trim()}>
+                  {posting ? 'Posting...' : 'Comment'}
+                </PrimaryButton>
+              </div>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -47,6 +47,12 @@ function toCamelCaseSlug(name: string): string {
     .join('');
 }
 
+const HEALTH_DOT_CLASSES: Record<'healthy' | 'degraded' | 'failing', string> = {
+  healthy: 'bg-green-500',
+  degraded: 'bg-amber-400',
+  failing: 'bg-red-500',
+};
+
 function normalizeConnectedProviders(account: AccountData): string[] {
   if (Array.isArray(account.connectedProviders) && account.connectedProviders.length > 0) {
     return [...new Set(
@@ -606,19 +612,29 @@ export function AccountsList({
 
                           return connectedProviders.map((provider) => {
                             const icon = providerIcon(provider);
+                            const health = account.connectionHealth?.find((check) => check.provider === provider);
+                            const title = health && health.status !== 'healthy'
+                              ? `${providerDisplayName(provider)} — ${health.issues.join('; ') || health.status}`
+                              : `${providerDisplayName(provider)} — Click to manage`;
+                            const healthDot = health ? (
+                              <span
+                                className={`absolute -top-0.5 -right-0.5 w-2 h-2 rounded-full ring-1 ring-[var(--background)] ${HEALTH_DOT_CLASSES[health.status]}`}
+                              />
+                            ) : null;
                             if (icon) {
                               return (
                                 <button
                                   key={provider}
                                   onClick={(e) => { e.stopPropagation(); router.push(`${detailBasePath}/${key}?tab=integration`); }}
-                                  className="w-6 h-6 rounded-full bg-white border border-[var(--border)] flex items-center justify-center flex-shrink-0 overflow-hidden hover:ring-2 hover:ring-[var(--primary)]/40 transition-shadow"
-                                  title={`${providerDisplayName(provider)} — Click to manage`}
+                                  className="relative w-6 h-6 rounded-full bg-white border border-[var(--border)] flex items-center justify-center flex-shrink-0 hover:ring-2 hover:ring-[var(--primary)]/40 transition-shadow"
+                                  title={title}
                                 >
                                   <img
                                     src={icon.src}
                                     alt={icon.alt}
                                     className="w-4 h-4 object-contain"
                                   />
+                                  {healthDot}
                                 </button>
                               );
                             }
@@ -627,10 +643,11 @@ export function AccountsList({
                               <button
                                 key={provider}
                                 onClick={(e) => { e.stopPropagation(); router.push(`${detailBasePath}/${key}?tab=integration`); }}
-                                className="h-6 min-w-6 px-1 rounded-full bg-[var(--muted)] border border-[var(--border)] text-[10px] font-semibold uppercase text-[var(--muted-foreground)] hover:ring-2 hover:ring-[var(--primary)]/40 transition-shadow"
-                                title={`${providerDisplayName(provider)} — Click to manage`}
+                                className="relative h-6 min-w-6 px-1 rounded-full bg-[var(--muted)] border border-[var(--border)] text-[10px] font-semibold uppercase text-[var(--muted-foreground)] hover:ring-2 hover:ring-[var(--primary)]/40 transition-shadow"
+                                title={title}
                               >
                                 {provider.slice(0, 2)}
+                                {healthDot}
                               </button>
                             );
                           });
@@ -0,0 +1,315 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ClipboardDocumentIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import PrimaryButton from '@/components/primary-button';
+import { useAccount } from '@/contexts/account-context';
+import { useLoomiDialog } from '@/contexts/loomi-dialog-context';
+import { safeJson } from '@/lib/safe-json';
+import { toast } from '@/lib/toast';
+import {
+  API_TOKEN_EXPIRY_OPTIONS,
+  API_TOKEN_SCOPES,
+  API_TOKEN_SCOPE_LABELS,
+  type ApiTokenScope,
+} from '@/lib/api-token-scopes';
+
+interface ApiTokenRow {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  accountKeys: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+function formatDate(value: string | null): string {
+  if (!value) return '—';
+  return new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function tokenState(token: ApiTokenRow): { label: string; className: string } {
+  if (token.revokedAt) return { label: 'Revoked', className: 'text-red-300 bg-red-500/10' };
+  if (token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now()) {
+    return { label: 'Expired', className: 'text-amber-300 bg-amber-500/10' };
+  }
+  return { label: 'Active', className: 'text-emerald-300 bg-emerald-500/10' };
+}
+
+export function ApiTokensPanel() {
+  const { accounts, accountsLoaded } = useAccount();
+  const { confirm } = useLoomiDialog();
+  const [tokens, setTokens] = useState<ApiTokenRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['accounts:read']);
+  const [accountKeys, setAccountKeys] = useState<string[]>([]);
+  const [expiryDays, setExpiryDays] = useState<number | null>(90);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const accountOptions = useMemo(
+    () => Object.entries(accounts)
+      .map(([key, account]) => ({ key, label: account.dealer || key }))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+    [accounts],
+  );
+
+  const loadTokens = useCallback(async () => {
+    const res = await fetch('/api/users/me/tokens');
+    const { ok, data, error } = await safeJson<{ tokens: ApiTokenRow[] }>(res);
+    if (!ok || !data) {
+      toast.error(error || 'Could not load API tokens');
+    } else {
+      setTokens(data.tokens);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  function toggleScope(scope: ApiTokenScope) {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((value) => value !== scope) : [...prev, scope]));
+  }
+
+  function toggleAccount(key: string) {
+    setAccountKeys((prev) => (prev.includes(key) ? prev.filter((value) => value !== key) : [...prev, key]));
+  }
+
+  function resetForm() {
+    setShowForm(false);
+    setName('');
+    setScopes(['accounts:read']);
+    setAccountKeys([]);
+    setExpiryDays(90);
+  }
+
+  async function createToken() {
+    if (!name.trim()) {
+      toast.error('Token name is required');
+      return;
+    }
+    setCreating(true);
+    try {
+      const res = await fetch('/api/users/me/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), scopes, accountKeys, expiresInDays: expiryDays }),
+      });
+      const { ok, data, error } = await safeJson<{ token: string; apiToken: ApiTokenRow }>(res);
+      if (!ok || !data) throw new Error(error || 'Could not create token');
+
+      setCreatedToken(data.token);
+      setTokens((prev) => [data.apiToken, ...prev]);
+      resetForm();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not create token');
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function revokeToken(token: ApiTokenRow) {
+    const confirmed = await confirm({
+      title: 'Revoke Token',
+      message: `Revoke "${token.name}"? Integrations using it will stop working immediately.`,
+      confirmLabel: 'Revoke',
+      destructive: true,
+    });
+    if (!confirmed) return;
+
+    const res = await fetch(`/api/users/me/tokens/${encodeURIComponent(token.id)}`, { method: 'DELETE' });
+    const { ok, error } = await safeJson(res);
+    if (!ok) {
+      toast.error(error || 'Could not revoke token');
+      return;
+    }
+    toast.success('Token revoked');
+    await loadTokens();
+  }
+
+  async function copyToken() {
+    if (!createdToken) return;
+    try {
+      await navigator.clipboard.writeText(createdToken);
+      toast.success('Token copied');
+    } catch {
+      toast.error('Could not copy token');
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <div>
+          <p className="text-xs font-medium uppercase tracking-wider text-[var(--muted-foreground)]">API Tokens</p>
+          <p className="text-[11px] text-[var(--muted-foreground)] mt-0.5">
+            Personal access tokens for the <code className="font-mono">/api/v1</code> REST API. They act with your permissions.
+          </p>
+        </div>
+        {!showForm && (
+          <button
+            type="button"
+            onClick={() => { setShowForm(true); setCreatedToken(null); }}
+            className="inline-flex items-center gap-1 px-2.5 py-1.5 text-[11px] rounded-lg border border-[var(--border)] text-[var(--muted-foreground)] hover:text-[var(--foreground)]"
+          >
+            <PlusIcon className="w-3.5 h-3.5" />
+            New Token
+          </button>
+        )}
+      </div>
+
+      {createdToken && (
+        <div className="mb-3 p-3 rounded-lg border border-emerald-500/30 bg-emerald-500/5">
+          <p className="text-[11px] text-emerald-300 mb-1.5">Copy this token now — it won&apos;t be shown again.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 px-2 py-1.5 text-xs font-mono rounded-lg bg-[var(--input)] border border-[var(--border)] break-all">
+              {createdToken}
+            </code>
+            <button
+              type="button"
+              onClick={copyToken}
+              className="p-1.5 rounded-lg text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--muted)]"
+              title="Copy token"
+              aria-label="Copy token"
+            >
+              <ClipboardDocumentIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <div className="mb-3 p-3 rounded-lg border border-[var(--border)] space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="block">
+              <span className="text-[11px] text-[var(--muted-foreground)]">Name</span>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Reporting sync"
+                className="mt-0.5 w-full h-8 px-2 text-sm rounded-lg border border-[var(--border)] bg-[var(--input)]"
+              />
+            </label>
+            <label className="block">
+              <span className="text-[11px] text-[var(--muted-foreground)]">Expires</span>
+              <select
+                value={expiryDays === null ? '' : String(expiryDays)}
+                onChange={(e) => setExpiryDays(e.target.value ? Number(e.target.value) : null)}
+                className="mt-0.5 w-full h-8 px-2 text-sm rounded-lg border border-[var(--border)] bg-[var(--input)]"
+              >
+                {API_TOKEN_EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.label} value={option.days === null ? '' : String(option.days)}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div>
+            <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)] mb-1.5">Scopes</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-1.5">
+              {API_TOKEN_SCOPES.map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-xs cursor-pointer">
+                  <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+                  <span className="font-mono text-[11px]">{scope}</span>
+                  <span className="text-[var(--muted-foreground)]">{API_TOKEN_SCOPE_LABELS[scope]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)] mb-1.5">
+              Accounts <span className="normal-case tracking-normal">(none selected = all accounts you can access)</span>
+            </p>
+            {!accountsLoaded ? (
+              <p className="text-[11px] text-[var(--muted-foreground)]">Loading accounts...</p>
+            ) : (
+              <div className="max-h-36 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 gap-1.5">
+                {accountOptions.map((account) => (
+                  <label key={account.key} className="flex items-center gap-2 text-xs cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={accountKeys.includes(account.key)}
+                      onChange={() => toggleAccount(account.key)}
+                    />
+                    {account.label}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end gap-2">
+            <button
+              type="button"
+              onClick={resetForm}
+              disabled={creating}
+              className="px-2.5 py-1.5 text-[11px] rounded-lg border border-[var(--border)] text-[var(--muted-foreground)] hover:text-[var(--foreground)] disabled:opacity-60"
+            >
+              Cancel
+            </button>
+            <PrimaryButton type="button" onClick={createToken} disabled={creating || scopes.length === 0}>
+              {creating ? 'Creating...' : 'Create Token'}
+            </PrimaryButton>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-[var(--muted-foreground)]">Loading tokens...</p>
+      ) : tokens.length === 0 ? (
+        <p className="text-sm text-[var(--muted-foreground)]">No API tokens yet.</p>
+      ) : (
+        <div className="divide-y divide-[var(--border)] rounded-lg border border-[var(--border)]">
+          {tokens.map((token) => {
+            const state = tokenState(token);
+            return (
+              <div key={token.id} className="px-3 py-2.5 flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium truncate">{token.name}</p>
+                    <span className={`px-1.5 py-0.5 text-[10px] rounded ${state.className}`}>{state.label}</span>
+                  </div>
+                  <p className="text-[11px] text-[var(--muted-foreground)] font-mono mt-0.5">{token.tokenPrefix}…</p>
+                  <p className="text-[11px] text-[var(--muted-foreground)] mt-0.5">
+                    {token.scopes.join(', ')}
+                    {' · '}
+                    {token.accountKeys.length === 0
+                      ? 'All accessible accounts'
+                      : token.accountKeys.map((key) => accounts[key]?.dealer || key).join(', ')}
+                  </p>
+                  <p className="text-[11px] text-[var(--muted-foreground)] mt-0.5">
+                    Created {formatDate(token.createdAt)}
+                    {' · '}Expires {token.expiresAt ? formatDate(token.expiresAt) : 'never'}
+                    {' · '}Last used {token.lastUsedAt ? `${formatDate(token.lastUsedAt)}${token.lastUsedIp ? ` from ${token.lastUsedIp}` : ''}` : 'never'}
+                  </p>
+                </div>
+                {!token.revokedAt && (
+                  <button
+                    type="button"
+                    onClick={() => revokeToken(token)}
+                    className="inline-flex items-center gap-1 px-2.5 py-1.5 text-[11px] rounded-lg border border-red-500/30 text-red-300 hover:bg-red-500/10 flex-shrink-0"
+                  >
+                    <TrashIcon className="w-3.5 h-3.5" />
+                    Revoke
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { safeJson } from '@/lib/safe-json';
+import { themeTokenReference, type ThemeTokenKind } from '@/lib/theme-tokens';
+
+interface BrandTokenStatus {
+  key: string;
+  label: string;
+  kind: ThemeTokenKind;
+  value: string | null;
+  resolved: string;
+}
+
+interface BrandCompleteness {
+  complete: boolean;
+  tokens: BrandTokenStatus[];
+  missing: string[];
+  templates: Array<{ id: string; name: string; missingTokens: string[] }>;
+}
+
+interface BrandKitCompletenessPanelProps {
+  accountKey: string;
+  /** Changes when the account's saved branding changes, so the check is re-run. */
+  brandingVersion?: string;
+}
+
+/**
+ * Which theme tokens the account's brand kit fills in and which fall back to
+ * the default theme, with the account's templates that are affected.
+ */
+export function BrandKitCompletenessPanel({ accountKey, brandingVersion }: BrandKitCompletenessPanelProps) {
+  const [completeness, setCompleteness] = useState<BrandCompleteness | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!accountKey) return;
+    setLoading(true);
+    fetch(`/api/accounts/${encodeURIComponent(accountKey)}/brand-kit`)
+      .then((res) => safeJson<BrandCompleteness>(res))
+      .then(({ ok, data, error }) => {
+        if (!ok || !data) throw new Error(error || 'Failed to check brand kit');
+        setCompleteness(data);
+        setLoadError(null);
+      })
+      .catch((err) => setLoadError(err instanceof Error ? err.message : 'Failed to check brand kit'))
+      .finally(() => setLoading(false));
+  }, [accountKey, brandingVersion]);
+
+  return (
+    <section className="glass-section-card rounded-xl p-6 lg:col-span-2">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-xs font-semibold text-[var(--muted-foreground)] uppercase tracking-wider">
+            Brand Kit Completeness
+          </h3>
+          <p className="text-[11px] text-[var(--muted-foreground)] mt-1">
+            Templates reference these as theme tokens. Missing values render with the default theme.
+          </p>
+        </div>
+        {completeness && (
+          <span
+            className={`flex items-center gap-1 text-[11px] font-medium px-2 py-0.5 rounded-full flex-shrink-0 ${
+              completeness.complete ? 'text-emerald-300 bg-emerald-500/10' : 'text-amber-300 bg-amber-500/10'
+            }`}
+          >
+            {completeness.complete ? (
+              <CheckCircleIcon className="w-3.5 h-3.5" />
+            ) : (
+              <ExclamationTriangleIcon className="w-3.5 h-3.5" />
+            )}
+            {completeness.complete ? 'Complete' : `${completeness.missing.length} missing`}
+          </span>
+        )}
+      </div>
+
+      {loading && !completeness ? (
+        <p className="text-xs text-[var(--muted-foreground)]">Checking brand kit...</p>
+      ) : loadError ? (
+        <p className="text-xs text-red-400">{loadError}</p>
+      ) : completeness && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+            {completeness.tokens.map((token) => (
+              <div
+                key={token.key}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-xs ${
+                  token.value === null ? 'border-amber-500/30 bg-amber-500/5' : 'border-[var(--border)]'
+                }`}
+              >
+                {token.kind === 'color' ? (
+                  <span
+                    className="w-4 h-4 rounded border border-[var(--border)] flex-shrink-0"
+                    style={{ backgroundColor: token.resolved }}
+                  />
+                ) : token.kind === 'logo' ? (
+                  <img src={token.resolved} alt="" className="w-6 h-4 object-contain flex-shrink-0" />
+                ) : (
+                  <span className="w-4 text-center font-semibold flex-shrink-0" style={{ fontFamily: token.resolved }}>
+                    Aa
+                  </span>
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium truncate">{token.label}</p>
+                  <p className="text-[10px] text-[var(--muted-foreground)] font-mono truncate">
+                    {themeTokenReference(token.key)}
+                  </p>
+                </div>
+                {token.value === null && (
+                  <span className="text-[10px] text-amber-300 flex-shrink-0">Missing</span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {completeness.templates.length > 0 && (
+            <div>
+              <p className="text-[10px] font-semibold uppercase tracking-wider text-[var(--muted-foreground)] mb-2">
+                Templates using missing tokens
+              </p>
+              <div className="space-y-1">
+                {completeness.templates.map((template) => (
+                  <Link
+                    key={template.id}
+                    href={`/templates/editor?id=${encodeURIComponent(template.id)}`}
+                    className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg border border-[var(--border)] hover:bg-[var(--muted)] text-xs"
+                  >
+                    <span className="font-medium truncate">{template.name}</span>
+                    <span className="text-[10px] text-[var(--muted-foreground)] font-mono truncate">
+                      {template.missingTokens.map(themeTokenReference).join(', ')}
+                    </span>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
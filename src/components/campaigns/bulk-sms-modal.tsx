@@ -1,7 +1,8 @@
 'use client';
 
 import { useEffect, useMemo, useState } from 'react';
-import type { Contact } from '@/components/contacts/contacts-table';
+import type { AudienceEvaluation } from '@/lib/services/contact-index';
+import { MATCH_ALL_FILTER, type FilterDefinition } from '@/lib/smart-list-types';
 import {
   ArrowPathIcon,
   ChatBubbleLeftRightIcon,
@@ -15,6 +16,7 @@ interface BulkSmsCampaignResponse {
   id: string;
   status: string;
   scheduledFor: string;
+  waitingUntil: string;
   totalRecipients: number;
   sentCount: number;
   failedCount: number;
@@ -25,8 +27,10 @@ type ComposeMessageChannel = 'SMS' | 'MMS';
 interface BulkSmsModalProps {
   open: boolean;
   onClose: () => void;
-  contacts: Contact[];
+  accountKeys: string[];
   activeAudienceId?: string | null;
+  /** The list's inline filter, used when no saved audience is active. */
+  filters?: FilterDefinition | null;
 }
 
 function toLocalDateTimeInputValue(date: Date): string {
@@ -60,8 +64,9 @@ function parseMediaUrlInput(raw: string): string[] {
 export function BulkSmsModal({
   open,
   onClose,
-  contacts,
+  accountKeys,
   activeAudienceId = null,
+  filters = null,
 }: BulkSmsModalProps) {
   const [channel, setChannel] = useState<ComposeMessageChannel>('SMS');
   const [mediaUrlsText, setMediaUrlsText] = useState('');
@@ -71,25 +76,50 @@ export function BulkSmsModal({
   const [sending, setSending] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [evaluation, setEvaluation] = useState<AudienceEvaluation | null>(null);
+  const [evaluating, setEvaluating] = useState(false);
 
-  const recipients = useMemo(
-    () =>
-      contacts
-        .filter((contact) => Boolean(contact.id && contact._accountKey && contact.phone))
-        .map((contact) => ({
-          contactId: contact.id,
-          accountKey: contact._accountKey as string,
-          phone: contact.phone,
-          fullName: contact.fullName || `${contact.firstName} ${contact.lastName}`.trim(),
-        })),
-    [contacts],
+  // Recipients are resolved on the server from the contact index; the modal
+  // only sends the selection and shows the server's counts.
+  const audienceSelection = useMemo(
+    () => ({
+      audienceId: activeAudienceId,
+      filters: activeAudienceId ? null : filters || MATCH_ALL_FILTER,
+      accountKeys,
+    }),
+    [activeAudienceId, filters, accountKeys],
   );
 
   useEffect(() => {
     if (!open) return;
     setError(null);
     setSuccess(null);
-  }, [open, contacts.length]);
+
+    let cancelled = false;
+    setEvaluation(null);
+    setEvaluating(true);
+    fetch('/api/audiences/evaluate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...audienceSelection, pageSize: 1 }),
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: AudienceEvaluation | null) => {
+        if (!cancelled) setEvaluation(data);
+      })
+      .catch(() => {
+        if (!cancelled) setEvaluation(null);
+      })
+      .finally(() => {
+        if (!cancelled) setEvaluating(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, audienceSelection]);
+
+  const sendableCount = evaluation?.withPhone ?? 0;
 
   useEffect(() => {
     if (!open) return;
@@ -115,8 +145,8 @@ export function BulkSmsModal({
       setError(`${channel} must be 640 characters or fewer.`);
       return;
     }
-    if (recipients.length === 0) {
-      setError('No sendable contacts in the current filtered list.');
+    if (sendableCount === 0) {
+      setError('No contacts with a phone number match this audience.');
       return;
     }
 
@@ -144,10 +174,9 @@ export function BulkSmsModal({
           message: trimmedMessage,
           channel,
           mediaUrls,
-          recipients,
+          ...audienceSelection,
           scheduledFor: scheduledIso || null,
           processNow,
-          audienceId: activeAudienceId || null,
         }),
       });
 
@@ -160,7 +189,15 @@ export function BulkSmsModal({
       const status = String(campaign.status || '').toLowerCase();
       if (status === 'scheduled' && campaign.scheduledFor) {
         setSuccess(
-          `Scheduled ${campaign.totalRecipients || recipients.length} ${channel} messages for ${formatDateTime(campaign.scheduledFor)}.`,
+          `Scheduled ${campaign.totalRecipients || sendableCount} ${channel} messages for ${formatDateTime(campaign.scheduledFor)}.`,
+        );
+      } else if (status === 'waiting' && campaign.waitingUntil) {
+        setSuccess(
+          `Sent ${campaign.sentCount ?? 0} ${channel} message${(campaign.sentCount ?? 0) === 1 ? '' : 's'}. The rest resume when the send window opens at ${formatDateTime(campaign.waitingUntil)}.`,
+        );
+      } else if (status === 'processing' || status === 'queued') {
+        setSuccess(
+          `Sent ${campaign.sentCount ?? 0} of ${campaign.totalRecipients || sendableCount} ${channel} messages. The rest continue in the background at the account's send rate.`,
         );
       } else {
         setSuccess(
@@ -196,7 +233,7 @@ export function BulkSmsModal({
               Bulk {channel}
             </h3>
             <p className="text-xs text-[var(--muted-foreground)] mt-1">
-              Send to the contacts currently visible in this filtered list.
+              Send to every contact matching this list's audience or filter.
             </p>
           </div>
           <button
@@ -212,12 +249,12 @@ export function BulkSmsModal({
         <div className="p-4 space-y-3">
           <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
             <div className="rounded-lg border border-[var(--border)] bg-[var(--muted)]/20 px-3 py-2">
-              <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)]">Filtered</p>
-              <p className="text-sm font-medium mt-1">{contacts.length}</p>
+              <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)]">Matched</p>
+              <p className="text-sm font-medium mt-1">{evaluation ? evaluation.total : evaluating ? '...' : '—'}</p>
             </div>
             <div className="rounded-lg border border-[var(--border)] bg-[var(--muted)]/20 px-3 py-2">
               <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)]">Sendable</p>
-              <p className="text-sm font-medium mt-1">{recipients.length}</p>
+              <p className="text-sm font-medium mt-1">{evaluation ? sendableCount : evaluating ? '...' : '—'}</p>
             </div>
             <div className="rounded-lg border border-[var(--border)] bg-[var(--muted)]/20 px-3 py-2 col-span-2 sm:col-span-1">
               <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)]">Audience</p>
@@ -336,7 +373,7 @@ export function BulkSmsModal({
             <PrimaryButton
               type="button"
               onClick={submit}
-              disabled={sending || recipients.length === 0 || (!message.trim() && (channel !== 'MMS' || parseMediaUrlInput(mediaUrlsText).length === 0))}
+              disabled={sending || sendableCount === 0 || (!message.trim() && (channel !== 'MMS' || parseMediaUrlInput(mediaUrlsText).length === 0))}
             >
               {sending ? (
                 <ArrowPathIcon className="w-3.5 h-3.5 animate-spin" />
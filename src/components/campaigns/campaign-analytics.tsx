@@ -7,17 +7,29 @@ import {
   MegaphoneIcon,
   PaperAirplaneIcon,
   ClockIcon,
+  BeakerIcon,
+  TrophyIcon,
 } from '@heroicons/react/24/outline';
 import { FlowIcon } from '@/components/icon-map';
+import { CampaignLinkHeatmap } from '@/components/campaigns/campaign-link-heatmap';
+import { CampaignEngagementStats } from '@/components/campaigns/campaign-engagement-stats';
+import { StatCard } from '@/components/campaigns/stat-card';
 import { iconColorHex } from '@/lib/icon-colors';
+import {
+  type CampaignEngagementLike,
+  formatRatePct,
+  sumCampaignEngagement,
+} from '@/lib/campaign-engagement';
+import type { EmailAbTestSummary } from '@/lib/services/email-ab-tests';
 import type { ApexOptions } from 'apexcharts';
 
 const ReactApexChart = dynamic(() => import('react-apexcharts'), { ssr: false });
 
 // ── Types ──
 
-interface Campaign {
+interface Campaign extends CampaignEngagementLike {
   id: string;
+  campaignId?: string;
   name: string;
   status: string;
   accountKey?: string;
@@ -40,6 +52,8 @@ interface CampaignAnalyticsProps {
   loading?: boolean;
   showAccountBreakdown?: boolean;
   accountNames?: Record<string, string>;
+  /** Loomi A/B test results, loaded by the dashboard alongside campaigns. */
+  abTests?: EmailAbTestSummary[];
 }
 
 // ── Helpers ──
@@ -89,6 +103,7 @@ export function CampaignAnalytics({
   loading,
   showAccountBreakdown,
   accountNames,
+  abTests = [],
 }: CampaignAnalyticsProps) {
   const { theme } = useTheme();
   const isDark = theme === 'dark';
@@ -172,6 +187,8 @@ export function CampaignAnalytics({
     };
   }, [campaigns, workflows, showAccountBreakdown, accountNames]);
 
+  const engagement = useMemo(() => sumCampaignEngagement(campaigns), [campaigns]);
+
   // ── Chart config ──
 
   const chartTextColor = isDark ? '#a1a1aa' : '#71717a';
@@ -384,6 +401,28 @@ export function CampaignAnalytics({
         />
       </div>
 
+      <CampaignEngagementStats engagement={engagement} animated={animated} />
+
+      {/* Native A/B tests (variant engagement from stored email events) */}
+      {abTests.length > 0 && (
+        <div className="glass-card rounded-xl p-4 animate-fade-in-up">
+          <h4 className="text-xs font-semibold text-[var(--muted-foreground)] uppercase tracking-wider mb-3 flex items-center gap-1.5">
+            <BeakerIcon className="w-3.5 h-3.5 text-violet-400" />
+            A/B Tests
+          </h4>
+          <div className="space-y-4">
+            {abTests.map((test) => (
+              <AbTestCard key={test.campaignId} test={test} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Per-link clicks for campaigns whose click events carry URLs */}
+      {engagement.clickedCount > 0 && (
+        <CampaignLinkHeatmap campaigns={campaigns} accountNames={accountNames} />
+      )}
+
       {/* Charts grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {/* Campaign Status Distribution */}
@@ -436,36 +475,52 @@ export function CampaignAnalytics({
 
 // ── Sub-components ──
 
-function StatCard({
-  icon: Icon,
-  value,
-  label,
-  sub,
-  color,
-  bgColor,
-  delay,
-  animated,
-}: {
-  icon: React.ComponentType<{ className?: string }>;
-  value: number | string;
-  label: string;
-  sub?: string;
-  color: string;
-  bgColor: string;
-  delay: number;
-  animated: boolean;
-}) {
+function AbTestCard({ test }: { test: EmailAbTestSummary }) {
+  const metricLabel = test.winnerMetric === 'click' ? 'click rate' : 'open rate';
+  const metricValue = (variant: EmailAbTestSummary['variants'][number]) =>
+    test.winnerMetric === 'click' ? variant.clickRate : variant.openRate;
+  const best = Math.max(0, ...test.variants.map((variant) => metricValue(variant) ?? 0));
+
+  let stage: string;
+  if (test.winnerVariantId) {
+    const winner = test.variants.find((variant) => variant.id === test.winnerVariantId);
+    stage = `Winner ${winner?.label ?? ''} sent to the remaining ${100 - test.testPercent}%`;
+  } else if (test.status === 'testing' && test.testDecideAt) {
+    stage = `Picking a winner by ${metricLabel} at ${new Date(test.testDecideAt).toLocaleString()}`;
+  } else if (test.testPercent >= 100) {
+    stage = 'Even split, no winner send';
+  } else {
+    stage = `Testing on ${test.testPercent}% of recipients`;
+  }
+
   return (
-    <div
-      className={`glass-card rounded-xl p-4 animate-fade-in-up animate-stagger-${delay + 1}`}
-      style={{ opacity: animated ? 1 : 0 }}
-    >
-      <div className={`w-8 h-8 rounded-lg ${bgColor} flex items-center justify-center mb-2`}>
-        <Icon className={`w-4 h-4 ${color}`} />
+    <div>
+      <div className="flex items-baseline justify-between gap-3 mb-1.5">
+        <p className="text-sm font-medium truncate">{test.name || 'Untitled campaign'}</p>
+        <p className="text-[10px] text-[var(--muted-foreground)] shrink-0">{stage}</p>
+      </div>
+      <div className="space-y-1">
+        {test.variants.map((variant) => {
+          const value = metricValue(variant);
+          const leading = !test.winnerVariantId && value !== null && value > 0 && value === best;
+          return (
+            <div key={variant.id} className="grid grid-cols-[1.5rem_minmax(0,1fr)_auto_auto_auto] items-center gap-3 text-xs">
+              <span className="font-semibold tabular-nums">{variant.label}</span>
+              <span className="truncate text-[var(--muted-foreground)]" title={variant.subject}>
+                {variant.isWinner && <TrophyIcon className="w-3 h-3 text-amber-400 inline mr-1 -mt-0.5" />}
+                {variant.subject}
+              </span>
+              <span className="tabular-nums text-[var(--muted-foreground)]">{variant.sentCount.toLocaleString()} sent</span>
+              <span className={`tabular-nums ${test.winnerMetric === 'open' && (variant.isWinner || leading) ? 'text-green-400' : ''}`}>
+                {formatRatePct(variant.openRate ?? undefined)} open
+              </span>
+              <span className={`tabular-nums ${test.winnerMetric === 'click' && (variant.isWinner || leading) ? 'text-cyan-400' : ''}`}>
+                {formatRatePct(variant.clickRate ?? undefined)} click
+              </span>
+            </div>
+          );
+        })}
       </div>
-      <p className="text-2xl font-bold tabular-nums">{value}</p>
-      <p className="text-xs text-[var(--muted-foreground)] mt-0.5">{label}</p>
-      {sub && <p className="text-[10px] text-[var(--muted-foreground)] mt-0.5">{sub}</p>}
     </div>
   );
 }
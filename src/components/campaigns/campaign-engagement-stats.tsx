@@ -0,0 +1,68 @@
+'use client';
+
+import {
+  InboxArrowDownIcon,
+  EnvelopeOpenIcon,
+  CursorArrowRaysIcon,
+  NoSymbolIcon,
+} from '@heroicons/react/24/outline';
+import { StatCard } from '@/components/campaigns/stat-card';
+import { type CampaignEngagementTotals, formatRatePct } from '@/lib/campaign-engagement';
+
+interface CampaignEngagementStatsProps {
+  engagement: CampaignEngagementTotals;
+  animated: boolean;
+}
+
+/**
+ * Delivered / open / click / bounce totals across campaigns, from
+ * webhook-ingested events with provider stats as the fallback.
+ */
+export function CampaignEngagementStats({ engagement, animated }: CampaignEngagementStatsProps) {
+  if (!engagement.hasAny) return null;
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+      <StatCard
+        icon={InboxArrowDownIcon}
+        value={engagement.deliveredCount.toLocaleString()}
+        label="Delivered"
+        sub={`${engagement.campaignsWithSignals} campaign${engagement.campaignsWithSignals === 1 ? '' : 's'} reporting`}
+        color="text-blue-400"
+        bgColor="bg-blue-500/10"
+        delay={0}
+        animated={animated}
+      />
+      <StatCard
+        icon={EnvelopeOpenIcon}
+        value={formatRatePct(engagement.openRate)}
+        label="Open Rate"
+        sub={`${engagement.openedCount.toLocaleString()} opens`}
+        color="text-green-400"
+        bgColor="bg-green-500/10"
+        delay={1}
+        animated={animated}
+      />
+      <StatCard
+        icon={CursorArrowRaysIcon}
+        value={formatRatePct(engagement.clickRate)}
+        label="Click Rate"
+        sub={`${engagement.clickedCount.toLocaleString()} clicks`}
+        color="text-cyan-400"
+        bgColor="bg-cyan-500/10"
+        delay={2}
+        animated={animated}
+      />
+      <StatCard
+        icon={NoSymbolIcon}
+        value={(engagement.bouncedCount + engagement.unsubscribedCount).toLocaleString()}
+        label="Bounced / Unsubscribed"
+        sub={`${engagement.bouncedCount.toLocaleString()} bounced · ${engagement.unsubscribedCount.toLocaleString()} unsubscribed`}
+        color="text-red-400"
+        bgColor="bg-red-500/10"
+        delay={3}
+        animated={animated}
+      />
+    </div>
+  );
+}
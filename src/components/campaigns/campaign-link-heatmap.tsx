@@ -0,0 +1,198 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { CursorArrowRaysIcon } from '@heroicons/react/24/outline';
+import { safeJson } from '@/lib/safe-json';
+import {
+  annotateLinkHeatmap,
+  heatColor,
+  type CampaignLinkClicksReport,
+} from '@/lib/campaign-link-heatmap';
+
+// ── Types ──
+
+interface HeatmapCampaign {
+  id: string;
+  campaignId?: string;
+  name: string;
+  accountKey?: string;
+  clickedCount?: number;
+}
+
+interface CampaignLinkHeatmapProps {
+  campaigns: HeatmapCampaign[];
+  accountNames?: Record<string, string>;
+}
+
+type HeatmapView = 'heatmap' | 'table';
+
+const MAX_CAMPAIGN_OPTIONS = 50;
+
+function optionKey(campaign: HeatmapCampaign): string {
+  return `${campaign.accountKey}|${campaign.campaignId || campaign.id}`;
+}
+
+// ── Component ──
+
+/**
+ * Link-level click breakdown for one campaign at a time: a heatmap drawn on
+ * the campaign's preview and a ranked link table. Only campaigns with clicks
+ * are offered; those whose provider sends no click URLs show an empty state.
+ */
+export function CampaignLinkHeatmap({ campaigns, accountNames }: CampaignLinkHeatmapProps) {
+  const options = useMemo(
+    () => campaigns
+      .filter((campaign) => campaign.accountKey && (campaign.clickedCount ?? 0) > 0)
+      .sort((a, b) => (b.clickedCount ?? 0) - (a.clickedCount ?? 0))
+      .slice(0, MAX_CAMPAIGN_OPTIONS),
+    [campaigns],
+  );
+  const [selectedKey, setSelectedKey] = useState('');
+  const [view, setView] = useState<HeatmapView>('heatmap');
+  const [report, setReport] = useState<CampaignLinkClicksReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const selected = options.find((campaign) => optionKey(campaign) === selectedKey) ?? options[0] ?? null;
+
+  useEffect(() => {
+    if (!selected?.accountKey) {
+      setReport(null);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+    const params = new URLSearchParams({
+      accountKey: selected.accountKey,
+      campaignId: selected.campaignId || selected.id,
+    });
+    fetch(`/api/esp/campaigns/link-clicks?${params.toString()}`)
+      .then((res) => safeJson<CampaignLinkClicksReport>(res))
+      .then(({ ok, data, error: loadError }) => {
+        if (cancelled) return;
+        if (!ok || !data) throw new Error(loadError || 'Failed to load link clicks');
+        setReport(data);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setReport(null);
+        setError(err instanceof Error ? err.message : 'Failed to load link clicks');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selected?.accountKey, selected?.campaignId, selected?.id]);
+
+  const heatmapHtml = useMemo(
+    () => (report?.html ? annotateLinkHeatmap(report.html, report.links) : ''),
+    [report],
+  );
+
+  if (options.length === 0) return null;
+
+  const maxClicks = Math.max(1, ...(report?.links ?? []).map((link) => link.clicks));
+  const activeView: HeatmapView = heatmapHtml ? view : 'table';
+
+  return (
+    <div className="glass-card rounded-xl p-4 animate-fade-in-up">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h4 className="text-xs font-semibold text-[var(--muted-foreground)] uppercase tracking-wider flex items-center gap-1.5">
+          <CursorArrowRaysIcon className="w-3.5 h-3.5 text-cyan-400" />
+          Link Clicks
+        </h4>
+        <div className="flex items-center gap-2">
+          <select
+            value={selected ? optionKey(selected) : ''}
+            onChange={(event) => setSelectedKey(event.target.value)}
+            className="max-w-[260px] rounded-lg border border-[var(--border)] bg-[var(--card)] px-2.5 py-1.5 text-xs focus:outline-none focus:border-[var(--primary)]"
+          >
+            {options.map((campaign) => (
+              <option key={optionKey(campaign)} value={optionKey(campaign)}>
+                {campaign.name || 'Untitled campaign'}
+                {accountNames?.[campaign.accountKey as string] ? ` · ${accountNames[campaign.accountKey as string]}` : ''}
+              </option>
+            ))}
+          </select>
+          <div className="flex rounded-lg border border-[var(--border)] overflow-hidden">
+            {(['heatmap', 'table'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                disabled={option === 'heatmap' && !heatmapHtml}
+                className={`px-2.5 py-1.5 text-[11px] capitalize transition-colors disabled:opacity-40 ${
+                  activeView === option
+                    ? 'bg-[var(--primary)]/15 text-[var(--foreground)]'
+                    : 'text-[var(--muted-foreground)] hover:text-[var(--foreground)]'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-xs text-[var(--muted-foreground)] py-6 text-center">Loading link clicks...</p>
+      ) : error ? (
+        <p className="text-xs text-red-400 py-6 text-center">{error}</p>
+      ) : !report || report.links.length === 0 ? (
+        <p className="text-xs text-[var(--muted-foreground)] py-6 text-center">
+          No per-link click data for this campaign. Links are broken down for Loomi-tracked sends and
+          SendGrid or Klaviyo campaigns whose click events carry URLs.
+        </p>
+      ) : (
+        <>
+          <p className="text-[11px] text-[var(--muted-foreground)] mb-3">
+            {report.totalClicks.toLocaleString()} click{report.totalClicks === 1 ? '' : 's'} across{' '}
+            {report.links.length} link{report.links.length === 1 ? '' : 's'}
+            {!heatmapHtml && ' · preview unavailable, showing the link table'}
+          </p>
+          {activeView === 'heatmap' ? (
+            <iframe
+              title="Campaign link heatmap"
+              srcDoc={heatmapHtml}
+              sandbox=""
+              className="w-full h-[560px] rounded-lg border border-[var(--border)] bg-white"
+            />
+          ) : (
+            <div className="space-y-1.5">
+              {report.links.map((link, index) => (
+                <div key={link.url} className="grid grid-cols-[1.5rem_minmax(0,1fr)_auto_auto_5rem] items-center gap-3 text-xs">
+                  <span className="tabular-nums text-[var(--muted-foreground)]">{index + 1}</span>
+                  <a
+                    href={link.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="truncate hover:underline"
+                    title={link.url}
+                  >
+                    {link.url}
+                  </a>
+                  <span className="tabular-nums">{link.clicks.toLocaleString()} clicks</span>
+                  <span className="tabular-nums text-[var(--muted-foreground)]">{link.uniqueClicks.toLocaleString()} unique</span>
+                  <div className="flex items-center gap-1.5">
+                    <div className="flex-1 h-1.5 rounded-full bg-[var(--muted)] overflow-hidden">
+                      <div
+                        className="h-full rounded-full"
+                        style={{ width: `${Math.max(4, link.share * 100)}%`, backgroundColor: heatColor(link.clicks / maxClicks) }}
+                      />
+                    </div>
+                    <span className="tabular-nums text-[10px] text-[var(--muted-foreground)] w-8 text-right">
+                      {(link.share * 100).toFixed(0)}%
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -11,20 +11,28 @@ import {
 } from '@heroicons/react/24/outline';
 import { FlowIcon } from '@/components/icon-map';
 import { iconColorHex } from '@/lib/icon-colors';
+import {
+  type CampaignEngagementLike,
+  sumCampaignEngagement,
+} from '@/lib/campaign-engagement';
 import {
   type DateRangeKey,
   getDateRangeBounds,
   getMonthBuckets,
 } from '@/lib/date-ranges';
 import type { CustomDateRange } from '@/components/filters/dashboard-toolbar';
+import { CampaignLinkHeatmap } from '@/components/campaigns/campaign-link-heatmap';
+import { CampaignEngagementStats } from '@/components/campaigns/campaign-engagement-stats';
+import { StatCard } from '@/components/campaigns/stat-card';
 import type { ApexOptions } from 'apexcharts';
 
 const ReactApexChart = dynamic(() => import('react-apexcharts'), { ssr: false });
 
 // ── Types ──
 
-interface Campaign {
+interface Campaign extends CampaignEngagementLike {
   id: string;
+  campaignId?: string;
   name: string;
   status: string;
   createdAt?: string;
@@ -34,7 +42,6 @@ interface Campaign {
   locationId?: string;
   accountKey?: string;
   dealer?: string;
-  sentCount?: number;
 }
 
 interface Workflow {
@@ -180,6 +187,8 @@ export function CampaignPageAnalytics({
     };
   }, [campaigns, showAccountBreakdown, accountNames, dateRange, customRange]);
 
+  const engagement = useMemo(() => sumCampaignEngagement(campaigns), [campaigns]);
+
   // Timeline: campaigns vs workflows over time
   const timelineData = useMemo(() => {
     const bounds = dateRange === 'custom' && customRange
@@ -453,6 +462,13 @@ export function CampaignPageAnalytics({
         />
       </div>
 
+      <CampaignEngagementStats engagement={engagement} animated={animated} />
+
+      {/* Per-link clicks for campaigns whose click events carry URLs */}
+      {engagement.clickedCount > 0 && (
+        <CampaignLinkHeatmap campaigns={campaigns} accountNames={accountNames} />
+      )}
+
       {/* Campaigns vs Workflows timeline */}
       {timelineData.hasData && (
         <div className="glass-card rounded-xl p-4 animate-fade-in-up animate-stagger-2">
@@ -518,25 +534,3 @@ export function CampaignPageAnalytics({
     </div>
   );
 }
-
-// ── Sub-components ──
-
-function StatCard({
-  icon: Icon, value, label, sub, color, bgColor, delay, animated,
-}: {
-  icon: React.ComponentType<{ className?: string }>;
-  value: number | string; label: string; sub?: string;
-  color: string; bgColor: string; delay: number; animated: boolean;
-}) {
-  return (
-    <div className={`glass-card rounded-xl p-4 animate-fade-in-up animate-stagger-${delay + 1}`} style={{ opacity: animated ? 1 : 0 }}>
-      <div className={`w-8 h-8 rounded-lg ${bgColor} flex items-center justify-center mb-2`}>
-        <Icon className={`w-4 h-4 ${color}`} />
-      </div>
-      <p className="text-2xl font-bold tabular-nums">{value}</p>
-      <p className="text-xs text-[var(--muted-foreground)] mt-0.5">{label}</p>
-      {sub && <p className="text-[10px] text-[var(--muted-foreground)] mt-0.5">{sub}</p>}
-    </div>
-  );
-}
-
@@ -1,10 +1,11 @@
 'use client';
 
 import { useEffect, useMemo, useState } from 'react';
-import type { Contact } from '@/components/contacts/contacts-table';
-import { evaluateFilter } from '@/lib/smart-list-engine';
+import type { PersonalizationReport } from '@/lib/services/email-personalization';
+import type { AudienceEvaluation } from '@/lib/services/contact-index';
 import { LIFECYCLE_PRESETS } from '@/lib/smart-list-presets';
-import type { FilterDefinition } from '@/lib/smart-list-types';
+import { MATCH_ALL_FILTER, type FilterDefinition } from '@/lib/smart-list-types';
+import { UTM_TEMPLATE_VARIABLES, type EmailUtmParams } from '@/lib/email-tracking-options';
 import {
   ArrowPathIcon,
   ChevronRightIcon,
@@ -17,10 +18,26 @@ import PrimaryButton from '@/components/primary-button';
 
 type EmailCampaignSourceType = 'template-library' | 'drag-drop' | 'html';
 
+interface AbVariantDraft {
+  subject: string;
+  previewText: string;
+  /** Blank = reuse the main HTML, so subject-only tests need no copy. */
+  htmlContent: string;
+}
+
+const AB_VARIANT_LABELS = ['B', 'C', 'D'];
+
+const UTM_FIELDS: Array<{ key: keyof EmailUtmParams; label: string; placeholder: string }> = [
+  { key: 'utm_source', label: 'Source', placeholder: 'loomi' },
+  { key: 'utm_medium', label: 'Medium', placeholder: 'email' },
+  { key: 'utm_campaign', label: 'Campaign', placeholder: '{{campaign.name}}' },
+  { key: 'utm_content', label: 'Content', placeholder: 'link-{{link.index}}' },
+];
+
 type AudienceOption =
-  | { key: 'all'; label: string; definition: null }
-  | { key: `preset:${string}`; label: string; definition: FilterDefinition }
-  | { key: `audience:${string}`; label: string; definition: FilterDefinition };
+  | { key: 'all'; label: string; audienceId: null; filters: FilterDefinition }
+  | { key: `preset:${string}`; label: string; audienceId: null; filters: FilterDefinition }
+  | { key: `audience:${string}`; label: string; audienceId: string; filters: null };
 
 interface EmailTemplateApiRecord {
   id: string;
@@ -54,7 +71,6 @@ interface SavedAudienceRecord {
 interface EmailCampaignModalProps {
   open: boolean;
   onClose: () => void;
-  contacts: Contact[];
   selectedAccountKeys: string[];
   mode?: 'email' | 'both';
   accountKey?: string | null;
@@ -66,16 +82,6 @@ function toLocalDateTimeInputValue(date: Date): string {
   return local.toISOString().slice(0, 16);
 }
 
-function parseAudienceDefinition(filters: string): FilterDefinition | null {
-  try {
-    const parsed = JSON.parse(filters) as FilterDefinition;
-    if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.groups)) return null;
-    return parsed;
-  } catch {
-    return null;
-  }
-}
-
 function normalizeTemplateRecord(record: EmailTemplateApiRecord): EmailTemplateOption {
   const accountKey = String(record.accountKey || record.account?.key || '').trim();
   const accountLabel = String(record.account?.dealer || accountKey || 'Sub-Account').trim();
@@ -91,14 +97,9 @@ function normalizeTemplateRecord(record: EmailTemplateApiRecord): EmailTemplateO
   };
 }
 
-function isValidEmail(value: string): boolean {
-  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/i.test(value);
-}
-
 export function EmailCampaignModal({
   open,
   onClose,
-  contacts,
   selectedAccountKeys,
   mode = 'email',
   accountKey = null,
@@ -121,6 +122,17 @@ export function EmailCampaignModal({
   const [sending, setSending] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  const [evaluation, setEvaluation] = useState<AudienceEvaluation | null>(null);
+  const [evaluating, setEvaluating] = useState(false);
+  const [personalization, setPersonalization] = useState<PersonalizationReport | null>(null);
+  const [variableFallbacks, setVariableFallbacks] = useState<Record<string, string>>({});
+  const [abEnabled, setAbEnabled] = useState(false);
+  const [abVariants, setAbVariants] = useState<AbVariantDraft[]>([]);
+  const [abTestPercent, setAbTestPercent] = useState(20);
+  const [abWinnerMetric, setAbWinnerMetric] = useState<'open' | 'click'>('open');
+  const [abWaitHours, setAbWaitHours] = useState(4);
+  const [utmEnabled, setUtmEnabled] = useState(false);
+  const [utm, setUtm] = useState<EmailUtmParams>({});
 
   useEffect(() => {
     if (!open) return;
@@ -138,6 +150,13 @@ export function EmailCampaignModal({
     setSelectedTemplateId('');
     setError('');
     setSuccess('');
+    setAbEnabled(false);
+    setAbVariants([]);
+    setAbTestPercent(20);
+    setAbWinnerMetric('open');
+    setAbWaitHours(4);
+    setUtmEnabled(false);
+    setUtm({});
   }, [open]);
 
   useEffect(() => {
@@ -190,63 +209,80 @@ export function EmailCampaignModal({
 
   const audienceOptions = useMemo<AudienceOption[]>(() => {
     const options: AudienceOption[] = [
-      { key: 'all', label: 'All contacts in current account filter', definition: null },
+      { key: 'all', label: 'All contacts in current account filter', audienceId: null, filters: MATCH_ALL_FILTER },
     ];
 
     for (const preset of LIFECYCLE_PRESETS) {
       options.push({
         key: `preset:${preset.id}`,
         label: `Lifecycle · ${preset.name}`,
-        definition: preset.definition,
+        audienceId: null,
+        filters: preset.definition,
       });
     }
 
     for (const audience of savedAudiences) {
-      const definition = parseAudienceDefinition(audience.filters);
-      if (!definition) continue;
       options.push({
         key: `audience:${audience.id}`,
         label: `Custom · ${audience.name}`,
-        definition,
+        audienceId: audience.id,
+        filters: null,
       });
     }
 
     return options;
   }, [savedAudiences]);
 
-  const baseContacts = useMemo(
-    () =>
-      contacts.filter((contact) => {
-        if (!contact._accountKey) return false;
-        if (selectedAccountKeys.length === 0) return true;
-        return selectedAccountKeys.includes(contact._accountKey);
-      }),
-    [contacts, selectedAccountKeys],
-  );
-
   const selectedAudience = useMemo(
     () => audienceOptions.find((option) => option.key === audienceKey) || audienceOptions[0],
     [audienceOptions, audienceKey],
   );
 
-  const audienceContacts = useMemo(() => {
-    if (!selectedAudience || !selectedAudience.definition) return baseContacts;
-    return evaluateFilter(baseContacts, selectedAudience.definition);
-  }, [baseContacts, selectedAudience]);
-
-  const recipients = useMemo(
-    () =>
-      audienceContacts
-        .filter((contact) => Boolean(contact.id && contact._accountKey && isValidEmail(String(contact.email || '').trim())))
-        .map((contact) => ({
-          contactId: contact.id,
-          accountKey: contact._accountKey as string,
-          email: String(contact.email || '').trim(),
-          fullName: contact.fullName || `${contact.firstName} ${contact.lastName}`.trim(),
-        })),
-    [audienceContacts],
+  // Recipients are resolved on the server from the contact index; the modal
+  // only sends the selection and shows the server's counts.
+  const audienceSelection = useMemo(
+    () => ({
+      audienceId: selectedAudience.audienceId,
+      filters: selectedAudience.filters,
+      accountKeys: selectedAccountKeys,
+    }),
+    [selectedAudience, selectedAccountKeys],
   );
 
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setEvaluation(null);
+    setEvaluating(true);
+    fetch('/api/audiences/evaluate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...audienceSelection, pageSize: 1 }),
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: AudienceEvaluation | null) => {
+        if (!cancelled) setEvaluation(data);
+      })
+      .catch(() => {
+        if (!cancelled) setEvaluation(null);
+      })
+      .finally(() => {
+        if (!cancelled) setEvaluating(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, audienceSelection]);
+
+  const perAccount = Object.values(evaluation?.perAccount || {});
+
+  // Any content or audience edit invalidates the last merge-field review.
+  useEffect(() => {
+    setPersonalization(null);
+  }, [subject, previewText, htmlContent, textContent, audienceSelection, abEnabled, abVariants]);
+
   useEffect(() => {
     if (sourceType === 'template-library' && templateOptions.length > 0 && !selectedTemplateId) {
       setSelectedTemplateId(templateOptions[0].id);
@@ -300,11 +336,37 @@ export function EmailCampaignModal({
       setError('Email HTML is required.');
       return;
     }
-    if (recipients.length === 0) {
-      setError('No contacts with valid email addresses match this audience.');
+    if (!evaluation || evaluation.withEmail === 0) {
+      setError('No contacts with an email address match this audience.');
+      return;
+    }
+    if (abEnabled && abVariants.length === 0) {
+      setError('Add at least one more variant to run an A/B test.');
+      return;
+    }
+    const missingVariant = abEnabled ? abVariants.findIndex((variant) => !variant.subject.trim()) : -1;
+    if (missingVariant >= 0) {
+      setError(`Variant ${AB_VARIANT_LABELS[missingVariant]} needs a subject line.`);
       return;
     }
 
+    const abTest = abEnabled
+      ? {
+          testPercent: abTestPercent,
+          winnerMetric: abWinnerMetric,
+          waitMinutes: Math.round(abWaitHours * 60),
+          variants: [
+            { subject: subject.trim(), previewText: previewText.trim(), htmlContent, textContent: textContent.trim() },
+            ...abVariants.map((variant) => ({
+              subject: variant.subject.trim(),
+              previewText: variant.previewText.trim(),
+              htmlContent: variant.htmlContent.trim() || htmlContent,
+              textContent: textContent.trim(),
+            })),
+          ],
+        }
+      : null;
+
     let scheduledIso = '';
     if (scheduled) {
       const parsed = new Date(scheduledAt);
@@ -319,6 +381,36 @@ export function EmailCampaignModal({
     setError('');
     setSuccess('');
 
+    // Review merge fields once before sending; a second click sends anyway.
+    if (!personalization) {
+      try {
+        const res = await fetch('/api/campaigns/email/personalization', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            // Review every variant's content in one pass.
+            subject: abTest ? abTest.variants.map((variant) => variant.subject).join('\n') : subject.trim(),
+            previewText: abTest ? abTest.variants.map((variant) => variant.previewText).join('\n') : previewText.trim(),
+            htmlContent: abTest ? abTest.variants.map((variant) => variant.htmlContent).join('\n') : htmlContent,
+            textContent: textContent.trim(),
+            ...audienceSelection,
+            variableFallbacks,
+          }),
+        });
+        const data = await res.json().catch(() => ({}));
+        if (res.ok && data.report) {
+          const report = data.report as PersonalizationReport;
+          setPersonalization(report);
+          if (report.recipientsWithMissing > 0) {
+            setSending(false);
+            return;
+          }
+        }
+      } catch {
+        // The review is advisory — fall through and send.
+      }
+    }
+
     try {
       const processNow = !scheduledIso || new Date(scheduledIso).getTime() <= Date.now();
       const res = await fetch('/api/campaigns/email', {
@@ -331,13 +423,15 @@ export function EmailCampaignModal({
           htmlContent,
           textContent: textContent.trim(),
           sourceType,
-          recipients,
+          ...audienceSelection,
+          variableFallbacks,
+          abTest,
+          utm: utmEnabled ? utm : undefined,
           scheduledFor: scheduledIso || null,
           processNow,
-          audienceId: audienceKey === 'all' ? null : audienceKey.split(':')[1],
           metadata: JSON.stringify({
             audienceKey,
-            audienceLabel: selectedAudience?.label || 'All contacts',
+            audienceLabel: selectedAudience.label,
             mode,
           }),
         }),
@@ -351,6 +445,15 @@ export function EmailCampaignModal({
       if (scheduledIso) {
         const scheduledDate = new Date(scheduledIso);
         setSuccess(`Email campaign scheduled for ${scheduledDate.toLocaleString('en-US')}.`);
+      } else if (abTest) {
+        const sentCount = Number(data?.campaign?.sentCount || 0);
+        setSuccess(
+          `A/B test sent to ${sentCount.toLocaleString()} contact${sentCount === 1 ? '' : 's'}.${
+            abTestPercent < 100
+              ? ` The winner goes to the rest in ${abWaitHours} hour${abWaitHours === 1 ? '' : 's'}.`
+              : ''
+          }`,
+        );
       } else {
         const sentCount = Number(data?.campaign?.sentCount || 0);
         setSuccess(`Email campaign sent to ${sentCount.toLocaleString()} contact${sentCount === 1 ? '' : 's'}.`);
@@ -504,16 +607,24 @@ export function EmailCampaignModal({
 
               <div className="grid sm:grid-cols-3 gap-3">
                 <div className="rounded-lg border border-[var(--border)] bg-[var(--muted)]/20 px-3 py-2">
-                  <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)]">Base Contacts</p>
-                  <p className="text-sm font-medium mt-1">{baseContacts.length.toLocaleString()}</p>
+                  <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)]">Indexed Accounts</p>
+                  <p className="text-sm font-medium mt-1">
+                    {evaluation
+                      ? `${perAccount.filter((account) => account.indexed).length} of ${perAccount.length}`
+                      : evaluating ? '...' : '—'}
+                  </p>
                 </div>
                 <div className="rounded-lg border border-[var(--border)] bg-[var(--muted)]/20 px-3 py-2">
                   <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)]">Audience Match</p>
-                  <p className="text-sm font-medium mt-1">{audienceContacts.length.toLocaleString()}</p>
+                  <p className="text-sm font-medium mt-1">
+                    {evaluation ? evaluation.total.toLocaleString() : evaluating ? '...' : '—'}
+                  </p>
                 </div>
                 <div className="rounded-lg border border-[var(--border)] bg-[var(--muted)]/20 px-3 py-2">
                   <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)]">Sendable Emails</p>
-                  <p className="text-sm font-medium mt-1">{recipients.length.toLocaleString()}</p>
+                  <p className="text-sm font-medium mt-1">
+                    {evaluation ? evaluation.withEmail.toLocaleString() : evaluating ? '...' : '—'}
+                  </p>
                 </div>
               </div>
 
@@ -612,6 +723,158 @@ export function EmailCampaignModal({
                 />
               </div>
 
+              <div className="rounded-lg border border-[var(--border)] bg-[var(--muted)]/15 px-3 py-2.5">
+                <label className="inline-flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={abEnabled}
+                    onChange={(event) => {
+                      setAbEnabled(event.target.checked);
+                      if (event.target.checked && abVariants.length === 0) {
+                        setAbVariants([{ subject: '', previewText: '', htmlContent: '' }]);
+                      }
+                    }}
+                    className="rounded border-[var(--border)]"
+                  />
+                  A/B test subject lines or content
+                </label>
+                {abEnabled && (
+                  <div className="mt-3 space-y-3">
+                    <p className="text-[11px] text-[var(--muted-foreground)]">
+                      The fields above are variant A. Each test recipient gets one variant at random; after the wait,
+                      the variant with the best rate is sent to everyone else.
+                    </p>
+                    {abVariants.map((variant, index) => {
+                      const update = (patch: Partial<AbVariantDraft>) =>
+                        setAbVariants((prev) => prev.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)));
+                      return (
+                        <div key={AB_VARIANT_LABELS[index]} className="rounded-lg border border-[var(--border)] p-2.5 space-y-2">
+                          <div className="flex items-center justify-between">
+                            <p className="text-[11px] font-semibold">Variant {AB_VARIANT_LABELS[index]}</p>
+                            <button
+                              type="button"
+                              onClick={() => setAbVariants((prev) => prev.filter((_, i) => i !== index))}
+                              className="p-1 rounded text-[var(--muted-foreground)] hover:text-[var(--foreground)]"
+                            >
+                              <XMarkIcon className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                          <div className="grid sm:grid-cols-2 gap-2">
+                            <input
+                              value={variant.subject}
+                              onChange={(event) => update({ subject: event.target.value })}
+                              placeholder="Subject line"
+                              className="w-full rounded-lg border border-[var(--border)] bg-[var(--card)] px-2.5 py-1.5 text-xs focus:outline-none focus:border-[var(--primary)]"
+                            />
+                            <input
+                              value={variant.previewText}
+                              onChange={(event) => update({ previewText: event.target.value })}
+                              placeholder="Preview text"
+                              className="w-full rounded-lg border border-[var(--border)] bg-[var(--card)] px-2.5 py-1.5 text-xs focus:outline-none focus:border-[var(--primary)]"
+                            />
+                          </div>
+                          <textarea
+                            value={variant.htmlContent}
+                            onChange={(event) => update({ htmlContent: event.target.value })}
+                            rows={3}
+                            placeholder="Alternate HTML (leave blank to reuse variant A's HTML)"
+                            className="w-full rounded-lg border border-[var(--border)] bg-[var(--card)] px-2.5 py-1.5 text-xs font-mono focus:outline-none focus:border-[var(--primary)]"
+                          />
+                        </div>
+                      );
+                    })}
+                    {abVariants.length < AB_VARIANT_LABELS.length && (
+                      <button
+                        type="button"
+                        onClick={() => setAbVariants((prev) => [...prev, { subject: '', previewText: '', htmlContent: '' }])}
+                        className="px-2.5 py-1 text-[11px] rounded-lg border border-[var(--border)] text-[var(--muted-foreground)] hover:text-[var(--foreground)]"
+                      >
+                        Add variant {AB_VARIANT_LABELS[abVariants.length]}
+                      </button>
+                    )}
+                    <div className="grid sm:grid-cols-3 gap-2">
+                      <div>
+                        <label className="block text-[11px] text-[var(--muted-foreground)] mb-1">Test group</label>
+                        <select
+                          value={abTestPercent}
+                          onChange={(event) => setAbTestPercent(Number(event.target.value))}
+                          className="w-full rounded-lg border border-[var(--border)] bg-[var(--card)] px-2.5 py-1.5 text-xs focus:outline-none focus:border-[var(--primary)]"
+                        >
+                          {[10, 20, 30, 50, 100].map((percent) => (
+                            <option key={percent} value={percent}>
+                              {percent === 100 ? 'Everyone (no winner send)' : `${percent}% of recipients`}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-[11px] text-[var(--muted-foreground)] mb-1">Winner by</label>
+                        <select
+                          value={abWinnerMetric}
+                          onChange={(event) => setAbWinnerMetric(event.target.value === 'click' ? 'click' : 'open')}
+                          className="w-full rounded-lg border border-[var(--border)] bg-[var(--card)] px-2.5 py-1.5 text-xs focus:outline-none focus:border-[var(--primary)]"
+                        >
+                          <option value="open">Open rate</option>
+                          <option value="click">Click rate</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-[11px] text-[var(--muted-foreground)] mb-1">Wait before picking</label>
+                        <select
+                          value={abWaitHours}
+                          onChange={(event) => setAbWaitHours(Number(event.target.value))}
+                          className="w-full rounded-lg border border-[var(--border)] bg-[var(--card)] px-2.5 py-1.5 text-xs focus:outline-none focus:border-[var(--primary)]"
+                        >
+                          {[1, 2, 4, 8, 24, 48].map((hours) => (
+                            <option key={hours} value={hours}>
+                              {hours} hour{hours === 1 ? '' : 's'}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="rounded-lg border border-[var(--border)] bg-[var(--muted)]/15 px-3 py-2.5">
+                <label className="inline-flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={utmEnabled}
+                    onChange={(event) => setUtmEnabled(event.target.checked)}
+                    className="rounded border-[var(--border)]"
+                  />
+                  Add UTM parameters to links
+                </label>
+                {utmEnabled && (
+                  <div className="mt-3 space-y-2">
+                    <div className="grid sm:grid-cols-2 gap-2">
+                      {UTM_FIELDS.map((field) => (
+                        <div key={field.key}>
+                          <label className="block text-[11px] text-[var(--muted-foreground)] mb-1">{field.label}</label>
+                          <input
+                            value={utm[field.key] || ''}
+                            onChange={(event) => setUtm((prev) => ({ ...prev, [field.key]: event.target.value }))}
+                            placeholder={field.placeholder}
+                            className="w-full rounded-lg border border-[var(--border)] bg-[var(--card)] px-2.5 py-1.5 text-xs focus:outline-none focus:border-[var(--primary)]"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-[11px] text-[var(--muted-foreground)]">
+                      Links that already carry a UTM parameter keep it. Available variables:{' '}
+                      {UTM_TEMPLATE_VARIABLES.map((variable, index) => (
+                        <span key={variable.token} title={variable.description}>
+                          {index > 0 && ', '}
+                          <code>{variable.token}</code>
+                        </span>
+                      ))}
+                    </p>
+                  </div>
+                )}
+              </div>
+
               <div className="rounded-lg border border-[var(--border)] bg-[var(--muted)]/15 px-3 py-2.5">
                 <label className="inline-flex items-center gap-2 text-sm">
                   <input
@@ -642,6 +905,34 @@ export function EmailCampaignModal({
                 </p>
               )}
 
+              {personalization && personalization.recipientsWithMissing > 0 && (
+                <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 px-3 py-2.5 space-y-2">
+                  <p className="text-xs text-amber-200">
+                    {personalization.recipientsWithMissing.toLocaleString()} of {personalization.totalRecipients.toLocaleString()} recipient
+                    {personalization.totalRecipients === 1 ? '' : 's'} have empty merge fields. Set a fallback or send anyway.
+                  </p>
+                  <div className="space-y-1.5">
+                    {Object.entries(personalization.missingByVariable)
+                      .sort((a, b) => b[1] - a[1])
+                      .map(([variable, count]) => (
+                        <div key={variable} className="grid grid-cols-[minmax(0,1fr)_auto_minmax(0,1fr)] items-center gap-2">
+                          <code className="text-[11px] truncate">{`{{${variable}}}`}</code>
+                          <span className="text-[10px] text-[var(--muted-foreground)]">{count.toLocaleString()} missing</span>
+                          <input
+                            value={variableFallbacks[variable] || ''}
+                            onChange={(event) => {
+                              const value = event.target.value;
+                              setVariableFallbacks((prev) => ({ ...prev, [variable]: value }));
+                            }}
+                            placeholder="Fallback value"
+                            className="w-full rounded-md border border-[var(--border)] bg-[var(--card)] px-2 py-1 text-xs focus:outline-none focus:border-[var(--primary)]"
+                          />
+                        </div>
+                      ))}
+                  </div>
+                </div>
+              )}
+
               {error && <p className="text-xs text-red-300">{error}</p>}
               {success && !error && <p className="text-xs text-emerald-300">{success}</p>}
             </div>
@@ -667,18 +958,20 @@ export function EmailCampaignModal({
                 <PrimaryButton
                   type="button"
                   onClick={submitCampaign}
-                  disabled={sending || recipients.length === 0}
+                  disabled={sending || !evaluation || evaluation.withEmail === 0}
                 >
                   {sending ? <ArrowPathIcon className="w-3.5 h-3.5 animate-spin" /> : <EnvelopeIcon className="w-3.5 h-3.5" />}
                   {sending
                     ? 'Submitting...'
-                    : scheduled
-                      ? mode === 'both'
-                        ? 'Schedule Email + Continue'
-                        : 'Schedule Email'
-                      : mode === 'both'
-                        ? 'Send Email + Continue'
-                        : 'Send Email'}
+                    : personalization && personalization.recipientsWithMissing > 0
+                      ? 'Send Anyway'
+                      : scheduled
+                        ? mode === 'both'
+                          ? 'Schedule Email + Continue'
+                          : 'Schedule Email'
+                        : mode === 'both'
+                          ? 'Send Email + Continue'
+                          : 'Send Email'}
                 </PrimaryButton>
               </div>
             </div>
@@ -0,0 +1,35 @@
+'use client';
+
+export function StatCard({
+  icon: Icon,
+  value,
+  label,
+  sub,
+  color,
+  bgColor,
+  delay,
+  animated,
+}: {
+  icon: React.ComponentType<{ className?: string }>;
+  value: number | string;
+  label: string;
+  sub?: string;
+  color: string;
+  bgColor: string;
+  delay: number;
+  animated: boolean;
+}) {
+  return (
+    <div
+      className={`glass-card rounded-xl p-4 animate-fade-in-up animate-stagger-${delay + 1}`}
+      style={{ opacity: animated ? 1 : 0 }}
+    >
+      <div className={`w-8 h-8 rounded-lg ${bgColor} flex items-center justify-center mb-2`}>
+        <Icon className={`w-4 h-4 ${color}`} />
+      </div>
+      <p className="text-2xl font-bold tabular-nums">{value}</p>
+      <p className="text-xs text-[var(--muted-foreground)] mt-0.5">{label}</p>
+      {sub && <p className="text-[10px] text-[var(--muted-foreground)] mt-0.5">{sub}</p>}
+    </div>
+  );
+}
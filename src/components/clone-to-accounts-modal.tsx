@@ -87,6 +87,11 @@ export function CloneToAccountsModal({
           : `Cloned to ${data.created} account${data.created !== 1 ? 's' : ''}`;
       if (data.errors?.length > 0) toast.error(msg);
       else toast.success(msg);
+      const brandWarnings: { accountKey: string; missingTokens: string[] }[] = data.brandWarnings || [];
+      if (brandWarnings.length > 0) {
+        const names = brandWarnings.map((warning) => accounts[warning.accountKey]?.dealer || warning.accountKey);
+        toast.warning(`Brand kit incomplete for ${names.join(', ')} — default theme values were used for missing tokens`);
+      }
       onClose();
       setSelected(new Set());
       setSearch('');
@@ -0,0 +1,316 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { PencilSquareIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import PrimaryButton from '@/components/primary-button';
+import { useLoomiDialog } from '@/contexts/loomi-dialog-context';
+
+export interface EditableContact {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  address1: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+  vehicleYear: string;
+  vehicleMake: string;
+  vehicleModel: string;
+  vehicleVin: string;
+  vehicleMileage: string;
+  lastServiceDate: string;
+  nextServiceDate: string;
+  leaseEndDate: string;
+  warrantyEndDate: string;
+  purchaseDate: string;
+  tags: string[];
+}
+
+type EditableField = Exclude<keyof EditableContact, 'tags'>;
+
+const FIELD_GROUPS: Array<{ label: string; fields: Array<{ key: EditableField; label: string; type?: string }> }> = [
+  {
+    label: 'Contact',
+    fields: [
+      { key: 'firstName', label: 'First Name' },
+      { key: 'lastName', label: 'Last Name' },
+      { key: 'email', label: 'Email', type: 'email' },
+      { key: 'phone', label: 'Phone', type: 'tel' },
+      { key: 'address1', label: 'Address' },
+      { key: 'city', label: 'City' },
+      { key: 'state', label: 'State' },
+      { key: 'postalCode', label: 'Postal Code' },
+      { key: 'country', label: 'Country' },
+    ],
+  },
+  {
+    label: 'Vehicle',
+    fields: [
+      { key: 'vehicleYear', label: 'Year' },
+      { key: 'vehicleMake', label: 'Make' },
+      { key: 'vehicleModel', label: 'Model' },
+      { key: 'vehicleVin', label: 'VIN' },
+      { key: 'vehicleMileage', label: 'Mileage' },
+    ],
+  },
+  {
+    label: 'Lifecycle',
+    fields: [
+      { key: 'lastServiceDate', label: 'Last Service', type: 'date' },
+      { key: 'nextServiceDate', label: 'Next Service', type: 'date' },
+      { key: 'purchaseDate', label: 'Purchase Date', type: 'date' },
+      { key: 'leaseEndDate', label: 'Lease End', type: 'date' },
+      { key: 'warrantyEndDate', label: 'Warranty End', type: 'date' },
+    ],
+  },
+];
+
+const EDITABLE_FIELDS: EditableField[] = FIELD_GROUPS.flatMap((group) => group.fields.map((field) => field.key));
+
+/** Date inputs need YYYY-MM-DD; providers may store full ISO timestamps. */
+function toInputValue(value: string, type?: string): string {
+  if (type === 'date' && value) return value.slice(0, 10);
+  return value || '';
+}
+
+function draftFromContact(contact: EditableContact): Record<EditableField, string> {
+  const draft = {} as Record<EditableField, string>;
+  for (const group of FIELD_GROUPS) {
+    for (const field of group.fields) {
+      draft[field.key] = toInputValue(contact[field.key], field.type);
+    }
+  }
+  return draft;
+}
+
+interface ContactEditPanelProps {
+  contactId: string;
+  accountKey: string;
+  contact: EditableContact;
+  canDelete: boolean;
+  onSaved: (contact: Partial<EditableContact>) => void;
+  onDeleted: () => void;
+}
+
+export function ContactEditPanel({
+  contactId,
+  accountKey,
+  contact,
+  canDelete,
+  onSaved,
+  onDeleted,
+}: ContactEditPanelProps) {
+  const { confirm } = useLoomiDialog();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<Record<EditableField, string>>(() => draftFromContact(contact));
+  const [tagInput, setTagInput] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const original = useMemo(() => draftFromContact(contact), [contact]);
+  const changedFields = useMemo(
+    () => EDITABLE_FIELDS.filter((key) => draft[key].trim() !== original[key]),
+    [draft, original],
+  );
+
+  useEffect(() => {
+    if (!editing) setDraft(original);
+  }, [editing, original]);
+
+  const contactUrl = `/api/esp/contacts/${encodeURIComponent(contactId)}?accountKey=${encodeURIComponent(accountKey)}`;
+
+  async function submit(body: Record<string, unknown>) {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch(contactUrl, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(typeof data.error === 'string' ? data.error : 'Failed to update contact');
+      }
+      return data as { contact?: Partial<EditableContact> | null };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update contact');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function saveFields() {
+    if (changedFields.length === 0) return;
+    const patch: Record<string, string> = {};
+    for (const key of changedFields) patch[key] = draft[key].trim();
+
+    const data = await submit({ contact: patch });
+    if (!data) return;
+    onSaved({ ...patch, ...(data.contact ?? {}) });
+    setEditing(false);
+    setSuccess('Contact updated.');
+  }
+
+  async function addTag() {
+    const tag = tagInput.trim();
+    if (!tag) return;
+    if (contact.tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) {
+      setTagInput('');
+      return;
+    }
+    const data = await submit({ addTags: [tag] });
+    if (!data) return;
+    onSaved({ tags: [...contact.tags, tag] });
+    setTagInput('');
+  }
+
+  async function removeTag(tag: string) {
+    const data = await submit({ removeTags: [tag] });
+    if (!data) return;
+    onSaved({ tags: contact.tags.filter((existing) => existing !== tag) });
+  }
+
+  async function deleteContact() {
+    const confirmed = await confirm({
+      title: 'Delete Contact',
+      message: 'Delete this contact from the connected ESP? This cannot be undone.',
+      confirmLabel: 'Delete',
+      destructive: true,
+    });
+    if (!confirmed) return;
+
+    setDeleting(true);
+    setError(null);
+    try {
+      const res = await fetch(contactUrl, { method: 'DELETE' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(typeof data.error === 'string' ? data.error : 'Failed to delete contact');
+      }
+      onDeleted();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete contact');
+      setDeleting(false);
+    }
+  }
+
+  return (
+    <section className="glass-card rounded-xl p-4 border border-[var(--border)]/70">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <h3 className="text-xs uppercase tracking-wider text-[var(--muted-foreground)]">
+          Edit Contact
+        </h3>
+        <div className="flex items-center gap-2">
+          {canDelete && (
+            <button
+              type="button"
+              onClick={deleteContact}
+              disabled={deleting || saving}
+              className="inline-flex items-center gap-1 px-2.5 py-1.5 text-[11px] rounded-lg border border-red-500/30 text-red-300 hover:bg-red-500/10 disabled:opacity-60"
+            >
+              <TrashIcon className="w-3.5 h-3.5" />
+              {deleting ? 'Deleting...' : 'Delete'}
+            </button>
+          )}
+          {!editing && (
+            <button
+              type="button"
+              onClick={() => { setEditing(true); setSuccess(null); }}
+              className="inline-flex items-center gap-1 px-2.5 py-1.5 text-[11px] rounded-lg border border-[var(--border)] text-[var(--muted-foreground)] hover:text-[var(--foreground)]"
+            >
+              <PencilSquareIcon className="w-3.5 h-3.5" />
+              Edit Fields
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="mb-3">
+        <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)] mb-1.5">Tags</p>
+        <div className="flex flex-wrap items-center gap-1.5">
+          {contact.tags.length === 0 && (
+            <span className="text-[11px] text-[var(--muted-foreground)]">No tags</span>
+          )}
+          {contact.tags.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-1 px-2 py-0.5 text-[11px] rounded-full bg-[var(--primary)]/10 text-[var(--primary)]"
+            >
+              {tag}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                disabled={saving}
+                className="hover:text-[var(--foreground)] disabled:opacity-60"
+                aria-label={`Remove tag ${tag}`}
+              >
+                <XMarkIcon className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addTag();
+              }
+            }}
+            placeholder="Add tag..."
+            disabled={saving}
+            className="h-7 w-32 px-2 text-[11px] rounded-lg border border-[var(--border)] bg-[var(--input)]"
+          />
+        </div>
+      </div>
+
+      {editing && (
+        <>
+          {FIELD_GROUPS.map((group) => (
+            <div key={group.label} className="mb-3">
+              <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)] mb-1.5">{group.label}</p>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {group.fields.map((field) => (
+                  <label key={field.key} className="block">
+                    <span className="text-[11px] text-[var(--muted-foreground)]">{field.label}</span>
+                    <input
+                      type={field.type || 'text'}
+                      value={draft[field.key]}
+                      onChange={(e) => setDraft((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                      className="mt-0.5 w-full h-8 px-2 text-sm rounded-lg border border-[var(--border)] bg-[var(--input)]"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => { setEditing(false); setError(null); }}
+              disabled={saving}
+              className="px-2.5 py-1.5 text-[11px] rounded-lg border border-[var(--border)] text-[var(--muted-foreground)] hover:text-[var(--foreground)] disabled:opacity-60"
+            >
+              Cancel
+            </button>
+            <PrimaryButton type="button" onClick={saveFields} disabled={changedFields.length === 0 || saving}>
+              {saving ? 'Saving...' : 'Save Contact'}
+            </PrimaryButton>
+          </div>
+        </>
+      )}
+
+      {error && <p className="mt-2 text-[11px] text-red-300">{error}</p>}
+      {success && !error && <p className="mt-2 text-[11px] text-emerald-300">{success}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowDownTrayIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import PrimaryButton from '@/components/primary-button';
+import type { FilterDefinition } from '@/lib/smart-list-types';
+import {
+  CONTACT_EXPORT_COLUMNS,
+  DEFAULT_EXPORT_COLUMN_KEYS,
+} from '@/lib/contact-csv';
+
+interface ContactExportModalProps {
+  accountKeys: string[];
+  audienceId: string | null;
+  /** Active preset/custom filter; ignored when an audience is selected. */
+  definition: FilterDefinition | null;
+  onClose: () => void;
+}
+
+export function ContactExportModal({
+  accountKeys,
+  audienceId,
+  definition,
+  onClose,
+}: ContactExportModalProps) {
+  const [columns, setColumns] = useState<string[]>(DEFAULT_EXPORT_COLUMN_KEYS);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function toggleColumn(key: string) {
+    setColumns((prev) => (prev.includes(key) ? prev.filter((value) => value !== key) : [...prev, key]));
+  }
+
+  async function download() {
+    setExporting(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/audiences/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          accountKeys,
+          columns,
+          ...(audienceId ? { audienceId } : definition ? { filters: definition } : {}),
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(typeof data.error === 'string' ? data.error : 'Failed to export contacts');
+      }
+
+      const blob = await res.blob();
+      const disposition = res.headers.get('Content-Disposition') || '';
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || 'contacts.csv';
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export contacts');
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  const scopeLabel = audienceId
+    ? 'Contacts in the selected audience'
+    : definition
+      ? 'Contacts matching the active filter'
+      : 'All contacts';
+
+  return (
+    <div
+      className="fixed inset-0 z-[70] flex items-center justify-center bg-black/55 backdrop-blur-[2px] p-4"
+      onClick={() => {
+        if (!exporting) onClose();
+      }}
+    >
+      <div
+        className="glass-modal w-full max-w-lg"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="p-4 border-b border-[var(--border)] flex items-center justify-between gap-3">
+          <div>
+            <h3 className="text-base font-semibold flex items-center gap-2">
+              <ArrowDownTrayIcon className="w-4 h-4" />
+              Export Contacts
+            </h3>
+            <p className="text-xs text-[var(--muted-foreground)] mt-1">
+              {scopeLabel}, from the contact index of {accountKeys.length === 1 ? 'this account' : `${accountKeys.length} accounts`}.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={exporting}
+            className="p-1.5 rounded-lg text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--muted)] disabled:opacity-50"
+          >
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)]">Columns</p>
+            <div className="flex items-center gap-2 text-[11px]">
+              <button
+                type="button"
+                onClick={() => setColumns(CONTACT_EXPORT_COLUMNS.map((column) => column.key))}
+                className="text-[var(--primary)] hover:underline"
+              >
+                All
+              </button>
+              <button
+                type="button"
+                onClick={() => setColumns(DEFAULT_EXPORT_COLUMN_KEYS)}
+                className="text-[var(--muted-foreground)] hover:text-[var(--foreground)]"
+              >
+                Reset
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-1.5">
+            {CONTACT_EXPORT_COLUMNS.map((column) => (
+              <label key={column.key} className="flex items-center gap-2 text-xs cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={columns.includes(column.key)}
+                  onChange={() => toggleColumn(column.key)}
+                />
+                {column.label}
+              </label>
+            ))}
+          </div>
+
+          {error && <p className="text-[11px] text-red-300">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-[var(--border)] flex items-center justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={exporting}
+            className="px-3 h-10 text-sm rounded-lg border border-[var(--border)] text-[var(--muted-foreground)] hover:text-[var(--foreground)] disabled:opacity-60"
+          >
+            Cancel
+          </button>
+          <PrimaryButton type="button" onClick={download} disabled={exporting || columns.length === 0}>
+            {exporting ? 'Exporting...' : 'Download CSV'}
+          </PrimaryButton>
+        </div>
+      </div>
+    </div>
+  );
+}
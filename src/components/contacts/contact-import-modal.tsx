@@ -0,0 +1,401 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  ArrowUpTrayIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import PrimaryButton from '@/components/primary-button';
+import {
+  CONTACT_IMPORT_FIELDS,
+  parseCsv,
+  type ContactColumnMapping,
+  type ContactImportField,
+} from '@/lib/contact-csv';
+
+interface PreviewRow {
+  row: number;
+  action: 'create' | 'update' | 'invalid';
+  contactId: string;
+  contact: Record<string, string>;
+  tags: string[];
+  errors: string[];
+}
+
+interface ImportPreview {
+  headers: string[];
+  mapping: ContactColumnMapping;
+  indexed: boolean;
+  totalRows: number;
+  createCount: number;
+  updateCount: number;
+  invalidCount: number;
+  rows: PreviewRow[];
+}
+
+interface ImportStatus {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  totalRows: number;
+  processedRows: number;
+  createdCount: number;
+  updatedCount: number;
+  failedCount: number;
+  lastError: string;
+}
+
+interface ContactImportModalProps {
+  accounts: { key: string; dealer: string }[];
+  defaultAccountKey?: string;
+  onClose: () => void;
+  onImported?: () => void;
+}
+
+const ACTION_STYLES: Record<PreviewRow['action'], string> = {
+  create: 'text-emerald-300',
+  update: 'text-sky-300',
+  invalid: 'text-red-300',
+};
+
+const POLL_INTERVAL_MS = 2000;
+
+export function ContactImportModal({
+  accounts,
+  defaultAccountKey,
+  onClose,
+  onImported,
+}: ContactImportModalProps) {
+  const [accountKey, setAccountKey] = useState(defaultAccountKey || accounts[0]?.key || '');
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState('');
+  const [mapping, setMapping] = useState<ContactColumnMapping | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [importStatus, setImportStatus] = useState<ImportStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sampleRow = useMemo(() => {
+    if (!csv) return [];
+    // Only the first lines are needed for sample values.
+    return parseCsv(csv.slice(0, 20_000))[1] ?? [];
+  }, [csv]);
+
+  const running = importStatus !== null && (importStatus.status === 'queued' || importStatus.status === 'running');
+
+  async function loadPreview(nextCsv: string, nextMapping: ContactColumnMapping | null) {
+    if (!accountKey || !nextCsv) return;
+    setPreviewing(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/esp/contacts/imports/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          accountKey,
+          csv: nextCsv,
+          ...(nextMapping ? { mapping: nextMapping } : {}),
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(typeof data.error === 'string' ? data.error : 'Failed to preview import');
+      }
+      setPreview(data as ImportPreview);
+      setMapping((data as ImportPreview).mapping);
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Failed to preview import');
+    } finally {
+      setPreviewing(false);
+    }
+  }
+
+  async function handleFile(file: File | null) {
+    if (!file) return;
+    const text = await file.text();
+    const headers = parseCsv(text.slice(0, 20_000))[0] ?? [];
+    setFileName(file.name);
+    setCsv(text);
+    setImportStatus(null);
+    setPreview(null);
+    setMapping(null);
+    if (headers.length === 0) {
+      setError('The file has no header row.');
+      return;
+    }
+    await loadPreview(text, null);
+  }
+
+  function updateMapping(index: number, value: string) {
+    if (!mapping) return;
+    const field = (value || null) as ContactImportField | null;
+    const next = mapping.map((current, i) => {
+      if (i === index) return field;
+      // A field can only be mapped once; the newest choice wins.
+      return field && current === field ? null : current;
+    });
+    setMapping(next);
+    void loadPreview(csv, next);
+  }
+
+  async function startImport() {
+    if (!accountKey || !csv || !mapping) return;
+    setStarting(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/esp/contacts/imports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accountKey, fileName, csv, mapping }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(typeof data.error === 'string' ? data.error : 'Failed to start import');
+      }
+      setImportStatus(data.import as ImportStatus);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start import');
+    } finally {
+      setStarting(false);
+    }
+  }
+
+  useEffect(() => {
+    if (!importStatus || !running) return;
+    const timer = setTimeout(async () => {
+      let next: ImportStatus | null = null;
+      try {
+        const res = await fetch(`/api/esp/contacts/imports/${encodeURIComponent(importStatus.id)}`);
+        const data = await res.json().catch(() => ({}));
+        if (res.ok && data.import) next = data.import as ImportStatus;
+      } catch {
+        next = null;
+      }
+      // A fresh object re-arms the poll even when a request failed.
+      setImportStatus((prev) => next ?? (prev ? { ...prev } : prev));
+      if (next?.status === 'completed') onImported?.();
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [importStatus, running, onImported]);
+
+  const progressPercent = importStatus && importStatus.totalRows > 0
+    ? Math.round((importStatus.processedRows / importStatus.totalRows) * 100)
+    : 0;
+
+  return (
+    <div
+      className="fixed inset-0 z-[70] flex items-center justify-center bg-black/55 backdrop-blur-[2px] p-4"
+      onClick={() => {
+        if (!starting) onClose();
+      }}
+    >
+      <div
+        className="glass-modal w-full max-w-3xl max-h-[90vh] flex flex-col"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="p-4 border-b border-[var(--border)] flex items-center justify-between gap-3">
+          <div>
+            <h3 className="text-base font-semibold flex items-center gap-2">
+              <ArrowUpTrayIcon className="w-4 h-4" />
+              Import Contacts
+            </h3>
+            <p className="text-xs text-[var(--muted-foreground)] mt-1">
+              Upload a DMS or CRM CSV export. Contacts are matched by email, then phone.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={starting}
+            className="p-1.5 rounded-lg text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--muted)] disabled:opacity-50"
+          >
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {!importStatus && (
+            <div className="grid gap-3 sm:grid-cols-2">
+              {accounts.length > 1 && (
+                <label className="block">
+                  <span className="block text-[11px] font-medium text-[var(--muted-foreground)] mb-1.5">Account</span>
+                  <select
+                    value={accountKey}
+                    onChange={(e) => {
+                      setAccountKey(e.target.value);
+                      setPreview(null);
+                      setMapping(null);
+                      setCsv('');
+                      setFileName('');
+                    }}
+                    className="w-full h-9 px-2 text-sm rounded-lg border border-[var(--border)] bg-[var(--input)]"
+                  >
+                    {accounts.map((account) => (
+                      <option key={account.key} value={account.key}>{account.dealer}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label className="block">
+                <span className="block text-[11px] font-medium text-[var(--muted-foreground)] mb-1.5">CSV File</span>
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  disabled={!accountKey || previewing}
+                  onChange={(e) => void handleFile(e.target.files?.[0] ?? null)}
+                  className="w-full text-sm file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border file:border-[var(--border)] file:bg-[var(--muted)] file:text-[var(--foreground)]"
+                />
+              </label>
+            </div>
+          )}
+
+          {previewing && (
+            <p className="text-xs text-[var(--muted-foreground)] flex items-center gap-1.5">
+              <ArrowPathIcon className="w-3.5 h-3.5 animate-spin" />
+              Checking rows...
+            </p>
+          )}
+
+          {!importStatus && preview && mapping && (
+            <>
+              <div>
+                <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)] mb-1.5">Column Mapping</p>
+                <div className="rounded-lg border border-[var(--border)] divide-y divide-[var(--border)]">
+                  {preview.headers.map((header, index) => (
+                    <div key={`${header}-${index}`} className="grid grid-cols-[minmax(0,1fr)_minmax(0,1fr)_180px] items-center gap-3 px-3 py-1.5 text-xs">
+                      <span className="font-medium truncate">{header || `Column ${index + 1}`}</span>
+                      <span className="text-[var(--muted-foreground)] truncate">{sampleRow[index] || '—'}</span>
+                      <select
+                        value={mapping[index] ?? ''}
+                        onChange={(e) => updateMapping(index, e.target.value)}
+                        className="h-7 px-2 text-xs rounded-lg border border-[var(--border)] bg-[var(--input)]"
+                      >
+                        <option value="">Skip column</option>
+                        {CONTACT_IMPORT_FIELDS.map((field) => (
+                          <option key={field.key} value={field.key}>{field.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                <SummaryTile label="Rows" value={preview.totalRows} />
+                <SummaryTile label="Create" value={preview.createCount} />
+                <SummaryTile label="Update" value={preview.updateCount} />
+                <SummaryTile label="Invalid" value={preview.invalidCount} />
+              </div>
+              {!preview.indexed && (
+                <p className="text-[11px] text-amber-300">
+                  This account has no contact index yet, so existing contacts are matched while the import runs.
+                </p>
+              )}
+
+              <div>
+                <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)] mb-1.5">
+                  Preview (first {preview.rows.length} rows)
+                </p>
+                <div className="rounded-lg border border-[var(--border)] max-h-64 overflow-y-auto">
+                  <table className="w-full text-xs">
+                    <thead className="text-[var(--muted-foreground)] text-left">
+                      <tr>
+                        <th className="px-3 py-1.5 font-medium">Row</th>
+                        <th className="px-3 py-1.5 font-medium">Action</th>
+                        <th className="px-3 py-1.5 font-medium">Contact</th>
+                        <th className="px-3 py-1.5 font-medium">Details</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-[var(--border)]">
+                      {preview.rows.map((row) => (
+                        <tr key={row.row}>
+                          <td className="px-3 py-1.5 text-[var(--muted-foreground)]">{row.row}</td>
+                          <td className={`px-3 py-1.5 font-medium capitalize ${ACTION_STYLES[row.action]}`}>{row.action}</td>
+                          <td className="px-3 py-1.5 truncate max-w-[220px]">
+                            {[row.contact.firstName, row.contact.lastName].filter(Boolean).join(' ') || row.contact.email || row.contact.phone || '—'}
+                          </td>
+                          <td className="px-3 py-1.5 text-[var(--muted-foreground)]">
+                            {row.errors.length > 0
+                              ? <span className="text-red-300">{row.errors.join('; ')}</span>
+                              : [row.contact.email, row.contact.phone, row.contact.vehicleVin].filter(Boolean).join(' · ')}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+
+          {importStatus && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between text-xs">
+                <span className="font-medium capitalize">{importStatus.status}</span>
+                <span className="text-[var(--muted-foreground)]">
+                  {importStatus.processedRows.toLocaleString()} / {importStatus.totalRows.toLocaleString()} rows
+                </span>
+              </div>
+              <div className="h-2 rounded-full bg-[var(--muted)] overflow-hidden">
+                <div className="h-full bg-[var(--primary)] transition-all" style={{ width: `${progressPercent}%` }} />
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <SummaryTile label="Created" value={importStatus.createdCount} />
+                <SummaryTile label="Updated" value={importStatus.updatedCount} />
+                <SummaryTile label="Failed" value={importStatus.failedCount} />
+              </div>
+              {importStatus.lastError && (
+                <p className="text-[11px] text-red-300">{importStatus.lastError}</p>
+              )}
+              {importStatus.failedCount > 0 && (
+                <a
+                  href={`/api/esp/contacts/imports/${encodeURIComponent(importStatus.id)}/errors`}
+                  className="inline-flex items-center gap-1.5 text-xs text-[var(--primary)] hover:underline"
+                >
+                  <ArrowDownTrayIcon className="w-3.5 h-3.5" />
+                  Download error report
+                </a>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-[11px] text-red-300">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-[var(--border)] flex items-center justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={starting}
+            className="px-3 h-10 text-sm rounded-lg border border-[var(--border)] text-[var(--muted-foreground)] hover:text-[var(--foreground)] disabled:opacity-60"
+          >
+            {importStatus ? 'Close' : 'Cancel'}
+          </button>
+          {!importStatus && (
+            <PrimaryButton
+              type="button"
+              onClick={startImport}
+              disabled={!preview || previewing || starting || preview.createCount + preview.updateCount === 0}
+            >
+              {starting
+                ? 'Starting...'
+                : `Import ${preview ? (preview.createCount + preview.updateCount).toLocaleString() : ''} Contacts`}
+            </PrimaryButton>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SummaryTile({ label, value }: { label: string; value: number }) {
+  return (
+    <div className="rounded-lg border border-[var(--border)] bg-[var(--muted)]/20 px-3 py-2">
+      <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)]">{label}</p>
+      <p className="text-sm font-medium mt-1">{value.toLocaleString()}</p>
+    </div>
+  );
+}
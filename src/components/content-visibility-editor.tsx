@@ -0,0 +1,174 @@
+'use client';
+
+import { FunnelIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import {
+  FIELD_CATEGORIES,
+  NO_VALUE_OPERATORS,
+  OPERATOR_LABELS,
+  type FilterCondition,
+  type FilterOperator,
+} from '@/lib/smart-list-types';
+import {
+  VISIBILITY_FIELDS,
+  describeVisibilityRule,
+  parseVisibilityRule,
+  serializeVisibilityRule,
+  visibilityOperatorsForField,
+  type VisibilityRule,
+} from '@/lib/content-conditions';
+
+interface ContentVisibilityEditorProps {
+  /** The component's `visible-if` prop (serialized rule), if any. */
+  value?: string;
+  /** Receives the serialized rule, or '' to show the section to everyone. */
+  onChange: (value: string) => void;
+}
+
+let nextId = 1;
+function uid() {
+  return `v${Date.now()}-${nextId++}`;
+}
+
+function createCondition(): FilterCondition {
+  return {
+    id: uid(),
+    field: 'vehicleYear',
+    operator: 'is_not_empty',
+    value: '',
+  };
+}
+
+/**
+ * Per-section visibility rule for the visual editor. Conditions use the
+ * audience filter operators that every ESP can evaluate at send time.
+ */
+export function ContentVisibilityEditor({ value, onChange }: ContentVisibilityEditorProps) {
+  const rule = parseVisibilityRule(value);
+
+  function commit(next: VisibilityRule | null) {
+    onChange(next && next.conditions.length > 0 ? serializeVisibilityRule(next) : '');
+  }
+
+  function updateCondition(id: string, updates: Partial<FilterCondition>) {
+    if (!rule) return;
+    commit({
+      ...rule,
+      conditions: rule.conditions.map((condition) =>
+        condition.id === id ? { ...condition, ...updates } : condition,
+      ),
+    });
+  }
+
+  function handleFieldChange(id: string, field: string) {
+    updateCondition(id, { field, operator: visibilityOperatorsForField(field)[0], value: '' });
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t border-[var(--border)]" data-no-component-drag>
+      <div className="flex items-center justify-between mb-2">
+        <span className="flex items-center gap-1.5 text-[10px] font-semibold uppercase tracking-wider text-[var(--muted-foreground)]">
+          <FunnelIcon className="w-3 h-3" />
+          Visibility
+        </span>
+        <select
+          value={rule ? 'rule' : 'always'}
+          onChange={(e) => commit(e.target.value === 'rule' ? { logic: 'AND', conditions: [createCondition()] } : null)}
+          className="bg-transparent text-[11px] text-[var(--foreground)] focus:outline-none"
+        >
+          <option value="always">Show to everyone</option>
+          <option value="rule">Only show when…</option>
+        </select>
+      </div>
+
+      {rule && (
+        <div className="space-y-2">
+          {rule.conditions.length > 1 && (
+            <div className="flex items-center gap-2 text-[10px] text-[var(--muted-foreground)]">
+              Match
+              <button
+                type="button"
+                onClick={() => commit({ ...rule, logic: rule.logic === 'AND' ? 'OR' : 'AND' })}
+                className="px-2 py-0.5 font-medium rounded border border-[var(--border)] hover:border-[var(--primary)] transition-colors"
+              >
+                {rule.logic === 'AND' ? 'ALL' : 'ANY'}
+              </button>
+              conditions
+            </div>
+          )}
+
+          {rule.conditions.map((condition) => {
+            const operators = visibilityOperatorsForField(condition.field);
+            const needsValue = !NO_VALUE_OPERATORS.includes(condition.operator);
+            return (
+              <div key={condition.id} className="rounded-lg border border-[var(--border)] p-2 space-y-1.5">
+                <div className="flex items-center gap-1.5">
+                  <select
+                    value={condition.field}
+                    onChange={(e) => handleFieldChange(condition.id, e.target.value)}
+                    className="flex-1 min-w-0 px-2 py-1 text-xs rounded-md border border-[var(--border)] bg-[var(--card)] focus:outline-none focus:border-[var(--primary)]"
+                  >
+                    {FIELD_CATEGORIES.map((category) => {
+                      const fields = VISIBILITY_FIELDS.filter((field) => field.category === category.key);
+                      if (fields.length === 0) return null;
+                      return (
+                        <optgroup key={category.key} label={category.label}>
+                          {fields.map((field) => (
+                            <option key={field.key} value={field.key}>{field.label}</option>
+                          ))}
+                        </optgroup>
+                      );
+                    })}
+                  </select>
+                  {rule.conditions.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => commit({
+                        ...rule,
+                        conditions: rule.conditions.filter((candidate) => candidate.id !== condition.id),
+                      })}
+                      className="p-1 rounded text-[var(--muted-foreground)] hover:text-red-400 transition-colors"
+                      title="Remove condition"
+                    >
+                      <TrashIcon className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+                <select
+                  value={condition.operator}
+                  onChange={(e) => updateCondition(condition.id, { operator: e.target.value as FilterOperator })}
+                  className="w-full px-2 py-1 text-xs rounded-md border border-[var(--border)] bg-[var(--card)] focus:outline-none focus:border-[var(--primary)]"
+                >
+                  {operators.map((operator) => (
+                    <option key={operator} value={operator}>{OPERATOR_LABELS[operator]}</option>
+                  ))}
+                </select>
+                {needsValue && (
+                  <input
+                    type="text"
+                    value={condition.value}
+                    onChange={(e) => updateCondition(condition.id, { value: e.target.value })}
+                    placeholder="Value"
+                    className="w-full px-2 py-1 text-xs rounded-md border border-[var(--border)] bg-transparent focus:outline-none focus:border-[var(--primary)]"
+                  />
+                )}
+              </div>
+            );
+          })}
+
+          <button
+            type="button"
+            onClick={() => commit({ ...rule, conditions: [...rule.conditions, createCondition()] })}
+            className="flex items-center gap-1 text-[10px] text-[var(--primary)] hover:text-[var(--primary)]/80 transition-colors"
+          >
+            <PlusIcon className="w-3 h-3" />
+            Add condition
+          </button>
+          <p className="text-[10px] text-[var(--muted-foreground)] leading-relaxed">
+            Shown only when {describeVisibilityRule(rule)}. Published as the ESP&apos;s own
+            conditional; comparisons may be case-sensitive there.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
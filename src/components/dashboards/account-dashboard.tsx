@@ -17,6 +17,7 @@ import { ContactAnalytics } from '@/components/contacts/contact-analytics';
 import { ContactListCompact } from '@/components/contacts/contact-list-compact';
 import { EmailAnalytics } from '@/components/analytics/email-analytics';
 import { CampaignAnalytics } from '@/components/campaigns/campaign-analytics';
+import type { EmailAbTestSummary } from '@/lib/services/email-ab-tests';
 import { FlowAnalytics } from '@/components/flows/flow-analytics';
 import { DashboardToolbar, type CustomDateRange } from '@/components/filters/dashboard-toolbar';
 import {
@@ -79,6 +80,7 @@ export function AccountDashboard() {
   const [contactsLoading, setContactsLoading] = useState(true);
   const [espCampaigns, setEspCampaigns] = useState<{ id: string; name: string; status: string }[]>([]);
   const [espWorkflows, setEspWorkflows] = useState<{ id: string; name: string; status: string }[]>([]);
+  const [abTests, setAbTests] = useState<EmailAbTestSummary[]>([]);
   const [campaignsLoading, setCampaignsLoading] = useState(true);
   const [loaded, setLoaded] = useState(false);
   const [dateRange, setDateRange] = useState<DateRangeKey>(DEFAULT_DATE_RANGE);
@@ -118,6 +120,12 @@ export function AccountDashboard() {
       if (workflowData.workflows) setEspWorkflows(workflowData.workflows);
       setCampaignsLoading(false);
     }).catch(() => setCampaignsLoading(false));
+
+    // Loomi A/B test results for this account
+    fetch(`/api/campaigns/email/ab-tests?accountKey=${encodeURIComponent(accountKey)}`)
+      .then(r => (r.ok ? r.json() : { tests: [] }))
+      .then(data => setAbTests(Array.isArray(data?.tests) ? data.tests : []))
+      .catch(() => setAbTests([]));
   }, [accountKey]);
 
   // Filter data by selected date range for analytics sections
@@ -280,6 +288,7 @@ export function AccountDashboard() {
             campaigns={espCampaigns}
             workflows={[]}
             loading={campaignsLoading}
+            abTests={abTests}
           />
         </div>
       )}
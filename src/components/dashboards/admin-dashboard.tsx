@@ -18,6 +18,7 @@ import { EmailAnalytics } from '@/components/analytics/email-analytics';
 import { AccountHealthGrid } from '@/components/analytics/account-health-grid';
 import { ContactAnalytics } from '@/components/contacts/contact-analytics';
 import { CampaignAnalytics } from '@/components/campaigns/campaign-analytics';
+import type { EmailAbTestSummary } from '@/lib/services/email-ab-tests';
 import { FlowAnalytics } from '@/components/flows/flow-analytics';
 import { DashboardToolbar, type CustomDateRange, type AccountOption } from '@/components/filters/dashboard-toolbar';
 import {
@@ -104,6 +105,7 @@ export function AdminDashboard() {
   const [contactsLoading, setContactsLoading] = useState(true);
   const [espCampaigns, setEspCampaigns] = useState<{ id: string; name: string; status: string; accountKey?: string; dealer?: string }[]>([]);
   const [espWorkflows, setEspWorkflows] = useState<{ id: string; name: string; status: string; accountKey?: string; dealer?: string }[]>([]);
+  const [abTests, setAbTests] = useState<EmailAbTestSummary[]>([]);
   const [campaignsLoading, setCampaignsLoading] = useState(true);
   const [loaded, setLoaded] = useState(false);
   const [dateRange, setDateRange] = useState<DateRangeKey>(DEFAULT_DATE_RANGE);
@@ -171,6 +173,12 @@ export function AdminDashboard() {
       if (workflowData.workflows) setEspWorkflows(workflowData.workflows);
       setCampaignsLoading(false);
     }).catch(() => setCampaignsLoading(false));
+
+    // Loomi A/B test results
+    fetch('/api/campaigns/email/ab-tests')
+      .then(r => (r.ok ? r.json() : { tests: [] }))
+      .then(data => setAbTests(Array.isArray(data?.tests) ? data.tests : []))
+      .catch(() => setAbTests([]));
   }, []);
 
   // Filter data — account filter first, then date range
@@ -397,6 +405,7 @@ export function AdminDashboard() {
           loading={campaignsLoading}
           showAccountBreakdown={!hasAccountSelection}
           accountNames={accountNames}
+          abTests={abTests}
         />
       </div>
 
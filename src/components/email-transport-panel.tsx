@@ -0,0 +1,327 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { PaperAirplaneIcon } from '@heroicons/react/24/outline';
+import PrimaryButton from '@/components/primary-button';
+import { useLoomiDialog } from '@/contexts/loomi-dialog-context';
+import { safeJson } from '@/lib/safe-json';
+import { toast } from '@/lib/toast';
+import {
+  EMAIL_TRANSPORT_DESCRIPTIONS,
+  EMAIL_TRANSPORT_LABELS,
+  EMAIL_TRANSPORT_PROVIDERS,
+  type EmailTransportKind,
+  type EmailTransportProvider,
+} from '@/lib/email-transport-options';
+import type { EmailTrackingPolicy } from '@/lib/email-tracking-options';
+
+interface TransportSettings {
+  configured: boolean;
+  provider: EmailTransportProvider | null;
+  fromEmail: string;
+  fromName: string;
+  replyTo: string;
+  smtpHost: string;
+  smtpPort: number | null;
+  smtpUser: string;
+  hasSmtpPassword: boolean;
+  updatedAt: string | null;
+  connectedProviders: Record<EmailTransportProvider, boolean>;
+  defaultAvailable: boolean;
+  tracking: EmailTrackingPolicy;
+}
+
+interface EmailTransportPanelProps {
+  accountKey: string;
+  /** Changes when the account's ESP connections change, so availability is re-read. */
+  connectionsVersion?: string;
+}
+
+/**
+ * Per-account sending transport for Loomi-native email campaigns
+ * (SendGrid Mail Send, Klaviyo or the dealer's own SMTP server).
+ */
+export function EmailTransportPanel({ accountKey, connectionsVersion }: EmailTransportPanelProps) {
+  const { confirm, prompt } = useLoomiDialog();
+  const [settings, setSettings] = useState<TransportSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [provider, setProvider] = useState<EmailTransportProvider>('sendgrid');
+  const [fromEmail, setFromEmail] = useState('');
+  const [fromName, setFromName] = useState('');
+  const [replyTo, setReplyTo] = useState('');
+  const [smtpHost, setSmtpHost] = useState('');
+  const [smtpPort, setSmtpPort] = useState('587');
+  const [smtpUser, setSmtpUser] = useState('');
+  const [smtpPass, setSmtpPass] = useState('');
+  const [savingTracking, setSavingTracking] = useState(false);
+
+  const applySettings = useCallback((next: TransportSettings) => {
+    setSettings(next);
+    setProvider(next.provider ?? (next.connectedProviders.sendgrid ? 'sendgrid' : next.connectedProviders.klaviyo ? 'klaviyo' : 'smtp'));
+    setFromEmail(next.fromEmail);
+    setFromName(next.fromName);
+    setReplyTo(next.replyTo);
+    setSmtpHost(next.smtpHost);
+    setSmtpPort(String(next.smtpPort ?? 587));
+    setSmtpUser(next.smtpUser);
+    setSmtpPass('');
+  }, []);
+
+  useEffect(() => {
+    if (!accountKey) return;
+    setLoading(true);
+    fetch(`/api/accounts/${encodeURIComponent(accountKey)}/email-transport`)
+      .then((res) => safeJson<{ transport: TransportSettings }>(res))
+      .then(({ ok, data, error }) => {
+        if (!ok || !data) throw new Error(error || 'Failed to load email sending settings');
+        applySettings(data.transport);
+      })
+      .catch((err) => toast.error(err instanceof Error ? err.message : 'Failed to load email sending settings'))
+      .finally(() => setLoading(false));
+  }, [accountKey, connectionsVersion, applySettings]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/accounts/${encodeURIComponent(accountKey)}/email-transport`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          provider,
+          fromEmail,
+          fromName,
+          replyTo,
+          ...(provider === 'smtp' ? { smtpHost, smtpPort, smtpUser, smtpPass } : {}),
+        }),
+      });
+      const { ok, data, error } = await safeJson<{ transport: TransportSettings }>(res);
+      if (!ok || !data) throw new Error(error || 'Failed to save email sending settings');
+      applySettings(data.transport);
+      toast.success('Email sending settings saved');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save email sending settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    const confirmed = await confirm({
+      title: 'Use Loomi default sending?',
+      message: 'Campaigns for this account will go out through the shared Loomi SMTP relay and From address.',
+      confirmLabel: 'Remove',
+      destructive: true,
+    });
+    if (!confirmed) return;
+    try {
+      const res = await fetch(`/api/accounts/${encodeURIComponent(accountKey)}/email-transport`, { method: 'DELETE' });
+      const { ok, data, error } = await safeJson<{ transport: TransportSettings }>(res);
+      if (!ok || !data) throw new Error(error || 'Failed to remove email sending settings');
+      applySettings(data.transport);
+      toast.success('Email sending reset to Loomi default');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove email sending settings');
+    }
+  };
+
+  const handleTrackingChange = async (key: keyof EmailTrackingPolicy, value: boolean) => {
+    if (!settings) return;
+    const tracking = { ...settings.tracking, [key]: value };
+    setSavingTracking(true);
+    try {
+      const res = await fetch(`/api/accounts/${encodeURIComponent(accountKey)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ emailTrackingPolicy: tracking }),
+      });
+      const { ok, error } = await safeJson(res);
+      if (!ok) throw new Error(error || 'Failed to update tracking');
+      setSettings({ ...settings, tracking });
+      toast.success(`${key === 'opens' ? 'Open' : 'Click'} tracking ${value ? 'enabled' : 'disabled'}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update tracking');
+    } finally {
+      setSavingTracking(false);
+    }
+  };
+
+  const handleTest = async () => {
+    const to = await prompt({
+      title: 'Send test email',
+      message: 'Sends a short test message through the saved transport.',
+      placeholder: 'you@dealership.com',
+      confirmLabel: 'Send Test',
+      required: true,
+    });
+    if (!to?.trim()) return;
+    setTesting(true);
+    try {
+      const res = await fetch(`/api/accounts/${encodeURIComponent(accountKey)}/email-transport/test`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ to: to.trim() }),
+      });
+      const { ok, data, error } = await safeJson<{ kind: EmailTransportKind }>(res);
+      if (!ok || !data) throw new Error(error || 'Failed to send test email');
+      toast.success(`Test email sent via ${EMAIL_TRANSPORT_LABELS[data.kind]}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to send test email');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  if (loading || !settings) {
+    return (
+      <section className="glass-section-card rounded-xl p-6">
+        <p className="text-sm text-[var(--muted-foreground)]">Loading email sending settings...</p>
+      </section>
+    );
+  }
+
+  const inputClass = 'w-full px-3 py-2 text-sm rounded-lg border border-[var(--border)] bg-[var(--card)] focus:outline-none focus:border-[var(--primary)]';
+  const labelClass = 'block text-xs font-medium text-[var(--muted-foreground)] mb-1.5';
+  const providerAvailable = settings.connectedProviders[provider];
+
+  return (
+    <section className="glass-section-card rounded-xl p-6 space-y-5">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-semibold text-[var(--foreground)] mb-1">Email Sending</h2>
+          <p className="text-xs text-[var(--muted-foreground)]">
+            {settings.configured && settings.provider
+              ? `Loomi email campaigns for this account send via ${EMAIL_TRANSPORT_LABELS[settings.provider]} as ${settings.fromEmail}.`
+              : settings.defaultAvailable
+                ? 'Using the shared Loomi SMTP relay. Choose a transport to send from the dealer\'s own domain and reputation.'
+                : 'No sending transport is configured — email campaigns for this account will fail until one is set up.'}
+          </p>
+        </div>
+        <button
+          onClick={handleTest}
+          disabled={testing || (!settings.configured && !settings.defaultAvailable)}
+          className="inline-flex items-center gap-1.5 px-3 py-2 border border-[var(--border)] rounded-lg text-xs font-medium text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--muted)] disabled:opacity-50 transition-colors flex-shrink-0"
+        >
+          <PaperAirplaneIcon className="w-3.5 h-3.5" />
+          {testing ? 'Sending...' : 'Send Test'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {EMAIL_TRANSPORT_PROVIDERS.map((option) => {
+          const available = settings.connectedProviders[option];
+          const active = provider === option;
+          return (
+            <button
+              key={option}
+              onClick={() => setProvider(option)}
+              className={`text-left rounded-lg border p-3 transition-colors ${
+                active
+                  ? 'border-[var(--primary)] bg-[var(--primary)]/10'
+                  : 'border-[var(--border)] hover:bg-[var(--muted)]'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium">{EMAIL_TRANSPORT_LABELS[option]}</span>
+                {!available && (
+                  <span className="text-[10px] text-amber-400 bg-amber-500/10 rounded px-1.5 py-0.5">Not connected</span>
+                )}
+              </div>
+              <p className="text-[11px] text-[var(--muted-foreground)] mt-1 leading-relaxed">
+                {EMAIL_TRANSPORT_DESCRIPTIONS[option]}
+              </p>
+            </button>
+          );
+        })}
+      </div>
+
+      {!providerAvailable && (
+        <p className="text-xs text-amber-400">
+          Connect {EMAIL_TRANSPORT_LABELS[provider]} above before sending through it.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label className={labelClass}>From Email</label>
+          <input value={fromEmail} onChange={(e) => setFromEmail(e.target.value)} placeholder="offers@dealership.com" className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>From Name</label>
+          <input value={fromName} onChange={(e) => setFromName(e.target.value)} placeholder="Young Honda" className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>Reply-To</label>
+          <input value={replyTo} onChange={(e) => setReplyTo(e.target.value)} placeholder="Optional" className={inputClass} />
+        </div>
+      </div>
+
+      {provider === 'smtp' && (
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+          <div className="sm:col-span-2">
+            <label className={labelClass}>SMTP Host</label>
+            <input value={smtpHost} onChange={(e) => setSmtpHost(e.target.value)} placeholder="smtp.dealership.com" className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Port</label>
+            <input value={smtpPort} onChange={(e) => setSmtpPort(e.target.value.replace(/\D/g, ''))} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Username</label>
+            <input value={smtpUser} onChange={(e) => setSmtpUser(e.target.value)} className={inputClass} autoComplete="off" />
+          </div>
+          <div className="sm:col-span-2">
+            <label className={labelClass}>Password</label>
+            <input
+              type="password"
+              value={smtpPass}
+              onChange={(e) => setSmtpPass(e.target.value)}
+              placeholder={settings.hasSmtpPassword ? 'Saved — leave blank to keep' : ''}
+              className={inputClass}
+              autoComplete="new-password"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="border-t border-[var(--border)] pt-4">
+        <h3 className="text-xs font-semibold text-[var(--foreground)] mb-1">Engagement Tracking</h3>
+        <p className="text-[11px] text-[var(--muted-foreground)] mb-3">
+          Loomi adds an open pixel and signed click redirects to campaign emails so opens and clicks show up in campaign stats.
+        </p>
+        <div className="flex flex-wrap gap-5">
+          {([
+            ['opens', 'Track opens'],
+            ['clicks', 'Track link clicks'],
+          ] as const).map(([key, label]) => (
+            <label key={key} className="inline-flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.tracking[key]}
+                disabled={savingTracking}
+                onChange={(e) => handleTrackingChange(key, e.target.checked)}
+                className="rounded border-[var(--border)]"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        {settings.configured && (
+          <button
+            onClick={handleRemove}
+            className="px-3.5 py-2 border border-[var(--border)] rounded-lg text-sm font-medium text-[var(--muted-foreground)] hover:text-red-400 hover:bg-red-500/10 transition-colors"
+          >
+            Use Loomi Default
+          </button>
+        )}
+        <PrimaryButton onClick={handleSave} disabled={saving || !fromEmail.trim() || !providerAvailable}>
+          {saving ? 'Saving...' : 'Save Sending Settings'}
+        </PrimaryButton>
+      </div>
+    </section>
+  );
+}
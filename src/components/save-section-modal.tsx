@@ -0,0 +1,250 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ArrowPathIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { toast } from '@/lib/toast';
+import type { SavedSectionSummary } from '@/lib/saved-sections';
+import type { ParsedComponent } from '@/lib/template-parser';
+
+export interface SectionComponentOption {
+  /** Position in the template's component list. */
+  index: number;
+  label: string;
+  detail?: string;
+}
+
+interface SaveSectionModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** The template's components; the selected ones are saved. */
+  components: ParsedComponent[];
+  options: SectionComponentOption[];
+  initialIndexes: number[];
+  /** Existing sections the selection can replace as a new version. */
+  sections: SavedSectionSummary[];
+  accountKey: string | null;
+  /** Called with the saved section; `updatedExisting` is true when a new version was created. */
+  onSaved: (section: SavedSectionSummary, indexes: number[], updatedExisting: boolean) => void;
+}
+
+type SaveTarget = 'new' | 'existing';
+
+/**
+ * Save template components as a reusable section, either a new one or a new
+ * version of an existing one. The caller swaps the components for a reference.
+ */
+export function SaveSectionModal({
+  open,
+  onClose,
+  components,
+  options,
+  initialIndexes,
+  sections,
+  accountKey,
+  onSaved,
+}: SaveSectionModalProps) {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [target, setTarget] = useState<SaveTarget>('new');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [shared, setShared] = useState(false);
+  const [existingId, setExistingId] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelected(new Set(initialIndexes));
+    setTarget('new');
+    setName('');
+    setDescription('');
+    setShared(!accountKey);
+    setExistingId('');
+    setNote('');
+  }, [open, initialIndexes, accountKey]);
+
+  if (!open) return null;
+
+  const indexes = options.map((option) => option.index).filter((index) => selected.has(index));
+  const canSave = indexes.length > 0 && (target === 'new' ? name.trim().length > 0 : existingId !== '');
+
+  const toggle = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const save = async () => {
+    if (!canSave) return;
+    setSaving(true);
+    try {
+      const payload = indexes.map((index) => components[index]);
+      const res = target === 'new'
+        ? await fetch('/api/saved-sections', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: name.trim(),
+            description: description.trim() || undefined,
+            accountKey: shared ? undefined : accountKey,
+            components: payload,
+          }),
+        })
+        : await fetch(`/api/saved-sections/${existingId}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ components: payload, note: note.trim() || undefined }),
+        });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.section) throw new Error(data.error || 'Failed to save section');
+      toast.success(target === 'new' ? `Saved "${data.section.name}"` : `Saved version ${data.section.version} of "${data.section.name}"`);
+      onSaved(data.section, indexes, target === 'existing');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save section');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 animate-overlay-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass-modal w-[520px] max-w-[calc(100vw-3rem)] max-h-[82vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-4 border-b border-[var(--border)] flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-semibold">Save as section</h3>
+            <p className="text-xs text-[var(--muted-foreground)] mt-0.5">
+              Templates reference the section, so later updates can be applied everywhere it&apos;s used
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors"
+          >
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto p-5 space-y-4">
+          <div>
+            <p className="text-[10px] font-semibold uppercase tracking-wider text-[var(--muted-foreground)] mb-2">
+              Components
+            </p>
+            <div className="space-y-1">
+              {options.map((option) => (
+                <label
+                  key={option.index}
+                  className="flex items-center gap-2 px-3 py-2 rounded-lg border border-[var(--border)] hover:bg-[var(--muted)] cursor-pointer text-sm"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(option.index)}
+                    onChange={() => toggle(option.index)}
+                  />
+                  <span className="font-medium">{option.label}</span>
+                  {option.detail && (
+                    <span className="text-xs text-[var(--muted-foreground)] truncate">{option.detail}</span>
+                  )}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-1 p-0.5 rounded-lg bg-[var(--muted)] w-fit">
+            {(['new', 'existing'] as const).map((key) => (
+              <button
+                key={key}
+                onClick={() => setTarget(key)}
+                disabled={key === 'existing' && sections.length === 0}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-colors disabled:opacity-40 ${
+                  target === key ? 'bg-[var(--card)] text-[var(--foreground)]' : 'text-[var(--muted-foreground)]'
+                }`}
+              >
+                {key === 'new' ? 'New section' : 'Update existing'}
+              </button>
+            ))}
+          </div>
+
+          {target === 'new' ? (
+            <div className="space-y-3">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Section name, e.g. Service footer"
+                maxLength={120}
+                className="w-full px-3 py-2 text-sm rounded-lg border border-[var(--border)] bg-[var(--input)] focus:outline-none focus:border-[var(--primary)]"
+              />
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Description (optional)"
+                maxLength={500}
+                className="w-full px-3 py-2 text-sm rounded-lg border border-[var(--border)] bg-[var(--input)] focus:outline-none focus:border-[var(--primary)]"
+              />
+              {accountKey && (
+                <label className="flex items-center gap-2 text-xs text-[var(--muted-foreground)]">
+                  <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+                  Share with every account
+                </label>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <select
+                value={existingId}
+                onChange={(e) => setExistingId(e.target.value)}
+                className="w-full px-3 py-2 text-sm rounded-lg border border-[var(--border)] bg-[var(--card)] focus:outline-none focus:border-[var(--primary)]"
+              >
+                <option value="">Choose a section…</option>
+                {sections.map((section) => (
+                  <option key={section.id} value={section.id}>
+                    {section.name} (v{section.version}{section.accountKey ? '' : ', shared'})
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="What changed (optional)"
+                maxLength={500}
+                className="w-full px-3 py-2 text-sm rounded-lg border border-[var(--border)] bg-[var(--input)] focus:outline-none focus:border-[var(--primary)]"
+              />
+              <p className="text-[11px] text-[var(--muted-foreground)] leading-relaxed">
+                The selection replaces the section&apos;s components as a new version. Other templates keep
+                the version they use until you apply the update to them.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="px-5 py-3 border-t border-[var(--border)] flex items-center justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-[var(--muted)] hover:bg-[var(--accent)] transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={!canSave || saving}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-[var(--primary)] text-white hover:opacity-90 disabled:opacity-40 transition-opacity"
+          >
+            {saving && <ArrowPathIcon className="w-3.5 h-3.5 animate-spin" />}
+            {target === 'new' ? 'Save section' : 'Save new version'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowPathIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { useLoomiDialog } from '@/contexts/loomi-dialog-context';
+import { toast } from '@/lib/toast';
+import type { SavedSectionUsage, SavedSectionUsageKind } from '@/lib/saved-sections';
+
+interface SavedSectionImpactModalProps {
+  open: boolean;
+  onClose: () => void;
+  sectionId: string;
+  sectionName: string;
+}
+
+const KIND_LABELS: Record<SavedSectionUsageKind, string> = {
+  'esp-template': 'Template',
+  'library-template': 'Library',
+  'account-email': 'Account email',
+};
+
+function usageKey(usage: Pick<SavedSectionUsage, 'kind' | 'id'>): string {
+  return `${usage.kind}:${usage.id}`;
+}
+
+/**
+ * Impact preview for a saved section update: every template that uses the
+ * section and the version it pins, with the option to move the outdated
+ * ones to the latest version.
+ */
+export function SavedSectionImpactModal({
+  open,
+  onClose,
+  sectionId,
+  sectionName,
+}: SavedSectionImpactModalProps) {
+  const { confirm } = useLoomiDialog();
+  const [usages, setUsages] = useState<SavedSectionUsage[]>([]);
+  const [version, setVersion] = useState<number | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const loadUsage = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/saved-sections/${sectionId}/usage`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to load where this section is used');
+      const next: SavedSectionUsage[] = Array.isArray(data.usages) ? data.usages : [];
+      setUsages(next);
+      setVersion(typeof data.section?.version === 'number' ? data.section.version : null);
+      setSelected(new Set(next.filter((usage) => usage.outdated).map(usageKey)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load where this section is used');
+    } finally {
+      setLoading(false);
+    }
+  }, [sectionId]);
+
+  useEffect(() => {
+    if (!open) {
+      setUsages([]);
+      setSelected(new Set());
+      return;
+    }
+    loadUsage();
+  }, [open, loadUsage]);
+
+  if (!open) return null;
+
+  const outdated = usages.filter((usage) => usage.outdated);
+  const targets = outdated.filter((usage) => selected.has(usageKey(usage)));
+  const republishCount = targets.filter((usage) => usage.publishedToEsp).length;
+
+  const toggle = (usage: SavedSectionUsage) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      const key = usageKey(usage);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const apply = async () => {
+    if (targets.length === 0) return;
+    const confirmed = await confirm({
+      title: 'Apply section update',
+      message: `Move ${targets.length} template${targets.length === 1 ? '' : 's'} to version ${version} of "${sectionName}"?${republishCount > 0 ? ` ${republishCount} published template${republishCount === 1 ? ' needs' : 's need'} to be republished (and re-approved) before the ESP copy changes.` : ''}`,
+      confirmLabel: `Apply to ${targets.length}`,
+    });
+    if (!confirmed) return;
+    setApplying(true);
+    try {
+      const res = await fetch(`/api/saved-sections/${sectionId}/propagate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targets: targets.map(({ kind, id }) => ({ kind, id })) }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to apply the update');
+      const updated = Array.isArray(data.updated) ? data.updated.length : 0;
+      const failed = Array.isArray(data.failed) ? data.failed.length : 0;
+      if (failed > 0) toast.error(`Updated ${updated}, ${failed} failed`);
+      else toast.success(`Updated ${updated} template${updated === 1 ? '' : 's'}`);
+      await loadUsage();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to apply the update');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 animate-overlay-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass-modal w-[620px] max-w-[calc(100vw-3rem)] max-h-[82vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-4 border-b border-[var(--border)] flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-semibold">Where &ldquo;{sectionName}&rdquo; is used</h3>
+            <p className="text-xs text-[var(--muted-foreground)] mt-0.5">
+              {version !== null && `Latest is version ${version}. `}
+              Templates stay on their version until the update is applied.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors"
+          >
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto p-3 space-y-1.5">
+          {loading && usages.length === 0 ? (
+            <p className="text-xs text-[var(--muted-foreground)] px-2 py-2">Finding templates...</p>
+          ) : usages.length === 0 ? (
+            <p className="text-xs text-[var(--muted-foreground)] px-2 py-2">No saved template uses this section yet.</p>
+          ) : (
+            usages.map((usage) => (
+              <label
+                key={usageKey(usage)}
+                className={`flex items-center gap-3 p-3 rounded-lg border border-[var(--border)] text-sm ${
+                  usage.outdated ? 'cursor-pointer hover:bg-[var(--muted)]' : 'opacity-60'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={usage.outdated && selected.has(usageKey(usage))}
+                  disabled={!usage.outdated}
+                  onChange={() => toggle(usage)}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{usage.name}</p>
+                  <p className="text-[10px] text-[var(--muted-foreground)] mt-0.5">
+                    {KIND_LABELS[usage.kind]}
+                    {usage.accountKey && ` · ${usage.accountKey}`}
+                    {usage.publishedToEsp && ' · published to ESP'}
+                  </p>
+                </div>
+                <span
+                  className={`text-[10px] font-medium px-2 py-0.5 rounded-full ${
+                    usage.outdated ? 'text-amber-300 bg-amber-500/10' : 'text-emerald-300 bg-emerald-500/10'
+                  }`}
+                >
+                  {usage.outdated ? `v${usage.pinnedVersion} → v${version}` : 'Up to date'}
+                </span>
+              </label>
+            ))
+          )}
+        </div>
+
+        <div className="px-5 py-3 border-t border-[var(--border)] flex items-center justify-between gap-2">
+          <p className="text-[11px] text-[var(--muted-foreground)]">
+            {outdated.length === 0 ? 'Everything uses the latest version.' : `${outdated.length} outdated`}
+          </p>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onClose}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium bg-[var(--muted)] hover:bg-[var(--accent)] transition-colors"
+            >
+              Close
+            </button>
+            <button
+              onClick={apply}
+              disabled={targets.length === 0 || applying}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-[var(--primary)] text-white hover:opacity-90 disabled:opacity-40 transition-opacity"
+            >
+              {applying && <ArrowPathIcon className="w-3.5 h-3.5 animate-spin" />}
+              Apply to {targets.length}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
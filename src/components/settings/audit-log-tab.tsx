@@ -0,0 +1,405 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react';
+import { ArrowDownTrayIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { useAccount } from '@/contexts/account-context';
+import { toast } from '@/lib/toast';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  MAX_AUDIT_RETENTION_DAYS,
+  MIN_AUDIT_RETENTION_DAYS,
+  isAuditAction,
+  isAuditTargetType,
+  type AuditChanges,
+} from '@/lib/audit-actions';
+
+interface AuditEventItem {
+  id: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  targetLabel: string;
+  accountKey: string;
+  actorUserId: string;
+  actorName: string;
+  actorEmail: string;
+  actorRole: string;
+  impersonatorUserId: string;
+  impersonatorName: string;
+  changes: AuditChanges;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+interface Filters {
+  action: string;
+  targetType: string;
+  accountKey: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { action: '', targetType: '', accountKey: '', from: '', to: '' };
+
+const INPUT_CLASS =
+  'h-8 px-2 text-xs rounded-lg border border-[var(--border)] bg-[var(--input)] text-[var(--foreground)]';
+
+function formatDateTime(value: string): string {
+  if (!value) return '—';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '—' : date.toLocaleString();
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+function buildQuery(filters: Filters, cursor?: string | null): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  if (cursor) params.set('cursor', cursor);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+export function AuditLogTab() {
+  const { accounts } = useAccount();
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [events, setEvents] = useState<AuditEventItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [retentionDays, setRetentionDays] = useState('');
+  const [savedRetentionDays, setSavedRetentionDays] = useState<number | null>(null);
+  const [savingRetention, setSavingRetention] = useState(false);
+
+  const accountOptions = useMemo(
+    () => Object.entries(accounts)
+      .map(([key, account]) => ({ key, label: account.dealer || key }))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+    [accounts],
+  );
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/audit-log${buildQuery(filters)}`);
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      setEvents(json.events || []);
+      setNextCursor(json.nextCursor || null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch('/api/audit-log/settings');
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+        setRetentionDays(String(json.settings.retentionDays));
+        setSavedRetentionDays(json.settings.retentionDays);
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to load audit settings');
+      }
+    })();
+  }, []);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const res = await fetch(`/api/audit-log${buildQuery(filters, nextCursor)}`);
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      setEvents((prev) => [...prev, ...(json.events || [])]);
+      setNextCursor(json.nextCursor || null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load audit log');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const saveRetention = async () => {
+    setSavingRetention(true);
+    try {
+      const res = await fetch('/api/audit-log/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ retentionDays: Number(retentionDays) }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      setSavedRetentionDays(json.settings.retentionDays);
+      toast.success('Retention updated');
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update retention');
+    } finally {
+      setSavingRetention(false);
+    }
+  };
+
+  const setFilter = (key: keyof Filters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="max-w-5xl space-y-6">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <p className="text-xs text-[var(--muted-foreground)]">
+          Who changed what across every account — account edits, ESP connections, publishes, campaign sends,
+          user management and impersonation.
+        </p>
+        <div className="flex items-center gap-2">
+          <a
+            href={`/api/audit-log/export${buildQuery(filters)}`}
+            className="inline-flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-lg border border-[var(--border)] text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors"
+          >
+            <ArrowDownTrayIcon className="w-3.5 h-3.5" />
+            Export CSV
+          </a>
+          <button
+            type="button"
+            onClick={() => load()}
+            className="inline-flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-lg border border-[var(--border)] text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors"
+          >
+            <ArrowPathIcon className="w-3.5 h-3.5" />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <section className="glass-section-card rounded-xl p-6">
+        <div className="flex items-end gap-2 flex-wrap mb-4">
+          <label className="block">
+            <span className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)]">Action</span>
+            <select
+              value={filters.action}
+              onChange={(e) => setFilter('action', e.target.value)}
+              className={`mt-0.5 block ${INPUT_CLASS}`}
+            >
+              <option value="">All actions</option>
+              {Object.entries(AUDIT_ACTIONS).map(([action, label]) => (
+                <option key={action} value={action}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)]">Target</span>
+            <select
+              value={filters.targetType}
+              onChange={(e) => setFilter('targetType', e.target.value)}
+              className={`mt-0.5 block ${INPUT_CLASS}`}
+            >
+              <option value="">All targets</option>
+              {Object.entries(AUDIT_TARGET_TYPES).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)]">Account</span>
+            <select
+              value={filters.accountKey}
+              onChange={(e) => setFilter('accountKey', e.target.value)}
+              className={`mt-0.5 block max-w-[200px] ${INPUT_CLASS}`}
+            >
+              <option value="">All accounts</option>
+              {accountOptions.map((account) => (
+                <option key={account.key} value={account.key}>{account.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)]">From</span>
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilter('from', e.target.value)}
+              className={`mt-0.5 block ${INPUT_CLASS}`}
+            />
+          </label>
+          <label className="block">
+            <span className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)]">To</span>
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilter('to', e.target.value)}
+              className={`mt-0.5 block ${INPUT_CLASS}`}
+            />
+          </label>
+          {hasFilters && (
+            <button
+              type="button"
+              onClick={() => setFilters(EMPTY_FILTERS)}
+              className="px-2.5 py-1 h-8 text-[11px] font-medium rounded-lg border border-[var(--border)] text-[var(--muted-foreground)] hover:bg-[var(--muted)]"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+
+        {loading && events.length === 0 ? (
+          <p className="text-sm text-[var(--muted-foreground)]">Loading audit log…</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-[var(--muted-foreground)]">No events match these filters.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[var(--muted-foreground)]">
+                  <th className="py-2 pr-3 font-medium">When</th>
+                  <th className="py-2 pr-3 font-medium">Actor</th>
+                  <th className="py-2 pr-3 font-medium">Action</th>
+                  <th className="py-2 pr-3 font-medium">Target</th>
+                  <th className="py-2 font-medium">Account</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.map((event) => {
+                  const changeEntries = Object.entries(event.changes);
+                  const metadataEntries = Object.entries(event.metadata);
+                  const expandable = changeEntries.length > 0 || metadataEntries.length > 0;
+                  const expanded = expandedId === event.id;
+                  return (
+                    <Fragment key={event.id}>
+                      <tr
+                        className={`border-t border-[var(--border)] align-top ${expandable ? 'cursor-pointer hover:bg-[var(--muted)]/30' : ''}`}
+                        onClick={() => expandable && setExpandedId(expanded ? null : event.id)}
+                      >
+                        <td className="py-2 pr-3 text-[var(--muted-foreground)] whitespace-nowrap">
+                          {formatDateTime(event.createdAt)}
+                        </td>
+                        <td className="py-2 pr-3">
+                          <div className="font-medium text-[var(--foreground)]">
+                            {event.actorName || event.actorEmail || (event.actorUserId ? event.actorUserId : 'System')}
+                          </div>
+                          {event.impersonatorUserId && (
+                            <div className="text-[10px] text-amber-300">
+                              via {event.impersonatorName || event.impersonatorUserId}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-2 pr-3">
+                          {isAuditAction(event.action) ? AUDIT_ACTIONS[event.action] : event.action}
+                          {expandable && (
+                            <span className="ml-1 text-[10px] text-[var(--muted-foreground)]">
+                              {expanded ? '▾' : '▸'}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-3">
+                          <div className="text-[var(--foreground)]">{event.targetLabel || event.targetId || '—'}</div>
+                          <div className="text-[10px] text-[var(--muted-foreground)]">
+                            {isAuditTargetType(event.targetType) ? AUDIT_TARGET_TYPES[event.targetType] : event.targetType}
+                          </div>
+                        </td>
+                        <td className="py-2 text-[var(--muted-foreground)]">
+                          {event.accountKey ? accounts[event.accountKey]?.dealer || event.accountKey : '—'}
+                        </td>
+                      </tr>
+                      {expanded && (
+                        <tr className="bg-[var(--muted)]/20">
+                          <td colSpan={5} className="px-3 py-2 space-y-2">
+                            {changeEntries.length > 0 && (
+                              <table className="w-full text-[11px]">
+                                <thead>
+                                  <tr className="text-left text-[var(--muted-foreground)]">
+                                    <th className="py-1 pr-3 font-medium">Field</th>
+                                    <th className="py-1 pr-3 font-medium">Before</th>
+                                    <th className="py-1 font-medium">After</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {changeEntries.map(([field, change]) => (
+                                    <tr key={field} className="align-top">
+                                      <td className="py-1 pr-3 font-mono">{field}</td>
+                                      <td className="py-1 pr-3 text-red-300 break-all max-w-xs">{formatValue(change.before)}</td>
+                                      <td className="py-1 text-emerald-300 break-all max-w-xs">{formatValue(change.after)}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                            {metadataEntries.length > 0 && (
+                              <div className="text-[11px] text-[var(--muted-foreground)] space-y-0.5">
+                                {metadataEntries.map(([key, value]) => (
+                                  <div key={key}>
+                                    <span className="font-mono">{key}</span>: {formatValue(value)}
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {nextCursor && (
+          <div className="mt-4 flex justify-center">
+            <button
+              type="button"
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="px-2.5 py-1 text-[11px] font-medium rounded-lg border border-[var(--border)] hover:bg-[var(--muted)] disabled:opacity-50"
+            >
+              {loadingMore ? 'Loading…' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </section>
+
+      <section className="glass-section-card rounded-xl p-6">
+        <h3 className="text-sm font-semibold text-[var(--muted-foreground)] uppercase tracking-wider mb-2">
+          Retention
+        </h3>
+        <p className="text-xs text-[var(--muted-foreground)] mb-3">
+          Events older than this are deleted nightly. Between {MIN_AUDIT_RETENTION_DAYS} and {MAX_AUDIT_RETENTION_DAYS} days.
+        </p>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min={MIN_AUDIT_RETENTION_DAYS}
+            max={MAX_AUDIT_RETENTION_DAYS}
+            value={retentionDays}
+            onChange={(e) => setRetentionDays(e.target.value)}
+            className={`w-28 ${INPUT_CLASS}`}
+          />
+          <span className="text-xs text-[var(--muted-foreground)]">days</span>
+          <button
+            type="button"
+            onClick={saveRetention}
+            disabled={savingRetention || !retentionDays || Number(retentionDays) === savedRetentionDays}
+            className="px-2.5 py-1 h-8 text-[11px] font-medium rounded-lg border border-[var(--border)] hover:bg-[var(--muted)] disabled:opacity-50"
+          >
+            {savingRetention ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowPathIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { toast } from '@/lib/toast';
+
+type JobStatus = 'queued' | 'running' | 'succeeded' | 'dead' | 'canceled';
+
+interface JobItem {
+  id: string;
+  kind: string;
+  status: JobStatus;
+  runAt: string;
+  attempts: number;
+  maxAttempts: number;
+  scheduleKey: string;
+  lastError: string;
+  startedAt: string;
+  finishedAt: string;
+  createdAt: string;
+}
+
+interface ScheduleItem {
+  key: string;
+  kind: string;
+  cron: string;
+  enabled: boolean;
+  nextRunAt: string;
+  lastEnqueuedAt: string;
+}
+
+interface QueueResponse {
+  jobs: JobItem[];
+  counts: Record<JobStatus, number>;
+  schedules: ScheduleItem[];
+}
+
+const STATUS_FILTERS: Array<{ key: JobStatus | ''; label: string }> = [
+  { key: '', label: 'All' },
+  { key: 'running', label: 'Running' },
+  { key: 'queued', label: 'Queued' },
+  { key: 'dead', label: 'Failed' },
+  { key: 'succeeded', label: 'Succeeded' },
+  { key: 'canceled', label: 'Canceled' },
+];
+
+const STATUS_COLORS: Record<JobStatus, { background: string; color: string }> = {
+  queued: { background: 'rgba(148,163,184,0.18)', color: '#cbd5e1' },
+  running: { background: 'rgba(56,189,248,0.18)', color: '#7dd3fc' },
+  succeeded: { background: 'rgba(74,222,128,0.18)', color: '#86efac' },
+  dead: { background: 'rgba(248,113,113,0.18)', color: '#fca5a5' },
+  canceled: { background: 'rgba(148,163,184,0.12)', color: '#94a3b8' },
+};
+
+function formatDateTime(value: string): string {
+  if (!value) return '—';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '—' : date.toLocaleString();
+}
+
+export function JobQueueTab() {
+  const [data, setData] = useState<QueueResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<JobStatus | ''>('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const query = statusFilter ? `?status=${statusFilter}` : '';
+      const res = await fetch(`/api/jobs${query}`);
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      setData(json as QueueResponse);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load job queue');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+    const interval = setInterval(load, 15000);
+    return () => clearInterval(interval);
+  }, [load]);
+
+  const updateJob = async (id: string, action: 'retry' | 'cancel') => {
+    setBusyId(id);
+    try {
+      const res = await fetch(`/api/jobs/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      toast.success(action === 'retry' ? 'Job re-queued' : 'Job canceled');
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update job');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleSchedule = async (schedule: ScheduleItem) => {
+    setBusyId(schedule.key);
+    try {
+      const res = await fetch(`/api/jobs/schedules/${encodeURIComponent(schedule.key)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !schedule.enabled }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json.error || `HTTP ${res.status}`);
+      await load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update schedule');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const counts = data?.counts;
+
+  return (
+    <div className="max-w-5xl space-y-6">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <p className="text-xs text-[var(--muted-foreground)]">
+          Background jobs for campaign sends, flows, syncs and scans. Failed jobs are retried with backoff
+          before landing in Failed.
+        </p>
+        <button
+          type="button"
+          onClick={() => load()}
+          className="inline-flex items-center gap-1.5 px-2.5 py-1.5 text-[11px] font-medium rounded-lg border border-[var(--border)] text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors"
+        >
+          <ArrowPathIcon className="w-3.5 h-3.5" />
+          Refresh
+        </button>
+      </div>
+
+      <section className="glass-section-card rounded-xl p-6">
+        <h3 className="text-sm font-semibold text-[var(--muted-foreground)] uppercase tracking-wider mb-4">
+          Schedules
+        </h3>
+        {!data || data.schedules.length === 0 ? (
+          <p className="text-sm text-[var(--muted-foreground)]">
+            {loading ? 'Loading schedules…' : 'Schedules are created on the first worker run.'}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {data.schedules.map((schedule) => (
+              <div
+                key={schedule.key}
+                className="flex items-center justify-between gap-4 px-3 py-2 rounded-lg border border-[var(--border)] bg-[var(--muted)]/30"
+              >
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-[var(--foreground)]">{schedule.key}</div>
+                  <div className="text-[11px] text-[var(--muted-foreground)]">
+                    <code>{schedule.cron}</code> UTC · {schedule.kind} · next {formatDateTime(schedule.nextRunAt)}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => toggleSchedule(schedule)}
+                  disabled={busyId === schedule.key}
+                  className="px-2.5 py-1 text-[11px] font-medium rounded-lg border border-[var(--border)] hover:bg-[var(--muted)] transition-colors disabled:opacity-50"
+                  style={{ color: schedule.enabled ? 'var(--foreground)' : 'var(--muted-foreground)' }}
+                >
+                  {schedule.enabled ? 'Enabled' : 'Paused'}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="glass-section-card rounded-xl p-6">
+        <div className="flex items-center gap-2 flex-wrap mb-4">
+          {STATUS_FILTERS.map((filter) => (
+            <button
+              key={filter.key || 'all'}
+              type="button"
+              onClick={() => setStatusFilter(filter.key)}
+              className={`px-2.5 py-1 text-[11px] font-medium rounded-lg border transition-colors ${
+                statusFilter === filter.key
+                  ? 'border-[var(--primary)] text-[var(--foreground)] bg-[var(--muted)]'
+                  : 'border-[var(--border)] text-[var(--muted-foreground)] hover:bg-[var(--muted)]'
+              }`}
+            >
+              {filter.label}
+              {filter.key && counts ? <span className="ml-1 tabular-nums">{counts[filter.key]}</span> : null}
+            </button>
+          ))}
+        </div>
+
+        {loading && !data ? (
+          <p className="text-sm text-[var(--muted-foreground)]">Loading jobs…</p>
+        ) : !data || data.jobs.length === 0 ? (
+          <p className="text-sm text-[var(--muted-foreground)]">No jobs match this filter.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[var(--muted-foreground)]">
+                  <th className="py-2 pr-3 font-medium">Job</th>
+                  <th className="py-2 pr-3 font-medium">Status</th>
+                  <th className="py-2 pr-3 font-medium">Attempts</th>
+                  <th className="py-2 pr-3 font-medium">Run at</th>
+                  <th className="py-2 pr-3 font-medium">Finished</th>
+                  <th className="py-2 font-medium" />
+                </tr>
+              </thead>
+              <tbody>
+                {data.jobs.map((job) => (
+                  <tr key={job.id} className="border-t border-[var(--border)] align-top">
+                    <td className="py-2 pr-3">
+                      <div className="font-medium text-[var(--foreground)]">{job.kind}</div>
+                      {job.scheduleKey && (
+                        <div className="text-[10px] text-[var(--muted-foreground)]">schedule: {job.scheduleKey}</div>
+                      )}
+                      {job.lastError && (
+                        <div className="mt-1 text-[11px] text-red-400 break-words max-w-md">{job.lastError}</div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3">
+                      <span
+                        className="inline-flex text-[10px] font-medium uppercase tracking-wider px-1.5 py-0.5 rounded"
+                        style={STATUS_COLORS[job.status]}
+                      >
+                        {job.status === 'dead' ? 'failed' : job.status}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-3 tabular-nums">{job.attempts}/{job.maxAttempts}</td>
+                    <td className="py-2 pr-3 text-[var(--muted-foreground)]">{formatDateTime(job.runAt)}</td>
+                    <td className="py-2 pr-3 text-[var(--muted-foreground)]">{formatDateTime(job.finishedAt)}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      {(job.status === 'dead' || job.status === 'canceled') && (
+                        <button
+                          type="button"
+                          onClick={() => updateJob(job.id, 'retry')}
+                          disabled={busyId === job.id}
+                          className="inline-flex items-center gap-1 px-2 py-1 text-[11px] rounded-lg border border-[var(--border)] hover:bg-[var(--muted)] disabled:opacity-50"
+                        >
+                          <ArrowPathIcon className="w-3 h-3" />
+                          Retry
+                        </button>
+                      )}
+                      {job.status === 'queued' && (
+                        <button
+                          type="button"
+                          onClick={() => updateJob(job.id, 'cancel')}
+                          disabled={busyId === job.id}
+                          className="inline-flex items-center gap-1 px-2 py-1 text-[11px] rounded-lg border border-[var(--border)] hover:bg-[var(--muted)] disabled:opacity-50"
+                        >
+                          <XMarkIcon className="w-3 h-3" />
+                          Cancel
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import PrimaryButton from '@/components/primary-button';
+import { safeJson } from '@/lib/safe-json';
+import { toast } from '@/lib/toast';
+import {
+  DEFAULT_SMS_SEND_POLICY,
+  DEFAULT_SMS_TIMEZONE,
+  MAX_SMS_MESSAGES_PER_MINUTE,
+  parseSmsSendPolicy,
+  type SmsSendWindow,
+} from '@/lib/sms-send-policy';
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+interface SmsSendPolicyPanelProps {
+  accountKey: string;
+}
+
+/**
+ * Per-account quiet hours and throughput for bulk SMS and flow texts. Sends
+ * outside every window wait for the next one to open.
+ */
+export function SmsSendPolicyPanel({ accountKey }: SmsSendPolicyPanelProps) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [timezone, setTimezone] = useState('');
+  const [windows, setWindows] = useState<SmsSendWindow[]>(DEFAULT_SMS_SEND_POLICY.windows);
+  const [messagesPerMinute, setMessagesPerMinute] = useState(String(DEFAULT_SMS_SEND_POLICY.messagesPerMinute));
+
+  useEffect(() => {
+    if (!accountKey) return;
+    setLoading(true);
+    fetch(`/api/accounts/${encodeURIComponent(accountKey)}`)
+      .then((res) => safeJson<{ smsSendPolicy?: string | null; timezone?: string | null }>(res))
+      .then(({ ok, data, error }) => {
+        if (!ok || !data) throw new Error(error || 'Failed to load SMS sending settings');
+        const policy = parseSmsSendPolicy(data.smsSendPolicy);
+        setWindows(policy.windows);
+        setMessagesPerMinute(String(policy.messagesPerMinute));
+        setTimezone(data.timezone?.trim() || '');
+      })
+      .catch((err) => toast.error(err instanceof Error ? err.message : 'Failed to load SMS sending settings'))
+      .finally(() => setLoading(false));
+  }, [accountKey]);
+
+  const updateWindow = (index: number, patch: Partial<SmsSendWindow>) => {
+    setWindows((current) => current.map((window, i) => (i === index ? { ...window, ...patch } : window)));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = windows[index].days;
+    updateWindow(index, {
+      days: days.includes(day) ? days.filter((value) => value !== day) : [...days, day].sort(),
+    });
+  };
+
+  const invalidWindow = windows.some((window) => window.days.length === 0 || !window.start || !window.end || window.end <= window.start);
+  const rate = Number(messagesPerMinute);
+  const invalidRate = !Number.isInteger(rate) || rate < 1 || rate > MAX_SMS_MESSAGES_PER_MINUTE;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/accounts/${encodeURIComponent(accountKey)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ smsSendPolicy: { windows, messagesPerMinute: rate } }),
+      });
+      const { ok, data, error } = await safeJson<{ smsSendPolicy?: string | null }>(res);
+      if (!ok) throw new Error(error || 'Failed to save SMS sending settings');
+      // The server drops invalid windows; show what was actually stored.
+      const saved = parseSmsSendPolicy(data?.smsSendPolicy);
+      setWindows(saved.windows);
+      setMessagesPerMinute(String(saved.messagesPerMinute));
+      toast.success('SMS sending settings saved');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save SMS sending settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <section className="glass-section-card rounded-xl p-6">
+        <p className="text-sm text-[var(--muted-foreground)]">Loading SMS sending settings...</p>
+      </section>
+    );
+  }
+
+  const inputClass = 'px-3 py-2 text-sm rounded-lg border border-[var(--border)] bg-[var(--card)] focus:outline-none focus:border-[var(--primary)]';
+  const labelClass = 'block text-xs font-medium text-[var(--muted-foreground)] mb-1.5';
+
+  return (
+    <section className="glass-section-card rounded-xl p-6 space-y-5">
+      <div>
+        <h2 className="text-sm font-semibold text-[var(--foreground)] mb-1">SMS Sending</h2>
+        <p className="text-xs text-[var(--muted-foreground)]">
+          Bulk SMS and flow texts only go out inside these windows, in the account&apos;s timezone
+          ({timezone || `${DEFAULT_SMS_TIMEZONE} until one is set`}).
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <label className={labelClass}>Send Windows</label>
+        {windows.map((window, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-3">
+            <div className="flex gap-1">
+              {WEEKDAY_LABELS.map((label, day) => {
+                const active = window.days.includes(day);
+                return (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDay(index, day)}
+                    className={`w-7 h-7 rounded-md text-xs font-medium border transition-colors ${
+                      active
+                        ? 'border-[var(--primary)] bg-[var(--primary)]/10 text-[var(--foreground)]'
+                        : 'border-[var(--border)] text-[var(--muted-foreground)] hover:bg-[var(--muted)]'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+            <input
+              type="time"
+              value={window.start}
+              onChange={(e) => updateWindow(index, { start: e.target.value })}
+              className={inputClass}
+            />
+            <span className="text-xs text-[var(--muted-foreground)]">to</span>
+            <input
+              type="time"
+              value={window.end}
+              onChange={(e) => updateWindow(index, { end: e.target.value })}
+              className={inputClass}
+            />
+            {windows.length > 1 && (
+              <button
+                type="button"
+                onClick={() => setWindows((current) => current.filter((_, i) => i !== index))}
+                className="p-2 rounded-lg text-[var(--muted-foreground)] hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                aria-label="Remove window"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setWindows((current) => [...current, { ...DEFAULT_SMS_SEND_POLICY.windows[0] }])}
+          className="inline-flex items-center gap-1.5 text-xs font-medium text-[var(--muted-foreground)] hover:text-[var(--foreground)] transition-colors"
+        >
+          <PlusIcon className="w-3.5 h-3.5" />
+          Add window
+        </button>
+        {invalidWindow && (
+          <p className="text-xs text-amber-400">Each window needs at least one day and an end time after its start.</p>
+        )}
+      </div>
+
+      <div className="max-w-[200px]">
+        <label className={labelClass}>Messages per Minute</label>
+        <input
+          value={messagesPerMinute}
+          onChange={(e) => setMessagesPerMinute(e.target.value.replace(/\D/g, ''))}
+          className={`w-full ${inputClass}`}
+        />
+        {invalidRate && (
+          <p className="text-xs text-amber-400 mt-1">Between 1 and {MAX_SMS_MESSAGES_PER_MINUTE}.</p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => {
+            setWindows(DEFAULT_SMS_SEND_POLICY.windows);
+            setMessagesPerMinute(String(DEFAULT_SMS_SEND_POLICY.messagesPerMinute));
+          }}
+          className="px-3.5 py-2 border border-[var(--border)] rounded-lg text-sm font-medium text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors"
+        >
+          Reset to Default
+        </button>
+        <PrimaryButton onClick={handleSave} disabled={saving || invalidWindow || invalidRate}>
+          {saving ? 'Saving...' : 'Save SMS Settings'}
+        </PrimaryButton>
+      </div>
+    </section>
+  );
+}
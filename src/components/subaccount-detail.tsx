@@ -32,6 +32,9 @@ import { OemMultiSelect } from '@/components/oem-multi-select';
 import { UserAvatar } from '@/components/user-avatar';
 import { AccountAvatar } from '@/components/account-avatar';
 import { MediaPickerModal } from '@/components/media-picker-modal';
+import { EmailTransportPanel } from '@/components/email-transport-panel';
+import { SmsSendPolicyPanel } from '@/components/sms-send-policy-panel';
+import { BrandKitCompletenessPanel } from '@/components/brand-kit-completeness-panel';
 import { ContactsTable } from '@/components/contacts/contacts-table';
 import type { Contact } from '@/components/contacts/contacts-table';
 import type { AccountData } from '@/contexts/account-context';
@@ -209,6 +212,7 @@ export function SubAccountDetailPage({ basePath, settingsMode, accountKeyProp }:
   const [showAdvancedDetails, setShowAdvancedDetails] = useState(false);
   const [providerCatalog, setProviderCatalog] = useState<ProviderCatalogEntry[]>([]);
   const [genericProviderSecrets, setGenericProviderSecrets] = useState<Record<string, string>>({});
+  const [genericProviderExtraCredentials, setGenericProviderExtraCredentials] = useState<Record<string, Record<string, string>>>({});
   const [genericProviderConnecting, setGenericProviderConnecting] = useState<Record<string, boolean>>({});
   const [genericProviderDisconnecting, setGenericProviderDisconnecting] = useState<Record<string, boolean>>({});
   const [requiredScopesByProvider, setRequiredScopesByProvider] = useState<Record<string, string[]>>({});
@@ -941,6 +945,7 @@ export function SubAccountDetailPage({ basePath, settingsMode, accountKeyProp }:
           accountKey: key,
           provider: providerId,
           apiKey: secret,
+          extraCredentials: genericProviderExtraCredentials[providerId] || {},
         }),
       });
       const data = await res.json().catch(() => ({}));
@@ -950,6 +955,7 @@ export function SubAccountDetailPage({ basePath, settingsMode, accountKeyProp }:
       }
 
       setGenericProviderSecrets(prev => ({ ...prev, [providerId]: '' }));
+      setGenericProviderExtraCredentials(prev => ({ ...prev, [providerId]: {} }));
       await refreshProviderCatalog();
       await refreshAccountData();
       await refreshAccountList();
@@ -1583,6 +1589,13 @@ export function SubAccountDetailPage({ basePath, settingsMode, accountKeyProp }:
                 </p>
               </div>
             </section>
+
+            {key && (
+              <BrandKitCompletenessPanel
+                accountKey={key}
+                brandingVersion={JSON.stringify([account?.branding, account?.logos])}
+              />
+            )}
           </div>
         )}
 
@@ -1693,6 +1706,15 @@ export function SubAccountDetailPage({ basePath, settingsMode, accountKeyProp }:
 
             </div>
 
+            {userRole !== 'client' && key && (
+              <EmailTransportPanel
+                accountKey={key}
+                connectionsVersion={connectedProviderBadges.map((provider) => provider.provider).join(',')}
+              />
+            )}
+
+            {userRole !== 'client' && key && <SmsSendPolicyPanel accountKey={key} />}
+
             {/* ══════ Provider Detail Modal ══════ */}
             {integrationModal && (
               <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm" onClick={() => setIntegrationModal(null)}>
@@ -1988,6 +2010,24 @@ export function SubAccountDetailPage({ basePath, settingsMode, accountKeyProp }:
                                       className={`${inputClass} font-mono text-xs`}
                                     />
                                   </div>
+                                  {providerTheme.extraCredentials.map((field) => (
+                                    <div key={field.key}>
+                                      <label className={labelClass}>{field.label}</label>
+                                      <input
+                                        type={field.secret ? 'password' : 'text'}
+                                        value={genericProviderExtraCredentials[providerId]?.[field.key] || ''}
+                                        onChange={(e) => {
+                                          const value = e.target.value;
+                                          setGenericProviderExtraCredentials(prev => ({
+                                            ...prev,
+                                            [providerId]: { ...prev[providerId], [field.key]: value },
+                                          }));
+                                        }}
+                                        placeholder={field.placeholder}
+                                        className={`${inputClass} font-mono text-xs`}
+                                      />
+                                    </div>
+                                  ))}
                                   <button
                                     onClick={() => handleProviderCredentialConnect(providerId)}
                                     disabled={!secret.trim() || connecting}
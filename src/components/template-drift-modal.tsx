@@ -0,0 +1,458 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  ArrowUpTrayIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { useLoomiDialog } from '@/contexts/loomi-dialog-context';
+import { providerDisplayName } from '@/lib/esp/provider-display';
+import { toast } from '@/lib/toast';
+
+type DriftStatus = 'in_sync' | 'remote_changed' | 'missing' | 'error';
+
+interface ProviderDrift {
+  provider: string;
+  remoteId: string;
+  status: DriftStatus;
+  localChanged: boolean;
+  checkedAt: string | null;
+  error: string | null;
+}
+
+interface TemplateCopy {
+  html: string;
+  subject: string | null;
+  previewText: string | null;
+}
+
+interface DriftDiff {
+  provider: string;
+  status: DriftStatus;
+  loomi: TemplateCopy;
+  remote: TemplateCopy | null;
+}
+
+interface DiffLine {
+  kind: 'removed' | 'added';
+  line: number;
+  text: string;
+}
+
+type CompareMode = 'code' | 'preview';
+
+interface TemplateDriftModalProps {
+  open: boolean;
+  onClose: () => void;
+  templateId: string;
+  templateName: string;
+  /** Called after a pull or force-push, so the caller can reload the template. */
+  onResolved: () => void;
+}
+
+const STATUS_STYLES: Record<DriftStatus, { label: string; className: string }> = {
+  in_sync: { label: 'In sync', className: 'text-emerald-300 bg-emerald-500/10' },
+  remote_changed: { label: 'Edited in ESP', className: 'text-amber-300 bg-amber-500/10' },
+  missing: { label: 'Deleted in ESP', className: 'text-red-300 bg-red-500/10' },
+  error: { label: 'Check failed', className: 'text-[var(--muted-foreground)] bg-[var(--muted)]' },
+};
+
+const MAX_DIFF_CELLS = 4_000_000;
+const MAX_DIFF_ROWS = 400;
+
+/** One tag per line, so attribute and text edits show up as single-line changes. */
+function splitHtmlLines(html: string): string[] {
+  return html.replace(/>\s*</g, '>\n<').split('\n').map((line) => line.trim()).filter(Boolean);
+}
+
+/**
+ * Lines removed from Loomi's copy and added in the remote copy, from a
+ * longest-common-subsequence match. Very large documents fall back to a
+ * line-by-line comparison.
+ */
+function diffLines(loomi: string[], remote: string[]): DiffLine[] {
+  const n = loomi.length;
+  const m = remote.length;
+  if (n * m > MAX_DIFF_CELLS) {
+    const rows: DiffLine[] = [];
+    for (let i = 0; i < Math.max(n, m); i += 1) {
+      if (loomi[i] === remote[i]) continue;
+      if (i < n) rows.push({ kind: 'removed', line: i + 1, text: loomi[i] });
+      if (i < m) rows.push({ kind: 'added', line: i + 1, text: remote[i] });
+    }
+    return rows;
+  }
+
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i -= 1) {
+    for (let j = m - 1; j >= 0; j -= 1) {
+      lengths[i * (m + 1) + j] = loomi[i] === remote[j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const rows: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && loomi[i] === remote[j]) {
+      i += 1;
+      j += 1;
+    } else if (j < m && (i === n || lengths[i * (m + 1) + j + 1] >= lengths[(i + 1) * (m + 1) + j])) {
+      rows.push({ kind: 'added', line: j + 1, text: remote[j] });
+      j += 1;
+    } else {
+      rows.push({ kind: 'removed', line: i + 1, text: loomi[i] });
+      i += 1;
+    }
+  }
+  return rows;
+}
+
+function formatCheckedAt(iso: string | null): string {
+  if (!iso) return 'never';
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Compare a published template with its ESP copies, then pull a remote edit
+ * into Loomi or push Loomi's copy over it.
+ */
+export function TemplateDriftModal({
+  open,
+  onClose,
+  templateId,
+  templateName,
+  onResolved,
+}: TemplateDriftModalProps) {
+  const { confirm } = useLoomiDialog();
+  const [providers, setProviders] = useState<ProviderDrift[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
+  const [diff, setDiff] = useState<DriftDiff | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [mode, setMode] = useState<CompareMode>('code');
+  const [busy, setBusy] = useState<'pull' | 'push' | null>(null);
+
+  const checkDrift = useCallback(async () => {
+    setChecking(true);
+    try {
+      const res = await fetch(`/api/esp/templates/${templateId}/drift`, { method: 'POST' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to check ESP copies');
+      const next: ProviderDrift[] = Array.isArray(data.drift?.providers) ? data.drift.providers : [];
+      setProviders(next);
+      setSelectedProvider((prev) =>
+        prev && next.some((entry) => entry.provider === prev)
+          ? prev
+          : (next.find((entry) => entry.status === 'remote_changed') ?? next[0])?.provider ?? null,
+      );
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to check ESP copies');
+    } finally {
+      setChecking(false);
+    }
+  }, [templateId]);
+
+  const loadDiff = useCallback(async (provider: string) => {
+    setDiffLoading(true);
+    setDiff(null);
+    try {
+      const params = new URLSearchParams({ provider });
+      const res = await fetch(`/api/esp/templates/${templateId}/drift/diff?${params.toString()}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.diff) throw new Error(data.error || 'Failed to load the ESP copy');
+      setDiff(data.diff);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load the ESP copy');
+    } finally {
+      setDiffLoading(false);
+    }
+  }, [templateId]);
+
+  useEffect(() => {
+    if (!open) {
+      setProviders([]);
+      setSelectedProvider(null);
+      setDiff(null);
+      return;
+    }
+    checkDrift();
+  }, [open, checkDrift]);
+
+  useEffect(() => {
+    if (open && selectedProvider) loadDiff(selectedProvider);
+  }, [open, selectedProvider, loadDiff]);
+
+  const codeDiff = useMemo(
+    () => (diff?.remote ? diffLines(splitHtmlLines(diff.loomi.html), splitHtmlLines(diff.remote.html)) : []),
+    [diff],
+  );
+  const fieldChanges = useMemo(() => {
+    if (!diff?.remote) return [];
+    const changes: Array<{ label: string; loomi: string; remote: string }> = [];
+    if (diff.remote.subject !== null && diff.remote.subject !== (diff.loomi.subject ?? '')) {
+      changes.push({ label: 'Subject', loomi: diff.loomi.subject ?? '', remote: diff.remote.subject });
+    }
+    if (diff.remote.previewText !== null && diff.remote.previewText !== (diff.loomi.previewText ?? '')) {
+      changes.push({ label: 'Preview text', loomi: diff.loomi.previewText ?? '', remote: diff.remote.previewText });
+    }
+    return changes;
+  }, [diff]);
+
+  const selected = providers.find((entry) => entry.provider === selectedProvider) ?? null;
+
+  const pull = async () => {
+    if (!selected) return;
+    const name = providerDisplayName(selected.provider);
+    const confirmed = await confirm({
+      title: `Pull from ${name}`,
+      message: `Replace Loomi's copy of "${templateName}" with the ${name} version?${selected.localChanged ? ' Unpublished Loomi edits will be replaced too.' : ''} Both copies are kept as versions. The template becomes a code template and needs approval again before the next publish.`,
+      confirmLabel: 'Pull into Loomi',
+    });
+    if (!confirmed) return;
+    setBusy('pull');
+    try {
+      const res = await fetch(`/api/esp/templates/${templateId}/drift/pull`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider: selected.provider }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to pull the ESP copy');
+      setProviders(Array.isArray(data.drift?.providers) ? data.drift.providers : []);
+      toast.success(`Pulled the ${name} version into Loomi`);
+      onResolved();
+      loadDiff(selected.provider);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to pull the ESP copy');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const push = async () => {
+    if (!selected) return;
+    const name = providerDisplayName(selected.provider);
+    const confirmed = await confirm({
+      title: `Overwrite ${name} copy`,
+      message: `Publish Loomi's copy of "${templateName}" to ${name}? Edits made in ${name} since the last publish will be lost.`,
+      confirmLabel: 'Force Push',
+      destructive: true,
+    });
+    if (!confirmed) return;
+    setBusy('push');
+    try {
+      const res = await fetch(`/api/esp/templates/${templateId}/publish`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          providers: [selected.provider],
+          overwriteRemoteChanges: true,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to publish template');
+      const result = data.results?.[selected.provider];
+      if (!result?.success) throw new Error(result?.error || 'Failed to publish template');
+      toast.success(`Pushed Loomi's copy to ${name}`);
+      onResolved();
+      await checkDrift();
+      loadDiff(selected.provider);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to publish template');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 animate-overlay-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass-modal w-[1180px] max-w-[calc(100vw-3rem)] h-[82vh] max-h-[860px] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-4 border-b border-[var(--border)] flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-semibold">Compare with ESP</h3>
+            <p className="text-xs text-[var(--muted-foreground)] mt-0.5">
+              Loomi&apos;s copy of {templateName} against the published copies
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={checkDrift}
+              disabled={checking}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-[var(--muted)] hover:bg-[var(--accent)] disabled:opacity-40 transition-colors"
+            >
+              <ArrowPathIcon className={`w-3.5 h-3.5 ${checking ? 'animate-spin' : ''}`} />
+              Check again
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 rounded-lg text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors"
+            >
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <div className="w-[260px] border-r border-[var(--border)] overflow-y-auto p-2 space-y-1.5">
+            {checking && providers.length === 0 ? (
+              <p className="text-xs text-[var(--muted-foreground)] px-2 py-2">Checking ESP copies...</p>
+            ) : providers.length === 0 ? (
+              <p className="text-xs text-[var(--muted-foreground)] px-2 py-2">This template isn&apos;t published to an ESP.</p>
+            ) : (
+              providers.map((entry) => {
+                const style = STATUS_STYLES[entry.status];
+                return (
+                  <button
+                    key={entry.provider}
+                    onClick={() => setSelectedProvider(entry.provider)}
+                    className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                      entry.provider === selectedProvider
+                        ? 'border-[var(--primary)] bg-[var(--primary)]/5'
+                        : 'border-[var(--border)] hover:bg-[var(--muted)]'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium">{providerDisplayName(entry.provider)}</span>
+                      <span className={`text-[10px] font-medium px-2 py-0.5 rounded-full ${style.className}`}>
+                        {style.label}
+                      </span>
+                    </div>
+                    <p className="text-[10px] text-[var(--muted-foreground)] mt-1">
+                      Checked {formatCheckedAt(entry.checkedAt)}
+                      {entry.localChanged && ' · unpublished Loomi edits'}
+                    </p>
+                    {entry.error && <p className="text-[10px] text-red-300 mt-1 break-words">{entry.error}</p>}
+                  </button>
+                );
+              })
+            )}
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col">
+            {selected && (
+              <div className="px-4 py-3 border-b border-[var(--border)] flex items-center justify-between gap-3">
+                <div className="flex items-center gap-1 p-0.5 rounded-lg bg-[var(--muted)]">
+                  {(['code', 'preview'] as const).map((key) => (
+                    <button
+                      key={key}
+                      onClick={() => setMode(key)}
+                      className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                        mode === key ? 'bg-[var(--card)] text-[var(--foreground)]' : 'text-[var(--muted-foreground)]'
+                      }`}
+                    >
+                      {key === 'code' ? 'Code' : 'Preview'}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={pull}
+                    disabled={busy !== null || !diff?.remote}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-[var(--muted)] hover:bg-[var(--accent)] disabled:opacity-40 transition-colors"
+                  >
+                    {busy === 'pull' ? <ArrowPathIcon className="w-3.5 h-3.5 animate-spin" /> : <ArrowDownTrayIcon className="w-3.5 h-3.5" />}
+                    Pull into Loomi
+                  </button>
+                  <button
+                    onClick={push}
+                    disabled={busy !== null}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-[var(--primary)] text-white hover:opacity-90 disabled:opacity-40 transition-opacity"
+                  >
+                    {busy === 'push' ? <ArrowPathIcon className="w-3.5 h-3.5 animate-spin" /> : <ArrowUpTrayIcon className="w-3.5 h-3.5" />}
+                    Force push Loomi&apos;s copy
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <div className="flex-1 min-h-0 overflow-auto p-4">
+              {!selected ? null : diffLoading || !diff ? (
+                <p className="text-xs text-[var(--muted-foreground)]">Loading the {providerDisplayName(selected.provider)} copy...</p>
+              ) : !diff.remote ? (
+                <p className="text-sm text-[var(--muted-foreground)]">
+                  The {providerDisplayName(diff.provider)} copy no longer exists. Force push to publish it again.
+                </p>
+              ) : mode === 'code' ? (
+                <div className="space-y-3">
+                  {fieldChanges.map((change) => (
+                    <div key={change.label} className="border border-[var(--border)] rounded-lg p-3 text-xs">
+                      <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)] mb-1.5">{change.label}</p>
+                      <p className="text-red-300 break-words">− {change.loomi || '—'}</p>
+                      <p className="text-emerald-300 break-words">+ {change.remote || '—'}</p>
+                    </div>
+                  ))}
+                  {codeDiff.length === 0 ? (
+                    <div className="p-4 border border-[var(--border)] rounded-lg bg-[var(--background)]">
+                      <p className="text-sm text-[var(--muted-foreground)]">No HTML differences between Loomi and this ESP copy.</p>
+                    </div>
+                  ) : (
+                    <div className="border border-[var(--border)] rounded-lg overflow-hidden">
+                      <div className="grid grid-cols-[64px_1fr] text-[10px] uppercase tracking-wider text-[var(--muted-foreground)] bg-[var(--muted)] border-b border-[var(--border)]">
+                        <div className="px-2 py-1.5">Line</div>
+                        <div className="px-2 py-1.5 border-l border-[var(--border)]">− Loomi · + {providerDisplayName(diff.provider)}</div>
+                      </div>
+                      <div className="font-mono text-xs">
+                        {codeDiff.slice(0, MAX_DIFF_ROWS).map((row, index) => (
+                          <div
+                            key={`${index}-${row.kind}-${row.line}`}
+                            className={`grid grid-cols-[64px_1fr] border-b border-[var(--border)] last:border-b-0 ${
+                              row.kind === 'removed' ? 'bg-red-500/10' : 'bg-green-500/10'
+                            }`}
+                          >
+                            <div className="px-2 py-1 text-[10px] text-[var(--muted-foreground)]">
+                              {row.kind === 'removed' ? '−' : '+'} {row.line}
+                            </div>
+                            <div className="px-2 py-1 border-l border-[var(--border)] whitespace-pre-wrap break-all">{row.text}</div>
+                          </div>
+                        ))}
+                        {codeDiff.length > MAX_DIFF_ROWS && (
+                          <div className="px-3 py-2 text-[10px] text-[var(--muted-foreground)] bg-[var(--muted)]/30">
+                            Showing first {MAX_DIFF_ROWS} changed lines.
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-3">
+                  {([['Loomi', diff.loomi.html], [providerDisplayName(diff.provider), diff.remote.html]] as const).map(([label, html]) => (
+                    <div key={label} className="border border-[var(--border)] rounded-lg overflow-hidden">
+                      <div className="px-2 py-1.5 text-[10px] uppercase tracking-wider text-[var(--muted-foreground)] bg-[var(--muted)] border-b border-[var(--border)]">
+                        {label}
+                      </div>
+                      <iframe
+                        title={`${label} copy`}
+                        srcDoc={html}
+                        sandbox=""
+                        className="w-full h-[600px] bg-white"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
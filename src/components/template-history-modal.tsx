@@ -0,0 +1,516 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ArrowPathIcon,
+  ArrowUturnLeftIcon,
+  TagIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { useLoomiDialog } from '@/contexts/loomi-dialog-context';
+import { toast } from '@/lib/toast';
+import { diffTemplateSources, type ComponentDiffKind, type PropChange } from '@/lib/template-diff';
+
+interface TemplateHistoryVersion {
+  id: string;
+  createdAt: string;
+  createdBy: string | null;
+  size: number;
+  source: 'save' | 'restore';
+  restoredFromVersionId: string | null;
+  releaseLabel: string | null;
+  releaseNote: string | null;
+  labeledAt: string | null;
+}
+
+interface SimpleDiffLine {
+  line: number;
+  current: string;
+  snapshot: string;
+  kind: 'changed' | 'added' | 'removed';
+}
+
+type CompareMode = 'structure' | 'code' | 'preview';
+
+interface TemplateHistoryModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** Template slug, as used by `/api/templates/history`. */
+  design: string;
+  designLabel: string;
+  /** Current editor content — the right-hand side of every comparison. */
+  currentCode: string;
+  previewValues?: Record<string, string>;
+  /** Called with the restored source after a successful restore. */
+  onRestored: (raw: string) => void;
+}
+
+const COMPARE_MODES: Array<{ key: CompareMode; label: string }> = [
+  { key: 'structure', label: 'Structure' },
+  { key: 'code', label: 'Code' },
+  { key: 'preview', label: 'Preview' },
+];
+
+const COMPONENT_KIND_STYLES: Record<ComponentDiffKind, { label: string; className: string }> = {
+  unchanged: { label: 'Unchanged', className: 'text-[var(--muted-foreground)] bg-[var(--muted)]' },
+  added: { label: 'Added', className: 'text-emerald-300 bg-emerald-500/10' },
+  removed: { label: 'Removed', className: 'text-red-300 bg-red-500/10' },
+  moved: { label: 'Moved', className: 'text-sky-300 bg-sky-500/10' },
+  modified: { label: 'Modified', className: 'text-amber-300 bg-amber-500/10' },
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatHistoryDate(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function buildSimpleDiff(current: string, snapshot: string): SimpleDiffLine[] {
+  const currentLines = current.split('\n');
+  const snapshotLines = snapshot.split('\n');
+  const max = Math.max(currentLines.length, snapshotLines.length);
+  const lines: SimpleDiffLine[] = [];
+
+  for (let i = 0; i < max; i += 1) {
+    const cur = currentLines[i] ?? '';
+    const old = snapshotLines[i] ?? '';
+    if (cur === old) continue;
+    lines.push({
+      line: i + 1,
+      current: cur,
+      snapshot: old,
+      kind: !old ? 'added' : !cur ? 'removed' : 'changed',
+    });
+  }
+  return lines;
+}
+
+function PropChangeList({ changes }: { changes: PropChange[] }) {
+  return (
+    <div className="mt-1.5 space-y-0.5 font-mono text-[11px]">
+      {changes.map((change) => (
+        <div key={change.key} className="grid grid-cols-[140px_1fr_1fr] gap-2">
+          <span className="text-[var(--muted-foreground)] truncate">{change.key}</span>
+          <span className="text-red-300 break-all">{change.before ?? '—'}</span>
+          <span className="text-emerald-300 break-all">{change.after ?? '—'}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function TemplateHistoryModal({
+  open,
+  onClose,
+  design,
+  designLabel,
+  currentCode,
+  previewValues,
+  onRestored,
+}: TemplateHistoryModalProps) {
+  const { confirm, prompt } = useLoomiDialog();
+  const [versions, setVersions] = useState<TemplateHistoryVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [releasesOnly, setReleasesOnly] = useState(false);
+  const [selected, setSelected] = useState<TemplateHistoryVersion | null>(null);
+  const [selectedRaw, setSelectedRaw] = useState('');
+  const [compareLoading, setCompareLoading] = useState(false);
+  const [mode, setMode] = useState<CompareMode>('structure');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [previews, setPreviews] = useState<{ snapshot: string; current: string } | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ design });
+      if (releasesOnly) params.set('releases', '1');
+      const res = await fetch(`/api/templates/history?${params.toString()}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to load history');
+      setVersions(Array.isArray(data.versions) ? data.versions : []);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [design, releasesOnly]);
+
+  useEffect(() => {
+    if (!open) return;
+    loadVersions();
+  }, [open, loadVersions]);
+
+  useEffect(() => {
+    if (!open) {
+      setSelected(null);
+      setSelectedRaw('');
+      setPreviews(null);
+    }
+  }, [open]);
+
+  const selectVersion = async (version: TemplateHistoryVersion) => {
+    setSelected(version);
+    setSelectedRaw('');
+    setPreviews(null);
+    setCompareLoading(true);
+    try {
+      const params = new URLSearchParams({ design, versionId: version.id });
+      const res = await fetch(`/api/templates/history?${params.toString()}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || typeof data.raw !== 'string') throw new Error(data.error || 'Failed to load version');
+      setSelectedRaw(data.raw);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load version');
+    } finally {
+      setCompareLoading(false);
+    }
+  };
+
+  const structureDiff = useMemo(
+    () => (selectedRaw ? diffTemplateSources(selectedRaw, currentCode) : null),
+    [selectedRaw, currentCode],
+  );
+  const codeDiff = useMemo(
+    () => (selectedRaw ? buildSimpleDiff(currentCode, selectedRaw) : []),
+    [selectedRaw, currentCode],
+  );
+
+  // Rendered previews are compiled lazily, only once the Preview tab is opened.
+  useEffect(() => {
+    if (mode !== 'preview' || !selectedRaw || previews) return;
+    let cancelled = false;
+    const render = async (html: string): Promise<string> => {
+      const res = await fetch('/api/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ html, project: 'core', previewValues }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.html) throw new Error(data.error || 'Preview failed');
+      return data.html as string;
+    };
+    setPreviewLoading(true);
+    Promise.all([render(selectedRaw), render(currentCode)])
+      .then(([snapshot, current]) => {
+        if (!cancelled) setPreviews({ snapshot, current });
+      })
+      .catch((err) => {
+        if (!cancelled) toast.error(err instanceof Error ? err.message : 'Preview failed');
+      })
+      .finally(() => {
+        if (!cancelled) setPreviewLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, selectedRaw, currentCode, previewValues, previews]);
+
+  const restore = async (version: TemplateHistoryVersion) => {
+    const confirmed = await confirm({
+      title: 'Restore Version',
+      message: `Restore ${version.releaseLabel ? `"${version.releaseLabel}"` : `the version from ${formatHistoryDate(version.createdAt)}`}? Current content is saved to history first.`,
+      confirmLabel: 'Restore',
+    });
+    if (!confirmed) return;
+    setRestoringId(version.id);
+    try {
+      const res = await fetch('/api/templates/history/restore', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ design, versionId: version.id }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || typeof data.raw !== 'string') throw new Error(data.error || 'Failed to restore version');
+      onRestored(data.raw);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const editLabel = async (version: TemplateHistoryVersion) => {
+    const label = await prompt({
+      title: version.releaseLabel ? 'Rename Release' : 'Name Release',
+      message: 'Named releases are kept permanently. Leave empty to remove the name.',
+      defaultValue: version.releaseLabel || '',
+      placeholder: 'e.g. Spring promo — approved',
+      confirmLabel: 'Save',
+    });
+    if (label === null) return;
+    try {
+      const res = await fetch('/api/templates/history/label', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ design, versionId: version.id, label }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to label version');
+      const update = (item: TemplateHistoryVersion) =>
+        item.id === version.id ? { ...item, ...data.version } : item;
+      setVersions((prev) => prev.map(update));
+      setSelected((prev) => (prev ? update(prev) : prev));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to label version');
+    }
+  };
+
+  if (!open) return null;
+
+  const restoredFrom = (version: TemplateHistoryVersion) =>
+    versions.find((item) => item.id === version.restoredFromVersionId);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 animate-overlay-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass-modal w-[1180px] max-w-[calc(100vw-3rem)] h-[82vh] max-h-[860px] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-4 border-b border-[var(--border)] flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-semibold">Template History</h3>
+            <p className="text-xs text-[var(--muted-foreground)] mt-0.5">
+              Saved versions and named releases for {designLabel}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1.5 text-xs text-[var(--muted-foreground)] cursor-pointer">
+              <input
+                type="checkbox"
+                checked={releasesOnly}
+                onChange={(e) => setReleasesOnly(e.target.checked)}
+              />
+              Releases only
+            </label>
+            <button
+              onClick={loadVersions}
+              disabled={loading}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-[var(--muted)] hover:bg-[var(--accent)] disabled:opacity-40 transition-colors"
+            >
+              <ArrowPathIcon className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 rounded-lg text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors"
+            >
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <div className="w-[320px] border-r border-[var(--border)] overflow-y-auto p-2 space-y-1.5">
+            {loading && versions.length === 0 ? (
+              <p className="text-xs text-[var(--muted-foreground)] px-2 py-2">Loading history...</p>
+            ) : versions.length === 0 ? (
+              <p className="text-xs text-[var(--muted-foreground)] px-2 py-2">
+                {releasesOnly ? 'No named releases yet.' : 'No saved versions yet.'}
+              </p>
+            ) : (
+              versions.map((version) => {
+                const isSelected = selected?.id === version.id;
+                const origin = version.source === 'restore' ? restoredFrom(version) : undefined;
+                return (
+                  <div
+                    key={version.id}
+                    className={`border rounded-lg p-2.5 transition-colors ${isSelected ? 'border-[var(--primary)] bg-[var(--primary)]/5' : 'border-[var(--border)] bg-[var(--background)]'}`}
+                  >
+                    <button onClick={() => selectVersion(version)} className="w-full text-left">
+                      {version.releaseLabel && (
+                        <p className="inline-flex items-center gap-1 mb-1 px-1.5 py-0.5 rounded text-[10px] font-medium text-violet-300 bg-violet-500/10">
+                          <TagIcon className="w-3 h-3" />
+                          {version.releaseLabel}
+                        </p>
+                      )}
+                      <p className="text-xs font-medium">{formatHistoryDate(version.createdAt)}</p>
+                      <div className="flex items-center gap-1.5 mt-0.5 flex-wrap">
+                        {version.createdBy && (
+                          <span className="text-[10px] text-[var(--muted-foreground)]">{version.createdBy}</span>
+                        )}
+                        {version.createdBy && <span className="text-[10px] text-[var(--muted-foreground)] opacity-40">·</span>}
+                        <span className="text-[10px] text-[var(--muted-foreground)]">{formatBytes(version.size)}</span>
+                      </div>
+                      {version.source === 'restore' && (
+                        <p className="flex items-center gap-1 mt-0.5 text-[10px] text-sky-300">
+                          <ArrowUturnLeftIcon className="w-3 h-3" />
+                          Restored{' '}
+                          {origin
+                            ? origin.releaseLabel || `version from ${formatHistoryDate(origin.createdAt)}`
+                            : 'an earlier version'}
+                        </p>
+                      )}
+                    </button>
+                    <div className="mt-2 flex items-center gap-1.5">
+                      <button
+                        onClick={() => restore(version)}
+                        disabled={restoringId === version.id}
+                        className="flex-1 text-center px-2 py-1.5 rounded-md text-xs font-medium bg-[var(--muted)] hover:bg-[var(--accent)] disabled:opacity-40 transition-colors"
+                      >
+                        {restoringId === version.id ? 'Restoring...' : 'Restore'}
+                      </button>
+                      <button
+                        onClick={() => editLabel(version)}
+                        className="px-2 py-1.5 rounded-md text-xs font-medium bg-[var(--muted)] hover:bg-[var(--accent)] transition-colors"
+                        title={version.releaseLabel ? 'Rename release' : 'Name as release'}
+                      >
+                        <TagIcon className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          <div className="flex-1 min-w-0 min-h-0 overflow-y-auto p-4">
+            {!selected ? (
+              <div className="h-full flex items-center justify-center text-center">
+                <p className="text-sm text-[var(--muted-foreground)]">
+                  Select a version to compare against your current editor content.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      Comparing {selected.releaseLabel ? `"${selected.releaseLabel}"` : formatHistoryDate(selected.createdAt)} with current
+                    </p>
+                    {selected.releaseNote && (
+                      <p className="text-xs text-[var(--muted-foreground)]">{selected.releaseNote}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {COMPARE_MODES.map((option) => (
+                      <button
+                        key={option.key}
+                        onClick={() => setMode(option.key)}
+                        className={`px-2.5 py-1 rounded-md text-xs font-medium transition-colors ${mode === option.key ? 'bg-[var(--primary)] text-white' : 'bg-[var(--muted)] hover:bg-[var(--accent)]'}`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {compareLoading ? (
+                  <p className="text-xs text-[var(--muted-foreground)]">Loading version...</p>
+                ) : mode === 'structure' && structureDiff ? (
+                  <div className="space-y-3">
+                    <p className="text-xs text-[var(--muted-foreground)]">
+                      {structureDiff.counts.added} added · {structureDiff.counts.removed} removed
+                      {' · '}{structureDiff.counts.moved} moved · {structureDiff.counts.modified} modified
+                    </p>
+                    {(structureDiff.frontmatter.length > 0 || structureDiff.baseProps.length > 0) && (
+                      <div className="p-3 border border-[var(--border)] rounded-lg bg-[var(--background)]">
+                        <p className="text-[10px] uppercase tracking-wider text-[var(--muted-foreground)]">Template settings</p>
+                        <PropChangeList changes={[...structureDiff.frontmatter, ...structureDiff.baseProps]} />
+                      </div>
+                    )}
+                    <div className="border border-[var(--border)] rounded-lg divide-y divide-[var(--border)]">
+                      {structureDiff.components.map((entry) => {
+                        const style = COMPONENT_KIND_STYLES[entry.kind];
+                        return (
+                          <div
+                            key={`${entry.kind}-${entry.beforeIndex ?? 'n'}-${entry.afterIndex ?? 'n'}`}
+                            className={`px-3 py-2 ${entry.kind === 'unchanged' ? 'opacity-60' : ''}`}
+                          >
+                            <div className="flex items-center gap-2 text-xs">
+                              <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${style.className}`}>
+                                {style.label}
+                              </span>
+                              <span className="font-medium">{entry.type}</span>
+                              <span className="text-[10px] text-[var(--muted-foreground)]">
+                                {entry.kind === 'moved'
+                                  ? `#${entry.beforeIndex! + 1} → #${entry.afterIndex! + 1}`
+                                  : `#${(entry.afterIndex ?? entry.beforeIndex ?? 0) + 1}`}
+                              </span>
+                              {entry.contentChanged && (
+                                <span className="text-[10px] text-amber-300">content changed</span>
+                              )}
+                            </div>
+                            {entry.propChanges.length > 0 && <PropChangeList changes={entry.propChanges} />}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ) : mode === 'code' ? (
+                  codeDiff.length === 0 ? (
+                    <div className="p-4 border border-[var(--border)] rounded-lg bg-[var(--background)]">
+                      <p className="text-sm text-[var(--muted-foreground)]">No differences from current editor content.</p>
+                    </div>
+                  ) : (
+                    <div className="border border-[var(--border)] rounded-lg overflow-hidden">
+                      <div className="grid grid-cols-[76px_1fr_1fr] gap-0 text-[10px] uppercase tracking-wider text-[var(--muted-foreground)] bg-[var(--muted)] border-b border-[var(--border)]">
+                        <div className="px-2 py-1.5">Line</div>
+                        <div className="px-2 py-1.5 border-l border-[var(--border)]">Snapshot</div>
+                        <div className="px-2 py-1.5 border-l border-[var(--border)]">Current</div>
+                      </div>
+                      <div className="max-h-[560px] overflow-auto font-mono text-xs">
+                        {codeDiff.slice(0, 240).map((row) => (
+                          <div
+                            key={`${row.line}-${row.kind}`}
+                            className="grid grid-cols-[76px_1fr_1fr] gap-0 border-b border-[var(--border)] last:border-b-0"
+                          >
+                            <div className="px-2 py-1.5 text-[10px] text-[var(--muted-foreground)] bg-[var(--muted)]/40">{row.line}</div>
+                            <div className={`px-2 py-1.5 border-l border-[var(--border)] whitespace-pre-wrap break-words ${row.kind === 'added' ? 'bg-transparent' : 'bg-red-500/10'}`}>
+                              {row.snapshot || <span className="opacity-40">&lt;empty&gt;</span>}
+                            </div>
+                            <div className={`px-2 py-1.5 border-l border-[var(--border)] whitespace-pre-wrap break-words ${row.kind === 'removed' ? 'bg-transparent' : 'bg-green-500/10'}`}>
+                              {row.current || <span className="opacity-40">&lt;empty&gt;</span>}
+                            </div>
+                          </div>
+                        ))}
+                        {codeDiff.length > 240 && (
+                          <div className="px-3 py-2 text-[10px] text-[var(--muted-foreground)] bg-[var(--muted)]/30">
+                            Showing first 240 changed lines.
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )
+                ) : mode === 'preview' ? (
+                  previewLoading || !previews ? (
+                    <p className="text-xs text-[var(--muted-foreground)]">Rendering previews...</p>
+                  ) : (
+                    <div className="grid grid-cols-2 gap-3">
+                      {([['Snapshot', previews.snapshot], ['Current', previews.current]] as const).map(([label, html]) => (
+                        <div key={label} className="border border-[var(--border)] rounded-lg overflow-hidden">
+                          <div className="px-2 py-1.5 text-[10px] uppercase tracking-wider text-[var(--muted-foreground)] bg-[var(--muted)] border-b border-[var(--border)]">
+                            {label}
+                          </div>
+                          <iframe
+                            title={`${label} preview`}
+                            srcDoc={html}
+                            sandbox=""
+                            className="w-full h-[600px] bg-white"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )
+                ) : null}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,403 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ArrowPathIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  InformationCircleIcon,
+  PaperAirplaneIcon,
+  PlusIcon,
+  TrashIcon,
+  XCircleIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import { toast } from '@/lib/toast';
+import {
+  EMAIL_CLIENT_LABELS,
+  type RenderIssueSeverity,
+  type RenderReport,
+} from '@/lib/email-render-report';
+import { EMAIL_TRANSPORT_LABELS, type EmailTransportKind } from '@/lib/email-transport-options';
+import type { PreviewContact } from '@/lib/preview-variables';
+
+interface SeedAddress {
+  id: string;
+  email: string;
+  label: string | null;
+}
+
+interface TemplateProofModalProps {
+  open: boolean;
+  onClose: () => void;
+  accountKey: string;
+  /** Current editor source — compiled server-side exactly like a real send. */
+  source: string;
+  defaultSubject: string;
+  /** Contact selected in the editor preview; null sends with sample data. */
+  contact: PreviewContact | null;
+}
+
+const SEVERITY_STYLES: Record<RenderIssueSeverity, { icon: typeof XCircleIcon; className: string; label: string }> = {
+  error: { icon: XCircleIcon, className: 'text-red-400', label: 'Errors' },
+  warning: { icon: ExclamationTriangleIcon, className: 'text-amber-400', label: 'Warnings' },
+  info: { icon: InformationCircleIcon, className: 'text-sky-400', label: 'Notes' },
+};
+
+function formatKb(bytes: number): string {
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+export function TemplateProofModal({
+  open,
+  onClose,
+  accountKey,
+  source,
+  defaultSubject,
+  contact,
+}: TemplateProofModalProps) {
+  const [seeds, setSeeds] = useState<SeedAddress[]>([]);
+  const [seedsLoading, setSeedsLoading] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [newEmail, setNewEmail] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [subject, setSubject] = useState(defaultSubject);
+  const [sending, setSending] = useState(false);
+  const [report, setReport] = useState<RenderReport | null>(null);
+  const [reportLoading, setReportLoading] = useState(false);
+  const [checkLinks, setCheckLinks] = useState(false);
+
+  const seedListUrl = `/api/accounts/${encodeURIComponent(accountKey)}/seed-list`;
+  const contactPayload = useMemo(() => (contact ? { contactId: contact.id, contact } : {}), [contact]);
+
+  const loadSeeds = useCallback(async () => {
+    setSeedsLoading(true);
+    try {
+      const res = await fetch(seedListUrl);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to load seed list');
+      const list = (data.seeds ?? []) as SeedAddress[];
+      setSeeds(list);
+      setSelected(new Set(list.map((seed) => seed.email)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to load seed list');
+    } finally {
+      setSeedsLoading(false);
+    }
+  }, [seedListUrl]);
+
+  const runReport = useCallback(async (withLinks: boolean) => {
+    setReportLoading(true);
+    try {
+      const res = await fetch('/api/emails/render-report', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accountKey, source, checkLinks: withLinks, ...contactPayload }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to build rendering report');
+      setReport(data.report as RenderReport);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to build rendering report');
+    } finally {
+      setReportLoading(false);
+    }
+  }, [accountKey, source, contactPayload]);
+
+  useEffect(() => {
+    if (!open) return;
+    setSubject(defaultSubject);
+    setReport(null);
+    loadSeeds();
+    runReport(false);
+    // Only refresh when the modal opens — edits behind it don't re-run the report.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const addSeed = async () => {
+    if (!newEmail.trim()) return;
+    setAdding(true);
+    try {
+      const res = await fetch(seedListUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: newEmail, label: newLabel }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to add seed address');
+      const seed = data.seed as SeedAddress;
+      setSeeds((prev) => [...prev, seed]);
+      setSelected((prev) => new Set(prev).add(seed.email));
+      setNewEmail('');
+      setNewLabel('');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to add seed address');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const removeSeed = async (seed: SeedAddress) => {
+    try {
+      const res = await fetch(`${seedListUrl}/${encodeURIComponent(seed.id)}`, { method: 'DELETE' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to remove seed address');
+      setSeeds((prev) => prev.filter((item) => item.id !== seed.id));
+      setSelected((prev) => {
+        const next = new Set(prev);
+        next.delete(seed.email);
+        return next;
+      });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove seed address');
+    }
+  };
+
+  const toggleSeed = (email: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(email)) next.delete(email);
+      else next.add(email);
+      return next;
+    });
+  };
+
+  const sendProof = async () => {
+    if (selected.size === 0) return;
+    setSending(true);
+    try {
+      const res = await fetch('/api/emails/proof', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          accountKey,
+          source,
+          subject,
+          recipients: [...selected],
+          ...contactPayload,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (data.report) setReport(data.report as RenderReport);
+      if (!res.ok) throw new Error(data.error || 'Failed to send proof');
+      const via = EMAIL_TRANSPORT_LABELS[data.kind as EmailTransportKind] ?? 'email';
+      const failed = (data.failed ?? []) as Array<{ email: string }>;
+      if (failed.length > 0) {
+        toast.warning(`Proof sent to ${data.sent.length} of ${data.sent.length + failed.length} seeds via ${via} — failed: ${failed.map((item) => item.email).join(', ')}`);
+      } else {
+        toast.success(`Proof sent to ${data.sent.length} seed${data.sent.length === 1 ? '' : 's'} via ${via}`);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to send proof');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (!open) return null;
+
+  const contactLabel = contact
+    ? contact.fullName || [contact.firstName, contact.lastName].filter(Boolean).join(' ') || contact.email || contact.id
+    : 'Sample contact';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 animate-overlay-in"
+      onClick={onClose}
+    >
+      <div
+        className="glass-modal w-[960px] max-w-[calc(100vw-3rem)] max-h-[86vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-4 border-b border-[var(--border)] flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-semibold">Proof &amp; Rendering Check</h3>
+            <p className="text-xs text-[var(--muted-foreground)] mt-0.5">
+              Rendered with data from {contactLabel}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg text-[var(--muted-foreground)] hover:text-[var(--foreground)] hover:bg-[var(--muted)] transition-colors"
+          >
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-[340px_1fr] divide-x divide-[var(--border)]">
+          {/* Seed list + send */}
+          <div className="p-5 space-y-4 overflow-y-auto">
+            <div>
+              <label className="text-xs font-medium text-[var(--muted-foreground)] block mb-1.5">Subject</label>
+              <input
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                className="w-full text-sm bg-[var(--input)] border border-[var(--border)] rounded-lg px-3 py-2 text-[var(--foreground)]"
+                placeholder="Subject line..."
+              />
+              <p className="text-[10px] text-[var(--muted-foreground)] mt-1">Prefixed with [PROOF].</p>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-1.5">
+                <span className="text-xs font-medium text-[var(--muted-foreground)]">Seed List</span>
+                <span className="text-[10px] text-[var(--muted-foreground)]">{selected.size} of {seeds.length} selected</span>
+              </div>
+              {seedsLoading ? (
+                <p className="text-xs text-[var(--muted-foreground)] py-2">Loading...</p>
+              ) : seeds.length === 0 ? (
+                <p className="text-xs text-[var(--muted-foreground)] py-2">
+                  No seed addresses yet. Add one inbox per client you test in (Gmail, Outlook, Apple Mail...).
+                </p>
+              ) : (
+                <div className="space-y-1">
+                  {seeds.map((seed) => (
+                    <div key={seed.id} className="group flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-[var(--muted)]">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(seed.email)}
+                        onChange={() => toggleSeed(seed.email)}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs truncate">{seed.email}</p>
+                        {seed.label && <p className="text-[10px] text-[var(--muted-foreground)] truncate">{seed.label}</p>}
+                      </div>
+                      <button
+                        onClick={() => removeSeed(seed)}
+                        className="p-1 rounded text-[var(--muted-foreground)] hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Remove from seed list"
+                      >
+                        <TrashIcon className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="mt-2 space-y-1.5">
+                <input
+                  type="email"
+                  value={newEmail}
+                  onChange={(e) => setNewEmail(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addSeed()}
+                  className="w-full text-xs bg-[var(--input)] border border-[var(--border)] rounded-lg px-3 py-1.5 text-[var(--foreground)]"
+                  placeholder="seed@example.com"
+                />
+                <div className="flex gap-1.5">
+                  <input
+                    value={newLabel}
+                    onChange={(e) => setNewLabel(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addSeed()}
+                    className="flex-1 text-xs bg-[var(--input)] border border-[var(--border)] rounded-lg px-3 py-1.5 text-[var(--foreground)]"
+                    placeholder="Label (e.g. Outlook 2019)"
+                  />
+                  <button
+                    onClick={addSeed}
+                    disabled={!newEmail.trim() || adding}
+                    className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium bg-[var(--muted)] hover:bg-[var(--accent)] disabled:opacity-40 transition-colors"
+                  >
+                    <PlusIcon className="w-3.5 h-3.5" />
+                    Add
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <button
+              onClick={sendProof}
+              disabled={selected.size === 0 || sending || !source.trim()}
+              className="w-full flex items-center justify-center gap-1.5 px-4 py-2 bg-[var(--primary)] text-white rounded-lg text-sm font-medium hover:opacity-90 disabled:opacity-50"
+            >
+              <PaperAirplaneIcon className="w-3.5 h-3.5" />
+              {sending ? 'Sending...' : `Send Proof to ${selected.size} Seed${selected.size === 1 ? '' : 's'}`}
+            </button>
+          </div>
+
+          {/* Rendering report */}
+          <div className="p-5 overflow-y-auto">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-xs font-semibold uppercase tracking-wider text-[var(--muted-foreground)]">Rendering Report</h4>
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-1.5 text-xs text-[var(--muted-foreground)] cursor-pointer">
+                  <input type="checkbox" checked={checkLinks} onChange={(e) => setCheckLinks(e.target.checked)} />
+                  Check links live
+                </label>
+                <button
+                  onClick={() => runReport(checkLinks)}
+                  disabled={reportLoading}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-[var(--muted)] hover:bg-[var(--accent)] disabled:opacity-40 transition-colors"
+                >
+                  <ArrowPathIcon className={`w-3.5 h-3.5 ${reportLoading ? 'animate-spin' : ''}`} />
+                  Re-run
+                </button>
+              </div>
+            </div>
+
+            {!report ? (
+              <p className="text-xs text-[var(--muted-foreground)]">{reportLoading ? 'Compiling and checking...' : 'No report yet.'}</p>
+            ) : (
+              <div className="space-y-3">
+                <div className="grid grid-cols-4 gap-2">
+                  <div className={`rounded-lg border px-3 py-2 ${report.clipped ? 'border-red-500/40 bg-red-500/10' : 'border-[var(--border)]'}`}>
+                    <p className="text-[10px] text-[var(--muted-foreground)]">HTML size</p>
+                    <p className="text-sm font-semibold">{formatKb(report.sizeBytes)}</p>
+                    <p className="text-[10px] text-[var(--muted-foreground)]">Gmail clips at {formatKb(report.clipThresholdBytes)}</p>
+                  </div>
+                  {(['error', 'warning', 'info'] as const).map((severity) => {
+                    const style = SEVERITY_STYLES[severity];
+                    return (
+                      <div key={severity} className="rounded-lg border border-[var(--border)] px-3 py-2">
+                        <p className="text-[10px] text-[var(--muted-foreground)]">{style.label}</p>
+                        <p className={`text-sm font-semibold ${report.counts[severity] > 0 ? style.className : ''}`}>
+                          {report.counts[severity]}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="text-[10px] text-[var(--muted-foreground)]">
+                  {report.imageCount} image{report.imageCount === 1 ? '' : 's'} · {report.links.length} link{report.links.length === 1 ? '' : 's'}
+                </p>
+
+                {report.issues.length === 0 ? (
+                  <div className="flex items-center gap-2 text-xs text-emerald-400">
+                    <CheckCircleIcon className="w-4 h-4" />
+                    No known email-client issues found.
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {report.issues.map((issue, idx) => {
+                      const style = SEVERITY_STYLES[issue.severity];
+                      const Icon = style.icon;
+                      return (
+                        <div key={`${issue.rule}-${idx}`} className="rounded-lg border border-[var(--border)] p-3">
+                          <div className="flex items-start gap-2">
+                            <Icon className={`w-4 h-4 flex-shrink-0 mt-0.5 ${style.className}`} />
+                            <div className="min-w-0 flex-1">
+                              <p className="text-xs">{issue.message}</p>
+                              <p className="text-[10px] text-[var(--muted-foreground)] mt-1">
+                                {issue.clients.map((client) => EMAIL_CLIENT_LABELS[client]).join(', ')}
+                                {issue.occurrences > 1 ? ` · ${issue.occurrences} occurrences` : ''}
+                              </p>
+                              {issue.samples.length > 0 && (
+                                <div className="mt-1.5 space-y-0.5">
+                                  {issue.samples.map((sample) => (
+                                    <p key={sample} className="font-mono text-[10px] text-[var(--muted-foreground)] break-all">{sample}</p>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
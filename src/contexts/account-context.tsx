@@ -34,6 +34,13 @@ export interface AccountData {
     accountName?: string | null;
     installedAt?: string | null;
   }>;
+  /** Latest scheduled health check per connected provider. */
+  connectionHealth?: Array<{
+    provider: string;
+    status: 'healthy' | 'degraded' | 'failing';
+    issues: string[];
+    checkedAt: string;
+  }>;
   email?: string;
   phone?: string;
   salesPhone?: string;
@@ -1,6 +1,8 @@
 import { getServerSession } from 'next-auth';
 import { NextResponse } from 'next/server';
 import { authOptions, type UserRole } from '@/lib/auth';
+import type { ApiTokenScope } from '@/lib/api-token-scopes';
+import { authenticateApiToken } from '@/lib/users/api-tokens';
 
 export async function getAuthSession() {
   return getServerSession(authOptions);
@@ -26,3 +28,34 @@ export async function requireRole(...roles: UserRole[]) {
   if (!roles.includes(session.user.role)) return { session, error: forbidden() };
   return { session, error: null };
 }
+
+/**
+ * Authenticate a `/api/v1` request from its `Authorization: Bearer` personal
+ * access token and check that the token carries `scope`.
+ */
+export async function requireApiToken(req: Request, scope: ApiTokenScope) {
+  const header = req.headers.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    return {
+      principal: null,
+      error: NextResponse.json({ error: 'Missing bearer token' }, { status: 401 }),
+    };
+  }
+
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || null;
+  const principal = await authenticateApiToken(match[1], ip);
+  if (!principal) {
+    return {
+      principal: null,
+      error: NextResponse.json({ error: 'Invalid or expired token' }, { status: 401 }),
+    };
+  }
+  if (!principal.scopes.includes(scope)) {
+    return {
+      principal,
+      error: NextResponse.json({ error: `Token is missing the "${scope}" scope` }, { status: 403 }),
+    };
+  }
+  return { principal, error: null };
+}
@@ -0,0 +1,36 @@
+/**
+ * Client-safe personal access token scopes.
+ * Import from here in client components — never from @/lib/users/api-tokens (which imports prisma).
+ */
+
+export const API_TOKEN_SCOPES = [
+  'accounts:read',
+  'audiences:read',
+  'contacts:read',
+  'templates:read',
+  'campaigns:read',
+  'campaigns:write',
+] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export const API_TOKEN_SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  'accounts:read': 'Read accounts',
+  'audiences:read': 'Read audiences',
+  'contacts:read': 'Read audience contacts',
+  'templates:read': 'Read ESP templates',
+  'campaigns:read': 'Read email campaigns',
+  'campaigns:write': 'Create and send email campaigns',
+};
+
+/** Expiry choices offered in the UI, in days (`null` = never expires). */
+export const API_TOKEN_EXPIRY_OPTIONS: Array<{ label: string; days: number | null }> = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'No expiry', days: null },
+];
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === 'string' && (API_TOKEN_SCOPES as readonly string[]).includes(value);
+}
@@ -0,0 +1,117 @@
+/**
+ * Response shapes for the public `/api/v1` REST surface.
+ *
+ * These are deliberately decoupled from Prisma rows so schema changes don't
+ * leak into the public contract — add fields, never rename or remove them.
+ */
+
+import { getAllAccountKeys } from '@/lib/services/accounts';
+import { filterAccountKeysForPrincipal, type ApiPrincipal } from '@/lib/users/api-tokens';
+import { parseFilterDefinition } from '@/lib/smart-list-types';
+
+export const API_V1_DEFAULT_PAGE_SIZE = 100;
+export const API_V1_MAX_PAGE_SIZE = 500;
+
+/** Every (non-internal) account key the principal may read or act on. */
+export async function getPrincipalAccountKeys(principal: ApiPrincipal): Promise<string[]> {
+  return filterAccountKeysForPrincipal(await getAllAccountKeys(), principal);
+}
+
+export function parsePagination(searchParams: URLSearchParams): { page: number; pageSize: number } {
+  const pageRaw = Number(searchParams.get('page') || '1');
+  const pageSizeRaw = Number(searchParams.get('pageSize') || String(API_V1_DEFAULT_PAGE_SIZE));
+  return {
+    page: Number.isFinite(pageRaw) ? Math.max(1, Math.floor(pageRaw)) : 1,
+    pageSize: Number.isFinite(pageSizeRaw)
+      ? Math.max(1, Math.min(API_V1_MAX_PAGE_SIZE, Math.floor(pageSizeRaw)))
+      : API_V1_DEFAULT_PAGE_SIZE,
+  };
+}
+
+export function serializeAccount(account: {
+  key: string;
+  slug: string | null;
+  dealer: string;
+  category: string | null;
+  oem: string | null;
+  email: string | null;
+  phone: string | null;
+  website: string | null;
+  city: string | null;
+  state: string | null;
+  timezone: string | null;
+  espProvider: string;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    key: account.key,
+    slug: account.slug,
+    name: account.dealer,
+    category: account.category,
+    oem: account.oem,
+    email: account.email,
+    phone: account.phone,
+    website: account.website,
+    city: account.city,
+    state: account.state,
+    timezone: account.timezone,
+    espProvider: account.espProvider,
+    createdAt: account.createdAt.toISOString(),
+    updatedAt: account.updatedAt.toISOString(),
+  };
+}
+
+export function serializeAudience(audience: {
+  id: string;
+  name: string;
+  description: string | null;
+  accountKey: string | null;
+  filters: string;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    id: audience.id,
+    name: audience.name,
+    description: audience.description,
+    accountKey: audience.accountKey,
+    filters: parseFilterDefinition(audience.filters),
+    createdAt: audience.createdAt.toISOString(),
+    updatedAt: audience.updatedAt.toISOString(),
+  };
+}
+
+type TemplateRow = {
+  id: string;
+  accountKey: string;
+  provider: string;
+  name: string;
+  subject: string | null;
+  previewText: string | null;
+  status: string;
+  editorType: string | null;
+  thumbnailUrl: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export function serializeTemplate(template: TemplateRow) {
+  return {
+    id: template.id,
+    accountKey: template.accountKey,
+    provider: template.provider,
+    name: template.name,
+    subject: template.subject,
+    previewText: template.previewText,
+    status: template.status,
+    editorType: template.editorType,
+    thumbnailUrl: template.thumbnailUrl,
+    createdAt: template.createdAt.toISOString(),
+    updatedAt: template.updatedAt.toISOString(),
+  };
+}
+
+export function serializeTemplateDetail(template: TemplateRow & { html: string }) {
+  return { ...serializeTemplate(template), html: template.html };
+}
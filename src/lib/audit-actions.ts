@@ -0,0 +1,68 @@
+/**
+ * Client-safe audit log action and target catalogue.
+ * Import from here in client components — never from @/lib/services/audit-log (which imports prisma).
+ */
+
+export const AUDIT_ACTIONS = {
+  'account.create': 'Account created',
+  'account.update': 'Account updated',
+  'account.delete': 'Account deleted',
+  'account.email-transport.update': 'Email sending transport updated',
+  'account.email-transport.remove': 'Email sending transport removed',
+  'esp.connect': 'ESP connected',
+  'esp.disconnect': 'ESP disconnected',
+  'template.publish': 'Template published',
+  'template.version.label': 'Template release labeled',
+  'template.version.restore': 'Template version restored',
+  'template.review.submit': 'Template submitted for review',
+  'template.review.approve': 'Template approved',
+  'template.review.request-changes': 'Template changes requested',
+  'template.review.withdraw': 'Template review withdrawn',
+  'template.review.reopen': 'Template approval reset by edit',
+  'template.review.reviewers': 'Template reviewers assigned',
+  'template.review.override': 'Publish approval overridden',
+  'template.remote.pull': 'Remote template edits pulled',
+  'saved-section.update': 'Saved section updated',
+  'saved-section.delete': 'Saved section deleted',
+  'saved-section.propagate': 'Saved section update applied',
+  'campaign.create': 'Campaign created',
+  'campaign.cancel': 'Campaign canceled',
+  'user.create': 'User created',
+  'user.update': 'User updated',
+  'user.delete': 'User deleted',
+  'user.impersonate.start': 'Impersonation started',
+  'user.impersonate.stop': 'Impersonation ended',
+  'api-token.create': 'API token created',
+  'api-token.revoke': 'API token revoked',
+  'audit.settings.update': 'Audit settings updated',
+} as const;
+
+export type AuditAction = keyof typeof AUDIT_ACTIONS;
+
+export const AUDIT_TARGET_TYPES = {
+  account: 'Account',
+  'esp-connection': 'ESP connection',
+  template: 'Template',
+  'saved-section': 'Saved section',
+  campaign: 'Campaign',
+  user: 'User',
+  'api-token': 'API token',
+  'audit-settings': 'Audit settings',
+} as const;
+
+export type AuditTargetType = keyof typeof AUDIT_TARGET_TYPES;
+
+/** Field-level change recorded on an event: only fields whose value changed. */
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export const DEFAULT_AUDIT_RETENTION_DAYS = 365;
+export const MIN_AUDIT_RETENTION_DAYS = 30;
+export const MAX_AUDIT_RETENTION_DAYS = 365 * 7;
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return typeof value === 'string' && value in AUDIT_ACTIONS;
+}
+
+export function isAuditTargetType(value: unknown): value is AuditTargetType {
+  return typeof value === 'string' && value in AUDIT_TARGET_TYPES;
+}
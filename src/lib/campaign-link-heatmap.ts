@@ -0,0 +1,96 @@
+// ── Campaign Link Heatmap ──
+// Per-link click breakdowns for a campaign, matched back onto the campaign's
+// preview HTML. Client-safe: used by the analytics panels to annotate the
+// preview and by the API to group stored click events.
+
+export interface CampaignLinkClick {
+  /** Normalized URL (see normalizeLinkUrl) — the key links are matched on. */
+  url: string;
+  /** Total click events, taking the provider that saw the most. */
+  clicks: number;
+  /** Distinct recipients who clicked the link. */
+  uniqueClicks: number;
+  /** Share of the campaign's clicks on this link (0–1). */
+  share: number;
+}
+
+export interface CampaignLinkClicksReport {
+  campaignId: string;
+  accountKey: string;
+  links: CampaignLinkClick[];
+  totalClicks: number;
+  /** Preview HTML the heatmap is drawn on; empty when the provider has none. */
+  html: string;
+  /** Providers whose click events were counted. */
+  sources: string[];
+}
+
+const TRACKING_PARAM_PATTERN = /^(utm_[a-z]+|_kx|mc_cid|mc_eid|gclid|fbclid)$/i;
+
+/**
+ * Reduce a link to the form used for matching: tracking parameters, the
+ * fragment and a trailing slash are dropped so the same CTA matches whether
+ * the URL came from the template, the ESP webhook or Loomi's redirect.
+ */
+export function normalizeLinkUrl(raw: string): string {
+  const value = (raw || '').trim().replace(/&amp;/g, '&');
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return value;
+  }
+  for (const key of [...url.searchParams.keys()]) {
+    if (TRACKING_PARAM_PATTERN.test(key)) url.searchParams.delete(key);
+  }
+  url.hash = '';
+  const normalized = url.toString();
+  return url.search ? normalized : normalized.replace(/\/$/, '');
+}
+
+/** Blue for the least-clicked links through to red for the most-clicked. */
+export function heatColor(ratio: number, alpha = 1): string {
+  const clamped = Math.max(0, Math.min(1, ratio));
+  const hue = Math.round((1 - clamped) * 220);
+  return `hsla(${hue}, 85%, 50%, ${alpha})`;
+}
+
+function formatShare(share: number): string {
+  const pct = share * 100;
+  return `${pct >= 10 || pct === 0 ? pct.toFixed(0) : pct.toFixed(1)}%`;
+}
+
+/**
+ * Outline every link in the preview with its heat colour and pin a badge with
+ * its share of clicks. Scripts are not needed, so the result can be shown in
+ * a fully sandboxed iframe.
+ */
+export function annotateLinkHeatmap(html: string, links: CampaignLinkClick[]): string {
+  if (!html || links.length === 0) return html;
+  const byUrl = new Map(links.map((link) => [link.url, link]));
+  const maxClicks = Math.max(1, ...links.map((link) => link.clicks));
+
+  let annotated = html.replace(/<a\b([^>]*)>/gi, (tag, attrs: string) => {
+    const hrefMatch = attrs.match(/\shref\s*=\s*(?:"([^"]*)"|'([^']*)')/i);
+    if (!hrefMatch) return tag;
+    const link = byUrl.get(normalizeLinkUrl(hrefMatch[1] ?? hrefMatch[2] ?? ''));
+    if (!link) return tag;
+
+    const color = heatColor(link.clicks / maxClicks);
+    const overlay = `position:relative;outline:3px solid ${color};outline-offset:2px;background-color:${heatColor(link.clicks / maxClicks, 0.18)};`;
+    const badge = `<span style="position:absolute;top:-10px;right:-10px;z-index:10;padding:1px 6px;border-radius:9px;background:${color};color:#fff;font:600 11px/16px -apple-system,Segoe UI,Arial,sans-serif;white-space:nowrap;" title="${link.clicks} clicks, ${link.uniqueClicks} unique">${formatShare(link.share)}</span>`;
+
+    const styleMatch = attrs.match(/\sstyle\s*=\s*(?:"([^"]*)"|'([^']*)')/i);
+    const nextAttrs = styleMatch
+      ? attrs.replace(styleMatch[0], ` style="${(styleMatch[1] ?? styleMatch[2] ?? '').replace(/;?\s*$/, ';')}${overlay}"`)
+      : `${attrs} style="${overlay}"`;
+    return `<a${nextAttrs}>${badge}`;
+  });
+
+  // Links can sit near the edge of the email; keep their badges visible.
+  const style = '<style>body{padding:12px !important;}</style>';
+  annotated = /<\/head>/i.test(annotated)
+    ? annotated.replace(/<\/head>/i, `${style}</head>`)
+    : `${style}${annotated}`;
+  return annotated;
+}
@@ -0,0 +1,307 @@
+import {
+  isLikelyDeliverableEmail,
+  isLikelyDialablePhone,
+  normalizeEmailAddress,
+  normalizePhoneNumber,
+} from '@/lib/contact-hygiene';
+import type { ContactPatch, ContactPatchField, NormalizedContact } from '@/lib/esp/types';
+
+// ── Contact CSV ──
+// Client-safe CSV parsing/serialization plus the column mapping used by the
+// contact import wizard and audience exports.
+
+// ── CSV ──
+
+/** Parse RFC 4180 CSV (quoted fields, escaped quotes, CRLF/LF, BOM). */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) || value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((cells) => cells.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// ── Import Mapping ──
+
+export type ContactImportField = ContactPatchField | 'tags';
+
+export interface ContactImportFieldDefinition {
+  key: ContactImportField;
+  label: string;
+  /** Lower-cased header spellings seen in DMS/CRM exports. */
+  aliases: string[];
+  date?: boolean;
+}
+
+export const CONTACT_IMPORT_FIELDS: ContactImportFieldDefinition[] = [
+  { key: 'firstName', label: 'First Name', aliases: ['first name', 'firstname', 'first', 'fname', 'customer first name', 'given name'] },
+  { key: 'lastName', label: 'Last Name', aliases: ['last name', 'lastname', 'last', 'lname', 'surname', 'customer last name', 'family name'] },
+  { key: 'email', label: 'Email', aliases: ['email', 'email address', 'e-mail', 'customer email', 'primary email'] },
+  { key: 'phone', label: 'Phone', aliases: ['phone', 'phone number', 'mobile', 'mobile phone', 'cell', 'cell phone', 'home phone', 'primary phone'] },
+  { key: 'address1', label: 'Address', aliases: ['address', 'address1', 'address 1', 'street', 'street address', 'address line 1'] },
+  { key: 'city', label: 'City', aliases: ['city', 'town'] },
+  { key: 'state', label: 'State', aliases: ['state', 'province', 'region', 'st'] },
+  { key: 'postalCode', label: 'Postal Code', aliases: ['postal code', 'postalcode', 'zip', 'zip code', 'zipcode', 'postcode'] },
+  { key: 'country', label: 'Country', aliases: ['country', 'country code'] },
+  { key: 'source', label: 'Source', aliases: ['source', 'lead source', 'contact source'] },
+  { key: 'vehicleYear', label: 'Vehicle Year', aliases: ['vehicle year', 'year', 'model year', 'veh year'] },
+  { key: 'vehicleMake', label: 'Vehicle Make', aliases: ['vehicle make', 'make', 'veh make'] },
+  { key: 'vehicleModel', label: 'Vehicle Model', aliases: ['vehicle model', 'model', 'veh model'] },
+  { key: 'vehicleVin', label: 'VIN', aliases: ['vin', 'vehicle vin', 'vin number', 'vehicle identification number'] },
+  { key: 'vehicleMileage', label: 'Mileage', aliases: ['mileage', 'vehicle mileage', 'odometer', 'miles'] },
+  { key: 'purchaseDate', label: 'Purchase Date', aliases: ['purchase date', 'sale date', 'sold date', 'delivery date', 'deal date'], date: true },
+  { key: 'lastServiceDate', label: 'Last Service Date', aliases: ['last service date', 'last service', 'last ro date', 'last repair order date'], date: true },
+  { key: 'nextServiceDate', label: 'Next Service Date', aliases: ['next service date', 'next service', 'service due date'], date: true },
+  { key: 'leaseEndDate', label: 'Lease End Date', aliases: ['lease end date', 'lease end', 'lease maturity date', 'lease maturity', 'maturity date'], date: true },
+  { key: 'warrantyEndDate', label: 'Warranty End Date', aliases: ['warranty end date', 'warranty end', 'warranty expiration', 'warranty expiration date'], date: true },
+  { key: 'tags', label: 'Tags', aliases: ['tags', 'tag', 'labels'] },
+];
+
+const FIELD_BY_KEY = new Map(CONTACT_IMPORT_FIELDS.map((field) => [field.key, field]));
+
+/** One target field (or null to skip) per CSV column, by column index. */
+export type ContactColumnMapping = Array<ContactImportField | null>;
+
+function normalizeHeader(header: string): string {
+  return header
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/[_\-.]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Auto-map CSV headers onto contact fields; each field is used at most once. */
+export function suggestColumnMapping(headers: string[]): ContactColumnMapping {
+  const used = new Set<ContactImportField>();
+  return headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    const match = CONTACT_IMPORT_FIELDS.find((field) =>
+      !used.has(field.key) && (field.aliases.includes(normalized) || normalizeHeader(field.key) === normalized),
+    );
+    if (!match) return null;
+    used.add(match.key);
+    return match.key;
+  });
+}
+
+/** Keep only known fields and drop duplicate targets (first column wins). */
+export function sanitizeColumnMapping(value: unknown, columnCount: number): ContactColumnMapping {
+  const input = Array.isArray(value) ? value : [];
+  const used = new Set<ContactImportField>();
+  const mapping: ContactColumnMapping = [];
+  for (let index = 0; index < columnCount; index += 1) {
+    const key = input[index];
+    if (typeof key === 'string' && FIELD_BY_KEY.has(key as ContactImportField) && !used.has(key as ContactImportField)) {
+      used.add(key as ContactImportField);
+      mapping.push(key as ContactImportField);
+    } else {
+      mapping.push(null);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Normalize a date cell to YYYY-MM-DD. Accepts ISO dates/timestamps and the
+ * US-style M/D/YYYY (or M/D/YY) most dealer systems export. Returns null when
+ * the value cannot be read as a date.
+ */
+export function normalizeImportDate(value: string): string | null {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const us = trimmed.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/);
+
+  let year: number;
+  let month: number;
+  let day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    const rawYear = Number(us[3]);
+    year = us[3].length === 2 ? (rawYear >= 70 ? 1900 + rawYear : 2000 + rawYear) : rawYear;
+    [month, day] = [Number(us[1]), Number(us[2])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+export interface MappedContactRow {
+  contact: ContactPatch;
+  tags: string[];
+  errors: string[];
+}
+
+/**
+ * Map one CSV row onto a contact patch and validate it. Blank cells are
+ * omitted so imports never clear existing values on matched contacts.
+ */
+export function mapContactRow(cells: string[], mapping: ContactColumnMapping): MappedContactRow {
+  const contact: ContactPatch = {};
+  const tags: string[] = [];
+  const errors: string[] = [];
+
+  mapping.forEach((key, index) => {
+    if (!key) return;
+    const raw = (cells[index] ?? '').trim();
+    if (!raw) return;
+
+    if (key === 'tags') {
+      for (const tag of raw.split(/[,;|]/)) {
+        const trimmed = tag.trim();
+        if (trimmed && !tags.some((existing) => existing.toLowerCase() === trimmed.toLowerCase())) tags.push(trimmed);
+      }
+      return;
+    }
+
+    const field = FIELD_BY_KEY.get(key)!;
+    if (field.date) {
+      const date = normalizeImportDate(raw);
+      if (date) contact[key] = date;
+      else errors.push(`${field.label} "${raw}" is not a valid date`);
+      return;
+    }
+    if (key === 'email') {
+      contact.email = normalizeEmailAddress(raw);
+      if (!isLikelyDeliverableEmail(contact.email)) errors.push(`Email "${raw}" is not deliverable`);
+      return;
+    }
+    if (key === 'phone') {
+      contact.phone = normalizePhoneNumber(raw);
+      if (!isLikelyDialablePhone(contact.phone)) errors.push(`Phone "${raw}" is not dialable`);
+      return;
+    }
+    if (key === 'vehicleVin') {
+      contact.vehicleVin = raw.toUpperCase();
+      return;
+    }
+    contact[key] = raw;
+  });
+
+  if (!contact.email && !contact.phone) {
+    errors.push('An email or phone is required');
+  }
+
+  return { contact, tags, errors };
+}
+
+// ── Export ──
+
+export interface ContactExportColumn {
+  key: keyof NormalizedContact;
+  label: string;
+}
+
+export const CONTACT_EXPORT_COLUMNS: ContactExportColumn[] = [
+  { key: 'id', label: 'Contact ID' },
+  { key: 'firstName', label: 'First Name' },
+  { key: 'lastName', label: 'Last Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'address1', label: 'Address' },
+  { key: 'city', label: 'City' },
+  { key: 'state', label: 'State' },
+  { key: 'postalCode', label: 'Postal Code' },
+  { key: 'country', label: 'Country' },
+  { key: 'source', label: 'Source' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'dateAdded', label: 'Date Added' },
+  { key: 'vehicleYear', label: 'Vehicle Year' },
+  { key: 'vehicleMake', label: 'Vehicle Make' },
+  { key: 'vehicleModel', label: 'Vehicle Model' },
+  { key: 'vehicleVin', label: 'VIN' },
+  { key: 'vehicleMileage', label: 'Mileage' },
+  { key: 'purchaseDate', label: 'Purchase Date' },
+  { key: 'lastServiceDate', label: 'Last Service Date' },
+  { key: 'nextServiceDate', label: 'Next Service Date' },
+  { key: 'leaseEndDate', label: 'Lease End Date' },
+  { key: 'warrantyEndDate', label: 'Warranty End Date' },
+  { key: 'lastMessageDate', label: 'Last Message Date' },
+];
+
+export const DEFAULT_EXPORT_COLUMN_KEYS: Array<keyof NormalizedContact> = [
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'vehicleYear',
+  'vehicleMake',
+  'vehicleModel',
+  'vehicleVin',
+  'purchaseDate',
+  'leaseEndDate',
+  'tags',
+];
+
+/** Resolve requested column keys against the export catalog, preserving catalog order. */
+export function resolveExportColumns(keys: unknown): ContactExportColumn[] {
+  const requested = new Set(Array.isArray(keys) ? keys.map(String) : DEFAULT_EXPORT_COLUMN_KEYS);
+  const columns = CONTACT_EXPORT_COLUMNS.filter((column) => requested.has(column.key));
+  return columns.length > 0
+    ? columns
+    : CONTACT_EXPORT_COLUMNS.filter((column) => DEFAULT_EXPORT_COLUMN_KEYS.includes(column.key));
+}
+
+export function contactExportRow(contact: NormalizedContact, columns: ContactExportColumn[]): string[] {
+  return columns.map((column) => {
+    const value = contact[column.key];
+    if (Array.isArray(value)) return value.join(', ');
+    if (typeof value === 'boolean') return value ? 'true' : 'false';
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
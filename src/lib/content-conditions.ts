@@ -0,0 +1,261 @@
+// ── Conditional Content Blocks ──
+// A core component can carry a visibility rule (`visible-if` on its
+// <x-core.*> tag) built from the audience filter operators. Rendering wraps
+// the component's output in hidden marker divs — Maizzle strips comments, the
+// same reason the editor uses div markers for click-to-select — and each
+// consumer resolves the markers: the editor preview and native sends evaluate
+// them per contact, publishing turns them into the ESP's conditional syntax.
+
+import { matchesFilter } from '@/lib/smart-list-engine';
+import {
+  FILTERABLE_FIELDS,
+  OPERATOR_LABELS,
+  type FieldDefinition,
+  type FilterCondition,
+  type FilterOperator,
+} from '@/lib/smart-list-types';
+
+export interface VisibilityRule {
+  logic: 'AND' | 'OR';
+  conditions: FilterCondition[];
+}
+
+/** A rule condition with its contact field resolved to a canonical merge variable. */
+export interface CanonicalCondition {
+  variable: string;
+  operator: FilterOperator;
+  value: string;
+}
+
+export interface CanonicalConditionGroup {
+  logic: 'AND' | 'OR';
+  conditions: CanonicalCondition[];
+}
+
+export const VISIBILITY_ATTRIBUTE = 'visible-if';
+
+/**
+ * Audience fields a rule can test, limited to those with a merge variable so
+ * every ESP can evaluate them at send time.
+ */
+const FIELD_VARIABLES: Record<string, string> = {
+  firstName: 'contact.first_name',
+  lastName: 'contact.last_name',
+  fullName: 'contact.full_name',
+  email: 'contact.email',
+  phone: 'contact.phone',
+  city: 'contact.city',
+  state: 'contact.state',
+  postalCode: 'contact.postal_code',
+  vehicleYear: 'contact.vehicle_year',
+  vehicleMake: 'contact.vehicle_make',
+  vehicleModel: 'contact.vehicle_model',
+  vehicleVin: 'contact.vehicle_vin',
+  vehicleMileage: 'contact.vehicle_mileage',
+  purchaseDate: 'contact.purchase_date',
+  lastServiceDate: 'contact.last_service_date',
+  nextServiceDate: 'contact.next_service_date',
+  leaseEndDate: 'contact.lease_end_date',
+  warrantyEndDate: 'contact.warranty_end_date',
+};
+
+export const VISIBILITY_FIELDS: FieldDefinition[] = FILTERABLE_FIELDS.filter(
+  (field) => FIELD_VARIABLES[field.key],
+);
+
+/**
+ * Operators ESP template languages can express. Date comparisons need date
+ * math most of them lack, so date fields only test presence.
+ */
+export const VISIBILITY_OPERATORS_BY_TYPE: Record<'text' | 'date', FilterOperator[]> = {
+  text: ['is_not_empty', 'is_empty', 'equals', 'not_equals', 'contains'],
+  date: ['is_not_empty', 'is_empty'],
+};
+
+export function visibilityOperatorsForField(fieldKey: string): FilterOperator[] {
+  const field = VISIBILITY_FIELDS.find((candidate) => candidate.key === fieldKey);
+  return field?.type === 'date' ? VISIBILITY_OPERATORS_BY_TYPE.date : VISIBILITY_OPERATORS_BY_TYPE.text;
+}
+
+// ── Rule (de)serialization ──
+
+export function parseVisibilityRule(raw: string | null | undefined): VisibilityRule | null {
+  if (!raw?.trim()) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<VisibilityRule>;
+    if (!parsed || !Array.isArray(parsed.conditions)) return null;
+    const conditions = parsed.conditions.filter(
+      (condition): condition is FilterCondition =>
+        Boolean(condition && typeof condition.field === 'string' && typeof condition.operator === 'string'),
+    );
+    if (conditions.length === 0) return null;
+    return {
+      logic: parsed.logic === 'OR' ? 'OR' : 'AND',
+      conditions: conditions.map((condition) => ({ ...condition, value: String(condition.value ?? '') })),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function serializeVisibilityRule(rule: VisibilityRule): string {
+  return JSON.stringify({
+    logic: rule.logic,
+    conditions: rule.conditions.map(({ id, field, operator, value }) => ({ id, field, operator, value })),
+  });
+}
+
+export function describeVisibilityRule(rule: VisibilityRule): string {
+  return rule.conditions
+    .map((condition) => {
+      const label = VISIBILITY_FIELDS.find((field) => field.key === condition.field)?.label || condition.field;
+      const operator = OPERATOR_LABELS[condition.operator] || condition.operator;
+      return condition.value ? `${label} ${operator} "${condition.value}"` : `${label} ${operator}`;
+    })
+    .join(rule.logic === 'AND' ? ' and ' : ' or ');
+}
+
+/** Resolve contact fields to merge variables; null if any field has none. */
+export function canonicalizeVisibilityRule(rule: VisibilityRule): CanonicalConditionGroup | null {
+  const conditions: CanonicalCondition[] = [];
+  for (const condition of rule.conditions) {
+    const variable = FIELD_VARIABLES[condition.field];
+    if (!variable) return null;
+    conditions.push({ variable, operator: condition.operator, value: condition.value });
+  }
+  return { logic: rule.logic, conditions };
+}
+
+export function evaluateVisibilityRule(rule: VisibilityRule, contact: object): boolean {
+  return matchesFilter(contact, {
+    version: 1,
+    logic: 'AND',
+    groups: [{ id: 'visibility', logic: rule.logic, conditions: rule.conditions }],
+  });
+}
+
+// ── Render markers ──
+
+const COMPONENT_TAG_PATTERN = /<x-core\.(\w[\w-]*)([\s\S]*?)(?:\/>|>([\s\S]*?)<\/x-core\.\1>)/g;
+const VISIBILITY_ATTRIBUTE_PATTERN = /\s+visible-if=(?:"([^"]*)"|'([^']*)')/;
+const CONDITIONAL_BLOCK_PATTERN =
+  /<div\b[^>]*\bdata-loomi-if="([^"]*)"[^>]*>\s*<\/div>([\s\S]*?)<div\b[^>]*\bdata-loomi-endif\b[^>]*>\s*<\/div>/g;
+
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/gi, '"')
+    .replace(/&#34;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&#39;/gi, "'")
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&amp;/gi, '&');
+}
+
+/**
+ * Wrap every component that has a visibility rule in marker divs and drop the
+ * attribute from the component tag. Runs on template source before render.
+ */
+export function wrapConditionalComponents(source: string): string {
+  if (!source.includes(VISIBILITY_ATTRIBUTE)) return source;
+  return source.replace(COMPONENT_TAG_PATTERN, (tag: string) => {
+    const match = tag.match(VISIBILITY_ATTRIBUTE_PATTERN);
+    if (!match) return tag;
+    const rule = parseVisibilityRule(decodeAttribute(match[1] ?? match[2] ?? ''));
+    const stripped = tag.replace(VISIBILITY_ATTRIBUTE_PATTERN, '');
+    if (!rule) return stripped;
+    const encoded = encodeURIComponent(serializeVisibilityRule(rule));
+    return `<div data-loomi-if="${encoded}" style="display:none"></div>${stripped}<div data-loomi-endif style="display:none"></div>`;
+  });
+}
+
+export interface ConditionalBlock {
+  rule: VisibilityRule | null;
+  content: string;
+}
+
+/**
+ * Rewrite each conditional block in rendered HTML. The callback receives the
+ * parsed rule (null when the marker is unreadable) and the block's content.
+ */
+export function replaceConditionalBlocks(
+  html: string,
+  replace: (block: ConditionalBlock) => string,
+): string {
+  if (!html || !html.includes('data-loomi-if')) return html;
+  return html.replace(CONDITIONAL_BLOCK_PATTERN, (_match, encoded: string, content: string) => {
+    let rule: VisibilityRule | null = null;
+    try {
+      rule = parseVisibilityRule(decodeURIComponent(encoded));
+    } catch {
+      rule = null;
+    }
+    return replace({ rule, content });
+  });
+}
+
+/**
+ * Resolve conditional blocks for one contact: blocks whose rule fails are
+ * removed, the rest keep their content without markers.
+ */
+export function applyContentConditions(html: string, contact: object): string {
+  return replaceConditionalBlocks(html, ({ rule, content }) =>
+    !rule || evaluateVisibilityRule(rule, contact) ? content : '',
+  );
+}
+
+// ── Preview personas ──
+
+export interface SampleVisibilityContact {
+  id: string;
+  label: string;
+  contact: Record<string, string>;
+}
+
+/**
+ * Sample contacts for previewing conditional blocks. The first matches the
+ * sample values the preview fills merge tags with.
+ */
+export const SAMPLE_VISIBILITY_CONTACTS: SampleVisibilityContact[] = [
+  {
+    id: '__sample__',
+    label: 'Sample',
+    contact: {
+      firstName: 'Alex',
+      lastName: 'Customer',
+      fullName: 'Alex Customer',
+      email: 'alex.customer@example.com',
+      phone: '(801) 555-0199',
+      city: 'Layton',
+      state: 'UT',
+      postalCode: '84041',
+      vehicleYear: '2021',
+      vehicleMake: 'Mazda',
+      vehicleModel: 'CX-5',
+      vehicleVin: 'JM3KFACM7M1234567',
+      vehicleMileage: '42000',
+      purchaseDate: '2021-03-20',
+      lastServiceDate: '2025-10-05',
+      nextServiceDate: '2026-03-05',
+      leaseEndDate: '2027-02-01',
+      warrantyEndDate: '2026-12-15',
+    },
+  },
+  {
+    id: '__sample_no_vehicle__',
+    label: 'Sample (no vehicle)',
+    contact: {
+      firstName: 'Jordan',
+      lastName: 'Prospect',
+      fullName: 'Jordan Prospect',
+      email: 'jordan.prospect@example.com',
+      city: 'Ogden',
+      state: 'UT',
+      postalCode: '84401',
+    },
+  },
+];
+
+export function findSampleVisibilityContact(id: string): SampleVisibilityContact | null {
+  return SAMPLE_VISIBILITY_CONTACTS.find((sample) => sample.id === id) ?? null;
+}
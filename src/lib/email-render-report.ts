@@ -0,0 +1,375 @@
+/**
+ * Static rendering report for compiled email HTML: flags the markup and CSS
+ * that mail clients are known to drop or mangle, without sending anything.
+ * Client-safe (no Node APIs) so the editor can reuse the types.
+ */
+
+export type EmailClient = 'outlook' | 'gmail' | 'apple-mail' | 'yahoo';
+
+export const EMAIL_CLIENT_LABELS: Record<EmailClient, string> = {
+  outlook: 'Outlook (Windows)',
+  gmail: 'Gmail',
+  'apple-mail': 'Apple Mail',
+  yahoo: 'Yahoo Mail',
+};
+
+export type RenderIssueSeverity = 'error' | 'warning' | 'info';
+
+export type RenderIssueRule =
+  | 'gmail-clip'
+  | 'gmail-style-limit'
+  | 'unsupported-css'
+  | 'unsupported-element'
+  | 'external-stylesheet'
+  | 'image-missing-alt'
+  | 'image-missing-dimensions'
+  | 'link-empty'
+  | 'link-malformed'
+  | 'link-unresolved-variable'
+  | 'link-insecure'
+  | 'link-unreachable';
+
+export interface RenderIssue {
+  rule: RenderIssueRule;
+  severity: RenderIssueSeverity;
+  message: string;
+  clients: EmailClient[];
+  occurrences: number;
+  /** Up to a few offending snippets (URLs, img src, CSS declarations). */
+  samples: string[];
+}
+
+export interface RenderReportLink {
+  href: string;
+  text: string;
+}
+
+export interface RenderReport {
+  sizeBytes: number;
+  clipThresholdBytes: number;
+  clipped: boolean;
+  imageCount: number;
+  links: RenderReportLink[];
+  issues: RenderIssue[];
+  counts: Record<RenderIssueSeverity, number>;
+}
+
+/** Gmail truncates messages whose HTML exceeds ~102KB behind "[Message clipped]". */
+export const GMAIL_CLIP_BYTES = 102 * 1024;
+
+/** Gmail discards a `<style>` block entirely once it grows past 16KB. */
+const GMAIL_STYLE_BLOCK_BYTES = 16 * 1024;
+
+const MAX_SAMPLES = 5;
+
+interface CssRule {
+  pattern: RegExp;
+  label: string;
+  clients: EmailClient[];
+  severity: RenderIssueSeverity;
+}
+
+// Only rules that change what the reader sees — vendor-prefixed or
+// progressive-enhancement properties that degrade silently are left out.
+const CSS_RULES: CssRule[] = [
+  { pattern: /display\s*:\s*(?:inline-)?flex\b/i, label: 'display: flex', clients: ['outlook', 'gmail', 'yahoo'], severity: 'warning' },
+  { pattern: /display\s*:\s*(?:inline-)?grid\b/i, label: 'display: grid', clients: ['outlook', 'gmail', 'yahoo'], severity: 'warning' },
+  { pattern: /position\s*:\s*(?:absolute|fixed|relative|sticky)\b/i, label: 'position', clients: ['outlook', 'gmail', 'yahoo'], severity: 'warning' },
+  { pattern: /(?:^|[;\s{])float\s*:\s*(?:left|right)\b/i, label: 'float', clients: ['outlook'], severity: 'info' },
+  { pattern: /max-width\s*:/i, label: 'max-width', clients: ['outlook'], severity: 'info' },
+  { pattern: /border-radius\s*:/i, label: 'border-radius', clients: ['outlook'], severity: 'info' },
+  { pattern: /box-shadow\s*:/i, label: 'box-shadow', clients: ['outlook'], severity: 'info' },
+  { pattern: /background(?:-image)?\s*:[^;"]*url\(/i, label: 'CSS background image', clients: ['outlook'], severity: 'warning' },
+  { pattern: /(?:^|[;\s{])transform\s*:/i, label: 'transform', clients: ['outlook', 'gmail'], severity: 'warning' },
+  { pattern: /(?:^|[;\s{])(?:animation|transition)\s*:/i, label: 'animation / transition', clients: ['outlook', 'gmail'], severity: 'info' },
+  { pattern: /var\(--/i, label: 'CSS custom properties (var())', clients: ['outlook', 'gmail', 'yahoo'], severity: 'warning' },
+  { pattern: /@import\b/i, label: '@import', clients: ['outlook', 'gmail', 'yahoo'], severity: 'warning' },
+  { pattern: /@font-face\b/i, label: '@font-face web fonts', clients: ['outlook', 'gmail', 'yahoo'], severity: 'info' },
+];
+
+const UNSUPPORTED_ELEMENTS: Array<{ tag: string; clients: EmailClient[]; severity: RenderIssueSeverity }> = [
+  { tag: 'script', clients: ['outlook', 'gmail', 'apple-mail', 'yahoo'], severity: 'error' },
+  { tag: 'form', clients: ['outlook', 'gmail', 'yahoo'], severity: 'warning' },
+  { tag: 'iframe', clients: ['outlook', 'gmail', 'apple-mail', 'yahoo'], severity: 'error' },
+  { tag: 'video', clients: ['outlook', 'gmail', 'yahoo'], severity: 'warning' },
+  { tag: 'svg', clients: ['outlook', 'gmail', 'yahoo'], severity: 'warning' },
+];
+
+// ── Helpers ──
+
+function byteLength(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
+
+function readAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  if (!match) return null;
+  return match[1] ?? match[2] ?? match[3] ?? '';
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+}
+
+function stripTags(value: string): string {
+  return decodeEntities(value.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function truncate(value: string, max = 120): string {
+  return value.length > max ? `${value.slice(0, max - 1)}…` : value;
+}
+
+/** Drop conditional comments so MSO-only markup isn't flagged as unsupported in Outlook. */
+function stripComments(html: string): string {
+  return html.replace(/<!--[\s\S]*?-->/g, '');
+}
+
+class IssueCollector {
+  private readonly issues = new Map<string, RenderIssue>();
+
+  add(
+    key: string,
+    base: Omit<RenderIssue, 'occurrences' | 'samples'>,
+    sample?: string,
+  ) {
+    let issue = this.issues.get(key);
+    if (!issue) {
+      issue = { ...base, occurrences: 0, samples: [] };
+      this.issues.set(key, issue);
+    }
+    issue.occurrences += 1;
+    if (sample && issue.samples.length < MAX_SAMPLES && !issue.samples.includes(sample)) {
+      issue.samples.push(truncate(sample));
+    }
+  }
+
+  list(): RenderIssue[] {
+    const order: Record<RenderIssueSeverity, number> = { error: 0, warning: 1, info: 2 };
+    return [...this.issues.values()].sort((a, b) => order[a.severity] - order[b.severity]);
+  }
+}
+
+// ── Checks ──
+
+function checkCss(html: string, collector: IssueCollector) {
+  const declarations: string[] = [];
+  for (const match of html.matchAll(/<style\b[^>]*>([\s\S]*?)<\/style>/gi)) {
+    declarations.push(match[1]);
+    if (byteLength(match[1]) > GMAIL_STYLE_BLOCK_BYTES) {
+      collector.add('gmail-style-limit', {
+        rule: 'gmail-style-limit',
+        severity: 'warning',
+        message: 'A <style> block is over 16KB — Gmail drops the whole block, so any non-inlined styles are lost.',
+        clients: ['gmail'],
+      });
+    }
+  }
+  for (const match of html.matchAll(/\sstyle\s*=\s*(?:"([^"]*)"|'([^']*)')/gi)) {
+    declarations.push(match[1] ?? match[2] ?? '');
+  }
+
+  for (const css of declarations) {
+    for (const rule of CSS_RULES) {
+      const found = css.match(rule.pattern);
+      if (!found) continue;
+      collector.add(`css:${rule.label}`, {
+        rule: 'unsupported-css',
+        severity: rule.severity,
+        message: `${rule.label} is not supported everywhere and will be ignored by some clients.`,
+        clients: rule.clients,
+      }, found[0].trim());
+    }
+  }
+}
+
+function checkElements(html: string, collector: IssueCollector) {
+  for (const element of UNSUPPORTED_ELEMENTS) {
+    const count = html.match(new RegExp(`<${element.tag}\\b`, 'gi'))?.length ?? 0;
+    for (let i = 0; i < count; i += 1) {
+      collector.add(`element:${element.tag}`, {
+        rule: 'unsupported-element',
+        severity: element.severity,
+        message: `<${element.tag}> is stripped or blocked by most email clients.`,
+        clients: element.clients,
+      });
+    }
+  }
+
+  for (const match of html.matchAll(/<link\b[^>]*>/gi)) {
+    if (!/rel\s*=\s*["']?stylesheet/i.test(match[0])) continue;
+    collector.add('external-stylesheet', {
+      rule: 'external-stylesheet',
+      severity: 'warning',
+      message: 'External stylesheets are not loaded by Gmail or Outlook — inline the styles instead.',
+      clients: ['outlook', 'gmail', 'yahoo'],
+    }, readAttribute(match[0], 'href') || match[0]);
+  }
+}
+
+function checkImages(html: string, collector: IssueCollector): number {
+  let count = 0;
+  for (const match of html.matchAll(/<img\b[^>]*>/gi)) {
+    count += 1;
+    const tag = match[0];
+    const src = readAttribute(tag, 'src') || '(no src)';
+
+    if (readAttribute(tag, 'alt') === null) {
+      collector.add('image-missing-alt', {
+        rule: 'image-missing-alt',
+        severity: 'warning',
+        message: 'Images without alt text show nothing when images are blocked (Outlook blocks them by default) and fail accessibility checks. Use alt="" for decorative images.',
+        clients: ['outlook', 'gmail', 'apple-mail', 'yahoo'],
+      }, src);
+    }
+
+    const style = readAttribute(tag, 'style') || '';
+    const hasWidth = readAttribute(tag, 'width') !== null || /(?:^|;)\s*width\s*:/i.test(style);
+    const hasHeight = readAttribute(tag, 'height') !== null || /(?:^|;)\s*height\s*:/i.test(style);
+    if (readAttribute(tag, 'width') === null) {
+      collector.add('image-missing-dimensions', {
+        rule: 'image-missing-dimensions',
+        severity: hasWidth && hasHeight ? 'info' : 'warning',
+        message: 'Images without a width attribute render at their natural size in Outlook and can blow out the layout; missing dimensions also cause reflow while loading.',
+        clients: ['outlook'],
+      }, src);
+    } else if (!hasHeight) {
+      collector.add('image-missing-height', {
+        rule: 'image-missing-dimensions',
+        severity: 'info',
+        message: 'Images without a height reserve no space while loading, so the layout jumps when they arrive.',
+        clients: ['gmail', 'apple-mail', 'yahoo'],
+      }, src);
+    }
+  }
+  return count;
+}
+
+function checkLinks(html: string, collector: IssueCollector): RenderReportLink[] {
+  const links: RenderReportLink[] = [];
+  for (const match of html.matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi)) {
+    const rawHref = readAttribute(` ${match[1]}`, 'href');
+    const text = truncate(stripTags(match[2]) || '(image or empty link)', 80);
+
+    if (rawHref === null || !rawHref.trim() || rawHref.trim() === '#') {
+      collector.add('link-empty', {
+        rule: 'link-empty',
+        severity: 'error',
+        message: 'Links with an empty or "#" href go nowhere when clicked.',
+        clients: ['outlook', 'gmail', 'apple-mail', 'yahoo'],
+      }, text);
+      continue;
+    }
+
+    const href = decodeEntities(rawHref.trim());
+    links.push({ href, text });
+
+    if (/\{\{[^}]*\}\}|\{%/.test(href)) {
+      collector.add('link-unresolved-variable', {
+        rule: 'link-unresolved-variable',
+        severity: 'warning',
+        message: 'A link still contains an unresolved merge variable — it will be broken unless the ESP fills it in at send time.',
+        clients: ['outlook', 'gmail', 'apple-mail', 'yahoo'],
+      }, href);
+      continue;
+    }
+    if (/^(?:mailto|tel|sms):/i.test(href)) continue;
+    if (/^javascript:/i.test(href)) {
+      collector.add('link-malformed', {
+        rule: 'link-malformed',
+        severity: 'error',
+        message: 'Malformed or unsupported link URLs will not open.',
+        clients: ['outlook', 'gmail', 'apple-mail', 'yahoo'],
+      }, href);
+      continue;
+    }
+
+    let parsed: URL | null = null;
+    try {
+      parsed = new URL(href);
+    } catch {
+      parsed = null;
+    }
+    if (!parsed || !/^https?:$/.test(parsed.protocol) || !parsed.hostname.includes('.')) {
+      collector.add('link-malformed', {
+        rule: 'link-malformed',
+        severity: 'error',
+        message: 'Malformed or unsupported link URLs will not open.',
+        clients: ['outlook', 'gmail', 'apple-mail', 'yahoo'],
+      }, href);
+      continue;
+    }
+    if (parsed.protocol === 'http:') {
+      collector.add('link-insecure', {
+        rule: 'link-insecure',
+        severity: 'info',
+        message: 'Plain http:// links trigger browser warnings and hurt spam scoring — prefer https://.',
+        clients: ['gmail', 'apple-mail'],
+      }, href);
+    }
+  }
+  return links;
+}
+
+// ── Public API ──
+
+/**
+ * Analyze compiled email HTML. Pass `unreachableLinks` (from a live link
+ * check) to fold broken URLs into the same report.
+ */
+export function buildRenderReport(
+  html: string,
+  options?: { unreachableLinks?: Array<{ href: string; status: number | null }> },
+): RenderReport {
+  const collector = new IssueCollector();
+  const sizeBytes = byteLength(html);
+  const clipped = sizeBytes > GMAIL_CLIP_BYTES;
+  if (clipped) {
+    collector.add('gmail-clip', {
+      rule: 'gmail-clip',
+      severity: 'error',
+      message: `The HTML is ${(sizeBytes / 1024).toFixed(1)}KB — Gmail clips messages over 102KB, hiding the footer and unsubscribe link and breaking open tracking.`,
+      clients: ['gmail'],
+    });
+  } else if (sizeBytes > GMAIL_CLIP_BYTES * 0.9) {
+    collector.add('gmail-clip', {
+      rule: 'gmail-clip',
+      severity: 'warning',
+      message: `The HTML is ${(sizeBytes / 1024).toFixed(1)}KB — close to Gmail's 102KB clip threshold. ESP link tracking adds size at send time.`,
+      clients: ['gmail'],
+    });
+  }
+
+  const visible = stripComments(html);
+  checkCss(visible, collector);
+  checkElements(visible, collector);
+  const imageCount = checkImages(visible, collector);
+  const links = checkLinks(visible, collector);
+
+  for (const link of options?.unreachableLinks ?? []) {
+    collector.add('link-unreachable', {
+      rule: 'link-unreachable',
+      severity: 'error',
+      message: 'These links returned an error or did not respond.',
+      clients: ['outlook', 'gmail', 'apple-mail', 'yahoo'],
+    }, link.status ? `${link.href} (${link.status})` : `${link.href} (no response)`);
+  }
+
+  const issues = collector.list();
+  const counts: Record<RenderIssueSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const issue of issues) counts[issue.severity] += 1;
+
+  return {
+    sizeBytes,
+    clipThresholdBytes: GMAIL_CLIP_BYTES,
+    clipped,
+    imageCount,
+    links,
+    issues,
+    counts,
+  };
+}
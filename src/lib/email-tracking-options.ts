@@ -0,0 +1,65 @@
+// ── Email Tracking Options ──
+// Per-account open/click tracking for Loomi-native email sends (stored as JSON
+// in Account.emailTrackingPolicy) and per-campaign UTM templates. Client-safe.
+
+export interface EmailTrackingPolicy {
+  /** Append a 1×1 open pixel to every send. */
+  opens: boolean;
+  /** Rewrite links through the signed Loomi click redirect. */
+  clicks: boolean;
+}
+
+export const DEFAULT_EMAIL_TRACKING_POLICY: EmailTrackingPolicy = {
+  opens: true,
+  clicks: true,
+};
+
+export const UTM_PARAMS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_content', 'utm_term'] as const;
+
+export type UtmParam = (typeof UTM_PARAMS)[number];
+
+/** Values may use the UTM template variables below, e.g. `{{campaign.name}}`. */
+export type EmailUtmParams = Partial<Record<UtmParam, string>>;
+
+export const UTM_TEMPLATE_VARIABLES: Array<{ token: string; description: string }> = [
+  { token: '{{campaign.id}}', description: 'Loomi campaign id' },
+  { token: '{{campaign.name}}', description: 'Campaign name (or subject)' },
+  { token: '{{account.key}}', description: 'Recipient\'s account key' },
+  { token: '{{account.dealer}}', description: 'Recipient\'s dealer name' },
+  { token: '{{link.index}}', description: 'Position of the link in the email (1, 2, …)' },
+];
+
+const MAX_UTM_VALUE_LENGTH = 200;
+
+/** Validate an untrusted policy; missing flags keep their default. */
+export function normalizeEmailTrackingPolicy(raw: unknown): EmailTrackingPolicy {
+  const source = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw as Record<string, unknown> : {};
+  return {
+    opens: typeof source.opens === 'boolean' ? source.opens : DEFAULT_EMAIL_TRACKING_POLICY.opens,
+    clicks: typeof source.clicks === 'boolean' ? source.clicks : DEFAULT_EMAIL_TRACKING_POLICY.clicks,
+  };
+}
+
+export function parseEmailTrackingPolicy(raw: string | null | undefined): EmailTrackingPolicy {
+  if (!raw) return { ...DEFAULT_EMAIL_TRACKING_POLICY };
+  try {
+    return normalizeEmailTrackingPolicy(JSON.parse(raw));
+  } catch {
+    return { ...DEFAULT_EMAIL_TRACKING_POLICY };
+  }
+}
+
+/** Keep only known, non-empty UTM params. */
+export function normalizeEmailUtmParams(raw: unknown): EmailUtmParams {
+  const source = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw as Record<string, unknown> : {};
+  const params: EmailUtmParams = {};
+  for (const key of UTM_PARAMS) {
+    const value = typeof source[key] === 'string' ? (source[key] as string).trim() : '';
+    if (value) params[key] = value.slice(0, MAX_UTM_VALUE_LENGTH);
+  }
+  return params;
+}
+
+export function hasEmailUtmParams(params: EmailUtmParams | null | undefined): boolean {
+  return !!params && UTM_PARAMS.some((key) => !!params[key]);
+}
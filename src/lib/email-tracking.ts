@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import {
+  UTM_PARAMS,
+  hasEmailUtmParams,
+  type EmailTrackingPolicy,
+  type EmailUtmParams,
+} from '@/lib/email-tracking-options';
+
+const TOKEN_VERSION = 1 as const;
+const CLICK_PATH = '/api/email/track/click';
+const OPEN_PATH = '/api/email/track/open';
+
+export type EmailTrackingKind = 'open' | 'click';
+
+export type EmailTrackingPayload = {
+  v: typeof TOKEN_VERSION;
+  kind: EmailTrackingKind;
+  campaignId: string;
+  recipientId: string;
+  accountKey: string;
+  /** Destination for click tokens (UTM parameters already applied). */
+  url?: string;
+};
+
+export interface EmailTrackingContext {
+  campaignId: string;
+  campaignName: string;
+  recipientId: string;
+  accountKey: string;
+  dealer?: string;
+  policy: EmailTrackingPolicy;
+  utm?: EmailUtmParams | null;
+  /** Links that must never be rewritten (e.g. the signed unsubscribe URL). */
+  skipUrls?: string[];
+}
+
+function configuredTrackingSecrets(): string[] {
+  const values = [
+    process.env.EMAIL_TRACKING_SECRET,
+    process.env.NEXTAUTH_SECRET,
+  ].map((value) => (typeof value === 'string' ? value.trim() : '')).filter(Boolean);
+  return Array.from(new Set(values));
+}
+
+function getHmacKeys(): Buffer[] {
+  const secrets = configuredTrackingSecrets();
+  if (secrets.length === 0) {
+    throw new Error('EMAIL_TRACKING_SECRET or NEXTAUTH_SECRET is required for email tracking links');
+  }
+  return secrets.map((secret) => crypto.createHash('sha256').update(`${secret}:email-tracking`).digest());
+}
+
+function sign(payloadB64: string, key: Buffer): string {
+  return crypto.createHmac('sha256', key).update(payloadB64).digest('base64url');
+}
+
+function resolveAppBaseUrl(): string {
+  const raw = (process.env.NEXTAUTH_URL || process.env.APP_BASE_URL || 'http://127.0.0.1:3000').trim();
+  return raw.replace(/\/+$/, '');
+}
+
+// ── Tokens ──
+
+/**
+ * Tracking tokens never expire, like unsubscribe links — a click on an old
+ * email must still reach its destination. Rotating EMAIL_TRACKING_SECRET
+ * breaks outstanding redirects, so prefer adding a new secret first.
+ */
+export function signEmailTrackingToken(input: Omit<EmailTrackingPayload, 'v'>): string {
+  const payload: EmailTrackingPayload = {
+    v: TOKEN_VERSION,
+    kind: input.kind,
+    campaignId: input.campaignId,
+    recipientId: input.recipientId,
+    accountKey: input.accountKey,
+    ...(input.url ? { url: input.url } : {}),
+  };
+  const payloadB64 = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  return `${payloadB64}.${sign(payloadB64, getHmacKeys()[0])}`;
+}
+
+export function verifyEmailTrackingToken(token: string): EmailTrackingPayload | null {
+  const [payloadB64, signature] = (token || '').trim().split('.');
+  if (!payloadB64 || !signature) return null;
+
+  const signatureBuffer = Buffer.from(signature, 'base64url');
+  const valid = getHmacKeys().some((key) => {
+    const expected = Buffer.from(sign(payloadB64, key), 'base64url');
+    return expected.length === signatureBuffer.length && crypto.timingSafeEqual(expected, signatureBuffer);
+  });
+  if (!valid) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(payloadB64, 'base64url').toString('utf8'));
+    const kind = payload?.kind === 'open' || payload?.kind === 'click' ? payload.kind as EmailTrackingKind : null;
+    const campaignId = typeof payload?.campaignId === 'string' ? payload.campaignId : '';
+    const recipientId = typeof payload?.recipientId === 'string' ? payload.recipientId : '';
+    const accountKey = typeof payload?.accountKey === 'string' ? payload.accountKey : '';
+    const url = typeof payload?.url === 'string' ? payload.url : undefined;
+    if (payload?.v !== TOKEN_VERSION || !kind || !campaignId || !recipientId || !accountKey) return null;
+    if (kind === 'click' && !url) return null;
+    return { v: TOKEN_VERSION, kind, campaignId, recipientId, accountKey, url };
+  } catch {
+    return null;
+  }
+}
+
+export function buildTrackedClickUrl(input: Omit<EmailTrackingPayload, 'v' | 'kind'> & { url: string }): string {
+  const token = signEmailTrackingToken({ ...input, kind: 'click' });
+  return `${resolveAppBaseUrl()}${CLICK_PATH}?t=${encodeURIComponent(token)}`;
+}
+
+export function buildOpenPixelUrl(input: Omit<EmailTrackingPayload, 'v' | 'kind' | 'url'>): string {
+  const token = signEmailTrackingToken({ ...input, kind: 'open' });
+  return `${resolveAppBaseUrl()}${OPEN_PATH}?t=${encodeURIComponent(token)}`;
+}
+
+// ── HTML rewriting ──
+
+function decodeHref(value: string): string {
+  return value.replace(/&amp;/g, '&');
+}
+
+function encodeHref(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+function fillUtmTemplate(template: string, ctx: EmailTrackingContext, linkIndex: number): string {
+  const values: Record<string, string> = {
+    'campaign.id': ctx.campaignId,
+    'campaign.name': ctx.campaignName,
+    'account.key': ctx.accountKey,
+    'account.dealer': ctx.dealer || '',
+    'link.index': String(linkIndex),
+  };
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, name: string) => values[name] ?? match).trim();
+}
+
+/** Add UTM parameters the link doesn't already carry; existing values win. */
+export function applyUtmParams(
+  href: string,
+  utm: EmailUtmParams,
+  ctx: EmailTrackingContext,
+  linkIndex: number,
+): string {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return href;
+  }
+  for (const key of UTM_PARAMS) {
+    const template = utm[key];
+    if (!template || url.searchParams.has(key)) continue;
+    const value = fillUtmTemplate(template, ctx, linkIndex);
+    if (value) url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+function isTrackableHref(href: string, skipUrls: Set<string>): boolean {
+  if (!/^https?:\/\//i.test(href)) return false;
+  if (skipUrls.has(href)) return false;
+  // Merge tags left for the ESP to fill can't be signed ahead of time.
+  if (/\{\{|\{%|%7B%7B/i.test(href)) return false;
+  return !href.includes('/api/email/unsubscribe') && !href.includes(CLICK_PATH);
+}
+
+/**
+ * Apply UTM parameters and, when the account allows it, click redirects and
+ * an open pixel. Links marked `data-loomi-notrack` keep their original href.
+ */
+export function applyEmailTracking(html: string, ctx: EmailTrackingContext): string {
+  const withUtm = hasEmailUtmParams(ctx.utm);
+  if (!withUtm && !ctx.policy.clicks && !ctx.policy.opens) return html;
+
+  const skipUrls = new Set(ctx.skipUrls || []);
+  let linkIndex = 0;
+  let output = html.replace(/<a\b[^>]*>/gi, (tag) => {
+    if (/\sdata-loomi-notrack\b/i.test(tag)) return tag;
+    const match = tag.match(/\shref\s*=\s*(?:"([^"]*)"|'([^']*)')/i);
+    if (!match) return tag;
+    const original = decodeHref((match[1] ?? match[2] ?? '').trim());
+    if (!isTrackableHref(original, skipUrls)) return tag;
+
+    linkIndex += 1;
+    let href = withUtm ? applyUtmParams(original, ctx.utm as EmailUtmParams, ctx, linkIndex) : original;
+    if (ctx.policy.clicks) {
+      href = buildTrackedClickUrl({
+        campaignId: ctx.campaignId,
+        recipientId: ctx.recipientId,
+        accountKey: ctx.accountKey,
+        url: href,
+      });
+    }
+    return tag.replace(match[0], ` href="${encodeHref(href)}"`);
+  });
+
+  if (ctx.policy.opens) {
+    const pixelUrl = buildOpenPixelUrl({
+      campaignId: ctx.campaignId,
+      recipientId: ctx.recipientId,
+      accountKey: ctx.accountKey,
+    });
+    const pixel = `<img src="${encodeHref(pixelUrl)}" width="1" height="1" alt="" style="display:block;width:1px;height:1px;border:0;" />`;
+    output = /<\/body>/i.test(output)
+      ? output.replace(/<\/body>/i, `${pixel}</body>`)
+      : `${output}${pixel}`;
+  }
+  return output;
+}
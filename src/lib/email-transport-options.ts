@@ -0,0 +1,33 @@
+/**
+ * Client-safe catalogue of per-account email campaign transports.
+ * Import from here in client components — never from @/lib/services/email-transport (which imports prisma).
+ */
+
+export const EMAIL_TRANSPORT_PROVIDERS = ['sendgrid', 'klaviyo', 'smtp'] as const;
+
+export type EmailTransportProvider = (typeof EMAIL_TRANSPORT_PROVIDERS)[number];
+
+/** `default` marks sends that went through the global SMTP relay (no account transport configured). */
+export type EmailTransportKind = EmailTransportProvider | 'default';
+
+export const EMAIL_TRANSPORT_LABELS: Record<EmailTransportKind, string> = {
+  sendgrid: 'SendGrid Mail Send',
+  klaviyo: 'Klaviyo',
+  smtp: 'Custom SMTP',
+  default: 'Loomi default SMTP',
+};
+
+export const EMAIL_TRANSPORT_DESCRIPTIONS: Record<EmailTransportProvider, string> = {
+  sendgrid: 'Sends through the account\'s connected SendGrid API key. Opens, clicks and bounces flow back through the Event Webhook.',
+  klaviyo: 'Triggers the "Loomi Campaign Email" metric for each recipient. Requires a Klaviyo flow on that metric that sends {{ event.html|safe }} with subject {{ event.subject }}.',
+  smtp: 'Sends through the dealer\'s own SMTP server. The password is encrypted at rest.',
+};
+
+/** Transports that send with an existing ESP connection's API key. */
+export const ESP_BACKED_EMAIL_TRANSPORTS = ['sendgrid', 'klaviyo'] as const satisfies readonly EmailTransportProvider[];
+
+export type EspBackedEmailTransport = (typeof ESP_BACKED_EMAIL_TRANSPORTS)[number];
+
+export function isEmailTransportProvider(value: unknown): value is EmailTransportProvider {
+  return typeof value === 'string' && (EMAIL_TRANSPORT_PROVIDERS as readonly string[]).includes(value);
+}
@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+
+const TOKEN_VERSION = 1 as const;
+const UNSUBSCRIBE_PATH = '/api/email/unsubscribe';
+
+export type EmailUnsubscribePayload = {
+  v: typeof TOKEN_VERSION;
+  email: string;
+  accountKey: string;
+  campaignId?: string;
+  recipientId?: string;
+};
+
+function configuredUnsubscribeSecrets(): string[] {
+  const values = [
+    process.env.EMAIL_UNSUBSCRIBE_SECRET,
+    process.env.NEXTAUTH_SECRET,
+  ].map((value) => (typeof value === 'string' ? value.trim() : '')).filter(Boolean);
+  return Array.from(new Set(values));
+}
+
+function getHmacKeys(): Buffer[] {
+  const secrets = configuredUnsubscribeSecrets();
+  if (secrets.length === 0) {
+    throw new Error('EMAIL_UNSUBSCRIBE_SECRET or NEXTAUTH_SECRET is required for unsubscribe links');
+  }
+  return secrets.map((secret) => crypto.createHash('sha256').update(`${secret}:email-unsubscribe`).digest());
+}
+
+function sign(payloadB64: string, key: Buffer): string {
+  return crypto.createHmac('sha256', key).update(payloadB64).digest('base64url');
+}
+
+function resolveAppBaseUrl(): string {
+  const raw = (process.env.NEXTAUTH_URL || process.env.APP_BASE_URL || 'http://127.0.0.1:3000').trim();
+  return raw.replace(/\/+$/, '');
+}
+
+/**
+ * Unsubscribe tokens never expire — a link in a years-old email must still
+ * work. Rotating EMAIL_UNSUBSCRIBE_SECRET invalidates outstanding links.
+ */
+export function signEmailUnsubscribeToken(input: Omit<EmailUnsubscribePayload, 'v'>): string {
+  const email = input.email.trim().toLowerCase();
+  const accountKey = input.accountKey.trim();
+  if (!email) throw new Error('Unsubscribe token email is required');
+  if (!accountKey) throw new Error('Unsubscribe token accountKey is required');
+
+  const payload: EmailUnsubscribePayload = {
+    v: TOKEN_VERSION,
+    email,
+    accountKey,
+    ...(input.campaignId ? { campaignId: input.campaignId } : {}),
+    ...(input.recipientId ? { recipientId: input.recipientId } : {}),
+  };
+  const payloadB64 = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+  return `${payloadB64}.${sign(payloadB64, getHmacKeys()[0])}`;
+}
+
+export function verifyEmailUnsubscribeToken(token: string): EmailUnsubscribePayload | null {
+  const [payloadB64, signature] = (token || '').trim().split('.');
+  if (!payloadB64 || !signature) return null;
+
+  const signatureBuffer = Buffer.from(signature, 'base64url');
+  const valid = getHmacKeys().some((key) => {
+    const expected = Buffer.from(sign(payloadB64, key), 'base64url');
+    return expected.length === signatureBuffer.length && crypto.timingSafeEqual(expected, signatureBuffer);
+  });
+  if (!valid) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(payloadB64, 'base64url').toString('utf8'));
+    const email = typeof payload?.email === 'string' ? payload.email.trim().toLowerCase() : '';
+    const accountKey = typeof payload?.accountKey === 'string' ? payload.accountKey.trim() : '';
+    if (payload?.v !== TOKEN_VERSION || !email || !accountKey) return null;
+    return {
+      v: TOKEN_VERSION,
+      email,
+      accountKey,
+      campaignId: typeof payload.campaignId === 'string' ? payload.campaignId : undefined,
+      recipientId: typeof payload.recipientId === 'string' ? payload.recipientId : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function buildEmailUnsubscribeUrl(input: Omit<EmailUnsubscribePayload, 'v'>): string {
+  const token = signEmailUnsubscribeToken(input);
+  return `${resolveAppBaseUrl()}${UNSUBSCRIBE_PATH}?token=${encodeURIComponent(token)}`;
+}
+
+/** RFC 8058 one-click headers for a signed unsubscribe URL. */
+export function buildListUnsubscribeHeaders(unsubscribeUrl: string): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
@@ -1,12 +1,14 @@
 import type { EspAdapter } from '@/lib/esp/types';
 import { GhlAdapter } from './ghl';
 import { KlaviyoAdapter } from './klaviyo';
+import { MailchimpAdapter } from './mailchimp';
 import { SendGridAdapter } from './sendgrid';
 
 export function instantiateEspAdapters(): EspAdapter[] {
   return [
     new GhlAdapter(),
     new KlaviyoAdapter(),
+    new MailchimpAdapter(),
     new SendGridAdapter(),
   ];
 }
@@ -0,0 +1,183 @@
+import { normalizeContact } from './contacts';
+import { GhlContactError } from './contact-detail';
+import { API_VERSION, GHL_BASE } from './constants';
+import type { ContactPatch, NormalizedContact } from '../../types';
+
+// ── GHL Contact Write-back ──
+// Standard fields map onto the contact record; vehicle and lifecycle fields
+// are contact custom fields keyed by their snake_case field keys.
+
+const STANDARD_FIELDS = [
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'address1',
+  'city',
+  'state',
+  'postalCode',
+  'country',
+  'source',
+] as const;
+
+const CUSTOM_FIELD_KEYS = {
+  vehicleYear: 'vehicle_year',
+  vehicleMake: 'vehicle_make',
+  vehicleModel: 'vehicle_model',
+  vehicleVin: 'vehicle_vin',
+  vehicleMileage: 'vehicle_mileage',
+  lastServiceDate: 'last_service_date',
+  nextServiceDate: 'next_service_date',
+  leaseEndDate: 'lease_end_date',
+  warrantyEndDate: 'warranty_end_date',
+  purchaseDate: 'purchase_date',
+} as const;
+
+/**
+ * GHL `customFields` payload for the vehicle/lifecycle fields in `contact`.
+ * Empty values are skipped unless `includeEmpty` is set (used to clear a
+ * field on update).
+ */
+export function buildContactCustomFields(
+  contact: Partial<Record<keyof typeof CUSTOM_FIELD_KEYS, string>>,
+  options: { includeEmpty?: boolean } = {},
+): { key: string; field_value: string }[] {
+  const fields: { key: string; field_value: string }[] = [];
+  for (const [field, key] of Object.entries(CUSTOM_FIELD_KEYS) as [keyof typeof CUSTOM_FIELD_KEYS, string][]) {
+    const value = contact[field];
+    if (value === undefined) continue;
+    if (!value && !options.includeEmpty) continue;
+    fields.push({ key, field_value: value });
+  }
+  return fields;
+}
+
+function buildContactBody(patch: ContactPatch, includeEmpty: boolean): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+  for (const field of STANDARD_FIELDS) {
+    const value = patch[field];
+    if (value === undefined) continue;
+    if (!value && !includeEmpty) continue;
+    body[field] = value;
+  }
+  const customFields = buildContactCustomFields(patch, { includeEmpty });
+  if (customFields.length > 0) body.customFields = customFields;
+  return body;
+}
+
+/**
+ * GHL echoes custom fields by id only, so the patched values are laid over
+ * the normalized response to keep vehicle fields accurate.
+ */
+function normalizeWrittenContact(raw: Record<string, unknown>, patch: ContactPatch): NormalizedContact {
+  const normalized = normalizeContact(raw);
+  const written: Partial<NormalizedContact> = {};
+  for (const [field, value] of Object.entries(patch)) {
+    if (value !== undefined) (written as Record<string, unknown>)[field] = value;
+  }
+  const merged = { ...normalized, ...written };
+  merged.fullName = [merged.firstName, merged.lastName].filter(Boolean).join(' ') || normalized.fullName;
+  return merged;
+}
+
+async function ghlContactRequest(
+  token: string,
+  path: string,
+  init: { method: string; body?: Record<string, unknown> },
+  action: string,
+): Promise<Record<string, unknown>> {
+  const res = await fetch(`${GHL_BASE}${path}`, {
+    method: init.method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      Version: API_VERSION,
+      Accept: 'application/json',
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+    },
+    ...(init.body ? { body: JSON.stringify(init.body) } : {}),
+  });
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new GhlContactError(
+      `GHL ${action} failed (${res.status})${text ? `: ${text.slice(0, 200)}` : ''}`,
+      res.status,
+    );
+  }
+
+  const data = await res.json().catch(() => ({}));
+  return data && typeof data === 'object' ? data as Record<string, unknown> : {};
+}
+
+function contactFromResponse(data: Record<string, unknown>): Record<string, unknown> {
+  const contact = data.contact;
+  return contact && typeof contact === 'object' ? contact as Record<string, unknown> : data;
+}
+
+// ── Create ──
+
+export async function createContact(params: {
+  token: string;
+  locationId: string;
+  contact: ContactPatch & { tags?: string[] };
+}): Promise<NormalizedContact> {
+  const { tags, ...patch } = params.contact;
+  if (!patch.email && !patch.phone) {
+    throw new GhlContactError('An email or phone is required to create a contact', 400);
+  }
+
+  const body = {
+    locationId: params.locationId,
+    ...buildContactBody(patch, false),
+    ...(tags && tags.length > 0 ? { tags } : {}),
+  };
+  const data = await ghlContactRequest(params.token, '/contacts/', { method: 'POST', body }, 'create contact');
+  return normalizeWrittenContact(contactFromResponse(data), patch);
+}
+
+// ── Update ──
+
+export async function updateContact(params: {
+  token: string;
+  locationId: string;
+  contactId: string;
+  patch: ContactPatch;
+}): Promise<NormalizedContact> {
+  const body = buildContactBody(params.patch, true);
+  const data = await ghlContactRequest(
+    params.token,
+    `/contacts/${encodeURIComponent(params.contactId)}`,
+    { method: 'PUT', body },
+    'update contact',
+  );
+  return normalizeWrittenContact(contactFromResponse(data), params.patch);
+}
+
+// ── Remove Tags ──
+
+export async function removeContactTags(params: {
+  token: string;
+  contactId: string;
+  tags: string[];
+}): Promise<void> {
+  await ghlContactRequest(
+    params.token,
+    `/contacts/${encodeURIComponent(params.contactId)}/tags`,
+    { method: 'DELETE', body: { tags: params.tags } },
+    'remove tags',
+  );
+}
+
+// ── Delete ──
+
+export async function deleteContact(params: {
+  token: string;
+  contactId: string;
+}): Promise<void> {
+  await ghlContactRequest(
+    params.token,
+    `/contacts/${encodeURIComponent(params.contactId)}`,
+    { method: 'DELETE' },
+    'delete contact',
+  );
+}
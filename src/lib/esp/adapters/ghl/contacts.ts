@@ -702,3 +702,31 @@ export async function requestContacts({
 
   throw new Error(lastError);
 }
+
+// ── Add Tags ──
+
+export async function addContactTags({
+  token,
+  contactId,
+  tags,
+}: {
+  token: string;
+  contactId: string;
+  tags: string[];
+}): Promise<void> {
+  const res = await fetch(`${GHL_BASE}/contacts/${encodeURIComponent(contactId)}/tags`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      Version: API_VERSION,
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ tags }),
+  });
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(`GHL add tags failed (${res.status})${text ? `: ${text.slice(0, 200)}` : ''}`);
+  }
+}
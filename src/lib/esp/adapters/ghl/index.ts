@@ -31,6 +31,7 @@ import type {
   OAuthTokenSet,
   EspConnectionRecord,
   NormalizedContact,
+  ContactPatch,
   EspCampaign,
   EspCampaignAnalytics,
   EspWorkflow,
@@ -82,11 +83,18 @@ import {
   requestContacts,
   getCachedContactCount,
   setCachedContactCount,
+  addContactTags,
 } from './contacts';
 import {
   fetchGhlContactDetail,
   updateGhlContactDnd,
 } from './contact-detail';
+import {
+  createContact,
+  updateContact,
+  removeContactTags,
+  deleteContact,
+} from './contact-write';
 import {
   fetchGhlContactConversations,
   fetchGhlMessagingSummaryByContactIds,
@@ -108,6 +116,8 @@ import {
   deleteTemplate,
 } from './templates';
 
+import { ghlMergeTagDialect } from './merge-tags';
+
 import {
   listMedia as listGhlMedia,
   uploadMedia as uploadGhlMedia,
@@ -273,6 +283,49 @@ class GhlContactsAdapter implements ContactsAdapter {
   setCachedContactCount(accountKey: string, total: number): void {
     setCachedContactCount(accountKey, total);
   }
+
+  async addTags(params: {
+    token: string;
+    locationId: string;
+    contactId: string;
+    tags: string[];
+  }): Promise<void> {
+    return addContactTags(params);
+  }
+
+  async createContact(params: {
+    token: string;
+    locationId: string;
+    contact: ContactPatch & { tags?: string[] };
+  }): Promise<NormalizedContact> {
+    return createContact(params);
+  }
+
+  async updateContact(params: {
+    token: string;
+    locationId: string;
+    contactId: string;
+    patch: ContactPatch;
+  }): Promise<NormalizedContact> {
+    return updateContact(params);
+  }
+
+  async removeTags(params: {
+    token: string;
+    locationId: string;
+    contactId: string;
+    tags: string[];
+  }): Promise<void> {
+    return removeContactTags(params);
+  }
+
+  async deleteContact(params: {
+    token: string;
+    locationId: string;
+    contactId: string;
+  }): Promise<void> {
+    return deleteContact(params);
+  }
 }
 
 // ── Contact Detail Sub-adapter ──
@@ -757,5 +810,6 @@ export class GhlAdapter implements EspAdapter {
   readonly users = new GhlUsersAdapter();
   readonly customValues = new GhlCustomValuesAdapter();
   readonly templates = new GhlTemplatesAdapter();
+  readonly mergeTags = ghlMergeTagDialect;
   readonly media = new GhlMediaAdapter();
 }
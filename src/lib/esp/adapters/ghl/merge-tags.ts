@@ -0,0 +1,43 @@
+import { canonicalMergeTagPattern, parseCanonicalMergeTag } from '@/lib/esp/merge-tags';
+import type { CanonicalCondition, CanonicalConditionGroup } from '@/lib/content-conditions';
+import type { ConditionalBlockTags, MergeTagDialect } from '../../types';
+
+/**
+ * GHL is where Loomi's canonical syntax comes from, so tags pass through
+ * unchanged. GHL has no default-value filter; defaults are dropped.
+ * Conditional blocks use GHL's Liquid `{% if %}`, which compares
+ * case-sensitively where audience filters don't.
+ */
+function liquidCondition({ variable, operator, value }: CanonicalCondition): string | null {
+  if (value.includes('"')) return null;
+  switch (operator) {
+    case 'is_not_empty':
+      return `${variable} != blank`;
+    case 'is_empty':
+      return `${variable} == blank`;
+    case 'equals':
+      return `${variable} == "${value}"`;
+    case 'not_equals':
+      return `${variable} != "${value}"`;
+    case 'contains':
+      return `${variable} contains "${value}"`;
+    default:
+      return null;
+  }
+}
+
+function formatCondition(group: CanonicalConditionGroup): ConditionalBlockTags | null {
+  const expressions = group.conditions.map(liquidCondition);
+  if (expressions.length === 0 || expressions.some((expression) => expression === null)) return null;
+  const joiner = group.logic === 'AND' ? ' and ' : ' or ';
+  return { open: `{% if ${expressions.join(joiner)} %}`, close: '{% endif %}' };
+}
+
+export const ghlMergeTagDialect: MergeTagDialect = {
+  provider: 'ghl',
+  supportsFallbacks: false,
+  format: ({ variable }) => `{{${variable}}}`,
+  tokenPattern: canonicalMergeTagPattern(),
+  parse: parseCanonicalMergeTag,
+  formatCondition,
+};
@@ -2,7 +2,7 @@
 
 import { KLAVIYO_BASE, KLAVIYO_REVISION } from './constants';
 import { resolveKlaviyoCredentials } from './auth';
-import type { EspCredentials, NormalizedContact } from '../../types';
+import type { ContactPatch, EspCredentials, NormalizedContact } from '../../types';
 
 // ── Shared request helper ──
 
@@ -201,3 +201,197 @@ export function normalizeContact(raw: Record<string, unknown>): NormalizedContac
     lastMessageDate: String(props.lastMessageDate || ''),
   };
 }
+
+// ── Contact Write-back ──
+
+export class KlaviyoContactError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = 'KlaviyoContactError';
+    this.status = status;
+  }
+}
+
+/** Profile property names for the vehicle/lifecycle fields (the first alias normalizeContact reads). */
+const PROFILE_PROPERTY_FIELDS = [
+  'source',
+  'vehicleYear',
+  'vehicleMake',
+  'vehicleModel',
+  'vehicleVin',
+  'vehicleMileage',
+  'lastServiceDate',
+  'nextServiceDate',
+  'leaseEndDate',
+  'warrantyEndDate',
+  'purchaseDate',
+] as const;
+
+function buildProfileAttributes(patch: ContactPatch): Record<string, unknown> {
+  const attributes: Record<string, unknown> = {};
+  if (patch.email !== undefined) attributes.email = patch.email || null;
+  if (patch.phone !== undefined) attributes.phone_number = patch.phone || null;
+  if (patch.firstName !== undefined) attributes.first_name = patch.firstName;
+  if (patch.lastName !== undefined) attributes.last_name = patch.lastName;
+
+  const location: Record<string, unknown> = {};
+  if (patch.address1 !== undefined) location.address1 = patch.address1;
+  if (patch.city !== undefined) location.city = patch.city;
+  if (patch.state !== undefined) location.region = patch.state;
+  if (patch.postalCode !== undefined) location.zip = patch.postalCode;
+  if (patch.country !== undefined) location.country = patch.country;
+  if (Object.keys(location).length > 0) attributes.location = location;
+
+  const properties: Record<string, unknown> = {};
+  for (const field of PROFILE_PROPERTY_FIELDS) {
+    if (patch[field] !== undefined) properties[field] = patch[field];
+  }
+  if (Object.keys(properties).length > 0) attributes.properties = properties;
+
+  return attributes;
+}
+
+async function klaviyoWrite(
+  apiKey: string,
+  path: string,
+  method: string,
+  payload: Record<string, unknown>,
+  action: string,
+): Promise<Record<string, unknown>> {
+  const res = await fetch(`${KLAVIYO_BASE}${path}`, {
+    method,
+    headers: { ...klaviyoHeaders(apiKey), 'Content-Type': 'application/vnd.api+json' },
+    body: JSON.stringify(payload),
+  });
+
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    const errors = (data as Record<string, unknown>)?.errors as Array<Record<string, unknown>> | undefined;
+    const detail = errors?.[0]?.detail || (data as Record<string, unknown>)?.detail;
+    throw new KlaviyoContactError(
+      `Klaviyo ${action} failed (${res.status})${detail ? `: ${String(detail)}` : ''}`,
+      res.status,
+    );
+  }
+
+  if (res.status === 202 || res.status === 204) return {};
+  const json = await res.json().catch(() => ({}));
+  return (json as Record<string, unknown>).data as Record<string, unknown> ?? {};
+}
+
+async function fetchProfile(apiKey: string, profileId: string): Promise<Record<string, unknown>> {
+  const res = await fetch(`${KLAVIYO_BASE}/profiles/${encodeURIComponent(profileId)}/`, {
+    headers: klaviyoHeaders(apiKey),
+  });
+  if (!res.ok) {
+    throw new KlaviyoContactError(`Klaviyo profile lookup failed (${res.status})`, res.status);
+  }
+  const json = await res.json();
+  return (json.data ?? {}) as Record<string, unknown>;
+}
+
+export async function createContact(params: {
+  token: string;
+  locationId: string;
+  contact: ContactPatch & { tags?: string[] };
+}): Promise<NormalizedContact> {
+  const { tags, ...patch } = params.contact;
+  if (!patch.email && !patch.phone) {
+    throw new KlaviyoContactError('An email or phone is required to create a contact', 400);
+  }
+
+  const attributes = buildProfileAttributes(patch);
+  if (tags && tags.length > 0) {
+    attributes.properties = { ...(attributes.properties as Record<string, unknown> | undefined), tags };
+  }
+  const raw = await klaviyoWrite(
+    params.token,
+    '/profiles/',
+    'POST',
+    { data: { type: 'profile', attributes } },
+    'create profile',
+  );
+  return normalizeContact(raw);
+}
+
+/** PATCH merges `properties`; keys not in the patch are left alone. */
+export async function updateContact(params: {
+  token: string;
+  locationId: string;
+  contactId: string;
+  patch: ContactPatch;
+}): Promise<NormalizedContact> {
+  const raw = await klaviyoWrite(
+    params.token,
+    `/profiles/${encodeURIComponent(params.contactId)}/`,
+    'PATCH',
+    { data: { type: 'profile', id: params.contactId, attributes: buildProfileAttributes(params.patch) } },
+    'update profile',
+  );
+  return normalizeContact(raw);
+}
+
+/** Tags live in the `tags` profile property, so add/remove is read-modify-write. */
+async function writeProfileTags(
+  apiKey: string,
+  profileId: string,
+  update: (current: string[]) => string[],
+): Promise<void> {
+  const current = normalizeContact(await fetchProfile(apiKey, profileId)).tags;
+  const next = [...new Set(update(current))];
+  if (next.length === current.length && next.every((tag, index) => tag === current[index])) return;
+
+  await klaviyoWrite(
+    apiKey,
+    `/profiles/${encodeURIComponent(profileId)}/`,
+    'PATCH',
+    { data: { type: 'profile', id: profileId, attributes: { properties: { tags: next } } } },
+    'update profile tags',
+  );
+}
+
+export async function addTags(params: {
+  token: string;
+  locationId: string;
+  contactId: string;
+  tags: string[];
+}): Promise<void> {
+  await writeProfileTags(params.token, params.contactId, (current) => [...current, ...params.tags]);
+}
+
+export async function removeTags(params: {
+  token: string;
+  locationId: string;
+  contactId: string;
+  tags: string[];
+}): Promise<void> {
+  const removed = new Set(params.tags.map((tag) => tag.toLowerCase()));
+  await writeProfileTags(params.token, params.contactId, (current) =>
+    current.filter((tag) => !removed.has(tag.toLowerCase())),
+  );
+}
+
+/**
+ * Klaviyo has no profile DELETE; deletion goes through a data privacy
+ * deletion job, which completes asynchronously.
+ */
+export async function deleteContact(params: {
+  token: string;
+  locationId: string;
+  contactId: string;
+}): Promise<void> {
+  await klaviyoWrite(
+    params.token,
+    '/data-privacy-deletion-jobs/',
+    'POST',
+    {
+      data: {
+        type: 'data-privacy-deletion-job',
+        attributes: { profile: { data: { type: 'profile', id: params.contactId } } },
+      },
+    },
+    'delete profile',
+  );
+}
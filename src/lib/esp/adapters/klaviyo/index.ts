@@ -22,6 +22,7 @@ import type {
   WebhookVerifyInput,
   EspCredentials,
   NormalizedContact,
+  ContactPatch,
   EspCampaign,
   EspCampaignAnalytics,
   EspWorkflow,
@@ -49,6 +50,11 @@ import {
   requestContacts,
   getCachedContactCount,
   setCachedContactCount,
+  createContact,
+  updateContact,
+  addTags,
+  removeTags,
+  deleteContact,
 } from './contacts';
 
 import {
@@ -67,6 +73,8 @@ import {
   deleteTemplate,
 } from './templates';
 
+import { klaviyoMergeTagDialect } from './merge-tags';
+
 import {
   listMedia as listKlaviyoMedia,
   uploadMedia as uploadKlaviyoMedia,
@@ -174,6 +182,49 @@ class KlaviyoContactsAdapter implements ContactsAdapter {
   setCachedContactCount(accountKey: string, total: number): void {
     setCachedContactCount(accountKey, total);
   }
+
+  async createContact(params: {
+    token: string;
+    locationId: string;
+    contact: ContactPatch & { tags?: string[] };
+  }): Promise<NormalizedContact> {
+    return createContact(params);
+  }
+
+  async updateContact(params: {
+    token: string;
+    locationId: string;
+    contactId: string;
+    patch: ContactPatch;
+  }): Promise<NormalizedContact> {
+    return updateContact(params);
+  }
+
+  async addTags(params: {
+    token: string;
+    locationId: string;
+    contactId: string;
+    tags: string[];
+  }): Promise<void> {
+    return addTags(params);
+  }
+
+  async removeTags(params: {
+    token: string;
+    locationId: string;
+    contactId: string;
+    tags: string[];
+  }): Promise<void> {
+    return removeTags(params);
+  }
+
+  async deleteContact(params: {
+    token: string;
+    locationId: string;
+    contactId: string;
+  }): Promise<void> {
+    return deleteContact(params);
+  }
 }
 
 // ── Campaigns Sub-adapter ──
@@ -349,6 +400,7 @@ export class KlaviyoAdapter implements EspAdapter {
     'email-stats': klaviyoEmailStatsWebhookHandler,
   };
   readonly templates = new KlaviyoTemplatesAdapter();
+  readonly mergeTags = klaviyoMergeTagDialect;
   readonly media = new KlaviyoMediaAdapter();
   readonly connection = new KlaviyoConnectionAdapter();
   readonly validation = new KlaviyoValidationAdapter();
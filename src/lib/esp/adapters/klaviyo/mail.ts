@@ -0,0 +1,63 @@
+// ── Klaviyo transactional sends ──
+// Klaviyo has no direct mail-send API. Each message is recorded as a
+// "Loomi Campaign Email" event on the recipient's profile; a flow triggered by
+// that metric renders {{ event.html|safe }} with subject {{ event.subject }}.
+
+import { KLAVIYO_BASE, KLAVIYO_REVISION } from './constants';
+
+export const KLAVIYO_TRANSACTIONAL_METRIC = 'Loomi Campaign Email';
+
+export interface KlaviyoTransactionalEmailInput {
+  /** Stable per-recipient id so retries don't trigger the flow twice. */
+  uniqueId: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  fromEmail: string;
+  fromName?: string;
+  replyTo?: string | null;
+  properties?: Record<string, string>;
+}
+
+export async function sendTransactionalEmailEvent(
+  apiKey: string,
+  input: KlaviyoTransactionalEmailInput,
+): Promise<{ messageId: string | null }> {
+  const res = await fetch(`${KLAVIYO_BASE}/events/`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Klaviyo-API-Key ${apiKey}`,
+      revision: KLAVIYO_REVISION,
+      Accept: 'application/vnd.api+json',
+      'Content-Type': 'application/vnd.api+json',
+    },
+    body: JSON.stringify({
+      data: {
+        type: 'event',
+        attributes: {
+          unique_id: input.uniqueId,
+          properties: {
+            subject: input.subject,
+            html: input.html,
+            text: input.text,
+            from_email: input.fromEmail,
+            from_name: input.fromName || '',
+            reply_to: input.replyTo || '',
+            ...input.properties,
+          },
+          metric: { data: { type: 'metric', attributes: { name: KLAVIYO_TRANSACTIONAL_METRIC } } },
+          profile: { data: { type: 'profile', attributes: { email: input.to } } },
+        },
+      },
+    }),
+  });
+
+  if (!res.ok) {
+    const errorBody = await res.text().catch(() => '');
+    throw new Error(`Klaviyo event create failed (${res.status}): ${errorBody.slice(0, 300)}`);
+  }
+
+  // 202 Accepted with no body; the flow sends asynchronously.
+  return { messageId: input.uniqueId };
+}
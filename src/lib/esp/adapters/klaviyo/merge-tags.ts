@@ -0,0 +1,101 @@
+import type { CanonicalCondition, CanonicalConditionGroup } from '@/lib/content-conditions';
+import type { CanonicalMergeTag, ConditionalBlockTags, MergeTagDialect } from '../../types';
+
+/**
+ * Klaviyo template variables. Standard profile fields are top-level
+ * (`{{ first_name }}`), location and custom profile properties go through
+ * `person|lookup`, and dealership details come from the organization.
+ * Custom values and the remaining location fields have no Klaviyo
+ * equivalent and are filled in from the account at publish. Conditional
+ * blocks use Klaviyo's `{% if %}` over the same expressions.
+ */
+const KLAVIYO_VARIABLES: Record<string, string> = {
+  'contact.first_name': 'first_name',
+  'contact.last_name': 'last_name',
+  'contact.email': 'email',
+  'contact.phone': 'phone_number',
+  'contact.address1': "person|lookup:'$address1'",
+  'contact.city': "person|lookup:'$city'",
+  'contact.state': "person|lookup:'$region'",
+  'contact.postal_code': "person|lookup:'$zip'",
+  'contact.country': "person|lookup:'$country'",
+  // Profile property names match what the Klaviyo contacts adapter writes.
+  'contact.vehicle_year': "person|lookup:'vehicleYear'",
+  'contact.vehicle_make': "person|lookup:'vehicleMake'",
+  'contact.vehicle_model': "person|lookup:'vehicleModel'",
+  'contact.vehicle_vin': "person|lookup:'vehicleVin'",
+  'contact.vehicle_mileage': "person|lookup:'vehicleMileage'",
+  'contact.last_service_date': "person|lookup:'lastServiceDate'",
+  'contact.next_service_date': "person|lookup:'nextServiceDate'",
+  'contact.lease_end_date': "person|lookup:'leaseEndDate'",
+  'contact.warranty_end_date': "person|lookup:'warrantyEndDate'",
+  'contact.purchase_date': "person|lookup:'purchaseDate'",
+  'location.name': 'organization.name',
+  'location.address': 'organization.full_address',
+};
+
+const KLAVIYO_TAGS: Record<string, string> = {
+  unsubscribe_link: '{% unsubscribe_url %}',
+};
+
+const VARIABLES_BY_EXPRESSION = new Map(
+  Object.entries(KLAVIYO_VARIABLES).map(([variable, expression]) => [expression, variable]),
+);
+
+function quote(value: string): string {
+  return value.includes("'") ? `"${value.replace(/"/g, '&quot;')}"` : `'${value}'`;
+}
+
+function format({ variable, fallback }: CanonicalMergeTag): string | null {
+  if (KLAVIYO_TAGS[variable]) return KLAVIYO_TAGS[variable];
+  // Klaviyo has no full-name field; compose it from the two name fields.
+  if (variable === 'contact.full_name') return '{{ first_name }} {{ last_name }}';
+  const expression = KLAVIYO_VARIABLES[variable];
+  if (!expression) return null;
+  return fallback === null
+    ? `{{ ${expression} }}`
+    : `{{ ${expression}|default:${quote(fallback)} }}`;
+}
+
+function parse(match: RegExpMatchArray): CanonicalMergeTag | null {
+  if (match[4]) return { variable: 'unsubscribe_link', fallback: null };
+  const expression = (match[1] || '').replace(/\s*\|\s*/g, '|').replace(/:\s+/g, ':');
+  const variable = VARIABLES_BY_EXPRESSION.get(expression);
+  if (!variable) return null;
+  return { variable, fallback: match[2] ?? match[3] ?? null };
+}
+
+function conditionExpression({ variable, operator, value }: CanonicalCondition): string | null {
+  const expression = KLAVIYO_VARIABLES[variable];
+  if (!expression || value.includes('"')) return null;
+  switch (operator) {
+    case 'is_not_empty':
+      return expression;
+    case 'is_empty':
+      return `not ${expression}`;
+    case 'equals':
+      return `${expression} == "${value}"`;
+    case 'not_equals':
+      return `${expression} != "${value}"`;
+    case 'contains':
+      return `"${value}" in ${expression}`;
+    default:
+      return null;
+  }
+}
+
+function formatCondition(group: CanonicalConditionGroup): ConditionalBlockTags | null {
+  const expressions = group.conditions.map(conditionExpression);
+  if (expressions.length === 0 || expressions.some((expression) => expression === null)) return null;
+  const joiner = group.logic === 'AND' ? ' and ' : ' or ';
+  return { open: `{% if ${expressions.join(joiner)} %}`, close: '{% endif %}' };
+}
+
+export const klaviyoMergeTagDialect: MergeTagDialect = {
+  provider: 'klaviyo',
+  supportsFallbacks: true,
+  format,
+  tokenPattern: /\{\{\s*([\w.$]+(?:\s*\|\s*lookup:\s*'[^']*')?)\s*(?:\|\s*default:\s*(?:'([^']*)'|"([^"]*)")\s*)?\}\}|(\{%\s*unsubscribe_url\s*%\})/g,
+  parse,
+  formatCondition,
+};
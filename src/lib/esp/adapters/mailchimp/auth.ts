@@ -0,0 +1,177 @@
+// ── Mailchimp Authentication ──
+// API-key-based auth. The Marketing key is stored encrypted in EspConnection
+// with the chosen audience (list) id as accountId; the optional Transactional
+// key is stored encrypted in the connection metadata.
+
+import { encryptToken, decryptToken } from '../../encryption';
+import type { EspCredentials } from '../../types';
+import {
+  findApiKeyConnectionByAccountId,
+  getApiKeyConnection,
+  removeApiKeyConnection,
+  upsertApiKeyConnection,
+} from '@/lib/esp/api-key-connections';
+import { mailchimpRequest, mailchimpTransactionalRequest, MailchimpApiError } from './client';
+
+interface MailchimpConnectionMetadata {
+  mailchimpAccountId?: string;
+  audienceName?: string;
+  transactionalApiKey?: string;
+}
+
+function parseMetadata(raw: string | null): MailchimpConnectionMetadata {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed as MailchimpConnectionMetadata : {};
+  } catch {
+    return {};
+  }
+}
+
+// ── Connection Management ──
+
+/**
+ * Validate a Marketing API key and resolve the audience this account syncs
+ * with. Uses `audienceId` when given, otherwise the account's only audience;
+ * accounts with several audiences must pick one.
+ */
+export async function validateApiKey(
+  apiKey: string,
+  audienceId?: string,
+): Promise<{ accountId: string; accountName: string; mailchimpAccountId: string; audienceName: string }> {
+  const root = await mailchimpRequest<{ account_id?: string; account_name?: string }>(
+    apiKey,
+    '/?fields=account_id,account_name',
+  );
+  const lists = await mailchimpRequest<{ lists?: Array<{ id: string; name: string }> }>(
+    apiKey,
+    '/lists?count=1000&fields=lists.id,lists.name',
+  );
+  const audiences = lists.lists ?? [];
+
+  const requested = audienceId?.trim();
+  const audience = requested
+    ? audiences.find((list) => list.id === requested)
+    : audiences.length === 1 ? audiences[0] : undefined;
+  if (!audience) {
+    if (requested) throw new MailchimpApiError(`Mailchimp audience "${requested}" was not found`, 404);
+    if (audiences.length === 0) throw new MailchimpApiError('Mailchimp account has no audiences', 400);
+    const options = audiences.map((list) => `${list.name} (${list.id})`).join(', ');
+    throw new MailchimpApiError(`Mailchimp account has several audiences; enter an Audience ID: ${options}`, 400);
+  }
+
+  const accountName = root.account_name?.trim() || 'Mailchimp Account';
+  return {
+    accountId: audience.id,
+    accountName: audiences.length > 1 ? `${accountName} · ${audience.name}` : accountName,
+    mailchimpAccountId: root.account_id || '',
+    audienceName: audience.name,
+  };
+}
+
+/** Confirm a Transactional (Mandrill) key works. */
+export async function validateTransactionalApiKey(transactionalApiKey: string): Promise<void> {
+  const pong = await mailchimpTransactionalRequest<{ PING?: string }>(transactionalApiKey, '/users/ping2');
+  if (pong.PING !== 'PONG!') {
+    throw new MailchimpApiError('Mailchimp Transactional API key validation failed', 401);
+  }
+}
+
+/**
+ * Store a Mailchimp connection (encrypts both keys).
+ */
+export async function storeMailchimpConnection(params: {
+  accountKey: string;
+  apiKey: string;
+  accountId: string;
+  accountName?: string;
+  mailchimpAccountId?: string;
+  audienceName?: string;
+  transactionalApiKey?: string;
+}): Promise<void> {
+  const metadata: MailchimpConnectionMetadata = {
+    mailchimpAccountId: params.mailchimpAccountId,
+    audienceName: params.audienceName,
+    ...(params.transactionalApiKey ? { transactionalApiKey: encryptToken(params.transactionalApiKey) } : {}),
+  };
+
+  await upsertApiKeyConnection({
+    accountKey: params.accountKey,
+    provider: 'mailchimp',
+    apiKey: encryptToken(params.apiKey),
+    accountId: params.accountId,
+    accountName: params.accountName ?? null,
+    metadata: JSON.stringify(metadata),
+  });
+}
+
+/**
+ * Remove a Mailchimp connection row.
+ */
+export async function removeMailchimpConnection(accountKey: string): Promise<boolean> {
+  try {
+    return await removeApiKeyConnection(accountKey, 'mailchimp');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the Mailchimp connection for an account (decrypts API keys).
+ */
+export async function getMailchimpConnection(accountKey: string): Promise<{
+  accountKey: string;
+  apiKey: string;
+  audienceId: string | null;
+  accountName: string | null;
+  transactionalApiKey: string | null;
+  installedAt: Date;
+} | null> {
+  const row = await getApiKeyConnection(accountKey, 'mailchimp');
+  if (!row) return null;
+
+  const metadata = parseMetadata(row.metadata);
+  return {
+    accountKey: row.accountKey,
+    apiKey: decryptToken(row.apiKey),
+    audienceId: row.accountId,
+    accountName: row.accountName,
+    transactionalApiKey: metadata.transactionalApiKey ? decryptToken(metadata.transactionalApiKey) : null,
+    installedAt: row.installedAt,
+  };
+}
+
+/**
+ * Resolve Mailchimp credentials for an account.
+ * Returns EspCredentials with provider='mailchimp' and the Marketing key as
+ * token. The locationId maps to the connected audience (list) id.
+ */
+export async function resolveMailchimpCredentials(
+  accountKey: string,
+): Promise<EspCredentials | null> {
+  const connection = await getMailchimpConnection(accountKey);
+  if (!connection?.audienceId) return null;
+
+  return {
+    provider: 'mailchimp',
+    token: connection.apiKey,
+    locationId: connection.audienceId,
+  };
+}
+
+/**
+ * Transactional key for the audience's connection. Sub-adapters only receive
+ * (token, locationId), so template calls look the key up by audience id.
+ */
+export async function getTransactionalApiKey(audienceId: string): Promise<string> {
+  const row = await findApiKeyConnectionByAccountId('mailchimp', audienceId);
+  const encrypted = row ? parseMetadata(row.metadata).transactionalApiKey : undefined;
+  if (!encrypted) {
+    throw new MailchimpApiError(
+      'Mailchimp Transactional API key is not connected. Reconnect Mailchimp with a Transactional key to manage templates.',
+      400,
+    );
+  }
+  return decryptToken(encrypted);
+}
@@ -0,0 +1,360 @@
+// ── Mailchimp Campaigns + Automations Adapter ──
+
+import { mailchimpRequest } from './client';
+import type {
+  EspCampaign,
+  EspCampaignAnalytics,
+  EspWorkflow,
+  ScheduleEmailCampaignInput,
+  ScheduledEmailCampaignResult,
+} from '../../types';
+
+// ── Campaign cache (5-minute TTL) ──
+
+const campaignCache = new Map<string, { data: EspCampaign[]; ts: number }>();
+const CACHE_TTL = 5 * 60 * 1000;
+
+export function invalidateCampaignCache(audienceId?: string): void {
+  if (audienceId) {
+    campaignCache.delete(audienceId);
+  } else {
+    campaignCache.clear();
+  }
+}
+
+interface MailchimpCampaign {
+  id: string;
+  status?: string;
+  emails_sent?: number;
+  create_time?: string;
+  send_time?: string;
+  archive_url?: string;
+  long_archive_url?: string;
+  settings?: { title?: string; subject_line?: string };
+  report_summary?: {
+    unique_opens?: number;
+    open_rate?: number;
+    subscriber_clicks?: number;
+    click_rate?: number;
+  };
+}
+
+const CAMPAIGN_FIELDS = [
+  'campaigns.id',
+  'campaigns.status',
+  'campaigns.emails_sent',
+  'campaigns.create_time',
+  'campaigns.send_time',
+  'campaigns.settings.title',
+  'campaigns.settings.subject_line',
+  'campaigns.report_summary',
+  'total_items',
+].join(',');
+
+function mapCampaignStatus(status: string | undefined): string {
+  // Mailchimp statuses: save, paused, schedule, sending, sent, canceled, canceling, archived
+  const map: Record<string, string> = {
+    save: 'draft',
+    paused: 'paused',
+    schedule: 'scheduled',
+    sending: 'sending',
+    sent: 'sent',
+    canceled: 'canceled',
+    canceling: 'canceled',
+    archived: 'archived',
+  };
+  return map[(status || '').toLowerCase()] || status || 'unknown';
+}
+
+// ── Fetch Campaigns ──
+
+export async function fetchCampaigns(
+  apiKey: string,
+  audienceId: string,
+  options?: { forceRefresh?: boolean },
+): Promise<EspCampaign[]> {
+  if (!options?.forceRefresh) {
+    const cached = campaignCache.get(audienceId);
+    if (cached && Date.now() - cached.ts < CACHE_TTL) return cached.data;
+  }
+
+  const campaigns: EspCampaign[] = [];
+  const pageSize = 200;
+  let offset = 0;
+
+  while (true) {
+    const query = new URLSearchParams({
+      list_id: audienceId,
+      count: String(pageSize),
+      offset: String(offset),
+      sort_field: 'create_time',
+      sort_dir: 'DESC',
+      fields: CAMPAIGN_FIELDS,
+    });
+    const json = await mailchimpRequest<{ campaigns?: MailchimpCampaign[]; total_items?: number }>(
+      apiKey,
+      `/campaigns?${query.toString()}`,
+    );
+
+    for (const item of json.campaigns ?? []) {
+      const summary = item.report_summary;
+      const status = mapCampaignStatus(item.status);
+      campaigns.push({
+        id: item.id,
+        campaignId: item.id,
+        name: item.settings?.title || item.settings?.subject_line || 'Untitled',
+        status,
+        createdAt: item.create_time || '',
+        scheduledAt: status === 'scheduled' ? item.send_time || undefined : undefined,
+        sentAt: status === 'sent' ? item.send_time || undefined : undefined,
+        sentCount: item.emails_sent ?? undefined,
+        openedCount: summary?.unique_opens ?? undefined,
+        clickedCount: summary?.subscriber_clicks ?? undefined,
+        openRate: summary?.open_rate ?? undefined,
+        clickRate: summary?.click_rate ?? undefined,
+        locationId: audienceId,
+      });
+    }
+
+    const page = json.campaigns?.length ?? 0;
+    offset += page;
+    if (page < pageSize || offset >= (json.total_items ?? 0)) break;
+  }
+
+  campaignCache.set(audienceId, { data: campaigns, ts: Date.now() });
+  return campaigns;
+}
+
+// ── Fetch Campaign Analytics ──
+
+/** Reads the campaign report; Mailchimp keeps reports for every sent campaign. */
+export async function fetchCampaignAnalytics(
+  apiKey: string,
+  _audienceId: string,
+  identifiers: { scheduleId?: string; campaignId?: string; recordId?: string },
+): Promise<EspCampaignAnalytics> {
+  const campaignId = identifiers.campaignId || identifiers.scheduleId || identifiers.recordId;
+  if (!campaignId) {
+    return { source: 'mailchimp' };
+  }
+
+  let report: {
+    emails_sent?: number;
+    abuse_reports?: number;
+    unsubscribed?: number;
+    bounces?: { hard_bounces?: number; soft_bounces?: number; syntax_errors?: number };
+    opens?: { unique_opens?: number; open_rate?: number };
+    clicks?: { unique_subscriber_clicks?: number; click_rate?: number };
+  };
+  try {
+    report = await mailchimpRequest(apiKey, `/reports/${encodeURIComponent(campaignId)}`);
+  } catch (err) {
+    // Drafts and scheduled campaigns have no report yet.
+    console.warn(`[Mailchimp] campaign report unavailable for ${campaignId}:`, err instanceof Error ? err.message : err);
+    return { source: 'mailchimp' };
+  }
+
+  const sent = report.emails_sent ?? 0;
+  const bounced = (report.bounces?.hard_bounces ?? 0)
+    + (report.bounces?.soft_bounces ?? 0)
+    + (report.bounces?.syntax_errors ?? 0);
+
+  return {
+    sentCount: sent,
+    deliveredCount: Math.max(0, sent - bounced),
+    openedCount: report.opens?.unique_opens ?? undefined,
+    clickedCount: report.clicks?.unique_subscriber_clicks ?? undefined,
+    bouncedCount: bounced,
+    unsubscribedCount: report.unsubscribed ?? undefined,
+    openRate: report.opens?.open_rate ?? undefined,
+    clickRate: report.clicks?.click_rate ?? undefined,
+    source: 'mailchimp',
+  };
+}
+
+// ── Fetch Workflows (Classic Automations) ──
+
+const automationCache = new Map<string, { data: EspWorkflow[]; ts: number }>();
+
+/**
+ * Classic automations. Customer Journeys are not exposed by the Marketing API,
+ * so only automations targeting the connected audience are listed.
+ */
+export async function fetchWorkflows(
+  apiKey: string,
+  audienceId: string,
+): Promise<EspWorkflow[]> {
+  const cached = automationCache.get(audienceId);
+  if (cached && Date.now() - cached.ts < CACHE_TTL) return cached.data;
+
+  const json = await mailchimpRequest<{
+    automations?: Array<{
+      id: string;
+      status?: string;
+      create_time?: string;
+      start_time?: string;
+      recipients?: { list_id?: string };
+      settings?: { title?: string };
+    }>;
+  }>(apiKey, '/automations?count=1000');
+
+  const workflows = (json.automations ?? [])
+    .filter((automation) => !automation.recipients?.list_id || automation.recipients.list_id === audienceId)
+    .map((automation) => ({
+      id: automation.id,
+      name: automation.settings?.title || 'Untitled Automation',
+      status: mapAutomationStatus(automation.status),
+      createdAt: automation.create_time || '',
+      updatedAt: automation.start_time || automation.create_time || '',
+      locationId: audienceId,
+    }));
+
+  automationCache.set(audienceId, { data: workflows, ts: Date.now() });
+  return workflows;
+}
+
+function mapAutomationStatus(status: string | undefined): string {
+  // Mailchimp automation statuses: save, paused, sending
+  const map: Record<string, string> = {
+    save: 'draft',
+    paused: 'paused',
+    sending: 'active',
+  };
+  return map[(status || '').toLowerCase()] || status || 'unknown';
+}
+
+// ── Fetch Campaign Preview HTML ──
+
+export async function fetchCampaignPreviewHtml(
+  apiKey: string,
+  _audienceId: string,
+  campaignId: string,
+): Promise<{ previewUrl: string; html: string }> {
+  const id = encodeURIComponent(campaignId);
+  const [campaign, content] = await Promise.all([
+    mailchimpRequest<MailchimpCampaign>(apiKey, `/campaigns/${id}?fields=archive_url,long_archive_url`),
+    mailchimpRequest<{ html?: string; archive_html?: string }>(apiKey, `/campaigns/${id}/content`),
+  ]);
+
+  return {
+    previewUrl: campaign.long_archive_url || campaign.archive_url || '',
+    html: content.html || content.archive_html || '<p>No HTML content</p>',
+  };
+}
+
+// ── Schedule Email Campaign ──
+
+const MEMBER_LOOKUP_CONCURRENCY = 5;
+const QUARTER_HOUR_MS = 15 * 60 * 1000;
+
+/** Resolve member ids (subscriber hashes) to email addresses for a static segment. */
+async function resolveMemberEmails(apiKey: string, audienceId: string, contactIds: string[]): Promise<string[]> {
+  const emails: string[] = [];
+  const pending = [...new Set(contactIds)];
+
+  async function worker() {
+    while (pending.length > 0) {
+      const contactId = pending.shift() as string;
+      if (contactId.includes('@')) {
+        emails.push(contactId.trim().toLowerCase());
+        continue;
+      }
+      try {
+        const member = await mailchimpRequest<{ email_address?: string }>(
+          apiKey,
+          `/lists/${encodeURIComponent(audienceId)}/members/${encodeURIComponent(contactId)}?fields=email_address`,
+        );
+        if (member.email_address) emails.push(member.email_address);
+      } catch (err) {
+        console.warn(`[Mailchimp] skipping unknown member ${contactId}:`, err instanceof Error ? err.message : err);
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: MEMBER_LOOKUP_CONCURRENCY }, () => worker()));
+  return emails;
+}
+
+/**
+ * Create a regular campaign for a static segment of the given members, set
+ * its HTML and schedule it. Mailchimp only schedules on quarter-hour marks, so
+ * the send time is rounded up; sends due within two minutes go out now.
+ */
+export async function scheduleEmailCampaign(
+  input: ScheduleEmailCampaignInput,
+): Promise<ScheduledEmailCampaignResult> {
+  const { token: apiKey, locationId: audienceId, name, subject, previewText, html, sendAt, contactIds } = input;
+  const timestamp = Date.now();
+
+  const emails = await resolveMemberEmails(apiKey, audienceId, contactIds);
+  if (emails.length === 0) {
+    throw new Error('None of the selected contacts exist in the Mailchimp audience');
+  }
+
+  const list = await mailchimpRequest<{ campaign_defaults?: { from_name?: string; from_email?: string } }>(
+    apiKey,
+    `/lists/${encodeURIComponent(audienceId)}?fields=campaign_defaults`,
+  );
+  const fromName = list.campaign_defaults?.from_name || name;
+  const replyTo = list.campaign_defaults?.from_email;
+  if (!replyTo) {
+    throw new Error('Mailchimp audience has no default from email; set one in the audience settings');
+  }
+
+  const segment = await mailchimpRequest<{ id?: number }>(
+    apiKey,
+    `/lists/${encodeURIComponent(audienceId)}/segments`,
+    { method: 'POST', body: { name: `Loomi Send: ${name} [${timestamp}]`, static_segment: emails } },
+  );
+  if (!segment.id) throw new Error('Mailchimp returned no segment ID');
+
+  const campaign = await mailchimpRequest<{ id?: string }>(apiKey, '/campaigns', {
+    method: 'POST',
+    body: {
+      type: 'regular',
+      recipients: { list_id: audienceId, segment_opts: { saved_segment_id: segment.id } },
+      settings: {
+        title: name,
+        subject_line: subject,
+        preview_text: previewText || '',
+        from_name: fromName,
+        reply_to: replyTo,
+      },
+    },
+  });
+  const campaignId = campaign.id;
+  if (!campaignId) throw new Error('Mailchimp returned no campaign ID');
+  const id = encodeURIComponent(campaignId);
+
+  // Content is always pushed as HTML; remoteTemplateId refers to Transactional
+  // templates, which Marketing campaigns cannot reference.
+  await mailchimpRequest(apiKey, `/campaigns/${id}/content`, { method: 'PUT', body: { html } });
+
+  const sendAtMs = new Date(sendAt).getTime();
+  const isImmediate = !Number.isFinite(sendAtMs) || sendAtMs <= Date.now() + 2 * 60_000;
+  let status = 'sending';
+  let response: Record<string, unknown> | null = null;
+
+  if (isImmediate) {
+    await mailchimpRequest(apiKey, `/campaigns/${id}/actions/send`, { method: 'POST' });
+  } else {
+    const scheduleTime = new Date(Math.ceil(sendAtMs / QUARTER_HOUR_MS) * QUARTER_HOUR_MS).toISOString();
+    await mailchimpRequest(apiKey, `/campaigns/${id}/actions/schedule`, {
+      method: 'POST',
+      body: { schedule_time: scheduleTime },
+    });
+    status = 'scheduled';
+    response = { scheduleTime };
+  }
+
+  invalidateCampaignCache(audienceId);
+
+  return {
+    id: campaignId,
+    scheduleId: campaignId,
+    campaignId,
+    status,
+    endpoint: `/campaigns/${campaignId}`,
+    response,
+  };
+}
@@ -0,0 +1,98 @@
+// ── Mailchimp Request Helpers ──
+// Marketing API keys carry their data center as a suffix ("<key>-us21"), so the
+// base URL is derived from the key itself. Transactional (Mandrill) calls are
+// all POSTs with the key in the JSON body.
+
+import crypto from 'crypto';
+import { MAILCHIMP_API_VERSION, MAILCHIMP_TRANSACTIONAL_BASE } from './constants';
+
+export class MailchimpApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'MailchimpApiError';
+    this.status = status;
+  }
+}
+
+/** Data center from a Marketing API key, e.g. "us21". */
+export function mailchimpDataCenter(apiKey: string): string {
+  const dc = apiKey.slice(apiKey.lastIndexOf('-') + 1).trim().toLowerCase();
+  if (!apiKey.includes('-') || !/^[a-z]+\d+$/.test(dc)) {
+    throw new MailchimpApiError('Mailchimp API key is missing its data center suffix (e.g. "-us21")', 400);
+  }
+  return dc;
+}
+
+export function mailchimpBaseUrl(apiKey: string): string {
+  return `https://${mailchimpDataCenter(apiKey)}.api.mailchimp.com/${MAILCHIMP_API_VERSION}`;
+}
+
+function mailchimpHeaders(apiKey: string, json: boolean): Record<string, string> {
+  const h: Record<string, string> = {
+    Authorization: `Basic ${Buffer.from(`loomi:${apiKey}`).toString('base64')}`,
+    Accept: 'application/json',
+  };
+  if (json) h['Content-Type'] = 'application/json';
+  return h;
+}
+
+async function errorDetail(res: Response): Promise<string> {
+  const text = await res.text().catch(() => '');
+  try {
+    const json = JSON.parse(text) as Record<string, unknown>;
+    // Marketing API errors are RFC 7807 problem documents.
+    return String(json.detail || json.title || json.message || text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Call the Marketing API. `path` is relative to /3.0 and may include a query
+ * string. Returns null for 204 responses.
+ */
+export async function mailchimpRequest<T = Record<string, unknown>>(
+  apiKey: string,
+  path: string,
+  init?: { method?: string; body?: unknown },
+): Promise<T> {
+  const method = init?.method || 'GET';
+  const res = await fetch(`${mailchimpBaseUrl(apiKey)}${path}`, {
+    method,
+    headers: mailchimpHeaders(apiKey, init?.body !== undefined),
+    ...(init?.body !== undefined ? { body: JSON.stringify(init.body) } : {}),
+  });
+
+  if (!res.ok) {
+    const detail = await errorDetail(res);
+    throw new MailchimpApiError(`Mailchimp ${method} ${path.split('?')[0]} failed (${res.status}): ${detail}`, res.status);
+  }
+  if (res.status === 204) return null as T;
+  return await res.json() as T;
+}
+
+/** Call the Transactional API (`path` like "/templates/list"). */
+export async function mailchimpTransactionalRequest<T = Record<string, unknown>>(
+  transactionalKey: string,
+  path: string,
+  body: Record<string, unknown> = {},
+): Promise<T> {
+  const res = await fetch(`${MAILCHIMP_TRANSACTIONAL_BASE}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify({ ...body, key: transactionalKey }),
+  });
+
+  if (!res.ok) {
+    const detail = await errorDetail(res);
+    throw new MailchimpApiError(`Mailchimp Transactional ${path} failed (${res.status}): ${detail}`, res.status);
+  }
+  return await res.json() as T;
+}
+
+/** Lowercase-email MD5, the member id Mailchimp uses in list member URLs. */
+export function subscriberHash(email: string): string {
+  return crypto.createHash('md5').update(email.trim().toLowerCase()).digest('hex');
+}
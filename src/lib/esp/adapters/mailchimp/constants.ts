@@ -0,0 +1,2 @@
+export const MAILCHIMP_API_VERSION = '3.0';
+export const MAILCHIMP_TRANSACTIONAL_BASE = 'https://mandrillapp.com/api/1.0';
@@ -0,0 +1,212 @@
+// ── Mailchimp Contacts (Audience Members) Adapter ──
+
+import { mailchimpRequest, subscriberHash } from './client';
+import { resolveMailchimpCredentials } from './auth';
+import type { EspCredentials, NormalizedContact } from '../../types';
+
+// ── Contact count cache (5 minute TTL, same pattern as GHL) ──
+
+const countCache = new Map<string, { total: number; ts: number }>();
+const COUNT_TTL = 5 * 60 * 1000;
+
+export function getCachedContactCount(accountKey: string): number | null {
+  const entry = countCache.get(accountKey);
+  if (entry && Date.now() - entry.ts < COUNT_TTL) return entry.total;
+  countCache.delete(accountKey);
+  return null;
+}
+
+export function setCachedContactCount(accountKey: string, total: number): void {
+  countCache.set(accountKey, { total, ts: Date.now() });
+}
+
+// ── Credential Resolution ──
+
+export async function resolveCredentials(
+  accountKey: string,
+): Promise<EspCredentials | null> {
+  return resolveMailchimpCredentials(accountKey);
+}
+
+// ── Fetch Contact Count ──
+
+/** Audience members of every status except archived (Mailchimp's own total). */
+export async function fetchContactCount(
+  apiKey: string,
+  audienceId: string,
+): Promise<number> {
+  const json = await mailchimpRequest<{ total_items?: number }>(
+    apiKey,
+    `/lists/${encodeURIComponent(audienceId)}/members?count=1&fields=total_items`,
+  );
+  return json.total_items ?? 0;
+}
+
+// ── Fetch All Contacts ──
+
+const PAGE_SIZE = 1000;
+const MAX_MEMBERS = 50_000;
+
+export async function fetchAllContacts(
+  apiKey: string,
+  audienceId: string,
+): Promise<Record<string, unknown>[]> {
+  const all: Record<string, unknown>[] = [];
+  let offset = 0;
+
+  while (all.length < MAX_MEMBERS) {
+    const json = await mailchimpRequest<{ members?: Record<string, unknown>[]; total_items?: number }>(
+      apiKey,
+      `/lists/${encodeURIComponent(audienceId)}/members?count=${PAGE_SIZE}&offset=${offset}`,
+    );
+    const members = json.members ?? [];
+    all.push(...members);
+    offset += members.length;
+    if (members.length < PAGE_SIZE || offset >= (json.total_items ?? 0)) break;
+  }
+
+  return all;
+}
+
+// ── Request Contacts (paginated with search) ──
+
+export async function requestContacts(params: {
+  token: string;
+  locationId: string;
+  limit: number;
+  search: string;
+}): Promise<{ contacts: Record<string, unknown>[]; total: number }> {
+  const { token: apiKey, locationId: audienceId, limit, search } = params;
+  const count = Math.max(1, Math.min(limit, PAGE_SIZE));
+
+  if (search.trim()) {
+    // search-members matches email and merge-field names, scoped to the audience.
+    const query = new URLSearchParams({ query: search.trim(), list_id: audienceId });
+    const json = await mailchimpRequest<{
+      exact_matches?: { members?: Record<string, unknown>[] };
+      full_search?: { members?: Record<string, unknown>[] };
+    }>(apiKey, `/search-members?${query.toString()}`);
+
+    const seen = new Set<string>();
+    const members: Record<string, unknown>[] = [];
+    for (const member of [...(json.exact_matches?.members ?? []), ...(json.full_search?.members ?? [])]) {
+      const id = String(member.id || '');
+      if (!id || seen.has(id)) continue;
+      seen.add(id);
+      members.push(member);
+    }
+    return { contacts: members.slice(0, count), total: members.length };
+  }
+
+  const json = await mailchimpRequest<{ members?: Record<string, unknown>[]; total_items?: number }>(
+    apiKey,
+    `/lists/${encodeURIComponent(audienceId)}/members?count=${count}&sort_field=timestamp_signup&sort_dir=DESC`,
+  );
+  const members = json.members ?? [];
+  return { contacts: members, total: json.total_items ?? members.length };
+}
+
+// ── Tags ──
+
+export async function addTags(params: {
+  token: string;
+  locationId: string;
+  contactId: string;
+  tags: string[];
+}): Promise<void> {
+  const tags = [...new Set(params.tags.map((tag) => tag.trim()).filter(Boolean))];
+  if (tags.length === 0) return;
+
+  await mailchimpRequest(
+    params.token,
+    `/lists/${encodeURIComponent(params.locationId)}/members/${encodeURIComponent(memberId(params.contactId))}/tags`,
+    { method: 'POST', body: { tags: tags.map((name) => ({ name, status: 'active' })) } },
+  );
+}
+
+/** Member URLs take the subscriber hash; accept an email address too. */
+function memberId(contactId: string): string {
+  return contactId.includes('@') ? subscriberHash(contactId) : contactId;
+}
+
+// ── Normalize Contact ──
+
+/**
+ * Merge tags Loomi reads vehicle and service data from. Mailchimp merge tags
+ * are at most 10 upper-case characters, so several spellings are accepted.
+ */
+export const MERGE_FIELD_ALIASES = {
+  vehicleYear: ['VEHYEAR', 'VEH_YEAR', 'YEAR'],
+  vehicleMake: ['VEHMAKE', 'VEH_MAKE', 'MAKE'],
+  vehicleModel: ['VEHMODEL', 'VEH_MODEL', 'MODEL'],
+  vehicleVin: ['VIN', 'VEHVIN', 'VEH_VIN'],
+  vehicleMileage: ['MILEAGE', 'VEHMILES', 'ODOMETER'],
+  lastServiceDate: ['LASTSERV', 'LAST_SVC', 'LASTSVC'],
+  nextServiceDate: ['NEXTSERV', 'NEXT_SVC', 'NEXTSVC'],
+  leaseEndDate: ['LEASEEND', 'LEASE_END'],
+  warrantyEndDate: ['WARRANTY', 'WARR_END', 'WARRANTYEN'],
+  purchaseDate: ['PURCHASED', 'PURCH_DATE', 'PURCHDATE'],
+} as const;
+
+function mergeValue(fields: Record<string, unknown>, tags: readonly string[]): string {
+  for (const tag of tags) {
+    const value = fields[tag];
+    if (value !== undefined && value !== null && String(value).trim()) return String(value);
+  }
+  return '';
+}
+
+/**
+ * Map a Mailchimp list member to NormalizedContact.
+ * Member structure:
+ *   { id, email_address, status, merge_fields: { FNAME, LNAME, PHONE, ADDRESS: {...}, ... },
+ *     tags: [{ id, name }], timestamp_signup, timestamp_opt, source, last_changed, stats }
+ */
+export function normalizeContact(raw: Record<string, unknown>): NormalizedContact {
+  const fields = (raw.merge_fields ?? {}) as Record<string, unknown>;
+  const address = (fields.ADDRESS && typeof fields.ADDRESS === 'object' ? fields.ADDRESS : {}) as Record<string, unknown>;
+  const tags = Array.isArray(raw.tags)
+    ? raw.tags
+      .map((tag) => (tag && typeof tag === 'object' ? String((tag as Record<string, unknown>).name || '') : String(tag)))
+      .filter(Boolean)
+    : [];
+  const stats = (raw.stats ?? {}) as Record<string, unknown>;
+  const lastChanged = String(raw.last_changed || '');
+
+  const firstName = String(fields.FNAME || '');
+  const lastName = String(fields.LNAME || '');
+  const email = String(raw.email_address || '');
+  const hasReceivedEmail = Number(stats.avg_open_rate) > 0 || Number(stats.avg_click_rate) > 0;
+
+  return {
+    id: String(raw.id || ''),
+    firstName,
+    lastName,
+    fullName: String(raw.full_name || '') || [firstName, lastName].filter(Boolean).join(' ') || email,
+    email,
+    phone: String(fields.PHONE || fields.SMSPHONE || ''),
+    address1: String(address.addr1 || ''),
+    city: String(address.city || ''),
+    state: String(address.state || ''),
+    postalCode: String(address.zip || ''),
+    country: String(address.country || ''),
+    tags,
+    dateAdded: String(raw.timestamp_signup || raw.timestamp_opt || ''),
+    source: String(raw.source || ''),
+    vehicleYear: mergeValue(fields, MERGE_FIELD_ALIASES.vehicleYear),
+    vehicleMake: mergeValue(fields, MERGE_FIELD_ALIASES.vehicleMake),
+    vehicleModel: mergeValue(fields, MERGE_FIELD_ALIASES.vehicleModel),
+    vehicleVin: mergeValue(fields, MERGE_FIELD_ALIASES.vehicleVin),
+    vehicleMileage: mergeValue(fields, MERGE_FIELD_ALIASES.vehicleMileage),
+    lastServiceDate: mergeValue(fields, MERGE_FIELD_ALIASES.lastServiceDate),
+    nextServiceDate: mergeValue(fields, MERGE_FIELD_ALIASES.nextServiceDate),
+    leaseEndDate: mergeValue(fields, MERGE_FIELD_ALIASES.leaseEndDate),
+    warrantyEndDate: mergeValue(fields, MERGE_FIELD_ALIASES.warrantyEndDate),
+    purchaseDate: mergeValue(fields, MERGE_FIELD_ALIASES.purchaseDate),
+    // Mailchimp only exposes engagement averages on the member record.
+    hasReceivedMessage: hasReceivedEmail,
+    hasReceivedEmail,
+    hasReceivedSms: false,
+    lastMessageDate: hasReceivedEmail ? lastChanged : '',
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Mailchimp custom values, backed by audience merge fields.
+ *
+ * Loomi custom values are account-wide constants. Mailchimp has no direct
+ * equivalent, so each value becomes a text merge field whose default value
+ * holds the constant: `*|CRM_NAME|*` renders the default for every member
+ * that has no value of their own.
+ */
+
+import { mailchimpRequest } from './client';
+import type { CustomValueInput, EspCustomValue, SyncResult } from '../../types';
+
+const MERGE_TAG_MAX_LENGTH = 10;
+
+/**
+ * Merge tag for a Loomi field key: "custom_values.crm_name" → "CRM_NAME".
+ * Mailchimp tags are upper-case, at most 10 characters.
+ */
+export function mergeTagForFieldKey(fieldKey: string): string {
+  const base = fieldKey.split('.').pop() || fieldKey;
+  return base.toUpperCase().replace(/[^A-Z0-9_]/g, '').slice(0, MERGE_TAG_MAX_LENGTH);
+}
+
+function normalizeMergeField(raw: Record<string, unknown>): EspCustomValue {
+  return {
+    id: String(raw.merge_id ?? ''),
+    name: String(raw.name || ''),
+    fieldKey: String(raw.tag || ''),
+    value: String(raw.default_value ?? ''),
+  };
+}
+
+function mergeFieldsPath(audienceId: string, mergeId?: string): string {
+  const base = `/lists/${encodeURIComponent(audienceId)}/merge-fields`;
+  return mergeId ? `${base}/${encodeURIComponent(mergeId)}` : base;
+}
+
+// ── CRUD Operations ──
+
+export async function fetchCustomValues(
+  apiKey: string,
+  audienceId: string,
+): Promise<EspCustomValue[]> {
+  const json = await mailchimpRequest<{ merge_fields?: Record<string, unknown>[] }>(
+    apiKey,
+    `${mergeFieldsPath(audienceId)}?count=1000`,
+  );
+  return (json.merge_fields ?? []).map(normalizeMergeField);
+}
+
+export async function createCustomValue(
+  apiKey: string,
+  audienceId: string,
+  input: CustomValueInput,
+): Promise<EspCustomValue> {
+  const tag = mergeTagForFieldKey(input.fieldKey);
+  if (!tag) {
+    throw new Error(`Cannot derive a Mailchimp merge tag from "${input.fieldKey}"`);
+  }
+
+  const raw = await mailchimpRequest<Record<string, unknown>>(apiKey, mergeFieldsPath(audienceId), {
+    method: 'POST',
+    body: {
+      tag,
+      name: input.name,
+      type: 'text',
+      required: false,
+      public: false,
+      default_value: input.value,
+    },
+  });
+  return normalizeMergeField(raw);
+}
+
+export async function updateCustomValue(
+  apiKey: string,
+  audienceId: string,
+  customValueId: string,
+  update: { name: string; value: string },
+): Promise<EspCustomValue> {
+  const raw = await mailchimpRequest<Record<string, unknown>>(apiKey, mergeFieldsPath(audienceId, customValueId), {
+    method: 'PATCH',
+    body: { name: update.name, default_value: update.value },
+  });
+  return normalizeMergeField(raw);
+}
+
+export async function deleteCustomValue(
+  apiKey: string,
+  audienceId: string,
+  customValueId: string,
+): Promise<void> {
+  await mailchimpRequest(apiKey, mergeFieldsPath(audienceId, customValueId), { method: 'DELETE' });
+}
+
+// ── Sync Orchestrator ──
+
+/**
+ * Same contract as the GHL sync: match by merge tag, then by name; create or
+ * update as needed; delete only unmatched fields whose name is in
+ * `managedNames`, so merge fields created in Mailchimp are never touched.
+ */
+export async function syncCustomValues(
+  apiKey: string,
+  audienceId: string,
+  desired: CustomValueInput[],
+  managedNames?: string[],
+): Promise<SyncResult> {
+  const result: SyncResult = {
+    created: [],
+    updated: [],
+    deleted: [],
+    skipped: [],
+    errors: [],
+  };
+
+  let existing: EspCustomValue[];
+  try {
+    existing = await fetchCustomValues(apiKey, audienceId);
+  } catch (err) {
+    result.errors.push({
+      fieldKey: '*',
+      error: `Failed to fetch existing values: ${err instanceof Error ? err.message : String(err)}`,
+    });
+    return result;
+  }
+
+  const existingByTag = new Map<string, EspCustomValue>();
+  const existingByName = new Map<string, EspCustomValue>();
+  for (const field of existing) {
+    if (field.fieldKey) existingByTag.set(field.fieldKey, field);
+    if (field.name) existingByName.set(field.name.toLowerCase(), field);
+  }
+
+  const matchedIds = new Set<string>();
+
+  for (const input of desired) {
+    const remote = existingByTag.get(mergeTagForFieldKey(input.fieldKey))
+      || existingByName.get(input.name.toLowerCase());
+
+    if (remote) {
+      matchedIds.add(remote.id);
+      if (remote.name !== input.name || remote.value !== input.value) {
+        try {
+          await updateCustomValue(apiKey, audienceId, remote.id, {
+            name: input.name,
+            value: input.value,
+          });
+          result.updated.push(input.fieldKey);
+        } catch (err) {
+          result.errors.push({
+            fieldKey: input.fieldKey,
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+      } else {
+        result.skipped.push(input.fieldKey);
+      }
+    } else {
+      try {
+        await createCustomValue(apiKey, audienceId, input);
+        result.created.push(input.fieldKey);
+      } catch (err) {
+        result.errors.push({
+          fieldKey: input.fieldKey,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  }
+
+  if (managedNames && managedNames.length > 0) {
+    const managedSet = new Set(managedNames.map((name) => name.toLowerCase()));
+
+    for (const field of existing) {
+      if (matchedIds.has(field.id)) continue;
+      if (!field.name || !managedSet.has(field.name.toLowerCase())) continue;
+      try {
+        await deleteCustomValue(apiKey, audienceId, field.id);
+        result.deleted.push(field.fieldKey || field.name);
+      } catch (err) {
+        result.errors.push({
+          fieldKey: field.fieldKey || field.name,
+          error: `Delete failed: ${err instanceof Error ? err.message : String(err)}`,
+        });
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,476 @@
+// ── Mailchimp Adapter ──
+// Composite adapter wrapping all Mailchimp sub-modules behind the EspAdapter interface.
+// The Marketing API backs contacts, campaigns, media, and custom values; templates
+// and engagement webhooks use Mailchimp Transactional.
+
+import type {
+  EspAdapter,
+  EspCapabilities,
+  EspConnectionAdapter,
+  EspConnectInput,
+  EspConnectResult,
+  EspValidationAdapter,
+  EspValidationInput,
+  EspValidationResult,
+  ContactsAdapter,
+  CampaignsAdapter,
+  CustomValuesAdapter,
+  TemplatesAdapter,
+  MediaAdapter,
+  MediaCapabilities,
+  EspMedia,
+  EspMediaFolder,
+  MediaFolderListResult,
+  CreateMediaFolderInput,
+  MediaListResult,
+  MediaUploadInput,
+  WebhookAdapter,
+  WebhookVerifyInput,
+  EspCredentials,
+  NormalizedContact,
+  EspCampaign,
+  EspCampaignAnalytics,
+  EspWorkflow,
+  EspCustomValue,
+  CustomValueInput,
+  SyncResult,
+  EspEmailTemplate,
+  CreateEspTemplateInput,
+  UpdateEspTemplateInput,
+  ScheduleEmailCampaignInput,
+  ScheduledEmailCampaignResult,
+} from '../../types';
+import { EspValidationError } from '../../types';
+
+// ── Sub-module imports ──
+
+import {
+  getMailchimpConnection,
+  removeMailchimpConnection,
+  storeMailchimpConnection,
+  validateApiKey,
+  validateTransactionalApiKey,
+} from './auth';
+import { MailchimpApiError } from './client';
+
+import {
+  resolveCredentials,
+  fetchContactCount,
+  fetchAllContacts,
+  normalizeContact,
+  requestContacts,
+  getCachedContactCount,
+  setCachedContactCount,
+  addTags,
+} from './contacts';
+
+import {
+  fetchCampaigns,
+  fetchCampaignAnalytics,
+  fetchWorkflows,
+  fetchCampaignPreviewHtml,
+  scheduleEmailCampaign,
+} from './campaigns';
+
+import {
+  fetchTemplates,
+  fetchTemplateById,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+} from './templates';
+
+import { mailchimpMergeTagDialect } from './merge-tags';
+
+import {
+  listMedia as listMailchimpMedia,
+  listFolders as listMailchimpFolders,
+  createFolder as createMailchimpFolder,
+  uploadMedia as uploadMailchimpMedia,
+  moveMedia as moveMailchimpMedia,
+  renameMedia as renameMailchimpMedia,
+  deleteMedia as deleteMailchimpMedia,
+} from './media';
+
+import {
+  fetchCustomValues,
+  createCustomValue,
+  updateCustomValue,
+  deleteCustomValue,
+  syncCustomValues,
+} from './custom-values';
+
+import { verifyWebhookSignature } from './webhook';
+import { mailchimpEmailStatsWebhookHandler } from '@/lib/esp/webhooks/providers/mailchimp-email-stats';
+
+// ── Connection Sub-adapter ──
+
+class MailchimpConnectionAdapter implements EspConnectionAdapter {
+  readonly provider = 'mailchimp' as const;
+
+  async connect(input: EspConnectInput): Promise<EspConnectResult> {
+    const accountKey = input.accountKey.trim();
+    if (!accountKey) {
+      throw new Error('accountKey is required');
+    }
+    const apiKey = typeof input.apiKey === 'string' ? input.apiKey.trim() : '';
+    if (!apiKey) {
+      throw new Error('apiKey is required');
+    }
+    const audienceId = input.extraCredentials?.audienceId?.trim() || undefined;
+    const transactionalApiKey = input.extraCredentials?.transactionalApiKey?.trim() || undefined;
+
+    const { accountId, accountName, mailchimpAccountId, audienceName } = await validateApiKey(apiKey, audienceId);
+    if (transactionalApiKey) {
+      await validateTransactionalApiKey(transactionalApiKey);
+    }
+
+    await storeMailchimpConnection({
+      accountKey,
+      apiKey,
+      accountId,
+      accountName,
+      mailchimpAccountId,
+      audienceName,
+      transactionalApiKey,
+    });
+
+    return { accountId, accountName };
+  }
+
+  async disconnect(accountKey: string): Promise<boolean> {
+    return removeMailchimpConnection(accountKey);
+  }
+}
+
+// ── Validation Sub-adapter ──
+
+class MailchimpValidationAdapter implements EspValidationAdapter {
+  readonly provider = 'mailchimp' as const;
+
+  async validate(input: EspValidationInput): Promise<EspValidationResult> {
+    const apiKey = typeof input.apiKey === 'string' ? input.apiKey.trim() : '';
+    if (!apiKey) {
+      throw new EspValidationError('apiKey is required', 400);
+    }
+
+    try {
+      // Re-validate against the audience the account is already synced with.
+      const stored = input.accountKey ? await getMailchimpConnection(input.accountKey) : null;
+      const { accountId, accountName } = await validateApiKey(apiKey, stored?.audienceId || undefined);
+      return {
+        provider: 'mailchimp',
+        mode: 'api-key',
+        account: { id: accountId, name: accountName },
+      };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to validate Mailchimp API key';
+      const status = err instanceof MailchimpApiError ? err.status : 500;
+      throw new EspValidationError(message, status);
+    }
+  }
+}
+
+// ── Contacts Sub-adapter ──
+
+class MailchimpContactsAdapter implements ContactsAdapter {
+  readonly provider = 'mailchimp' as const;
+
+  async resolveCredentials(accountKey: string): Promise<EspCredentials | null> {
+    return resolveCredentials(accountKey);
+  }
+
+  async fetchContactCount(token: string, locationId: string): Promise<number> {
+    return fetchContactCount(token, locationId);
+  }
+
+  async fetchAllContacts(
+    token: string,
+    locationId: string,
+  ): Promise<Record<string, unknown>[]> {
+    return fetchAllContacts(token, locationId);
+  }
+
+  normalizeContact(raw: Record<string, unknown>): NormalizedContact {
+    return normalizeContact(raw);
+  }
+
+  async requestContacts(params: {
+    token: string;
+    locationId: string;
+    limit: number;
+    search: string;
+  }): Promise<{ contacts: Record<string, unknown>[]; total: number }> {
+    return requestContacts(params);
+  }
+
+  getCachedContactCount(accountKey: string): number | null {
+    return getCachedContactCount(accountKey);
+  }
+
+  setCachedContactCount(accountKey: string, total: number): void {
+    setCachedContactCount(accountKey, total);
+  }
+
+  async addTags(params: {
+    token: string;
+    locationId: string;
+    contactId: string;
+    tags: string[];
+  }): Promise<void> {
+    return addTags(params);
+  }
+}
+
+// ── Campaigns Sub-adapter ──
+
+class MailchimpCampaignsAdapter implements CampaignsAdapter {
+  readonly provider = 'mailchimp' as const;
+
+  async fetchCampaigns(
+    token: string,
+    locationId: string,
+    options?: { forceRefresh?: boolean },
+  ): Promise<EspCampaign[]> {
+    return fetchCampaigns(token, locationId, options);
+  }
+
+  async fetchCampaignAnalytics(
+    token: string,
+    locationId: string,
+    identifiers: { scheduleId?: string; campaignId?: string; recordId?: string },
+  ): Promise<EspCampaignAnalytics> {
+    return fetchCampaignAnalytics(token, locationId, identifiers);
+  }
+
+  async fetchWorkflows(
+    token: string,
+    locationId: string,
+  ): Promise<EspWorkflow[]> {
+    return fetchWorkflows(token, locationId);
+  }
+
+  async fetchCampaignPreviewHtml(
+    token: string,
+    locationId: string,
+    campaignId: string,
+  ): Promise<{ previewUrl: string; html: string }> {
+    return fetchCampaignPreviewHtml(token, locationId, campaignId);
+  }
+
+  async scheduleEmailCampaign(
+    input: ScheduleEmailCampaignInput,
+  ): Promise<ScheduledEmailCampaignResult> {
+    return scheduleEmailCampaign(input);
+  }
+}
+
+// ── Custom Values Sub-adapter (audience merge fields) ──
+
+class MailchimpCustomValuesAdapter implements CustomValuesAdapter {
+  readonly provider = 'mailchimp' as const;
+
+  async fetchCustomValues(token: string, locationId: string): Promise<EspCustomValue[]> {
+    return fetchCustomValues(token, locationId);
+  }
+
+  async createCustomValue(
+    token: string,
+    locationId: string,
+    input: CustomValueInput,
+  ): Promise<EspCustomValue> {
+    return createCustomValue(token, locationId, input);
+  }
+
+  async updateCustomValue(
+    token: string,
+    locationId: string,
+    customValueId: string,
+    update: { name: string; value: string },
+  ): Promise<EspCustomValue> {
+    return updateCustomValue(token, locationId, customValueId, update);
+  }
+
+  async deleteCustomValue(
+    token: string,
+    locationId: string,
+    customValueId: string,
+  ): Promise<void> {
+    return deleteCustomValue(token, locationId, customValueId);
+  }
+
+  async syncCustomValues(
+    token: string,
+    locationId: string,
+    desired: CustomValueInput[],
+    managedNames?: string[],
+  ): Promise<SyncResult> {
+    return syncCustomValues(token, locationId, desired, managedNames);
+  }
+}
+
+// ── Templates Sub-adapter (Transactional) ──
+
+class MailchimpTemplatesAdapter implements TemplatesAdapter {
+  readonly provider = 'mailchimp' as const;
+
+  async fetchTemplates(
+    token: string,
+    audienceId: string,
+  ): Promise<EspEmailTemplate[]> {
+    return fetchTemplates(token, audienceId);
+  }
+
+  async fetchTemplateById(
+    token: string,
+    audienceId: string,
+    templateId: string,
+  ): Promise<EspEmailTemplate | null> {
+    return fetchTemplateById(token, audienceId, templateId);
+  }
+
+  async createTemplate(
+    token: string,
+    audienceId: string,
+    input: CreateEspTemplateInput,
+  ): Promise<EspEmailTemplate> {
+    return createTemplate(token, audienceId, input);
+  }
+
+  async updateTemplate(
+    token: string,
+    audienceId: string,
+    templateId: string,
+    input: UpdateEspTemplateInput,
+  ): Promise<EspEmailTemplate> {
+    return updateTemplate(token, audienceId, templateId, input);
+  }
+
+  async deleteTemplate(
+    token: string,
+    audienceId: string,
+    templateId: string,
+  ): Promise<void> {
+    return deleteTemplate(token, audienceId, templateId);
+  }
+}
+
+// ── Webhook Sub-adapter ──
+
+class MailchimpWebhookAdapter implements WebhookAdapter {
+  readonly provider = 'mailchimp' as const;
+  readonly signatureHeaderCandidates = ['x-mandrill-signature'] as const;
+
+  verifySignature(input: WebhookVerifyInput): boolean {
+    return verifyWebhookSignature(input.rawBody, input.signature, input.headers);
+  }
+}
+
+// ── Media Sub-adapter (File Manager) ──
+
+class MailchimpMediaAdapter implements MediaAdapter {
+  readonly provider = 'mailchimp' as const;
+  readonly mediaCapabilities: MediaCapabilities = {
+    canUpload: true,
+    canDelete: true,
+    canRename: true,
+    canMove: true,
+    canCreateFolders: true,
+    canNavigateFolders: true,
+  };
+
+  async listMedia(
+    apiKey: string,
+    audienceId: string,
+    options?: { cursor?: string; limit?: number; parentId?: string; fetchAll?: boolean },
+  ): Promise<MediaListResult> {
+    return listMailchimpMedia(apiKey, audienceId, options);
+  }
+
+  async listFolders(
+    apiKey: string,
+    audienceId: string,
+  ): Promise<MediaFolderListResult> {
+    return listMailchimpFolders(apiKey, audienceId);
+  }
+
+  async createFolder(
+    apiKey: string,
+    audienceId: string,
+    input: CreateMediaFolderInput,
+  ): Promise<EspMediaFolder> {
+    return createMailchimpFolder(apiKey, audienceId, input);
+  }
+
+  async uploadMedia(
+    apiKey: string,
+    audienceId: string,
+    input: MediaUploadInput,
+  ): Promise<EspMedia> {
+    return uploadMailchimpMedia(apiKey, audienceId, input);
+  }
+
+  async moveMedia(
+    apiKey: string,
+    audienceId: string,
+    fileId: string,
+    targetFolderId?: string,
+    name?: string,
+  ): Promise<void> {
+    return moveMailchimpMedia(apiKey, audienceId, fileId, targetFolderId, name);
+  }
+
+  async renameMedia(
+    apiKey: string,
+    audienceId: string,
+    fileId: string,
+    newName: string,
+  ): Promise<EspMedia> {
+    return renameMailchimpMedia(apiKey, audienceId, fileId, newName);
+  }
+
+  async deleteMedia(
+    apiKey: string,
+    audienceId: string,
+    fileId: string,
+  ): Promise<void> {
+    return deleteMailchimpMedia(apiKey, audienceId, fileId);
+  }
+}
+
+// ── Composite Mailchimp Adapter ──
+
+export class MailchimpAdapter implements EspAdapter {
+  readonly provider = 'mailchimp' as const;
+
+  readonly capabilities: EspCapabilities = {
+    auth: 'api-key',
+    contacts: true,
+    campaigns: true,
+    workflows: true,     // Classic automations only
+    messages: false,     // No 1:1 message send outside Transactional
+    users: false,        // No team members API
+    webhooks: true,      // Transactional (Mandrill) event webhooks
+    customValues: true,  // Audience merge fields with default values
+    templates: true,     // Requires the Transactional API key
+    media: true,
+  };
+
+  async resolveCredentials(accountKey: string): Promise<EspCredentials | null> {
+    return this.contacts.resolveCredentials(accountKey);
+  }
+
+  readonly contacts = new MailchimpContactsAdapter();
+  readonly campaigns = new MailchimpCampaignsAdapter();
+  readonly webhook = new MailchimpWebhookAdapter();
+  readonly webhookFamilies = {
+    'email-stats': mailchimpEmailStatsWebhookHandler,
+  };
+  readonly customValues = new MailchimpCustomValuesAdapter();
+  readonly templates = new MailchimpTemplatesAdapter();
+  readonly mergeTags = mailchimpMergeTagDialect;
+  readonly media = new MailchimpMediaAdapter();
+  readonly connection = new MailchimpConnectionAdapter();
+  readonly validation = new MailchimpValidationAdapter();
+  // messages, users are intentionally undefined
+}
@@ -0,0 +1,174 @@
+// ── Mailchimp File Manager ──
+// List, upload, move, rename, and delete files and folders in the account's
+// File Manager. The File Manager is account-wide, not per audience.
+
+import { mailchimpRequest } from './client';
+import type {
+  CreateMediaFolderInput,
+  EspMedia,
+  EspMediaFolder,
+  MediaFolderListResult,
+  MediaListResult,
+  MediaUploadInput,
+} from '../../types';
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * File Manager file record:
+ *   { id, folder_id, type: 'image' | 'file', name, full_size_url, thumbnail_url,
+ *     size, created_at, width, height }
+ */
+function normalizeFile(raw: Record<string, unknown>): EspMedia {
+  const url = String(raw.full_size_url || '');
+  return {
+    id: String(raw.id ?? ''),
+    name: String(raw.name || ''),
+    url,
+    type: String(raw.type || 'file'),
+    size: typeof raw.size === 'number' ? raw.size : undefined,
+    thumbnailUrl: String(raw.thumbnail_url || url),
+    createdAt: String(raw.created_at || ''),
+  };
+}
+
+function normalizeFolder(raw: Record<string, unknown>): EspMediaFolder {
+  return {
+    id: String(raw.id ?? ''),
+    name: String(raw.name || ''),
+    createdAt: String(raw.created_at || ''),
+  };
+}
+
+// ── List files (offset pagination; cursor is the next offset) ──
+
+export async function listMedia(
+  apiKey: string,
+  _audienceId: string,
+  options?: { cursor?: string; limit?: number; parentId?: string; fetchAll?: boolean },
+): Promise<MediaListResult> {
+  const count = Math.max(1, Math.min(options?.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE));
+  let offset = Math.max(0, Number.parseInt(options?.cursor || '0', 10) || 0);
+  const files: EspMedia[] = [];
+  let total = 0;
+
+  while (true) {
+    const query = new URLSearchParams({
+      count: String(options?.fetchAll ? MAX_PAGE_SIZE : count),
+      offset: String(offset),
+      sort_field: 'added_date',
+      sort_dir: 'DESC',
+    });
+    // The files endpoint has no folder filter, so folders are browsed through
+    // the folder's own files listing.
+    const path = options?.parentId
+      ? `/file-manager/folders/${encodeURIComponent(options.parentId)}/files?${query.toString()}`
+      : `/file-manager/files?${query.toString()}`;
+    const json = await mailchimpRequest<{ files?: Record<string, unknown>[]; total_file_count?: number; total_items?: number }>(
+      apiKey,
+      path,
+    );
+    const page = json.files ?? [];
+    files.push(...page.map(normalizeFile));
+    total = json.total_file_count ?? json.total_items ?? files.length;
+    offset += page.length;
+
+    if (!options?.fetchAll || page.length === 0 || offset >= total) break;
+  }
+
+  return {
+    files,
+    total,
+    nextCursor: offset < total ? String(offset) : undefined,
+  };
+}
+
+// ── Folders ──
+
+export async function listFolders(
+  apiKey: string,
+  _audienceId: string,
+): Promise<MediaFolderListResult> {
+  const json = await mailchimpRequest<{ folders?: Record<string, unknown>[] }>(
+    apiKey,
+    `/file-manager/folders?count=${MAX_PAGE_SIZE}`,
+  );
+  return { folders: (json.folders ?? []).map(normalizeFolder) };
+}
+
+/** File Manager folders are flat; `parentId` is ignored. */
+export async function createFolder(
+  apiKey: string,
+  _audienceId: string,
+  input: CreateMediaFolderInput,
+): Promise<EspMediaFolder> {
+  const raw = await mailchimpRequest<Record<string, unknown>>(apiKey, '/file-manager/folders', {
+    method: 'POST',
+    body: { name: input.name },
+  });
+  return normalizeFolder(raw);
+}
+
+// ── Upload file (base64 JSON body) ──
+
+export async function uploadMedia(
+  apiKey: string,
+  _audienceId: string,
+  input: MediaUploadInput,
+): Promise<EspMedia> {
+  const raw = await mailchimpRequest<Record<string, unknown>>(apiKey, '/file-manager/files', {
+    method: 'POST',
+    body: {
+      name: input.name,
+      file_data: Buffer.from(input.file).toString('base64'),
+      ...(input.parentId ? { folder_id: Number(input.parentId) } : {}),
+    },
+  });
+  return normalizeFile(raw);
+}
+
+// ── Move / rename ──
+
+export async function moveMedia(
+  apiKey: string,
+  _audienceId: string,
+  fileId: string,
+  targetFolderId?: string,
+  name?: string,
+): Promise<void> {
+  const body: Record<string, unknown> = {
+    // Folder id 0 is the File Manager root.
+    folder_id: targetFolderId ? Number(targetFolderId) : 0,
+  };
+  if (name) body.name = name;
+
+  await mailchimpRequest(apiKey, `/file-manager/files/${encodeURIComponent(fileId)}`, {
+    method: 'PATCH',
+    body,
+  });
+}
+
+export async function renameMedia(
+  apiKey: string,
+  _audienceId: string,
+  fileId: string,
+  newName: string,
+): Promise<EspMedia> {
+  const raw = await mailchimpRequest<Record<string, unknown>>(
+    apiKey,
+    `/file-manager/files/${encodeURIComponent(fileId)}`,
+    { method: 'PATCH', body: { name: newName } },
+  );
+  return normalizeFile(raw);
+}
+
+// ── Delete file ──
+
+export async function deleteMedia(
+  apiKey: string,
+  _audienceId: string,
+  fileId: string,
+): Promise<void> {
+  await mailchimpRequest(apiKey, `/file-manager/files/${encodeURIComponent(fileId)}`, { method: 'DELETE' });
+}
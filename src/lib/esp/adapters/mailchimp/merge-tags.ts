@@ -0,0 +1,95 @@
+import { readEspVariables } from '@/lib/esp/variables';
+import { MERGE_FIELD_ALIASES } from './contacts';
+import { mergeTagForFieldKey } from './custom-values';
+import type { CanonicalCondition, CanonicalConditionGroup } from '@/lib/content-conditions';
+import type { CanonicalMergeTag, ConditionalBlockTags, MergeTagDialect } from '../../types';
+
+/**
+ * Mailchimp merge tags (`*|FNAME|*`). Vehicle fields use the first merge tag
+ * the contacts adapter reads, custom values use the merge fields the custom
+ * values adapter creates, and dealership details come from the audience's
+ * `LIST:` tags. Defaults live on the merge field, not the tag, so template
+ * defaults are dropped. Conditional blocks use `*|IF:|*`, which tests one
+ * merge field at a time: AND rules nest, OR rules and substrings can't be
+ * expressed.
+ */
+const MAILCHIMP_TAGS: Record<string, string> = {
+  'contact.first_name': 'FNAME',
+  'contact.last_name': 'LNAME',
+  'contact.email': 'EMAIL',
+  'contact.phone': 'PHONE',
+  'contact.vehicle_year': MERGE_FIELD_ALIASES.vehicleYear[0],
+  'contact.vehicle_make': MERGE_FIELD_ALIASES.vehicleMake[0],
+  'contact.vehicle_model': MERGE_FIELD_ALIASES.vehicleModel[0],
+  'contact.vehicle_vin': MERGE_FIELD_ALIASES.vehicleVin[0],
+  'contact.vehicle_mileage': MERGE_FIELD_ALIASES.vehicleMileage[0],
+  'contact.last_service_date': MERGE_FIELD_ALIASES.lastServiceDate[0],
+  'contact.next_service_date': MERGE_FIELD_ALIASES.nextServiceDate[0],
+  'contact.lease_end_date': MERGE_FIELD_ALIASES.leaseEndDate[0],
+  'contact.warranty_end_date': MERGE_FIELD_ALIASES.warrantyEndDate[0],
+  'contact.purchase_date': MERGE_FIELD_ALIASES.purchaseDate[0],
+  'location.name': 'LIST:COMPANY',
+  'location.address': 'LIST:ADDRESSLINE',
+  unsubscribe_link: 'UNSUB',
+};
+
+let variablesByTag: Map<string, string> | null = null;
+
+/** Fixed tags plus the merge tag of every catalog custom value. */
+function variableForTag(tag: string): string | undefined {
+  if (!variablesByTag) {
+    variablesByTag = new Map(Object.entries(MAILCHIMP_TAGS).map(([variable, mergeTag]) => [mergeTag, variable]));
+    for (const definitions of Object.values(readEspVariables())) {
+      for (const definition of definitions) {
+        const variable = definition.variable.replace(/^\{+|\}+$/g, '').trim();
+        const mergeTag = variable.startsWith('custom_values.') ? mergeTagForFieldKey(variable) : '';
+        if (mergeTag && !variablesByTag.has(mergeTag)) variablesByTag.set(mergeTag, variable);
+      }
+    }
+  }
+  return variablesByTag.get(tag);
+}
+
+function format({ variable }: CanonicalMergeTag): string | null {
+  const tag = MAILCHIMP_TAGS[variable]
+    ?? (variable.startsWith('custom_values.') ? mergeTagForFieldKey(variable) : '');
+  return tag ? `*|${tag}|*` : null;
+}
+
+function parse(match: RegExpMatchArray): CanonicalMergeTag | null {
+  const variable = variableForTag(match[1]);
+  return variable ? { variable, fallback: null } : null;
+}
+
+function conditionTag({ variable, operator, value }: CanonicalCondition): string | null {
+  const tag = MAILCHIMP_TAGS[variable];
+  if (!tag || /[|*]/.test(value)) return null;
+  switch (operator) {
+    case 'is_not_empty':
+      return `*|IF:${tag}|*`;
+    case 'is_empty':
+      return `*|IFNOT:${tag}|*`;
+    case 'equals':
+      return `*|IF:${tag}=${value}|*`;
+    case 'not_equals':
+      return `*|IF:${tag}!=${value}|*`;
+    default:
+      return null;
+  }
+}
+
+function formatCondition(group: CanonicalConditionGroup): ConditionalBlockTags | null {
+  if (group.conditions.length === 0 || (group.logic === 'OR' && group.conditions.length > 1)) return null;
+  const tags = group.conditions.map(conditionTag);
+  if (tags.some((tag) => tag === null)) return null;
+  return { open: tags.join(''), close: '*|END:IF|*'.repeat(tags.length) };
+}
+
+export const mailchimpMergeTagDialect: MergeTagDialect = {
+  provider: 'mailchimp',
+  supportsFallbacks: false,
+  format,
+  tokenPattern: /\*\|([A-Z0-9_:]+)\|\*/g,
+  parse,
+  formatCondition,
+};
@@ -0,0 +1,151 @@
+// ── Mailchimp Email Templates ──
+// Templates live in Mailchimp Transactional (Mandrill): the Marketing API
+// cannot return a template's HTML. Template ids are Mandrill slugs, and the
+// Transactional key is looked up from the audience's connection.
+
+import { mailchimpTransactionalRequest, MailchimpApiError } from './client';
+import { getTransactionalApiKey } from './auth';
+import type { EspEmailTemplate, CreateEspTemplateInput, UpdateEspTemplateInput } from '../../types';
+
+// ── In-memory cache (5 min TTL) ──
+
+const templateCache = new Map<string, { data: EspEmailTemplate[]; fetchedAt: number }>();
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+function cacheKey(audienceId: string): string {
+  return `mailchimp:${audienceId}`;
+}
+
+function getCached(audienceId: string): EspEmailTemplate[] | null {
+  const entry = templateCache.get(cacheKey(audienceId));
+  if (!entry) return null;
+  if (Date.now() - entry.fetchedAt > CACHE_TTL_MS) {
+    templateCache.delete(cacheKey(audienceId));
+    return null;
+  }
+  return entry.data;
+}
+
+function setCache(audienceId: string, data: EspEmailTemplate[]): void {
+  templateCache.set(cacheKey(audienceId), { data, fetchedAt: Date.now() });
+}
+
+function invalidateCache(audienceId: string): void {
+  templateCache.delete(cacheKey(audienceId));
+}
+
+// ── Helpers ──
+
+/**
+ * Mandrill template record:
+ *   { slug, name, code, subject, from_email, from_name, publish_code,
+ *     publish_subject, labels, created_at, updated_at, published_at }
+ */
+function normalizeTemplate(raw: Record<string, unknown>): EspEmailTemplate {
+  return {
+    id: String(raw.slug || raw.name || ''),
+    name: String(raw.name || raw.slug || ''),
+    subject: String(raw.publish_subject || raw.subject || ''),
+    previewText: '',
+    html: String(raw.publish_code || raw.code || ''),
+    status: raw.published_at ? 'published' : 'draft',
+    editorType: 'CODE',
+    thumbnailUrl: '',
+    createdAt: String(raw.created_at || ''),
+    updatedAt: String(raw.updated_at || ''),
+  };
+}
+
+// ── Fetch all templates ──
+
+export async function fetchTemplates(
+  _apiKey: string,
+  audienceId: string,
+  options?: { forceRefresh?: boolean },
+): Promise<EspEmailTemplate[]> {
+  if (!options?.forceRefresh) {
+    const cached = getCached(audienceId);
+    if (cached) return cached;
+  }
+
+  const transactionalKey = await getTransactionalApiKey(audienceId);
+  const items = await mailchimpTransactionalRequest<Record<string, unknown>[]>(transactionalKey, '/templates/list');
+  const templates = (Array.isArray(items) ? items : []).map(normalizeTemplate);
+
+  setCache(audienceId, templates);
+  return templates;
+}
+
+// ── Fetch single template ──
+
+export async function fetchTemplateById(
+  _apiKey: string,
+  audienceId: string,
+  templateId: string,
+): Promise<EspEmailTemplate | null> {
+  const transactionalKey = await getTransactionalApiKey(audienceId);
+  try {
+    const raw = await mailchimpTransactionalRequest<Record<string, unknown>>(
+      transactionalKey,
+      '/templates/info',
+      { name: templateId },
+    );
+    return raw ? normalizeTemplate(raw) : null;
+  } catch (err) {
+    // Mandrill answers Unknown_Template with a 500.
+    if (err instanceof MailchimpApiError && /Unknown_Template/i.test(err.message)) return null;
+    throw err;
+  }
+}
+
+// ── Create template ──
+
+export async function createTemplate(
+  _apiKey: string,
+  audienceId: string,
+  input: CreateEspTemplateInput,
+): Promise<EspEmailTemplate> {
+  const transactionalKey = await getTransactionalApiKey(audienceId);
+  const raw = await mailchimpTransactionalRequest<Record<string, unknown>>(transactionalKey, '/templates/add', {
+    name: input.name,
+    code: input.html,
+    subject: input.subject || '',
+    publish: true,
+  });
+
+  invalidateCache(audienceId);
+  return normalizeTemplate(raw);
+}
+
+// ── Update template ──
+
+export async function updateTemplate(
+  _apiKey: string,
+  audienceId: string,
+  templateId: string,
+  input: UpdateEspTemplateInput,
+): Promise<EspEmailTemplate> {
+  const transactionalKey = await getTransactionalApiKey(audienceId);
+  // Mandrill can't rename a template (the slug is derived from the name), so
+  // `input.name` is ignored; omitted fields are left unchanged.
+  const body: Record<string, unknown> = { name: templateId, publish: true };
+  if (input.html !== undefined) body.code = input.html;
+  if (input.subject !== undefined) body.subject = input.subject;
+
+  const raw = await mailchimpTransactionalRequest<Record<string, unknown>>(transactionalKey, '/templates/update', body);
+
+  invalidateCache(audienceId);
+  return normalizeTemplate(raw);
+}
+
+// ── Delete template ──
+
+export async function deleteTemplate(
+  _apiKey: string,
+  audienceId: string,
+  templateId: string,
+): Promise<void> {
+  const transactionalKey = await getTransactionalApiKey(audienceId);
+  await mailchimpTransactionalRequest(transactionalKey, '/templates/delete', { name: templateId });
+  invalidateCache(audienceId);
+}
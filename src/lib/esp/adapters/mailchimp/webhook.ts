@@ -0,0 +1,71 @@
+// ── Mailchimp Transactional Webhook Verification ──
+// Mailchimp Transactional (Mandrill) signs webhooks with HMAC-SHA1 using the
+// webhook key shown in the Transactional webhook settings.
+// Header: X-Mandrill-Signature
+
+import crypto from 'crypto';
+
+export const MAILCHIMP_EMAIL_STATS_WEBHOOK_PATH = '/api/webhooks/esp/mailchimp/email-stats';
+
+/**
+ * The URL Mandrill signed: the exact URL configured for the webhook. Prefer
+ * MAILCHIMP_WEBHOOK_URL since proxies can rewrite the host and scheme.
+ */
+function resolveSignedUrl(headers: Record<string, string | undefined>): string {
+  const configured = process.env.MAILCHIMP_WEBHOOK_URL?.trim();
+  if (configured) return configured;
+
+  const host = headers['x-forwarded-host'] || headers.host;
+  if (!host) return '';
+  const proto = (headers['x-forwarded-proto'] || 'https').split(',')[0].trim();
+  return `${proto}://${host}${MAILCHIMP_EMAIL_STATS_WEBHOOK_PATH}`;
+}
+
+/**
+ * Build the Mandrill signature for a form-encoded webhook body.
+ *
+ * Mandrill's algorithm:
+ * 1. Start with the webhook URL
+ * 2. Append each POST param as key + value, sorted by key
+ * 3. HMAC-SHA1 with the webhook key → base64 digest
+ */
+export function computeMandrillSignature(key: string, url: string, rawBody: string): string {
+  const params = new URLSearchParams(rawBody);
+  const keys = [...new Set(params.keys())].sort();
+  let signed = url;
+  for (const name of keys) {
+    signed += name + (params.get(name) ?? '');
+  }
+  return crypto.createHmac('sha1', key).update(signed).digest('base64');
+}
+
+/**
+ * Verify a Mailchimp Transactional webhook signature.
+ *
+ * @param rawBody - The raw form-encoded request body
+ * @param signature - The X-Mandrill-Signature header value
+ * @param headers - Lower-cased request headers, used to rebuild the signed URL
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  signature: string,
+  headers: Record<string, string | undefined> = {},
+): boolean {
+  const key = process.env.MAILCHIMP_WEBHOOK_KEY;
+  if (!key) {
+    console.warn('MAILCHIMP_WEBHOOK_KEY not set — cannot verify webhook signature');
+    return false;
+  }
+  if (!signature) return false;
+
+  const url = resolveSignedUrl(headers);
+  if (!url) return false;
+
+  try {
+    const computed = Buffer.from(computeMandrillSignature(key, url, rawBody), 'base64');
+    const provided = Buffer.from(signature, 'base64');
+    return computed.length === provided.length && crypto.timingSafeEqual(computed, provided);
+  } catch {
+    return false;
+  }
+}
@@ -110,7 +110,8 @@ export async function getValidApiKey(accountKey: string): Promise<string | null>
 /**
  * Resolve SendGrid credentials for an account.
  * Returns EspCredentials with provider='sendgrid' and the API key as token.
- * The locationId maps to the SendGrid account ID (username).
+ * The locationId is the Loomi account key: it is what Mail Send stamps into
+ * `loomi_account_key`, so Event Webhook stats and EmailCampaign rows line up.
  */
 export async function resolveSendGridCredentials(
   accountKey: string,
@@ -121,6 +122,6 @@ export async function resolveSendGridCredentials(
   return {
     provider: 'sendgrid',
     token: connection.apiKey,
-    locationId: connection.accountId || accountKey,
+    locationId: accountKey,
   };
 }
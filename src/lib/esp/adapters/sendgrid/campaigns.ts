@@ -1,8 +1,15 @@
 // ── SendGrid Campaigns Adapter ──
 // SendGrid sends are dispatched via the Mail Send API (POST /v3/mail/send).
-// Campaign listing will be backed by Loomi's own EmailCampaign model in the future.
+// SendGrid has no campaign objects for Mail Send traffic, so campaign listing
+// is backed by Loomi's own EmailCampaign rows sent through the account's
+// SendGrid transport (see services/email-transport.ts).
 
 import { SENDGRID_BASE } from './constants';
+import {
+  emailStatsToAnalytics,
+  getCampaignEmailStats,
+} from '@/lib/esp/webhooks/email-stats-store';
+import { getEmailCampaignHtml, listAccountTransportCampaigns } from '@/lib/services/email-campaigns';
 import type {
   EspCampaign,
   EspCampaignAnalytics,
@@ -49,8 +56,27 @@ export async function fetchCampaigns(
     if (cached && Date.now() - cached.ts < CACHE_TTL) return cached.data;
   }
 
-  // TODO: Back campaign listing with Loomi's own EmailCampaign model.
-  const campaigns: EspCampaign[] = [];
+  // locationId is the Loomi account key for SendGrid (see resolveSendGridCredentials).
+  const rows = await listAccountTransportCampaigns(locationId, 'sendgrid');
+  const campaigns: EspCampaign[] = rows.map((row) => ({
+    id: row.id,
+    campaignId: row.id,
+    name: row.name || row.subject,
+    status: row.status,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    ...(row.scheduledFor ? { scheduledAt: row.scheduledFor } : {}),
+    ...(row.completedAt || row.startedAt ? { sentAt: row.completedAt || row.startedAt } : {}),
+    sentCount: row.sentCount,
+    deliveredCount: row.deliveredCount,
+    openedCount: row.openedCount,
+    clickedCount: row.clickedCount,
+    bouncedCount: row.bouncedCount,
+    unsubscribedCount: row.unsubscribedCount,
+    failedCount: row.failedCount,
+    locationId,
+    accountKey: locationId,
+  }));
 
   campaignCache.set(cacheKey, { data: campaigns, ts: Date.now() });
   return campaigns;
@@ -60,11 +86,21 @@ export async function fetchCampaigns(
 
 export async function fetchCampaignAnalytics(
   _apiKey: string,
-  _locationId: string,
-  _identifiers: { scheduleId?: string; campaignId?: string; recordId?: string },
+  locationId: string,
+  identifiers: { scheduleId?: string; campaignId?: string; recordId?: string },
 ): Promise<EspCampaignAnalytics> {
-  // TODO: Back analytics with Loomi's own EmailCampaign model.
-  return {};
+  // SendGrid has no per-campaign stats API for Mail Send traffic; serve the
+  // counters rolled up from Event Webhook deliveries instead.
+  const campaignId = identifiers.campaignId || identifiers.scheduleId || identifiers.recordId;
+  if (!campaignId) return { source: 'sendgrid' };
+
+  const stats = await getCampaignEmailStats({
+    provider: 'sendgrid',
+    accountId: locationId,
+    campaignIds: [campaignId],
+  });
+  const snapshot = stats.get(campaignId);
+  return snapshot ? emailStatsToAnalytics(snapshot) : { source: 'sendgrid' };
 }
 
 // ── Fetch Workflows (not applicable) ──
@@ -80,12 +116,13 @@ export async function fetchWorkflows(
 
 export async function fetchCampaignPreviewHtml(
   _apiKey: string,
-  _locationId: string,
-  _campaignId: string,
+  locationId: string,
+  campaignId: string,
 ): Promise<{ previewUrl: string; html: string }> {
-  // SendGrid transactional sends don't store rendered HTML per-campaign.
-  // This would require template lookup, which is a future enhancement.
-  return { previewUrl: '', html: '' };
+  // SendGrid Mail Send keeps no per-campaign HTML; Loomi campaigns sent
+  // through it do, so serve the stored content (locationId is the account key).
+  const html = await getEmailCampaignHtml(campaignId, locationId);
+  return { previewUrl: '', html: html || '' };
 }
 
 // ── Schedule / Send Email Campaign ──
@@ -51,6 +51,8 @@ import {
   deleteTemplate,
 } from './templates';
 
+import { sendgridMergeTagDialect } from './merge-tags';
+
 import { verifySendGridWebhookSignature } from './webhook';
 import { sendgridEmailStatsWebhookHandler } from '@/lib/esp/webhooks/providers/sendgrid-email-stats';
 
@@ -244,6 +246,7 @@ export class SendGridAdapter implements EspAdapter {
     'email-stats': sendgridEmailStatsWebhookHandler,
   };
   readonly templates = new SendGridTemplatesAdapter();
+  readonly mergeTags = sendgridMergeTagDialect;
   readonly connection = new SendGridConnectionAdapter();
   readonly validation = new SendGridValidationAdapter();
   // contacts, messages, users, customValues, media are intentionally undefined
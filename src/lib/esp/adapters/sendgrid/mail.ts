@@ -0,0 +1,51 @@
+// ── SendGrid Mail Send (single message) ──
+// Used by per-account email campaign transports. Each message carries
+// custom_args { loomi_campaign_id, loomi_account_key } so Event Webhook
+// deliveries roll up under the Loomi campaign (see sendgrid-email-stats.ts).
+
+import { SENDGRID_BASE } from './constants';
+
+export interface SendGridMailInput {
+  from: { email: string; name?: string };
+  replyTo?: { email: string } | null;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+  customArgs: Record<string, string>;
+}
+
+export async function sendMail(
+  apiKey: string,
+  input: SendGridMailInput,
+): Promise<{ messageId: string | null }> {
+  const payload = {
+    personalizations: [{ to: [{ email: input.to }], custom_args: input.customArgs }],
+    from: input.from,
+    ...(input.replyTo ? { reply_to: input.replyTo } : {}),
+    subject: input.subject,
+    // SendGrid requires text/plain before text/html.
+    content: [
+      ...(input.text ? [{ type: 'text/plain', value: input.text }] : []),
+      { type: 'text/html', value: input.html },
+    ],
+    ...(input.headers && Object.keys(input.headers).length > 0 ? { headers: input.headers } : {}),
+  };
+
+  const res = await fetch(`${SENDGRID_BASE}/v3/mail/send`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  });
+
+  if (!res.ok) {
+    const errorBody = await res.text().catch(() => '');
+    throw new Error(`SendGrid mail send failed (${res.status}): ${errorBody.slice(0, 300)}`);
+  }
+
+  return { messageId: res.headers.get('x-message-id') || null };
+}
@@ -0,0 +1,73 @@
+import { isLoomiMergeVariable } from '@/lib/esp/merge-tags';
+import type { CanonicalCondition, CanonicalConditionGroup } from '@/lib/content-conditions';
+import type { CanonicalMergeTag, ConditionalBlockTags, MergeTagDialect } from '../../types';
+
+/**
+ * SendGrid dynamic templates are Handlebars over the send's
+ * `dynamic_template_data`, so contact fields keep their dotted path and
+ * defaults use the `insert` helper. Location and custom values aren't part of
+ * the send data and are filled in from the account at publish.
+ *
+ * Conditional blocks use SendGrid's block helpers. They test one value each,
+ * so AND rules nest, OR rules only work as `{{#or}}` over presence checks,
+ * and there is no substring helper.
+ */
+function format({ variable, fallback }: CanonicalMergeTag): string | null {
+  if (variable === 'unsubscribe_link') return '{{{unsubscribe}}}';
+  if (!variable.startsWith('contact.')) return null;
+  return fallback === null
+    ? `{{${variable}}}`
+    : `{{insert ${variable} "default=${fallback.replace(/"/g, '&quot;')}"}}`;
+}
+
+function parse(match: RegExpMatchArray): CanonicalMergeTag | null {
+  if (match[4]) return { variable: 'unsubscribe_link', fallback: null };
+  const variable = match[2] || match[1];
+  if (!variable || !isLoomiMergeVariable(variable)) return null;
+  return { variable, fallback: match[3] ?? null };
+}
+
+function conditionBlock({ variable, operator, value }: CanonicalCondition): ConditionalBlockTags | null {
+  if (!variable.startsWith('contact.') || value.includes('"')) return null;
+  switch (operator) {
+    case 'is_not_empty':
+      return { open: `{{#if ${variable}}}`, close: '{{/if}}' };
+    case 'is_empty':
+      return { open: `{{#unless ${variable}}}`, close: '{{/unless}}' };
+    case 'equals':
+      return { open: `{{#equals ${variable} "${value}"}}`, close: '{{/equals}}' };
+    case 'not_equals':
+      return { open: `{{#notEquals ${variable} "${value}"}}`, close: '{{/notEquals}}' };
+    default:
+      return null;
+  }
+}
+
+function formatCondition(group: CanonicalConditionGroup): ConditionalBlockTags | null {
+  if (group.conditions.length === 0) return null;
+  if (group.logic === 'OR' && group.conditions.length > 1) {
+    const presence = group.conditions.every(
+      (condition) => condition.operator === 'is_not_empty' && condition.variable.startsWith('contact.'),
+    );
+    if (!presence) return null;
+    return {
+      open: `{{#or ${group.conditions.map((condition) => condition.variable).join(' ')}}}`,
+      close: '{{/or}}',
+    };
+  }
+  const blocks = group.conditions.map(conditionBlock);
+  if (blocks.some((block) => block === null)) return null;
+  return {
+    open: blocks.map((block) => block!.open).join(''),
+    close: blocks.map((block) => block!.close).reverse().join(''),
+  };
+}
+
+export const sendgridMergeTagDialect: MergeTagDialect = {
+  provider: 'sendgrid',
+  supportsFallbacks: true,
+  format,
+  tokenPattern: /(?<!\{)\{\{\s*(?:([a-z_][\w.]*)|insert\s+([a-z_][\w.]*)\s+"default=([^"]*)")\s*\}\}(?!\})|(\{\{\{\s*unsubscribe\s*\}\}\})/gi,
+  parse,
+  formatCondition,
+};
@@ -172,3 +172,29 @@ export async function removeApiKeyConnection(
   });
   return result.count > 0;
 }
+
+/**
+ * Find any stored connection for a provider-side account id. Used when only
+ * credentials.locationId is in hand (e.g. adapter calls) and provider-level
+ * metadata is needed.
+ */
+export async function findApiKeyConnectionByAccountId(
+  provider: EspProvider,
+  accountId: string,
+): Promise<ApiKeyConnectionRecord | null> {
+  const row = await prisma.espConnection.findFirst({
+    where: { provider, accountId },
+    orderBy: { updatedAt: 'desc' },
+  });
+  if (!row) return null;
+  return {
+    accountKey: row.accountKey,
+    provider: row.provider as EspProvider,
+    apiKey: row.apiKey,
+    accountId: row.accountId,
+    accountName: row.accountName,
+    metadata: row.metadata,
+    installedAt: row.installedAt,
+    updatedAt: row.updatedAt,
+  };
+}
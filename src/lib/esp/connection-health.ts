@@ -0,0 +1,374 @@
+import '@/lib/esp/init';
+
+import { prisma } from '@/lib/prisma';
+import { MANAGEMENT_ROLES, hasUnrestrictedAccountAccess, type UserRole } from '@/lib/roles';
+import { getAdapter } from '@/lib/esp/registry';
+import { listOAuthConnections } from '@/lib/esp/oauth-connections';
+import { listApiKeyConnections } from '@/lib/esp/api-key-connections';
+import { validateEspConnection } from '@/lib/esp/connection-validation';
+import { parseScopes } from '@/lib/esp/scope-utils';
+import { providerDisplayName } from '@/lib/esp/provider-display';
+import { createNotification, type NotificationSeverity } from '@/lib/notifications/service';
+import type { NotificationType } from '@/lib/notifications/types';
+import type { EspProvider } from '@/lib/esp/types';
+
+// ── ESP Connection Health ──
+// A scheduled pass over every stored OAuth / API-key connection: refresh the
+// token, compare granted scopes, and run the adapter's validation call. Each
+// pass is recorded in EspConnectionHealthCheck and problems are raised as
+// notifications to the account rep and the admins who can fix them.
+
+export type ConnectionHealthStatus = 'healthy' | 'degraded' | 'failing';
+
+export type ConnectionHealthIssueType =
+  | 'connection_failed'
+  | 'scopes_missing'
+  | 'token_refresh_failed';
+
+export interface ConnectionHealthIssue {
+  type: ConnectionHealthIssueType;
+  message: string;
+}
+
+export interface ConnectionHealthCheck {
+  id: string;
+  accountKey: string;
+  provider: EspProvider;
+  status: ConnectionHealthStatus;
+  issues: ConnectionHealthIssue[];
+  missingScopes: string[];
+  tokenExpiresAt: string;
+  durationMs: number;
+  checkedAt: string;
+}
+
+export interface ConnectionHealthRunResult {
+  checked: number;
+  healthy: number;
+  degraded: number;
+  failing: number;
+  notificationsCreated: number;
+}
+
+const HISTORY_RETENTION_DAYS = 90;
+
+const ISSUE_NOTIFICATIONS: Record<ConnectionHealthIssueType, {
+  type: NotificationType;
+  severity: NotificationSeverity;
+  title: (accountName: string, providerName: string) => string;
+}> = {
+  connection_failed: {
+    type: 'esp_connection_failed',
+    severity: 'critical',
+    title: (accountName, providerName) => `${providerName} connection failing for ${accountName}`,
+  },
+  token_refresh_failed: {
+    type: 'esp_token_refresh_failed',
+    severity: 'critical',
+    title: (accountName, providerName) => `${providerName} token refresh failed for ${accountName}`,
+  },
+  scopes_missing: {
+    type: 'esp_scopes_missing',
+    severity: 'warning',
+    title: (accountName, providerName) => `${providerName} connection for ${accountName} is missing scopes`,
+  },
+};
+
+type ConnectionHealthRow = NonNullable<Awaited<ReturnType<typeof prisma.espConnectionHealthCheck.findFirst>>>;
+
+function parseJsonArray<T>(raw: string): T[] {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed as T[] : [];
+  } catch {
+    return [];
+  }
+}
+
+function toHealthCheck(row: ConnectionHealthRow): ConnectionHealthCheck {
+  return {
+    id: row.id,
+    accountKey: row.accountKey,
+    provider: row.provider as EspProvider,
+    status: row.status as ConnectionHealthStatus,
+    issues: parseJsonArray<ConnectionHealthIssue>(row.issues),
+    missingScopes: parseJsonArray<string>(row.missingScopes).map(String),
+    tokenExpiresAt: row.tokenExpiresAt ? row.tokenExpiresAt.toISOString() : '',
+    durationMs: row.durationMs,
+    checkedAt: row.checkedAt.toISOString(),
+  };
+}
+
+function todayISO(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+interface ConnectionTarget {
+  accountKey: string;
+  provider: EspProvider;
+  mode: 'oauth' | 'api-key';
+  scopes: string;
+}
+
+async function listConnectionTargets(accountKeys?: string[]): Promise<ConnectionTarget[]> {
+  const [oauthConnections, apiKeyConnections] = await Promise.all([
+    listOAuthConnections({ accountKeys }),
+    listApiKeyConnections({ accountKeys }),
+  ]);
+
+  const targets = new Map<string, ConnectionTarget>();
+  for (const connection of oauthConnections) {
+    targets.set(`${connection.accountKey}:${connection.provider}`, {
+      accountKey: connection.accountKey,
+      provider: connection.provider,
+      mode: 'oauth',
+      scopes: connection.scopes,
+    });
+  }
+  for (const connection of apiKeyConnections) {
+    const key = `${connection.accountKey}:${connection.provider}`;
+    if (targets.has(key)) continue;
+    targets.set(key, {
+      accountKey: connection.accountKey,
+      provider: connection.provider,
+      mode: 'api-key',
+      scopes: '',
+    });
+  }
+  return [...targets.values()];
+}
+
+/**
+ * Check one stored connection. Never throws; every failure becomes an issue
+ * on the returned check.
+ */
+async function checkConnection(target: ConnectionTarget): Promise<{
+  issues: ConnectionHealthIssue[];
+  missingScopes: string[];
+  tokenExpiresAt: Date | null;
+}> {
+  const issues: ConnectionHealthIssue[] = [];
+  let missingScopes: string[] = [];
+  let tokenExpiresAt: Date | null = null;
+
+  let adapter;
+  try {
+    adapter = getAdapter(target.provider);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : `Provider "${target.provider}" is not registered`;
+    return { issues: [{ type: 'connection_failed', message }], missingScopes, tokenExpiresAt };
+  }
+
+  let apiKey: string | undefined;
+  if (target.mode === 'oauth' && adapter.oauth) {
+    // getValidToken refreshes an expiring token, so a null result (or a token
+    // still expired afterwards) means the refresh path is broken.
+    let token: string | null = null;
+    try {
+      token = await adapter.oauth.getValidToken(target.accountKey);
+    } catch (err) {
+      issues.push({
+        type: 'token_refresh_failed',
+        message: err instanceof Error ? err.message : 'Token refresh failed',
+      });
+    }
+
+    const connection = await prisma.espOAuthConnection.findUnique({
+      where: { accountKey_provider: { accountKey: target.accountKey, provider: target.provider } },
+      select: { tokenExpiresAt: true, scopes: true },
+    });
+    tokenExpiresAt = connection?.tokenExpiresAt ?? null;
+    if (issues.length === 0 && (!token || (tokenExpiresAt && tokenExpiresAt.getTime() <= Date.now()))) {
+      issues.push({
+        type: 'token_refresh_failed',
+        message: 'Access token is expired and could not be refreshed. Reconnect the integration.',
+      });
+    }
+
+    // Providers that don't echo granted scopes store an empty list; only
+    // compare when we actually know what was granted.
+    const granted = new Set(parseScopes(connection?.scopes ?? target.scopes));
+    if (granted.size > 0) {
+      missingScopes = adapter.oauth.requiredScopes.filter((scope) => !granted.has(scope));
+      if (missingScopes.length > 0) {
+        issues.push({
+          type: 'scopes_missing',
+          message: `Missing scopes: ${missingScopes.join(', ')}`,
+        });
+      }
+    }
+  } else {
+    try {
+      const credentials = adapter.resolveCredentials
+        ? await adapter.resolveCredentials(target.accountKey)
+        : await adapter.contacts?.resolveCredentials(target.accountKey);
+      apiKey = credentials?.token || undefined;
+    } catch {
+      apiKey = undefined;
+    }
+    if (!apiKey) {
+      issues.push({ type: 'connection_failed', message: 'Stored API key could not be read.' });
+      return { issues, missingScopes, tokenExpiresAt };
+    }
+  }
+
+  if (!issues.some((issue) => issue.type === 'token_refresh_failed')) {
+    const result = await validateEspConnection({
+      provider: target.provider,
+      accountKey: target.accountKey,
+      ...(apiKey ? { apiKey } : {}),
+    });
+    if (!result.ok && result.status !== 501) {
+      issues.push({ type: 'connection_failed', message: result.error });
+    }
+  }
+
+  return { issues, missingScopes, tokenExpiresAt };
+}
+
+function statusForIssues(issues: ConnectionHealthIssue[]): ConnectionHealthStatus {
+  if (issues.some((issue) => issue.type !== 'scopes_missing')) return 'failing';
+  return issues.length > 0 ? 'degraded' : 'healthy';
+}
+
+/** Account rep plus every management user with access to the account. */
+async function resolveRecipients(accountKey: string, accountRepId: string | null): Promise<string[]> {
+  const users = await prisma.user.findMany({
+    where: { role: { in: MANAGEMENT_ROLES } },
+    select: { id: true, role: true, accountKeys: true },
+  });
+  const recipients = new Set<string>();
+  if (accountRepId) recipients.add(accountRepId);
+  for (const user of users) {
+    const keys = parseJsonArray<string>(user.accountKeys);
+    if (hasUnrestrictedAccountAccess(user.role as UserRole, keys) || keys.includes(accountKey)) {
+      recipients.add(user.id);
+    }
+  }
+  return [...recipients];
+}
+
+/**
+ * Check every stored ESP connection (optionally limited to some accounts),
+ * record the result and notify on problems. Notifications are deduped per
+ * account, provider and issue for the day.
+ */
+export async function runConnectionHealthChecks(options: {
+  accountKeys?: string[];
+} = {}): Promise<ConnectionHealthRunResult> {
+  const result: ConnectionHealthRunResult = { checked: 0, healthy: 0, degraded: 0, failing: 0, notificationsCreated: 0 };
+  const targets = await listConnectionTargets(options.accountKeys);
+  if (targets.length === 0) return result;
+
+  const accounts = await prisma.account.findMany({
+    where: { key: { in: [...new Set(targets.map((target) => target.accountKey))] } },
+    select: { key: true, dealer: true, accountRepId: true },
+  });
+  const accountsByKey = new Map(accounts.map((account) => [account.key, account]));
+  const today = todayISO();
+
+  for (const target of targets) {
+    const account = accountsByKey.get(target.accountKey);
+    if (!account) continue;
+
+    const startedAt = Date.now();
+    const check = await checkConnection(target);
+    const status = statusForIssues(check.issues);
+
+    await prisma.espConnectionHealthCheck.create({
+      data: {
+        accountKey: target.accountKey,
+        provider: target.provider,
+        status,
+        issues: JSON.stringify(check.issues),
+        missingScopes: JSON.stringify(check.missingScopes),
+        tokenExpiresAt: check.tokenExpiresAt,
+        durationMs: Date.now() - startedAt,
+      },
+    });
+    result.checked += 1;
+    result[status] += 1;
+    if (check.issues.length === 0) continue;
+
+    const recipients = await resolveRecipients(target.accountKey, account.accountRepId);
+    const link = `/subaccounts/${encodeURIComponent(target.accountKey)}?tab=integration`;
+    for (const issue of check.issues) {
+      const notification = ISSUE_NOTIFICATIONS[issue.type];
+      const dedupeKey = `${target.accountKey}:${target.provider}:${notification.type}:${today}`;
+      for (const userId of recipients) {
+        const created = await createNotification({
+          userId,
+          type: notification.type,
+          severity: notification.severity,
+          title: notification.title(account.dealer, providerDisplayName(target.provider)),
+          body: issue.message,
+          link,
+          meta: { accountKey: target.accountKey, provider: target.provider },
+          dedupeKey,
+          dedupeWindowHours: 20,
+          sendEmailNow: true,
+        });
+        if (created) result.notificationsCreated += 1;
+      }
+    }
+  }
+
+  await prisma.espConnectionHealthCheck.deleteMany({
+    where: { checkedAt: { lt: new Date(Date.now() - HISTORY_RETENTION_DAYS * 86400 * 1000) } },
+  });
+
+  return result;
+}
+
+/**
+ * Most recent check per account + provider: the latest `checkedAt` per pair
+ * is found with a grouped aggregate, then only those rows are loaded.
+ */
+export async function getLatestConnectionHealth(accountKeys?: string[]): Promise<ConnectionHealthCheck[]> {
+  if (Array.isArray(accountKeys) && accountKeys.length === 0) return [];
+  const latest = await prisma.espConnectionHealthCheck.groupBy({
+    by: ['accountKey', 'provider'],
+    where: accountKeys ? { accountKey: { in: accountKeys } } : {},
+    _max: { checkedAt: true },
+  });
+  if (latest.length === 0) return [];
+
+  const rows = await prisma.espConnectionHealthCheck.findMany({
+    where: {
+      OR: latest.map((group) => ({
+        accountKey: group.accountKey,
+        provider: group.provider,
+        checkedAt: group._max.checkedAt ?? undefined,
+      })),
+    },
+    orderBy: { checkedAt: 'desc' },
+  });
+
+  // Two checks can share a timestamp; keep one per pair.
+  const seen = new Set<string>();
+  return rows
+    .filter((row) => {
+      const key = `${row.accountKey}:${row.provider}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(toHealthCheck);
+}
+
+export async function listConnectionHealthHistory(input: {
+  accountKey: string;
+  provider?: EspProvider;
+  limit?: number;
+}): Promise<ConnectionHealthCheck[]> {
+  const limit = Math.max(1, Math.min(200, input.limit ?? 50));
+  const rows = await prisma.espConnectionHealthCheck.findMany({
+    where: {
+      accountKey: input.accountKey,
+      ...(input.provider ? { provider: input.provider } : {}),
+    },
+    orderBy: { checkedAt: 'desc' },
+    take: limit,
+  });
+  return rows.map(toHealthCheck);
+}
@@ -7,6 +7,7 @@ import { listApiKeyConnections } from '@/lib/esp/api-key-connections';
 import { listAccountProviderLinks } from '@/lib/esp/account-provider-links';
 import { listProviderOAuthCredentials } from '@/lib/esp/provider-oauth-credentials';
 import { parseScopes } from '@/lib/esp/scope-utils';
+import { recordAuditEvent, type AuditActor } from '@/lib/services/audit-log';
 
 type ProviderWithAny = EspProvider | 'any';
 
@@ -329,6 +330,7 @@ export async function getEspConnectionsStatus(accountKey: string): Promise<EspCo
 export async function disconnectEspConnection(input: {
   accountKey: string;
   provider: ProviderWithAny;
+  actor?: AuditActor | null;
 }): Promise<DisconnectResult> {
   const accountKey = input.accountKey.trim();
   if (!accountKey) {
@@ -352,6 +354,18 @@ export async function disconnectEspConnection(input: {
     }
   }
 
+  if (removed) {
+    await recordAuditEvent({
+      action: 'esp.disconnect',
+      targetType: 'esp-connection',
+      targetId: `${accountKey}:${provider}`,
+      targetLabel: provider,
+      accountKey,
+      actor: input.actor,
+      metadata: { provider },
+    });
+  }
+
   return {
     success: true,
     provider,
@@ -363,8 +377,10 @@ export async function connectEspConnection(input: {
   accountKey: string;
   provider: EspProvider;
   apiKey?: string;
+  extraCredentials?: Record<string, string>;
+  actor?: AuditActor | null;
 }): Promise<ConnectResult> {
-  const { provider, apiKey } = input;
+  const { provider, apiKey, extraCredentials } = input;
   const accountKey = input.accountKey.trim();
   if (!accountKey) {
     throw new EspConnectionError('accountKey is required', 400);
@@ -374,6 +390,7 @@ export async function connectEspConnection(input: {
     const result = await connectViaAdapter(provider, {
       accountKey,
       apiKey,
+      extraCredentials,
     });
 
     // Keep the account's active provider aligned with the successful connection.
@@ -382,6 +399,16 @@ export async function connectEspConnection(input: {
       data: { espProvider: result.provider },
     });
 
+    await recordAuditEvent({
+      action: 'esp.connect',
+      targetType: 'esp-connection',
+      targetId: `${accountKey}:${result.provider}`,
+      targetLabel: result.accountName || result.provider,
+      accountKey,
+      actor: input.actor,
+      metadata: { provider: result.provider, method: 'api-key', remoteAccountId: result.accountId },
+    });
+
     return {
       success: true,
       provider: result.provider,
@@ -0,0 +1,30 @@
+import { CONTACT_PATCH_FIELDS, type ContactPatch } from './types';
+
+// ── Contact Patch Parsing ──
+// Request bodies for contact write-back are untrusted JSON; only known patch
+// fields with string values are passed through to the adapters.
+
+export function parseContactPatch(value: unknown): ContactPatch {
+  const patch: ContactPatch = {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return patch;
+  const input = value as Record<string, unknown>;
+  for (const field of CONTACT_PATCH_FIELDS) {
+    const raw = input[field];
+    if (typeof raw === 'string') patch[field] = raw.trim();
+  }
+  return patch;
+}
+
+export function parseTagList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  for (const item of value) {
+    if (typeof item !== 'string') continue;
+    const tag = item.trim();
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    tags.push(tag);
+  }
+  return tags;
+}
@@ -0,0 +1,235 @@
+// ── Merge-tag Translation ──
+// Loomi templates use one canonical merge-tag syntax (the GHL-style catalog in
+// esp-variables.json). Each adapter declares a MergeTagDialect; publishing
+// rewrites canonical tokens into the provider's syntax and importing rewrites
+// them back. Account-level values a provider can't express (custom values,
+// dealership details) are filled in from the account at publish time, and
+// anything still unmapped is reported so it never ships as a broken tag.
+// Conditional content blocks are rewritten the same way, through the
+// dialect's `formatCondition`.
+
+import {
+  canonicalizeVisibilityRule,
+  describeVisibilityRule,
+  replaceConditionalBlocks,
+} from '@/lib/content-conditions';
+import { readEspVariables } from '@/lib/esp/variables';
+import type { CanonicalMergeTag, MergeTagDialect } from '@/lib/esp/types';
+
+export interface MergeTagTranslationReport {
+  provider: string;
+  /** Canonical tokens rewritten into provider syntax. */
+  translated: number;
+  /** Variables filled in from the account because the provider has no equivalent. */
+  inlined: string[];
+  /** Variables with a default value the provider syntax can't carry. */
+  droppedFallbacks: string[];
+  /** Variables the provider can't render and the account has no value for. */
+  unmapped: string[];
+  /** Conditional content blocks rewritten into provider syntax. */
+  conditionalBlocks: number;
+  /** Visibility rules the provider can't express; those blocks show to everyone. */
+  unsupportedConditions: string[];
+}
+
+export interface MergeTagTranslation {
+  html: string;
+  report: MergeTagTranslationReport;
+}
+
+/**
+ * `{{name}}` or `{{name | default: "value"}}`. Triple-brace handlebars and
+ * block helpers (`{{#if}}`) are not merge tags and are left alone.
+ */
+const CANONICAL_TOKEN_PATTERN =
+  /(?<!\{)\{\{\s*([a-z_][\w.]*)\s*(?:\|\s*default:\s*(?:"([^"]*)"|'([^']*)')\s*)?\}\}(?!\})/gi;
+
+/** Wraps inlined account values in text so an import can restore the tag. */
+const INLINED_VALUE_PATTERN = /<!--loomi:var ([\w.]+)-->[\s\S]*?<!--\/loomi:var-->/g;
+
+const ACCOUNT_SCOPES = ['location.', 'custom_values.'];
+const LOOMI_SCOPES = ['contact.', ...ACCOUNT_SCOPES];
+
+let catalogVariables: Set<string> | null = null;
+
+function loomiCatalogVariables(): Set<string> {
+  if (catalogVariables) return catalogVariables;
+  const names = new Set<string>();
+  for (const definitions of Object.values(readEspVariables())) {
+    for (const definition of definitions) {
+      names.add(definition.variable.replace(/^\{+|\}+$/g, '').trim());
+    }
+  }
+  catalogVariables = names;
+  return names;
+}
+
+/** Catalog variables plus anything in a Loomi scope (contact, location, custom values). */
+export function isLoomiMergeVariable(variable: string): boolean {
+  return loomiCatalogVariables().has(variable) || LOOMI_SCOPES.some((scope) => variable.startsWith(scope));
+}
+
+function isAccountScoped(variable: string): boolean {
+  return ACCOUNT_SCOPES.some((scope) => variable.startsWith(scope));
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function isInsideTag(content: string, offset: number): boolean {
+  return content.lastIndexOf('<', offset) > content.lastIndexOf('>', offset);
+}
+
+/** Token pattern for dialects that share the canonical `{{name}}` syntax. */
+export function canonicalMergeTagPattern(): RegExp {
+  return new RegExp(CANONICAL_TOKEN_PATTERN.source, CANONICAL_TOKEN_PATTERN.flags);
+}
+
+/** Parse a `canonicalMergeTagPattern()` match. */
+export function parseCanonicalMergeTag(match: RegExpMatchArray): CanonicalMergeTag | null {
+  const variable = match[1];
+  if (!variable || !isLoomiMergeVariable(variable)) return null;
+  return { variable, fallback: match[2] ?? match[3] ?? null };
+}
+
+export function formatCanonicalMergeTag(tag: CanonicalMergeTag): string {
+  if (tag.fallback === null) return `{{${tag.variable}}}`;
+  return `{{${tag.variable} | default: "${tag.fallback.replace(/"/g, '&quot;')}"}}`;
+}
+
+export function emptyMergeTagReport(provider: string): MergeTagTranslationReport {
+  return {
+    provider,
+    translated: 0,
+    inlined: [],
+    droppedFallbacks: [],
+    unmapped: [],
+    conditionalBlocks: 0,
+    unsupportedConditions: [],
+  };
+}
+
+/**
+ * Rewrite canonical tokens into the provider's dialect.
+ *
+ * `accountValues` (keyed `{{variable}}`, as built by buildPreviewVariableMap)
+ * fills account-level variables the provider can't express. In HTML text the
+ * value is wrapped in a marker comment so `translateMergeTagsFromProvider`
+ * can restore the tag; inside attributes and plain text it can't be. Values
+ * are HTML-escaped in HTML content only, and HTML content also has its
+ * conditional blocks rewritten.
+ */
+export function translateMergeTagsForProvider(
+  content: string,
+  dialect: MergeTagDialect,
+  options?: { accountValues?: Record<string, string>; html?: boolean },
+): MergeTagTranslation {
+  const report = emptyMergeTagReport(dialect.provider);
+  if (!content) return { html: content, report };
+
+  const inlined = new Set<string>();
+  const dropped = new Set<string>();
+  const unmapped = new Set<string>();
+  const markInline = options?.html !== false;
+
+  const html = content.replace(
+    CANONICAL_TOKEN_PATTERN,
+    (match, variable: string, doubleQuoted: string | undefined, singleQuoted: string | undefined, offset: number) => {
+      if (!isLoomiMergeVariable(variable)) return match;
+      const fallback = doubleQuoted ?? singleQuoted ?? null;
+
+      const token = dialect.format({ variable, fallback });
+      if (token !== null) {
+        report.translated += 1;
+        if (fallback !== null && !dialect.supportsFallbacks) dropped.add(variable);
+        return token;
+      }
+
+      const value = isAccountScoped(variable) ? options?.accountValues?.[`{{${variable}}}`] || fallback : null;
+      if (!value) {
+        unmapped.add(variable);
+        return match;
+      }
+      inlined.add(variable);
+      // Plain text (subject, preview text) is escaped by whatever renders it.
+      if (!markInline) return value;
+      const escaped = escapeHtml(value);
+      return isInsideTag(content, offset)
+        ? escaped
+        : `<!--loomi:var ${variable}-->${escaped}<!--/loomi:var-->`;
+    },
+  );
+
+  report.inlined = [...inlined].sort();
+  report.droppedFallbacks = [...dropped].sort();
+  report.unmapped = [...unmapped].sort();
+  return {
+    html: markInline ? translateConditionalBlocks(html, dialect, report) : html,
+    report,
+  };
+}
+
+/**
+ * Replace conditional block markers with the provider's conditional tags.
+ * Blocks the provider can't express lose their markers and render for every
+ * recipient; their rules are listed in the report.
+ */
+function translateConditionalBlocks(
+  html: string,
+  dialect: MergeTagDialect,
+  report: MergeTagTranslationReport,
+): string {
+  const unsupported = new Set<string>();
+  const translated = replaceConditionalBlocks(html, ({ rule, content }) => {
+    if (!rule) return content;
+    const group = canonicalizeVisibilityRule(rule);
+    const tags = group && dialect.formatCondition ? dialect.formatCondition(group) : null;
+    if (!tags) {
+      unsupported.add(describeVisibilityRule(rule));
+      return content;
+    }
+    report.conditionalBlocks += 1;
+    return `${tags.open}${content}${tags.close}`;
+  });
+  report.unsupportedConditions = [...unsupported].sort();
+  return translated;
+}
+
+/** Rewrite a provider's merge tags (and inlined account values) back to canonical tokens. */
+export function translateMergeTagsFromProvider(content: string, dialect: MergeTagDialect): string {
+  if (!content) return content;
+  const restored = content.replace(INLINED_VALUE_PATTERN, (_match, variable: string) => `{{${variable}}}`);
+  const flags = dialect.tokenPattern.flags.includes('g') ? dialect.tokenPattern.flags : `${dialect.tokenPattern.flags}g`;
+  const pattern = new RegExp(dialect.tokenPattern.source, flags);
+
+  let output = '';
+  let cursor = 0;
+  for (const match of restored.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    const tag = dialect.parse(match);
+    output += restored.slice(cursor, start) + (tag ? formatCanonicalMergeTag(tag) : match[0]);
+    cursor = start + match[0].length;
+  }
+  return output + restored.slice(cursor);
+}
+
+/** Combine reports for the HTML, subject and preview text of one publish. */
+export function mergeMergeTagReports(reports: MergeTagTranslationReport[]): MergeTagTranslationReport {
+  const provider = reports[0]?.provider ?? '';
+  const union = (key: 'inlined' | 'droppedFallbacks' | 'unmapped' | 'unsupportedConditions') =>
+    [...new Set(reports.flatMap((report) => report[key]))].sort();
+  return {
+    provider,
+    translated: reports.reduce((sum, report) => sum + report.translated, 0),
+    inlined: union('inlined'),
+    droppedFallbacks: union('droppedFallbacks'),
+    unmapped: union('unmapped'),
+    conditionalBlocks: reports.reduce((sum, report) => sum + report.conditionalBlocks, 0),
+    unsupportedConditions: union('unsupportedConditions'),
+  };
+}
@@ -4,6 +4,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getAdapter } from '@/lib/esp/registry';
 import type { EspProvider } from '@/lib/esp/types';
 import * as accountService from '@/lib/services/accounts';
+import { recordAuditEvent, type AuditActor } from '@/lib/services/audit-log';
 import { GHL_AGENCY_ACCOUNT_KEY } from '@/lib/esp/adapters/ghl/oauth';
 
 /**
@@ -102,6 +103,7 @@ function redirectAccountError(
 export async function completeEspOAuthCallback(
   req: NextRequest,
   provider: EspProvider,
+  actor?: AuditActor | null,
 ): Promise<NextResponse> {
   let adapter;
   try {
@@ -227,6 +229,16 @@ export async function completeEspOAuthCallback(
       tokens,
     });
 
+    await recordAuditEvent({
+      action: 'esp.connect',
+      targetType: 'esp-connection',
+      targetId: `${isAgencyFlow ? 'agency' : accountKey}:${provider}`,
+      targetLabel: locationName || provider,
+      accountKey: isAgencyFlow ? null : accountKey,
+      actor,
+      metadata: { provider, method: 'oauth', locationId: locationId || null, agency: isAgencyFlow },
+    });
+
     if (isAgencyFlow) {
       return redirectSettingsConnected(req, provider);
     }
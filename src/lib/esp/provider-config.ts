@@ -31,6 +31,14 @@ export type ProviderPortalLinks = {
   getWorkflowEditUrl: (params: WorkflowEditParams) => string | null;
 };
 
+/** Extra connect-form input sent alongside the API key as `extraCredentials[key]`. */
+export type ProviderCredentialField = {
+  key: string;
+  label: string;
+  placeholder?: string;
+  secret?: boolean;
+};
+
 export type EspProviderConfig = {
   displayName?: string;
   description?: string;
@@ -43,6 +51,7 @@ export type EspProviderConfig = {
   headerClassName?: string;
   connectButtonClassName?: string;
   customValuesSyncDelayMs?: number;
+  extraCredentials?: ProviderCredentialField[];
   portalLinks?: ProviderPortalLinks;
 };
 
@@ -154,6 +163,59 @@ const ESP_PROVIDER_CONFIG: Record<string, EspProviderConfig> = {
       },
     },
   },
+  mailchimp: {
+    displayName: 'Mailchimp',
+    description: 'Audience email marketing with campaigns, automations, and transactional templates.',
+    features: [
+      'Audience syncing & analytics',
+      'Email campaigns & scheduling',
+      'Classic automations',
+      'Custom values as merge tags',
+      'Transactional template management',
+      'File Manager media access',
+      'Real-time engagement webhooks (Transactional)',
+    ],
+    headerClassName: 'bg-[#FFE01B]',
+    connectButtonClassName: '',
+    customValuesSyncDelayMs: 200,
+    extraCredentials: [
+      {
+        key: 'audienceId',
+        label: 'Audience ID',
+        placeholder: 'Required when the account has several audiences',
+      },
+      {
+        key: 'transactionalApiKey',
+        label: 'Transactional API Key',
+        placeholder: 'Optional — enables template management',
+        secret: true,
+      },
+    ],
+    portalLinks: {
+      getCampaignCreateLinks() {
+        return {
+          email: 'https://admin.mailchimp.com/campaigns/',
+          text: null,
+          drip: 'https://admin.mailchimp.com/customer-journey/',
+        };
+      },
+      getCampaignHubUrl() {
+        return 'https://admin.mailchimp.com/campaigns/';
+      },
+      getCampaignEditUrl() {
+        return 'https://admin.mailchimp.com/campaigns/';
+      },
+      getCampaignStatsUrl() {
+        return 'https://admin.mailchimp.com/reports/';
+      },
+      getWorkflowHubUrl() {
+        return 'https://admin.mailchimp.com/customer-journey/';
+      },
+      getWorkflowEditUrl() {
+        return 'https://admin.mailchimp.com/customer-journey/';
+      },
+    },
+  },
   sendgrid: {
     displayName: 'Twilio',
     description: 'Transactional email delivery with real-time engagement tracking.',
@@ -1,6 +1,7 @@
 import {
   getProviderConfig,
   providerDisplayName as providerDisplayNameFromConfig,
+  type ProviderCredentialField,
 } from '@/lib/esp/provider-config';
 
 export type ProviderCardTheme = {
@@ -11,6 +12,8 @@ export type ProviderCardTheme = {
   logoAlt?: string;
   headerClassName?: string;
   connectButtonClassName?: string;
+  /** Connect-form inputs beyond the API key. */
+  extraCredentials: ProviderCredentialField[];
 };
 
 export type ProviderIcon = {
@@ -38,6 +41,7 @@ export function providerCardTheme(provider: string | null | undefined): Provider
     logoAlt: config?.logoAlt || providerDisplayName(provider),
     headerClassName: config?.headerClassName || 'bg-[var(--muted)]',
     connectButtonClassName: config?.connectButtonClassName || 'bg-[var(--primary)] text-white hover:opacity-90',
+    extraCredentials: config?.extraCredentials || [],
   };
 }
 
@@ -0,0 +1,501 @@
+// ── Template Drift ──
+// A published template can be edited directly in the ESP, and the next publish
+// would silently overwrite that edit. Each push records a baseline hash of the
+// provider's copy; reconciliation re-fetches the copies and flags templates
+// whose remote HTML moved away from it. The user then pulls the remote copy
+// into Loomi (as a new version) or force-pushes Loomi's copy over it.
+
+import '@/lib/esp/init';
+
+import { prisma } from '@/lib/prisma';
+import { translateMergeTagsFromProvider } from '@/lib/esp/merge-tags';
+import { getAdapter } from '@/lib/esp/registry';
+import {
+  hashNormalizedTemplateHtml,
+  parsePublishedToMapping,
+  resolveProviderCredentials,
+  type TemplateSyncResultEntry,
+} from '@/lib/esp/template-sync';
+import type { EspEmailTemplate, EspProvider } from '@/lib/esp/types';
+import { hasUnrestrictedAccountAccess } from '@/lib/roles';
+import { recordAuditEvent } from '@/lib/services/audit-log';
+import { hashTemplateHtml, type TemplateReviewViewer } from '@/lib/services/template-reviews';
+
+export type TemplateDriftStatus = 'in_sync' | 'remote_changed' | 'missing' | 'error';
+
+/** What Loomi knows about one provider's copy of a template. */
+export interface ProviderSyncState {
+  remoteId: string;
+  /** sha256 of Loomi's HTML when it was last pushed or pulled. */
+  loomiHash: string;
+  /** Normalized hashes of the copy that was pushed and the copy the provider returned. */
+  pushedHash: string | null;
+  remoteHash: string | null;
+  /** Normalized hash of the copy seen by the last check. */
+  currentRemoteHash: string | null;
+  status: TemplateDriftStatus;
+  syncedAt: string;
+  checkedAt: string | null;
+  error: string | null;
+}
+
+export type TemplateSyncState = Record<string, ProviderSyncState>;
+
+export interface ProviderDriftSummary {
+  provider: string;
+  remoteId: string;
+  status: TemplateDriftStatus;
+  /** Loomi's HTML changed since the last push or pull (a pull would replace those edits). */
+  localChanged: boolean;
+  syncedAt: string | null;
+  checkedAt: string | null;
+  error: string | null;
+}
+
+export interface TemplateDriftSummary {
+  templateId: string;
+  driftDetectedAt: string | null;
+  providers: ProviderDriftSummary[];
+}
+
+export interface TemplateCopy {
+  html: string;
+  subject: string | null;
+  previewText: string | null;
+}
+
+export interface TemplateDriftDiff {
+  templateId: string;
+  provider: string;
+  remoteId: string;
+  status: TemplateDriftStatus;
+  loomi: TemplateCopy;
+  /** The provider's copy with its merge tags translated back to Loomi's. */
+  remote: TemplateCopy | null;
+}
+
+export interface TemplateDriftRunResult {
+  checked: number;
+  drifted: number;
+  failed: number;
+}
+
+export class TemplateDriftError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'TemplateDriftError';
+    this.status = status;
+  }
+}
+
+const DRIFT_TEMPLATE_SELECT = {
+  id: true,
+  accountKey: true,
+  provider: true,
+  remoteId: true,
+  publishedTo: true,
+  name: true,
+  subject: true,
+  previewText: true,
+  html: true,
+  source: true,
+  remoteSyncState: true,
+  driftDetectedAt: true,
+} as const;
+
+type DriftTemplate = {
+  id: string;
+  accountKey: string;
+  provider: string;
+  remoteId: string | null;
+  publishedTo: string | null;
+  name: string;
+  subject: string | null;
+  previewText: string | null;
+  html: string;
+  source: string | null;
+  remoteSyncState: string | null;
+  driftDetectedAt: Date | null;
+};
+
+const TEMPLATE_DRIFT_STATUSES: TemplateDriftStatus[] = ['in_sync', 'remote_changed', 'missing', 'error'];
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+export function parseTemplateSyncState(raw: string | null | undefined): TemplateSyncState {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as Record<string, Record<string, unknown>>;
+    const state: TemplateSyncState = {};
+    for (const [provider, entry] of Object.entries(parsed || {})) {
+      if (!entry || typeof entry.remoteId !== 'string' || typeof entry.loomiHash !== 'string') continue;
+      const status = TEMPLATE_DRIFT_STATUSES.includes(entry.status as TemplateDriftStatus)
+        ? entry.status as TemplateDriftStatus
+        : 'in_sync';
+      state[provider] = {
+        remoteId: entry.remoteId,
+        loomiHash: entry.loomiHash,
+        pushedHash: stringOrNull(entry.pushedHash),
+        remoteHash: stringOrNull(entry.remoteHash),
+        currentRemoteHash: stringOrNull(entry.currentRemoteHash),
+        status,
+        syncedAt: stringOrNull(entry.syncedAt) ?? new Date(0).toISOString(),
+        checkedAt: stringOrNull(entry.checkedAt),
+        error: stringOrNull(entry.error),
+      };
+    }
+    return state;
+  } catch {
+    return {};
+  }
+}
+
+export function serializeTemplateSyncState(state: TemplateSyncState): string | null {
+  return Object.keys(state).length > 0 ? JSON.stringify(state) : null;
+}
+
+/** Keep the first detection time while any copy is still drifted. */
+function resolveDriftDetectedAt(state: TemplateSyncState, previous: Date | null): Date | null {
+  const drifted = Object.values(state).some((entry) => entry.status === 'remote_changed');
+  if (!drifted) return null;
+  return previous ?? new Date();
+}
+
+function summarize(template: DriftTemplate, state: TemplateSyncState, driftDetectedAt: Date | null): TemplateDriftSummary {
+  const loomiHash = hashTemplateHtml(template.html);
+  return {
+    templateId: template.id,
+    driftDetectedAt: driftDetectedAt?.toISOString() ?? null,
+    providers: Object.entries(state).map(([provider, entry]) => ({
+      provider,
+      remoteId: entry.remoteId,
+      status: entry.status,
+      localChanged: entry.loomiHash !== loomiHash,
+      syncedAt: entry.syncedAt,
+      checkedAt: entry.checkedAt,
+      error: entry.error,
+    })),
+  };
+}
+
+/** Load a template; with a viewer, only if they can access its account. */
+async function loadDriftTemplate(templateId: string, viewer?: TemplateReviewViewer): Promise<DriftTemplate> {
+  const template = await prisma.espTemplate.findUnique({ where: { id: templateId }, select: DRIFT_TEMPLATE_SELECT });
+  if (!template) throw new TemplateDriftError('Template not found', 404);
+  if (
+    viewer
+    && !hasUnrestrictedAccountAccess(viewer.role, viewer.accountKeys)
+    && !viewer.accountKeys.includes(template.accountKey)
+  ) {
+    throw new TemplateDriftError('Access denied', 403);
+  }
+  return template;
+}
+
+function isRemoteUnchanged(entry: ProviderSyncState, currentHash: string): boolean {
+  return currentHash === entry.remoteHash || currentHash === entry.pushedHash;
+}
+
+/** Fetch one provider's copy; null when the provider no longer has it. */
+async function fetchRemoteCopy(
+  accountKey: string,
+  provider: string,
+  remoteId: string,
+): Promise<EspEmailTemplate | null> {
+  const adapter = getAdapter(provider as EspProvider);
+  if (!adapter.templates) throw new Error(`${provider} does not support templates`);
+  const credentials = await resolveProviderCredentials(accountKey, provider as EspProvider);
+  if (!credentials) throw new Error(`${provider} is not connected for this account`);
+  return adapter.templates.fetchTemplateById(credentials.token, credentials.locationId, remoteId);
+}
+
+function toCanonicalCopy(provider: string, remote: EspEmailTemplate): TemplateCopy {
+  const dialect = getAdapter(provider as EspProvider).mergeTags;
+  const toCanonical = (content: string) => (dialect ? translateMergeTagsFromProvider(content, dialect) : content);
+  return {
+    html: toCanonical(remote.html || ''),
+    subject: remote.subject ? toCanonical(remote.subject) : null,
+    previewText: remote.previewText ? toCanonical(remote.previewText) : null,
+  };
+}
+
+/**
+ * Call after a push. Successful providers get a fresh baseline: Loomi's HTML
+ * and the copy each provider now holds count as in sync.
+ */
+export async function recordTemplateSyncBaselines(
+  templateId: string,
+  html: string,
+  results: Record<string, TemplateSyncResultEntry>,
+): Promise<void> {
+  const template = await prisma.espTemplate.findUnique({
+    where: { id: templateId },
+    select: { remoteSyncState: true, driftDetectedAt: true },
+  });
+  if (!template) return;
+
+  const state = parseTemplateSyncState(template.remoteSyncState);
+  const now = new Date().toISOString();
+  let changed = false;
+  for (const [provider, result] of Object.entries(results)) {
+    if (!result.success || !result.remoteId) continue;
+    state[provider] = {
+      remoteId: result.remoteId,
+      loomiHash: hashTemplateHtml(html),
+      pushedHash: result.pushedHtmlHash ?? null,
+      remoteHash: result.remoteHtmlHash ?? null,
+      currentRemoteHash: result.remoteHtmlHash ?? null,
+      status: 'in_sync',
+      syncedAt: now,
+      checkedAt: now,
+      error: null,
+    };
+    changed = true;
+  }
+  if (!changed) return;
+
+  await prisma.espTemplate.update({
+    where: { id: templateId },
+    data: {
+      remoteSyncState: serializeTemplateSyncState(state),
+      driftDetectedAt: resolveDriftDetectedAt(state, template.driftDetectedAt),
+    },
+  });
+}
+
+export async function getTemplateDrift(
+  templateId: string,
+  viewer: TemplateReviewViewer,
+): Promise<TemplateDriftSummary> {
+  const template = await loadDriftTemplate(templateId, viewer);
+  return summarize(template, parseTemplateSyncState(template.remoteSyncState), template.driftDetectedAt);
+}
+
+/**
+ * Re-fetch each published copy (or just `providers`) and compare it with its
+ * baseline. Copies published before baselines existed adopt their current
+ * remote HTML as the baseline.
+ */
+export async function checkTemplateDrift(
+  templateId: string,
+  options: { providers?: string[]; viewer?: TemplateReviewViewer } = {},
+): Promise<TemplateDriftSummary> {
+  const template = await loadDriftTemplate(templateId, options.viewer);
+  const publishedTo = parsePublishedToMapping(template);
+  const state = parseTemplateSyncState(template.remoteSyncState);
+  const now = new Date().toISOString();
+
+  for (const [provider, remoteId] of Object.entries(publishedTo)) {
+    if (options.providers && !options.providers.includes(provider)) continue;
+    const entry: ProviderSyncState = state[provider]?.remoteId === remoteId
+      ? state[provider]
+      : {
+        remoteId,
+        loomiHash: hashTemplateHtml(template.html),
+        pushedHash: null,
+        remoteHash: null,
+        currentRemoteHash: null,
+        status: 'in_sync',
+        syncedAt: now,
+        checkedAt: null,
+        error: null,
+      };
+
+    try {
+      const remote = await fetchRemoteCopy(template.accountKey, provider, remoteId);
+      if (!remote) {
+        state[provider] = { ...entry, status: 'missing', checkedAt: now, error: null };
+        continue;
+      }
+      const currentHash = hashNormalizedTemplateHtml(remote.html || '');
+      const baselined = entry.remoteHash ? entry : { ...entry, remoteHash: currentHash };
+      state[provider] = {
+        ...baselined,
+        currentRemoteHash: currentHash,
+        status: isRemoteUnchanged(baselined, currentHash) ? 'in_sync' : 'remote_changed',
+        checkedAt: now,
+        error: null,
+      };
+    } catch (error) {
+      // Keep the last known status; a provider outage isn't drift.
+      state[provider] = {
+        ...entry,
+        status: entry.status === 'remote_changed' ? 'remote_changed' : 'error',
+        checkedAt: now,
+        error: error instanceof Error ? error.message : `Failed to fetch ${provider} template`,
+      };
+    }
+  }
+
+  const driftDetectedAt = resolveDriftDetectedAt(state, template.driftDetectedAt);
+  await prisma.espTemplate.update({
+    where: { id: templateId },
+    data: { remoteSyncState: serializeTemplateSyncState(state), driftDetectedAt },
+  });
+  return summarize(template, state, driftDetectedAt);
+}
+
+/** Loomi's copy next to the provider's current copy, in Loomi merge tags. */
+export async function getTemplateDriftDiff(
+  templateId: string,
+  provider: string,
+  viewer: TemplateReviewViewer,
+): Promise<TemplateDriftDiff> {
+  const template = await loadDriftTemplate(templateId, viewer);
+  const remoteId = parsePublishedToMapping(template)[provider];
+  if (!remoteId) throw new TemplateDriftError(`Template is not published to ${provider}`, 404);
+
+  let remote: EspEmailTemplate | null;
+  try {
+    remote = await fetchRemoteCopy(template.accountKey, provider, remoteId);
+  } catch (error) {
+    throw new TemplateDriftError(error instanceof Error ? error.message : `Failed to fetch ${provider} template`, 502);
+  }
+
+  const state = parseTemplateSyncState(template.remoteSyncState)[provider];
+  const status: TemplateDriftStatus = !remote
+    ? 'missing'
+    : state && !isRemoteUnchanged(state, hashNormalizedTemplateHtml(remote.html || ''))
+      ? 'remote_changed'
+      : 'in_sync';
+
+  return {
+    templateId: template.id,
+    provider,
+    remoteId,
+    status,
+    loomi: { html: template.html, subject: template.subject, previewText: template.previewText },
+    remote: remote ? toCanonicalCopy(provider, remote) : null,
+  };
+}
+
+/**
+ * Replace Loomi's copy with the provider's. Both copies are kept as versions,
+ * and the pulled HTML becomes a code template — the remote edit can't be
+ * mapped back onto visual-editor components.
+ */
+export async function pullRemoteTemplate(
+  templateId: string,
+  provider: string,
+  viewer: TemplateReviewViewer,
+): Promise<TemplateDriftSummary> {
+  const template = await loadDriftTemplate(templateId, viewer);
+  const remoteId = parsePublishedToMapping(template)[provider];
+  if (!remoteId) throw new TemplateDriftError(`Template is not published to ${provider}`, 404);
+
+  let remote: EspEmailTemplate | null;
+  try {
+    remote = await fetchRemoteCopy(template.accountKey, provider, remoteId);
+  } catch (error) {
+    throw new TemplateDriftError(error instanceof Error ? error.message : `Failed to fetch ${provider} template`, 502);
+  }
+  if (!remote) throw new TemplateDriftError(`The ${provider} copy no longer exists`, 404);
+  if (!remote.html?.trim()) throw new TemplateDriftError(`The ${provider} copy has no HTML to pull`, 422);
+
+  const pulled = toCanonicalCopy(provider, remote);
+  const subject = pulled.subject ?? template.subject;
+  const previewText = pulled.previewText ?? template.previewText;
+  const currentHash = hashNormalizedTemplateHtml(remote.html);
+  const now = new Date().toISOString();
+
+  const state = parseTemplateSyncState(template.remoteSyncState);
+  const previous = state[provider];
+  state[provider] = {
+    remoteId,
+    loomiHash: hashTemplateHtml(pulled.html),
+    pushedHash: previous?.pushedHash ?? null,
+    remoteHash: currentHash,
+    currentRemoteHash: currentHash,
+    status: 'in_sync',
+    syncedAt: now,
+    checkedAt: now,
+    error: null,
+  };
+  const driftDetectedAt = resolveDriftDetectedAt(state, template.driftDetectedAt);
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await tx.espTemplateVersion.create({
+      data: {
+        templateId,
+        html: template.html,
+        markup: template.source,
+        subject: template.subject,
+        previewText: template.previewText,
+        origin: 'pre-pull',
+        createdByUserId: viewer.userId,
+      },
+    });
+    await tx.espTemplateVersion.create({
+      data: {
+        templateId,
+        html: pulled.html,
+        subject,
+        previewText,
+        origin: 'remote-pull',
+        provider,
+        remoteId,
+        createdByUserId: viewer.userId,
+      },
+    });
+    return tx.espTemplate.update({
+      where: { id: templateId },
+      data: {
+        html: pulled.html,
+        subject,
+        previewText,
+        source: null,
+        editorType: 'code',
+        remoteSyncState: serializeTemplateSyncState(state),
+        driftDetectedAt,
+      },
+      select: DRIFT_TEMPLATE_SELECT,
+    });
+  });
+
+  await recordAuditEvent({
+    action: 'template.remote.pull',
+    targetType: 'template',
+    targetId: template.id,
+    targetLabel: template.name,
+    accountKey: template.accountKey,
+    actor: viewer.actor,
+    metadata: { provider, remoteId, replacedVisualSource: Boolean(template.source) },
+  });
+
+  return summarize(updated, state, driftDetectedAt);
+}
+
+/** Scheduled reconciliation: re-check every published template's remote copies. */
+export async function reconcileTemplateDrift(options: {
+  accountKeys?: string[];
+  limit?: number;
+} = {}): Promise<TemplateDriftRunResult> {
+  const templates = await prisma.espTemplate.findMany({
+    where: {
+      publishedTo: { not: null },
+      status: { not: 'deleted-local' },
+      ...(options.accountKeys?.length ? { accountKey: { in: options.accountKeys } } : {}),
+    },
+    select: { id: true },
+    orderBy: { lastSyncedAt: 'desc' },
+    ...(options.limit ? { take: options.limit } : {}),
+  });
+
+  const result: TemplateDriftRunResult = { checked: 0, drifted: 0, failed: 0 };
+  for (const { id } of templates) {
+    try {
+      const summary = await checkTemplateDrift(id);
+      result.checked += 1;
+      if (summary.providers.some((provider) => provider.status === 'remote_changed')) result.drifted += 1;
+      if (summary.providers.some((provider) => provider.status === 'error')) result.failed += 1;
+    } catch (error) {
+      result.failed += 1;
+      console.error(`[template-drift] Failed to check template ${id}:`, error);
+    }
+  }
+  return result;
+}
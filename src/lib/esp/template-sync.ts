@@ -1,13 +1,25 @@
 import '@/lib/esp/init';
 
-import { getEspConnectionsStatus } from '@/lib/esp/connections';
+import crypto from 'crypto';
+import {
+  mergeMergeTagReports,
+  translateMergeTagsForProvider,
+  type MergeTagTranslationReport,
+} from '@/lib/esp/merge-tags';
 import { getAdapter } from '@/lib/esp/registry';
-import type { EspCredentials, EspProvider } from '@/lib/esp/types';
+import type { EspCredentials, EspProvider, MergeTagDialect } from '@/lib/esp/types';
+import { buildPreviewVariableMap } from '@/lib/preview-variables';
+import { loadAccountMergeData } from '@/lib/services/email-personalization';
 
 export type TemplateSyncResultEntry = {
   success: boolean;
   remoteId?: string;
   error?: string;
+  /** How Loomi merge tags were rewritten for this provider. */
+  mergeTags?: MergeTagTranslationReport;
+  /** Normalized hashes of the HTML pushed and of the copy the provider returned — the drift baseline. */
+  pushedHtmlHash?: string;
+  remoteHtmlHash?: string;
 };
 
 export type TemplateSyncResult = {
@@ -79,7 +91,7 @@ function resolvePrimaryRemoteId(
     : null;
 }
 
-async function resolveProviderCredentials(
+export async function resolveProviderCredentials(
   accountKey: string,
   provider: EspProvider,
 ): Promise<EspCredentials | null> {
@@ -93,39 +105,76 @@ async function resolveProviderCredentials(
   return null;
 }
 
-export async function resolveTemplateSyncProviders(input: {
-  accountKey: string;
-  preferredProviders?: Array<string | null | undefined>;
-  publishedTo?: string | null;
-  remoteId?: string | null;
-  primaryProvider?: string | null;
-}): Promise<EspProvider[]> {
-  const preferredProviders = Array.from(new Set(
-    (input.preferredProviders || [])
-      .map((provider) => normalizeProvider(provider))
-      .filter((provider): provider is EspProvider => Boolean(provider)),
-  ));
-  if (preferredProviders.length > 0) return preferredProviders;
+/**
+ * Hash HTML after collapsing formatting ESPs rewrite on save (comments,
+ * whitespace between tags), so only real edits change the hash.
+ */
+export function hashNormalizedTemplateHtml(html: string): string {
+  const normalized = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/>\s+</g, '><')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
 
-  const existingPublishedProviders = Object.keys(parsePublishedToMapping({
-    publishedTo: input.publishedTo,
-    remoteId: input.remoteId,
-    provider: input.primaryProvider,
-  }))
-    .map((provider) => normalizeProvider(provider))
-    .filter((provider): provider is EspProvider => Boolean(provider));
-  if (existingPublishedProviders.length > 0) {
-    return Array.from(new Set(existingPublishedProviders));
+// ── Merge tags ──
+
+type TemplateContent = { html: string; subject?: string | null; previewText?: string | null };
+
+function mergeTagDialectFor(provider: EspProvider): MergeTagDialect | null {
+  try {
+    return getAdapter(provider).mergeTags ?? null;
+  } catch {
+    return null;
   }
+}
 
-  const status = await getEspConnectionsStatus(input.accountKey);
-  return status.connectedProviders.filter((provider) => {
-    try {
-      return Boolean(getAdapter(provider).templates);
-    } catch {
-      return false;
-    }
-  });
+/** Account-level values (dealership details, custom values) for tags a provider can't express. */
+async function loadAccountMergeTagValues(accountKey: string): Promise<Record<string, string>> {
+  const accounts = await loadAccountMergeData([accountKey]);
+  return buildPreviewVariableMap(accounts.get(accountKey), null, { sampleDefaults: false });
+}
+
+function translateTemplateContent(
+  content: TemplateContent,
+  dialect: MergeTagDialect,
+  accountValues: Record<string, string>,
+): { content: Required<TemplateContent>; report: MergeTagTranslationReport } {
+  const html = translateMergeTagsForProvider(content.html, dialect, { accountValues });
+  const subject = translateMergeTagsForProvider(content.subject || '', dialect, { accountValues, html: false });
+  const previewText = translateMergeTagsForProvider(content.previewText || '', dialect, { accountValues, html: false });
+  return {
+    content: {
+      html: html.html,
+      subject: content.subject == null ? null : subject.html,
+      previewText: content.previewText == null ? null : previewText.html,
+    },
+    report: mergeMergeTagReports([html.report, subject.report, previewText.report]),
+  };
+}
+
+/**
+ * Dry-run the merge-tag translation for each provider, so tags a provider
+ * can't render are reported before anything is published.
+ */
+export async function checkTemplateMergeTags(input: TemplateContent & {
+  accountKey: string;
+  providers: string[];
+}): Promise<Record<string, MergeTagTranslationReport>> {
+  const dialects = input.providers
+    .map((provider) => normalizeProvider(provider))
+    .filter((provider): provider is EspProvider => Boolean(provider))
+    .map((provider) => mergeTagDialectFor(provider))
+    .filter((dialect): dialect is MergeTagDialect => Boolean(dialect));
+  if (dialects.length === 0) return {};
+
+  const accountValues = await loadAccountMergeTagValues(input.accountKey);
+  const reports: Record<string, MergeTagTranslationReport> = {};
+  for (const dialect of dialects) {
+    reports[dialect.provider] = translateTemplateContent(input, dialect, accountValues).report;
+  }
+  return reports;
 }
 
 export async function syncTemplateToProviders(input: {
@@ -173,6 +222,8 @@ export async function syncTemplateToProviders(input: {
     };
   }
 
+  let accountValues: Record<string, string> | null = null;
+
   for (const provider of providers) {
     try {
       const adapter = getAdapter(provider);
@@ -193,22 +244,34 @@ export async function syncTemplateToProviders(input: {
         continue;
       }
 
+      let content: TemplateContent = { html: trimmedHtml, subject: input.subject, previewText: input.previewText };
+      let mergeTags: MergeTagTranslationReport | undefined;
+      if (adapter.mergeTags) {
+        accountValues ??= await loadAccountMergeTagValues(input.accountKey);
+        const translated = translateTemplateContent(content, adapter.mergeTags, accountValues);
+        content = translated.content;
+        mergeTags = translated.report;
+      }
+
       const existingRemoteId = publishedTo[provider];
       if (existingRemoteId) {
-        await adapter.templates.updateTemplate(
+        const updated = await adapter.templates.updateTemplate(
           credentials.token,
           credentials.locationId,
           existingRemoteId,
           {
             name: input.name,
-            subject: input.subject ?? undefined,
-            previewText: input.previewText ?? undefined,
-            html: trimmedHtml,
+            subject: content.subject ?? undefined,
+            previewText: content.previewText ?? undefined,
+            html: content.html,
           },
         );
         results[provider] = {
           success: true,
           remoteId: existingRemoteId,
+          ...(mergeTags ? { mergeTags } : {}),
+          pushedHtmlHash: hashNormalizedTemplateHtml(content.html),
+          remoteHtmlHash: hashNormalizedTemplateHtml(updated.html || content.html),
         };
         continue;
       }
@@ -218,9 +281,9 @@ export async function syncTemplateToProviders(input: {
         credentials.locationId,
         {
           name: input.name,
-          subject: input.subject ?? undefined,
-          previewText: input.previewText ?? undefined,
-          html: trimmedHtml,
+          subject: content.subject ?? undefined,
+          previewText: content.previewText ?? undefined,
+          html: content.html,
           editorType: input.editorType ?? undefined,
         },
       );
@@ -228,6 +291,9 @@ export async function syncTemplateToProviders(input: {
       results[provider] = {
         success: true,
         remoteId: created.id,
+        ...(mergeTags ? { mergeTags } : {}),
+        pushedHtmlHash: hashNormalizedTemplateHtml(content.html),
+        remoteHtmlHash: hashNormalizedTemplateHtml(created.html || content.html),
       };
     } catch (error) {
       results[provider] = {
@@ -1,3 +1,4 @@
+import type { CanonicalConditionGroup } from '@/lib/content-conditions';
 import type { ProviderWebhookFamilyMap } from '@/lib/esp/webhooks/types';
 
 // ── ESP Provider Identifiers ──
@@ -97,6 +98,34 @@ export interface NormalizedContact {
   lastMessageDate: string;
 }
 
+/** Fields a contact write may set. Omitted fields are left unchanged; tags go through add/removeTags. */
+export const CONTACT_PATCH_FIELDS = [
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'address1',
+  'city',
+  'state',
+  'postalCode',
+  'country',
+  'source',
+  'vehicleYear',
+  'vehicleMake',
+  'vehicleModel',
+  'vehicleVin',
+  'vehicleMileage',
+  'lastServiceDate',
+  'nextServiceDate',
+  'leaseEndDate',
+  'warrantyEndDate',
+  'purchaseDate',
+] as const;
+
+export type ContactPatchField = typeof CONTACT_PATCH_FIELDS[number];
+
+export type ContactPatch = Partial<Pick<NormalizedContact, ContactPatchField>>;
+
 export interface ContactsAdapter {
   readonly provider: EspProvider;
   resolveCredentials(accountKey: string): Promise<EspCredentials | null>;
@@ -111,6 +140,35 @@ export interface ContactsAdapter {
   }): Promise<{ contacts: Record<string, unknown>[]; total: number }>;
   getCachedContactCount(accountKey: string): number | null;
   setCachedContactCount(accountKey: string, total: number): void;
+  // Write-back. Optional: providers without contact writes omit these.
+  createContact?(params: {
+    token: string;
+    locationId: string;
+    contact: ContactPatch & { tags?: string[] };
+  }): Promise<NormalizedContact>;
+  updateContact?(params: {
+    token: string;
+    locationId: string;
+    contactId: string;
+    patch: ContactPatch;
+  }): Promise<NormalizedContact>;
+  addTags?(params: {
+    token: string;
+    locationId: string;
+    contactId: string;
+    tags: string[];
+  }): Promise<void>;
+  removeTags?(params: {
+    token: string;
+    locationId: string;
+    contactId: string;
+    tags: string[];
+  }): Promise<void>;
+  deleteContact?(params: {
+    token: string;
+    locationId: string;
+    contactId: string;
+  }): Promise<void>;
 }
 
 // ── Campaigns ──
@@ -339,6 +397,41 @@ export interface TemplatesAdapter {
   deleteTemplate(token: string, locationId: string, templateId: string): Promise<void>;
 }
 
+// ── Merge-tag Dialects ──
+
+/** A Loomi merge tag, e.g. `contact.first_name` with an optional default value. */
+export interface CanonicalMergeTag {
+  variable: string;
+  fallback: string | null;
+}
+
+/**
+ * How a provider spells Loomi's canonical merge tags (`{{contact.first_name}}`,
+ * `{{contact.first_name | default: "there"}}`). Publishing rewrites canonical
+ * tokens with `format`; importing rewrites the provider's tokens back with `parse`.
+ */
+export interface MergeTagDialect {
+  readonly provider: EspProvider;
+  /** Whether the provider syntax can carry a default value. */
+  readonly supportsFallbacks: boolean;
+  /** Provider token for a canonical tag, or null when the provider has no equivalent. */
+  format(tag: CanonicalMergeTag): string | null;
+  /** Global pattern matching the provider's own merge tags. */
+  readonly tokenPattern: RegExp;
+  /** Canonical tag for a `tokenPattern` match, or null to leave the token as is. */
+  parse(match: RegExpMatchArray): CanonicalMergeTag | null;
+  /**
+   * Opening and closing tags for a conditional content block, or null when
+   * the provider can't express the condition.
+   */
+  formatCondition?(group: CanonicalConditionGroup): ConditionalBlockTags | null;
+}
+
+export interface ConditionalBlockTags {
+  open: string;
+  close: string;
+}
+
 // ── Contact Detail + Messaging Extensions ──
 
 export interface EspContactCapabilities {
@@ -486,6 +579,8 @@ export interface AccountDetailsSyncAdapter {
 export interface EspConnectInput {
   accountKey: string;
   apiKey?: string;
+  /** Provider-specific connect fields (see EspProviderConfig.extraCredentials). */
+  extraCredentials?: Record<string, string>;
 }
 
 export interface EspConnectResult {
@@ -664,6 +759,7 @@ export interface EspAdapter {
   readonly webhook?: WebhookAdapter;
   readonly customValues?: CustomValuesAdapter;
   readonly templates?: TemplatesAdapter;
+  readonly mergeTags?: MergeTagDialect;
   readonly media?: MediaAdapter;
 }
 
@@ -1,7 +1,15 @@
 // ── Email Stats Store ──
-// Placeholder: CampaignEmailStats model was removed. This store is a no-op
-// until a replacement persistence layer is added. Klaviyo and SendGrid webhook
-// handlers still call this function, so it must remain to keep them compilable.
+// Persists webhook-delivered email events (delivered/open/click/bounce/spam/
+// unsubscribe) as raw EmailEvent rows and rolls them up into per-campaign
+// CampaignEmailStats counters. Ingestion is idempotent on the provider event
+// id so webhook retries never double count, and opens/clicks count once per
+// recipient email (raw totals are kept alongside). Hard bounces, complaints
+// and unsubscribes also feed the Loomi suppression list.
+
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import type { EspCampaign, EspCampaignAnalytics } from '@/lib/esp/types';
+import { suppressEmail, type SuppressionReason } from '@/lib/services/email-suppression';
 
 export type EmailStatsColumn =
   | 'deliveredCount'
@@ -11,13 +19,419 @@ export type EmailStatsColumn =
   | 'complainedCount'
   | 'unsubscribedCount';
 
-export async function incrementEmailStatsCounter(_params: {
+export type EmailEventType =
+  | 'delivered'
+  | 'opened'
+  | 'clicked'
+  | 'bounced'
+  | 'complained'
+  | 'unsubscribed';
+
+/** Columns counted once per recipient; every event also bumps the raw column. */
+const UNIQUE_COLUMNS: Partial<Record<EmailStatsColumn, 'openEventCount' | 'clickEventCount'>> = {
+  openedCount: 'openEventCount',
+  clickedCount: 'clickEventCount',
+};
+
+const COLUMN_EVENT_TYPES: Record<EmailStatsColumn, EmailEventType> = {
+  deliveredCount: 'delivered',
+  openedCount: 'opened',
+  clickedCount: 'clicked',
+  bouncedCount: 'bounced',
+  complainedCount: 'complained',
+  unsubscribedCount: 'unsubscribed',
+};
+
+export interface EmailStatsEventInput {
   provider: string;
+  /** Provider-side account identifier carried by the event (matches credentials.locationId). */
   accountId: string;
   campaignId: string;
   column: EmailStatsColumn;
   eventTime: Date;
-}): Promise<void> {
-  // No-op: CampaignEmailStats model removed. Webhook events are received
-  // but not persisted until a replacement store is implemented.
+  email?: string | null;
+  /** Raw provider event name, kept for debugging mapping issues. */
+  providerEvent?: string | null;
+  /** Provider-assigned event id. A stable hash of the event is used when absent. */
+  providerEventId?: string | null;
+  providerMessageId?: string | null;
+  /** Loomi-tracked events only: the EmailCampaignRecipient. */
+  recipientId?: string | null;
+  /** Click events: the clicked link, when the provider reports it. */
+  url?: string | null;
+  userAgent?: string | null;
+  /** Set by the handler when the event should suppress the address (e.g. hard bounce, not soft). */
+  suppressionReason?: SuppressionReason | null;
+}
+
+export interface CampaignEmailStatsSnapshot {
+  provider: string;
+  accountId: string;
+  campaignId: string;
+  deliveredCount: number;
+  /** Unique recipients who opened. */
+  openedCount: number;
+  /** Unique recipients who clicked. */
+  clickedCount: number;
+  openEventCount: number;
+  clickEventCount: number;
+  bouncedCount: number;
+  complainedCount: number;
+  unsubscribedCount: number;
+  firstDeliveredAt: string;
+  lastEventAt: string;
+}
+
+export function emailEventTypeForColumn(column: EmailStatsColumn): EmailEventType {
+  return COLUMN_EVENT_TYPES[column];
+}
+
+function normalizeEmail(value: string | null | undefined): string | null {
+  const email = (value || '').trim().toLowerCase();
+  return email || null;
+}
+
+function deriveProviderEventId(input: EmailStatsEventInput): string {
+  const fingerprint = [
+    input.provider,
+    input.accountId,
+    input.campaignId,
+    normalizeEmail(input.email) || '',
+    input.providerEvent || input.column,
+    input.eventTime.toISOString(),
+    input.providerMessageId || '',
+  ].join('|');
+  return `derived:${crypto.createHash('sha256').update(fingerprint).digest('hex')}`;
+}
+
+function isDuplicateEventError(err: unknown): boolean {
+  const error = err as { code?: unknown; meta?: { target?: unknown } } | null;
+  if (!error || error.code !== 'P2002') return false;
+  const target = error.meta?.target;
+  if (Array.isArray(target)) return target.map(String).includes('providerEventId');
+  return typeof target === 'string' ? target.includes('providerEventId') : true;
+}
+
+// ── Account key resolution ──
+
+const accountKeyCache = new Map<string, { accountKey: string | null; ts: number }>();
+const ACCOUNT_KEY_CACHE_TTL = 10 * 60 * 1000;
+
+async function resolveAccountKey(provider: string, accountId: string): Promise<string | null> {
+  const cacheKey = `${provider}::${accountId}`;
+  const cached = accountKeyCache.get(cacheKey);
+  if (cached && Date.now() - cached.ts < ACCOUNT_KEY_CACHE_TTL) return cached.accountKey;
+
+  const [apiKeyConnection, oauthConnection, account] = await Promise.all([
+    prisma.espConnection.findFirst({
+      where: { provider, accountId },
+      select: { accountKey: true },
+      orderBy: { updatedAt: 'desc' },
+    }),
+    prisma.espOAuthConnection.findFirst({
+      where: { provider, locationId: accountId },
+      select: { accountKey: true },
+      orderBy: { updatedAt: 'desc' },
+    }),
+    prisma.account.findUnique({
+      where: { key: accountId },
+      select: { key: true },
+    }),
+  ]);
+
+  const accountKey = apiKeyConnection?.accountKey
+    || oauthConnection?.accountKey
+    || account?.key
+    || null;
+  accountKeyCache.set(cacheKey, { accountKey, ts: Date.now() });
+  return accountKey;
+}
+
+// ── Ingestion ──
+
+/**
+ * Record one email event and bump the matching per-campaign counter.
+ * Opens and clicks bump their raw column every time but their unique column
+ * only on the recipient's first open/click of the campaign; events without an
+ * email can't be attributed and count as raw only.
+ * Returns false when the event was already ingested (webhook retry).
+ */
+export async function incrementEmailStatsCounter(params: EmailStatsEventInput): Promise<boolean> {
+  const providerEventId = (params.providerEventId || '').trim() || deriveProviderEventId(params);
+  const accountKey = await resolveAccountKey(params.provider, params.accountId);
+  const isDelivery = params.column === 'deliveredCount';
+  const email = normalizeEmail(params.email);
+  const rawColumn = UNIQUE_COLUMNS[params.column];
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      await tx.emailEvent.create({
+        data: {
+          provider: params.provider,
+          accountId: params.accountId,
+          accountKey,
+          campaignId: params.campaignId,
+          email,
+          eventType: emailEventTypeForColumn(params.column),
+          providerEvent: params.providerEvent || null,
+          providerEventId,
+          providerMessageId: params.providerMessageId || null,
+          recipientId: params.recipientId || null,
+          url: params.url || null,
+          userAgent: params.userAgent ? params.userAgent.slice(0, 512) : null,
+          occurredAt: params.eventTime,
+        },
+      });
+
+      const identity = {
+        provider: params.provider,
+        accountId: params.accountId,
+        campaignId: params.campaignId,
+      };
+
+      let countColumn = true;
+      if (rawColumn) {
+        const marker = email
+          ? await tx.emailEngagementMarker.createMany({
+            data: [{ ...identity, email, eventType: emailEventTypeForColumn(params.column) }],
+            skipDuplicates: true,
+          })
+          : { count: 0 };
+        countColumn = marker.count === 1;
+      }
+      const increments: Partial<Record<EmailStatsColumn | 'openEventCount' | 'clickEventCount', number>> = {};
+      if (countColumn) increments[params.column] = 1;
+      if (rawColumn) increments[rawColumn] = 1;
+
+      await tx.campaignEmailStats.upsert({
+        where: { provider_accountId_campaignId: identity },
+        create: {
+          ...identity,
+          ...increments,
+          firstDeliveredAt: isDelivery ? params.eventTime : null,
+          lastEventAt: params.eventTime,
+        },
+        update: Object.fromEntries(
+          Object.entries(increments).map(([column, amount]) => [column, { increment: amount }]),
+        ),
+      });
+
+      // Timestamps only move outward so out-of-order deliveries keep the true bounds.
+      await tx.campaignEmailStats.updateMany({
+        where: {
+          ...identity,
+          OR: [{ lastEventAt: null }, { lastEventAt: { lt: params.eventTime } }],
+        },
+        data: { lastEventAt: params.eventTime },
+      });
+      if (isDelivery) {
+        await tx.campaignEmailStats.updateMany({
+          where: {
+            ...identity,
+            OR: [{ firstDeliveredAt: null }, { firstDeliveredAt: { gt: params.eventTime } }],
+          },
+          data: { firstDeliveredAt: params.eventTime },
+        });
+      }
+    });
+  } catch (err) {
+    if (isDuplicateEventError(err)) return false;
+    throw err;
+  }
+
+  if (params.suppressionReason && email && accountKey) {
+    try {
+      await suppressEmail({
+        email,
+        accountKey,
+        reason: params.suppressionReason,
+        source: `${params.provider}:email-stats`,
+        campaignId: params.campaignId,
+      });
+    } catch (err) {
+      // The event itself is recorded; a failed suppression write must not make the provider retry.
+      console.warn(`[email-stats] Failed to suppress ${params.provider} address:`, err);
+    }
+  }
+  return true;
+}
+
+// ── Reads ──
+
+function toSnapshot(row: {
+  provider: string;
+  accountId: string;
+  campaignId: string;
+  deliveredCount: number;
+  openedCount: number;
+  clickedCount: number;
+  openEventCount: number;
+  clickEventCount: number;
+  bouncedCount: number;
+  complainedCount: number;
+  unsubscribedCount: number;
+  firstDeliveredAt: Date | null;
+  lastEventAt: Date | null;
+}): CampaignEmailStatsSnapshot {
+  return {
+    provider: row.provider,
+    accountId: row.accountId,
+    campaignId: row.campaignId,
+    deliveredCount: row.deliveredCount,
+    openedCount: row.openedCount,
+    clickedCount: row.clickedCount,
+    openEventCount: row.openEventCount,
+    clickEventCount: row.clickEventCount,
+    bouncedCount: row.bouncedCount,
+    complainedCount: row.complainedCount,
+    unsubscribedCount: row.unsubscribedCount,
+    firstDeliveredAt: row.firstDeliveredAt?.toISOString() || '',
+    lastEventAt: row.lastEventAt?.toISOString() || '',
+  };
+}
+
+export async function getCampaignEmailStats(params: {
+  provider: string;
+  accountId: string;
+  campaignIds?: string[];
+}): Promise<Map<string, CampaignEmailStatsSnapshot>> {
+  const rows = await prisma.campaignEmailStats.findMany({
+    where: {
+      provider: params.provider,
+      accountId: params.accountId,
+      ...(params.campaignIds ? { campaignId: { in: params.campaignIds } } : {}),
+    },
+  });
+
+  const byCampaignId = new Map<string, CampaignEmailStatsSnapshot>();
+  for (const row of rows) {
+    byCampaignId.set(row.campaignId, toSnapshot(row));
+  }
+  return byCampaignId;
+}
+
+export interface CampaignEngagementCounts {
+  deliveredCount: number;
+  openedCount: number;
+  clickedCount: number;
+  bouncedCount: number;
+  unsubscribedCount: number;
+}
+
+const ENGAGEMENT_COLUMNS: Array<keyof CampaignEngagementCounts> = [
+  'deliveredCount',
+  'openedCount',
+  'clickedCount',
+  'bouncedCount',
+  'unsubscribedCount',
+];
+
+/**
+ * Engagement for Loomi campaign ids across every provider that reported on
+ * them. Within one account the highest count per column wins — an ESP's own
+ * tracking and Loomi's pixel/redirect see the same opens — and accounts are
+ * summed. `accountId` limits the counts to one account's stats rows.
+ */
+export async function getCampaignEngagementCounts(
+  campaignIds: string[],
+  options?: { accountId?: string },
+): Promise<Map<string, CampaignEngagementCounts>> {
+  const ids = [...new Set(campaignIds.filter(Boolean))];
+  if (ids.length === 0) return new Map();
+
+  const rows = await prisma.campaignEmailStats.findMany({
+    where: {
+      campaignId: { in: ids },
+      ...(options?.accountId ? { accountId: options.accountId } : {}),
+    },
+  });
+  const perAccount = new Map<string, CampaignEngagementCounts>();
+  for (const row of rows) {
+    const key = `${row.campaignId}::${row.accountId}`;
+    const entry = perAccount.get(key) || {
+      deliveredCount: 0,
+      openedCount: 0,
+      clickedCount: 0,
+      bouncedCount: 0,
+      unsubscribedCount: 0,
+    };
+    for (const column of ENGAGEMENT_COLUMNS) entry[column] = Math.max(entry[column], row[column]);
+    perAccount.set(key, entry);
+  }
+
+  const byCampaign = new Map<string, CampaignEngagementCounts>();
+  for (const [key, counts] of perAccount) {
+    const campaignId = key.slice(0, key.indexOf('::'));
+    const total = byCampaign.get(campaignId);
+    if (!total) {
+      byCampaign.set(campaignId, { ...counts });
+      continue;
+    }
+    for (const column of ENGAGEMENT_COLUMNS) total[column] += counts[column];
+  }
+  return byCampaign;
+}
+
+/** Rates use the unique open/click counts, so they never exceed one per recipient. */
+export function emailStatsToAnalytics(stats: CampaignEmailStatsSnapshot): EspCampaignAnalytics {
+  const delivered = stats.deliveredCount;
+  return {
+    deliveredCount: delivered,
+    openedCount: stats.openedCount,
+    clickedCount: stats.clickedCount,
+    bouncedCount: stats.bouncedCount,
+    unsubscribedCount: stats.unsubscribedCount,
+    openRate: delivered > 0 ? stats.openedCount / delivered : undefined,
+    clickRate: delivered > 0 ? stats.clickedCount / delivered : undefined,
+    source: 'loomi-events',
+  };
+}
+
+/**
+ * Overlay Loomi's webhook-ingested counters onto provider-polled campaigns.
+ * Campaigns without stored events are returned untouched.
+ */
+export async function applyStoredEmailStats<T extends EspCampaign>(
+  provider: string,
+  campaigns: T[],
+): Promise<T[]> {
+  if (campaigns.length === 0) return campaigns;
+
+  const idsByAccount = new Map<string, string[]>();
+  for (const campaign of campaigns) {
+    const ids = idsByAccount.get(campaign.locationId) || [];
+    ids.push(campaign.campaignId || campaign.id);
+    idsByAccount.set(campaign.locationId, ids);
+  }
+
+  const statsByKey = new Map<string, CampaignEmailStatsSnapshot>();
+  try {
+    for (const [accountId, campaignIds] of idsByAccount) {
+      const stats = await getCampaignEmailStats({ provider, accountId, campaignIds });
+      for (const [campaignId, snapshot] of stats) {
+        statsByKey.set(`${accountId}::${campaignId}`, snapshot);
+      }
+    }
+  } catch (err) {
+    // Stored stats are an enhancement — never fail a campaign listing over them.
+    console.warn(`[email-stats] Failed to load stored stats for ${provider}:`, err);
+    return campaigns;
+  }
+  if (statsByKey.size === 0) return campaigns;
+
+  return campaigns.map((campaign) => {
+    const stats = statsByKey.get(`${campaign.locationId}::${campaign.campaignId || campaign.id}`);
+    if (!stats) return campaign;
+    const analytics = emailStatsToAnalytics(stats);
+    return {
+      ...campaign,
+      deliveredCount: analytics.deliveredCount,
+      openedCount: analytics.openedCount,
+      clickedCount: analytics.clickedCount,
+      bouncedCount: analytics.bouncedCount,
+      unsubscribedCount: analytics.unsubscribedCount,
+      openRate: analytics.openRate ?? campaign.openRate,
+      clickRate: analytics.clickRate ?? campaign.clickRate,
+    };
+  });
 }
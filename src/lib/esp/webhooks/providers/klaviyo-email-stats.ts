@@ -6,6 +6,7 @@ import {
   incrementEmailStatsCounter,
   type EmailStatsColumn,
 } from '@/lib/esp/webhooks/email-stats-store';
+import type { SuppressionReason } from '@/lib/services/email-suppression';
 
 type ParsedKlaviyoEvent = {
   accountId: string;
@@ -13,6 +14,12 @@ type ParsedKlaviyoEvent = {
   event: string;
   column: EmailStatsColumn;
   timestamp: Date;
+  email: string;
+  eventId: string;
+  messageId: string;
+  url: string | null;
+  userAgent: string | null;
+  suppressionReason: SuppressionReason | null;
 };
 
 function asRecord(value: unknown): Record<string, unknown> {
@@ -104,6 +111,15 @@ function eventToColumn(event: string): EmailStatsColumn | null {
   return null;
 }
 
+/** Soft bounces and drops are transient; everything else in these columns suppresses. */
+function eventToSuppressionReason(column: EmailStatsColumn, event: string, bounceType: string): SuppressionReason | null {
+  if (column === 'complainedCount') return 'complaint';
+  if (column === 'unsubscribedCount') return 'unsubscribe';
+  if (column !== 'bouncedCount') return null;
+  if (/soft/i.test(bounceType) || /drop/i.test(event)) return null;
+  return 'hard_bounce';
+}
+
 function extractRootEvents(payload: unknown): Record<string, unknown>[] {
   const root = asRecord(payload);
   if (Array.isArray(root.data)) {
@@ -192,6 +208,22 @@ function parseKlaviyoEvents(payload: unknown): ParsedKlaviyoEvent[] {
       'attributes.timestamp',
     ]));
 
+    const email = firstStringByPaths(sources, [
+      'email',
+      '$email',
+      'profile.email',
+      'profile.attributes.email',
+      'person.email',
+    ]);
+    const eventId = firstStringByPaths([eventRoot, attrs], ['id', 'uuid', 'event_id']);
+    const messageId = firstStringByPaths(sources, ['$message', 'message_id', 'messageId', 'message.id']);
+    const bounceType = firstStringByPaths(sources, ['Bounce Type', 'bounce_type', 'bounceType']);
+    const suppressionReason = eventToSuppressionReason(column, eventName, bounceType);
+    const url = column === 'clickedCount'
+      ? firstStringByPaths(sources, ['URL', 'url', 'Clicked URL', 'clicked_url', 'link'])
+      : '';
+    const userAgent = firstStringByPaths(sources, ['User Agent', 'user_agent', 'userAgent']);
+
     for (const campaignId of campaignIds) {
       parsed.push({
         accountId,
@@ -199,6 +231,13 @@ function parseKlaviyoEvents(payload: unknown): ParsedKlaviyoEvent[] {
         event: eventName || 'unknown',
         column,
         timestamp,
+        email,
+        // One Klaviyo event can reference several campaigns; keep each pairing distinct.
+        eventId: eventId && campaignIds.length > 1 ? `${eventId}:${campaignId}` : eventId,
+        messageId,
+        url: url || null,
+        userAgent: userAgent || null,
+        suppressionReason,
       });
     }
   }
@@ -233,19 +272,31 @@ async function handleKlaviyoEmailStatsWebhook(req: NextRequest) {
   }
 
   let updated = 0;
+  let duplicates = 0;
   let failed = 0;
   const accountIdsToInvalidate = new Set<string>();
 
   for (const entry of events) {
     const { accountId, campaignId, column, timestamp } = entry;
     try {
-      await incrementEmailStatsCounter({
+      const recorded = await incrementEmailStatsCounter({
         provider: 'klaviyo',
         accountId,
         campaignId,
         column,
         eventTime: timestamp,
+        email: entry.email,
+        providerEvent: entry.event,
+        providerEventId: entry.eventId,
+        providerMessageId: entry.messageId,
+        url: entry.url,
+        userAgent: entry.userAgent,
+        suppressionReason: entry.suppressionReason,
       });
+      if (!recorded) {
+        duplicates += 1;
+        continue;
+      }
       accountIdsToInvalidate.add(accountId);
       updated += 1;
     } catch (err) {
@@ -258,12 +309,15 @@ async function handleKlaviyoEmailStatsWebhook(req: NextRequest) {
     invalidateCampaignCache(accountId);
   }
 
+  // Ingestion is idempotent, so a failed write asks the provider to redeliver
+  // the batch rather than losing the events.
   return NextResponse.json({
-    ok: true,
+    ok: failed === 0,
     updated,
+    duplicates,
     failed,
     processedEvents: events.length,
-  });
+  }, { status: failed > 0 ? 500 : 200 });
 }
 
 export const klaviyoEmailStatsWebhookHandler: EmailStatsWebhookHandler = {
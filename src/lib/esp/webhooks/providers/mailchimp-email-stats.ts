@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { invalidateCampaignCache } from '@/lib/esp/adapters/mailchimp/campaigns';
+import type { EmailStatsWebhookHandler } from '@/lib/esp/webhooks/types';
+import { requestHeaders, verifyProviderWebhookSignature } from '@/lib/esp/webhooks/verification';
+import {
+  incrementEmailStatsCounter,
+  type EmailStatsColumn,
+} from '@/lib/esp/webhooks/email-stats-store';
+import type { SuppressionReason } from '@/lib/services/email-suppression';
+
+// Mailchimp Transactional (Mandrill) posts batches of events as a
+// form-encoded `mandrill_events` JSON array. Events are attributed through
+// message metadata set at send time: `loomi_audience_id` (the connected
+// audience, i.e. the EspConnection accountId) and `loomi_campaign_id`.
+// Marketing campaigns have no open/click webhooks; their stats come from
+// the reports API instead.
+
+type ParsedMailchimpEvent = {
+  accountId: string;
+  campaignId: string;
+  event: string;
+  column: EmailStatsColumn;
+  timestamp: Date;
+  email: string;
+  eventId: string;
+  messageId: string;
+  suppressionReason: SuppressionReason | null;
+};
+
+const EVENT_COLUMNS: Record<string, EmailStatsColumn> = {
+  delivered: 'deliveredCount',
+  open: 'openedCount',
+  click: 'clickedCount',
+  hard_bounce: 'bouncedCount',
+  soft_bounce: 'bouncedCount',
+  reject: 'bouncedCount',
+  spam: 'complainedCount',
+  unsub: 'unsubscribedCount',
+};
+
+const SUPPRESSION_REASONS: Record<string, SuppressionReason> = {
+  hard_bounce: 'hard_bounce',
+  spam: 'complaint',
+  unsub: 'unsubscribe',
+};
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return (value && typeof value === 'object' && !Array.isArray(value))
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function normalizeText(value: unknown): string {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function parseEventTime(value: unknown): Date {
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds > 0) {
+    const date = new Date(seconds * 1000);
+    if (!Number.isNaN(date.getTime())) return date;
+  }
+  return new Date();
+}
+
+function parseMandrillEvents(rawBody: string): unknown[] | null {
+  const encoded = new URLSearchParams(rawBody).get('mandrill_events');
+  if (encoded === null) return null;
+  try {
+    const parsed = JSON.parse(encoded);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseMailchimpEvents(events: unknown[]): ParsedMailchimpEvent[] {
+  const parsed: ParsedMailchimpEvent[] = [];
+
+  for (const item of events) {
+    const entry = asRecord(item);
+    // Sync events (blacklist/whitelist) carry `type` and no message.
+    const event = normalizeText(entry.event).toLowerCase();
+    const column = EVENT_COLUMNS[event];
+    if (!column) continue;
+
+    const msg = asRecord(entry.msg);
+    const metadata = asRecord(msg.metadata);
+    const accountId = normalizeText(metadata.loomi_audience_id) || normalizeText(metadata.audience_id);
+    const campaignId = normalizeText(metadata.loomi_campaign_id) || normalizeText(metadata.campaign_id);
+    if (!accountId || !campaignId) continue;
+
+    const messageId = normalizeText(entry._id) || normalizeText(msg._id);
+    const ts = normalizeText(entry.ts);
+    // Mandrill events have no id of their own; a message produces at most
+    // one event of each kind per second (clicks are further split by URL).
+    const eventId = messageId
+      ? [messageId, event, ts, event === 'click' ? normalizeText(entry.url) : ''].filter(Boolean).join(':')
+      : '';
+
+    parsed.push({
+      accountId,
+      campaignId,
+      event,
+      column,
+      timestamp: parseEventTime(entry.ts),
+      email: normalizeText(msg.email),
+      eventId,
+      messageId,
+      suppressionReason: SUPPRESSION_REASONS[event] ?? null,
+    });
+  }
+
+  return parsed;
+}
+
+async function handleMailchimpEmailStatsWebhook(req: NextRequest) {
+  const rawBody = await req.text();
+  const headers = requestHeaders(req);
+  const verification = verifyProviderWebhookSignature({
+    provider: 'mailchimp',
+    rawBody,
+    headers,
+  });
+
+  if (!verification.ok) {
+    console.warn('[webhook] Invalid Mailchimp signature');
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  const rawEvents = parseMandrillEvents(rawBody);
+  if (!rawEvents) {
+    return NextResponse.json({ error: 'Invalid mandrill_events payload' }, { status: 400 });
+  }
+
+  const events = parseMailchimpEvents(rawEvents);
+  if (events.length === 0) {
+    return NextResponse.json({ ok: true, skipped: true, reason: 'no-mappable-email-stats-events' });
+  }
+
+  let updated = 0;
+  let duplicates = 0;
+  let failed = 0;
+  const accountIdsToInvalidate = new Set<string>();
+
+  for (const entry of events) {
+    const { accountId, campaignId, column, timestamp } = entry;
+    try {
+      const recorded = await incrementEmailStatsCounter({
+        provider: 'mailchimp',
+        accountId,
+        campaignId,
+        column,
+        eventTime: timestamp,
+        email: entry.email,
+        providerEvent: entry.event,
+        providerEventId: entry.eventId,
+        providerMessageId: entry.messageId,
+        suppressionReason: entry.suppressionReason,
+      });
+      if (!recorded) {
+        duplicates += 1;
+        continue;
+      }
+      accountIdsToInvalidate.add(accountId);
+      updated += 1;
+    } catch (err) {
+      failed += 1;
+      console.error(`[webhook] Mailchimp stats upsert failed for mailchimp/${accountId}/${campaignId}:`, err);
+    }
+  }
+
+  for (const accountId of accountIdsToInvalidate) {
+    invalidateCampaignCache(accountId);
+  }
+
+  // Ingestion is idempotent, so a failed write asks the provider to redeliver
+  // the batch rather than losing the events.
+  return NextResponse.json({
+    ok: failed === 0,
+    updated,
+    duplicates,
+    failed,
+    processedEvents: events.length,
+  }, { status: failed > 0 ? 500 : 200 });
+}
+
+export const mailchimpEmailStatsWebhookHandler: EmailStatsWebhookHandler = {
+  get: ({ provider, endpoint }) => NextResponse.json({
+    ok: true,
+    provider,
+    endpoint,
+    expects: 'POST Mailchimp Transactional (Mandrill) webhook batches',
+  }),
+  post: (req) => handleMailchimpEmailStatsWebhook(req),
+};
@@ -5,6 +5,7 @@ import {
   incrementEmailStatsCounter,
   type EmailStatsColumn,
 } from '@/lib/esp/webhooks/email-stats-store';
+import type { SuppressionReason } from '@/lib/services/email-suppression';
 import { invalidateCampaignCache } from '@/lib/esp/adapters/sendgrid/campaigns';
 
 // ── SendGrid Event Webhook Payload Types ──
@@ -17,7 +18,13 @@ interface SendGridEvent {
   email?: string;
   timestamp?: number;
   event?: string;
+  sg_event_id?: string;
   sg_message_id?: string;
+  /** Bounce classification: "bounce" (hard) or "blocked" (soft) */
+  type?: string;
+  /** Click events: the clicked link and the client's user agent */
+  url?: string;
+  useragent?: string;
   /** Custom args injected at send time for Loomi correlation */
   loomi_campaign_id?: string;
   loomi_account_key?: string;
@@ -31,6 +38,12 @@ type ParsedSendGridEvent = {
   event: string;
   column: EmailStatsColumn;
   timestamp: Date;
+  email: string;
+  eventId: string;
+  messageId: string;
+  url: string | null;
+  userAgent: string | null;
+  suppressionReason: SuppressionReason | null;
 };
 
 // ── Event Mapping ──
@@ -59,6 +72,15 @@ function eventToColumn(event: string): EmailStatsColumn | null {
   }
 }
 
+/** Only permanent failures suppress; dropped/deferred/blocked are transient. */
+function eventToSuppressionReason(event: string, bounceType: string): SuppressionReason | null {
+  const normalized = event.toLowerCase().trim();
+  if (normalized === 'bounce') return bounceType.toLowerCase() === 'blocked' ? null : 'hard_bounce';
+  if (normalized === 'spamreport' || normalized === 'spam_report') return 'complaint';
+  if (normalized === 'unsubscribe' || normalized === 'group_unsubscribe') return 'unsubscribe';
+  return null;
+}
+
 function parseEventTime(value: unknown): Date {
   if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
     // SendGrid timestamps are Unix seconds
@@ -116,6 +138,12 @@ function parseSendGridEvents(payload: unknown): ParsedSendGridEvent[] {
       event: eventName,
       column,
       timestamp,
+      email: typeof event.email === 'string' ? event.email.trim() : '',
+      eventId: typeof event.sg_event_id === 'string' ? event.sg_event_id.trim() : '',
+      messageId: typeof event.sg_message_id === 'string' ? event.sg_message_id.trim() : '',
+      url: column === 'clickedCount' && typeof event.url === 'string' && event.url.trim() ? event.url.trim() : null,
+      userAgent: typeof event.useragent === 'string' && event.useragent.trim() ? event.useragent.trim() : null,
+      suppressionReason: eventToSuppressionReason(eventName, typeof event.type === 'string' ? event.type : ''),
     });
   }
 
@@ -163,19 +191,31 @@ async function handleSendGridEmailStatsWebhook(req: NextRequest) {
   }
 
   let updated = 0;
+  let duplicates = 0;
   let failed = 0;
   const accountIdsToInvalidate = new Set<string>();
 
   for (const entry of events) {
     const { accountId, campaignId, column, timestamp } = entry;
     try {
-      await incrementEmailStatsCounter({
+      const recorded = await incrementEmailStatsCounter({
         provider: 'sendgrid',
         accountId,
         campaignId,
         column,
         eventTime: timestamp,
+        email: entry.email,
+        providerEvent: entry.event,
+        providerEventId: entry.eventId,
+        providerMessageId: entry.messageId,
+        url: entry.url,
+        userAgent: entry.userAgent,
+        suppressionReason: entry.suppressionReason,
       });
+      if (!recorded) {
+        duplicates += 1;
+        continue;
+      }
       accountIdsToInvalidate.add(accountId);
       updated += 1;
     } catch (err) {
@@ -191,15 +231,19 @@ async function handleSendGridEmailStatsWebhook(req: NextRequest) {
   console.log('[webhook:sendgrid] Processed events', {
     total: events.length,
     updated,
+    duplicates,
     failed,
   });
 
+  // Ingestion is idempotent, so a failed write asks the provider to redeliver
+  // the batch rather than losing the events.
   return NextResponse.json({
-    ok: true,
+    ok: failed === 0,
     updated,
+    duplicates,
     failed,
     processedEvents: events.length,
-  });
+  }, { status: failed > 0 ? 500 : 200 });
 }
 
 export const sendgridEmailStatsWebhookHandler: EmailStatsWebhookHandler = {
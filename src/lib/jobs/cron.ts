@@ -0,0 +1,119 @@
+// ── Cron Expressions ──
+// Minimal 5-field cron (minute hour day-of-month month day-of-week), UTC.
+// Supports `*`, lists (`1,15`), ranges (`1-5`) and steps (`*/10`, `0-30/5`).
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Standard cron ORs day-of-month and day-of-week when both are restricted. */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const FIELD_BOUNDS: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+/** Upper bound on minutes scanned when searching for the next run (~1 year). */
+const MAX_SEARCH_MINUTES = 366 * 24 * 60;
+
+function parseField(raw: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of raw.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid cron step "${part}"`);
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-').map(Number);
+      start = from;
+      end = to;
+    } else {
+      start = Number(rangePart);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field "${part}" (expected ${min}-${max})`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronFields {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) throw new Error('Cron expression must have 5 fields');
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELD_BOUNDS[index]),
+  );
+  // 7 is an alias for Sunday.
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: parts[2] !== '*',
+    dayOfWeekRestricted: parts[4] !== '*',
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+  const domMatch = fields.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = fields.daysOfWeek.has(date.getUTCDay());
+  if (fields.dayOfMonthRestricted && fields.dayOfWeekRestricted) return domMatch || dowMatch;
+  if (fields.dayOfMonthRestricted) return domMatch;
+  if (fields.dayOfWeekRestricted) return dowMatch;
+  return true;
+}
+
+/**
+ * First minute strictly after `after` that matches `expression` (UTC).
+ */
+export function nextCronRun(expression: string, after: Date): Date {
+  const fields = parseCron(expression);
+  const cursor = new Date(after.getTime());
+  cursor.setUTCSeconds(0, 0);
+  cursor.setUTCMinutes(cursor.getUTCMinutes() + 1);
+
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+    if (!fields.months.has(cursor.getUTCMonth() + 1) || !matchesDay(fields, cursor)) {
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+      cursor.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!fields.hours.has(cursor.getUTCHours())) {
+      cursor.setUTCHours(cursor.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (fields.minutes.has(cursor.getUTCMinutes())) return cursor;
+    cursor.setUTCMinutes(cursor.getUTCMinutes() + 1);
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`);
+}
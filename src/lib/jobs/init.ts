@@ -0,0 +1,209 @@
+// ── Background Job Initialization ──
+// Registers a handler for every job kind. Import this module once wherever
+// jobs are enqueued or executed.
+
+import { registerJob } from './registry';
+import { enqueueJob } from './queue';
+import {
+  listDueEmailCampaignIds,
+  processEmailCampaign,
+} from '@/lib/services/email-campaigns';
+import {
+  listDueSmsCampaignIds,
+  processSmsCampaign,
+} from '@/lib/services/sms-campaigns';
+import {
+  listYagRollupJobs,
+  runYagRollupSync,
+  runYagRollupWipe,
+  yagRollupJobDedupeKey,
+} from '@/lib/services/yag-rollup';
+import { scanPacerAlerts } from '@/lib/notifications/service';
+import { syncStaleContactIndexes } from '@/lib/services/contact-index';
+import { runLoomiFlows } from '@/lib/services/loomi-flows';
+import { runConnectionHealthChecks } from '@/lib/esp/connection-health';
+import { processContactImport } from '@/lib/services/contact-imports';
+import { pruneAuditEvents } from '@/lib/services/audit-log';
+import { reconcileTemplateDrift } from '@/lib/esp/template-drift';
+import '@/lib/esp/init';
+
+const MINUTE_MS = 60 * 1000;
+
+registerJob({
+  kind: 'email-campaigns.process-due',
+  description: 'Send queued and scheduled native email campaigns',
+  dedupeKey: () => 'email-campaigns.process-due',
+  leaseMs: 15 * MINUTE_MS,
+  maxAttempts: 1,
+  // Fans out to per-campaign jobs so a campaign never has two runs sending at once.
+  handler: async (payload) => {
+    const campaignIds = await listDueEmailCampaignIds({ limit: payload.limit });
+    for (const campaignId of campaignIds) {
+      await enqueueJob('email-campaign.process', { campaignId });
+    }
+    return { enqueued: campaignIds.length, campaignIds };
+  },
+});
+
+registerJob({
+  kind: 'email-campaign.process',
+  description: 'Send one native email campaign',
+  dedupeKey: (payload) => `email-campaign:${payload.campaignId}`,
+  leaseMs: 15 * MINUTE_MS,
+  handler: async (payload) => {
+    const campaign = await processEmailCampaign(payload.campaignId, { concurrency: 3 });
+    return { status: campaign.status, sent: campaign.sentCount, failed: campaign.failedCount };
+  },
+});
+
+registerJob({
+  kind: 'sms-campaigns.process-due',
+  description: 'Send queued and scheduled bulk SMS campaigns',
+  dedupeKey: () => 'sms-campaigns.process-due',
+  leaseMs: 15 * MINUTE_MS,
+  maxAttempts: 1,
+  // Fans out to per-campaign jobs so a campaign never has two runs sending at once.
+  handler: async (payload) => {
+    const campaignIds = await listDueSmsCampaignIds({ limit: payload.limit });
+    for (const campaignId of campaignIds) {
+      await enqueueJob('sms-campaign.process', { campaignId });
+    }
+    return { enqueued: campaignIds.length, campaignIds };
+  },
+});
+
+registerJob({
+  kind: 'sms-campaign.process',
+  description: 'Send one bulk SMS campaign',
+  dedupeKey: (payload) => `sms-campaign:${payload.campaignId}`,
+  leaseMs: 15 * MINUTE_MS,
+  handler: async (payload) => {
+    const campaign = await processSmsCampaign(payload.campaignId, { concurrency: 4, maxDurationMs: 5 * MINUTE_MS });
+    return { status: campaign.status, sent: campaign.sentCount, failed: campaign.failedCount };
+  },
+});
+
+registerJob({
+  kind: 'yag-rollup.sync',
+  description: 'Run YAG rollup sync (fans out to every rollup job unless jobKey is set)',
+  dedupeKey: (payload) => payload.jobKey ? yagRollupJobDedupeKey(payload.jobKey) : 'yag-rollup:*',
+  leaseMs: 45 * MINUTE_MS,
+  // The 5-minute heartbeat is the retry; each run records its own history.
+  maxAttempts: 1,
+  handler: async (payload) => {
+    // One job per rollup job key, so each key shares its dedupe slot with
+    // manual syncs and wipes of the same key.
+    if (!payload.jobKey) {
+      const jobs = await listYagRollupJobs();
+      const enqueued: Record<string, string> = {};
+      for (const job of jobs) {
+        const queued = await enqueueJob('yag-rollup.sync', { ...payload, jobKey: job.key });
+        enqueued[job.key] = queued.id;
+      }
+      return enqueued;
+    }
+
+    const result = await runYagRollupSync({
+      jobKey: payload.jobKey,
+      fullSync: payload.fullSync === true,
+      dryRun: payload.dryRun === true,
+      enforceSchedule: payload.enforceSchedule === true,
+      maxUpserts: payload.fullSync ? 250000 : undefined,
+      triggerSource: 'job-queue',
+    });
+    if (result.status === 'failed') throw new Error(`YAG rollup sync failed for: ${payload.jobKey}`);
+    return { status: result.status };
+  },
+});
+
+registerJob({
+  kind: 'yag-rollup.wipe',
+  description: 'Delete YAG rollup contacts from the target account',
+  dedupeKey: (payload) => yagRollupJobDedupeKey(payload.jobKey),
+  leaseMs: 45 * MINUTE_MS,
+  maxAttempts: 1,
+  handler: async (payload) => {
+    const result = await runYagRollupWipe({ ...payload, triggerSource: 'job-queue' });
+    if (result.status === 'failed') throw new Error(`YAG rollup wipe failed for: ${payload.jobKey}`);
+    return { status: result.status, deleted: result.totals.deletesSucceeded };
+  },
+});
+
+registerJob({
+  kind: 'meta-pacer-alerts.scan',
+  description: 'Scan the Meta Ads Pacer and send alert digests',
+  dedupeKey: () => 'meta-pacer-alerts.scan',
+  maxAttempts: 2,
+  handler: () => scanPacerAlerts(),
+});
+
+registerJob({
+  kind: 'contact-index.sync-stale',
+  description: 'Refresh stale server-side contact indexes',
+  dedupeKey: () => 'contact-index.sync-stale',
+  leaseMs: 60 * MINUTE_MS,
+  maxAttempts: 1,
+  handler: async (payload) => {
+    const results = await syncStaleContactIndexes({ limit: payload.limit });
+    return {
+      synced: results.filter((result) => result.status === 'ok').length,
+      failed: results.filter((result) => result.status === 'failed').length,
+    };
+  },
+});
+
+registerJob({
+  kind: 'loomi-flows.run',
+  description: 'Enroll contacts and advance Loomi flow enrollments',
+  dedupeKey: () => 'loomi-flows.run',
+  leaseMs: 15 * MINUTE_MS,
+  maxAttempts: 1,
+  handler: (payload) => runLoomiFlows({ enrollmentLimit: payload.enrollmentLimit }),
+});
+
+registerJob({
+  kind: 'esp-connections.health-check',
+  description: 'Validate stored ESP connections and notify on failures',
+  dedupeKey: () => 'esp-connections.health-check',
+  leaseMs: 30 * MINUTE_MS,
+  maxAttempts: 1,
+  handler: (payload) => runConnectionHealthChecks({ accountKeys: payload.accountKeys }),
+});
+
+registerJob({
+  kind: 'contact-import.process',
+  description: 'Push one contact CSV import through the account adapter',
+  dedupeKey: (payload) => `contact-import:${payload.importId}`,
+  leaseMs: 60 * MINUTE_MS,
+  // Progress is saved per batch; a retry resumes rather than re-sending rows.
+  maxAttempts: 2,
+  handler: async (payload, context) => {
+    const result = await processContactImport(payload.importId, {
+      finalAttempt: context.attempt >= context.maxAttempts,
+    });
+    return {
+      status: result.status,
+      created: result.createdCount,
+      updated: result.updatedCount,
+      failed: result.failedCount,
+    };
+  },
+});
+
+registerJob({
+  kind: 'audit-events.prune',
+  description: 'Delete audit events older than the retention window',
+  dedupeKey: () => 'audit-events.prune',
+  leaseMs: 30 * MINUTE_MS,
+  maxAttempts: 2,
+  handler: () => pruneAuditEvents(),
+});
+
+registerJob({
+  kind: 'esp-templates.reconcile-drift',
+  description: 'Compare published templates with their ESP copies and flag remote edits',
+  dedupeKey: () => 'esp-templates.reconcile-drift',
+  leaseMs: 30 * MINUTE_MS,
+  maxAttempts: 1,
+  handler: (payload) => reconcileTemplateDrift({ accountKeys: payload.accountKeys, limit: payload.limit }),
+});
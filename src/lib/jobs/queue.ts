@@ -0,0 +1,408 @@
+// ── Background Job Queue ──
+// Postgres-backed queue. Workers claim jobs by compare-and-set on the row,
+// so concurrent workers never run the same job; a lease (visibility timeout)
+// lets another worker reclaim a job whose runner died.
+
+import os from 'os';
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { getJobDefinition } from './registry';
+import type {
+  BackgroundJobSummary,
+  JobContext,
+  JobKind,
+  JobPayloads,
+  JobStatus,
+} from './types';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const MAX_RESULT_LENGTH = 10_000;
+const MAX_ERROR_LENGTH = 2_000;
+
+type BackgroundJobRow = NonNullable<Awaited<ReturnType<typeof prisma.backgroundJob.findUnique>>>;
+
+export interface EnqueueJobOptions {
+  runAt?: Date;
+  priority?: number;
+  maxAttempts?: number;
+  scheduleKey?: string;
+  /** Overrides the kind's default dedupe key. */
+  dedupeKey?: string | null;
+}
+
+/** Raised when another job already holds the dedupe key an inline run needs. */
+export class JobConflictError extends Error {
+  readonly status = 409;
+  constructor(readonly job: BackgroundJobSummary) {
+    super(`A ${job.kind} job is already ${job.status}`);
+    this.name = 'JobConflictError';
+  }
+}
+
+export interface ProcessedJob {
+  id: string;
+  kind: string;
+  status: JobStatus;
+  error?: string;
+}
+
+// ── Helpers ──
+
+function parseJson(raw: string | null): unknown {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+function parsePayload(raw: string): Record<string, unknown> {
+  const parsed = parseJson(raw);
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+    ? parsed as Record<string, unknown>
+    : {};
+}
+
+function toIso(date: Date | null): string {
+  return date ? date.toISOString() : '';
+}
+
+function toSummary(row: BackgroundJobRow): BackgroundJobSummary {
+  return {
+    id: row.id,
+    kind: row.kind,
+    payload: parsePayload(row.payload),
+    status: row.status as JobStatus,
+    priority: row.priority,
+    runAt: row.runAt.toISOString(),
+    attempts: row.attempts,
+    maxAttempts: row.maxAttempts,
+    leaseOwner: row.leaseOwner || '',
+    leasedUntil: toIso(row.leasedUntil),
+    scheduleKey: row.scheduleKey || '',
+    lastError: row.lastError || '',
+    result: parseJson(row.result),
+    startedAt: toIso(row.startedAt),
+    finishedAt: toIso(row.finishedAt),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function isDedupeConflict(err: unknown): boolean {
+  const error = err as { code?: unknown; meta?: { target?: unknown } } | null;
+  if (!error || error.code !== 'P2002') return false;
+  const target = error.meta?.target;
+  if (Array.isArray(target)) return target.map(String).includes('dedupeKey');
+  return typeof target === 'string' ? target.includes('dedupeKey') : true;
+}
+
+function serializeResult(result: unknown): string | null {
+  if (result === undefined) return null;
+  try {
+    const json = JSON.stringify(result);
+    return json.length > MAX_RESULT_LENGTH ? JSON.stringify({ truncated: true }) : json;
+  } catch {
+    return null;
+  }
+}
+
+function retryDelayMs(attempt: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1));
+}
+
+export function createWorkerId(): string {
+  return `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+}
+
+// ── Enqueue ──
+
+/**
+ * Add a job to the queue. When a dedupe key applies and a job with the same
+ * key is still queued or running, that job is returned instead.
+ */
+export async function enqueueJob<K extends JobKind>(
+  kind: K,
+  payload: JobPayloads[K],
+  options?: EnqueueJobOptions,
+): Promise<BackgroundJobSummary> {
+  const definition = getJobDefinition(kind);
+  if (!definition) throw new Error(`No job handler registered for "${kind}"`);
+
+  const dedupeKey = options?.dedupeKey !== undefined
+    ? options.dedupeKey
+    : definition.dedupeKey?.(payload) ?? null;
+
+  try {
+    const row = await prisma.backgroundJob.create({
+      data: {
+        kind,
+        payload: JSON.stringify(payload ?? {}),
+        priority: options?.priority ?? 0,
+        runAt: options?.runAt ?? new Date(),
+        maxAttempts: Math.max(1, options?.maxAttempts ?? definition.maxAttempts ?? DEFAULT_MAX_ATTEMPTS),
+        scheduleKey: options?.scheduleKey || null,
+        dedupeKey,
+      },
+    });
+    return toSummary(row);
+  } catch (err) {
+    if (!dedupeKey || !isDedupeConflict(err)) throw err;
+    const existing = await prisma.backgroundJob.findUnique({ where: { dedupeKey } });
+    if (!existing) throw err;
+    return toSummary(existing);
+  }
+}
+
+// ── Claim & Execute ──
+
+/**
+ * Lease up to `limit` runnable jobs: queued jobs that are due, plus running
+ * jobs whose lease has expired. Each claim is a conditional update, so a row
+ * another worker grabbed first is simply skipped.
+ */
+export async function claimJobs(workerId: string, limit: number): Promise<BackgroundJobRow[]> {
+  const now = new Date();
+  const candidates = await prisma.backgroundJob.findMany({
+    where: {
+      OR: [
+        { status: 'queued', runAt: { lte: now } },
+        { status: 'running', leasedUntil: { lt: now } },
+      ],
+    },
+    orderBy: [{ priority: 'desc' }, { runAt: 'asc' }],
+    take: limit * 2,
+  });
+
+  const claimed: BackgroundJobRow[] = [];
+  for (const candidate of candidates) {
+    if (claimed.length >= limit) break;
+    const leaseMs = getJobDefinition(candidate.kind)?.leaseMs ?? DEFAULT_LEASE_MS;
+    const result = await prisma.backgroundJob.updateMany({
+      where: { id: candidate.id, status: candidate.status, updatedAt: candidate.updatedAt },
+      data: {
+        status: 'running',
+        leaseOwner: workerId,
+        leasedUntil: new Date(Date.now() + leaseMs),
+        attempts: { increment: 1 },
+        startedAt: new Date(),
+      },
+    });
+    if (result.count === 0) continue;
+    claimed.push({ ...candidate, status: 'running', attempts: candidate.attempts + 1, leaseOwner: workerId });
+  }
+  return claimed;
+}
+
+async function finishJob(
+  job: BackgroundJobRow,
+  workerId: string,
+  data: {
+    status: JobStatus;
+    lastError?: string | null;
+    result?: string | null;
+    runAt?: Date;
+  },
+): Promise<void> {
+  const terminal = data.status !== 'queued';
+  // Only the current lease holder may settle the job; if our lease lapsed and
+  // another worker reclaimed it, its outcome wins.
+  await prisma.backgroundJob.updateMany({
+    where: { id: job.id, leaseOwner: workerId, status: 'running' },
+    data: {
+      status: data.status,
+      lastError: data.lastError === undefined ? undefined : data.lastError?.slice(0, MAX_ERROR_LENGTH) ?? null,
+      result: data.result,
+      runAt: data.runAt,
+      leaseOwner: null,
+      leasedUntil: null,
+      finishedAt: terminal ? new Date() : null,
+      ...(terminal ? { dedupeKey: null } : {}),
+    },
+  });
+}
+
+/**
+ * Run one claimed job to completion, then record success, schedule a retry
+ * with exponential backoff, or dead-letter it once attempts are exhausted.
+ */
+export async function executeJob(job: BackgroundJobRow, workerId: string): Promise<ProcessedJob> {
+  const definition = getJobDefinition(job.kind);
+  if (!definition) {
+    const error = `No job handler registered for "${job.kind}"`;
+    await finishJob(job, workerId, { status: 'dead', lastError: error });
+    return { id: job.id, kind: job.kind, status: 'dead', error };
+  }
+
+  if (job.attempts > job.maxAttempts) {
+    const error = job.lastError || 'Lease expired on final attempt';
+    await finishJob(job, workerId, { status: 'dead', lastError: error });
+    return { id: job.id, kind: job.kind, status: 'dead', error };
+  }
+
+  try {
+    const result = await definition.handler(parsePayload(job.payload) as never, {
+      jobId: job.id,
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+    });
+    await finishJob(job, workerId, { status: 'succeeded', lastError: null, result: serializeResult(result) });
+    return { id: job.id, kind: job.kind, status: 'succeeded' };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : `Job "${job.kind}" failed`;
+    console.error(`[jobs] ${job.kind} (${job.id}) attempt ${job.attempts}/${job.maxAttempts} failed:`, err);
+    if (job.attempts >= job.maxAttempts) {
+      await finishJob(job, workerId, { status: 'dead', lastError: error });
+      return { id: job.id, kind: job.kind, status: 'dead', error };
+    }
+    await finishJob(job, workerId, {
+      status: 'queued',
+      lastError: error,
+      runAt: new Date(Date.now() + retryDelayMs(job.attempts)),
+    });
+    return { id: job.id, kind: job.kind, status: 'queued', error };
+  }
+}
+
+/**
+ * Run a job in the caller's process (e.g. a manual run that streams progress)
+ * while holding a queue row for it, so it shares the kind's dedupe key with
+ * queued runs. Throws JobConflictError when that key is already taken. The
+ * row gets a single attempt: if this process dies, the next worker to reclaim
+ * the lapsed lease dead-letters it instead of running the handler.
+ */
+export async function runJobInline<K extends JobKind, T>(
+  kind: K,
+  payload: JobPayloads[K],
+  run: (context: JobContext) => Promise<T>,
+): Promise<T> {
+  const definition = getJobDefinition(kind);
+  if (!definition) throw new Error(`No job handler registered for "${kind}"`);
+
+  const workerId = createWorkerId();
+  const dedupeKey = definition.dedupeKey?.(payload) ?? null;
+  let job: BackgroundJobRow;
+  try {
+    job = await prisma.backgroundJob.create({
+      data: {
+        kind,
+        payload: JSON.stringify(payload ?? {}),
+        status: 'running',
+        attempts: 1,
+        maxAttempts: 1,
+        leaseOwner: workerId,
+        leasedUntil: new Date(Date.now() + (definition.leaseMs ?? DEFAULT_LEASE_MS)),
+        startedAt: new Date(),
+        dedupeKey,
+      },
+    });
+  } catch (err) {
+    if (!dedupeKey || !isDedupeConflict(err)) throw err;
+    const existing = await prisma.backgroundJob.findUnique({ where: { dedupeKey } });
+    if (!existing) throw err;
+    throw new JobConflictError(toSummary(existing));
+  }
+
+  try {
+    const result = await run({ jobId: job.id, attempt: 1, maxAttempts: 1 });
+    await finishJob(job, workerId, { status: 'succeeded', lastError: null, result: serializeResult(result) });
+    return result;
+  } catch (err) {
+    const error = err instanceof Error ? err.message : `Job "${kind}" failed`;
+    await finishJob(job, workerId, { status: 'dead', lastError: error });
+    throw err;
+  }
+}
+
+// ── Admin ──
+
+export async function listJobs(options?: {
+  status?: JobStatus;
+  kind?: string;
+  limit?: number;
+}): Promise<BackgroundJobSummary[]> {
+  const limit = Math.max(1, Math.min(500, options?.limit ?? 100));
+  const rows = await prisma.backgroundJob.findMany({
+    where: {
+      ...(options?.status ? { status: options.status } : {}),
+      ...(options?.kind ? { kind: options.kind } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+  return rows.map(toSummary);
+}
+
+/** The queued or running job currently holding `dedupeKey`, if any. */
+export async function findActiveJob(dedupeKey: string): Promise<BackgroundJobSummary | null> {
+  const row = await prisma.backgroundJob.findUnique({ where: { dedupeKey } });
+  return row ? toSummary(row) : null;
+}
+
+export async function getJob(id: string): Promise<BackgroundJobSummary | null> {
+  const row = await prisma.backgroundJob.findUnique({ where: { id } });
+  return row ? toSummary(row) : null;
+}
+
+export async function getJobCounts(): Promise<Record<JobStatus, number>> {
+  const groups = await prisma.backgroundJob.groupBy({
+    by: ['status'],
+    _count: { _all: true },
+  });
+  const counts: Record<JobStatus, number> = { queued: 0, running: 0, succeeded: 0, dead: 0, canceled: 0 };
+  for (const group of groups) {
+    const status = group.status as JobStatus;
+    if (status in counts) counts[status] = group._count._all;
+  }
+  return counts;
+}
+
+/**
+ * Re-queue a dead-lettered or canceled job with a fresh attempt budget.
+ */
+export async function retryJob(id: string): Promise<BackgroundJobSummary> {
+  const result = await prisma.backgroundJob.updateMany({
+    where: { id, status: { in: ['dead', 'canceled'] } },
+    data: {
+      status: 'queued',
+      attempts: 0,
+      runAt: new Date(),
+      finishedAt: null,
+      lastError: null,
+    },
+  });
+  if (result.count === 0) throw new Error('Only dead or canceled jobs can be retried');
+  const row = await prisma.backgroundJob.findUniqueOrThrow({ where: { id } });
+  return toSummary(row);
+}
+
+/**
+ * Cancel a job that has not started yet.
+ */
+export async function cancelJob(id: string): Promise<BackgroundJobSummary> {
+  const result = await prisma.backgroundJob.updateMany({
+    where: { id, status: 'queued' },
+    data: { status: 'canceled', finishedAt: new Date(), dedupeKey: null },
+  });
+  if (result.count === 0) throw new Error('Only queued jobs can be canceled');
+  const row = await prisma.backgroundJob.findUniqueOrThrow({ where: { id } });
+  return toSummary(row);
+}
+
+/**
+ * Delete succeeded and canceled jobs older than `olderThanMs`. Dead jobs are
+ * kept until someone retries or clears them.
+ */
+export async function pruneFinishedJobs(olderThanMs: number): Promise<number> {
+  const result = await prisma.backgroundJob.deleteMany({
+    where: {
+      status: { in: ['succeeded', 'canceled'] },
+      finishedAt: { lt: new Date(Date.now() - olderThanMs) },
+    },
+  });
+  return result.count;
+}
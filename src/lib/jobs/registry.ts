@@ -0,0 +1,35 @@
+// ── Background Job Registry ──
+// Maps job kinds to their handlers. Handlers register from ./init.
+
+import type { JobDefinition, JobKind } from './types';
+
+// ── Internal state ──
+
+const definitions = new Map<JobKind, JobDefinition>();
+
+// ── Public API ──
+
+/**
+ * Register a job handler. Called once per kind at startup.
+ */
+export function registerJob<K extends JobKind>(definition: JobDefinition<K>): void {
+  definitions.set(definition.kind, definition as unknown as JobDefinition);
+}
+
+/**
+ * Get the definition for a job kind, or null when nothing is registered.
+ */
+export function getJobDefinition(kind: string): JobDefinition | null {
+  return definitions.get(kind as JobKind) ?? null;
+}
+
+/**
+ * List all registered job kinds with their descriptions.
+ */
+export function getRegisteredJobs(): Array<{ kind: JobKind; description: string }> {
+  return Array.from(definitions.values()).map(({ kind, description }) => ({ kind, description }));
+}
+
+export function isRegisteredJobKind(kind: string): kind is JobKind {
+  return definitions.has(kind as JobKind);
+}
@@ -0,0 +1,135 @@
+// ── Job Scheduler ──
+// Cron-style schedules stored in JobSchedule. Each worker tick enqueues one
+// job per schedule whose slot has come due; missed slots collapse into a
+// single run rather than a backlog.
+
+import { prisma } from '@/lib/prisma';
+import { isValidCron, nextCronRun } from './cron';
+import { enqueueJob } from './queue';
+import { isRegisteredJobKind } from './registry';
+import type { JobKind, JobPayloads, JobScheduleSummary } from './types';
+
+type JobScheduleRow = NonNullable<Awaited<ReturnType<typeof prisma.jobSchedule.findUnique>>>;
+
+interface DefaultJobSchedule<K extends JobKind = JobKind> {
+  key: string;
+  kind: K;
+  payload: JobPayloads[K];
+  cron: string;
+}
+
+/**
+ * Schedules created on first run. Edits made from the admin view (cron,
+ * enabled) are kept; only missing keys are inserted.
+ */
+export const DEFAULT_JOB_SCHEDULES: DefaultJobSchedule[] = [
+  { key: 'email-campaigns', kind: 'email-campaigns.process-due', payload: {}, cron: '* * * * *' },
+  { key: 'sms-campaigns', kind: 'sms-campaigns.process-due', payload: {}, cron: '* * * * *' },
+  { key: 'loomi-flows', kind: 'loomi-flows.run', payload: {}, cron: '*/5 * * * *' },
+  { key: 'contact-index', kind: 'contact-index.sync-stale', payload: {}, cron: '15 * * * *' },
+  { key: 'esp-connection-health', kind: 'esp-connections.health-check', payload: {}, cron: '30 * * * *' },
+  { key: 'esp-template-drift', kind: 'esp-templates.reconcile-drift', payload: {}, cron: '50 * * * *' },
+  // Heartbeat; each rollup job's own config decides whether the slot runs.
+  { key: 'yag-rollup', kind: 'yag-rollup.sync', payload: { enforceSchedule: true }, cron: '*/5 * * * *' },
+  // 14:00 UTC = 8 AM MDT / 7 AM MST.
+  { key: 'meta-pacer-alerts', kind: 'meta-pacer-alerts.scan', payload: {}, cron: '0 14 * * *' },
+  { key: 'audit-log-retention', kind: 'audit-events.prune', payload: {}, cron: '45 3 * * *' },
+];
+
+function parsePayload(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function toSummary(row: JobScheduleRow): JobScheduleSummary {
+  return {
+    id: row.id,
+    key: row.key,
+    kind: row.kind,
+    payload: parsePayload(row.payload),
+    cron: row.cron,
+    enabled: row.enabled,
+    nextRunAt: row.nextRunAt ? row.nextRunAt.toISOString() : '',
+    lastEnqueuedAt: row.lastEnqueuedAt ? row.lastEnqueuedAt.toISOString() : '',
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export async function ensureDefaultJobSchedules(now = new Date()): Promise<void> {
+  await prisma.jobSchedule.createMany({
+    data: DEFAULT_JOB_SCHEDULES.map((schedule) => ({
+      key: schedule.key,
+      kind: schedule.kind,
+      payload: JSON.stringify(schedule.payload),
+      cron: schedule.cron,
+      nextRunAt: nextCronRun(schedule.cron, now),
+    })),
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Enqueue a job for every enabled schedule whose next slot is due. The slot
+ * is advanced with a conditional update first, so two workers ticking at the
+ * same time enqueue it once.
+ */
+export async function enqueueDueSchedules(now = new Date()): Promise<string[]> {
+  const due = await prisma.jobSchedule.findMany({
+    where: {
+      enabled: true,
+      OR: [{ nextRunAt: null }, { nextRunAt: { lte: now } }],
+    },
+  });
+
+  const enqueued: string[] = [];
+  for (const schedule of due) {
+    if (!isRegisteredJobKind(schedule.kind) || !isValidCron(schedule.cron)) {
+      console.warn(`[jobs:scheduler] Skipping schedule "${schedule.key}" (unknown kind or invalid cron)`);
+      continue;
+    }
+
+    const advanced = await prisma.jobSchedule.updateMany({
+      where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+      data: { nextRunAt: nextCronRun(schedule.cron, now), lastEnqueuedAt: now },
+    });
+    if (advanced.count === 0) continue;
+
+    try {
+      await enqueueJob(schedule.kind, parsePayload(schedule.payload) as never, { scheduleKey: schedule.key });
+      enqueued.push(schedule.key);
+    } catch (err) {
+      console.error(`[jobs:scheduler] Failed to enqueue schedule "${schedule.key}":`, err);
+    }
+  }
+  return enqueued;
+}
+
+export async function listJobSchedules(): Promise<JobScheduleSummary[]> {
+  const rows = await prisma.jobSchedule.findMany({ orderBy: { key: 'asc' } });
+  return rows.map(toSummary);
+}
+
+export async function updateJobSchedule(
+  key: string,
+  input: { cron?: string; enabled?: boolean },
+): Promise<JobScheduleSummary> {
+  const existing = await prisma.jobSchedule.findUnique({ where: { key } });
+  if (!existing) throw new Error('Schedule not found');
+
+  const cron = input.cron !== undefined ? input.cron.trim() : existing.cron;
+  if (!isValidCron(cron)) throw new Error('Invalid cron expression');
+
+  const row = await prisma.jobSchedule.update({
+    where: { key },
+    data: {
+      cron,
+      enabled: input.enabled ?? existing.enabled,
+      nextRunAt: nextCronRun(cron, new Date()),
+    },
+  });
+  return toSummary(row);
+}
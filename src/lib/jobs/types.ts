@@ -0,0 +1,79 @@
+// ── Background Job Types ──
+// Typed job kinds shared by the queue, the scheduler and the admin view.
+
+/** Payload shape for every registered job kind. */
+export interface JobPayloads {
+  'email-campaigns.process-due': { limit?: number };
+  'email-campaign.process': { campaignId: string };
+  'sms-campaigns.process-due': { limit?: number };
+  'sms-campaign.process': { campaignId: string };
+  'yag-rollup.sync': { jobKey?: string; fullSync?: boolean; dryRun?: boolean; enforceSchedule?: boolean };
+  'yag-rollup.wipe': { jobKey: string; mode: 'all' | 'tagged'; dryRun?: boolean; maxDeletes?: number };
+  'meta-pacer-alerts.scan': Record<string, never>;
+  'contact-index.sync-stale': { limit?: number };
+  'loomi-flows.run': { enrollmentLimit?: number };
+  'esp-connections.health-check': { accountKeys?: string[] };
+  'contact-import.process': { importId: string };
+  'audit-events.prune': Record<string, never>;
+  'esp-templates.reconcile-drift': { accountKeys?: string[]; limit?: number };
+}
+
+export type JobKind = keyof JobPayloads;
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'dead' | 'canceled';
+
+export const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'dead', 'canceled'];
+
+export interface JobContext {
+  jobId: string;
+  /** 1-based attempt number for this run. */
+  attempt: number;
+  maxAttempts: number;
+}
+
+export interface JobDefinition<K extends JobKind = JobKind> {
+  kind: K;
+  description: string;
+  handler: (payload: JobPayloads[K], context: JobContext) => Promise<unknown>;
+  /** Default attempts before the job is dead-lettered. */
+  maxAttempts?: number;
+  /** Visibility timeout; a running job whose lease lapses is reclaimed. */
+  leaseMs?: number;
+  /**
+   * Build a key that keeps at most one queued/running job per value (e.g. one
+   * sync per YAG job key). Return null to allow duplicates.
+   */
+  dedupeKey?: (payload: JobPayloads[K]) => string | null;
+}
+
+export interface BackgroundJobSummary {
+  id: string;
+  kind: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  priority: number;
+  runAt: string;
+  attempts: number;
+  maxAttempts: number;
+  leaseOwner: string;
+  leasedUntil: string;
+  scheduleKey: string;
+  lastError: string;
+  result: unknown;
+  startedAt: string;
+  finishedAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobScheduleSummary {
+  id: string;
+  key: string;
+  kind: string;
+  payload: Record<string, unknown>;
+  cron: string;
+  enabled: boolean;
+  nextRunAt: string;
+  lastEnqueuedAt: string;
+  updatedAt: string;
+}
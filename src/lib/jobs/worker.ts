@@ -0,0 +1,39 @@
+// ── Job Worker ──
+// One worker tick: enqueue due schedules, then claim and run jobs until the
+// job or time budget runs out. Driven by /api/internal/jobs/run and the
+// job-queue GitHub workflow.
+
+import { claimJobs, createWorkerId, executeJob, pruneFinishedJobs, type ProcessedJob } from './queue';
+import { enqueueDueSchedules, ensureDefaultJobSchedules } from './scheduler';
+import './init';
+
+const FINISHED_JOB_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+
+export interface JobWorkerResult {
+  workerId: string;
+  scheduled: string[];
+  processed: ProcessedJob[];
+  pruned: number;
+}
+
+export async function runJobWorker(options?: {
+  maxJobs?: number;
+  timeBudgetMs?: number;
+}): Promise<JobWorkerResult> {
+  const maxJobs = Math.max(1, Math.min(200, options?.maxJobs ?? 25));
+  const deadline = Date.now() + Math.max(1000, options?.timeBudgetMs ?? 4 * 60 * 1000);
+  const workerId = createWorkerId();
+
+  await ensureDefaultJobSchedules();
+  const scheduled = await enqueueDueSchedules();
+
+  const processed: ProcessedJob[] = [];
+  while (processed.length < maxJobs && Date.now() < deadline) {
+    const [job] = await claimJobs(workerId, 1);
+    if (!job) break;
+    processed.push(await executeJob(job, workerId));
+  }
+
+  const pruned = await pruneFinishedJobs(FINISHED_JOB_RETENTION_MS);
+  return { workerId, scheduled, processed, pruned };
+}
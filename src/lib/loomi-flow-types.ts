@@ -0,0 +1,107 @@
+// ── LoomiFlow Definition Types ──
+// Client-safe shapes for the native flow step graph stored in
+// LoomiFlow.metadata. The runtime lives in src/lib/services/loomi-flows.ts.
+
+import type { FilterCondition } from './smart-list-types';
+import type { OutboundMessageChannel } from './esp/types';
+
+/** Contact date fields a flow can be triggered from. */
+export type LoomiFlowDateField =
+  | 'nextServiceDate'
+  | 'lastServiceDate'
+  | 'leaseEndDate'
+  | 'warrantyEndDate'
+  | 'purchaseDate'
+  | 'dateAdded';
+
+export const LOOMI_FLOW_DATE_FIELDS: LoomiFlowDateField[] = [
+  'nextServiceDate',
+  'lastServiceDate',
+  'leaseEndDate',
+  'warrantyEndDate',
+  'purchaseDate',
+  'dateAdded',
+];
+
+export type LoomiFlowTrigger =
+  /** Enroll contacts when they first match the flow's source audience. */
+  | { type: 'audience_entry' }
+  /**
+   * Enroll contacts when `field` + `offsetDays` reaches today (e.g. -14 on
+   * `leaseEndDate` = two weeks before lease end). The source audience, when
+   * set, further restricts who is eligible.
+   */
+  | { type: 'date_field'; field: LoomiFlowDateField; offsetDays: number };
+
+interface LoomiFlowStepBase {
+  id: string;
+  label?: string;
+}
+
+export interface LoomiFlowWaitStep extends LoomiFlowStepBase {
+  type: 'wait';
+  minutes: number;
+  next: string | null;
+}
+
+export interface LoomiFlowBranchStep extends LoomiFlowStepBase {
+  type: 'branch';
+  condition: FilterCondition;
+  /** Step to run when the condition matches (null ends the flow). */
+  yes: string | null;
+  no: string | null;
+}
+
+export interface LoomiFlowSendEmailStep extends LoomiFlowStepBase {
+  type: 'send_email';
+  subject: string;
+  previewText?: string;
+  htmlContent: string;
+  textContent?: string;
+  next: string | null;
+}
+
+export interface LoomiFlowSendSmsStep extends LoomiFlowStepBase {
+  type: 'send_sms';
+  message: string;
+  channel?: OutboundMessageChannel;
+  mediaUrls?: string[];
+  next: string | null;
+}
+
+export interface LoomiFlowAddTagStep extends LoomiFlowStepBase {
+  type: 'add_tag';
+  tags: string[];
+  next: string | null;
+}
+
+export type LoomiFlowStep =
+  | LoomiFlowWaitStep
+  | LoomiFlowBranchStep
+  | LoomiFlowSendEmailStep
+  | LoomiFlowSendSmsStep
+  | LoomiFlowAddTagStep;
+
+export type LoomiFlowStepType = LoomiFlowStep['type'];
+
+export interface LoomiFlowDefinition {
+  version: 1;
+  trigger: LoomiFlowTrigger;
+  entryStepId: string | null;
+  steps: LoomiFlowStep[];
+}
+
+export type LoomiFlowEnrollmentStatus =
+  | 'active' // due to run its current step
+  | 'waiting' // parked on a wait step until nextRunAt
+  | 'completed'
+  | 'exited' // left early (contact removed, flow deleted)
+  | 'failed';
+
+export interface LoomiFlowHistoryEntry {
+  at: string;
+  stepId: string;
+  type: LoomiFlowStepType | 'enrolled' | 'exit';
+  outcome: 'ok' | 'skipped' | 'failed';
+  detail?: string;
+}
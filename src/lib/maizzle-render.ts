@@ -12,7 +12,10 @@
 import { fork, type ChildProcess } from 'child_process';
 import crypto from 'crypto';
 import path from 'path';
+import { wrapConditionalComponents } from '@/lib/content-conditions';
 import { PATHS } from '@/lib/paths';
+import { expandSavedSections } from '@/lib/services/saved-sections';
+import { applyThemeTokens } from '@/lib/theme-tokens';
 
 // ── Types ──
 
@@ -86,7 +89,10 @@ class MaizzleRenderService {
     const request: RenderRequest = {
       type: 'render',
       id,
-      html,
+      // Saved sections expand to their pinned components, theme tokens the
+      // caller didn't resolve for an account get the default theme, then
+      // components with a visibility rule render inside conditional markers
+      html: wrapConditionalComponents(applyThemeTokens(await expandSavedSections(html))),
       config: {
         prettify: config.prettify,
         purge: config.purge,
@@ -8,13 +8,19 @@ export type NotificationType =
   | 'pacing_alert'
   | 'period_over_allocated'
   | 'ad_assigned'
-  | 'approval_changed';
+  | 'approval_changed'
+  | 'esp_connection_failed'
+  | 'esp_scopes_missing'
+  | 'esp_token_refresh_failed'
+  | 'template_review_requested'
+  | 'template_review_updated'
+  | 'template_review_comment';
 
 export interface NotificationTypeMeta {
   type: NotificationType;
   label: string;
   description: string;
-  category: 'Meta Ads Planner';
+  category: 'Meta Ads Planner' | 'ESP Connections' | 'Template Reviews';
   channel: 'digest' | 'immediate';
   defaultEnabled: boolean;
 }
@@ -88,6 +94,54 @@ export const NOTIFICATION_TYPE_REGISTRY: NotificationTypeMeta[] = [
     channel: 'immediate',
     defaultEnabled: true,
   },
+  {
+    type: 'esp_connection_failed',
+    label: 'ESP connection failing',
+    description: 'The scheduled health check could not reach a provider with an account\'s saved credentials.',
+    category: 'ESP Connections',
+    channel: 'immediate',
+    defaultEnabled: true,
+  },
+  {
+    type: 'esp_scopes_missing',
+    label: 'ESP scopes missing',
+    description: 'An OAuth connection was granted fewer scopes than Loomi needs; reconnect to fix.',
+    category: 'ESP Connections',
+    channel: 'immediate',
+    defaultEnabled: true,
+  },
+  {
+    type: 'esp_token_refresh_failed',
+    label: 'ESP token refresh failed',
+    description: 'An OAuth access token expired and could not be refreshed.',
+    category: 'ESP Connections',
+    channel: 'immediate',
+    defaultEnabled: true,
+  },
+  {
+    type: 'template_review_requested',
+    label: 'Template review requested',
+    description: 'A template was submitted for your approval before it is published.',
+    category: 'Template Reviews',
+    channel: 'immediate',
+    defaultEnabled: true,
+  },
+  {
+    type: 'template_review_updated',
+    label: 'Template review status changed',
+    description: 'A template you submitted or review was approved, sent back for changes, reopened or published.',
+    category: 'Template Reviews',
+    channel: 'immediate',
+    defaultEnabled: true,
+  },
+  {
+    type: 'template_review_comment',
+    label: 'Template review comment',
+    description: 'Someone commented on a template you submitted or review.',
+    category: 'Template Reviews',
+    channel: 'immediate',
+    defaultEnabled: true,
+  },
 ];
 
 const REGISTRY_BY_TYPE: Record<NotificationType, NotificationTypeMeta> = Object.fromEntries(
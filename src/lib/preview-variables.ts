@@ -115,16 +115,31 @@ function fallbackContactDefaults(): Record<string, string> {
   };
 }
 
+export interface VariableMapOptions {
+  /**
+   * Fill gaps with sample data (Alex Customer, Preview Dealer, 555 numbers).
+   * Defaults to true for previews; real sends pass false so empty values stay
+   * empty and can be reported or replaced with configured fallbacks.
+   */
+  sampleDefaults?: boolean;
+}
+
 export function buildPreviewVariableMap(
   accountData?: PreviewAccountData | null,
   contact?: PreviewContact | null,
+  options?: VariableMapOptions,
 ): Record<string, string> {
-  const values: Record<string, string> = {
-    '{{unsubscribe_link}}': 'https://example.com/unsubscribe',
-    '{{message.id}}': 'preview-message-id',
-  };
+  const samples = options?.sampleDefaults ?? true;
+  const sample = (value: string) => (samples ? value : '');
+  const values: Record<string, string> = {};
 
-  mergeTokenMap(values, fallbackContactDefaults());
+  if (samples) {
+    mergeTokenMap(values, {
+      '{{unsubscribe_link}}': 'https://example.com/unsubscribe',
+      '{{message.id}}': 'preview-message-id',
+    });
+    mergeTokenMap(values, fallbackContactDefaults());
+  }
 
   if (contact) {
     mergeTokenMap(values, {
@@ -151,17 +166,17 @@ export function buildPreviewVariableMap(
     });
   }
 
-  const dealerName = resolveAccountDealerName(accountData, 'Preview Dealer');
+  const dealerName = resolveAccountDealerName(accountData, sample('Preview Dealer'));
   const brandingColors = accountData?.branding?.colors;
   const brandingFonts = accountData?.branding?.fonts;
   mergeTokenMap(values, {
     '{{location.name}}': dealerName,
-    '{{location.email}}': resolveAccountEmail(accountData, 'dealer@example.com'),
-    '{{location.phone}}': resolveAccountPhone(accountData, '(801) 555-0100'),
-    '{{location.address}}': resolveAccountAddress(accountData, '450 N Main St'),
-    '{{location.city}}': resolveAccountCity(accountData, 'Layton'),
-    '{{location.state}}': resolveAccountState(accountData, 'UT'),
-    '{{location.postal_code}}': resolveAccountPostalCode(accountData, '84041'),
+    '{{location.email}}': resolveAccountEmail(accountData, sample('dealer@example.com')),
+    '{{location.phone}}': resolveAccountPhone(accountData, sample('(801) 555-0100')),
+    '{{location.address}}': resolveAccountAddress(accountData, sample('450 N Main St')),
+    '{{location.city}}': resolveAccountCity(accountData, sample('Layton')),
+    '{{location.state}}': resolveAccountState(accountData, sample('UT')),
+    '{{location.postal_code}}': resolveAccountPostalCode(accountData, sample('84041')),
     '{{location.website}}': resolveAccountWebsite(accountData),
   });
 
@@ -178,9 +193,9 @@ export function buildPreviewVariableMap(
   const mainPhone = resolveAccountPhone(accountData);
   mergeTokenMap(values, {
     // Phone numbers — only set if not already populated by customValues
-    ...(!values['{{custom_values.sales_phone}}'] ? { '{{custom_values.sales_phone}}': accountData?.phoneSales || accountData?.salesPhone || mainPhone || '(801) 555-0101' } : {}),
-    ...(!values['{{custom_values.service_phone}}'] ? { '{{custom_values.service_phone}}': accountData?.phoneService || accountData?.servicePhone || '(801) 555-0102' } : {}),
-    ...(!values['{{custom_values.parts_phone}}'] ? { '{{custom_values.parts_phone}}': accountData?.phoneParts || accountData?.partsPhone || '(801) 555-0103' } : {}),
+    ...(!values['{{custom_values.sales_phone}}'] ? { '{{custom_values.sales_phone}}': accountData?.phoneSales || accountData?.salesPhone || mainPhone || sample('(801) 555-0101') } : {}),
+    ...(!values['{{custom_values.service_phone}}'] ? { '{{custom_values.service_phone}}': accountData?.phoneService || accountData?.servicePhone || sample('(801) 555-0102') } : {}),
+    ...(!values['{{custom_values.parts_phone}}'] ? { '{{custom_values.parts_phone}}': accountData?.phoneParts || accountData?.partsPhone || sample('(801) 555-0103') } : {}),
     // Branding
     ...(!values['{{custom_values.dealer_name}}'] ? { '{{custom_values.dealer_name}}': dealerName } : {}),
     ...(!values['{{custom_values.crm_name}}'] ? { '{{custom_values.crm_name}}': dealerName } : {}),
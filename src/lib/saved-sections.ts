@@ -0,0 +1,137 @@
+// ── Saved Sections ──
+// A saved section is a named, versioned bundle of core components. Templates
+// don't copy its components: they hold one `<x-core.saved-section>` tag
+// pinned to a version, and the components are expanded in its place right
+// before rendering. Updating a section creates a new version; templates stay
+// on the version they pinned until the update is applied to them.
+
+import type { ParsedComponent } from '@/lib/template-parser';
+
+export const SAVED_SECTION_COMPONENT = 'saved-section';
+export const SAVED_SECTION_ID_ATTRIBUTE = 'section-id';
+export const SAVED_SECTION_VERSION_ATTRIBUTE = 'section-version';
+
+export interface SavedSectionSummary {
+  id: string;
+  accountKey: string | null;
+  name: string;
+  description: string | null;
+  version: number;
+  componentCount: number;
+  componentTypes: string[];
+  updatedAt: string;
+}
+
+export interface SavedSectionDetail extends SavedSectionSummary {
+  components: ParsedComponent[];
+}
+
+export type SavedSectionUsageKind = 'esp-template' | 'library-template' | 'account-email';
+
+/** A template or email that references a saved section. */
+export interface SavedSectionUsage {
+  kind: SavedSectionUsageKind;
+  id: string;
+  name: string;
+  accountKey: string | null;
+  /** Lowest version the source pins; it is outdated when below the section's version. */
+  pinnedVersion: number;
+  outdated: boolean;
+  /** ESP templates only: whether the template has a copy in an ESP that needs republishing. */
+  publishedToEsp?: boolean;
+}
+
+export interface SavedSectionReference {
+  sectionId: string;
+  version: number;
+}
+
+const REFERENCE_TAG_PATTERN = /<x-core\.saved-section\b([\s\S]*?)(?:\/>|>[\s\S]*?<\/x-core\.saved-section>)/g;
+const SECTION_ID_PATTERN = /\ssection-id=(?:"([^"]*)"|'([^']*)')/;
+const SECTION_VERSION_PATTERN = /(\ssection-version=)(?:"([^"]*)"|'([^']*)')/;
+
+export function isSavedSectionReference(component: Pick<ParsedComponent, 'type'>): boolean {
+  return component.type === SAVED_SECTION_COMPONENT;
+}
+
+/** Placeholder component that references one version of a saved section. */
+export function savedSectionReference(sectionId: string, version: number): ParsedComponent {
+  return {
+    type: SAVED_SECTION_COMPONENT,
+    props: {
+      [SAVED_SECTION_ID_ATTRIBUTE]: sectionId,
+      [SAVED_SECTION_VERSION_ATTRIBUTE]: String(version),
+    },
+  };
+}
+
+export function readSavedSectionReference(component: ParsedComponent): SavedSectionReference | null {
+  if (!isSavedSectionReference(component)) return null;
+  const sectionId = component.props[SAVED_SECTION_ID_ATTRIBUTE];
+  const version = Number(component.props[SAVED_SECTION_VERSION_ATTRIBUTE]);
+  if (!sectionId) return null;
+  return { sectionId, version: Number.isInteger(version) && version > 0 ? version : 0 };
+}
+
+function readTagReference(attributes: string): SavedSectionReference | null {
+  const id = attributes.match(SECTION_ID_PATTERN);
+  const sectionId = id ? id[1] ?? id[2] ?? '' : '';
+  if (!sectionId) return null;
+  const versionMatch = attributes.match(SECTION_VERSION_PATTERN);
+  const version = Number(versionMatch ? versionMatch[2] ?? versionMatch[3] : '');
+  return { sectionId, version: Number.isInteger(version) && version > 0 ? version : 0 };
+}
+
+/** Every saved-section reference in a template source, in document order. */
+export function findSavedSectionReferences(source: string): SavedSectionReference[] {
+  if (!source || !source.includes('x-core.saved-section')) return [];
+  const references: SavedSectionReference[] = [];
+  for (const match of source.matchAll(REFERENCE_TAG_PATTERN)) {
+    const reference = readTagReference(match[1]);
+    if (reference) references.push(reference);
+  }
+  return references;
+}
+
+/**
+ * Replace each saved-section tag in a source. The callback receives the tag's
+ * reference and returns its replacement; returning null keeps the tag.
+ */
+export function replaceSavedSectionReferences(
+  source: string,
+  replace: (reference: SavedSectionReference, tag: string, attributes: string) => string | null,
+): string {
+  if (!source || !source.includes('x-core.saved-section')) return source;
+  return source.replace(REFERENCE_TAG_PATTERN, (tag: string, attributes: string) => {
+    const reference = readTagReference(attributes);
+    if (!reference) return tag;
+    return replace(reference, tag, attributes) ?? tag;
+  });
+}
+
+/** Move every reference to one section onto a new version. */
+export function retargetSavedSectionReferences(source: string, sectionId: string, version: number): string {
+  return replaceSavedSectionReferences(source, (reference, tag) => {
+    if (reference.sectionId !== sectionId || reference.version === version) return null;
+    return SECTION_VERSION_PATTERN.test(tag)
+      ? tag.replace(SECTION_VERSION_PATTERN, `$1"${version}"`)
+      : tag.replace(SECTION_ID_PATTERN, (attribute) => `${attribute} ${SAVED_SECTION_VERSION_ATTRIBUTE}="${version}"`);
+  });
+}
+
+/**
+ * Components as a section stores them: no source positions or raw tags, and
+ * no nested saved sections, which would make versions depend on each other.
+ */
+export function sanitizeSectionComponents(components: ParsedComponent[]): ParsedComponent[] {
+  return components
+    .filter((component) => component && typeof component.type === 'string' && !isSavedSectionReference(component))
+    .map((component) => {
+      const props: Record<string, string> = {};
+      for (const [key, value] of Object.entries(component.props || {})) {
+        if (key === 'component-index' || typeof value !== 'string') continue;
+        props[key] = value;
+      }
+      return component.content ? { type: component.type, props, content: component.content } : { type: component.type, props };
+    });
+}
@@ -1,4 +1,5 @@
 import { prisma } from '@/lib/prisma';
+import { diffAuditFields, recordAuditEvent, type AuditActor } from '@/lib/services/audit-log';
 
 const ACCOUNT_REP_SELECT = {
   id: true,
@@ -103,9 +104,21 @@ export async function createAccount(data: {
   branding?: string;
   customValues?: string;
   accountRepId?: string;
-}) {
+}, actor?: AuditActor | null) {
   const slug = data.slug || await generateUniqueSlug(data.dealer, data.city);
-  return prisma.account.create({ data: { ...data, slug } });
+  const account = await prisma.account.create({ data: { ...data, slug } });
+  if (actor !== undefined) {
+    await recordAuditEvent({
+      action: 'account.create',
+      targetType: 'account',
+      targetId: account.key,
+      targetLabel: account.dealer,
+      accountKey: account.key,
+      actor,
+      metadata: { espProvider: account.espProvider, category: account.category },
+    });
+  }
+  return account;
 }
 
 export async function updateAccount(
@@ -130,14 +143,47 @@ export async function updateAccount(
     logos: string;
     branding: string;
     customValues: string;
+    smsSendPolicy: string;
+    emailTrackingPolicy: string;
     accountRepId: string | null;
   }>,
+  actor?: AuditActor | null,
 ) {
-  return prisma.account.update({ where: { key }, data });
+  // System writes (OAuth bookkeeping, sync jobs) pass no actor and aren't audited.
+  if (actor === undefined) {
+    return prisma.account.update({ where: { key }, data });
+  }
+
+  const before = await prisma.account.findUnique({ where: { key } });
+  const saved = await prisma.account.update({ where: { key }, data });
+  const changes = diffAuditFields(before, saved, Object.keys(data));
+  if (Object.keys(changes).length > 0) {
+    await recordAuditEvent({
+      action: 'account.update',
+      targetType: 'account',
+      targetId: key,
+      targetLabel: saved.dealer,
+      accountKey: key,
+      actor,
+      changes,
+    });
+  }
+  return saved;
 }
 
-export async function deleteAccount(key: string) {
-  return prisma.account.delete({ where: { key } });
+export async function deleteAccount(key: string, actor?: AuditActor | null) {
+  const deleted = await prisma.account.delete({ where: { key } });
+  if (actor !== undefined) {
+    await recordAuditEvent({
+      action: 'account.delete',
+      targetType: 'account',
+      targetId: key,
+      targetLabel: deleted.dealer,
+      accountKey: key,
+      actor,
+    });
+  }
+  return deleted;
 }
 
 export async function getAllAccountKeys() {
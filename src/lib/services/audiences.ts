@@ -1,4 +1,25 @@
 import { prisma } from '@/lib/prisma';
+import { filterAccountKeysByAccess, type UserRole } from '@/lib/roles';
+import { parseFilterDefinition, type FilterDefinition } from '@/lib/smart-list-types';
+import * as accountService from '@/lib/services/accounts';
+
+export class AudienceSelectionError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'AudienceSelectionError';
+    this.status = status;
+  }
+}
+
+/** A saved audience or inline filter definition, scoped to accounts the user can reach. */
+export interface AudienceSelection {
+  audienceId: string | null;
+  /** Null selects every contact in the accounts. */
+  definition: FilterDefinition | null;
+  accountKeys: string[];
+}
 
 export async function getAudiences(accountKeys?: string[]) {
   const where = accountKeys
@@ -23,3 +44,73 @@ export async function createAudience(data: {
 }) {
   return prisma.audience.create({ data });
 }
+
+export async function getAudience(id: string) {
+  return prisma.audience.findUnique({ where: { id } });
+}
+
+/**
+ * Resolve an untrusted `{ audienceId | filters, accountKeys }` request body
+ * into the definition and accounts to evaluate against the contact index.
+ * Requesting an account outside the user's access, or an audience owned by
+ * another account, is forbidden. Sends pass `requireTarget` so a missing
+ * audience and filter can't select every contact.
+ */
+export async function resolveAudienceSelection(
+  user: { role: UserRole; accountKeys?: string[] },
+  input: { audienceId?: unknown; filters?: unknown; accountKeys?: unknown },
+  options?: { requireTarget?: boolean },
+): Promise<AudienceSelection> {
+  const audienceId = typeof input.audienceId === 'string' ? input.audienceId.trim() : '';
+
+  let definition: FilterDefinition | null = null;
+  let audienceAccountKey: string | null = null;
+  if (audienceId) {
+    const audience = await getAudience(audienceId);
+    if (!audience) throw new AudienceSelectionError('Audience not found', 404);
+    definition = parseFilterDefinition(audience.filters);
+    if (!definition) throw new AudienceSelectionError('Audience has an invalid filter definition', 422);
+    audienceAccountKey = audience.accountKey;
+  } else if (input.filters !== undefined && input.filters !== null) {
+    definition = parseFilterDefinition(input.filters);
+    if (!definition) throw new AudienceSelectionError('A valid filter definition is required');
+  } else if (options?.requireTarget) {
+    throw new AudienceSelectionError('An audience or filter is required');
+  }
+
+  const allAccounts = await accountService.getAccounts();
+  const allKeys = allAccounts.filter((account) => !account.key.startsWith('_')).map((account) => account.key);
+  const allowedKeys = filterAccountKeysByAccess(allKeys, user.role, user.accountKeys ?? []);
+  if (audienceAccountKey && !allowedKeys.includes(audienceAccountKey)) {
+    throw new AudienceSelectionError('Forbidden', 403);
+  }
+
+  const requestedKeys: string[] = Array.isArray(input.accountKeys)
+    ? input.accountKeys.map((key: unknown) => String(key).trim()).filter(Boolean)
+    : [];
+  if (requestedKeys.some((key) => !allowedKeys.includes(key))) {
+    throw new AudienceSelectionError('Forbidden', 403);
+  }
+  let accountKeys = requestedKeys.length > 0 ? requestedKeys : allowedKeys;
+  if (audienceAccountKey) {
+    accountKeys = accountKeys.filter((key) => key === audienceAccountKey);
+  }
+
+  return { audienceId: audienceId || null, definition, accountKeys };
+}
+
+/**
+ * Fail a send when a selected account's contacts have never been indexed;
+ * evaluating it would silently find no one.
+ */
+export function assertAudienceIndexed(perAccount: Record<string, { indexed: boolean }>): void {
+  const unindexed = Object.entries(perAccount)
+    .filter(([, account]) => !account.indexed)
+    .map(([accountKey]) => accountKey);
+  if (unindexed.length > 0) {
+    throw new AudienceSelectionError(
+      `Contacts have not been indexed yet for ${unindexed.join(', ')}; run a contact sync before sending`,
+      409,
+    );
+  }
+}
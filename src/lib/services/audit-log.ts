@@ -0,0 +1,362 @@
+import type { Session } from 'next-auth';
+import { prisma } from '@/lib/prisma';
+import {
+  DEFAULT_AUDIT_RETENTION_DAYS,
+  MAX_AUDIT_RETENTION_DAYS,
+  MIN_AUDIT_RETENTION_DAYS,
+  type AuditAction,
+  type AuditChanges,
+  type AuditTargetType,
+} from '@/lib/audit-actions';
+
+const SETTINGS_SINGLETON_KEY = 'primary';
+const MAX_PAGE_SIZE = 200;
+const MAX_VALUE_LENGTH = 2000;
+const PRUNE_BATCH_SIZE = 5000;
+
+/** Values that must never be written to the audit trail verbatim. */
+const REDACTED_FIELDS = new Set(['password', 'apiKey', 'accessToken', 'refreshToken', 'tokenHash']);
+
+/** Who performed an action. `name`/`email` are looked up when omitted. */
+export interface AuditActor {
+  userId: string | null;
+  name?: string | null;
+  email?: string | null;
+  role?: string | null;
+  /** Real user behind an impersonated session. */
+  impersonatorUserId?: string | null;
+}
+
+export interface RecordAuditEventInput {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId?: string | null;
+  targetLabel?: string | null;
+  accountKey?: string | null;
+  actor: AuditActor | null | undefined;
+  changes?: AuditChanges;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditEventSummary {
+  id: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  targetLabel: string;
+  accountKey: string;
+  actorUserId: string;
+  actorName: string;
+  actorEmail: string;
+  actorRole: string;
+  impersonatorUserId: string;
+  impersonatorName: string;
+  changes: AuditChanges;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface AuditEventFilters {
+  accountKey?: string;
+  actorUserId?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: Date | null;
+  to?: Date | null;
+}
+
+export interface AuditLogSettingsSummary {
+  retentionDays: number;
+  updatedByUserId: string;
+  updatedAt: string;
+}
+
+export function auditActorFromSession(session: Session | null | undefined): AuditActor | null {
+  if (!session?.user) return null;
+  return {
+    userId: session.user.id,
+    name: session.user.name,
+    email: session.user.email,
+    role: session.user.role,
+    impersonatorUserId: session.user.originalUserId || null,
+  };
+}
+
+function normalizeComparable(value: unknown): unknown {
+  if (value === undefined || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+function truncateValue(value: unknown): unknown {
+  if (typeof value === 'string' && value.length > MAX_VALUE_LENGTH) {
+    return `${value.slice(0, MAX_VALUE_LENGTH)}… (${value.length} chars)`;
+  }
+  return value;
+}
+
+/**
+ * Field-level before/after for the fields that actually changed. Pass
+ * `fields` to limit the comparison; otherwise every key on `after` is checked.
+ * Secrets are recorded as changed but never with their values.
+ */
+export function diffAuditFields(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+  fields?: readonly string[],
+): AuditChanges {
+  const keys = fields ?? Object.keys({ ...(before ?? {}), ...(after ?? {}) });
+  const changes: AuditChanges = {};
+  for (const key of keys) {
+    const previous = normalizeComparable(before?.[key]);
+    const next = normalizeComparable(after?.[key]);
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue;
+    changes[key] = REDACTED_FIELDS.has(key)
+      ? { before: '[redacted]', after: '[redacted]' }
+      : { before: truncateValue(previous), after: truncateValue(next) };
+  }
+  return changes;
+}
+
+async function resolveUserNames(ids: string[]): Promise<Map<string, { name: string; email: string }>> {
+  const unique = [...new Set(ids.filter(Boolean))];
+  if (unique.length === 0) return new Map();
+  const users = await prisma.user.findMany({
+    where: { id: { in: unique } },
+    select: { id: true, name: true, email: true },
+  });
+  return new Map(users.map((user) => [user.id, { name: user.name, email: user.email }]));
+}
+
+/**
+ * Append an event to the audit trail. Never throws — a failed audit write is
+ * logged rather than failing the action it describes.
+ */
+export async function recordAuditEvent(input: RecordAuditEventInput): Promise<void> {
+  try {
+    const actor = input.actor ?? null;
+    const needsLookup = [
+      actor?.userId && (!actor.name || !actor.email) ? actor.userId : '',
+      actor?.impersonatorUserId || '',
+    ];
+    const names = await resolveUserNames(needsLookup);
+    const actorLookup = actor?.userId ? names.get(actor.userId) : undefined;
+
+    await prisma.auditEvent.create({
+      data: {
+        action: input.action,
+        targetType: input.targetType,
+        targetId: input.targetId || null,
+        targetLabel: input.targetLabel || null,
+        accountKey: input.accountKey || null,
+        actorUserId: actor?.userId || null,
+        actorName: actor?.name || actorLookup?.name || null,
+        actorEmail: actor?.email || actorLookup?.email || null,
+        actorRole: actor?.role || null,
+        impersonatorUserId: actor?.impersonatorUserId || null,
+        impersonatorName: actor?.impersonatorUserId
+          ? names.get(actor.impersonatorUserId)?.name || null
+          : null,
+        changes: JSON.stringify(input.changes ?? {}),
+        metadata: JSON.stringify(input.metadata ?? {}),
+      },
+    });
+  } catch (err) {
+    console.error(`[audit-log] Failed to record ${input.action} on ${input.targetType}:${input.targetId ?? ''}:`, err);
+  }
+}
+
+function parseJsonObject<T extends object>(raw: string): T {
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as T : {} as T;
+  } catch {
+    return {} as T;
+  }
+}
+
+type AuditEventRow = {
+  id: string;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  targetLabel: string | null;
+  accountKey: string | null;
+  actorUserId: string | null;
+  actorName: string | null;
+  actorEmail: string | null;
+  actorRole: string | null;
+  impersonatorUserId: string | null;
+  impersonatorName: string | null;
+  changes: string;
+  metadata: string;
+  createdAt: Date;
+};
+
+function toSummary(row: AuditEventRow): AuditEventSummary {
+  return {
+    id: row.id,
+    action: row.action,
+    targetType: row.targetType,
+    targetId: row.targetId || '',
+    targetLabel: row.targetLabel || '',
+    accountKey: row.accountKey || '',
+    actorUserId: row.actorUserId || '',
+    actorName: row.actorName || '',
+    actorEmail: row.actorEmail || '',
+    actorRole: row.actorRole || '',
+    impersonatorUserId: row.impersonatorUserId || '',
+    impersonatorName: row.impersonatorName || '',
+    changes: parseJsonObject<AuditChanges>(row.changes),
+    metadata: parseJsonObject<Record<string, unknown>>(row.metadata),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function buildWhere(filters: AuditEventFilters) {
+  return {
+    ...(filters.accountKey ? { accountKey: filters.accountKey } : {}),
+    ...(filters.actorUserId ? { actorUserId: filters.actorUserId } : {}),
+    ...(filters.action ? { action: filters.action } : {}),
+    ...(filters.targetType ? { targetType: filters.targetType } : {}),
+    ...(filters.targetId ? { targetId: filters.targetId } : {}),
+    ...(filters.from || filters.to
+      ? {
+        createdAt: {
+          ...(filters.from ? { gte: filters.from } : {}),
+          ...(filters.to ? { lte: filters.to } : {}),
+        },
+      }
+      : {}),
+  };
+}
+
+function parseDateParam(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** Read viewer/export filters from a query string. */
+export function parseAuditEventFilters(searchParams: URLSearchParams): AuditEventFilters {
+  const text = (key: string) => searchParams.get(key)?.trim() || undefined;
+  const to = parseDateParam(searchParams.get('to'));
+  // A bare date (YYYY-MM-DD) for `to` means "through the end of that day".
+  if (to && /^\d{4}-\d{2}-\d{2}$/.test(searchParams.get('to') || '')) {
+    to.setUTCHours(23, 59, 59, 999);
+  }
+  return {
+    accountKey: text('accountKey'),
+    actorUserId: text('actorUserId'),
+    action: text('action'),
+    targetType: text('targetType'),
+    targetId: text('targetId'),
+    from: parseDateParam(searchParams.get('from')),
+    to,
+  };
+}
+
+/** Newest-first page of events. `cursor` is the id of the last event of the previous page. */
+export async function listAuditEvents(
+  filters: AuditEventFilters,
+  options?: { limit?: number; cursor?: string | null },
+): Promise<{ events: AuditEventSummary[]; nextCursor: string | null }> {
+  const limit = Math.max(1, Math.min(MAX_PAGE_SIZE, options?.limit ?? 50));
+  const rows = await prisma.auditEvent.findMany({
+    where: buildWhere(filters),
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    ...(options?.cursor ? { cursor: { id: options.cursor }, skip: 1 } : {}),
+  });
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+  return {
+    events: page.map(toSummary),
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
+}
+
+/** Every matching event (newest first), capped at `maxRows`, for CSV export. */
+export async function collectAuditEvents(
+  filters: AuditEventFilters,
+  maxRows: number,
+): Promise<AuditEventSummary[]> {
+  const events: AuditEventSummary[] = [];
+  let cursor: string | null = null;
+  while (events.length < maxRows) {
+    const page = await listAuditEvents(filters, {
+      limit: Math.min(MAX_PAGE_SIZE, maxRows - events.length),
+      cursor,
+    });
+    events.push(...page.events);
+    if (!page.nextCursor) break;
+    cursor = page.nextCursor;
+  }
+  return events;
+}
+
+// ── Retention ──
+
+export async function getAuditLogSettings(): Promise<AuditLogSettingsSummary> {
+  const row = await prisma.auditLogSettings.findUnique({ where: { singletonKey: SETTINGS_SINGLETON_KEY } });
+  return {
+    retentionDays: row?.retentionDays ?? DEFAULT_AUDIT_RETENTION_DAYS,
+    updatedByUserId: row?.updatedByUserId || '',
+    updatedAt: row?.updatedAt.toISOString() || '',
+  };
+}
+
+export async function updateAuditLogSettings(
+  input: { retentionDays: unknown },
+  actor: AuditActor | null,
+): Promise<AuditLogSettingsSummary> {
+  const retentionDays = Number(input.retentionDays);
+  if (
+    !Number.isInteger(retentionDays) ||
+    retentionDays < MIN_AUDIT_RETENTION_DAYS ||
+    retentionDays > MAX_AUDIT_RETENTION_DAYS
+  ) {
+    throw new Error(`retentionDays must be between ${MIN_AUDIT_RETENTION_DAYS} and ${MAX_AUDIT_RETENTION_DAYS}`);
+  }
+
+  const before = await getAuditLogSettings();
+  await prisma.auditLogSettings.upsert({
+    where: { singletonKey: SETTINGS_SINGLETON_KEY },
+    create: { singletonKey: SETTINGS_SINGLETON_KEY, retentionDays, updatedByUserId: actor?.userId || null },
+    update: { retentionDays, updatedByUserId: actor?.userId || null },
+  });
+
+  await recordAuditEvent({
+    action: 'audit.settings.update',
+    targetType: 'audit-settings',
+    targetId: SETTINGS_SINGLETON_KEY,
+    actor,
+    changes: diffAuditFields({ retentionDays: before.retentionDays }, { retentionDays }),
+  });
+
+  return getAuditLogSettings();
+}
+
+/** Delete events older than the configured retention window. */
+export async function pruneAuditEvents(): Promise<{ deleted: number; cutoff: string }> {
+  const { retentionDays } = await getAuditLogSettings();
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+  // Delete in batches so a first run against a large backlog doesn't hold one huge transaction.
+  let deleted = 0;
+  for (;;) {
+    const batch = await prisma.auditEvent.findMany({
+      where: { createdAt: { lt: cutoff } },
+      select: { id: true },
+      take: PRUNE_BATCH_SIZE,
+    });
+    if (batch.length === 0) break;
+    const result = await prisma.auditEvent.deleteMany({ where: { id: { in: batch.map((row) => row.id) } } });
+    deleted += result.count;
+    if (batch.length < PRUNE_BATCH_SIZE) break;
+  }
+
+  return { deleted, cutoff: cutoff.toISOString() };
+}
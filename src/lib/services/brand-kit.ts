@@ -0,0 +1,118 @@
+import { prisma } from '@/lib/prisma';
+import {
+  THEME_TOKENS,
+  applyThemeTokens,
+  findThemeTokens,
+  resolveThemeTokens,
+  type AccountBrandKit,
+  type ThemeTokenKind,
+  type ThemeTokenResolution,
+} from '@/lib/theme-tokens';
+
+export interface BrandTokenStatus {
+  key: string;
+  label: string;
+  kind: ThemeTokenKind;
+  /** The account's own value; null when the token falls back. */
+  value: string | null;
+  /** What templates render with (the account's value, a substitute logo or the default). */
+  resolved: string;
+}
+
+export interface BrandCompleteness {
+  accountKey: string;
+  complete: boolean;
+  tokens: BrandTokenStatus[];
+  missing: string[];
+  /** Templates of this account that use a token the brand kit is missing. */
+  templates: Array<{ id: string; name: string; missingTokens: string[] }>;
+}
+
+function parseJsonObject<T>(raw: string | null | undefined): T | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as T : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function loadAccountBrandKit(accountKey: string): Promise<AccountBrandKit | null> {
+  const account = await prisma.account.findUnique({
+    where: { key: accountKey },
+    select: { branding: true, logos: true },
+  });
+  if (!account) return null;
+  return {
+    branding: parseJsonObject<AccountBrandKit['branding']>(account.branding),
+    logos: parseJsonObject<AccountBrandKit['logos']>(account.logos),
+  };
+}
+
+/** Theme token values for an account; defaults when there's no account. */
+export async function resolveAccountThemeTokens(accountKey?: string | null): Promise<ThemeTokenResolution> {
+  return resolveThemeTokens(accountKey ? await loadAccountBrandKit(accountKey) : null);
+}
+
+/** Resolve a template source's theme tokens against one account's brand kit. */
+export async function applyAccountTheme(source: string, accountKey?: string | null): Promise<string> {
+  if (findThemeTokens(source).length === 0) return source;
+  const { values } = await resolveAccountThemeTokens(accountKey);
+  return applyThemeTokens(source, values);
+}
+
+export async function getBrandCompleteness(accountKey: string): Promise<BrandCompleteness | null> {
+  const kit = await loadAccountBrandKit(accountKey);
+  if (!kit) return null;
+  const { values, missing } = resolveThemeTokens(kit);
+  const missingSet = new Set(missing);
+
+  const templates = missing.length === 0
+    ? []
+    : await prisma.espTemplate.findMany({
+      where: {
+        accountKey,
+        OR: [
+          { source: { contains: '{brand.' } },
+          { source: { contains: '{logo.' } },
+          { source: { startsWith: 'library:' } },
+        ],
+      },
+      select: { id: true, name: true, source: true },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+  // Clones of a library template point at it (`library:<slug>`) instead of holding the source
+  const librarySlugs = [...new Set(templates
+    .map((template) => template.source ?? '')
+    .filter((source) => source.startsWith('library:'))
+    .map((source) => source.slice('library:'.length)))];
+  const librarySources = new Map(librarySlugs.length === 0
+    ? []
+    : (await prisma.template.findMany({
+      where: { slug: { in: librarySlugs } },
+      select: { slug: true, content: true },
+    })).map((template) => [`library:${template.slug}`, template.content]));
+
+  return {
+    accountKey,
+    complete: missing.length === 0,
+    tokens: THEME_TOKENS.map((token) => ({
+      key: token.key,
+      label: token.label,
+      kind: token.kind,
+      value: missingSet.has(token.key) ? null : values[token.key],
+      resolved: values[token.key],
+    })),
+    missing,
+    templates: templates
+      .map((template) => ({
+        id: template.id,
+        name: template.name,
+        missingTokens: findThemeTokens(librarySources.get(template.source ?? '') ?? template.source ?? '')
+          .filter((key) => missingSet.has(key)),
+      }))
+      .filter((template) => template.missingTokens.length > 0),
+  };
+}
@@ -0,0 +1,62 @@
+import { prisma } from '@/lib/prisma';
+import { verifyEmailTrackingToken } from '@/lib/email-tracking';
+import { normalizeLinkUrl, type CampaignLinkClick } from '@/lib/campaign-link-heatmap';
+
+/**
+ * Per-link click counts for one campaign in one account, from stored click
+ * events that carry a URL (Loomi redirects, SendGrid and Klaviyo webhooks).
+ */
+
+const MAX_LINKS = 100;
+
+/**
+ * Providers that click-track on top of Loomi report the Loomi redirect as the
+ * clicked URL; unwrap it so both count against the real destination.
+ */
+function resolveClickedUrl(raw: string): string {
+  if (!raw.includes('/api/email/track/click')) return raw;
+  try {
+    const token = new URL(raw).searchParams.get('t');
+    const payload = token ? verifyEmailTrackingToken(token) : null;
+    return payload?.url || raw;
+  } catch {
+    return raw;
+  }
+}
+
+export async function getCampaignLinkClicks(
+  accountKey: string,
+  campaignId: string,
+): Promise<{ links: CampaignLinkClick[]; totalClicks: number; sources: string[] }> {
+  const events = await prisma.emailEvent.findMany({
+    where: { campaignId, accountKey, eventType: 'clicked', url: { not: null } },
+    select: { provider: true, email: true, url: true },
+  });
+
+  const byUrl = new Map<string, { perProvider: Map<string, number>; emails: Set<string> }>();
+  const sources = new Set<string>();
+  for (const event of events) {
+    const url = normalizeLinkUrl(resolveClickedUrl(event.url as string));
+    if (!url) continue;
+    const entry = byUrl.get(url) || { perProvider: new Map<string, number>(), emails: new Set<string>() };
+    entry.perProvider.set(event.provider, (entry.perProvider.get(event.provider) ?? 0) + 1);
+    if (event.email) entry.emails.add(event.email);
+    byUrl.set(url, entry);
+    sources.add(event.provider);
+  }
+
+  // An ESP's own click tracking and Loomi's redirect see the same clicks, so
+  // take the provider that saw the most rather than summing them.
+  const counted = [...byUrl.entries()].map(([url, entry]) => ({
+    url,
+    clicks: Math.max(...entry.perProvider.values()),
+    uniqueClicks: entry.emails.size,
+  }));
+  const totalClicks = counted.reduce((sum, link) => sum + link.clicks, 0);
+  const links = counted
+    .map((link) => ({ ...link, share: totalClicks > 0 ? link.clicks / totalClicks : 0 }))
+    .sort((a, b) => b.clicks - a.clicks || b.uniqueClicks - a.uniqueClicks)
+    .slice(0, MAX_LINKS);
+
+  return { links, totalClicks, sources: [...sources].sort() };
+}
@@ -0,0 +1,553 @@
+import { prisma } from '@/lib/prisma';
+import '@/lib/esp/init';
+import { getAdapterForAccount } from '@/lib/esp/registry';
+import { withConcurrencyLimit } from '@/lib/esp/utils';
+import { providerUnsupportedMessage } from '@/lib/esp/provider-display';
+import type { ContactPatch, EspCredentials, ContactsAdapter } from '@/lib/esp/types';
+import { normalizeEmailAddress, normalizePhoneNumber } from '@/lib/contact-hygiene';
+import {
+  mapContactRow,
+  sanitizeColumnMapping,
+  suggestColumnMapping,
+  toCsv,
+  type ContactColumnMapping,
+} from '@/lib/contact-csv';
+import { upsertIndexedContact } from '@/lib/services/contact-index';
+
+// ── Contact Imports ──
+// CSV rows are mapped and validated up front, matched to existing contacts
+// through the contact index (email first, then phone), and pushed through
+// the account's contacts adapter in batches by a background job.
+
+type ContactImportStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type ContactImportAction = 'create' | 'update' | 'invalid';
+
+export const MAX_IMPORT_ROWS = 50_000;
+const PREVIEW_ROW_LIMIT = 50;
+const PROCESS_BATCH_SIZE = 50;
+const PROCESS_CONCURRENCY = 4;
+const MATCH_CHUNK_SIZE = 500;
+
+interface PlannedRow {
+  /** 1-based data row number (the header is row 0). */
+  row: number;
+  cells: string[];
+  contact: ContactPatch;
+  tags: string[];
+  /** Matched provider contact id; empty means create. */
+  contactId: string;
+}
+
+interface ImportRowError {
+  row: number;
+  cells: string[];
+  message: string;
+}
+
+export interface ContactImportPreviewRow {
+  row: number;
+  action: ContactImportAction;
+  contactId: string;
+  contact: ContactPatch;
+  tags: string[];
+  errors: string[];
+}
+
+export interface ContactImportPreview {
+  accountKey: string;
+  provider: string;
+  headers: string[];
+  mapping: ContactColumnMapping;
+  /** False when the account has no contact index; every valid row is then a create candidate and matched at import time. */
+  indexed: boolean;
+  totalRows: number;
+  createCount: number;
+  updateCount: number;
+  invalidCount: number;
+  rows: ContactImportPreviewRow[];
+}
+
+export interface ContactImportSummary {
+  id: string;
+  accountKey: string;
+  provider: string;
+  fileName: string;
+  status: ContactImportStatus;
+  totalRows: number;
+  processedRows: number;
+  createdCount: number;
+  updatedCount: number;
+  failedCount: number;
+  lastError: string;
+  startedAt: string;
+  finishedAt: string;
+  createdAt: string;
+}
+
+interface ContactImportPlan {
+  provider: string;
+  headers: string[];
+  mapping: ContactColumnMapping;
+  indexed: boolean;
+  planned: PlannedRow[];
+  rejected: ImportRowError[];
+}
+
+function parseJsonArray<T>(raw: string | null | undefined): T[] {
+  try {
+    const parsed = JSON.parse(raw || '[]');
+    return Array.isArray(parsed) ? parsed as T[] : [];
+  } catch {
+    return [];
+  }
+}
+
+function toSummary(row: {
+  id: string;
+  accountKey: string;
+  provider: string;
+  fileName: string;
+  status: string;
+  totalRows: number;
+  processedRows: number;
+  createdCount: number;
+  updatedCount: number;
+  failedCount: number;
+  lastError: string | null;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  createdAt: Date;
+}): ContactImportSummary {
+  return {
+    id: row.id,
+    accountKey: row.accountKey,
+    provider: row.provider,
+    fileName: row.fileName,
+    status: row.status as ContactImportStatus,
+    totalRows: row.totalRows,
+    processedRows: row.processedRows,
+    createdCount: row.createdCount,
+    updatedCount: row.updatedCount,
+    failedCount: row.failedCount,
+    lastError: row.lastError || '',
+    startedAt: row.startedAt?.toISOString() || '',
+    finishedAt: row.finishedAt?.toISOString() || '',
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+// ── Matching ──
+
+/** Phone spellings a provider may have stored for the same number. */
+function phoneVariants(phone: string): string[] {
+  const digits = phone.replace(/\D+/g, '');
+  if (!digits) return [];
+  const variants = new Set([phone, digits, `+${digits}`]);
+  if (digits.length === 10) {
+    variants.add(`+1${digits}`);
+    variants.add(`1${digits}`);
+  }
+  if (digits.length === 11 && digits.startsWith('1')) {
+    variants.add(digits.slice(1));
+  }
+  return [...variants];
+}
+
+function phoneKey(phone: string): string {
+  const digits = phone.replace(/\D+/g, '');
+  return digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+}
+
+async function isAccountIndexed(accountKey: string): Promise<boolean> {
+  const state = await prisma.contactIndexState.findUnique({
+    where: { accountKey },
+    select: { lastSyncedAt: true },
+  });
+  return Boolean(state?.lastSyncedAt);
+}
+
+/** Look up indexed contacts by email and phone; returns `email:`/`phone:` keys → contact id. */
+async function matchIndexedContacts(
+  accountKey: string,
+  emails: string[],
+  phones: string[],
+): Promise<Map<string, string>> {
+  const matches = new Map<string, string>();
+
+  for (let i = 0; i < emails.length; i += MATCH_CHUNK_SIZE) {
+    const rows = await prisma.indexedContact.findMany({
+      where: { accountKey, email: { in: emails.slice(i, i + MATCH_CHUNK_SIZE) } },
+      select: { contactId: true, email: true },
+    });
+    for (const row of rows) {
+      if (!matches.has(`email:${row.email}`)) matches.set(`email:${row.email}`, row.contactId);
+    }
+  }
+
+  const variants = [...new Set(phones.flatMap(phoneVariants))];
+  for (let i = 0; i < variants.length; i += MATCH_CHUNK_SIZE) {
+    const rows = await prisma.indexedContact.findMany({
+      where: { accountKey, phone: { in: variants.slice(i, i + MATCH_CHUNK_SIZE) } },
+      select: { contactId: true, phone: true },
+    });
+    for (const row of rows) {
+      const key = `phone:${phoneKey(row.phone)}`;
+      if (!matches.has(key)) matches.set(key, row.contactId);
+    }
+  }
+
+  return matches;
+}
+
+// ── Planning ──
+
+async function planContactImport(params: {
+  accountKey: string;
+  csvRows: string[][];
+  mapping?: unknown;
+}): Promise<ContactImportPlan> {
+  const [headerRow = [], ...dataRows] = params.csvRows;
+  if (dataRows.length === 0) throw new Error('The CSV has no data rows');
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Imports are limited to ${MAX_IMPORT_ROWS.toLocaleString()} rows`);
+  }
+
+  const adapter = await getAdapterForAccount(params.accountKey);
+  const headers = headerRow.map((header) => header.trim());
+  const mapping = params.mapping === undefined
+    ? suggestColumnMapping(headers)
+    : sanitizeColumnMapping(params.mapping, headers.length);
+  if (!mapping.includes('email') && !mapping.includes('phone')) {
+    throw new Error('Map at least one column to Email or Phone');
+  }
+
+  const mapped = dataRows.map((cells, index) => ({ row: index + 1, cells, ...mapContactRow(cells, mapping) }));
+  const valid = mapped.filter((entry) => entry.errors.length === 0);
+
+  const indexed = await isAccountIndexed(params.accountKey);
+  const matches = indexed
+    ? await matchIndexedContacts(
+      params.accountKey,
+      [...new Set(valid.map((entry) => entry.contact.email || '').filter(Boolean))],
+      [...new Set(valid.map((entry) => entry.contact.phone || '').filter(Boolean))],
+    )
+    : new Map<string, string>();
+
+  const planned: PlannedRow[] = [];
+  const rejected: ImportRowError[] = [];
+  const seen = new Map<string, number>();
+
+  for (const entry of mapped) {
+    if (entry.errors.length > 0) {
+      rejected.push({ row: entry.row, cells: entry.cells, message: entry.errors.join('; ') });
+      continue;
+    }
+
+    const keys = [
+      entry.contact.email ? `email:${entry.contact.email}` : '',
+      entry.contact.phone ? `phone:${phoneKey(entry.contact.phone)}` : '',
+    ].filter(Boolean);
+    const duplicateOf = keys.map((key) => seen.get(key)).find((row) => row !== undefined);
+    if (duplicateOf !== undefined) {
+      rejected.push({ row: entry.row, cells: entry.cells, message: `Duplicate of row ${duplicateOf}` });
+      continue;
+    }
+    for (const key of keys) seen.set(key, entry.row);
+
+    const contactId = keys.map((key) => matches.get(key)).find(Boolean) || '';
+    planned.push({ row: entry.row, cells: entry.cells, contact: entry.contact, tags: entry.tags, contactId });
+  }
+
+  return { provider: adapter.provider, headers, mapping, indexed, planned, rejected };
+}
+
+/** Map, validate and match a CSV without writing anything. */
+export async function previewContactImport(params: {
+  accountKey: string;
+  csvRows: string[][];
+  mapping?: unknown;
+}): Promise<ContactImportPreview> {
+  const plan = await planContactImport(params);
+
+  const rows: ContactImportPreviewRow[] = [
+    ...plan.planned.map((entry) => ({
+      row: entry.row,
+      action: (entry.contactId ? 'update' : 'create') as ContactImportAction,
+      contactId: entry.contactId,
+      contact: entry.contact,
+      tags: entry.tags,
+      errors: [],
+    })),
+    ...plan.rejected.map((entry) => ({
+      row: entry.row,
+      action: 'invalid' as ContactImportAction,
+      contactId: '',
+      contact: {},
+      tags: [],
+      errors: [entry.message],
+    })),
+  ].sort((a, b) => a.row - b.row);
+
+  const updateCount = plan.planned.filter((entry) => entry.contactId).length;
+  return {
+    accountKey: params.accountKey,
+    provider: plan.provider,
+    headers: plan.headers,
+    mapping: plan.mapping,
+    indexed: plan.indexed,
+    totalRows: plan.planned.length + plan.rejected.length,
+    createCount: plan.planned.length - updateCount,
+    updateCount,
+    invalidCount: plan.rejected.length,
+    rows: rows.slice(0, PREVIEW_ROW_LIMIT),
+  };
+}
+
+/**
+ * Plan an import and store it for the background job. Rows that fail
+ * validation are recorded as failures right away.
+ */
+export async function createContactImport(params: {
+  accountKey: string;
+  fileName?: string;
+  csvRows: string[][];
+  mapping?: unknown;
+  createdByUserId?: string;
+}): Promise<ContactImportSummary> {
+  const plan = await planContactImport(params);
+  if (plan.planned.length === 0) throw new Error('No valid rows to import');
+
+  const row = await prisma.contactImport.create({
+    data: {
+      accountKey: params.accountKey,
+      provider: plan.provider,
+      fileName: (params.fileName || '').trim().slice(0, 255),
+      status: 'queued',
+      headers: JSON.stringify(plan.headers),
+      mapping: JSON.stringify(plan.mapping),
+      rows: JSON.stringify(plan.planned),
+      errors: JSON.stringify(plan.rejected),
+      totalRows: plan.planned.length + plan.rejected.length,
+      processedRows: plan.rejected.length,
+      failedCount: plan.rejected.length,
+      createdByUserId: params.createdByUserId || null,
+    },
+  });
+  return toSummary(row);
+}
+
+export async function getContactImport(importId: string): Promise<ContactImportSummary | null> {
+  const row = await prisma.contactImport.findUnique({ where: { id: importId } });
+  return row ? toSummary(row) : null;
+}
+
+export async function listContactImports(accountKeys: string[], limit = 20): Promise<ContactImportSummary[]> {
+  const rows = await prisma.contactImport.findMany({
+    where: { accountKey: { in: accountKeys } },
+    orderBy: { createdAt: 'desc' },
+    take: Math.max(1, Math.min(100, limit)),
+  });
+  return rows.map(toSummary);
+}
+
+/** Downloadable CSV of every rejected or failed row: original columns plus row number and reason. */
+export async function buildContactImportErrorReport(importId: string): Promise<string | null> {
+  const row = await prisma.contactImport.findUnique({
+    where: { id: importId },
+    select: { headers: true, errors: true },
+  });
+  if (!row) return null;
+
+  const headers = parseJsonArray<string>(row.headers);
+  const errors = parseJsonArray<ImportRowError>(row.errors).sort((a, b) => a.row - b.row);
+  return toCsv([
+    ['Row', ...headers, 'Error'],
+    ...errors.map((entry) => [
+      String(entry.row),
+      ...headers.map((_, index) => entry.cells[index] ?? ''),
+      entry.message,
+    ]),
+  ]);
+}
+
+// ── Processing ──
+
+/** Accounts without an index are matched live through the adapter's search. */
+async function findExistingContactId(
+  contacts: ContactsAdapter,
+  credentials: EspCredentials,
+  contact: ContactPatch,
+): Promise<string> {
+  const email = normalizeEmailAddress(contact.email);
+  const phone = contact.phone ? phoneKey(normalizePhoneNumber(contact.phone)) : '';
+  for (const search of [email, contact.phone || ''].filter(Boolean)) {
+    const page = await contacts.requestContacts({
+      token: credentials.token,
+      locationId: credentials.locationId,
+      limit: 10,
+      search,
+    });
+    for (const raw of page.contacts) {
+      const candidate = contacts.normalizeContact(raw);
+      if (email && normalizeEmailAddress(candidate.email) === email) return candidate.id;
+      if (phone && candidate.phone && phoneKey(normalizePhoneNumber(candidate.phone)) === phone) return candidate.id;
+    }
+  }
+  return '';
+}
+
+async function pushPlannedRow(params: {
+  accountKey: string;
+  provider: string;
+  contacts: ContactsAdapter;
+  credentials: EspCredentials;
+  entry: PlannedRow;
+  indexed: boolean;
+}): Promise<'created' | 'updated'> {
+  const { contacts, credentials, entry } = params;
+  const contactId = entry.contactId
+    || (params.indexed ? '' : await findExistingContactId(contacts, credentials, entry.contact));
+
+  if (contactId) {
+    const updated = await contacts.updateContact!({
+      token: credentials.token,
+      locationId: credentials.locationId,
+      contactId,
+      patch: entry.contact,
+    });
+    if (entry.tags.length > 0 && contacts.addTags) {
+      await contacts.addTags({
+        token: credentials.token,
+        locationId: credentials.locationId,
+        contactId,
+        tags: entry.tags,
+      });
+      const tags = [...updated.tags];
+      for (const tag of entry.tags) {
+        if (!tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+      }
+      updated.tags = tags;
+    }
+    await upsertIndexedContact(params.accountKey, params.provider, updated).catch(() => {});
+    return 'updated';
+  }
+
+  const created = await contacts.createContact!({
+    token: credentials.token,
+    locationId: credentials.locationId,
+    contact: { ...entry.contact, tags: entry.tags },
+  });
+  await upsertIndexedContact(params.accountKey, params.provider, created).catch(() => {});
+  return 'created';
+}
+
+/** The account can't take imports at all; retrying won't help. */
+class ContactImportSetupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContactImportSetupError';
+  }
+}
+
+/**
+ * Push a stored import through the account's adapter in batches. Progress
+ * is saved after every batch, so a re-run resumes after the last saved row.
+ * Unless `finalAttempt` is set, a transient failure puts the import back to
+ * queued and rethrows so the job queue retries it; setup errors (no adapter
+ * support, no credentials) fail the import straight away.
+ */
+export async function processContactImport(
+  importId: string,
+  options?: { finalAttempt?: boolean },
+): Promise<ContactImportSummary> {
+  const record = await prisma.contactImport.findUnique({ where: { id: importId } });
+  if (!record) throw new Error('Contact import not found');
+  if (record.status === 'completed' || record.status === 'failed') return toSummary(record);
+
+  await prisma.contactImport.update({
+    where: { id: importId },
+    data: { status: 'running', startedAt: record.startedAt ?? new Date() },
+  });
+
+  const planned = parseJsonArray<PlannedRow>(record.rows);
+  const errors = parseJsonArray<ImportRowError>(record.errors);
+  // processedRows also counts the rows rejected during planning.
+  const rejectedCount = record.totalRows - planned.length;
+  let cursor = Math.max(0, record.processedRows - rejectedCount);
+  let createdCount = record.createdCount;
+  let updatedCount = record.updatedCount;
+  let failedCount = record.failedCount;
+
+  try {
+    const adapter = await getAdapterForAccount(record.accountKey);
+    const contacts = adapter.contacts;
+    if (!contacts?.createContact || !contacts.updateContact) {
+      throw new ContactImportSetupError(providerUnsupportedMessage(adapter.provider, 'contact imports'));
+    }
+    const credentials = await contacts.resolveCredentials(record.accountKey);
+    if (!credentials) throw new ContactImportSetupError(`No ${adapter.provider} credentials for account`);
+    const indexed = await isAccountIndexed(record.accountKey);
+
+    while (cursor < planned.length) {
+      const batch = planned.slice(cursor, cursor + PROCESS_BATCH_SIZE);
+      const results = await withConcurrencyLimit(
+        batch.map((entry) => () => pushPlannedRow({
+          accountKey: record.accountKey,
+          provider: adapter.provider,
+          contacts,
+          credentials,
+          entry,
+          indexed,
+        })),
+        PROCESS_CONCURRENCY,
+      );
+
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+          if (result.value === 'created') createdCount += 1;
+          else updatedCount += 1;
+          return;
+        }
+        failedCount += 1;
+        const entry = batch[index];
+        const message = result.reason instanceof Error ? result.reason.message : 'Provider write failed';
+        errors.push({ row: entry.row, cells: entry.cells, message });
+      });
+      cursor += batch.length;
+
+      await prisma.contactImport.update({
+        where: { id: importId },
+        data: {
+          processedRows: rejectedCount + cursor,
+          createdCount,
+          updatedCount,
+          failedCount,
+          errors: JSON.stringify(errors),
+        },
+      });
+    }
+
+    const row = await prisma.contactImport.update({
+      where: { id: importId },
+      data: { status: 'completed', rows: '[]', finishedAt: new Date() },
+    });
+    return toSummary(row);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Contact import failed';
+    const finalAttempt = options?.finalAttempt ?? true;
+    if (!finalAttempt && !(err instanceof ContactImportSetupError)) {
+      await prisma.contactImport.update({
+        where: { id: importId },
+        data: { status: 'queued', lastError: message },
+      });
+      throw err;
+    }
+    console.error(`[contact-imports] Import ${importId} failed:`, err);
+    const row = await prisma.contactImport.update({
+      where: { id: importId },
+      data: { status: 'failed', lastError: message, finishedAt: new Date() },
+    });
+    return toSummary(row);
+  }
+}
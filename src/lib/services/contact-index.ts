@@ -0,0 +1,431 @@
+import '@/lib/esp/init';
+import { prisma } from '@/lib/prisma';
+import { getAdapterForAccount } from '@/lib/esp/registry';
+import { withConcurrencyLimit } from '@/lib/esp/utils';
+import type { NormalizedContact } from '@/lib/esp/types';
+import { matchesFilter } from '@/lib/smart-list-engine';
+import type { FilterDefinition } from '@/lib/smart-list-types';
+
+// ── Contact Index ──
+// Full per-account copies of ESP contacts, refreshed by a background job from
+// each adapter's fetchAllContacts/normalizeContact. Audiences are evaluated
+// against this index with the same engine the browser uses, so counts are
+// exact instead of limited to the sampled contacts the UI has loaded.
+
+const DEFAULT_STALE_AFTER_MS = 6 * 60 * 60 * 1000;
+// A sync that has been "running" this long is assumed dead and may be retried.
+const RUN_LOCK_TTL_MS = 30 * 60 * 1000;
+const INSERT_CHUNK_SIZE = 1000;
+const EVALUATE_BATCH_SIZE = 2000;
+
+export type IndexedContactRecord = NormalizedContact & { _accountKey: string };
+
+export interface ContactIndexStatus {
+  accountKey: string;
+  provider: string;
+  status: 'idle' | 'running' | 'ok' | 'failed';
+  contactCount: number;
+  lastSyncedAt: string;
+  lastError: string;
+}
+
+export interface ContactIndexSyncResult {
+  accountKey: string;
+  status: 'ok' | 'failed' | 'skipped';
+  contactCount: number;
+  reason?: string;
+}
+
+export interface AudienceEvaluation {
+  total: number;
+  /** Matches with an email address / phone number on file. */
+  withEmail: number;
+  withPhone: number;
+  perAccount: Record<string, { count: number; indexed: boolean; lastSyncedAt: string }>;
+  page: number;
+  pageSize: number;
+  contacts: IndexedContactRecord[];
+}
+
+function parseTags(raw: string): string[] {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+function toIndexRow(accountKey: string, provider: string, contact: NormalizedContact, syncedAt: Date) {
+  return {
+    accountKey,
+    provider,
+    contactId: contact.id,
+    firstName: contact.firstName || '',
+    lastName: contact.lastName || '',
+    fullName: contact.fullName || '',
+    email: (contact.email || '').trim().toLowerCase(),
+    phone: contact.phone || '',
+    address1: contact.address1 || '',
+    city: contact.city || '',
+    state: contact.state || '',
+    postalCode: contact.postalCode || '',
+    country: contact.country || '',
+    tags: JSON.stringify(Array.isArray(contact.tags) ? contact.tags : []),
+    dateAdded: contact.dateAdded || '',
+    source: contact.source || '',
+    vehicleYear: contact.vehicleYear || '',
+    vehicleMake: contact.vehicleMake || '',
+    vehicleModel: contact.vehicleModel || '',
+    vehicleVin: contact.vehicleVin || '',
+    vehicleMileage: contact.vehicleMileage || '',
+    lastServiceDate: contact.lastServiceDate || '',
+    nextServiceDate: contact.nextServiceDate || '',
+    leaseEndDate: contact.leaseEndDate || '',
+    warrantyEndDate: contact.warrantyEndDate || '',
+    purchaseDate: contact.purchaseDate || '',
+    hasReceivedMessage: Boolean(contact.hasReceivedMessage),
+    hasReceivedEmail: Boolean(contact.hasReceivedEmail),
+    hasReceivedSms: Boolean(contact.hasReceivedSms),
+    lastMessageDate: contact.lastMessageDate || '',
+    syncedAt,
+  };
+}
+
+type IndexRow = Awaited<ReturnType<typeof prisma.indexedContact.findMany>>[number];
+
+function fromIndexRow(row: IndexRow): IndexedContactRecord {
+  return {
+    id: row.contactId,
+    firstName: row.firstName,
+    lastName: row.lastName,
+    fullName: row.fullName,
+    email: row.email,
+    phone: row.phone,
+    address1: row.address1,
+    city: row.city,
+    state: row.state,
+    postalCode: row.postalCode,
+    country: row.country,
+    tags: parseTags(row.tags),
+    dateAdded: row.dateAdded,
+    source: row.source,
+    vehicleYear: row.vehicleYear,
+    vehicleMake: row.vehicleMake,
+    vehicleModel: row.vehicleModel,
+    vehicleVin: row.vehicleVin,
+    vehicleMileage: row.vehicleMileage,
+    lastServiceDate: row.lastServiceDate,
+    nextServiceDate: row.nextServiceDate,
+    leaseEndDate: row.leaseEndDate,
+    warrantyEndDate: row.warrantyEndDate,
+    purchaseDate: row.purchaseDate,
+    hasReceivedMessage: row.hasReceivedMessage,
+    hasReceivedEmail: row.hasReceivedEmail,
+    hasReceivedSms: row.hasReceivedSms,
+    lastMessageDate: row.lastMessageDate,
+    _accountKey: row.accountKey,
+  };
+}
+
+function toStatus(row: {
+  accountKey: string;
+  provider: string | null;
+  status: string;
+  contactCount: number;
+  lastSyncedAt: Date | null;
+  lastError: string | null;
+}): ContactIndexStatus {
+  return {
+    accountKey: row.accountKey,
+    provider: row.provider || '',
+    status: (['idle', 'running', 'ok', 'failed'].includes(row.status) ? row.status : 'idle') as ContactIndexStatus['status'],
+    contactCount: row.contactCount,
+    lastSyncedAt: row.lastSyncedAt?.toISOString() || '',
+    lastError: row.lastError || '',
+  };
+}
+
+// ── Sync ──
+
+/** Claim the per-account run lock. Returns false when another sync is live. */
+async function claimSyncRun(accountKey: string, now: Date): Promise<boolean> {
+  await prisma.contactIndexState.upsert({
+    where: { accountKey },
+    create: { accountKey },
+    update: {},
+  });
+  const claimed = await prisma.contactIndexState.updateMany({
+    where: {
+      accountKey,
+      OR: [
+        { runStartedAt: null },
+        { runStartedAt: { lt: new Date(now.getTime() - RUN_LOCK_TTL_MS) } },
+      ],
+    },
+    data: { runStartedAt: now, status: 'running' },
+  });
+  return claimed.count > 0;
+}
+
+/**
+ * Replace one account's indexed contacts with a fresh full fetch from its ESP.
+ */
+export async function syncAccountContactIndex(accountKey: string): Promise<ContactIndexSyncResult> {
+  const startedAt = new Date();
+  if (!(await claimSyncRun(accountKey, startedAt))) {
+    return { accountKey, status: 'skipped', contactCount: 0, reason: 'sync-in-progress' };
+  }
+
+  let provider: string | null = null;
+  try {
+    const adapter = await getAdapterForAccount(accountKey);
+    provider = adapter.provider;
+    if (!adapter.contacts) {
+      throw new Error(`ESP adapter "${adapter.provider}" does not support contacts`);
+    }
+    const credentials = await adapter.contacts.resolveCredentials(accountKey);
+    if (!credentials) {
+      throw new Error(`No ${adapter.provider} credentials for account`);
+    }
+
+    const raw = await adapter.contacts.fetchAllContacts(credentials.token, credentials.locationId);
+    const byId = new Map<string, NormalizedContact>();
+    for (const item of raw) {
+      const contact = adapter.contacts.normalizeContact(item);
+      if (contact.id) byId.set(contact.id, contact);
+    }
+    const rows = [...byId.values()].map((contact) => toIndexRow(accountKey, adapter.provider, contact, startedAt));
+
+    // Swap the account's rows atomically so evaluations never see a half-written index.
+    await prisma.$transaction(async (tx) => {
+      await tx.indexedContact.deleteMany({ where: { accountKey } });
+      for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+        await tx.indexedContact.createMany({ data: rows.slice(i, i + INSERT_CHUNK_SIZE) });
+      }
+    }, { timeout: 5 * 60 * 1000 });
+
+    await prisma.contactIndexState.update({
+      where: { accountKey },
+      data: {
+        provider,
+        status: 'ok',
+        contactCount: rows.length,
+        runStartedAt: null,
+        lastSyncedAt: new Date(),
+        lastError: null,
+      },
+    });
+    adapter.contacts.setCachedContactCount(accountKey, rows.length);
+    return { accountKey, status: 'ok', contactCount: rows.length };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Contact index sync failed';
+    console.error(`[contact-index] Sync failed for ${accountKey}:`, err);
+    await prisma.contactIndexState.update({
+      where: { accountKey },
+      data: {
+        provider,
+        status: 'failed',
+        runStartedAt: null,
+        lastError: message,
+      },
+    });
+    return { accountKey, status: 'failed', contactCount: 0, reason: message };
+  }
+}
+
+/**
+ * Background entry point: refresh every account whose index is missing or
+ * older than `staleAfterMs`, oldest first.
+ */
+export async function syncStaleContactIndexes(options?: {
+  accountKeys?: string[];
+  staleAfterMs?: number;
+  limit?: number;
+  concurrency?: number;
+}): Promise<ContactIndexSyncResult[]> {
+  const staleAfterMs = Math.max(0, options?.staleAfterMs ?? DEFAULT_STALE_AFTER_MS);
+  const limit = Math.max(1, Math.min(200, options?.limit ?? 25));
+  const cutoff = new Date(Date.now() - staleAfterMs);
+
+  const accounts = await prisma.account.findMany({
+    where: options?.accountKeys ? { key: { in: options.accountKeys } } : {},
+    select: { key: true },
+  });
+  const accountKeys = accounts.map((account) => account.key).filter((key) => !key.startsWith('_'));
+  const states = await prisma.contactIndexState.findMany({
+    where: { accountKey: { in: accountKeys } },
+    select: { accountKey: true, lastSyncedAt: true },
+  });
+  const lastSynced = new Map(states.map((state) => [state.accountKey, state.lastSyncedAt]));
+
+  const due = accountKeys
+    .filter((key) => {
+      const syncedAt = lastSynced.get(key);
+      return !syncedAt || syncedAt < cutoff;
+    })
+    .sort((a, b) => (lastSynced.get(a)?.getTime() ?? 0) - (lastSynced.get(b)?.getTime() ?? 0))
+    .slice(0, limit);
+
+  const results: ContactIndexSyncResult[] = [];
+  const tasks = due.map((accountKey) => async () => {
+    results.push(await syncAccountContactIndex(accountKey));
+  });
+  await withConcurrencyLimit(tasks, Math.max(1, Math.min(4, options?.concurrency ?? 2)));
+  return results;
+}
+
+export async function getContactIndexStatus(accountKeys: string[]): Promise<ContactIndexStatus[]> {
+  const rows = await prisma.contactIndexState.findMany({
+    where: { accountKey: { in: accountKeys } },
+    orderBy: { accountKey: 'asc' },
+  });
+  return rows.map(toStatus);
+}
+
+// ── Write-through ──
+// Contact edits made through the app are mirrored into the index right away
+// so audiences reflect them before the next full sync. Accounts that have
+// never been indexed are left alone.
+
+export async function upsertIndexedContact(
+  accountKey: string,
+  provider: string,
+  contact: NormalizedContact,
+): Promise<void> {
+  const state = await prisma.contactIndexState.findUnique({ where: { accountKey } });
+  if (!state) return;
+  const row = toIndexRow(accountKey, provider, contact, new Date());
+  await prisma.indexedContact.upsert({
+    where: { accountKey_contactId: { accountKey, contactId: contact.id } },
+    create: row,
+    update: row,
+  });
+}
+
+export async function updateIndexedContactTags(
+  accountKey: string,
+  contactId: string,
+  changes: { add?: string[]; remove?: string[] },
+): Promise<void> {
+  const row = await prisma.indexedContact.findUnique({
+    where: { accountKey_contactId: { accountKey, contactId } },
+  });
+  if (!row) return;
+  const removed = new Set((changes.remove || []).map((tag) => tag.toLowerCase()));
+  const tags = parseTags(row.tags).filter((tag) => !removed.has(tag.toLowerCase()));
+  for (const tag of changes.add || []) {
+    if (!tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+  }
+  await prisma.indexedContact.update({
+    where: { id: row.id },
+    data: { tags: JSON.stringify(tags) },
+  });
+}
+
+export async function removeIndexedContact(accountKey: string, contactId: string): Promise<void> {
+  await prisma.indexedContact.deleteMany({ where: { accountKey, contactId } });
+}
+
+// ── Evaluation ──
+
+export async function getIndexedContact(
+  accountKey: string,
+  contactId: string,
+): Promise<IndexedContactRecord | null> {
+  const row = await prisma.indexedContact.findUnique({
+    where: { accountKey_contactId: { accountKey, contactId } },
+  });
+  return row ? fromIndexRow(row) : null;
+}
+
+/**
+ * Stream every indexed contact of one account that satisfies `definition`
+ * (all contacts when omitted), in stable id order, batch by batch.
+ */
+export async function scanIndexedContacts(
+  params: { accountKey: string; definition?: FilterDefinition | null },
+  onMatch: (contact: IndexedContactRecord) => void | Promise<void>,
+): Promise<number> {
+  let matched = 0;
+  let cursor: string | undefined;
+
+  while (true) {
+    const batch = await prisma.indexedContact.findMany({
+      where: { accountKey: params.accountKey },
+      orderBy: { id: 'asc' },
+      take: EVALUATE_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+    if (batch.length === 0) break;
+    cursor = batch[batch.length - 1].id;
+
+    for (const row of batch) {
+      const contact = fromIndexRow(row);
+      if (params.definition && !matchesFilter(contact, params.definition)) continue;
+      matched += 1;
+      await onMatch(contact);
+    }
+    if (batch.length < EVALUATE_BATCH_SIZE) break;
+  }
+
+  return matched;
+}
+
+/**
+ * Evaluate an audience definition (every contact when null) against the full
+ * indexed contact set of each account. Returns exact per-account counts plus
+ * one page of matches. With `reachableBy`, contacts without that channel on
+ * file are left out of the counts and the page.
+ */
+export async function evaluateAudienceFromIndex(params: {
+  definition: FilterDefinition | null;
+  accountKeys: string[];
+  page?: number;
+  pageSize?: number;
+  reachableBy?: 'email' | 'phone';
+}): Promise<AudienceEvaluation> {
+  const page = Math.max(1, Math.floor(params.page ?? 1));
+  const pageSize = Math.max(1, Math.floor(params.pageSize ?? 100));
+  const offset = (page - 1) * pageSize;
+  const accountKeys = [...new Set(params.accountKeys)].sort();
+
+  const states = await prisma.contactIndexState.findMany({
+    where: { accountKey: { in: accountKeys } },
+    select: { accountKey: true, lastSyncedAt: true },
+  });
+  const stateByKey = new Map(states.map((state) => [state.accountKey, state]));
+
+  const result: AudienceEvaluation = {
+    total: 0,
+    withEmail: 0,
+    withPhone: 0,
+    perAccount: {},
+    page,
+    pageSize,
+    contacts: [],
+  };
+
+  for (const accountKey of accountKeys) {
+    const state = stateByKey.get(accountKey);
+    let count = 0;
+    await scanIndexedContacts({ accountKey, definition: params.definition }, (contact) => {
+      if (params.reachableBy && !contact[params.reachableBy]) return;
+      count += 1;
+      if (result.total >= offset && result.contacts.length < pageSize) {
+        result.contacts.push(contact);
+      }
+      result.total += 1;
+      if (contact.email) result.withEmail += 1;
+      if (contact.phone) result.withPhone += 1;
+    });
+
+    result.perAccount[accountKey] = {
+      count,
+      indexed: Boolean(state?.lastSyncedAt),
+      lastSyncedAt: state?.lastSyncedAt?.toISOString() || '',
+    };
+  }
+
+  return result;
+}
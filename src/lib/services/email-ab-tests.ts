@@ -0,0 +1,322 @@
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+
+// ── Email A/B Tests ──
+// A test campaign carries 2–4 variants. A share of recipients is split evenly
+// across them at creation; after the wait period the variant with the best
+// open or click rate (from ingested EmailEvent rows) is sent to the rest.
+// Only test-group recipients carry a variantId.
+
+export type AbTestWinnerMetric = 'open' | 'click';
+
+export const AB_TEST_VARIANT_LABELS = ['A', 'B', 'C', 'D'] as const;
+export const MIN_AB_TEST_VARIANTS = 2;
+export const MAX_AB_TEST_VARIANTS = AB_TEST_VARIANT_LABELS.length;
+const MIN_TEST_PERCENT = 5;
+const MAX_TEST_PERCENT = 100;
+const DEFAULT_TEST_PERCENT = 20;
+const DEFAULT_WAIT_MINUTES = 4 * 60;
+const MAX_WAIT_MINUTES = 7 * 24 * 60;
+
+export interface EmailVariantInput {
+  subject: string;
+  previewText?: string;
+  htmlContent: string;
+  textContent?: string;
+}
+
+export interface EmailAbTestInput {
+  variants: EmailVariantInput[];
+  /** Share of recipients (5–100) split across variants; the rest receive the winner. */
+  testPercent: number;
+  winnerMetric: AbTestWinnerMetric;
+  /** Minutes between the test send finishing and the winner being picked. */
+  waitMinutes: number;
+}
+
+export interface EmailVariantResult {
+  id: string;
+  label: string;
+  subject: string;
+  previewText: string;
+  recipients: number;
+  sentCount: number;
+  openedCount: number;
+  clickedCount: number;
+  openRate: number | null;
+  clickRate: number | null;
+  isWinner: boolean;
+}
+
+export interface EmailAbTestSummary {
+  campaignId: string;
+  name: string;
+  status: string;
+  testPercent: number;
+  winnerMetric: AbTestWinnerMetric;
+  testWaitMinutes: number;
+  testDecideAt: string;
+  winnerVariantId: string;
+  accountKeys: string[];
+  createdAt: string;
+  variants: EmailVariantResult[];
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function normalizeWinnerMetric(value: unknown): AbTestWinnerMetric {
+  return value === 'click' ? 'click' : 'open';
+}
+
+function parseAccountKeys(raw: string): string[] {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(String).filter(Boolean) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Parse the untrusted `abTest` block of a campaign request. Returns null when
+ * the campaign is not a test; throws with a user-facing message when invalid.
+ */
+export function parseEmailAbTest(raw: unknown): EmailAbTestInput | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const source = raw as Record<string, unknown>;
+  const rawVariants = Array.isArray(source.variants) ? source.variants : [];
+  if (rawVariants.length === 0) return null;
+
+  if (rawVariants.length < MIN_AB_TEST_VARIANTS || rawVariants.length > MAX_AB_TEST_VARIANTS) {
+    throw new Error(`A/B tests need between ${MIN_AB_TEST_VARIANTS} and ${MAX_AB_TEST_VARIANTS} variants`);
+  }
+
+  const variants = rawVariants.map((entry, index): EmailVariantInput => {
+    const variant = entry && typeof entry === 'object' ? entry as Record<string, unknown> : {};
+    const label = AB_TEST_VARIANT_LABELS[index];
+    const subject = asString(variant.subject).replace(/\r\n/g, '\n').trim();
+    const htmlContent = asString(variant.htmlContent).trim();
+    if (!subject) throw new Error(`Variant ${label} subject is required`);
+    if (!htmlContent) throw new Error(`Variant ${label} HTML content is required`);
+    return {
+      subject,
+      previewText: asString(variant.previewText).trim(),
+      htmlContent,
+      textContent: asString(variant.textContent).replace(/\r\n/g, '\n').trim(),
+    };
+  });
+
+  const testPercent = source.testPercent === undefined ? DEFAULT_TEST_PERCENT : Number(source.testPercent);
+  if (!Number.isFinite(testPercent) || testPercent < MIN_TEST_PERCENT || testPercent > MAX_TEST_PERCENT) {
+    throw new Error(`A/B test percentage must be between ${MIN_TEST_PERCENT} and ${MAX_TEST_PERCENT}`);
+  }
+
+  const waitMinutes = source.waitMinutes === undefined ? DEFAULT_WAIT_MINUTES : Number(source.waitMinutes);
+  if (!Number.isFinite(waitMinutes) || waitMinutes < 0 || waitMinutes > MAX_WAIT_MINUTES) {
+    throw new Error('A/B test wait period must be between 0 minutes and 7 days');
+  }
+
+  return {
+    variants,
+    testPercent: Math.round(testPercent),
+    winnerMetric: normalizeWinnerMetric(source.winnerMetric),
+    waitMinutes: Math.round(waitMinutes),
+  };
+}
+
+/**
+ * Randomly pick the test group from `count` sendable recipients and spread it
+ * evenly across variants. Returns one variant index per recipient position,
+ * or null for recipients held back for the winner.
+ */
+export function assignAbTestVariants(count: number, variantCount: number, testPercent: number): Array<number | null> {
+  const testSize = Math.min(count, Math.round((count * testPercent) / 100));
+  if (testSize < variantCount) {
+    throw new Error(`Not enough recipients to split the test group across ${variantCount} variants`);
+  }
+
+  const order = Array.from({ length: count }, (_, index) => index);
+  for (let i = order.length - 1; i > 0; i -= 1) {
+    const j = crypto.randomInt(i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  const assignments: Array<number | null> = new Array(count).fill(null);
+  for (let slot = 0; slot < testSize; slot += 1) {
+    assignments[order[slot]] = slot % variantCount;
+  }
+  return assignments;
+}
+
+// ── Results ──
+
+function rate(count: number, sent: number): number | null {
+  return sent > 0 ? count / sent : null;
+}
+
+/**
+ * Per-variant send and engagement counts. Opens and clicks are unique per
+ * address, matched to variants through the recipient's account and email.
+ * With `accountKeys`, only those accounts' recipients and events count.
+ */
+export async function getEmailVariantResults(
+  campaignId: string,
+  options?: { accountKeys?: string[] },
+): Promise<EmailVariantResult[]> {
+  const accountFilter = options?.accountKeys ? { accountKey: { in: options.accountKeys } } : {};
+  const [campaign, variants, recipients, events] = await Promise.all([
+    prisma.emailCampaign.findUnique({ where: { id: campaignId }, select: { winnerVariantId: true } }),
+    prisma.emailCampaignVariant.findMany({ where: { campaignId }, orderBy: { label: 'asc' } }),
+    prisma.emailCampaignRecipient.findMany({
+      where: { campaignId, variantId: { not: null }, ...accountFilter },
+      select: { variantId: true, accountKey: true, email: true, status: true },
+    }),
+    prisma.emailEvent.findMany({
+      where: {
+        campaignId,
+        eventType: { in: ['opened', 'clicked'] },
+        email: { not: null },
+        accountKey: options?.accountKeys ? { in: options.accountKeys } : { not: null },
+      },
+      select: { accountKey: true, email: true, eventType: true },
+    }),
+  ]);
+
+  // The same address can be a recipient under several accounts.
+  const recipientKey = (accountKey: string, email: string) => `${accountKey}::${email.toLowerCase()}`;
+  const variantByRecipient = new Map<string, string>();
+  const totals = new Map<string, { recipients: number; sent: number }>();
+  for (const recipient of recipients) {
+    const variantId = recipient.variantId as string;
+    const entry = totals.get(variantId) || { recipients: 0, sent: 0 };
+    entry.recipients += 1;
+    if (recipient.status === 'sent') {
+      entry.sent += 1;
+      if (recipient.email) variantByRecipient.set(recipientKey(recipient.accountKey, recipient.email), variantId);
+    }
+    totals.set(variantId, entry);
+  }
+
+  const opened = new Map<string, Set<string>>();
+  const clicked = new Map<string, Set<string>>();
+  for (const event of events) {
+    const key = recipientKey(event.accountKey || '', event.email || '');
+    const variantId = variantByRecipient.get(key);
+    if (!variantId) continue;
+    const bucket = event.eventType === 'clicked' ? clicked : opened;
+    const keys = bucket.get(variantId) || new Set<string>();
+    keys.add(key);
+    bucket.set(variantId, keys);
+    // A click implies the message was opened, even when the open pixel was blocked.
+    if (event.eventType === 'clicked') {
+      const openedKeys = opened.get(variantId) || new Set<string>();
+      openedKeys.add(key);
+      opened.set(variantId, openedKeys);
+    }
+  }
+
+  return variants.map((variant) => {
+    const total = totals.get(variant.id) || { recipients: 0, sent: 0 };
+    const openedCount = opened.get(variant.id)?.size ?? 0;
+    const clickedCount = clicked.get(variant.id)?.size ?? 0;
+    return {
+      id: variant.id,
+      label: variant.label,
+      subject: variant.subject,
+      previewText: variant.previewText || '',
+      recipients: total.recipients,
+      sentCount: total.sent,
+      openedCount,
+      clickedCount,
+      openRate: rate(openedCount, total.sent),
+      clickRate: rate(clickedCount, total.sent),
+      isWinner: campaign?.winnerVariantId === variant.id,
+    };
+  });
+}
+
+/**
+ * Pick the winning variant. Held-back recipients keep a null variant and are
+ * sent the campaign's winner, so only the test group counts toward variant
+ * rates. Ties (and tests with no engagement yet) go to the earliest variant.
+ * Safe to call concurrently: only the first caller records a winner.
+ */
+export async function decideEmailAbTestWinner(campaignId: string): Promise<string> {
+  const campaign = await prisma.emailCampaign.findUnique({
+    where: { id: campaignId },
+    select: { winnerMetric: true, winnerVariantId: true },
+  });
+  if (!campaign) throw new Error('Email campaign not found');
+  if (campaign.winnerVariantId) return campaign.winnerVariantId;
+
+  const metric = normalizeWinnerMetric(campaign.winnerMetric);
+  const results = await getEmailVariantResults(campaignId);
+  if (results.length === 0) throw new Error('Email campaign has no A/B test variants');
+
+  let winner = results[0];
+  for (const result of results.slice(1)) {
+    const score = (metric === 'click' ? result.clickRate : result.openRate) ?? 0;
+    const best = (metric === 'click' ? winner.clickRate : winner.openRate) ?? 0;
+    if (score > best) winner = result;
+  }
+
+  const claimed = await prisma.emailCampaign.updateMany({
+    where: { id: campaignId, winnerVariantId: null },
+    data: { winnerVariantId: winner.id },
+  });
+  if (claimed.count === 0) {
+    const current = await prisma.emailCampaign.findUniqueOrThrow({
+      where: { id: campaignId },
+      select: { winnerVariantId: true },
+    });
+    return current.winnerVariantId || winner.id;
+  }
+  return winner.id;
+}
+
+export async function listEmailAbTests(options?: {
+  limit?: number;
+  accountKeys?: string[];
+}): Promise<EmailAbTestSummary[]> {
+  const limit = Math.max(1, Math.min(50, options?.limit ?? 10));
+  const rows = await prisma.emailCampaign.findMany({
+    where: {
+      variants: { some: {} },
+      ...(options?.accountKeys ? { recipients: { some: { accountKey: { in: options.accountKeys } } } } : {}),
+    },
+    select: {
+      id: true,
+      name: true,
+      status: true,
+      testPercent: true,
+      winnerMetric: true,
+      testWaitMinutes: true,
+      testDecideAt: true,
+      winnerVariantId: true,
+      accountKeys: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+
+  const summaries: EmailAbTestSummary[] = [];
+  for (const row of rows) {
+    summaries.push({
+      campaignId: row.id,
+      name: row.name || '',
+      status: row.status,
+      testPercent: row.testPercent ?? 0,
+      winnerMetric: normalizeWinnerMetric(row.winnerMetric),
+      testWaitMinutes: row.testWaitMinutes ?? 0,
+      testDecideAt: row.testDecideAt?.toISOString() || '',
+      winnerVariantId: row.winnerVariantId || '',
+      accountKeys: parseAccountKeys(row.accountKeys),
+      createdAt: row.createdAt.toISOString(),
+      variants: await getEmailVariantResults(row.id, { accountKeys: options?.accountKeys }),
+    });
+  }
+  return summaries;
+}
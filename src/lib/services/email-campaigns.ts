@@ -1,29 +1,79 @@
-import nodemailer from 'nodemailer';
+import crypto from 'crypto';
 import { prisma } from '@/lib/prisma';
 import { withConcurrencyLimit } from '@/lib/esp/utils';
 import {
   isLikelyDeliverableEmail,
   normalizeEmailAddress,
 } from '@/lib/contact-hygiene';
+import {
+  applyVariableTokens,
+  buildPersonalizationReport,
+  buildRecipientVariableMap,
+  contactMergeKey,
+  loadAccountMergeData,
+  loadContactMergeFields,
+  normalizeMergeFields,
+  normalizeVariableFallbacks,
+  parseMergeFields,
+  personalizeContent,
+  type PersonalizationReport,
+  type RecipientMergeFields,
+} from '@/lib/services/email-personalization';
+import {
+  findSuppressedRecipients,
+  suppressionSkipMessage,
+} from '@/lib/services/email-suppression';
+import {
+  buildEmailUnsubscribeUrl,
+  buildListUnsubscribeHeaders,
+} from '@/lib/email-unsubscribe';
+import {
+  AB_TEST_VARIANT_LABELS,
+  assignAbTestVariants,
+  decideEmailAbTestWinner,
+  type AbTestWinnerMetric,
+  type EmailAbTestInput,
+} from '@/lib/services/email-ab-tests';
+import { recordAuditEvent, type AuditActor } from '@/lib/services/audit-log';
+import { resolveAccountEmailTransport, type EmailTransport } from '@/lib/services/email-transport';
+import { loadAccountTrackingSettings } from '@/lib/services/email-tracking';
+import { getCampaignEngagementCounts } from '@/lib/esp/webhooks/email-stats-store';
+import { applyEmailTracking } from '@/lib/email-tracking';
+import { normalizeEmailUtmParams, type EmailUtmParams } from '@/lib/email-tracking-options';
+import {
+  AudienceSelectionError,
+  assertAudienceIndexed,
+  type AudienceSelection,
+} from '@/lib/services/audiences';
+import { evaluateAudienceFromIndex } from '@/lib/services/contact-index';
 
 type EmailCampaignStatus =
   | 'queued'
   | 'scheduled'
   | 'processing'
+  | 'testing'
   | 'completed'
   | 'partial'
   | 'failed'
   | 'canceled';
 
-const PROCESSABLE_STATUSES: EmailCampaignStatus[] = ['queued', 'scheduled', 'processing'];
+const PROCESSABLE_STATUSES: EmailCampaignStatus[] = ['queued', 'scheduled', 'processing', 'testing'];
 const TERMINAL_STATUSES: EmailCampaignStatus[] = ['completed', 'partial', 'failed', 'canceled'];
+// Once a campaign is processing, sends are in flight and can't be recalled.
+const CANCELABLE_STATUSES: EmailCampaignStatus[] = ['queued', 'scheduled', 'testing'];
 const INVALID_EMAIL_ERROR = 'Recipient email is missing or blocked by hygiene policy';
+const SEND_INTERRUPTED_ERROR = 'Send was interrupted; delivery is unknown, so it was not retried';
+/** A claimed recipient still "sending" after this long belongs to a run that died. */
+const STALE_SENDING_MS = 20 * 60 * 1000;
+export const EMAIL_RECIPIENT_LIMIT = 1000;
 
 export interface EmailRecipientInput {
   contactId: string;
   accountKey: string;
   email?: string;
   fullName?: string;
+  /** Contact fields used to resolve {{contact.*}} tokens for this recipient. */
+  mergeFields?: RecipientMergeFields | null;
 }
 
 export interface CreateEmailCampaignInput {
@@ -40,6 +90,14 @@ export interface CreateEmailCampaignInput {
   sourceAudienceId?: string | null;
   sourceFilter?: string | null;
   metadata?: string | null;
+  /** Values used when a merge field resolves empty, keyed by variable name (e.g. `contact.first_name`). */
+  variableFallbacks?: Record<string, string> | null;
+  /** UTM parameters added to every link; values may use {{campaign.name}}-style template variables. */
+  utm?: EmailUtmParams | null;
+  /** Splits part of the audience across variants; top-level content is ignored in favour of variant A. */
+  abTest?: EmailAbTestInput | null;
+  /** Who to attribute the campaign to in the audit log. */
+  actor?: AuditActor | null;
 }
 
 export interface EmailCampaignSummary {
@@ -55,7 +113,18 @@ export interface EmailCampaignSummary {
   totalRecipients: number;
   sentCount: number;
   failedCount: number;
+  skippedCount: number;
+  /** Engagement from ESP webhooks and Loomi open/click tracking (CampaignEngagementLike). */
+  deliveredCount: number;
+  openedCount: number;
+  clickedCount: number;
+  bouncedCount: number;
+  unsubscribedCount: number;
   accountKeys: string[];
+  testPercent: number | null;
+  winnerMetric: AbTestWinnerMetric | null;
+  testDecideAt: string;
+  winnerVariantId: string;
   createdAt: string;
   updatedAt: string;
   error: string;
@@ -80,10 +149,35 @@ function parseDate(value: string | null | undefined): Date | null {
   return date;
 }
 
+/**
+ * Parse the untrusted `recipients` array of an API request body. Merge fields
+ * are never taken from the request; they resolve from the stored contact.
+ */
+export function parseEmailRecipients(raw: unknown): EmailRecipientInput[] {
+  if (!Array.isArray(raw)) return [];
+  const recipients: EmailRecipientInput[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) continue;
+    const row = item as Record<string, unknown>;
+    const contactId = String(row.contactId || '').trim();
+    const accountKey = String(row.accountKey || '').trim();
+    if (!contactId || !accountKey) continue;
+
+    recipients.push({
+      contactId,
+      accountKey,
+      email: String(row.email || '').trim(),
+      fullName: String(row.fullName || '').trim(),
+    });
+  }
+  return recipients;
+}
+
 function normalizeRecipient(input: EmailRecipientInput): EmailRecipientInput | null {
   const contactId = String(input.contactId || '').trim();
   const accountKey = String(input.accountKey || '').trim();
   const normalizedEmail = normalizeEmailAddress(input.email);
+  const mergeFields = normalizeMergeFields(input.mergeFields);
 
   if (!contactId || !accountKey) return null;
   if (!isLikelyDeliverableEmail(normalizedEmail)) {
@@ -92,6 +186,7 @@ function normalizeRecipient(input: EmailRecipientInput): EmailRecipientInput | n
       accountKey,
       email: '',
       fullName: String(input.fullName || '').trim(),
+      mergeFields,
     };
   }
 
@@ -100,9 +195,50 @@ function normalizeRecipient(input: EmailRecipientInput): EmailRecipientInput | n
     accountKey,
     email: normalizedEmail,
     fullName: String(input.fullName || '').trim(),
+    mergeFields,
   };
 }
 
+/**
+ * Every contact of an audience with an email address, evaluated against the
+ * contact index, as send recipients. An audience over the per-send limit is
+ * rejected rather than truncated.
+ */
+export async function resolveAudienceEmailRecipients(selection: AudienceSelection): Promise<EmailRecipientInput[]> {
+  const evaluation = await evaluateAudienceFromIndex({
+    definition: selection.definition,
+    accountKeys: selection.accountKeys,
+    pageSize: EMAIL_RECIPIENT_LIMIT,
+    reachableBy: 'email',
+  });
+  assertAudienceIndexed(evaluation.perAccount);
+  if (evaluation.total > EMAIL_RECIPIENT_LIMIT) {
+    throw new AudienceSelectionError(`Recipient limit is ${EMAIL_RECIPIENT_LIMIT} per email send`);
+  }
+  return evaluation.contacts.map((contact) => ({
+    contactId: contact.id,
+    accountKey: contact._accountKey,
+    email: contact.email,
+    fullName: contact.fullName || `${contact.firstName} ${contact.lastName}`.trim(),
+    mergeFields: normalizeMergeFields(contact),
+  }));
+}
+
+/**
+ * Fill each recipient's merge fields from the contact index. Fields already
+ * set come from server-side callers that loaded the contact themselves.
+ */
+async function withStoredMergeFields(recipients: EmailRecipientInput[]): Promise<EmailRecipientInput[]> {
+  const pending = recipients.filter((recipient) => !recipient.mergeFields);
+  if (pending.length === 0) return recipients;
+  const stored = await loadContactMergeFields(pending);
+  return recipients.map((recipient) =>
+    recipient.mergeFields
+      ? recipient
+      : { ...recipient, mergeFields: stored.get(contactMergeKey(recipient.accountKey, recipient.contactId)) || null },
+  );
+}
+
 function dedupeRecipients(recipients: EmailRecipientInput[]): EmailRecipientInput[] {
   const byContactKey = new Map<string, EmailRecipientInput>();
   for (const recipient of recipients) {
@@ -177,28 +313,49 @@ function withPreviewText(htmlContent: string, previewText: string): string {
   return `${hiddenPreview}${htmlContent}`;
 }
 
+function resolveCampaignStatus(counts: {
+  pending: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+}): EmailCampaignStatus {
+  if (counts.pending > 0) return 'processing';
+  if (counts.sent > 0 && counts.failed > 0) return 'partial';
+  if (counts.sent > 0) return 'completed';
+  if (counts.failed > 0) return 'failed';
+  // Every recipient was suppressed — nothing left to send.
+  if (counts.skipped > 0) return 'completed';
+  return 'queued';
+}
+
 function buildCampaignMetadata(input: CreateEmailCampaignInput): string | null {
   const payload = {
     sourceType: normalizeSourceType(input.sourceType),
     sourceMetadata: input.metadata || '',
+    variableFallbacks: normalizeVariableFallbacks(input.variableFallbacks),
+    utm: normalizeEmailUtmParams(input.utm),
   };
   return JSON.stringify(payload);
 }
 
 function parseCampaignMetadata(raw: string | null | undefined): {
   sourceType: string;
+  variableFallbacks: Record<string, string>;
+  utm: EmailUtmParams;
 } {
   if (!raw) {
-    return { sourceType: 'template-library' };
+    return { sourceType: 'template-library', variableFallbacks: {}, utm: {} };
   }
 
   try {
     const parsed = JSON.parse(raw) as Record<string, unknown>;
     return {
       sourceType: normalizeSourceType(String(parsed.sourceType || '')),
+      variableFallbacks: normalizeVariableFallbacks(parsed.variableFallbacks),
+      utm: normalizeEmailUtmParams(parsed.utm),
     };
   } catch {
-    return { sourceType: 'template-library' };
+    return { sourceType: 'template-library', variableFallbacks: {}, utm: {} };
   }
 }
 
@@ -215,7 +372,12 @@ function toSummary(row: {
   totalRecipients: number;
   sentCount: number;
   failedCount: number;
+  skippedCount: number;
   accountKeys: string;
+  testPercent: number | null;
+  winnerMetric: string | null;
+  testDecideAt: Date | null;
+  winnerVariantId: string | null;
   createdAt: Date;
   updatedAt: Date;
   error: string | null;
@@ -233,13 +395,41 @@ function toSummary(row: {
     totalRecipients: row.totalRecipients,
     sentCount: row.sentCount,
     failedCount: row.failedCount,
+    skippedCount: row.skippedCount,
+    deliveredCount: row.sentCount,
+    openedCount: 0,
+    clickedCount: 0,
+    bouncedCount: 0,
+    unsubscribedCount: 0,
     accountKeys: parseAccountKeys(row.accountKeys),
+    testPercent: row.testPercent,
+    winnerMetric: row.winnerMetric ? row.winnerMetric as AbTestWinnerMetric : null,
+    testDecideAt: row.testDecideAt?.toISOString() || '',
+    winnerVariantId: row.winnerVariantId || '',
     createdAt: row.createdAt.toISOString(),
     updatedAt: row.updatedAt.toISOString(),
     error: row.error || '',
   };
 }
 
+/** Fill engagement counters from stored email events. Delivered falls back to sent without delivery webhooks. */
+async function withEngagement(
+  summaries: EmailCampaignSummary[],
+  options?: { accountId?: string },
+): Promise<EmailCampaignSummary[]> {
+  if (summaries.length === 0) return summaries;
+  const counts = await getCampaignEngagementCounts(summaries.map((summary) => summary.id), options);
+  return summaries.map((summary) => {
+    const engagement = counts.get(summary.id);
+    if (!engagement) return summary;
+    return {
+      ...summary,
+      ...engagement,
+      deliveredCount: engagement.deliveredCount > 0 ? engagement.deliveredCount : summary.sentCount,
+    };
+  });
+}
+
 const emailCampaignSummarySelect = {
   id: true,
   name: true,
@@ -253,55 +443,30 @@ const emailCampaignSummarySelect = {
   totalRecipients: true,
   sentCount: true,
   failedCount: true,
+  skippedCount: true,
   accountKeys: true,
+  testPercent: true,
+  winnerMetric: true,
+  testDecideAt: true,
+  winnerVariantId: true,
   createdAt: true,
   updatedAt: true,
   error: true,
 } as const;
 
-function getTransportConfig(): {
-  from: string;
-  transporter: nodemailer.Transporter;
-} {
-  const smtpHost = process.env.SMTP_HOST;
-  const smtpPort = Number(process.env.SMTP_PORT || '587');
-  const smtpUser = process.env.SMTP_USER;
-  const smtpPass = process.env.SMTP_PASS;
-  const smtpFrom = process.env.SMTP_FROM || smtpUser;
-
-  if (!smtpHost || !smtpUser || !smtpPass || !smtpFrom) {
-    throw new Error(
-      'Email sending is not configured. Set SMTP_HOST, SMTP_USER, SMTP_PASS, and optionally SMTP_FROM.',
-    );
-  }
-
-  const transporter = nodemailer.createTransport({
-    host: smtpHost,
-    port: Number.isFinite(smtpPort) ? smtpPort : 587,
-    secure: smtpPort === 465,
-    auth: {
-      user: smtpUser,
-      pass: smtpPass,
-    },
-  });
-
-  return {
-    from: smtpFrom,
-    transporter,
-  };
-}
-
 export async function createEmailCampaign(input: CreateEmailCampaignInput): Promise<EmailCampaignSummary> {
-  const subject = sanitizeSubject(input.subject || '');
-  const htmlContent = sanitizeHtml(input.htmlContent || '');
-  const textContent = sanitizeText(input.textContent || '');
-  const previewText = String(input.previewText || '').trim();
+  const abTest = input.abTest || null;
+  const primary = abTest ? abTest.variants[0] : input;
+  const subject = sanitizeSubject(primary.subject || '');
+  const htmlContent = sanitizeHtml(primary.htmlContent || '');
+  const textContent = sanitizeText(primary.textContent || '');
+  const previewText = String(primary.previewText || '').trim();
   const sourceType = normalizeSourceType(input.sourceType);
 
   if (!subject) throw new Error('Email subject is required');
   if (!htmlContent) throw new Error('Email HTML content is required');
 
-  const recipients = dedupeRecipients(input.recipients || []);
+  const recipients = await withStoredMergeFields(dedupeRecipients(input.recipients || []));
   if (recipients.length === 0) throw new Error('At least one recipient is required');
 
   const sendableRecipients = recipients.filter((recipient) => Boolean(recipient.email));
@@ -314,6 +479,17 @@ export async function createEmailCampaign(input: CreateEmailCampaignInput): Prom
       ? 'scheduled'
       : 'queued';
   const accountKeys = [...new Set(recipients.map((recipient) => recipient.accountKey))];
+  const suppressed = await findSuppressedRecipients(sendableRecipients);
+  const suppressionFor = (recipient: EmailRecipientInput) =>
+    recipient.email ? suppressed.get(`${recipient.accountKey}::${recipient.email}`) : undefined;
+
+  // Variant index per recipient; only recipients that will actually be sent join the test group.
+  const variantIndexes = new Map<EmailRecipientInput, number | null>();
+  if (abTest) {
+    const pendingRecipients = recipients.filter((recipient) => recipient.email && !suppressionFor(recipient));
+    const assignments = assignAbTestVariants(pendingRecipients.length, abTest.variants.length, abTest.testPercent);
+    pendingRecipients.forEach((recipient, index) => variantIndexes.set(recipient, assignments[index]));
+  }
 
   const created = await prisma.$transaction(async (tx) => {
     const campaign = await tx.emailCampaign.create({
@@ -332,34 +508,250 @@ export async function createEmailCampaign(input: CreateEmailCampaignInput): Prom
         sourceFilter: input.sourceFilter || null,
         accountKeys: JSON.stringify(accountKeys),
         totalRecipients: recipients.length,
+        skippedCount: recipients.filter((recipient) => Boolean(suppressionFor(recipient))).length,
         metadata: buildCampaignMetadata(input),
+        testPercent: abTest?.testPercent ?? null,
+        winnerMetric: abTest?.winnerMetric ?? null,
+        testWaitMinutes: abTest?.waitMinutes ?? null,
       },
     });
 
+    const variantIds: string[] = [];
+    for (const [index, variant] of (abTest?.variants || []).entries()) {
+      const created = await tx.emailCampaignVariant.create({
+        data: {
+          campaignId: campaign.id,
+          label: AB_TEST_VARIANT_LABELS[index],
+          subject: sanitizeSubject(variant.subject),
+          previewText: String(variant.previewText || '').trim() || null,
+          htmlContent: sanitizeHtml(variant.htmlContent),
+          textContent: sanitizeText(variant.textContent || '') || null,
+        },
+      });
+      variantIds.push(created.id);
+    }
+
     await tx.emailCampaignRecipient.createMany({
-      data: recipients.map((recipient) => ({
-        campaignId: campaign.id,
-        contactId: recipient.contactId,
-        accountKey: recipient.accountKey,
-        email: recipient.email || null,
-        fullName: recipient.fullName || null,
-        status: recipient.email ? 'pending' : 'failed',
-        error: recipient.email ? null : INVALID_EMAIL_ERROR,
-      })),
+      data: recipients.map((recipient) => {
+        const suppression = suppressionFor(recipient);
+        const variantIndex = variantIndexes.get(recipient);
+        return {
+          campaignId: campaign.id,
+          variantId: variantIndex === undefined || variantIndex === null ? null : variantIds[variantIndex],
+          contactId: recipient.contactId,
+          accountKey: recipient.accountKey,
+          email: recipient.email || null,
+          fullName: recipient.fullName || null,
+          mergeData: recipient.mergeFields ? JSON.stringify(recipient.mergeFields) : null,
+          status: !recipient.email ? 'failed' : suppression ? 'skipped' : 'pending',
+          error: !recipient.email
+            ? INVALID_EMAIL_ERROR
+            : suppression
+              ? suppressionSkipMessage(suppression)
+              : null,
+        };
+      }),
     });
 
     return campaign;
   });
 
+  await recordAuditEvent({
+    action: 'campaign.create',
+    targetType: 'campaign',
+    targetId: created.id,
+    targetLabel: created.name || subject,
+    accountKey: accountKeys.length === 1 ? accountKeys[0] : null,
+    actor: input.actor,
+    metadata: {
+      channel: 'email',
+      accountKeys,
+      totalRecipients: recipients.length,
+      scheduledFor: scheduledDate?.toISOString() || null,
+      abTest: Boolean(abTest),
+    },
+  });
+
   return toSummary(created);
 }
 
+/**
+ * Pre-send check: reports recipients whose merge fields would render empty.
+ */
+export async function previewEmailCampaignPersonalization(
+  input: Pick<CreateEmailCampaignInput, 'subject' | 'htmlContent' | 'textContent' | 'previewText' | 'recipients' | 'variableFallbacks'>,
+): Promise<PersonalizationReport> {
+  const recipients = await withStoredMergeFields(
+    dedupeRecipients(input.recipients || []).filter((recipient) => Boolean(recipient.email)),
+  );
+  return buildPersonalizationReport({
+    content: {
+      subject: sanitizeSubject(input.subject || ''),
+      htmlContent: [sanitizeHtml(input.htmlContent || ''), input.previewText || ''].join('\n'),
+      textContent: sanitizeText(input.textContent || ''),
+    },
+    recipients,
+    fallbacks: normalizeVariableFallbacks(input.variableFallbacks),
+    systemVariables: ['unsubscribe_link'],
+  });
+}
+
+export interface FlowStepEmailInput {
+  /** `<flowId>:<stepId>`; sends of the same step and content share one campaign. */
+  flowStepKey: string;
+  /** Idempotency key of this send; repeating it never sends a second email. */
+  sendKey: string;
+  name: string;
+  subject: string;
+  previewText?: string;
+  htmlContent: string;
+  textContent?: string;
+  metadata?: string | null;
+  recipient: EmailRecipientInput;
+}
+
+export interface FlowStepEmailResult {
+  campaignId: string;
+  recipientId: string;
+  status: string;
+  error: string | null;
+}
+
+function isDuplicateSendKeyError(err: unknown): boolean {
+  const error = err as { code?: unknown; meta?: { target?: unknown } } | null;
+  if (!error || error.code !== 'P2002') return false;
+  const target = error.meta?.target;
+  if (Array.isArray(target)) return target.map(String).includes('sendKey');
+  return typeof target === 'string' ? target.includes('sendKey') : true;
+}
+
+async function findOrCreateFlowStepCampaign(input: FlowStepEmailInput, accountKey: string) {
+  const subject = sanitizeSubject(input.subject);
+  const htmlContent = sanitizeHtml(input.htmlContent);
+  const textContent = sanitizeText(input.textContent || '');
+  const previewText = String(input.previewText || '').trim();
+  if (!subject) throw new Error('Email subject is required');
+  if (!htmlContent) throw new Error('Email HTML content is required');
+
+  // Editing the step's content starts a new campaign instead of rewriting the old one's history.
+  const contentHash = crypto
+    .createHash('sha256')
+    .update(JSON.stringify([subject, previewText, htmlContent, textContent]))
+    .digest('hex')
+    .slice(0, 16);
+  const flowStepKey = `${input.flowStepKey}:${contentHash}`;
+
+  const existing = await prisma.emailCampaign.findUnique({ where: { flowStepKey } });
+  if (existing) {
+    const accountKeys = parseAccountKeys(existing.accountKeys);
+    if (accountKeys.includes(accountKey)) return existing;
+    return prisma.emailCampaign.update({
+      where: { id: existing.id },
+      data: { accountKeys: JSON.stringify([...accountKeys, accountKey]) },
+    });
+  }
+
+  try {
+    return await prisma.emailCampaign.create({
+      data: {
+        name: input.name.trim() || null,
+        subject,
+        previewText: previewText || null,
+        htmlContent,
+        textContent: textContent || null,
+        sourceType: 'html',
+        status: 'queued',
+        flowStepKey,
+        accountKeys: JSON.stringify([accountKey]),
+        metadata: buildCampaignMetadata({ ...input, sourceType: 'html', recipients: [] }),
+      },
+    });
+  } catch (err) {
+    // Another enrollment created the step's campaign first.
+    const raced = await prisma.emailCampaign.findUnique({ where: { flowStepKey } });
+    if (!raced) throw err;
+    return raced;
+  }
+}
+
+/**
+ * Send one Loomi flow step's email to one contact. Every send of the step
+ * lands in the same campaign, and `sendKey` makes it idempotent: a key whose
+ * email already went out (or was suppressed) returns that result without
+ * sending again, and a key whose send failed retries the same recipient row.
+ * An interrupted send is not retried, since the email may already have gone out.
+ */
+export async function sendFlowStepEmail(input: FlowStepEmailInput): Promise<FlowStepEmailResult> {
+  const select = { id: true, campaignId: true, status: true, error: true } as const;
+  let row = await prisma.emailCampaignRecipient.findUnique({ where: { sendKey: input.sendKey }, select });
+
+  if (!row) {
+    const [recipient] = await withStoredMergeFields(dedupeRecipients([input.recipient]));
+    if (!recipient?.email) throw new Error('No recipients with valid email addresses were provided');
+
+    const campaign = await findOrCreateFlowStepCampaign(input, recipient.accountKey);
+    const suppression = (await findSuppressedRecipients([recipient])).get(`${recipient.accountKey}::${recipient.email}`);
+    try {
+      row = await prisma.emailCampaignRecipient.create({
+        data: {
+          campaignId: campaign.id,
+          contactId: recipient.contactId,
+          accountKey: recipient.accountKey,
+          email: recipient.email,
+          fullName: recipient.fullName || null,
+          mergeData: recipient.mergeFields ? JSON.stringify(recipient.mergeFields) : null,
+          sendKey: input.sendKey,
+          status: suppression ? 'skipped' : 'pending',
+          error: suppression ? suppressionSkipMessage(suppression) : null,
+        },
+        select,
+      });
+    } catch (err) {
+      if (!isDuplicateSendKeyError(err)) throw err;
+      row = await prisma.emailCampaignRecipient.findUniqueOrThrow({ where: { sendKey: input.sendKey }, select });
+    }
+  } else if (row.status === 'failed' && row.error !== SEND_INTERRUPTED_ERROR) {
+    row = await prisma.emailCampaignRecipient.update({
+      where: { id: row.id },
+      data: { status: 'pending', error: null },
+      select,
+    });
+  }
+
+  if (row.status === 'pending') {
+    // Reopen the step's campaign for this send; a canceled campaign stays canceled.
+    await prisma.emailCampaign.updateMany({
+      where: { id: row.campaignId, status: { not: 'canceled' } },
+      data: { status: 'queued', completedAt: null },
+    });
+    await processEmailCampaign(row.campaignId, { recipientIds: [row.id] });
+    row = await prisma.emailCampaignRecipient.findUniqueOrThrow({ where: { id: row.id }, select });
+  }
+
+  return { campaignId: row.campaignId, recipientId: row.id, status: row.status, error: row.error };
+}
+
 export async function getEmailCampaign(campaignId: string): Promise<EmailCampaignSummary | null> {
   const row = await prisma.emailCampaign.findUnique({
     where: { id: campaignId },
     select: emailCampaignSummarySelect,
   });
-  return row ? toSummary(row) : null;
+  if (!row) return null;
+  const [summary] = await withEngagement([toSummary(row)]);
+  return summary;
+}
+
+/**
+ * The HTML a native campaign was sent with, or null when the campaign doesn't
+ * exist or didn't include the account. A/B tests return variant A.
+ */
+export async function getEmailCampaignHtml(campaignId: string, accountKey: string): Promise<string | null> {
+  const row = await prisma.emailCampaign.findUnique({
+    where: { id: campaignId },
+    select: { htmlContent: true, accountKeys: true },
+  });
+  if (!row || !parseAccountKeys(row.accountKeys).includes(accountKey)) return null;
+  return row.htmlContent;
 }
 
 export async function listEmailCampaigns(options?: {
@@ -377,14 +769,64 @@ export async function listEmailCampaigns(options?: {
     ? new Set(options.accountKeys)
     : null;
 
-  return rows
+  return withEngagement(rows
     .filter((row) => {
       if (!allowedAccountKeys) return true;
       const keys = parseAccountKeys(row.accountKeys);
       return keys.some((key) => allowedAccountKeys.has(key));
     })
     .slice(0, limit)
-    .map(toSummary);
+    .map(toSummary));
+}
+
+/**
+ * Campaigns that sent to `accountKey` through the given transport, newest
+ * first — the campaign history for providers without their own campaign API.
+ * Recipient and engagement counts cover that account only, not the whole
+ * (possibly multi-account) campaign.
+ */
+export async function listAccountTransportCampaigns(
+  accountKey: string,
+  transport: string,
+  options?: { limit?: number },
+): Promise<EmailCampaignSummary[]> {
+  const limit = Math.max(1, Math.min(200, options?.limit ?? 100));
+  const rows = await prisma.emailCampaign.findMany({
+    where: { recipients: { some: { accountKey, transport } } },
+    select: emailCampaignSummarySelect,
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+  if (rows.length === 0) return [];
+
+  const statusCounts = await prisma.emailCampaignRecipient.groupBy({
+    by: ['campaignId', 'status'],
+    where: { campaignId: { in: rows.map((row) => row.id) }, accountKey },
+    _count: { _all: true },
+  });
+  const countsByCampaign = new Map<string, { total: number; sent: number; failed: number; skipped: number }>();
+  for (const row of statusCounts) {
+    const counts = countsByCampaign.get(row.campaignId) || { total: 0, sent: 0, failed: 0, skipped: 0 };
+    counts.total += row._count._all;
+    if (row.status === 'sent') counts.sent += row._count._all;
+    else if (row.status === 'failed') counts.failed += row._count._all;
+    else if (row.status === 'skipped') counts.skipped += row._count._all;
+    countsByCampaign.set(row.campaignId, counts);
+  }
+
+  const summaries = rows.map((row) => {
+    const counts = countsByCampaign.get(row.id) || { total: 0, sent: 0, failed: 0, skipped: 0 };
+    return {
+      ...toSummary(row),
+      totalRecipients: counts.total,
+      sentCount: counts.sent,
+      failedCount: counts.failed,
+      skippedCount: counts.skipped,
+      accountKeys: [accountKey],
+    };
+  });
+  // Transport stats rows are keyed by the Loomi account key.
+  return withEngagement(summaries, { accountId: accountKey });
 }
 
 async function summarizeCampaign(campaignId: string) {
@@ -396,10 +838,12 @@ async function summarizeCampaign(campaignId: string) {
   let pending = 0;
   let sent = 0;
   let failed = 0;
+  let skipped = 0;
   let firstError = '';
 
   for (const row of recipients) {
     if (row.status === 'sent') sent += 1;
+    else if (row.status === 'skipped') skipped += 1;
     else if (row.status === 'failed') {
       failed += 1;
       if (!firstError && row.error) firstError = row.error;
@@ -411,40 +855,131 @@ async function summarizeCampaign(campaignId: string) {
     pending,
     sent,
     failed,
+    skipped,
     firstError,
   };
 }
 
+/**
+ * Cancel a campaign that hasn't started sending. Pending recipients are
+ * marked skipped so the summary counts stay consistent.
+ */
+export async function cancelEmailCampaign(
+  campaignId: string,
+  actor?: AuditActor | null,
+): Promise<EmailCampaignSummary> {
+  const campaign = await prisma.emailCampaign.findUnique({
+    where: { id: campaignId },
+    select: { id: true, name: true, subject: true, status: true, accountKeys: true },
+  });
+  if (!campaign) throw new Error('Email campaign not found');
+  if (!CANCELABLE_STATUSES.includes(campaign.status as EmailCampaignStatus)) {
+    throw new Error(`Campaign cannot be canceled while ${campaign.status}`);
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await tx.emailCampaignRecipient.updateMany({
+      where: { campaignId, status: 'pending' },
+      data: { status: 'skipped', error: 'Campaign canceled' },
+    });
+    const counts = await tx.emailCampaignRecipient.count({ where: { campaignId, status: 'skipped' } });
+    return tx.emailCampaign.update({
+      where: { id: campaignId },
+      data: { status: 'canceled', completedAt: new Date(), skippedCount: counts },
+    });
+  });
+
+  const accountKeys = parseAccountKeys(campaign.accountKeys);
+  await recordAuditEvent({
+    action: 'campaign.cancel',
+    targetType: 'campaign',
+    targetId: campaign.id,
+    targetLabel: campaign.name || campaign.subject,
+    accountKey: accountKeys.length === 1 ? accountKeys[0] : null,
+    actor,
+    changes: { status: { before: campaign.status, after: 'canceled' } },
+    metadata: { channel: 'email', accountKeys },
+  });
+
+  return toSummary(updated);
+}
+
 export async function processEmailCampaign(
   campaignId: string,
-  options?: { concurrency?: number },
+  options?: {
+    concurrency?: number;
+    /** Send only these recipients; the campaign's other pending recipients wait. */
+    recipientIds?: string[];
+  },
 ): Promise<EmailCampaignSummary> {
   const concurrency = Math.max(1, Math.min(8, options?.concurrency ?? 3));
-  const campaign = await prisma.emailCampaign.findUnique({
+  // A run that died mid-send may or may not have delivered; fail those rows
+  // rather than send a possible duplicate.
+  await prisma.emailCampaignRecipient.updateMany({
+    where: {
+      campaignId,
+      status: 'sending',
+      updatedAt: { lt: new Date(Date.now() - STALE_SENDING_MS) },
+    },
+    data: { status: 'failed', error: SEND_INTERRUPTED_ERROR },
+  });
+
+  const loadCampaign = () => prisma.emailCampaign.findUnique({
     where: { id: campaignId },
     include: {
       recipients: {
-        where: { status: 'pending' },
-        select: { id: true, email: true, fullName: true },
+        where: {
+          status: 'pending',
+          ...(options?.recipientIds ? { id: { in: options.recipientIds } } : {}),
+        },
+        select: {
+          id: true,
+          variantId: true,
+          contactId: true,
+          accountKey: true,
+          email: true,
+          fullName: true,
+          mergeData: true,
+        },
       },
+      variants: true,
     },
   });
 
-  if (!campaign) throw new Error('Email campaign not found');
-  if (TERMINAL_STATUSES.includes(campaign.status as EmailCampaignStatus)) {
-    return toSummary(campaign);
+  let loaded = await loadCampaign();
+  if (!loaded) throw new Error('Email campaign not found');
+  if (TERMINAL_STATUSES.includes(loaded.status as EmailCampaignStatus)) {
+    return toSummary(loaded);
+  }
+
+  const isAbTest = loaded.variants.length > 0;
+  if (isAbTest && !loaded.winnerVariantId && loaded.testDecideAt && loaded.testDecideAt.getTime() <= Date.now()) {
+    await decideEmailAbTestWinner(loaded.id);
+    loaded = await loadCampaign();
+    if (!loaded) throw new Error('Email campaign not found');
+  }
+  const campaign = loaded;
+
+  // Until a winner is picked, only the test group is sent; the rest wait.
+  const awaitingWinner = isAbTest && !campaign.winnerVariantId;
+  const sendable = awaitingWinner
+    ? campaign.recipients.filter((recipient) => recipient.variantId)
+    : campaign.recipients;
+  const heldForWinner = campaign.recipients.length - sendable.length;
+
+  if (sendable.length === 0 && heldForWinner > 0) {
+    const testDecideAt = campaign.testDecideAt
+      || new Date(Date.now() + (campaign.testWaitMinutes ?? 0) * 60_000);
+    const updated = await prisma.emailCampaign.update({
+      where: { id: campaign.id },
+      data: { status: 'testing', testDecideAt },
+    });
+    return toSummary(updated);
   }
 
   if (campaign.recipients.length === 0) {
     const counts = await summarizeCampaign(campaign.id);
-    const status: EmailCampaignStatus =
-      counts.sent > 0 && counts.failed > 0
-        ? 'partial'
-        : counts.sent > 0
-          ? 'completed'
-          : counts.failed > 0
-            ? 'failed'
-            : 'queued';
+    const status = resolveCampaignStatus({ ...counts, pending: 0 });
     const updated = await prisma.emailCampaign.update({
       where: { id: campaign.id },
       data: {
@@ -452,6 +987,7 @@ export async function processEmailCampaign(
         totalRecipients: counts.total,
         sentCount: counts.sent,
         failedCount: counts.failed,
+        skippedCount: counts.skipped,
         completedAt: status === 'queued' ? null : new Date(),
         error: counts.firstError || null,
       },
@@ -469,12 +1005,36 @@ export async function processEmailCampaign(
     },
   });
 
-  const { transporter, from } = getTransportConfig();
+  // Each account sends through its own transport; resolved once per account per run.
+  const transports = new Map<string, Promise<EmailTransport>>();
+  const transportFor = (accountKey: string) => {
+    let transport = transports.get(accountKey);
+    if (!transport) {
+      transport = resolveAccountEmailTransport(accountKey);
+      transports.set(accountKey, transport);
+    }
+    return transport;
+  };
   const metadata = parseCampaignMetadata(campaign.metadata);
-  const html = withPreviewText(campaign.htmlContent, campaign.previewText || '');
-  const text = campaign.textContent?.trim() || stripHtml(campaign.htmlContent);
+  const sendableAccountKeys = sendable.map((recipient) => recipient.accountKey);
+  const [accountMergeData, trackingSettings] = await Promise.all([
+    loadAccountMergeData(sendableAccountKeys),
+    loadAccountTrackingSettings(sendableAccountKeys),
+  ]);
+  // Re-checked at send time: addresses can unsubscribe or bounce after the campaign was queued.
+  const suppressed = await findSuppressedRecipients(sendable);
+  const variantsById = new Map(campaign.variants.map((variant) => [variant.id, variant]));
+
+  const tasks = sendable.map((recipient) => async () => {
+    // Claim the row first: concurrent runs of the same campaign (the job
+    // queue, a flow step, an inline send) each see it pending, and only the
+    // run that moves it to "sending" may send.
+    const claim = await prisma.emailCampaignRecipient.updateMany({
+      where: { id: recipient.id, status: 'pending' },
+      data: { status: 'sending' },
+    });
+    if (claim.count !== 1) return;
 
-  const tasks = campaign.recipients.map((recipient) => async () => {
     const recipientEmail = normalizeEmailAddress(recipient.email || '');
     if (!isLikelyDeliverableEmail(recipientEmail)) {
       await prisma.emailCampaignRecipient.update({
@@ -487,20 +1047,80 @@ export async function processEmailCampaign(
       return;
     }
 
+    const suppression = suppressed.get(`${recipient.accountKey}::${recipientEmail}`);
+    if (suppression) {
+      await prisma.emailCampaignRecipient.update({
+        where: { id: recipient.id },
+        data: {
+          status: 'skipped',
+          error: suppressionSkipMessage(suppression),
+        },
+      });
+      return;
+    }
+
     try {
-      const info = await transporter.sendMail({
-        from,
+      const unsubscribeUrl = buildEmailUnsubscribeUrl({
+        email: recipientEmail,
+        accountKey: recipient.accountKey,
+        campaignId: campaign.id,
+        recipientId: recipient.id,
+      });
+      const mergeFields = parseMergeFields(recipient.mergeData);
+      const variables = buildRecipientVariableMap(accountMergeData.get(recipient.accountKey), {
+        id: recipient.id,
+        contactId: recipient.contactId,
+        accountKey: recipient.accountKey,
+        email: recipientEmail,
+        fullName: recipient.fullName,
+        mergeFields,
+      }, { unsubscribe_link: unsubscribeUrl });
+      // Held-back recipients keep a null variant so test rates stay clean;
+      // they receive the winning variant.
+      const variantId = recipient.variantId || campaign.winnerVariantId;
+      const content = (variantId && variantsById.get(variantId)) || campaign;
+      const personalized = personalizeContent(content, variables, metadata.variableFallbacks, {
+        ...mergeFields,
+        email: mergeFields?.email || recipientEmail,
+        fullName: mergeFields?.fullName || recipient.fullName || undefined,
+      });
+      const previewText = applyVariableTokens(content.previewText || '', variables, {
+        fallbacks: metadata.variableFallbacks,
+        escape: true,
+      });
+
+      const tracking = trackingSettings.get(recipient.accountKey);
+      const html = tracking
+        ? applyEmailTracking(personalized.html, {
+          campaignId: campaign.id,
+          campaignName: campaign.name || campaign.subject,
+          recipientId: recipient.id,
+          accountKey: recipient.accountKey,
+          dealer: tracking.dealer,
+          policy: tracking.policy,
+          utm: metadata.utm,
+          skipUrls: [unsubscribeUrl],
+        })
+        : personalized.html;
+
+      const transport = await transportFor(recipient.accountKey);
+      const info = await transport.send({
         to: recipientEmail,
-        subject: campaign.subject,
-        html,
-        text,
+        subject: personalized.subject,
+        html: withPreviewText(html, previewText),
+        text: personalized.text.trim() || stripHtml(personalized.html),
+        headers: buildListUnsubscribeHeaders(unsubscribeUrl),
+        campaignId: campaign.id,
+        recipientId: recipient.id,
+        accountKey: recipient.accountKey,
       });
 
       await prisma.emailCampaignRecipient.update({
         where: { id: recipient.id },
         data: {
           status: 'sent',
-          messageId: info.messageId || null,
+          transport: transport.kind,
+          messageId: info.messageId,
           sentAt: new Date(),
           error: null,
         },
@@ -519,26 +1139,23 @@ export async function processEmailCampaign(
   await withConcurrencyLimit(tasks, concurrency);
 
   const counts = await summarizeCampaign(campaign.id);
-  const nextStatus: EmailCampaignStatus =
-    counts.pending > 0
-      ? 'processing'
-      : counts.sent > 0 && counts.failed > 0
-        ? 'partial'
-        : counts.sent > 0
-          ? 'completed'
-          : counts.failed > 0
-            ? 'failed'
-            : 'queued';
+  // Test group done: hold the remainder until the wait period has elapsed.
+  const testGroupSent = awaitingWinner && heldForWinner > 0 && counts.pending === heldForWinner;
+  const nextStatus = testGroupSent ? 'testing' : resolveCampaignStatus(counts);
 
   const updated = await prisma.emailCampaign.update({
     where: { id: campaign.id },
     data: {
       sourceType: metadata.sourceType,
       status: nextStatus,
+      ...(testGroupSent && !campaign.testDecideAt
+        ? { testDecideAt: new Date(Date.now() + (campaign.testWaitMinutes ?? 0) * 60_000) }
+        : {}),
       totalRecipients: counts.total,
       sentCount: counts.sent,
       failedCount: counts.failed,
-      completedAt: nextStatus === 'processing' || nextStatus === 'queued' ? null : new Date(),
+      skippedCount: counts.skipped,
+      completedAt: nextStatus === 'processing' || nextStatus === 'queued' || nextStatus === 'testing' ? null : new Date(),
       error: counts.firstError || null,
     },
   });
@@ -546,43 +1163,40 @@ export async function processEmailCampaign(
   return toSummary(updated);
 }
 
-export async function processDueEmailCampaigns(options?: {
+/**
+ * Campaigns that are due to send. Each is sent by its own
+ * `email-campaign.process` job so only one run per campaign is ever active.
+ */
+export async function listDueEmailCampaignIds(options?: {
   limit?: number;
   accountKeys?: string[];
-  concurrency?: number;
-}): Promise<EmailCampaignSummary[]> {
+}): Promise<string[]> {
   const limit = Math.max(1, Math.min(20, options?.limit ?? 5));
   const now = new Date();
 
   const rows = await prisma.emailCampaign.findMany({
     where: {
       status: { in: PROCESSABLE_STATUSES },
-      OR: [
-        { scheduledFor: null },
-        { scheduledFor: { lte: now } },
+      AND: [
+        { OR: [{ scheduledFor: null }, { scheduledFor: { lte: now } }] },
+        { OR: [{ testDecideAt: null }, { testDecideAt: { lte: now } }] },
       ],
     },
     orderBy: [{ scheduledFor: 'asc' }, { createdAt: 'asc' }],
     take: limit * 4,
+    select: { id: true, accountKeys: true },
   });
 
   const allowedAccountKeys = options?.accountKeys && options.accountKeys.length > 0
     ? new Set(options.accountKeys)
     : null;
 
-  const queue = rows
+  return rows
     .filter((row) => {
       if (!allowedAccountKeys) return true;
       const keys = parseAccountKeys(row.accountKeys);
       return keys.some((key) => allowedAccountKeys.has(key));
     })
-    .slice(0, limit);
-
-  const summaries: EmailCampaignSummary[] = [];
-  for (const row of queue) {
-    const summary = await processEmailCampaign(row.id, { concurrency: options?.concurrency });
-    summaries.push(summary);
-  }
-
-  return summaries;
+    .slice(0, limit)
+    .map((row) => row.id);
 }
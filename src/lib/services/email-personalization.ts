@@ -0,0 +1,383 @@
+import { applyContentConditions } from '@/lib/content-conditions';
+import { prisma } from '@/lib/prisma';
+import { readEspVariables } from '@/lib/esp/variables';
+import {
+  buildPreviewVariableMap,
+  type PreviewAccountData,
+  type PreviewContact,
+} from '@/lib/preview-variables';
+
+/**
+ * Contact fields captured per recipient at campaign creation. Mirrors the
+ * PreviewContact shape so send-time resolution uses the same token vocabulary
+ * as the editor preview.
+ */
+export type RecipientMergeFields = Omit<PreviewContact, 'id'>;
+
+const MERGE_FIELD_KEYS: Array<keyof RecipientMergeFields> = [
+  'firstName',
+  'lastName',
+  'fullName',
+  'email',
+  'phone',
+  'address1',
+  'city',
+  'state',
+  'postalCode',
+  'country',
+  'vehicleYear',
+  'vehicleMake',
+  'vehicleModel',
+  'vehicleVin',
+  'vehicleMileage',
+  'lastServiceDate',
+  'nextServiceDate',
+  'leaseEndDate',
+  'warrantyEndDate',
+  'purchaseDate',
+];
+
+const TOKEN_REGEX = /\{\{\s*([^{}|()#/]+?)\s*\}\}/g;
+
+export interface PersonalizationRecipient {
+  id?: string;
+  contactId: string;
+  accountKey: string;
+  email?: string | null;
+  fullName?: string | null;
+  mergeFields?: RecipientMergeFields | null;
+}
+
+export interface PersonalizationContent {
+  subject: string;
+  htmlContent: string;
+  textContent?: string | null;
+}
+
+export interface PersonalizationReport {
+  totalRecipients: number;
+  recipientsWithMissing: number;
+  /** Variable name (without braces) → number of recipients missing it. */
+  missingByVariable: Record<string, number>;
+  /** First recipients affected, for display in the pre-send review. */
+  samples: Array<{
+    contactId: string;
+    accountKey: string;
+    email: string;
+    missing: string[];
+  }>;
+}
+
+const REPORT_SAMPLE_LIMIT = 25;
+
+// ── Parsing helpers ──
+
+function parseJsonRecord(raw: string | null | undefined): Record<string, unknown> | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function normalizeMergeFields(raw: unknown): RecipientMergeFields | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const source = raw as Record<string, unknown>;
+  const fields: RecipientMergeFields = {};
+  let hasAny = false;
+  for (const key of MERGE_FIELD_KEYS) {
+    const value = source[key];
+    if (typeof value !== 'string' && typeof value !== 'number') continue;
+    const text = String(value).trim();
+    if (!text) continue;
+    fields[key] = text;
+    hasAny = true;
+  }
+  return hasAny ? fields : null;
+}
+
+export function parseMergeFields(raw: string | null | undefined): RecipientMergeFields | null {
+  return normalizeMergeFields(parseJsonRecord(raw));
+}
+
+export function normalizeVariableFallbacks(raw: unknown): Record<string, string> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const fallbacks: Record<string, string> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const name = key.replace(/^\{+|\}+$/g, '').trim();
+    if (!name || typeof value !== 'string' || !value.trim()) continue;
+    fallbacks[name] = value.trim();
+  }
+  return fallbacks;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// ── Vocabulary ──
+
+let knownVariableCache: Set<string> | null = null;
+
+function knownVariables(): Set<string> {
+  if (knownVariableCache) return knownVariableCache;
+  const names = new Set<string>();
+  for (const definitions of Object.values(readEspVariables())) {
+    for (const definition of definitions) {
+      names.add(definition.variable.replace(/^\{+|\}+$/g, '').trim());
+    }
+  }
+  knownVariableCache = names;
+  return names;
+}
+
+function isKnownVariable(name: string): boolean {
+  return knownVariables().has(name) || name.startsWith('custom_values.');
+}
+
+// ── Account data ──
+
+function toPreviewAccountData(row: {
+  dealer: string;
+  email: string | null;
+  phone: string | null;
+  salesPhone: string | null;
+  servicePhone: string | null;
+  partsPhone: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  postalCode: string | null;
+  website: string | null;
+  timezone: string | null;
+  logos: string | null;
+  branding: string | null;
+  customValues: string | null;
+}): PreviewAccountData {
+  return {
+    dealer: row.dealer,
+    email: row.email || undefined,
+    phone: row.phone || undefined,
+    salesPhone: row.salesPhone || undefined,
+    servicePhone: row.servicePhone || undefined,
+    partsPhone: row.partsPhone || undefined,
+    address: row.address || undefined,
+    city: row.city || undefined,
+    state: row.state || undefined,
+    postalCode: row.postalCode || undefined,
+    website: row.website || undefined,
+    timezone: row.timezone || undefined,
+    logos: (parseJsonRecord(row.logos) as PreviewAccountData['logos']) || undefined,
+    branding: (parseJsonRecord(row.branding) as PreviewAccountData['branding']) || undefined,
+    customValues: (parseJsonRecord(row.customValues) as PreviewAccountData['customValues']) || undefined,
+  };
+}
+
+export async function loadAccountMergeData(
+  accountKeys: string[],
+): Promise<Map<string, PreviewAccountData>> {
+  const keys = [...new Set(accountKeys.filter(Boolean))];
+  if (keys.length === 0) return new Map();
+
+  const rows = await prisma.account.findMany({
+    where: { key: { in: keys } },
+    select: {
+      key: true,
+      dealer: true,
+      email: true,
+      phone: true,
+      salesPhone: true,
+      servicePhone: true,
+      partsPhone: true,
+      address: true,
+      city: true,
+      state: true,
+      postalCode: true,
+      website: true,
+      timezone: true,
+      logos: true,
+      branding: true,
+      customValues: true,
+    },
+  });
+
+  return new Map(rows.map((row) => [row.key, toPreviewAccountData(row)]));
+}
+
+// ── Contact data ──
+
+export function contactMergeKey(accountKey: string, contactId: string): string {
+  return `${accountKey}::${contactId}`;
+}
+
+/**
+ * Merge fields for each recipient from the stored contact index, keyed by
+ * `contactMergeKey`. Recipients whose contact isn't indexed are absent.
+ */
+export async function loadContactMergeFields(
+  recipients: Array<{ accountKey: string; contactId: string }>,
+): Promise<Map<string, RecipientMergeFields>> {
+  const idsByAccount = new Map<string, Set<string>>();
+  for (const recipient of recipients) {
+    if (!recipient.accountKey || !recipient.contactId) continue;
+    const ids = idsByAccount.get(recipient.accountKey) || new Set<string>();
+    ids.add(recipient.contactId);
+    idsByAccount.set(recipient.accountKey, ids);
+  }
+  if (idsByAccount.size === 0) return new Map();
+
+  const rows = await prisma.indexedContact.findMany({
+    where: {
+      OR: [...idsByAccount].map(([accountKey, ids]) => ({ accountKey, contactId: { in: [...ids] } })),
+    },
+    select: {
+      accountKey: true,
+      contactId: true,
+      ...Object.fromEntries(MERGE_FIELD_KEYS.map((key) => [key, true])),
+    },
+  });
+
+  const fields = new Map<string, RecipientMergeFields>();
+  for (const row of rows as Array<Record<string, unknown>>) {
+    const merge = normalizeMergeFields(row);
+    if (merge) fields.set(contactMergeKey(String(row.accountKey), String(row.contactId)), merge);
+  }
+  return fields;
+}
+
+// ── Resolution ──
+
+function recipientContact(recipient: PersonalizationRecipient): PreviewContact {
+  const fields = recipient.mergeFields || {};
+  return {
+    ...fields,
+    id: recipient.contactId,
+    email: fields.email || recipient.email || undefined,
+    fullName: fields.fullName || recipient.fullName || undefined,
+  };
+}
+
+/**
+ * Build the real (no sample data) token → value map for one recipient.
+ */
+export function buildRecipientVariableMap(
+  account: PreviewAccountData | null | undefined,
+  recipient: PersonalizationRecipient,
+  systemValues?: Record<string, string>,
+): Record<string, string> {
+  const values = buildPreviewVariableMap(account, recipientContact(recipient), { sampleDefaults: false });
+  if (recipient.id) values['{{message.id}}'] = recipient.id;
+  for (const [name, value] of Object.entries(systemValues || {})) {
+    if (value) values[`{{${name}}}`] = value;
+  }
+  return values;
+}
+
+/**
+ * Replace every `{{token}}` with its resolved value. Known vocabulary tokens
+ * without a value fall back to the configured fallback (or empty string);
+ * unknown tokens are left untouched unless a fallback is configured.
+ */
+export function applyVariableTokens(
+  content: string,
+  values: Record<string, string>,
+  options?: { fallbacks?: Record<string, string>; escape?: boolean },
+): string {
+  if (!content) return content;
+  const fallbacks = options?.fallbacks || {};
+  return content.replace(TOKEN_REGEX, (match, rawName: string) => {
+    const name = rawName.trim();
+    const resolved = values[`{{${name}}}`];
+    const value = resolved || fallbacks[name] || (isKnownVariable(name) ? '' : null);
+    if (value === null) return match;
+    return options?.escape ? escapeHtml(value) : value;
+  });
+}
+
+/** Variables referenced in the content that have no value and no fallback. */
+export function findUnresolvedVariables(
+  content: string,
+  values: Record<string, string>,
+  fallbacks?: Record<string, string>,
+): string[] {
+  const missing = new Set<string>();
+  for (const match of content.matchAll(TOKEN_REGEX)) {
+    const name = match[1].trim();
+    if (values[`{{${name}}}`] || fallbacks?.[name]) continue;
+    missing.add(name);
+  }
+  return [...missing].sort();
+}
+
+/**
+ * Resolve content for one recipient. With `contact`, conditional content
+ * blocks whose visibility rule the contact fails are dropped first.
+ */
+export function personalizeContent(
+  content: PersonalizationContent,
+  values: Record<string, string>,
+  fallbacks?: Record<string, string>,
+  contact?: RecipientMergeFields | null,
+): { subject: string; html: string; text: string } {
+  const html = contact ? applyContentConditions(content.htmlContent, contact) : content.htmlContent;
+  return {
+    subject: applyVariableTokens(content.subject, values, { fallbacks }),
+    html: applyVariableTokens(html, values, { fallbacks, escape: true }),
+    text: applyVariableTokens(content.textContent || '', values, { fallbacks }),
+  };
+}
+
+/**
+ * Pre-send report: which recipients would render with empty merge fields.
+ */
+export async function buildPersonalizationReport(params: {
+  content: PersonalizationContent;
+  recipients: PersonalizationRecipient[];
+  fallbacks?: Record<string, string>;
+  /** Tokens the send pipeline fills in itself (e.g. unsubscribe_link). */
+  systemVariables?: string[];
+}): Promise<PersonalizationReport> {
+  const combined = [params.content.subject, params.content.htmlContent, params.content.textContent || ''].join('\n');
+  const accounts = await loadAccountMergeData(params.recipients.map((recipient) => recipient.accountKey));
+  const systemValues = Object.fromEntries((params.systemVariables || []).map((name) => [name, 'system']));
+
+  const report: PersonalizationReport = {
+    totalRecipients: params.recipients.length,
+    recipientsWithMissing: 0,
+    missingByVariable: {},
+    samples: [],
+  };
+
+  for (const recipient of params.recipients) {
+    const values = buildRecipientVariableMap(
+      accounts.get(recipient.accountKey),
+      { ...recipient, id: recipient.id || 'pending' },
+      systemValues,
+    );
+    const missing = findUnresolvedVariables(combined, values, params.fallbacks);
+    if (missing.length === 0) continue;
+
+    report.recipientsWithMissing += 1;
+    for (const name of missing) {
+      report.missingByVariable[name] = (report.missingByVariable[name] || 0) + 1;
+    }
+    if (report.samples.length < REPORT_SAMPLE_LIMIT) {
+      report.samples.push({
+        contactId: recipient.contactId,
+        accountKey: recipient.accountKey,
+        email: recipient.email || '',
+        missing,
+      });
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,357 @@
+import net from 'net';
+import { lookup } from 'dns/promises';
+import { prisma } from '@/lib/prisma';
+import { maizzleRender } from '@/lib/maizzle-render';
+import { buildPreviewVariableMap, type PreviewContact } from '@/lib/preview-variables';
+import { applyVariableTokens, loadAccountMergeData } from '@/lib/services/email-personalization';
+import { expandSavedSections } from '@/lib/services/saved-sections';
+import { applyAccountTheme } from '@/lib/services/brand-kit';
+import { resolveAccountEmailTransport } from '@/lib/services/email-transport';
+import { stripHtmlToText } from '@/lib/template-editor-ai-context';
+import { buildRenderReport, type RenderReport } from '@/lib/email-render-report';
+import type { EmailTransportKind } from '@/lib/email-transport-options';
+
+/**
+ * Proofs: render a template the way a real send would (Maizzle build with
+ * variables resolved for a chosen contact), check it for email-client
+ * pitfalls, and send it to the account's saved seed list.
+ */
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_SEED_ADDRESSES = 25;
+const MAX_CHECKED_LINKS = 40;
+const LINK_CHECK_TIMEOUT_MS = 5_000;
+const LINK_CHECK_CONCURRENCY = 4;
+const MAX_LINK_REDIRECTS = 5;
+
+// Link checks request URLs taken from template content on the server, so
+// they must never reach loopback, private, link-local or other non-public
+// addresses (cloud metadata endpoints included).
+const NON_PUBLIC_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['::ffff:0:0', 96],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export class EmailProofError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'EmailProofError';
+    this.status = status;
+  }
+}
+
+export interface SeedAddress {
+  id: string;
+  email: string;
+  label: string | null;
+  createdAt: string;
+}
+
+export interface ProofRenderInput {
+  accountKey: string;
+  /** Template source — Maizzle (`<x-base>`) or plain HTML. */
+  source: string;
+  /** Real contact to resolve variables against; looked up in the contact index first. */
+  contactId?: string | null;
+  /** Contact fields from the caller, used when the contact is not indexed yet. */
+  contact?: PreviewContact | null;
+}
+
+export interface RenderedProof {
+  html: string;
+  /** Whose data filled the variables — a contact name/email, or "Sample contact". */
+  contactLabel: string;
+}
+
+export interface ProofSendResult {
+  kind: EmailTransportKind;
+  contactLabel: string;
+  sent: string[];
+  failed: Array<{ email: string; error: string }>;
+  report: RenderReport;
+}
+
+function isMaizzleSource(source: string): boolean {
+  const normalized = source.trimStart();
+  return (
+    (/^---\r?\n[\s\S]*?\r?\n---/.test(normalized) && /<x-base\b/i.test(normalized)) ||
+    /<x-core\./i.test(normalized) ||
+    /<x-base\b/i.test(normalized)
+  );
+}
+
+function serializeSeed(row: { id: string; email: string; label: string | null; createdAt: Date }): SeedAddress {
+  return { id: row.id, email: row.email, label: row.label, createdAt: row.createdAt.toISOString() };
+}
+
+function normalizeEmail(value: unknown): string {
+  return typeof value === 'string' ? value.trim().toLowerCase() : '';
+}
+
+// ── Seed list ──
+
+export async function listSeedAddresses(accountKey: string): Promise<SeedAddress[]> {
+  const rows = await prisma.emailSeedAddress.findMany({
+    where: { accountKey },
+    orderBy: { createdAt: 'asc' },
+  });
+  return rows.map(serializeSeed);
+}
+
+export async function addSeedAddress(
+  accountKey: string,
+  input: { email?: unknown; label?: unknown },
+  createdByUserId?: string | null,
+): Promise<SeedAddress> {
+  const email = normalizeEmail(input.email);
+  if (!EMAIL_PATTERN.test(email)) throw new EmailProofError('A valid email address is required');
+  const label = typeof input.label === 'string' && input.label.trim() ? input.label.trim().slice(0, 80) : null;
+
+  const [account, count, existing] = await Promise.all([
+    prisma.account.findUnique({ where: { key: accountKey }, select: { key: true } }),
+    prisma.emailSeedAddress.count({ where: { accountKey } }),
+    prisma.emailSeedAddress.findUnique({ where: { accountKey_email: { accountKey, email } } }),
+  ]);
+  if (!account) throw new EmailProofError('Account not found', 404);
+  if (existing) throw new EmailProofError(`${email} is already on the seed list`, 409);
+  if (count >= MAX_SEED_ADDRESSES) {
+    throw new EmailProofError(`Seed lists are limited to ${MAX_SEED_ADDRESSES} addresses`);
+  }
+
+  const row = await prisma.emailSeedAddress.create({
+    data: { accountKey, email, label, createdByUserId: createdByUserId ?? null },
+  });
+  return serializeSeed(row);
+}
+
+export async function removeSeedAddress(accountKey: string, id: string): Promise<void> {
+  const { count } = await prisma.emailSeedAddress.deleteMany({ where: { id, accountKey } });
+  if (count === 0) throw new EmailProofError('Seed address not found', 404);
+}
+
+// ── Rendering ──
+
+async function resolveProofContact(
+  accountKey: string,
+  contactId?: string | null,
+  fallback?: PreviewContact | null,
+): Promise<PreviewContact | null> {
+  if (contactId) {
+    const indexed = await prisma.indexedContact.findUnique({
+      where: { accountKey_contactId: { accountKey, contactId } },
+    });
+    if (indexed) {
+      return {
+        id: indexed.contactId,
+        firstName: indexed.firstName || undefined,
+        lastName: indexed.lastName || undefined,
+        fullName: indexed.fullName || undefined,
+        email: indexed.email || undefined,
+        phone: indexed.phone || undefined,
+        address1: indexed.address1 || undefined,
+        city: indexed.city || undefined,
+        state: indexed.state || undefined,
+        postalCode: indexed.postalCode || undefined,
+        country: indexed.country || undefined,
+        vehicleYear: indexed.vehicleYear || undefined,
+        vehicleMake: indexed.vehicleMake || undefined,
+        vehicleModel: indexed.vehicleModel || undefined,
+        vehicleVin: indexed.vehicleVin || undefined,
+        vehicleMileage: indexed.vehicleMileage || undefined,
+        lastServiceDate: indexed.lastServiceDate || undefined,
+        nextServiceDate: indexed.nextServiceDate || undefined,
+        leaseEndDate: indexed.leaseEndDate || undefined,
+        warrantyEndDate: indexed.warrantyEndDate || undefined,
+        purchaseDate: indexed.purchaseDate || undefined,
+      };
+    }
+  }
+  if (fallback && typeof fallback === 'object' && fallback.id && fallback.id === contactId) return fallback;
+  return null;
+}
+
+/**
+ * Build the template with the production Maizzle config (CSS inlined and
+ * purged) after resolving variables, so the proof matches what recipients get.
+ */
+export async function renderProofHtml(input: ProofRenderInput): Promise<RenderedProof> {
+  const source = typeof input.source === 'string' ? input.source : '';
+  if (!source.trim()) throw new EmailProofError('Template source is required');
+
+  const [accounts, contact] = await Promise.all([
+    loadAccountMergeData([input.accountKey]),
+    resolveProofContact(input.accountKey, input.contactId, input.contact),
+  ]);
+  const values = buildPreviewVariableMap(accounts.get(input.accountKey), contact);
+  // Sections expand first so their merge tags and theme tokens resolve with the rest
+  const themed = await applyAccountTheme(await expandSavedSections(source), input.accountKey);
+  const resolved = applyVariableTokens(themed, values);
+
+  let html = resolved;
+  if (isMaizzleSource(resolved)) {
+    try {
+      html = await maizzleRender.renderTemplate(resolved, { prettify: false, purge: true, timeout: 30_000 });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '';
+      throw new EmailProofError(`Failed to compile template${message ? `: ${message}` : ''}`, 500);
+    }
+  }
+
+  const contactLabel = contact
+    ? contact.fullName || [contact.firstName, contact.lastName].filter(Boolean).join(' ') || contact.email || contact.id
+    : 'Sample contact';
+  return { html, contactLabel };
+}
+
+// ── Link checks ──
+
+/** Whether `url` is http(s) and every address its host resolves to is public. */
+async function isPublicHttpUrl(url: URL): Promise<boolean> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  try {
+    const addresses = await lookup(hostname, { all: true, verbatim: true });
+    return addresses.length > 0 && addresses.every(({ address, family }) =>
+      !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Final HTTP status for `href`, following redirects by hand so every hop is
+ * re-checked against non-public addresses. Null when unreachable or blocked.
+ */
+async function fetchLinkStatus(href: string, method: 'HEAD' | 'GET'): Promise<number | null> {
+  let url = new URL(href);
+  for (let hop = 0; hop <= MAX_LINK_REDIRECTS; hop += 1) {
+    if (!(await isPublicHttpUrl(url))) return null;
+    const res = await fetch(url, {
+      method,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(LINK_CHECK_TIMEOUT_MS),
+    });
+    const location = res.headers.get('location');
+    if (res.status < 300 || res.status >= 400 || !location) return res.status;
+    url = new URL(location, url);
+  }
+  return null;
+}
+
+async function probeLink(href: string): Promise<number | null> {
+  for (const method of ['HEAD', 'GET'] as const) {
+    try {
+      const status = await fetchLinkStatus(href, method);
+      // Some servers reject HEAD outright; retry those with GET before reporting.
+      if (method === 'HEAD' && (status === 405 || status === 501)) continue;
+      return status;
+    } catch {
+      if (method === 'GET') return null;
+    }
+  }
+  return null;
+}
+
+async function findUnreachableLinks(
+  hrefs: string[],
+): Promise<Array<{ href: string; status: number | null }>> {
+  const targets = [...new Set(hrefs.filter((href) => /^https?:\/\//i.test(href) && !/\{\{|\{%/.test(href)))]
+    .slice(0, MAX_CHECKED_LINKS);
+  const unreachable: Array<{ href: string; status: number | null }> = [];
+  let cursor = 0;
+
+  const worker = async () => {
+    while (cursor < targets.length) {
+      const href = targets[cursor++];
+      const status = await probeLink(href);
+      if (status === null || status >= 400) unreachable.push({ href, status });
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(LINK_CHECK_CONCURRENCY, targets.length) }, worker));
+  return unreachable;
+}
+
+export async function buildProofRenderReport(
+  input: ProofRenderInput & { checkLinks?: boolean },
+): Promise<RenderedProof & { report: RenderReport }> {
+  const rendered = await renderProofHtml(input);
+  const staticReport = buildRenderReport(rendered.html);
+  if (!input.checkLinks) return { ...rendered, report: staticReport };
+
+  const unreachableLinks = await findUnreachableLinks(staticReport.links.map((link) => link.href));
+  return { ...rendered, report: buildRenderReport(rendered.html, { unreachableLinks }) };
+}
+
+// ── Sending ──
+
+/**
+ * Send a rendered proof to the seed list (or an explicit subset of it)
+ * through the account's own email transport.
+ */
+export async function sendTemplateProof(
+  input: ProofRenderInput & { subject?: unknown; recipients?: unknown },
+): Promise<ProofSendResult> {
+  const subject = typeof input.subject === 'string' && input.subject.trim() ? input.subject.trim() : 'Template proof';
+  const seeds = await listSeedAddresses(input.accountKey);
+
+  let recipients = seeds.map((seed) => seed.email);
+  if (Array.isArray(input.recipients) && input.recipients.length > 0) {
+    const requested = new Set(input.recipients.map(normalizeEmail).filter(Boolean));
+    recipients = recipients.filter((email) => requested.has(email));
+  }
+  if (recipients.length === 0) {
+    throw new EmailProofError('Add at least one seed address before sending a proof');
+  }
+
+  const [rendered, transport] = await Promise.all([
+    renderProofHtml(input),
+    resolveAccountEmailTransport(input.accountKey),
+  ]);
+  const report = buildRenderReport(rendered.html);
+  const text = stripHtmlToText(rendered.html);
+  const proofId = `proof-${Date.now()}`;
+
+  const sent: string[] = [];
+  const failed: Array<{ email: string; error: string }> = [];
+  for (const email of recipients) {
+    try {
+      await transport.send({
+        to: email,
+        subject: `[PROOF] ${subject}`,
+        html: rendered.html,
+        text,
+        campaignId: proofId,
+        recipientId: email,
+        accountKey: input.accountKey,
+      });
+      sent.push(email);
+    } catch (err) {
+      failed.push({ email, error: err instanceof Error ? err.message : 'Send failed' });
+    }
+  }
+
+  return { kind: transport.kind, contactLabel: rendered.contactLabel, sent, failed, report };
+}
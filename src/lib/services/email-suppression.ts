@@ -0,0 +1,173 @@
+import { prisma } from '@/lib/prisma';
+import { normalizeEmailAddress } from '@/lib/contact-hygiene';
+
+export type SuppressionReason = 'unsubscribe' | 'hard_bounce' | 'complaint' | 'manual';
+
+export const SUPPRESSION_REASONS: SuppressionReason[] = ['unsubscribe', 'hard_bounce', 'complaint', 'manual'];
+
+/** accountKey value that marks a suppression as applying to every account. */
+export const GLOBAL_SUPPRESSION_SCOPE = '';
+
+export interface EmailSuppressionRecord {
+  id: string;
+  email: string;
+  accountKey: string;
+  global: boolean;
+  reason: SuppressionReason;
+  source: string;
+  campaignId: string;
+  note: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SuppressEmailInput {
+  email: string;
+  /** Omit (or pass null) to suppress the address for every account. */
+  accountKey?: string | null;
+  reason: SuppressionReason;
+  source?: string | null;
+  campaignId?: string | null;
+  note?: string | null;
+}
+
+export function isSuppressionReason(value: unknown): value is SuppressionReason {
+  return typeof value === 'string' && (SUPPRESSION_REASONS as string[]).includes(value);
+}
+
+function toRecord(row: {
+  id: string;
+  email: string;
+  accountKey: string;
+  reason: string;
+  source: string | null;
+  campaignId: string | null;
+  note: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}): EmailSuppressionRecord {
+  return {
+    id: row.id,
+    email: row.email,
+    accountKey: row.accountKey,
+    global: row.accountKey === GLOBAL_SUPPRESSION_SCOPE,
+    reason: isSuppressionReason(row.reason) ? row.reason : 'manual',
+    source: row.source || '',
+    campaignId: row.campaignId || '',
+    note: row.note || '',
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Add an address to the suppression list. Re-suppressing an address keeps
+ * the original reason so the first cause (e.g. a complaint) stays visible.
+ */
+export async function suppressEmail(input: SuppressEmailInput): Promise<EmailSuppressionRecord | null> {
+  const email = normalizeEmailAddress(input.email);
+  if (!email) return null;
+  const accountKey = (input.accountKey || '').trim() || GLOBAL_SUPPRESSION_SCOPE;
+
+  const row = await prisma.emailSuppression.upsert({
+    where: { email_accountKey: { email, accountKey } },
+    create: {
+      email,
+      accountKey,
+      reason: input.reason,
+      source: input.source || null,
+      campaignId: input.campaignId || null,
+      note: input.note || null,
+    },
+    update: {},
+  });
+  return toRecord(row);
+}
+
+export async function removeSuppression(id: string): Promise<EmailSuppressionRecord | null> {
+  const existing = await prisma.emailSuppression.findUnique({ where: { id } });
+  if (!existing) return null;
+  await prisma.emailSuppression.delete({ where: { id } });
+  return toRecord(existing);
+}
+
+export async function getSuppression(id: string): Promise<EmailSuppressionRecord | null> {
+  const row = await prisma.emailSuppression.findUnique({ where: { id } });
+  return row ? toRecord(row) : null;
+}
+
+export async function listSuppressions(options?: {
+  /** Restrict to these accounts. */
+  accountKeys?: string[];
+  /** Include global (all-account) entries alongside `accountKeys`. Defaults to true. */
+  includeGlobal?: boolean;
+  search?: string;
+  limit?: number;
+}): Promise<EmailSuppressionRecord[]> {
+  const limit = Math.max(1, Math.min(500, options?.limit ?? 100));
+  const search = (options?.search || '').trim().toLowerCase();
+  const includeGlobal = options?.includeGlobal ?? true;
+
+  const rows = await prisma.emailSuppression.findMany({
+    where: {
+      ...(options?.accountKeys
+        ? {
+            accountKey: {
+              in: includeGlobal ? [GLOBAL_SUPPRESSION_SCOPE, ...options.accountKeys] : options.accountKeys,
+            },
+          }
+        : {}),
+      ...(search ? { email: { contains: search } } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+  return rows.map(toRecord);
+}
+
+/**
+ * Resolve which of the given (accountKey, email) pairs are suppressed, either
+ * for that account or globally. Returns a map keyed `accountKey::email`.
+ */
+export async function findSuppressedRecipients(
+  recipients: Array<{ accountKey: string; email?: string | null }>,
+): Promise<Map<string, SuppressionReason>> {
+  const emails = [...new Set(
+    recipients.map((recipient) => normalizeEmailAddress(recipient.email || '')).filter(Boolean),
+  )];
+  if (emails.length === 0) return new Map();
+
+  const rows = await prisma.emailSuppression.findMany({
+    where: { email: { in: emails } },
+    select: { email: true, accountKey: true, reason: true },
+  });
+  if (rows.length === 0) return new Map();
+
+  const byScope = new Map<string, SuppressionReason>();
+  for (const row of rows) {
+    byScope.set(`${row.accountKey}::${row.email}`, isSuppressionReason(row.reason) ? row.reason : 'manual');
+  }
+
+  const suppressed = new Map<string, SuppressionReason>();
+  for (const recipient of recipients) {
+    const email = normalizeEmailAddress(recipient.email || '');
+    if (!email) continue;
+    const reason = byScope.get(`${recipient.accountKey}::${email}`)
+      || byScope.get(`${GLOBAL_SUPPRESSION_SCOPE}::${email}`);
+    if (reason) suppressed.set(`${recipient.accountKey}::${email}`, reason);
+  }
+  return suppressed;
+}
+
+export function suppressionSkipMessage(reason: SuppressionReason): string {
+  switch (reason) {
+    case 'unsubscribe':
+      return 'Suppressed: recipient unsubscribed';
+    case 'hard_bounce':
+      return 'Suppressed: address hard bounced';
+    case 'complaint':
+      return 'Suppressed: recipient reported spam';
+    default:
+      return 'Suppressed: address on suppression list';
+  }
+}
@@ -0,0 +1,77 @@
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { incrementEmailStatsCounter } from '@/lib/esp/webhooks/email-stats-store';
+import { parseEmailTrackingPolicy, type EmailTrackingPolicy } from '@/lib/email-tracking-options';
+import type { EmailTrackingPayload } from '@/lib/email-tracking';
+
+/**
+ * Loomi-native open and click tracking. Events land in the same EmailEvent /
+ * CampaignEmailStats tables as ESP webhooks, under the `loomi` provider with
+ * the account key as the provider-side account id.
+ */
+
+export const LOOMI_TRACKING_PROVIDER = 'loomi';
+
+export interface AccountTrackingSettings {
+  policy: EmailTrackingPolicy;
+  dealer: string;
+}
+
+export async function loadAccountTrackingSettings(
+  accountKeys: string[],
+): Promise<Map<string, AccountTrackingSettings>> {
+  const keys = [...new Set(accountKeys.filter(Boolean))];
+  if (keys.length === 0) return new Map();
+
+  const rows = await prisma.account.findMany({
+    where: { key: { in: keys } },
+    select: { key: true, dealer: true, emailTrackingPolicy: true },
+  });
+  return new Map(rows.map((row) => [
+    row.key,
+    { policy: parseEmailTrackingPolicy(row.emailTrackingPolicy), dealer: row.dealer },
+  ]));
+}
+
+/**
+ * Record an open or click from a verified tracking token. Opens are stored
+ * once per recipient. Every click is stored with its URL for the link
+ * heatmap, while the campaign's click counter still moves once per recipient
+ * (see incrementEmailStatsCounter), so repeat clicks don't inflate rates.
+ * Returns false when nothing was recorded (unknown recipient, tracking since
+ * disabled, or a repeat open).
+ */
+export async function recordEmailTrackingEvent(
+  payload: EmailTrackingPayload,
+  context?: { userAgent?: string | null },
+): Promise<boolean> {
+  const recipient = await prisma.emailCampaignRecipient.findUnique({
+    where: { id: payload.recipientId },
+    select: { campaignId: true, accountKey: true, email: true },
+  });
+  if (!recipient || recipient.campaignId !== payload.campaignId || recipient.accountKey !== payload.accountKey) {
+    return false;
+  }
+
+  // Honour an opt-out made after the email went out.
+  const settings = (await loadAccountTrackingSettings([payload.accountKey])).get(payload.accountKey);
+  if (!settings) return false;
+  if (payload.kind === 'open' ? !settings.policy.opens : !settings.policy.clicks) return false;
+
+  const isClick = payload.kind === 'click';
+  return incrementEmailStatsCounter({
+    provider: LOOMI_TRACKING_PROVIDER,
+    accountId: payload.accountKey,
+    campaignId: payload.campaignId,
+    column: isClick ? 'clickedCount' : 'openedCount',
+    eventTime: new Date(),
+    email: recipient.email,
+    providerEvent: payload.kind,
+    providerEventId: isClick
+      ? `loomi:click:${payload.recipientId}:${crypto.randomUUID()}`
+      : `loomi:open:${payload.recipientId}`,
+    recipientId: payload.recipientId,
+    url: isClick ? payload.url : null,
+    userAgent: context?.userAgent || null,
+  });
+}
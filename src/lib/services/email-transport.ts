@@ -0,0 +1,378 @@
+import nodemailer from 'nodemailer';
+import { prisma } from '@/lib/prisma';
+import { decryptToken, encryptToken } from '@/lib/esp/encryption';
+import { getApiKeyConnection } from '@/lib/esp/api-key-connections';
+import { sendMail as sendSendGridMail } from '@/lib/esp/adapters/sendgrid/mail';
+import { sendTransactionalEmailEvent } from '@/lib/esp/adapters/klaviyo/mail';
+import { recordAuditEvent, diffAuditFields, type AuditActor } from '@/lib/services/audit-log';
+import {
+  EMAIL_TRANSPORT_LABELS,
+  ESP_BACKED_EMAIL_TRANSPORTS,
+  isEmailTransportProvider,
+  type EmailTransportKind,
+  type EmailTransportProvider,
+  type EspBackedEmailTransport,
+} from '@/lib/email-transport-options';
+import { parseEmailTrackingPolicy, type EmailTrackingPolicy } from '@/lib/email-tracking-options';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// smtpPass is deliberately absent: only the fact that it changed is recorded.
+const AUDITED_TRANSPORT_FIELDS = ['provider', 'fromEmail', 'fromName', 'replyTo', 'smtpHost', 'smtpPort', 'smtpUser'];
+
+export class EmailTransportError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'EmailTransportError';
+    this.status = status;
+  }
+}
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+  /** Loomi correlation ids, echoed back by provider webhooks. */
+  campaignId: string;
+  recipientId: string;
+  accountKey: string;
+}
+
+export interface EmailTransport {
+  kind: EmailTransportKind;
+  from: string;
+  send(message: OutgoingEmail): Promise<{ messageId: string | null }>;
+}
+
+export interface AccountEmailTransportSettings {
+  configured: boolean;
+  provider: EmailTransportProvider | null;
+  fromEmail: string;
+  fromName: string;
+  replyTo: string;
+  smtpHost: string;
+  smtpPort: number | null;
+  smtpUser: string;
+  hasSmtpPassword: boolean;
+  updatedAt: string | null;
+  /** Which ESP-backed transports have a connected API key on this account. */
+  connectedProviders: Record<EmailTransportProvider, boolean>;
+  /** Whether the global SMTP relay is configured as a fallback. */
+  defaultAvailable: boolean;
+  /** Loomi open/click tracking, applied whichever transport sends. */
+  tracking: EmailTrackingPolicy;
+}
+
+export interface AccountEmailTransportInput {
+  provider?: unknown;
+  fromEmail?: unknown;
+  fromName?: unknown;
+  replyTo?: unknown;
+  smtpHost?: unknown;
+  smtpPort?: unknown;
+  smtpUser?: unknown;
+  /** Omit or leave empty to keep the stored password. */
+  smtpPass?: unknown;
+}
+
+function formatFrom(email: string, name?: string | null): string {
+  return name ? `"${name.replace(/"/g, '\'')}" <${email}>` : email;
+}
+
+function loomiCustomArgs(message: OutgoingEmail): Record<string, string> {
+  return { loomi_campaign_id: message.campaignId, loomi_account_key: message.accountKey };
+}
+
+function createSmtpTransport(config: {
+  kind: EmailTransportKind;
+  host: string;
+  port: number;
+  user: string;
+  pass: string;
+  from: string;
+  replyTo?: string | null;
+}): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.port === 465,
+    auth: { user: config.user, pass: config.pass },
+  });
+
+  return {
+    kind: config.kind,
+    from: config.from,
+    async send(message) {
+      const info = await transporter.sendMail({
+        from: config.from,
+        ...(config.replyTo ? { replyTo: config.replyTo } : {}),
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: {
+          ...message.headers,
+          // SendGrid SMTP relay echoes these into Event Webhook payloads, so
+          // opens/clicks land in EmailEvent under this campaign.
+          'X-SMTPAPI': JSON.stringify({ unique_args: loomiCustomArgs(message) }),
+        },
+      });
+      return { messageId: info.messageId || null };
+    },
+  };
+}
+
+/** The global SMTP relay every account used before per-account transports. */
+function getDefaultTransport(): EmailTransport {
+  const smtpHost = process.env.SMTP_HOST;
+  const smtpPort = Number(process.env.SMTP_PORT || '587');
+  const smtpUser = process.env.SMTP_USER;
+  const smtpPass = process.env.SMTP_PASS;
+  const smtpFrom = process.env.SMTP_FROM || smtpUser;
+
+  if (!smtpHost || !smtpUser || !smtpPass || !smtpFrom) {
+    throw new EmailTransportError(
+      'Email sending is not configured. Set up a sending transport for this account, or set SMTP_HOST, SMTP_USER, SMTP_PASS, and optionally SMTP_FROM.',
+      503,
+    );
+  }
+
+  return createSmtpTransport({
+    kind: 'default',
+    host: smtpHost,
+    port: Number.isFinite(smtpPort) ? smtpPort : 587,
+    user: smtpUser,
+    pass: smtpPass,
+    from: smtpFrom,
+  });
+}
+
+function isDefaultTransportConfigured(): boolean {
+  return Boolean(process.env.SMTP_HOST && process.env.SMTP_USER && process.env.SMTP_PASS);
+}
+
+async function requireEspApiKey(accountKey: string, provider: EspBackedEmailTransport): Promise<string> {
+  const connection = await getApiKeyConnection(accountKey, provider);
+  if (!connection) {
+    throw new EmailTransportError(
+      `${EMAIL_TRANSPORT_LABELS[provider]} is selected for sending but ${provider} is not connected on this account`,
+      409,
+    );
+  }
+  return decryptToken(connection.apiKey);
+}
+
+/**
+ * Resolve how Loomi-native campaign emails for `accountKey` are sent: the
+ * account's own transport when configured, otherwise the global SMTP relay.
+ */
+export async function resolveAccountEmailTransport(accountKey: string): Promise<EmailTransport> {
+  const row = await prisma.accountEmailTransport.findUnique({ where: { accountKey } });
+  if (!row || !isEmailTransportProvider(row.provider)) return getDefaultTransport();
+
+  const from = formatFrom(row.fromEmail, row.fromName);
+
+  if (row.provider === 'smtp') {
+    if (!row.smtpHost || !row.smtpUser || !row.smtpPass) {
+      throw new EmailTransportError('SMTP transport is missing host, username or password', 409);
+    }
+    return createSmtpTransport({
+      kind: 'smtp',
+      host: row.smtpHost,
+      port: row.smtpPort ?? 587,
+      user: row.smtpUser,
+      pass: decryptToken(row.smtpPass),
+      from,
+      replyTo: row.replyTo,
+    });
+  }
+
+  const apiKey = await requireEspApiKey(accountKey, row.provider);
+
+  if (row.provider === 'sendgrid') {
+    return {
+      kind: 'sendgrid',
+      from,
+      send: (message) => sendSendGridMail(apiKey, {
+        from: { email: row.fromEmail, ...(row.fromName ? { name: row.fromName } : {}) },
+        replyTo: row.replyTo ? { email: row.replyTo } : null,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: message.headers,
+        customArgs: loomiCustomArgs(message),
+      }),
+    };
+  }
+
+  return {
+    kind: 'klaviyo',
+    from,
+    send: (message) => sendTransactionalEmailEvent(apiKey, {
+      uniqueId: `${message.campaignId}:${message.recipientId}`,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      fromEmail: row.fromEmail,
+      fromName: row.fromName || undefined,
+      replyTo: row.replyTo,
+      properties: loomiCustomArgs(message),
+    }),
+  };
+}
+
+export async function getAccountEmailTransportSettings(accountKey: string): Promise<AccountEmailTransportSettings> {
+  const [row, connections, account] = await Promise.all([
+    prisma.accountEmailTransport.findUnique({ where: { accountKey } }),
+    Promise.all(ESP_BACKED_EMAIL_TRANSPORTS.map((provider) => getApiKeyConnection(accountKey, provider))),
+    prisma.account.findUnique({ where: { key: accountKey }, select: { emailTrackingPolicy: true } }),
+  ]);
+
+  const connectedProviders: Record<EmailTransportProvider, boolean> = { sendgrid: false, klaviyo: false, smtp: true };
+  ESP_BACKED_EMAIL_TRANSPORTS.forEach((provider, index) => {
+    connectedProviders[provider] = Boolean(connections[index]);
+  });
+
+  return {
+    configured: Boolean(row),
+    provider: row && isEmailTransportProvider(row.provider) ? row.provider : null,
+    fromEmail: row?.fromEmail ?? '',
+    fromName: row?.fromName ?? '',
+    replyTo: row?.replyTo ?? '',
+    smtpHost: row?.smtpHost ?? '',
+    smtpPort: row?.smtpPort ?? null,
+    smtpUser: row?.smtpUser ?? '',
+    hasSmtpPassword: Boolean(row?.smtpPass),
+    updatedAt: row?.updatedAt.toISOString() ?? null,
+    connectedProviders,
+    defaultAvailable: isDefaultTransportConfigured(),
+    tracking: parseEmailTrackingPolicy(account?.emailTrackingPolicy),
+  };
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+export async function saveAccountEmailTransportSettings(
+  accountKey: string,
+  input: AccountEmailTransportInput,
+  actor?: AuditActor | null,
+): Promise<AccountEmailTransportSettings> {
+  if (!isEmailTransportProvider(input.provider)) {
+    throw new EmailTransportError('provider must be one of sendgrid, klaviyo or smtp');
+  }
+  const provider = input.provider;
+  const fromEmail = optionalString(input.fromEmail)?.toLowerCase() ?? '';
+  if (!EMAIL_PATTERN.test(fromEmail)) throw new EmailTransportError('A valid From email is required');
+  const replyTo = optionalString(input.replyTo)?.toLowerCase() ?? null;
+  if (replyTo && !EMAIL_PATTERN.test(replyTo)) throw new EmailTransportError('Reply-To must be a valid email');
+
+  const account = await prisma.account.findUnique({ where: { key: accountKey }, select: { dealer: true } });
+  if (!account) throw new EmailTransportError('Account not found', 404);
+  const existing = await prisma.accountEmailTransport.findUnique({ where: { accountKey } });
+
+  let smtp: { smtpHost: string | null; smtpPort: number | null; smtpUser: string | null; smtpPass: string | null } = {
+    smtpHost: null,
+    smtpPort: null,
+    smtpUser: null,
+    smtpPass: null,
+  };
+  if (provider === 'smtp') {
+    const smtpHost = optionalString(input.smtpHost);
+    const smtpUser = optionalString(input.smtpUser);
+    const smtpPort = input.smtpPort === undefined || input.smtpPort === null || input.smtpPort === ''
+      ? 587
+      : Number(input.smtpPort);
+    if (!smtpHost) throw new EmailTransportError('SMTP host is required');
+    if (!smtpUser) throw new EmailTransportError('SMTP username is required');
+    if (!Number.isInteger(smtpPort) || smtpPort < 1 || smtpPort > 65535) {
+      throw new EmailTransportError('SMTP port must be between 1 and 65535');
+    }
+    const newPass = typeof input.smtpPass === 'string' && input.smtpPass ? input.smtpPass : null;
+    const smtpPass = newPass ? encryptToken(newPass) : existing?.smtpPass ?? null;
+    if (!smtpPass) throw new EmailTransportError('SMTP password is required');
+    smtp = { smtpHost, smtpPort, smtpUser, smtpPass };
+  } else if (!(await getApiKeyConnection(accountKey, provider))) {
+    throw new EmailTransportError(`Connect ${provider} on this account before sending through it`, 409);
+  }
+
+  const data = {
+    provider,
+    fromEmail,
+    fromName: optionalString(input.fromName),
+    replyTo,
+    ...smtp,
+    updatedByUserId: actor?.userId || null,
+  };
+  await prisma.accountEmailTransport.upsert({
+    where: { accountKey },
+    create: { accountKey, ...data },
+    update: data,
+  });
+
+  await recordAuditEvent({
+    action: 'account.email-transport.update',
+    targetType: 'account',
+    targetId: accountKey,
+    targetLabel: account.dealer,
+    accountKey,
+    actor,
+    changes: diffAuditFields(existing, data, AUDITED_TRANSPORT_FIELDS),
+    ...(provider === 'smtp' && typeof input.smtpPass === 'string' && input.smtpPass
+      ? { metadata: { smtpPasswordChanged: true } }
+      : {}),
+  });
+
+  return getAccountEmailTransportSettings(accountKey);
+}
+
+export async function removeAccountEmailTransport(
+  accountKey: string,
+  actor?: AuditActor | null,
+): Promise<AccountEmailTransportSettings> {
+  const existing = await prisma.accountEmailTransport.findUnique({
+    where: { accountKey },
+    include: { account: { select: { dealer: true } } },
+  });
+  if (existing) {
+    await prisma.accountEmailTransport.delete({ where: { accountKey } });
+    await recordAuditEvent({
+      action: 'account.email-transport.remove',
+      targetType: 'account',
+      targetId: accountKey,
+      targetLabel: existing.account.dealer,
+      accountKey,
+      actor,
+      metadata: { provider: existing.provider },
+    });
+  }
+  return getAccountEmailTransportSettings(accountKey);
+}
+
+/** Send a one-off test message through the account's resolved transport. */
+export async function sendAccountEmailTransportTest(
+  accountKey: string,
+  to: unknown,
+): Promise<{ kind: EmailTransportKind; messageId: string | null }> {
+  const recipient = optionalString(to)?.toLowerCase() ?? '';
+  if (!EMAIL_PATTERN.test(recipient)) throw new EmailTransportError('A valid recipient email is required');
+
+  const transport = await resolveAccountEmailTransport(accountKey);
+  const label = EMAIL_TRANSPORT_LABELS[transport.kind];
+  const result = await transport.send({
+    to: recipient,
+    subject: `Loomi test email (${label})`,
+    html: `<p>This is a test email sent through <strong>${label}</strong> for account <code>${accountKey}</code>.</p>`,
+    text: `This is a test email sent through ${label} for account ${accountKey}.`,
+    campaignId: 'transport-test',
+    recipientId: `${Date.now()}`,
+    accountKey,
+  });
+  return { kind: transport.kind, messageId: result.messageId };
+}
@@ -0,0 +1,903 @@
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { getAdapterForAccount } from '@/lib/esp/registry';
+import { providerUnsupportedMessage } from '@/lib/esp/provider-display';
+import { readAccounts, withConcurrencyLimit } from '@/lib/esp/utils';
+import type { ContactsAdapter, MessagesAdapter } from '@/lib/esp/types';
+import { isLikelyDeliverableEmail } from '@/lib/contact-hygiene';
+import { matchesFilter } from '@/lib/smart-list-engine';
+import { parseFilterDefinition, type FilterCondition, type FilterDefinition } from '@/lib/smart-list-types';
+import {
+  LOOMI_FLOW_DATE_FIELDS,
+  type LoomiFlowDefinition,
+  type LoomiFlowEnrollmentStatus,
+  type LoomiFlowHistoryEntry,
+  type LoomiFlowStep,
+  type LoomiFlowTrigger,
+} from '@/lib/loomi-flow-types';
+import {
+  getIndexedContact,
+  scanIndexedContacts,
+  type IndexedContactRecord,
+} from '@/lib/services/contact-index';
+import { getAudience } from '@/lib/services/audiences';
+import { sendFlowStepEmail } from '@/lib/services/email-campaigns';
+import { normalizeMergeFields } from '@/lib/services/email-personalization';
+import { getAccountSmsSendPolicies } from '@/lib/services/sms-campaigns';
+import { isWithinSmsSendWindow, nextSmsSendWindowStart } from '@/lib/sms-send-policy';
+import '@/lib/esp/init';
+
+type LoomiFlowStatus = 'active' | 'inactive';
+
+/** Steps a single enrollment may run in one advance before yielding. */
+const MAX_STEPS_PER_ADVANCE = 20;
+const MAX_STEP_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+/** How long a claimed enrollment is hidden from other runners. */
+const ENROLLMENT_LEASE_MS = 10 * 60 * 1000;
+/** Minimum gap between enrollment scans of the same flow. */
+const ENROLLMENT_SCAN_INTERVAL_MS = 15 * 60 * 1000;
+/** Date triggers still fire this many days late (missed runs, fresh syncs). */
+const DATE_TRIGGER_GRACE_DAYS = 2;
+const MAX_HISTORY_ENTRIES = 50;
+const ENROLLMENT_INSERT_CHUNK = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LoomiFlowSummary {
+  id: string;
+  name: string;
+  description: string;
+  status: LoomiFlowStatus;
+  accountKey: string | null;
+  sourceAudienceId: string | null;
+  sourceFilter: FilterDefinition | null;
+  definition: LoomiFlowDefinition;
+  publishedAt: string;
+  lastTriggeredAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LoomiFlowEnrollmentCounts {
+  active: number;
+  waiting: number;
+  completed: number;
+  exited: number;
+  failed: number;
+}
+
+export interface LoomiFlowInput {
+  name?: string;
+  description?: string | null;
+  accountKey?: string | null;
+  sourceAudienceId?: string | null;
+  sourceFilter?: unknown;
+  definition?: unknown;
+  createdByUserId?: string;
+}
+
+export interface LoomiFlowRunResult {
+  flowsScanned: number;
+  enrolled: number;
+  advanced: number;
+  completed: number;
+  failed: number;
+  errors: string[];
+}
+
+type LoomiFlowRow = NonNullable<Awaited<ReturnType<typeof prisma.loomiFlow.findUnique>>>;
+type EnrollmentRow = NonNullable<Awaited<ReturnType<typeof prisma.loomiFlowEnrollment.findUnique>>>;
+
+// ── Definition Parsing ──
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function asNextStep(value: unknown): string | null {
+  const id = asString(value);
+  return id || null;
+}
+
+function parseTrigger(raw: unknown): LoomiFlowTrigger {
+  const source = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  if (source.type === 'date_field') {
+    const field = LOOMI_FLOW_DATE_FIELDS.find((entry) => entry === source.field);
+    if (!field) throw new Error('Date trigger requires a supported contact date field');
+    const offsetDays = Number(source.offsetDays ?? 0);
+    if (!Number.isFinite(offsetDays) || Math.abs(offsetDays) > 3650) {
+      throw new Error('Date trigger offset must be within ±3650 days');
+    }
+    return { type: 'date_field', field, offsetDays: Math.round(offsetDays) };
+  }
+  return { type: 'audience_entry' };
+}
+
+function parseStep(raw: unknown, index: number): LoomiFlowStep {
+  if (!raw || typeof raw !== 'object') throw new Error(`Step ${index + 1} is not an object`);
+  const source = raw as Record<string, unknown>;
+  const id = asString(source.id);
+  if (!id) throw new Error(`Step ${index + 1} is missing an id`);
+  const label = asString(source.label) || undefined;
+
+  switch (source.type) {
+    case 'wait': {
+      const minutes = Number(source.minutes);
+      if (!Number.isFinite(minutes) || minutes < 1) {
+        throw new Error(`Wait step "${id}" needs a duration of at least one minute`);
+      }
+      return { id, label, type: 'wait', minutes: Math.round(minutes), next: asNextStep(source.next) };
+    }
+    case 'branch': {
+      const condition = source.condition as FilterCondition | undefined;
+      if (!condition || typeof condition !== 'object' || !asString(condition.field) || !asString(condition.operator)) {
+        throw new Error(`Branch step "${id}" needs a condition with a field and operator`);
+      }
+      return {
+        id,
+        label,
+        type: 'branch',
+        condition: { ...condition, id: condition.id || id },
+        yes: asNextStep(source.yes),
+        no: asNextStep(source.no),
+      };
+    }
+    case 'send_email': {
+      const subject = asString(source.subject);
+      const htmlContent = typeof source.htmlContent === 'string' ? source.htmlContent : '';
+      if (!subject || !htmlContent.trim()) {
+        throw new Error(`Email step "${id}" needs a subject and HTML content`);
+      }
+      return {
+        id,
+        label,
+        type: 'send_email',
+        subject,
+        previewText: asString(source.previewText) || undefined,
+        htmlContent,
+        textContent: typeof source.textContent === 'string' ? source.textContent : undefined,
+        next: asNextStep(source.next),
+      };
+    }
+    case 'send_sms': {
+      const message = asString(source.message);
+      if (!message) throw new Error(`SMS step "${id}" needs a message`);
+      const mediaUrls = Array.isArray(source.mediaUrls)
+        ? source.mediaUrls.map(asString).filter(Boolean)
+        : [];
+      const channel = source.channel === 'MMS' || mediaUrls.length > 0 ? 'MMS' : 'SMS';
+      return {
+        id,
+        label,
+        type: 'send_sms',
+        message,
+        channel,
+        mediaUrls: mediaUrls.length > 0 ? mediaUrls : undefined,
+        next: asNextStep(source.next),
+      };
+    }
+    case 'add_tag': {
+      const tags = Array.isArray(source.tags) ? [...new Set(source.tags.map(asString).filter(Boolean))] : [];
+      if (tags.length === 0) throw new Error(`Tag step "${id}" needs at least one tag`);
+      return { id, label, type: 'add_tag', tags, next: asNextStep(source.next) };
+    }
+    default:
+      throw new Error(`Step "${id}" has an unsupported type`);
+  }
+}
+
+function stepTargets(step: LoomiFlowStep): Array<string | null> {
+  return step.type === 'branch' ? [step.yes, step.no] : [step.next];
+}
+
+/**
+ * Validate and normalize an untrusted flow definition. Throws with a
+ * user-facing message on the first problem found.
+ */
+export function parseLoomiFlowDefinition(raw: unknown): LoomiFlowDefinition {
+  const source = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  const rawSteps = Array.isArray(source.steps) ? source.steps : [];
+  const steps = rawSteps.map(parseStep);
+
+  const ids = new Set<string>();
+  for (const step of steps) {
+    if (ids.has(step.id)) throw new Error(`Duplicate step id "${step.id}"`);
+    ids.add(step.id);
+  }
+
+  const entryStepId = asNextStep(source.entryStepId) ?? steps[0]?.id ?? null;
+  if (entryStepId && !ids.has(entryStepId)) throw new Error(`Entry step "${entryStepId}" does not exist`);
+
+  for (const step of steps) {
+    for (const target of stepTargets(step)) {
+      if (target && !ids.has(target)) throw new Error(`Step "${step.id}" points to unknown step "${target}"`);
+    }
+  }
+
+  return {
+    version: 1,
+    trigger: parseTrigger(source.trigger),
+    entryStepId,
+    steps,
+  };
+}
+
+function readDefinition(raw: string | null): LoomiFlowDefinition {
+  if (!raw) return { version: 1, trigger: { type: 'audience_entry' }, entryStepId: null, steps: [] };
+  try {
+    return parseLoomiFlowDefinition(JSON.parse(raw));
+  } catch {
+    return { version: 1, trigger: { type: 'audience_entry' }, entryStepId: null, steps: [] };
+  }
+}
+
+function safeJsonParse(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+function parseHistory(raw: string): LoomiFlowHistoryEntry[] {
+  const parsed = safeJsonParse(raw);
+  return Array.isArray(parsed) ? parsed as LoomiFlowHistoryEntry[] : [];
+}
+
+function toIso(date: Date | null): string {
+  return date ? date.toISOString() : '';
+}
+
+function toSummary(row: LoomiFlowRow): LoomiFlowSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || '',
+    status: row.status === 'active' ? 'active' : 'inactive',
+    accountKey: row.accountKey,
+    sourceAudienceId: row.sourceAudienceId,
+    sourceFilter: parseFilterDefinition(row.sourceFilter),
+    definition: readDefinition(row.metadata),
+    publishedAt: toIso(row.publishedAt),
+    lastTriggeredAt: toIso(row.lastTriggeredAt),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+// ── CRUD ──
+
+export async function listLoomiFlows(options?: { accountKeys?: string[] }): Promise<LoomiFlowSummary[]> {
+  const where = options?.accountKeys
+    ? { OR: [{ accountKey: null }, { accountKey: { in: options.accountKeys } }] }
+    : undefined;
+  const rows = await prisma.loomiFlow.findMany({ where, orderBy: { createdAt: 'desc' } });
+  return rows.map(toSummary);
+}
+
+export async function getLoomiFlow(id: string): Promise<LoomiFlowSummary | null> {
+  const row = await prisma.loomiFlow.findUnique({ where: { id } });
+  return row ? toSummary(row) : null;
+}
+
+export async function getLoomiFlowEnrollmentCounts(flowId: string): Promise<LoomiFlowEnrollmentCounts> {
+  const groups = await prisma.loomiFlowEnrollment.groupBy({
+    by: ['status'],
+    where: { flowId },
+    _count: { _all: true },
+  });
+  const counts: LoomiFlowEnrollmentCounts = { active: 0, waiting: 0, completed: 0, exited: 0, failed: 0 };
+  for (const group of groups) {
+    const status = group.status as LoomiFlowEnrollmentStatus;
+    if (status in counts) counts[status] = group._count._all;
+  }
+  return counts;
+}
+
+export async function createLoomiFlow(input: LoomiFlowInput): Promise<LoomiFlowSummary> {
+  const name = asString(input.name);
+  if (!name) throw new Error('Flow name is required');
+  const definition = parseLoomiFlowDefinition(input.definition ?? {});
+  const sourceFilter = input.sourceFilter ? parseFilterDefinition(input.sourceFilter) : null;
+
+  const row = await prisma.loomiFlow.create({
+    data: {
+      name,
+      description: asString(input.description) || null,
+      accountKey: asString(input.accountKey) || null,
+      sourceAudienceId: asString(input.sourceAudienceId) || null,
+      sourceFilter: sourceFilter ? JSON.stringify(sourceFilter) : null,
+      metadata: JSON.stringify(definition),
+      createdByUserId: input.createdByUserId || null,
+    },
+  });
+  return toSummary(row);
+}
+
+export async function updateLoomiFlow(
+  id: string,
+  input: Omit<LoomiFlowInput, 'createdByUserId'>,
+): Promise<LoomiFlowSummary> {
+  const data: Record<string, string | null> = {};
+  if (input.name !== undefined) {
+    const name = asString(input.name);
+    if (!name) throw new Error('Flow name is required');
+    data.name = name;
+  }
+  if (input.description !== undefined) data.description = asString(input.description) || null;
+  if (input.accountKey !== undefined) data.accountKey = asString(input.accountKey) || null;
+  if (input.sourceAudienceId !== undefined) data.sourceAudienceId = asString(input.sourceAudienceId) || null;
+  if (input.sourceFilter !== undefined) {
+    const sourceFilter = input.sourceFilter ? parseFilterDefinition(input.sourceFilter) : null;
+    data.sourceFilter = sourceFilter ? JSON.stringify(sourceFilter) : null;
+  }
+  if (input.definition !== undefined) {
+    data.metadata = JSON.stringify(parseLoomiFlowDefinition(input.definition));
+  }
+
+  const row = await prisma.loomiFlow.update({ where: { id }, data });
+  return toSummary(row);
+}
+
+/**
+ * Activate or pause a flow. Pausing keeps enrollments where they are; they
+ * resume from their current step when the flow is re-activated.
+ */
+export async function setLoomiFlowStatus(id: string, status: LoomiFlowStatus): Promise<LoomiFlowSummary> {
+  const existing = await prisma.loomiFlow.findUnique({ where: { id } });
+  if (!existing) throw new Error('Flow not found');
+
+  if (status === 'active') {
+    const definition = readDefinition(existing.metadata);
+    if (!definition.entryStepId) throw new Error('Add at least one step before activating this flow');
+  }
+
+  const row = await prisma.loomiFlow.update({
+    where: { id },
+    data: {
+      status,
+      publishedAt: status === 'active' && !existing.publishedAt ? new Date() : undefined,
+    },
+  });
+  return toSummary(row);
+}
+
+export async function deleteLoomiFlow(id: string): Promise<void> {
+  await prisma.loomiFlow.delete({ where: { id } });
+}
+
+// ── Enrollment ──
+
+function startOfUtcDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function parseContactDate(value: string): Date | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (/^\d{10,13}$/.test(trimmed)) {
+    const numeric = Number(trimmed);
+    const date = new Date(trimmed.length === 10 ? numeric * 1000 : numeric);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  const date = new Date(trimmed);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Trigger key for a contact, or null when the flow should not enroll them
+ * right now. Date triggers key on the source date so the same flow fires
+ * again when the date changes (e.g. next service appointment).
+ */
+function triggerKeyFor(trigger: LoomiFlowTrigger, contact: IndexedContactRecord, now: Date): string | null {
+  if (trigger.type === 'audience_entry') return 'audience';
+
+  const date = parseContactDate(String(contact[trigger.field] || ''));
+  if (!date) return null;
+  const fireDay = startOfUtcDay(date) + trigger.offsetDays * DAY_MS;
+  const today = startOfUtcDay(now);
+  if (fireDay > today || fireDay < today - DATE_TRIGGER_GRACE_DAYS * DAY_MS) return null;
+  return `${trigger.field}:${new Date(startOfUtcDay(date)).toISOString().slice(0, 10)}`;
+}
+
+async function resolveFlowAudience(row: LoomiFlowRow): Promise<{
+  definition: FilterDefinition | null;
+  accountKey: string | null;
+}> {
+  if (row.sourceAudienceId) {
+    const audience = await getAudience(row.sourceAudienceId);
+    if (!audience) throw new Error('Source audience no longer exists');
+    return {
+      definition: parseFilterDefinition(audience.filters),
+      accountKey: row.accountKey || audience.accountKey,
+    };
+  }
+  return { definition: parseFilterDefinition(row.sourceFilter), accountKey: row.accountKey };
+}
+
+/**
+ * Scan the contact index for contacts that meet the flow's trigger and
+ * create enrollments for them. Existing enrollments with the same trigger
+ * key are left untouched, so re-running the scan is idempotent.
+ */
+export async function enrollFlowContacts(flowId: string, now = new Date()): Promise<number> {
+  const row = await prisma.loomiFlow.findUnique({ where: { id: flowId } });
+  if (!row || row.status !== 'active') return 0;
+
+  const definition = readDefinition(row.metadata);
+  if (!definition.entryStepId) return 0;
+
+  const audience = await resolveFlowAudience(row);
+  const accountKeys = audience.accountKey
+    ? [audience.accountKey]
+    : Object.keys(await readAccounts()).filter((key) => !key.startsWith('_'));
+
+  const enrolledHistory = JSON.stringify([{
+    at: now.toISOString(),
+    stepId: definition.entryStepId,
+    type: 'enrolled',
+    outcome: 'ok',
+  } satisfies LoomiFlowHistoryEntry]);
+
+  let enrolled = 0;
+  for (const accountKey of accountKeys) {
+    let pending: Array<{ contactId: string; triggerKey: string }> = [];
+
+    const flush = async () => {
+      if (pending.length === 0) return;
+      const result = await prisma.loomiFlowEnrollment.createMany({
+        data: pending.map((entry) => ({
+          flowId: row.id,
+          accountKey,
+          contactId: entry.contactId,
+          triggerKey: entry.triggerKey,
+          status: 'active',
+          currentStepId: definition.entryStepId,
+          nextRunAt: now,
+          history: enrolledHistory,
+        })),
+        skipDuplicates: true,
+      });
+      enrolled += result.count;
+      pending = [];
+    };
+
+    await scanIndexedContacts({ accountKey, definition: audience.definition }, async (contact) => {
+      const triggerKey = triggerKeyFor(definition.trigger, contact, now);
+      if (!triggerKey) return;
+      pending.push({ contactId: contact.id, triggerKey });
+      if (pending.length >= ENROLLMENT_INSERT_CHUNK) await flush();
+    });
+    await flush();
+  }
+
+  await prisma.loomiFlow.update({
+    where: { id: row.id },
+    data: { lastTriggeredAt: now },
+  });
+
+  return enrolled;
+}
+
+// ── Step Execution ──
+
+interface AccountRuntime {
+  provider: string;
+  contacts: ContactsAdapter;
+  messages?: MessagesAdapter;
+  token: string;
+  locationId: string;
+}
+
+type StepOutcome = {
+  outcome: LoomiFlowHistoryEntry['outcome'];
+  detail?: string;
+  next: string | null;
+  /** Park the enrollment until this time instead of continuing. */
+  waitUntil?: Date;
+};
+
+function createRuntimeResolver() {
+  const cache = new Map<string, Promise<AccountRuntime>>();
+
+  async function resolve(accountKey: string): Promise<AccountRuntime> {
+    const adapter = await getAdapterForAccount(accountKey);
+    if (!adapter.contacts) throw new Error(providerUnsupportedMessage(adapter.provider, 'contacts'));
+    const credentials = await adapter.contacts.resolveCredentials(accountKey);
+    if (!credentials) throw new Error(`ESP not connected for account (${adapter.provider})`);
+    return {
+      provider: adapter.provider,
+      contacts: adapter.contacts,
+      messages: adapter.messages,
+      token: credentials.token,
+      locationId: credentials.locationId,
+    };
+  }
+
+  return (accountKey: string): Promise<AccountRuntime> => {
+    let runtime = cache.get(accountKey);
+    if (!runtime) {
+      runtime = resolve(accountKey);
+      cache.set(accountKey, runtime);
+    }
+    return runtime;
+  };
+}
+
+type RuntimeResolver = ReturnType<typeof createRuntimeResolver>;
+
+/**
+ * The idempotency key of the enrollment's current step run. It is saved
+ * before anything is sent and kept across retries, so a crash or retry after
+ * the send went out finds the earlier send instead of repeating it.
+ */
+async function ensureStepRunKey(enrollment: EnrollmentRow): Promise<string> {
+  if (enrollment.stepRunKey) return enrollment.stepRunKey;
+  const stepRunKey = `${enrollment.id}:${crypto.randomUUID()}`;
+  await prisma.loomiFlowEnrollment.update({ where: { id: enrollment.id }, data: { stepRunKey } });
+  enrollment.stepRunKey = stepRunKey;
+  return stepRunKey;
+}
+
+async function runSendEmailStep(
+  step: Extract<LoomiFlowStep, { type: 'send_email' }>,
+  context: { flow: LoomiFlowRow; enrollment: EnrollmentRow; contact: IndexedContactRecord },
+): Promise<StepOutcome> {
+  const { flow, enrollment, contact } = context;
+  if (!isLikelyDeliverableEmail(contact.email)) {
+    return { outcome: 'skipped', detail: 'Contact has no deliverable email', next: step.next };
+  }
+
+  const result = await sendFlowStepEmail({
+    flowStepKey: `${flow.id}:${step.id}`,
+    sendKey: await ensureStepRunKey(enrollment),
+    name: `${flow.name} · ${step.label || 'Email'}`,
+    subject: step.subject,
+    previewText: step.previewText,
+    htmlContent: step.htmlContent,
+    textContent: step.textContent,
+    recipient: {
+      contactId: contact.id,
+      accountKey: enrollment.accountKey,
+      email: contact.email,
+      fullName: contact.fullName,
+      mergeFields: normalizeMergeFields(contact),
+    },
+    metadata: JSON.stringify({ loomiFlowId: flow.id, stepId: step.id }),
+  });
+
+  if (result.status === 'skipped') {
+    return { outcome: 'skipped', detail: 'Recipient is suppressed', next: step.next };
+  }
+  if (result.status !== 'sent') {
+    throw new Error(result.error || 'Email send failed');
+  }
+  return { outcome: 'ok', detail: `Email campaign ${result.campaignId}`, next: step.next };
+}
+
+async function runSendSmsStep(
+  step: Extract<LoomiFlowStep, { type: 'send_sms' }>,
+  context: { enrollment: EnrollmentRow; contact: IndexedContactRecord; resolveRuntime: RuntimeResolver; now: Date },
+): Promise<StepOutcome> {
+  const { enrollment, contact, resolveRuntime, now } = context;
+  if (!contact.phone) {
+    return { outcome: 'skipped', detail: 'Contact has no phone number', next: step.next };
+  }
+
+  const sendPolicy = (await getAccountSmsSendPolicies([enrollment.accountKey])).get(enrollment.accountKey)!;
+  if (!isWithinSmsSendWindow(sendPolicy.policy, sendPolicy.timezone, now)) {
+    const opensAt = nextSmsSendWindowStart(sendPolicy.policy, sendPolicy.timezone, now);
+    if (!opensAt) {
+      return { outcome: 'skipped', detail: 'Account SMS send policy has no open send window', next: step.next };
+    }
+    // Park on this same step until the account's send window opens.
+    return { outcome: 'skipped', detail: 'Outside SMS send window', next: step.id, waitUntil: opensAt };
+  }
+
+  const runtime = await resolveRuntime(enrollment.accountKey);
+  if (!runtime.messages) {
+    return {
+      outcome: 'skipped',
+      detail: providerUnsupportedMessage(runtime.provider, 'direct messaging'),
+      next: step.next,
+    };
+  }
+
+  // The marker is written before the send: on a retry, "sent" means the
+  // message went out and "sending" means a crash left delivery unknown —
+  // neither is sent again.
+  const sendKey = await ensureStepRunKey(enrollment);
+  const previous = await prisma.loomiFlowStepSend.findUnique({ where: { sendKey } });
+  if (previous?.status === 'sent') {
+    return { outcome: 'ok', detail: previous.messageId ? `Message ${previous.messageId}` : undefined, next: step.next };
+  }
+  if (previous) {
+    return { outcome: 'failed', detail: 'Earlier send was interrupted; not resent to avoid a duplicate', next: step.next };
+  }
+  await prisma.loomiFlowStepSend.create({ data: { sendKey, enrollmentId: enrollment.id } });
+
+  let sent: { id?: string };
+  try {
+    sent = await runtime.messages.sendMessageToContact({
+      token: runtime.token,
+      locationId: runtime.locationId,
+      contactId: contact.id,
+      message: step.message,
+      channel: step.channel,
+      mediaUrls: step.mediaUrls,
+    });
+  } catch (err) {
+    // The provider rejected the send, so the retry may send.
+    await prisma.loomiFlowStepSend.delete({ where: { sendKey } });
+    throw err;
+  }
+  await prisma.loomiFlowStepSend.update({
+    where: { sendKey },
+    data: { status: 'sent', messageId: sent.id || null },
+  });
+  return { outcome: 'ok', detail: sent.id ? `Message ${sent.id}` : undefined, next: step.next };
+}
+
+async function runAddTagStep(
+  step: Extract<LoomiFlowStep, { type: 'add_tag' }>,
+  context: { enrollment: EnrollmentRow; contact: IndexedContactRecord; resolveRuntime: RuntimeResolver },
+): Promise<StepOutcome> {
+  const { enrollment, contact, resolveRuntime } = context;
+  const runtime = await resolveRuntime(enrollment.accountKey);
+  if (!runtime.contacts.addTags) {
+    return {
+      outcome: 'skipped',
+      detail: providerUnsupportedMessage(runtime.provider, 'contact tagging'),
+      next: step.next,
+    };
+  }
+
+  await runtime.contacts.addTags({
+    token: runtime.token,
+    locationId: runtime.locationId,
+    contactId: contact.id,
+    tags: step.tags,
+  });
+
+  // Keep the index in step so later branches on tags see the new value
+  // before the next full sync.
+  const tags = [...new Set([...contact.tags, ...step.tags])];
+  contact.tags = tags;
+  await prisma.indexedContact.updateMany({
+    where: { accountKey: enrollment.accountKey, contactId: contact.id },
+    data: { tags: JSON.stringify(tags) },
+  });
+  return { outcome: 'ok', detail: step.tags.join(', '), next: step.next };
+}
+
+function branchMatches(condition: FilterCondition, contact: IndexedContactRecord): boolean {
+  return matchesFilter(contact, {
+    version: 1,
+    logic: 'AND',
+    groups: [{ id: 'branch', logic: 'AND', conditions: [condition] }],
+  });
+}
+
+async function runStep(
+  step: LoomiFlowStep,
+  context: {
+    flow: LoomiFlowRow;
+    enrollment: EnrollmentRow;
+    contact: IndexedContactRecord;
+    resolveRuntime: RuntimeResolver;
+    now: Date;
+  },
+): Promise<StepOutcome> {
+  switch (step.type) {
+    case 'wait':
+      return {
+        outcome: 'ok',
+        detail: `${step.minutes} min`,
+        next: step.next,
+        waitUntil: new Date(context.now.getTime() + step.minutes * 60 * 1000),
+      };
+    case 'branch': {
+      const matched = branchMatches(step.condition, context.contact);
+      return { outcome: 'ok', detail: matched ? 'yes' : 'no', next: matched ? step.yes : step.no };
+    }
+    case 'send_email':
+      return runSendEmailStep(step, context);
+    case 'send_sms':
+      return runSendSmsStep(step, context);
+    case 'add_tag':
+      return runAddTagStep(step, context);
+  }
+}
+
+/**
+ * Run an enrollment forward from its current step until it reaches a wait,
+ * finishes, or fails. State is persisted after every step, and email and SMS
+ * steps record their send under the step's run key before sending, so a crash
+ * or retry never repeats a send. Tag steps may re-run after a crash; adding a
+ * tag the contact already has is a no-op.
+ */
+async function advanceEnrollment(
+  enrollment: EnrollmentRow,
+  flow: LoomiFlowRow,
+  definition: LoomiFlowDefinition,
+  resolveRuntime: RuntimeResolver,
+): Promise<LoomiFlowEnrollmentStatus> {
+  const stepsById = new Map(definition.steps.map((step) => [step.id, step]));
+  const history = parseHistory(enrollment.history);
+  const now = new Date();
+
+  const save = async (data: {
+    status: LoomiFlowEnrollmentStatus;
+    currentStepId: string | null;
+    nextRunAt?: Date | null;
+    attempts?: number;
+    lastError?: string | null;
+  }) => {
+    const terminal = data.status === 'completed' || data.status === 'exited' || data.status === 'failed';
+    await prisma.loomiFlowEnrollment.update({
+      where: { id: enrollment.id },
+      data: {
+        status: data.status,
+        currentStepId: data.currentStepId,
+        nextRunAt: terminal ? null : data.nextRunAt ?? now,
+        attempts: data.attempts ?? 0,
+        stepRunKey: enrollment.stepRunKey,
+        lastError: data.lastError ?? null,
+        history: JSON.stringify(history.slice(-MAX_HISTORY_ENTRIES)),
+        completedAt: terminal ? new Date() : null,
+      },
+    });
+    return data.status;
+  };
+
+  const contact = await getIndexedContact(enrollment.accountKey, enrollment.contactId);
+  if (!contact) {
+    history.push({ at: now.toISOString(), stepId: enrollment.currentStepId || '', type: 'exit', outcome: 'skipped', detail: 'Contact no longer exists' });
+    return save({ status: 'exited', currentStepId: enrollment.currentStepId });
+  }
+
+  let stepId = enrollment.currentStepId;
+  for (let executed = 0; executed < MAX_STEPS_PER_ADVANCE; executed++) {
+    if (!stepId) return save({ status: 'completed', currentStepId: null });
+
+    const step = stepsById.get(stepId);
+    if (!step) {
+      history.push({ at: new Date().toISOString(), stepId, type: 'exit', outcome: 'failed', detail: 'Step was removed from the flow' });
+      return save({ status: 'exited', currentStepId: stepId, lastError: `Unknown step "${stepId}"` });
+    }
+
+    let result: StepOutcome;
+    try {
+      result = await runStep(step, { flow, enrollment, contact, resolveRuntime, now });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Step failed';
+      const attempts = enrollment.attempts + 1;
+      history.push({ at: new Date().toISOString(), stepId, type: step.type, outcome: 'failed', detail: message });
+      if (attempts >= MAX_STEP_ATTEMPTS) {
+        return save({ status: 'failed', currentStepId: stepId, attempts, lastError: message });
+      }
+      return save({
+        status: 'active',
+        currentStepId: stepId,
+        attempts,
+        lastError: message,
+        nextRunAt: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)),
+      });
+    }
+
+    history.push({ at: new Date().toISOString(), stepId, type: step.type, outcome: result.outcome, detail: result.detail });
+    enrollment.attempts = 0;
+    enrollment.stepRunKey = null;
+    stepId = result.next;
+
+    if (result.waitUntil) {
+      if (!stepId) return save({ status: 'completed', currentStepId: null });
+      return save({ status: 'waiting', currentStepId: stepId, nextRunAt: result.waitUntil });
+    }
+    await save({ status: 'active', currentStepId: stepId, nextRunAt: new Date(Date.now() + ENROLLMENT_LEASE_MS) });
+  }
+
+  // Step budget exhausted (likely a loop without a wait); pick up next run.
+  return save({ status: 'active', currentStepId: stepId });
+}
+
+/**
+ * Claim and advance enrollments whose next step is due. Claiming pushes
+ * nextRunAt forward by a lease so overlapping runners skip the same rows.
+ */
+export async function advanceDueEnrollments(options?: {
+  limit?: number;
+  concurrency?: number;
+}): Promise<Pick<LoomiFlowRunResult, 'advanced' | 'completed' | 'failed' | 'errors'>> {
+  const limit = Math.max(1, Math.min(1000, options?.limit ?? 200));
+  const concurrency = Math.max(1, Math.min(8, options?.concurrency ?? 3));
+  const now = new Date();
+
+  const due = await prisma.loomiFlowEnrollment.findMany({
+    where: {
+      status: { in: ['active', 'waiting'] },
+      nextRunAt: { lte: now },
+      flow: { status: 'active' },
+    },
+    orderBy: { nextRunAt: 'asc' },
+    take: limit,
+    include: { flow: true },
+  });
+
+  const result = { advanced: 0, completed: 0, failed: 0, errors: [] as string[] };
+  const resolveRuntime = createRuntimeResolver();
+  const definitions = new Map<string, LoomiFlowDefinition>();
+
+  const tasks = due.map(({ flow, ...enrollment }) => async () => {
+    const claimed = await prisma.loomiFlowEnrollment.updateMany({
+      where: { id: enrollment.id, nextRunAt: enrollment.nextRunAt },
+      data: { nextRunAt: new Date(Date.now() + ENROLLMENT_LEASE_MS) },
+    });
+    if (claimed.count === 0) return;
+
+    let definition = definitions.get(flow.id);
+    if (!definition) {
+      definition = readDefinition(flow.metadata);
+      definitions.set(flow.id, definition);
+    }
+
+    try {
+      const status = await advanceEnrollment(enrollment, flow, definition, resolveRuntime);
+      result.advanced += 1;
+      if (status === 'completed') result.completed += 1;
+      if (status === 'failed') result.failed += 1;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to advance enrollment';
+      result.errors.push(`${enrollment.id}: ${message}`);
+      console.error(`[loomi-flows] Failed to advance enrollment ${enrollment.id}:`, err);
+    }
+  });
+
+  await withConcurrencyLimit(tasks, concurrency);
+  return result;
+}
+
+/**
+ * One runner tick: enroll newly eligible contacts into active flows, then
+ * advance every due enrollment.
+ */
+export async function runLoomiFlows(options?: {
+  flowIds?: string[];
+  enrollmentLimit?: number;
+  forceEnrollmentScan?: boolean;
+}): Promise<LoomiFlowRunResult> {
+  const now = new Date();
+  const scanBefore = new Date(now.getTime() - ENROLLMENT_SCAN_INTERVAL_MS);
+  const flows = await prisma.loomiFlow.findMany({
+    where: {
+      status: 'active',
+      ...(options?.flowIds?.length ? { id: { in: options.flowIds } } : {}),
+      ...(options?.forceEnrollmentScan
+        ? {}
+        : { OR: [{ lastTriggeredAt: null }, { lastTriggeredAt: { lt: scanBefore } }] }),
+    },
+    select: { id: true },
+  });
+
+  let enrolled = 0;
+  const errors: string[] = [];
+  for (const flow of flows) {
+    try {
+      enrolled += await enrollFlowContacts(flow.id, now);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Enrollment scan failed';
+      errors.push(`${flow.id}: ${message}`);
+      console.error(`[loomi-flows] Enrollment scan failed for flow ${flow.id}:`, err);
+    }
+  }
+
+  const advanced = await advanceDueEnrollments({ limit: options?.enrollmentLimit });
+  return {
+    flowsScanned: flows.length,
+    enrolled,
+    advanced: advanced.advanced,
+    completed: advanced.completed,
+    failed: advanced.failed,
+    errors: [...errors, ...advanced.errors],
+  };
+}
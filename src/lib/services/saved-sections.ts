@@ -0,0 +1,482 @@
+import { prisma } from '@/lib/prisma';
+import { maizzleRender } from '@/lib/maizzle-render';
+import { hasUnrestrictedAccountAccess } from '@/lib/roles';
+import { recordAuditEvent } from '@/lib/services/audit-log';
+import { applyAccountTheme } from '@/lib/services/brand-kit';
+import { updateAccountEmail } from '@/lib/services/account-emails';
+import { resetReviewAfterEdit, type TemplateReviewViewer } from '@/lib/services/template-reviews';
+import { updateTemplate } from '@/lib/services/templates';
+import type { ParsedComponent } from '@/lib/template-parser';
+import { serializeComponent } from '@/lib/template-serializer';
+import {
+  findSavedSectionReferences,
+  replaceSavedSectionReferences,
+  retargetSavedSectionReferences,
+  sanitizeSectionComponents,
+  type SavedSectionDetail,
+  type SavedSectionSummary,
+  type SavedSectionUsage,
+  type SavedSectionUsageKind,
+} from '@/lib/saved-sections';
+
+const MAX_NAME_LENGTH = 120;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_NOTE_LENGTH = 500;
+const MAX_COMPONENTS = 50;
+const COMPONENT_INDEX_PATTERN = /\scomponent-index=(?:"([^"]*)"|'([^']*)')/;
+
+export class SavedSectionError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'SavedSectionError';
+    this.status = status;
+  }
+}
+
+export interface SavedSectionInput {
+  name?: unknown;
+  description?: unknown;
+  accountKey?: unknown;
+  components?: unknown;
+  note?: unknown;
+}
+
+export interface SavedSectionPropagationTarget {
+  kind: SavedSectionUsageKind;
+  id: string;
+}
+
+export interface SavedSectionPropagationResult {
+  version: number;
+  updated: SavedSectionUsage[];
+  failed: Array<SavedSectionUsage & { error: string }>;
+}
+
+type SavedSectionRecord = {
+  id: string;
+  accountKey: string | null;
+  name: string;
+  description: string | null;
+  version: number;
+  components: string;
+  updatedAt: Date;
+};
+
+function parseComponents(raw: string | null | undefined): ParsedComponent[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? sanitizeSectionComponents(parsed) : [];
+  } catch {
+    return [];
+  }
+}
+
+function summarize(section: SavedSectionRecord): SavedSectionSummary {
+  const components = parseComponents(section.components);
+  return {
+    id: section.id,
+    accountKey: section.accountKey,
+    name: section.name,
+    description: section.description,
+    version: section.version,
+    componentCount: components.length,
+    componentTypes: components.map((component) => component.type),
+    updatedAt: section.updatedAt.toISOString(),
+  };
+}
+
+function canUseAccount(viewer: TemplateReviewViewer, accountKey: string | null): boolean {
+  if (hasUnrestrictedAccountAccess(viewer.role, viewer.accountKeys)) return true;
+  return accountKey !== null && viewer.accountKeys.includes(accountKey);
+}
+
+/** Shared sections are readable by everyone but only editable with access to every account. */
+function assertCanEdit(viewer: TemplateReviewViewer, accountKey: string | null) {
+  if (!canUseAccount(viewer, accountKey)) {
+    throw new SavedSectionError(
+      accountKey ? 'Access denied' : 'Only users with access to every account can change shared sections',
+      403,
+    );
+  }
+}
+
+async function loadSection(id: string, viewer: TemplateReviewViewer): Promise<SavedSectionRecord> {
+  const section = await prisma.savedSection.findUnique({ where: { id } });
+  if (!section) throw new SavedSectionError('Saved section not found', 404);
+  if (section.accountKey !== null && !canUseAccount(viewer, section.accountKey)) {
+    throw new SavedSectionError('Access denied', 403);
+  }
+  return section;
+}
+
+function readText(value: unknown, label: string, maxLength: number, required: boolean): string | null {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text) {
+    if (required) throw new SavedSectionError(`${label} is required`);
+    return null;
+  }
+  if (text.length > maxLength) throw new SavedSectionError(`${label} must be ${maxLength} characters or fewer`);
+  return text;
+}
+
+function readComponents(value: unknown): ParsedComponent[] {
+  if (!Array.isArray(value)) throw new SavedSectionError('components must be an array');
+  const components = sanitizeSectionComponents(value as ParsedComponent[]);
+  if (components.length === 0) throw new SavedSectionError('A saved section needs at least one component');
+  if (components.length > MAX_COMPONENTS) {
+    throw new SavedSectionError(`A saved section can hold at most ${MAX_COMPONENTS} components`);
+  }
+  return components;
+}
+
+export async function listSavedSections(
+  viewer: TemplateReviewViewer,
+  accountKey?: string | null,
+): Promise<SavedSectionSummary[]> {
+  if (accountKey && !canUseAccount(viewer, accountKey)) throw new SavedSectionError('Access denied', 403);
+
+  const accountFilter = accountKey
+    ? [accountKey]
+    : hasUnrestrictedAccountAccess(viewer.role, viewer.accountKeys) ? undefined : viewer.accountKeys;
+  const sections = await prisma.savedSection.findMany({
+    where: accountFilter
+      ? { OR: [{ accountKey: null }, { accountKey: { in: accountFilter } }] }
+      : undefined,
+    orderBy: [{ name: 'asc' }],
+  });
+  return sections.map(summarize);
+}
+
+/** A section with its components, at the latest version unless one is given. */
+export async function getSavedSection(
+  id: string,
+  viewer: TemplateReviewViewer,
+  version?: number,
+): Promise<SavedSectionDetail> {
+  const section = await loadSection(id, viewer);
+  let components = parseComponents(section.components);
+  if (version && version !== section.version) {
+    const snapshot = await prisma.savedSectionVersion.findUnique({
+      where: { sectionId_version: { sectionId: id, version } },
+    });
+    if (!snapshot) throw new SavedSectionError(`Version ${version} of this section not found`, 404);
+    components = parseComponents(snapshot.components);
+  }
+  return { ...summarize(section), components };
+}
+
+export async function createSavedSection(
+  input: SavedSectionInput,
+  viewer: TemplateReviewViewer,
+): Promise<SavedSectionDetail> {
+  const name = readText(input.name, 'Name', MAX_NAME_LENGTH, true)!;
+  const description = readText(input.description, 'Description', MAX_DESCRIPTION_LENGTH, false);
+  const accountKey = typeof input.accountKey === 'string' && input.accountKey.trim() ? input.accountKey.trim() : null;
+  const components = readComponents(input.components);
+  assertCanEdit(viewer, accountKey);
+
+  if (accountKey) {
+    const account = await prisma.account.findUnique({ where: { key: accountKey }, select: { key: true } });
+    if (!account) throw new SavedSectionError('Account not found', 404);
+  }
+
+  const serialized = JSON.stringify(components);
+  const section = await prisma.savedSection.create({
+    data: {
+      accountKey,
+      name,
+      description,
+      components: serialized,
+      createdByUserId: viewer.userId,
+      updatedByUserId: viewer.userId,
+      versions: {
+        create: { version: 1, components: serialized, createdByUserId: viewer.userId },
+      },
+    },
+  });
+  return { ...summarize(section), components };
+}
+
+/**
+ * Rename a section or replace its components. New components become a new
+ * version; templates keep rendering the version they pin until the update
+ * is applied to them with `propagateSavedSection`.
+ */
+export async function updateSavedSection(
+  id: string,
+  input: SavedSectionInput,
+  viewer: TemplateReviewViewer,
+): Promise<SavedSectionDetail> {
+  const section = await loadSection(id, viewer);
+  assertCanEdit(viewer, section.accountKey);
+
+  const name = input.name === undefined ? section.name : readText(input.name, 'Name', MAX_NAME_LENGTH, true)!;
+  const description = input.description === undefined
+    ? section.description
+    : readText(input.description, 'Description', MAX_DESCRIPTION_LENGTH, false);
+  const components = input.components === undefined ? null : readComponents(input.components);
+  const serialized = components ? JSON.stringify(components) : section.components;
+  const changed = serialized !== section.components;
+  const version = changed ? section.version + 1 : section.version;
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (changed) {
+      await tx.savedSectionVersion.create({
+        data: {
+          sectionId: id,
+          version,
+          components: serialized,
+          note: readText(input.note, 'Note', MAX_NOTE_LENGTH, false),
+          createdByUserId: viewer.userId,
+        },
+      });
+    }
+    return tx.savedSection.update({
+      where: { id },
+      data: { name, description, version, components: serialized, updatedByUserId: viewer.userId },
+    });
+  });
+
+  if (changed) {
+    await recordAuditEvent({
+      action: 'saved-section.update',
+      targetType: 'saved-section',
+      targetId: id,
+      targetLabel: updated.name,
+      accountKey: updated.accountKey,
+      actor: viewer.actor,
+      changes: { version: { before: section.version, after: version } },
+    });
+  }
+
+  return { ...summarize(updated), components: components ?? parseComponents(section.components) };
+}
+
+export async function deleteSavedSection(id: string, viewer: TemplateReviewViewer): Promise<void> {
+  const section = await loadSection(id, viewer);
+  assertCanEdit(viewer, section.accountKey);
+
+  const usages = await findUsages(section, viewer, true);
+  if (usages.length > 0) {
+    throw new SavedSectionError(
+      `This section is used by ${usages.length} template${usages.length === 1 ? '' : 's'}. Detach it from them first.`,
+      409,
+    );
+  }
+
+  await prisma.savedSection.delete({ where: { id } });
+  await recordAuditEvent({
+    action: 'saved-section.delete',
+    targetType: 'saved-section',
+    targetId: id,
+    targetLabel: section.name,
+    accountKey: section.accountKey,
+    actor: viewer.actor,
+  });
+}
+
+function pinnedVersion(source: string, sectionId: string): number | null {
+  const versions = findSavedSectionReferences(source)
+    .filter((reference) => reference.sectionId === sectionId)
+    .map((reference) => reference.version);
+  return versions.length > 0 ? Math.min(...versions) : null;
+}
+
+/**
+ * Templates and emails whose source references the section. `everywhere`
+ * ignores the viewer's account access (used before deleting).
+ */
+async function findUsages(
+  section: SavedSectionRecord,
+  viewer: TemplateReviewViewer,
+  everywhere = false,
+): Promise<SavedSectionUsage[]> {
+  const needle = `section-id="${section.id}"`;
+  const unrestricted = everywhere || hasUnrestrictedAccountAccess(viewer.role, viewer.accountKeys);
+  const accountFilter = unrestricted ? {} : { accountKey: { in: viewer.accountKeys } };
+
+  const [espTemplates, libraryTemplates, accountEmails] = await Promise.all([
+    prisma.espTemplate.findMany({
+      where: { source: { contains: needle }, ...accountFilter },
+      select: { id: true, name: true, accountKey: true, source: true, remoteId: true, publishedTo: true },
+      orderBy: { updatedAt: 'desc' },
+    }),
+    unrestricted
+      ? prisma.template.findMany({
+        where: { content: { contains: needle } },
+        select: { id: true, title: true, content: true },
+        orderBy: { title: 'asc' },
+      })
+      : Promise.resolve([]),
+    prisma.accountEmail.findMany({
+      where: { content: { contains: needle }, ...accountFilter },
+      select: { id: true, name: true, accountKey: true, content: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  const usages: SavedSectionUsage[] = [];
+  const push = (usage: Omit<SavedSectionUsage, 'pinnedVersion' | 'outdated'>, source: string | null) => {
+    const version = pinnedVersion(source ?? '', section.id);
+    if (version === null) return;
+    usages.push({ ...usage, pinnedVersion: version, outdated: version < section.version });
+  };
+
+  for (const template of espTemplates) {
+    push({
+      kind: 'esp-template',
+      id: template.id,
+      name: template.name,
+      accountKey: template.accountKey,
+      publishedToEsp: Boolean(template.remoteId) || (template.publishedTo ?? '').length > 2,
+    }, template.source);
+  }
+  for (const template of libraryTemplates) {
+    push({ kind: 'library-template', id: template.id, name: template.title, accountKey: null }, template.content);
+  }
+  for (const email of accountEmails) {
+    push({ kind: 'account-email', id: email.id, name: email.name, accountKey: email.accountKey }, email.content);
+  }
+  return usages;
+}
+
+/** Impact preview: everything that references the section and which version it pins. */
+export async function getSavedSectionUsage(
+  id: string,
+  viewer: TemplateReviewViewer,
+): Promise<{ section: SavedSectionSummary; usages: SavedSectionUsage[] }> {
+  const section = await loadSection(id, viewer);
+  return { section: summarize(section), usages: await findUsages(section, viewer) };
+}
+
+async function applyToUsage(
+  usage: SavedSectionUsage,
+  section: SavedSectionRecord,
+  viewer: TemplateReviewViewer,
+): Promise<void> {
+  switch (usage.kind) {
+    case 'esp-template': {
+      const template = await prisma.espTemplate.findUnique({
+        where: { id: usage.id },
+        select: { source: true, accountKey: true },
+      });
+      if (!template?.source) throw new Error('Template source not found');
+      const source = retargetSavedSectionReferences(template.source, section.id, section.version);
+      // The stored HTML is what gets published, so it's rebuilt from the new source.
+      const html = await maizzleRender.renderTemplate(
+        await applyAccountTheme(await expandSavedSections(source), template.accountKey),
+        { prettify: false, css: false },
+      );
+      await prisma.espTemplate.update({ where: { id: usage.id }, data: { source, html } });
+      await resetReviewAfterEdit(usage.id, viewer);
+      return;
+    }
+    case 'library-template': {
+      const template = await prisma.template.findUnique({ where: { id: usage.id }, select: { slug: true, content: true } });
+      if (!template) throw new Error('Template not found');
+      const content = retargetSavedSectionReferences(template.content, section.id, section.version);
+      await updateTemplate(template.slug, { content }, true, viewer.userId);
+      return;
+    }
+    case 'account-email': {
+      const email = await prisma.accountEmail.findUnique({ where: { id: usage.id }, select: { content: true } });
+      if (!email?.content) throw new Error('Email content not found');
+      await updateAccountEmail(usage.id, {
+        content: retargetSavedSectionReferences(email.content, section.id, section.version),
+      });
+      return;
+    }
+  }
+}
+
+/**
+ * Move templates onto the section's latest version. Without targets every
+ * outdated usage the viewer can reach is updated. ESP templates get fresh
+ * HTML but are not republished; their approval resets like any other edit.
+ */
+export async function propagateSavedSection(
+  id: string,
+  options: { targets?: SavedSectionPropagationTarget[] },
+  viewer: TemplateReviewViewer,
+): Promise<SavedSectionPropagationResult> {
+  const section = await loadSection(id, viewer);
+  const usages = (await findUsages(section, viewer)).filter((usage) => usage.outdated);
+  const wanted = options.targets
+    ? new Set(options.targets.map((target) => `${target.kind}:${target.id}`))
+    : null;
+  const targets = wanted ? usages.filter((usage) => wanted.has(`${usage.kind}:${usage.id}`)) : usages;
+
+  const result: SavedSectionPropagationResult = { version: section.version, updated: [], failed: [] };
+  for (const usage of targets) {
+    try {
+      await applyToUsage(usage, section, viewer);
+      result.updated.push({ ...usage, pinnedVersion: section.version, outdated: false });
+    } catch (err) {
+      result.failed.push({ ...usage, error: err instanceof Error ? err.message : 'Update failed' });
+    }
+  }
+
+  if (result.updated.length > 0) {
+    await recordAuditEvent({
+      action: 'saved-section.propagate',
+      targetType: 'saved-section',
+      targetId: section.id,
+      targetLabel: section.name,
+      accountKey: section.accountKey,
+      actor: viewer.actor,
+      metadata: {
+        version: section.version,
+        updated: result.updated.map((usage) => ({ kind: usage.kind, id: usage.id, name: usage.name })),
+        failed: result.failed.length,
+      },
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Replace every saved-section tag with the components of the version it pins,
+ * so the source renders like any other template. Runs before merge tags are
+ * resolved so tags inside a section get values too. A tag whose section was
+ * deleted renders nothing.
+ */
+export async function expandSavedSections(source: string): Promise<string> {
+  const references = findSavedSectionReferences(source);
+  if (references.length === 0) return source;
+
+  const sectionIds = [...new Set(references.map((reference) => reference.sectionId))];
+  const pinned = references.filter((reference) => reference.version > 0);
+  const [sections, versions] = await Promise.all([
+    prisma.savedSection.findMany({
+      where: { id: { in: sectionIds } },
+      select: { id: true, version: true, components: true },
+    }),
+    pinned.length > 0
+      ? prisma.savedSectionVersion.findMany({
+        where: { OR: pinned.map(({ sectionId, version }) => ({ sectionId, version })) },
+        select: { sectionId: true, version: true, components: true },
+      })
+      : Promise.resolve([]),
+  ]);
+
+  const latest = new Map(sections.map((section) => [section.id, section]));
+  const snapshots = new Map(versions.map((version) => [`${version.sectionId}:${version.version}`, version.components]));
+
+  return replaceSavedSectionReferences(source, (reference, _tag, attributes) => {
+    const section = latest.get(reference.sectionId);
+    if (!section) return '';
+    const raw = snapshots.get(`${reference.sectionId}:${reference.version}`) ?? section.components;
+    const indexMatch = attributes.match(COMPONENT_INDEX_PATTERN);
+    const parentIndex = indexMatch ? indexMatch[1] ?? indexMatch[2] : '';
+    return parseComponents(raw)
+      .map((component, i) => serializeComponent({
+        ...component,
+        props: parentIndex ? { ...component.props, 'component-index': `${parentIndex}-${i}` } : component.props,
+      }))
+      .join('\n\n');
+  });
+}
@@ -1,4 +1,5 @@
 import { prisma } from '@/lib/prisma';
+import { recordAuditEvent, type AuditActor } from '@/lib/services/audit-log';
 import '@/lib/esp/init';
 import { getAdapterForAccount } from '@/lib/esp/registry';
 import { withConcurrencyLimit } from '@/lib/esp/utils';
@@ -8,11 +9,26 @@ import {
   isLikelyDialablePhone,
   normalizePhoneNumber,
 } from '@/lib/contact-hygiene';
+import {
+  DEFAULT_SMS_TIMEZONE,
+  isValidTimeZone,
+  isWithinSmsSendWindow,
+  nextSmsSendWindowStart,
+  parseSmsSendPolicy,
+  type SmsSendPolicy,
+} from '@/lib/sms-send-policy';
+import {
+  AudienceSelectionError,
+  assertAudienceIndexed,
+  type AudienceSelection,
+} from '@/lib/services/audiences';
+import { evaluateAudienceFromIndex } from '@/lib/services/contact-index';
 
 type SmsCampaignStatus =
   | 'queued'
   | 'scheduled'
   | 'processing'
+  | 'waiting'
   | 'completed'
   | 'partial'
   | 'failed'
@@ -37,6 +53,8 @@ export interface CreateSmsCampaignInput {
   sourceAudienceId?: string | null;
   sourceFilter?: string | null;
   metadata?: string | null;
+  /** Who to attribute the campaign to in the audit log. */
+  actor?: AuditActor | null;
 }
 
 export interface SmsCampaignSummary {
@@ -45,6 +63,8 @@ export interface SmsCampaignSummary {
   message: string;
   status: SmsCampaignStatus;
   scheduledFor: string;
+  /** When status is "waiting", the earliest send window opening. */
+  waitingUntil: string;
   startedAt: string;
   completedAt: string;
   totalRecipients: number;
@@ -56,8 +76,43 @@ export interface SmsCampaignSummary {
   error: string;
 }
 
-const PROCESSABLE_STATUSES: SmsCampaignStatus[] = ['queued', 'scheduled', 'processing'];
+const PROCESSABLE_STATUSES: SmsCampaignStatus[] = ['queued', 'scheduled', 'processing', 'waiting'];
+/** Per-call pacing budget; remaining recipients are sent on the next run. */
+const DEFAULT_PROCESS_DURATION_MS = 45_000;
 const TERMINAL_STATUSES: SmsCampaignStatus[] = ['completed', 'partial', 'failed', 'canceled'];
+export const SMS_RECIPIENT_LIMIT = 500;
+const SEND_INTERRUPTED_ERROR = 'Send was interrupted; delivery is unknown, so it was not retried';
+/** A claimed recipient still "sending" after this long belongs to a run that died. */
+const STALE_SENDING_MS = 20 * 60 * 1000;
+
+/**
+ * Every contact of an audience with a phone number, evaluated against the
+ * contact index, as send recipients. An audience over the per-send limit is
+ * rejected rather than truncated.
+ */
+export async function resolveAudienceSmsRecipients(selection: AudienceSelection): Promise<SmsRecipientInput[]> {
+  const evaluation = await evaluateAudienceFromIndex({
+    definition: selection.definition,
+    accountKeys: selection.accountKeys,
+    pageSize: SMS_RECIPIENT_LIMIT,
+    reachableBy: 'phone',
+  });
+  assertAudienceIndexed(evaluation.perAccount);
+  if (evaluation.total > SMS_RECIPIENT_LIMIT) {
+    throw new AudienceSelectionError(`Recipient limit is ${SMS_RECIPIENT_LIMIT} per bulk send`);
+  }
+  return evaluation.contacts.map((contact) => ({
+    contactId: contact.id,
+    accountKey: contact._accountKey,
+    phone: contact.phone,
+    fullName: contact.fullName || `${contact.firstName} ${contact.lastName}`.trim(),
+  }));
+}
+
+export interface AccountSendPolicy {
+  policy: SmsSendPolicy;
+  timezone: string;
+}
 
 type ResolvedMessagingRuntime =
   | {
@@ -188,6 +243,7 @@ function toSummary(row: {
   message: string;
   status: string;
   scheduledFor: Date | null;
+  waitingUntil: Date | null;
   startedAt: Date | null;
   completedAt: Date | null;
   totalRecipients: number;
@@ -204,6 +260,7 @@ function toSummary(row: {
     message: row.message,
     status: row.status as SmsCampaignStatus,
     scheduledFor: row.scheduledFor?.toISOString() || '',
+    waitingUntil: row.waitingUntil?.toISOString() || '',
     startedAt: row.startedAt?.toISOString() || '',
     completedAt: row.completedAt?.toISOString() || '',
     totalRecipients: row.totalRecipients,
@@ -222,6 +279,7 @@ const smsCampaignSummarySelect = {
   message: true,
   status: true,
   scheduledFor: true,
+  waitingUntil: true,
   startedAt: true,
   completedAt: true,
   totalRecipients: true,
@@ -281,6 +339,21 @@ export async function createSmsCampaign(input: CreateSmsCampaignInput): Promise<
     return campaign;
   });
 
+  await recordAuditEvent({
+    action: 'campaign.create',
+    targetType: 'campaign',
+    targetId: created.id,
+    targetLabel: created.name || message.slice(0, 60),
+    accountKey: accountKeys.length === 1 ? accountKeys[0] : null,
+    actor: input.actor,
+    metadata: {
+      channel,
+      accountKeys,
+      totalRecipients: recipients.length,
+      scheduledFor: scheduledDate?.toISOString() || null,
+    },
+  });
+
   return toSummary(created);
 }
 
@@ -347,11 +420,53 @@ async function summarizeCampaign(campaignId: string) {
   };
 }
 
+/** Send policy and effective timezone for each account (defaults when unset). */
+export async function getAccountSmsSendPolicies(accountKeys: string[]): Promise<Map<string, AccountSendPolicy>> {
+  const rows = await prisma.account.findMany({
+    where: { key: { in: accountKeys } },
+    select: { key: true, timezone: true, smsSendPolicy: true },
+  });
+  const byKey = new Map(rows.map((row) => [row.key, row]));
+
+  const policies = new Map<string, AccountSendPolicy>();
+  for (const accountKey of accountKeys) {
+    const row = byKey.get(accountKey);
+    const timezone = row?.timezone?.trim() || '';
+    policies.set(accountKey, {
+      policy: parseSmsSendPolicy(row?.smsSendPolicy),
+      timezone: timezone && isValidTimeZone(timezone) ? timezone : DEFAULT_SMS_TIMEZONE,
+    });
+  }
+  return policies;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Send pending recipients, honoring each account's send windows and
+ * messages-per-minute limit. Accounts outside their window are deferred and
+ * the campaign moves to "waiting" until the earliest window opens; pacing
+ * stops at `maxDurationMs` and the next run picks up where this one left off.
+ */
 export async function processSmsCampaign(
   campaignId: string,
-  options?: { concurrency?: number },
+  options?: { concurrency?: number; maxDurationMs?: number },
 ): Promise<SmsCampaignSummary> {
   const concurrency = Math.max(1, Math.min(8, options?.concurrency ?? 4));
+  const deadline = Date.now() + Math.max(5_000, options?.maxDurationMs ?? DEFAULT_PROCESS_DURATION_MS);
+  // A run that died mid-send may or may not have delivered; fail those rows
+  // rather than send a possible duplicate.
+  await prisma.smsCampaignRecipient.updateMany({
+    where: {
+      campaignId,
+      status: 'sending',
+      updatedAt: { lt: new Date(Date.now() - STALE_SENDING_MS) },
+    },
+    data: { status: 'failed', error: SEND_INTERRUPTED_ERROR },
+  });
+
   const campaign = await prisma.smsCampaign.findUnique({
     where: { id: campaignId },
     include: {
@@ -380,6 +495,7 @@ export async function processSmsCampaign(
       where: { id: campaign.id },
       data: {
         status,
+        waitingUntil: null,
         totalRecipients: counts.total,
         sentCount: counts.sent,
         failedCount: counts.failed,
@@ -394,6 +510,7 @@ export async function processSmsCampaign(
     where: { id: campaign.id },
     data: {
       status: 'processing',
+      waitingUntil: null,
       startedAt: campaign.startedAt || new Date(),
       completedAt: null,
       error: null,
@@ -449,9 +566,16 @@ export async function processSmsCampaign(
     }
   }
 
-  const tasks = campaign.recipients.map((recipient) => async () => {
+  async function sendToRecipient(recipient: { id: string; contactId: string; accountKey: string }) {
     const { id, contactId, accountKey } = recipient;
 
+    // Claim the row first so a concurrent run of this campaign can't send it too.
+    const claim = await prisma.smsCampaignRecipient.updateMany({
+      where: { id, status: 'pending' },
+      data: { status: 'sending' },
+    });
+    if (claim.count !== 1) return;
+
     const runtime = await resolveMessagingRuntime(accountKey);
     if ('error' in runtime) {
       await prisma.smsCampaignRecipient.update({
@@ -469,7 +593,7 @@ export async function processSmsCampaign(
         token: runtime.token,
         locationId: runtime.locationId,
         contactId,
-        message: campaign.message,
+        message: campaign!.message,
         channel: campaignMessageOptions.channel,
         mediaUrls: campaignMessageOptions.mediaUrls,
       });
@@ -493,14 +617,64 @@ export async function processSmsCampaign(
         },
       });
     }
+  }
+
+  const recipientsByAccount = new Map<string, typeof campaign.recipients>();
+  for (const recipient of campaign.recipients) {
+    const group = recipientsByAccount.get(recipient.accountKey) || [];
+    group.push(recipient);
+    recipientsByAccount.set(recipient.accountKey, group);
+  }
+  const sendPolicies = await getAccountSmsSendPolicies([...recipientsByAccount.keys()]);
+  const windowOpenings: Date[] = [];
+  let accountsOutOfTime = 0;
+
+  // One paced sender per account: each one-second tick sends up to
+  // messagesPerMinute / 60 recipients, so accounts throttle independently.
+  const accountTasks = [...recipientsByAccount.entries()].map(([accountKey, recipients]) => async () => {
+    const { policy, timezone } = sendPolicies.get(accountKey)!;
+    const perTick = Math.max(1, Math.ceil(policy.messagesPerMinute / 60));
+    const tickMs = Math.round((perTick / policy.messagesPerMinute) * 60_000);
+
+    let index = 0;
+    while (index < recipients.length && Date.now() < deadline) {
+      const now = new Date();
+      if (!isWithinSmsSendWindow(policy, timezone, now)) {
+        const opensAt = nextSmsSendWindowStart(policy, timezone, now);
+        if (opensAt) {
+          windowOpenings.push(opensAt);
+        } else {
+          await prisma.smsCampaignRecipient.updateMany({
+            where: { id: { in: recipients.slice(index).map((recipient) => recipient.id) }, status: 'pending' },
+            data: { status: 'failed', error: 'Account SMS send policy has no open send window' },
+          });
+        }
+        return;
+      }
+
+      const tickStartedAt = Date.now();
+      const batch = recipients.slice(index, index + perTick);
+      index += batch.length;
+      await withConcurrencyLimit(batch.map((recipient) => () => sendToRecipient(recipient)), concurrency);
+
+      const elapsed = Date.now() - tickStartedAt;
+      if (index < recipients.length && elapsed < tickMs) await sleep(tickMs - elapsed);
+    }
+    if (index < recipients.length) accountsOutOfTime += 1;
   });
 
-  await withConcurrencyLimit(tasks, concurrency);
+  await withConcurrencyLimit(accountTasks, concurrency);
 
   const counts = await summarizeCampaign(campaign.id);
+  // Waiting only when every account with pending recipients is outside its
+  // window; otherwise keep processing so the next run continues pacing.
+  const allDeferred = counts.pending > 0 && windowOpenings.length > 0 && accountsOutOfTime === 0;
+  const waitingUntil = allDeferred
+    ? new Date(Math.min(...windowOpenings.map((date) => date.getTime())))
+    : null;
   const nextStatus: SmsCampaignStatus =
     counts.pending > 0
-      ? 'processing'
+      ? waitingUntil ? 'waiting' : 'processing'
       : counts.sent > 0 && counts.failed > 0
         ? 'partial'
         : counts.sent > 0
@@ -513,10 +687,11 @@ export async function processSmsCampaign(
     where: { id: campaign.id },
     data: {
       status: nextStatus,
+      waitingUntil,
       totalRecipients: counts.total,
       sentCount: counts.sent,
       failedCount: counts.failed,
-      completedAt: nextStatus === 'processing' || nextStatus === 'queued' ? null : new Date(),
+      completedAt: counts.pending > 0 || nextStatus === 'queued' ? null : new Date(),
       error: counts.firstError || null,
     },
   });
@@ -524,43 +699,40 @@ export async function processSmsCampaign(
   return toSummary(updated);
 }
 
-export async function processDueSmsCampaigns(options?: {
+/**
+ * Campaigns that are due to send. Each is sent by its own
+ * `sms-campaign.process` job so only one run per campaign is ever active.
+ */
+export async function listDueSmsCampaignIds(options?: {
   limit?: number;
   accountKeys?: string[];
-  concurrency?: number;
-}): Promise<SmsCampaignSummary[]> {
+}): Promise<string[]> {
   const limit = Math.max(1, Math.min(20, options?.limit ?? 5));
   const now = new Date();
 
   const rows = await prisma.smsCampaign.findMany({
     where: {
       status: { in: PROCESSABLE_STATUSES },
-      OR: [
-        { scheduledFor: null },
-        { scheduledFor: { lte: now } },
+      AND: [
+        { OR: [{ scheduledFor: null }, { scheduledFor: { lte: now } }] },
+        { OR: [{ waitingUntil: null }, { waitingUntil: { lte: now } }] },
       ],
     },
     orderBy: [{ scheduledFor: 'asc' }, { createdAt: 'asc' }],
     take: limit * 4,
+    select: { id: true, accountKeys: true },
   });
 
   const allowedAccountKeys = options?.accountKeys && options.accountKeys.length > 0
     ? new Set(options.accountKeys)
     : null;
 
-  const queue = rows
+  return rows
     .filter((row) => {
       if (!allowedAccountKeys) return true;
       const keys = parseAccountKeys(row.accountKeys);
       return keys.some((key) => allowedAccountKeys.has(key));
     })
-    .slice(0, limit);
-
-  const summaries: SmsCampaignSummary[] = [];
-  for (const row of queue) {
-    const summary = await processSmsCampaign(row.id, { concurrency: options?.concurrency });
-    summaries.push(summary);
-  }
-
-  return summaries;
+    .slice(0, limit)
+    .map((row) => row.id);
 }
@@ -0,0 +1,686 @@
+import crypto from 'crypto';
+import type { Session } from 'next-auth';
+import { prisma } from '@/lib/prisma';
+import { ELEVATED_ROLES, hasUnrestrictedAccountAccess, type UserRole } from '@/lib/roles';
+import { createNotification, type NotificationSeverity } from '@/lib/notifications/service';
+import type { NotificationType } from '@/lib/notifications/types';
+import { auditActorFromSession, recordAuditEvent, type AuditActor } from '@/lib/services/audit-log';
+import type { AuditAction } from '@/lib/audit-actions';
+import {
+  PUBLISHABLE_REVIEW_STATUSES,
+  TEMPLATE_REVIEW_STATUS_LABELS,
+  normalizeTemplateReviewStatus,
+  type TemplateReviewAction,
+  type TemplateReviewStatus,
+} from '@/lib/template-review-status';
+
+const MAX_COMMENT_LENGTH = 4000;
+const MAX_NOTE_LENGTH = 1000;
+const MAX_OVERRIDE_REASON_LENGTH = 500;
+
+export class TemplateReviewError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'TemplateReviewError';
+    this.status = status;
+  }
+}
+
+/** The signed-in user acting on a review. */
+export interface TemplateReviewViewer {
+  userId: string;
+  name: string | null;
+  role: UserRole;
+  accountKeys: string[];
+  actor: AuditActor | null;
+}
+
+export interface TemplateReviewUser {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+}
+
+export interface TemplateCommentSummary {
+  id: string;
+  parentId: string | null;
+  componentIndex: number | null;
+  componentType: string | null;
+  body: string;
+  authorUserId: string | null;
+  authorName: string;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+export interface TemplateReviewPermissions {
+  canSubmit: boolean;
+  canWithdraw: boolean;
+  canDecide: boolean;
+  canAssign: boolean;
+  canOverride: boolean;
+}
+
+export interface TemplateReviewSummary {
+  templateId: string;
+  accountKey: string;
+  name: string;
+  status: TemplateReviewStatus;
+  /** False when the HTML changed after approval (the approval no longer covers it). */
+  approvalCurrent: boolean;
+  reviewers: TemplateReviewUser[];
+  requestedAt: string | null;
+  requestedBy: TemplateReviewUser | null;
+  reviewedAt: string | null;
+  reviewedBy: TemplateReviewUser | null;
+  comments: TemplateCommentSummary[];
+  permissions: TemplateReviewPermissions;
+  /** Users who may be assigned as reviewers; only returned to users who can assign. */
+  reviewerCandidates: TemplateReviewUser[];
+}
+
+type ReviewTemplateRow = {
+  id: string;
+  accountKey: string;
+  name: string;
+  subject: string | null;
+  previewText: string | null;
+  html: string;
+  reviewStatus: string;
+  reviewerUserIds: string;
+  reviewRequestedAt: Date | null;
+  reviewRequestedByUserId: string | null;
+  reviewedAt: Date | null;
+  reviewedByUserId: string | null;
+  approvedHtmlHash: string | null;
+};
+
+const REVIEW_TEMPLATE_SELECT = {
+  id: true,
+  accountKey: true,
+  name: true,
+  subject: true,
+  previewText: true,
+  html: true,
+  reviewStatus: true,
+  reviewerUserIds: true,
+  reviewRequestedAt: true,
+  reviewRequestedByUserId: true,
+  reviewedAt: true,
+  reviewedByUserId: true,
+  approvedHtmlHash: true,
+} as const;
+
+export function templateReviewViewerFromSession(session: Session): TemplateReviewViewer {
+  return {
+    userId: session.user.id,
+    name: session.user.name ?? null,
+    role: session.user.role as UserRole,
+    accountKeys: session.user.accountKeys ?? [],
+    actor: auditActorFromSession(session),
+  };
+}
+
+export function hashTemplateHtml(html: string): string {
+  return crypto.createHash('sha256').update(html).digest('hex');
+}
+
+/** What an approval signs off on. */
+export interface ApprovalContent {
+  subject: string | null;
+  previewText: string | null;
+  html: string;
+}
+
+/**
+ * Fingerprint stored as `approvedHtmlHash`. Subject, preview text and HTML
+ * are hashed separately and then together, so no two combinations collide.
+ */
+export function hashApprovalContent(content: ApprovalContent): string {
+  const parts = [content.subject || '', content.previewText || '', content.html].map(hashTemplateHtml);
+  return crypto.createHash('sha256').update(parts.join(':')).digest('hex');
+}
+
+function parseStringArray(raw: string | null | undefined): string[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(String).filter(Boolean) : [];
+  } catch {
+    return [];
+  }
+}
+
+function canAccessAccount(role: UserRole, accountKeys: string[], accountKey: string): boolean {
+  return hasUnrestrictedAccountAccess(role, accountKeys) || accountKeys.includes(accountKey);
+}
+
+function isElevated(viewer: TemplateReviewViewer): boolean {
+  return ELEVATED_ROLES.includes(viewer.role);
+}
+
+function reviewLink(templateId: string): string {
+  return `/templates/review/${templateId}`;
+}
+
+async function loadTemplateForViewer(templateId: string, viewer: TemplateReviewViewer): Promise<ReviewTemplateRow> {
+  const template = await prisma.espTemplate.findUnique({
+    where: { id: templateId },
+    select: REVIEW_TEMPLATE_SELECT,
+  });
+  if (!template) throw new TemplateReviewError('Template not found', 404);
+  if (!canAccessAccount(viewer.role, viewer.accountKeys, template.accountKey)) {
+    throw new TemplateReviewError('Access denied', 403);
+  }
+  return template;
+}
+
+function permissionsFor(template: ReviewTemplateRow, viewer: TemplateReviewViewer): TemplateReviewPermissions {
+  const status = normalizeTemplateReviewStatus(template.reviewStatus);
+  const reviewerIds = parseStringArray(template.reviewerUserIds);
+  const isClient = viewer.role === 'client';
+  const isReviewer = reviewerIds.includes(viewer.userId);
+  return {
+    canSubmit: !isClient && (status === 'draft' || status === 'changes_requested'),
+    canWithdraw: !isClient && status === 'in_review',
+    // With no reviewers assigned, any client user on the account may sign off.
+    canDecide: status === 'in_review' && (
+      isReviewer || isElevated(viewer) || (reviewerIds.length === 0 && isClient)
+    ),
+    canAssign: !isClient,
+    canOverride: isElevated(viewer),
+  };
+}
+
+async function loadUsers(ids: string[]): Promise<Map<string, TemplateReviewUser>> {
+  const unique = [...new Set(ids.filter(Boolean))];
+  if (unique.length === 0) return new Map();
+  const users = await prisma.user.findMany({
+    where: { id: { in: unique } },
+    select: { id: true, name: true, email: true, role: true },
+  });
+  return new Map(users.map((user) => [user.id, user]));
+}
+
+/** Users with access to the account — who can be assigned as reviewers. */
+async function listReviewerCandidates(accountKey: string): Promise<TemplateReviewUser[]> {
+  const users = await prisma.user.findMany({
+    select: { id: true, name: true, email: true, role: true, accountKeys: true },
+    orderBy: { name: 'asc' },
+  });
+  return users
+    .filter((user) => canAccessAccount(user.role as UserRole, parseStringArray(user.accountKeys), accountKey))
+    .map(({ id, name, email, role }) => ({ id, name, email, role }));
+}
+
+async function notifyUsers(
+  userIds: string[],
+  excludeUserId: string | null,
+  input: { type: NotificationType; severity?: NotificationSeverity; title: string; body?: string; templateId: string; accountKey: string },
+): Promise<void> {
+  const recipients = [...new Set(userIds.filter((id) => id && id !== excludeUserId))];
+  for (const userId of recipients) {
+    try {
+      await createNotification({
+        userId,
+        type: input.type,
+        severity: input.severity ?? 'info',
+        title: input.title,
+        body: input.body ?? null,
+        link: reviewLink(input.templateId),
+        meta: { templateId: input.templateId, accountKey: input.accountKey },
+        sendEmailNow: true,
+      });
+    } catch (err) {
+      console.error(`[template-reviews] Failed to notify ${userId} (${input.type}):`, err);
+    }
+  }
+}
+
+/** Client users on the account — the default sign-off audience when no reviewers are assigned. */
+async function listAccountClientUserIds(accountKey: string): Promise<string[]> {
+  const clients = await prisma.user.findMany({
+    where: { role: 'client' },
+    select: { id: true, accountKeys: true },
+  });
+  return clients
+    .filter((user) => parseStringArray(user.accountKeys).includes(accountKey))
+    .map((user) => user.id);
+}
+
+async function reviewAudience(template: ReviewTemplateRow): Promise<string[]> {
+  const reviewerIds = parseStringArray(template.reviewerUserIds);
+  return reviewerIds.length > 0 ? reviewerIds : listAccountClientUserIds(template.accountKey);
+}
+
+async function accountName(accountKey: string): Promise<string> {
+  const account = await prisma.account.findUnique({ where: { key: accountKey }, select: { dealer: true } });
+  return account?.dealer || accountKey;
+}
+
+function toCommentSummary(row: {
+  id: string;
+  parentId: string | null;
+  componentIndex: number | null;
+  componentType: string | null;
+  body: string;
+  authorUserId: string | null;
+  authorName: string | null;
+  resolvedAt: Date | null;
+  createdAt: Date;
+}): TemplateCommentSummary {
+  return {
+    id: row.id,
+    parentId: row.parentId,
+    componentIndex: row.componentIndex,
+    componentType: row.componentType,
+    body: row.body,
+    authorUserId: row.authorUserId,
+    authorName: row.authorName || 'Unknown',
+    resolvedAt: row.resolvedAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export async function getTemplateReview(
+  templateId: string,
+  viewer: TemplateReviewViewer,
+): Promise<TemplateReviewSummary> {
+  const template = await loadTemplateForViewer(templateId, viewer);
+  const reviewerIds = parseStringArray(template.reviewerUserIds);
+  const permissions = permissionsFor(template, viewer);
+  const [users, comments, candidates] = await Promise.all([
+    loadUsers([...reviewerIds, template.reviewRequestedByUserId ?? '', template.reviewedByUserId ?? '']),
+    prisma.espTemplateComment.findMany({
+      where: { templateId },
+      orderBy: { createdAt: 'asc' },
+    }),
+    permissions.canAssign ? listReviewerCandidates(template.accountKey) : Promise.resolve([]),
+  ]);
+
+  const status = normalizeTemplateReviewStatus(template.reviewStatus);
+  return {
+    templateId: template.id,
+    accountKey: template.accountKey,
+    name: template.name,
+    status,
+    approvalCurrent: isApprovedForPublish(template, template),
+    reviewers: reviewerIds.map((id) => users.get(id)).filter((user): user is TemplateReviewUser => Boolean(user)),
+    requestedAt: template.reviewRequestedAt?.toISOString() ?? null,
+    requestedBy: template.reviewRequestedByUserId ? users.get(template.reviewRequestedByUserId) ?? null : null,
+    reviewedAt: template.reviewedAt?.toISOString() ?? null,
+    reviewedBy: template.reviewedByUserId ? users.get(template.reviewedByUserId) ?? null : null,
+    comments: comments.map(toCommentSummary),
+    permissions,
+    reviewerCandidates: candidates,
+  };
+}
+
+export async function setTemplateReviewers(
+  templateId: string,
+  userIds: unknown,
+  viewer: TemplateReviewViewer,
+): Promise<TemplateReviewSummary> {
+  const template = await loadTemplateForViewer(templateId, viewer);
+  if (!permissionsFor(template, viewer).canAssign) {
+    throw new TemplateReviewError('You cannot assign reviewers', 403);
+  }
+  if (!Array.isArray(userIds)) throw new TemplateReviewError('reviewerUserIds must be an array');
+
+  const requested = [...new Set(userIds.map(String).filter(Boolean))];
+  const allowed = new Set((await listReviewerCandidates(template.accountKey)).map((user) => user.id));
+  const invalid = requested.filter((id) => !allowed.has(id));
+  if (invalid.length > 0) {
+    throw new TemplateReviewError('Reviewers must have access to the template\'s account');
+  }
+
+  const previous = parseStringArray(template.reviewerUserIds);
+  await prisma.espTemplate.update({
+    where: { id: templateId },
+    data: { reviewerUserIds: JSON.stringify(requested) },
+  });
+
+  await recordAuditEvent({
+    action: 'template.review.reviewers',
+    targetType: 'template',
+    targetId: template.id,
+    targetLabel: template.name,
+    accountKey: template.accountKey,
+    actor: viewer.actor,
+    changes: { reviewerUserIds: { before: previous, after: requested } },
+  });
+
+  // Newly added reviewers of a template already in review need to hear about it.
+  const added = requested.filter((id) => !previous.includes(id));
+  if (added.length > 0 && normalizeTemplateReviewStatus(template.reviewStatus) === 'in_review') {
+    await notifyUsers(added, viewer.userId, {
+      type: 'template_review_requested',
+      title: `Review requested: "${template.name}"`,
+      body: `${await accountName(template.accountKey)} · approve or request changes before it is published.`,
+      templateId: template.id,
+      accountKey: template.accountKey,
+    });
+  }
+
+  return getTemplateReview(templateId, viewer);
+}
+
+const TRANSITIONS: Record<TemplateReviewAction, {
+  from: TemplateReviewStatus[];
+  to: TemplateReviewStatus;
+  permission: keyof TemplateReviewPermissions;
+  audit: AuditAction;
+}> = {
+  submit: { from: ['draft', 'changes_requested'], to: 'in_review', permission: 'canSubmit', audit: 'template.review.submit' },
+  withdraw: { from: ['in_review'], to: 'draft', permission: 'canWithdraw', audit: 'template.review.withdraw' },
+  approve: { from: ['in_review'], to: 'approved', permission: 'canDecide', audit: 'template.review.approve' },
+  request_changes: { from: ['in_review'], to: 'changes_requested', permission: 'canDecide', audit: 'template.review.request-changes' },
+};
+
+export function isTemplateReviewAction(value: unknown): value is TemplateReviewAction {
+  return typeof value === 'string' && value in TRANSITIONS;
+}
+
+/** Move a template through the review lifecycle, notifying whoever is waiting on it. */
+export async function transitionTemplateReview(
+  templateId: string,
+  action: TemplateReviewAction,
+  viewer: TemplateReviewViewer,
+  note?: unknown,
+): Promise<TemplateReviewSummary> {
+  const template = await loadTemplateForViewer(templateId, viewer);
+  const transition = TRANSITIONS[action];
+  const status = normalizeTemplateReviewStatus(template.reviewStatus);
+  if (!transition.from.includes(status)) {
+    throw new TemplateReviewError(`Template is ${TEMPLATE_REVIEW_STATUS_LABELS[status].toLowerCase()}`, 409);
+  }
+  if (!permissionsFor(template, viewer)[transition.permission]) {
+    throw new TemplateReviewError('You cannot perform this review action', 403);
+  }
+  if (action === 'submit' && !template.html) {
+    throw new TemplateReviewError('Template has no HTML content to review');
+  }
+
+  const noteText = typeof note === 'string' ? note.trim().slice(0, MAX_NOTE_LENGTH) : '';
+  if (action === 'request_changes' && !noteText) {
+    throw new TemplateReviewError('Describe the changes you need');
+  }
+
+  const now = new Date();
+  await prisma.espTemplate.update({
+    where: { id: templateId },
+    data: {
+      reviewStatus: transition.to,
+      ...(action === 'submit' && {
+        reviewRequestedAt: now,
+        reviewRequestedByUserId: viewer.userId,
+        reviewedAt: null,
+        reviewedByUserId: null,
+        approvedHtmlHash: null,
+      }),
+      ...((action === 'approve' || action === 'request_changes') && {
+        reviewedAt: now,
+        reviewedByUserId: viewer.userId,
+        approvedHtmlHash: action === 'approve' ? hashApprovalContent(template) : null,
+      }),
+    },
+  });
+
+  // Decisions with a note leave it on the template's general thread.
+  if (noteText) {
+    await prisma.espTemplateComment.create({
+      data: {
+        templateId,
+        body: noteText,
+        authorUserId: viewer.userId,
+        authorName: viewer.name,
+      },
+    });
+  }
+
+  await recordAuditEvent({
+    action: transition.audit,
+    targetType: 'template',
+    targetId: template.id,
+    targetLabel: template.name,
+    accountKey: template.accountKey,
+    actor: viewer.actor,
+    changes: { reviewStatus: { before: status, after: transition.to } },
+    ...(noteText ? { metadata: { note: noteText } } : {}),
+  });
+
+  const dealer = await accountName(template.accountKey);
+  if (action === 'submit') {
+    await notifyUsers(await reviewAudience(template), viewer.userId, {
+      type: 'template_review_requested',
+      title: `Review requested: "${template.name}"`,
+      body: `${dealer} · approve or request changes before it is published.`,
+      templateId: template.id,
+      accountKey: template.accountKey,
+    });
+  } else if (action === 'withdraw') {
+    await notifyUsers(await reviewAudience(template), viewer.userId, {
+      type: 'template_review_updated',
+      title: `Review withdrawn: "${template.name}"`,
+      body: `${dealer} · no action is needed for now.`,
+      templateId: template.id,
+      accountKey: template.accountKey,
+    });
+  } else {
+    const approved = action === 'approve';
+    await notifyUsers(
+      [template.reviewRequestedByUserId ?? '', ...parseStringArray(template.reviewerUserIds)],
+      viewer.userId,
+      {
+        type: 'template_review_updated',
+        severity: approved ? 'info' : 'warning',
+        title: `${approved ? 'Approved' : 'Changes requested'}: "${template.name}"`,
+        body: noteText ? `${dealer} · ${noteText}` : `${dealer} · ${approved ? 'ready to publish.' : 'open the review for details.'}`,
+        templateId: template.id,
+        accountKey: template.accountKey,
+      },
+    );
+  }
+
+  return getTemplateReview(templateId, viewer);
+}
+
+export async function addTemplateComment(
+  templateId: string,
+  input: { body: unknown; componentIndex?: unknown; componentType?: unknown; parentId?: unknown },
+  viewer: TemplateReviewViewer,
+): Promise<TemplateCommentSummary> {
+  const template = await loadTemplateForViewer(templateId, viewer);
+  const body = typeof input.body === 'string' ? input.body.trim() : '';
+  if (!body) throw new TemplateReviewError('Comment cannot be empty');
+  if (body.length > MAX_COMMENT_LENGTH) {
+    throw new TemplateReviewError(`Comment must be ${MAX_COMMENT_LENGTH} characters or fewer`);
+  }
+
+  let parentId: string | null = null;
+  let componentIndex: number | null = null;
+  let componentType: string | null = null;
+  if (typeof input.parentId === 'string' && input.parentId) {
+    const parent = await prisma.espTemplateComment.findUnique({ where: { id: input.parentId } });
+    if (!parent || parent.templateId !== templateId) throw new TemplateReviewError('Thread not found', 404);
+    // Replies always hang off the thread root and inherit its anchor.
+    parentId = parent.parentId ?? parent.id;
+    componentIndex = parent.componentIndex;
+    componentType = parent.componentType;
+  } else if (input.componentIndex !== undefined && input.componentIndex !== null) {
+    const index = Number(input.componentIndex);
+    if (!Number.isInteger(index) || index < 0) throw new TemplateReviewError('componentIndex must be a non-negative integer');
+    componentIndex = index;
+    componentType = typeof input.componentType === 'string' ? input.componentType.slice(0, 60) : null;
+  }
+
+  const comment = await prisma.espTemplateComment.create({
+    data: {
+      templateId,
+      parentId,
+      componentIndex,
+      componentType,
+      body,
+      authorUserId: viewer.userId,
+      authorName: viewer.name,
+    },
+  });
+
+  const threadAuthors = parentId
+    ? (await prisma.espTemplateComment.findMany({
+      where: { OR: [{ id: parentId }, { parentId }] },
+      select: { authorUserId: true },
+    })).map((row) => row.authorUserId ?? '')
+    : [];
+  await notifyUsers(
+    [template.reviewRequestedByUserId ?? '', ...parseStringArray(template.reviewerUserIds), ...threadAuthors],
+    viewer.userId,
+    {
+      type: 'template_review_comment',
+      title: `${viewer.name || 'Someone'} commented on "${template.name}"`,
+      body: body.length > 140 ? `${body.slice(0, 140)}…` : body,
+      templateId: template.id,
+      accountKey: template.accountKey,
+    },
+  );
+
+  return toCommentSummary(comment);
+}
+
+export async function setTemplateCommentResolved(
+  templateId: string,
+  commentId: string,
+  resolved: boolean,
+  viewer: TemplateReviewViewer,
+): Promise<TemplateCommentSummary> {
+  await loadTemplateForViewer(templateId, viewer);
+  const comment = await prisma.espTemplateComment.findUnique({ where: { id: commentId } });
+  if (!comment || comment.templateId !== templateId) throw new TemplateReviewError('Comment not found', 404);
+  if (comment.parentId) throw new TemplateReviewError('Only threads can be resolved');
+
+  const updated = await prisma.espTemplateComment.update({
+    where: { id: commentId },
+    data: resolved
+      ? { resolvedAt: new Date(), resolvedByUserId: viewer.userId }
+      : { resolvedAt: null, resolvedByUserId: null },
+  });
+  return toCommentSummary(updated);
+}
+
+/** Whether a template's approval covers `content` — what is about to be pushed to a provider. */
+export function isApprovedForPublish(
+  template: { reviewStatus: string; approvedHtmlHash: string | null },
+  content: ApprovalContent,
+): boolean {
+  return PUBLISHABLE_REVIEW_STATUSES.includes(normalizeTemplateReviewStatus(template.reviewStatus))
+    && template.approvedHtmlHash === hashApprovalContent(content);
+}
+
+export type PublishApprovalResult =
+  | { allowed: true; overridden: false }
+  | { allowed: true; overridden: true; overrideReason: string }
+  | { allowed: false; status: TemplateReviewStatus; error: string };
+
+/**
+ * Gate for anything that pushes a template to a provider. Publishing needs an
+ * approval that covers the current content; elevated roles may override with
+ * a reason. Nothing is recorded here — the caller audits the override with
+ * the publish, once the push has actually run.
+ */
+export async function checkPublishApproval(
+  templateId: string,
+  viewer: TemplateReviewViewer,
+  override?: { reason: unknown } | null,
+): Promise<PublishApprovalResult> {
+  const template = await loadTemplateForViewer(templateId, viewer);
+  const status = normalizeTemplateReviewStatus(template.reviewStatus);
+  if (isApprovedForPublish(template, template)) {
+    return { allowed: true, overridden: false };
+  }
+
+  if (override) {
+    if (!isElevated(viewer)) {
+      return { allowed: false, status, error: 'Only developers and super admins can override approval' };
+    }
+    const reason = typeof override.reason === 'string' ? override.reason.trim().slice(0, MAX_OVERRIDE_REASON_LENGTH) : '';
+    if (!reason) return { allowed: false, status, error: 'An override reason is required' };
+    return { allowed: true, overridden: true, overrideReason: reason };
+  }
+
+  return {
+    allowed: false,
+    status,
+    error: status === 'approved' || status === 'published'
+      ? 'Template changed after it was approved — submit it for review again before publishing'
+      : `Template must be approved before publishing (currently ${TEMPLATE_REVIEW_STATUS_LABELS[status].toLowerCase()})`,
+  };
+}
+
+/** Record a successful publish. An override publish also stamps the approval so re-syncs go through. */
+export async function markTemplatePublished(templateId: string, viewer: TemplateReviewViewer): Promise<void> {
+  const template = await prisma.espTemplate.findUnique({ where: { id: templateId }, select: REVIEW_TEMPLATE_SELECT });
+  if (!template) return;
+  const status = normalizeTemplateReviewStatus(template.reviewStatus);
+
+  await prisma.espTemplate.update({
+    where: { id: templateId },
+    data: { reviewStatus: 'published', approvedHtmlHash: hashApprovalContent(template) },
+  });
+  if (status === 'published') return;
+
+  await notifyUsers(
+    [template.reviewRequestedByUserId ?? '', ...parseStringArray(template.reviewerUserIds)],
+    viewer.userId,
+    {
+      type: 'template_review_updated',
+      title: `Published: "${template.name}"`,
+      body: `${await accountName(template.accountKey)} · the approved template is live on the ESP.`,
+      templateId: template.id,
+      accountKey: template.accountKey,
+    },
+  );
+}
+
+/**
+ * Call after a template's subject, preview text or HTML is updated. An
+ * approval only covers the content it was given for, so an edited
+ * approved/published template drops back to draft.
+ */
+export async function resetReviewAfterEdit(templateId: string, viewer: TemplateReviewViewer): Promise<void> {
+  const template = await prisma.espTemplate.findUnique({ where: { id: templateId }, select: REVIEW_TEMPLATE_SELECT });
+  if (!template) return;
+  const status = normalizeTemplateReviewStatus(template.reviewStatus);
+  if (!PUBLISHABLE_REVIEW_STATUSES.includes(status)) return;
+  if (template.approvedHtmlHash === hashApprovalContent(template)) return;
+
+  await prisma.espTemplate.update({
+    where: { id: templateId },
+    data: { reviewStatus: 'draft', approvedHtmlHash: null },
+  });
+
+  await recordAuditEvent({
+    action: 'template.review.reopen',
+    targetType: 'template',
+    targetId: template.id,
+    targetLabel: template.name,
+    accountKey: template.accountKey,
+    actor: viewer.actor,
+    changes: { reviewStatus: { before: status, after: 'draft' } },
+  });
+
+  await notifyUsers(
+    [template.reviewRequestedByUserId ?? '', ...parseStringArray(template.reviewerUserIds)],
+    viewer.userId,
+    {
+      type: 'template_review_updated',
+      severity: 'warning',
+      title: `Edited after approval: "${template.name}"`,
+      body: `${await accountName(template.accountKey)} · it needs another review before it can be published.`,
+      templateId: template.id,
+      accountKey: template.accountKey,
+    },
+  );
+}
@@ -1,6 +1,38 @@
 import { prisma } from '@/lib/prisma';
+import { recordAuditEvent, type AuditActor } from '@/lib/services/audit-log';
 
-const MAX_VERSIONS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * History is unlimited, but old snapshots are thinned so a template edited
+ * hundreds of times doesn't grow without bound:
+ *   - everything from the last 30 days is kept
+ *   - 30–180 days old: the last snapshot of each day
+ *   - older than 180 days: the last snapshot of each week
+ * Named releases and restore entries are always kept. If unlabeled history
+ * still exceeds the storage budget, the oldest compactable snapshots go first.
+ */
+const KEEP_ALL_DAYS = 30;
+const DAILY_UNTIL_DAYS = 180;
+const STORAGE_BUDGET_BYTES = 25 * 1024 * 1024;
+const MAX_RELEASE_LABEL_LENGTH = 80;
+const MAX_RELEASE_NOTE_LENGTH = 500;
+
+export class TemplateVersionInputError extends Error {}
+
+const VERSION_LIST_SELECT = {
+  id: true,
+  size: true,
+  source: true,
+  restoredFromVersionId: true,
+  releaseLabel: true,
+  releaseNote: true,
+  labeledAt: true,
+  createdAt: true,
+  createdByUser: {
+    select: { id: true, name: true, avatarUrl: true },
+  },
+} as const;
 
 export async function createVersion(templateId: string, content: string, userId?: string) {
   // Check if latest version has the same content (skip duplicate snapshots)
@@ -10,43 +42,81 @@ export async function createVersion(templateId: string, content: string, userId?
   });
   if (latest && latest.content === content) return latest;
 
-  // Create the new version
   const version = await prisma.templateVersion.create({
     data: {
       templateId,
       content,
+      size: Buffer.byteLength(content, 'utf8'),
       createdByUserId: userId || null,
     },
   });
 
-  // Prune old versions beyond the limit
-  const allVersions = await prisma.templateVersion.findMany({
+  await compactVersions(templateId);
+
+  return version;
+}
+
+function bucketKey(createdAt: Date, now: number): string | null {
+  const age = now - createdAt.getTime();
+  if (age < KEEP_ALL_DAYS * DAY_MS) return null;
+  const day = Math.floor(createdAt.getTime() / DAY_MS);
+  if (age < DAILY_UNTIL_DAYS * DAY_MS) return `d${day}`;
+  // Day 0 (1970-01-01) was a Thursday; shift so weeks start on Monday.
+  return `w${Math.floor((day + 3) / 7)}`;
+}
+
+/** Thin old snapshots for one template. Returns the number of versions deleted. */
+export async function compactVersions(templateId: string): Promise<number> {
+  const versions = await prisma.templateVersion.findMany({
     where: { templateId },
     orderBy: { createdAt: 'desc' },
-    select: { id: true },
+    select: { id: true, size: true, source: true, releaseLabel: true, createdAt: true },
   });
 
-  if (allVersions.length > MAX_VERSIONS) {
-    const toDelete = allVersions.slice(MAX_VERSIONS).map((v) => v.id);
-    await prisma.templateVersion.deleteMany({
-      where: { id: { in: toDelete } },
-    });
+  const now = Date.now();
+  const seenBuckets = new Set<string>();
+  const toDelete = new Set<string>();
+  const compactable: Array<{ id: string; size: number }> = [];
+  let retainedBytes = 0;
+
+  for (const version of versions) {
+    const pinned = Boolean(version.releaseLabel) || version.source === 'restore';
+    const bucket = bucketKey(version.createdAt, now);
+    if (!pinned && bucket) {
+      // Newest-first, so the first snapshot seen in a bucket is the one kept.
+      if (seenBuckets.has(bucket)) {
+        toDelete.add(version.id);
+        continue;
+      }
+      seenBuckets.add(bucket);
+    }
+    if (!pinned) {
+      retainedBytes += version.size;
+      if (bucket) compactable.push({ id: version.id, size: version.size });
+    }
   }
 
-  return version;
+  // Over budget: drop the oldest thinned snapshots until unlabeled history fits.
+  for (let i = compactable.length - 1; i >= 0 && retainedBytes > STORAGE_BUDGET_BYTES; i -= 1) {
+    toDelete.add(compactable[i].id);
+    retainedBytes -= compactable[i].size;
+  }
+
+  if (toDelete.size === 0) return 0;
+  const result = await prisma.templateVersion.deleteMany({
+    where: { id: { in: [...toDelete] } },
+  });
+  return result.count;
 }
 
-export async function getVersions(templateId: string) {
+export async function getVersions(templateId: string, options?: { releasesOnly?: boolean }) {
   return prisma.templateVersion.findMany({
-    where: { templateId },
-    orderBy: { createdAt: 'desc' },
-    select: {
-      id: true,
-      createdAt: true,
-      createdByUser: {
-        select: { id: true, name: true, avatarUrl: true },
-      },
+    where: {
+      templateId,
+      ...(options?.releasesOnly ? { releaseLabel: { not: null } } : {}),
     },
+    orderBy: { createdAt: 'desc' },
+    select: VERSION_LIST_SELECT,
   });
 }
 
@@ -54,13 +124,59 @@ export async function getVersion(versionId: string) {
   return prisma.templateVersion.findUnique({ where: { id: versionId } });
 }
 
-export async function restoreVersion(templateId: string, versionId: string, userId?: string) {
+/** Name a version as a release, or clear its label with an empty `label`. */
+export async function labelVersion(
+  templateId: string,
+  versionId: string,
+  input: { label: unknown; note?: unknown },
+  actor?: AuditActor | null,
+) {
+  const label = typeof input.label === 'string' ? input.label.trim() : '';
+  const note = typeof input.note === 'string' ? input.note.trim() : '';
+  if (label.length > MAX_RELEASE_LABEL_LENGTH) {
+    throw new TemplateVersionInputError(`label must be ${MAX_RELEASE_LABEL_LENGTH} characters or fewer`);
+  }
+  if (note.length > MAX_RELEASE_NOTE_LENGTH) {
+    throw new TemplateVersionInputError(`note must be ${MAX_RELEASE_NOTE_LENGTH} characters or fewer`);
+  }
+
+  const version = await prisma.templateVersion.findUnique({
+    where: { id: versionId },
+    select: { templateId: true, releaseLabel: true, template: { select: { title: true } } },
+  });
+  if (!version) throw new Error('Version not found');
+  if (version.templateId !== templateId) throw new Error('Version does not belong to template');
+
+  const updated = await prisma.templateVersion.update({
+    where: { id: versionId },
+    data: label
+      ? { releaseLabel: label, releaseNote: note || null, labeledByUserId: actor?.userId || null, labeledAt: new Date() }
+      : { releaseLabel: null, releaseNote: null, labeledByUserId: null, labeledAt: null },
+    select: VERSION_LIST_SELECT,
+  });
+
+  await recordAuditEvent({
+    action: 'template.version.label',
+    targetType: 'template',
+    targetId: templateId,
+    targetLabel: version.template.title,
+    actor,
+    changes: { releaseLabel: { before: version.releaseLabel, after: label || null } },
+    metadata: { versionId },
+  });
+
+  return updated;
+}
+
+export async function restoreVersion(templateId: string, versionId: string, actor?: AuditActor | null) {
   const version = await prisma.templateVersion.findUnique({
     where: { id: versionId },
   });
   if (!version) throw new Error('Version not found');
   if (version.templateId !== templateId) throw new Error('Version does not belong to template');
 
+  const userId = actor?.userId || undefined;
+
   // Snapshot current content before restoring
   const current = await prisma.template.findUnique({ where: { id: templateId } });
   if (current) {
@@ -68,7 +184,7 @@ export async function restoreVersion(templateId: string, versionId: string, user
   }
 
   // Update template with the restored version's content
-  return prisma.template.update({
+  const restored = await prisma.template.update({
     where: { id: templateId },
     data: {
       content: version.content,
@@ -76,4 +192,31 @@ export async function restoreVersion(templateId: string, versionId: string, user
       updatedAt: new Date(),
     },
   });
+
+  // A pinned history entry records who restored which version, and when.
+  await prisma.templateVersion.create({
+    data: {
+      templateId,
+      content: version.content,
+      size: version.size || Buffer.byteLength(version.content, 'utf8'),
+      source: 'restore',
+      restoredFromVersionId: version.id,
+      createdByUserId: userId || null,
+    },
+  });
+
+  await recordAuditEvent({
+    action: 'template.version.restore',
+    targetType: 'template',
+    targetId: templateId,
+    targetLabel: restored.title,
+    actor,
+    metadata: {
+      versionId: version.id,
+      versionCreatedAt: version.createdAt.toISOString(),
+      releaseLabel: version.releaseLabel,
+    },
+  });
+
+  return restored;
 }
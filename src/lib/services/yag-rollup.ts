@@ -11,6 +11,9 @@ import {
 import { resolveAdapterAndCredentials, isResolveError } from '@/lib/esp/route-helpers';
 import { withConcurrencyLimit } from '@/lib/esp/utils';
 import { GHL_BASE, API_VERSION } from '@/lib/esp/adapters/ghl/constants';
+import { buildContactCustomFields } from '@/lib/esp/adapters/ghl/contact-write';
+import { findActiveJob } from '@/lib/jobs/queue';
+import type { JobStatus } from '@/lib/jobs/types';
 import '@/lib/esp/init';
 
 const DEFAULT_YAG_ROLLUP_JOB_KEY = 'yag-rollup';
@@ -57,7 +60,6 @@ export interface YagRollupConfigPayload {
   lastSyncedAt: string | null;
   lastSyncStatus: string | null;
   lastSyncSummary: Record<string, unknown> | null;
-  currentRunStartedAt: string | null;
 }
 
 export interface YagRollupConfigSnapshot {
@@ -66,6 +68,8 @@ export interface YagRollupConfigSnapshot {
   sourceOptions: YagRollupAccountOption[];
   accountOptions: YagRollupAccountOption[];
   isDefaultConfig: boolean;
+  /** Queued or running sync/wipe job for this rollup job, from the job queue. */
+  activeRun: { kind: string; status: JobStatus; startedAt: string } | null;
 }
 
 export interface YagRollupConfigHistoryEntry {
@@ -288,6 +292,14 @@ export function normalizeYagRollupJobKeyForRoute(dbKey: string): string {
   return raw === LEGACY_YAG_ROLLUP_JOB_KEY ? DEFAULT_YAG_ROLLUP_JOB_KEY : raw;
 }
 
+/**
+ * Job queue dedupe key shared by sync and wipe runs, so at most one of them
+ * is queued or running per rollup job.
+ */
+export function yagRollupJobDedupeKey(jobKey: string | null | undefined): string {
+  return `yag-rollup:${normalizeYagRollupJobKey(jobKey)}`;
+}
+
 export function isValidYagRollupJobKey(jobKey: string): boolean {
   return /^[a-z0-9][a-z0-9-]{1,47}$/.test(jobKey);
 }
@@ -464,7 +476,6 @@ function toYagRollupConfigPayload(row: {
   lastSyncedAt: Date | null;
   lastSyncStatus: string | null;
   lastSyncSummary: string | null;
-  currentRunStartedAt: Date | null;
 }): YagRollupConfigPayload {
   return {
     targetAccountKey: row.targetAccountKey,
@@ -483,7 +494,6 @@ function toYagRollupConfigPayload(row: {
     lastSyncedAt: toIsoOrNull(row.lastSyncedAt),
     lastSyncStatus: row.lastSyncStatus || null,
     lastSyncSummary: parseJsonObject(row.lastSyncSummary),
-    currentRunStartedAt: toIsoOrNull(row.currentRunStartedAt),
   };
 }
 
@@ -527,7 +537,6 @@ function buildDefaultConfig(
     lastSyncedAt: null,
     lastSyncStatus: null,
     lastSyncSummary: null,
-    currentRunStartedAt: null,
   };
 }
 
@@ -550,8 +559,7 @@ function hydrateSavedConfig(
     lastSyncedAt: Date | null;
     lastSyncStatus: string | null;
     lastSyncSummary: string | null;
-    currentRunStartedAt: Date | null;
-  },
+    },
 ): YagRollupConfigPayload {
   const allowed = new Set(accountOptions.map((account) => account.key));
   const dealerByKey = new Map(accountOptions.map((account) => [account.key, account.dealer]));
@@ -598,7 +606,6 @@ function hydrateSavedConfig(
     lastSyncedAt: toIsoOrNull(row.lastSyncedAt),
     lastSyncStatus: row.lastSyncStatus || null,
     lastSyncSummary: parseJsonObject(row.lastSyncSummary),
-    currentRunStartedAt: toIsoOrNull(row.currentRunStartedAt),
   };
 }
 
@@ -680,9 +687,12 @@ export async function getYagRollupConfigSnapshot(
   );
 
   const defaultConfig = buildDefaultConfig(accountOptions);
-  const saved = await prisma.yagRollupConfig.findUnique({
-    where: { singletonKey: configSingletonKey },
-  });
+  const [saved, activeJob] = await Promise.all([
+    prisma.yagRollupConfig.findUnique({
+      where: { singletonKey: configSingletonKey },
+    }),
+    findActiveJob(yagRollupJobDedupeKey(jobKey)),
+  ]);
 
   const config = saved
     ? hydrateSavedConfig(accountOptions, saved)
@@ -709,6 +719,9 @@ export async function getYagRollupConfigSnapshot(
     sourceOptions,
     accountOptions,
     isDefaultConfig: !saved,
+    activeRun: activeJob
+      ? { kind: activeJob.kind, status: activeJob.status, startedAt: activeJob.startedAt || activeJob.createdAt }
+      : null,
   };
 }
 
@@ -1260,26 +1273,6 @@ function stripEmpty<T extends Record<string, unknown>>(value: T): T {
   return out as T;
 }
 
-function buildContactCustomFields(
-  contact: { vehicleYear?: string; vehicleMake?: string; vehicleModel?: string; vehicleVin?: string; vehicleMileage?: string; lastServiceDate?: string; nextServiceDate?: string; leaseEndDate?: string; warrantyEndDate?: string; purchaseDate?: string },
-): { key: string; field_value: string }[] {
-  const fields: { key: string; field_value: string }[] = [];
-  const add = (key: string, value: string | undefined) => {
-    if (value) fields.push({ key, field_value: value });
-  };
-  add('vehicle_year', contact.vehicleYear);
-  add('vehicle_make', contact.vehicleMake);
-  add('vehicle_model', contact.vehicleModel);
-  add('vehicle_vin', contact.vehicleVin);
-  add('vehicle_mileage', contact.vehicleMileage);
-  add('last_service_date', contact.lastServiceDate);
-  add('next_service_date', contact.nextServiceDate);
-  add('lease_end_date', contact.leaseEndDate);
-  add('warranty_end_date', contact.warrantyEndDate);
-  add('purchase_date', contact.purchaseDate);
-  return fields;
-}
-
 function mergeCustomFields(
   existing: { key: string; field_value: string }[],
   incoming: { key: string; field_value: string }[],
@@ -1487,41 +1480,6 @@ async function deleteGhlContact(params: {
   throw new Error(lastError);
 }
 
-const STALE_RUN_THRESHOLD_MS = 2 * 60 * 60 * 1000; // 2 hours
-
-async function markRunStarted(jobKey?: string): Promise<void> {
-  const key = normalizeYagRollupJobKey(jobKey);
-  await prisma.yagRollupConfig.updateMany({
-    where: { singletonKey: key },
-    data: { currentRunStartedAt: new Date() },
-  });
-}
-
-async function clearRunStarted(jobKey?: string): Promise<void> {
-  const key = normalizeYagRollupJobKey(jobKey);
-  await prisma.yagRollupConfig.updateMany({
-    where: { singletonKey: key },
-    data: { currentRunStartedAt: null },
-  });
-}
-
-export async function clearStaleRunLock(jobKey?: string): Promise<void> {
-  const key = normalizeYagRollupJobKey(jobKey);
-  const config = await prisma.yagRollupConfig.findUnique({
-    where: { singletonKey: key },
-    select: { currentRunStartedAt: true },
-  });
-  if (!config?.currentRunStartedAt) return;
-  const ageMs = Date.now() - config.currentRunStartedAt.getTime();
-  if (ageMs < STALE_RUN_THRESHOLD_MS) {
-    throw new Error('Cannot clear lock: a sync is actively running (started less than 2 hours ago)');
-  }
-  await prisma.yagRollupConfig.update({
-    where: { singletonKey: key },
-    data: { currentRunStartedAt: null },
-  });
-}
-
 async function persistSyncMetadata(
   config: YagRollupConfigPayload,
   status: 'ok' | 'disabled' | 'failed',
@@ -1547,7 +1505,6 @@ async function persistSyncMetadata(
       lastSyncedAt: new Date(),
       lastSyncStatus: status,
       lastSyncSummary: JSON.stringify(summary),
-      currentRunStartedAt: null,
     },
     update: {
       targetAccountKey: config.targetAccountKey,
@@ -1564,7 +1521,6 @@ async function persistSyncMetadata(
       lastSyncedAt: new Date(),
       lastSyncStatus: status,
       lastSyncSummary: JSON.stringify(summary),
-      currentRunStartedAt: null,
     },
   });
 }
@@ -1716,10 +1672,6 @@ export async function runYagRollupWipe(
     });
   }
 
-  await markRunStarted(options.jobKey);
-
-  try {
-
   const target = await resolveAdapterAndCredentials(targetAccountKey, {
     requireCapability: 'contacts',
   });
@@ -1837,12 +1789,6 @@ export async function runYagRollupWipe(
     },
     errors,
   });
-
-  } finally {
-    await clearRunStarted(options.jobKey).catch(() => {
-      // Best-effort — stale-run detection handles failures.
-    });
-  }
 }
 
 export async function runYagRollupSync(
@@ -1991,12 +1937,6 @@ export async function runYagRollupSync(
     fullSync = scheduledMode === 'full';
   }
 
-  // Mark this job as running — after schedule-skip and disabled checks so
-  // we only set the flag when real work will be performed.
-  await markRunStarted(options.jobKey);
-
-  try {
-
   if (!config.targetAccountKey) {
     const finishedAt = new Date();
     const result: RunYagRollupSyncResult = {
@@ -2181,10 +2121,4 @@ export async function runYagRollupSync(
   options.onProgress?.({ phase: 'done' });
 
   return output;
-
-  } finally {
-    await clearRunStarted(options.jobKey).catch(() => {
-      // Best-effort — stale-run detection handles failures.
-    });
-  }
 }
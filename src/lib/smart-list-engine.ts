@@ -1,28 +1,32 @@
 import type { FilterDefinition, FilterCondition, FilterGroup } from './smart-list-types';
-import type { Contact } from '@/components/contacts/contacts-table';
 
 /**
  * Evaluate a FilterDefinition against a list of contacts.
- * All filtering is client-side against already-fetched data.
+ * Runs in the browser against already-fetched contacts and on the server
+ * against the contact index, so both sides agree on what matches.
  */
-export function evaluateFilter(
-  contacts: Contact[],
+export function evaluateFilter<T extends object>(
+  contacts: T[],
   definition: FilterDefinition,
-): Contact[] {
+): T[] {
   if (!definition.groups.length) return contacts;
+  return contacts.filter((contact) => matchesFilter(contact, definition));
+}
+
+/** Whether a single contact satisfies the definition. */
+export function matchesFilter(contact: object, definition: FilterDefinition): boolean {
+  if (!definition.groups.length) return true;
 
-  return contacts.filter((contact) => {
-    const groupResults = definition.groups.map((group) =>
-      evaluateGroup(contact, group),
-    );
+  const groupResults = definition.groups.map((group) =>
+    evaluateGroup(contact, group),
+  );
 
-    return definition.logic === 'AND'
-      ? groupResults.every(Boolean)
-      : groupResults.some(Boolean);
-  });
+  return definition.logic === 'AND'
+    ? groupResults.every(Boolean)
+    : groupResults.some(Boolean);
 }
 
-function evaluateGroup(contact: Contact, group: FilterGroup): boolean {
+function evaluateGroup(contact: object, group: FilterGroup): boolean {
   if (!group.conditions.length) return true;
 
   const results = group.conditions.map((condition) =>
@@ -34,7 +38,7 @@ function evaluateGroup(contact: Contact, group: FilterGroup): boolean {
     : results.some(Boolean);
 }
 
-function evaluateCondition(contact: Contact, condition: FilterCondition): boolean {
+function evaluateCondition(contact: object, condition: FilterCondition): boolean {
   const { field, operator, value, value2 } = condition;
 
   // Get the raw field value from the contact
@@ -85,6 +85,24 @@ export interface FilterDefinition {
   groups: FilterGroup[];
 }
 
+/** Matches every contact; sends pass it to target everyone on purpose. */
+export const MATCH_ALL_FILTER: FilterDefinition = { version: 1, logic: 'AND', groups: [] };
+
+/** Parse a stored or posted filter definition (object or JSON string); null when malformed. */
+export function parseFilterDefinition(raw: unknown): FilterDefinition | null {
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  const definition = value as FilterDefinition | null;
+  if (!definition || definition.version !== 1 || !Array.isArray(definition.groups)) return null;
+  return definition;
+}
+
 // ── Preset Filter (code constant, not DB record) ──
 
 export interface PresetFilter {
@@ -0,0 +1,162 @@
+// ── SMS Send Policy ──
+// Per-account quiet hours and throughput for outbound SMS, stored as JSON in
+// Account.smsSendPolicy and evaluated in the account's timezone.
+
+export interface SmsSendWindow {
+  /** Local weekdays the window applies to (0 = Sunday … 6 = Saturday). */
+  days: number[];
+  /** Local wall-clock start, "HH:MM" (inclusive). */
+  start: string;
+  /** Local wall-clock end, "HH:MM" (exclusive). */
+  end: string;
+}
+
+export interface SmsSendPolicy {
+  windows: SmsSendWindow[];
+  messagesPerMinute: number;
+}
+
+/** TCPA-safe default: 9am–8pm local, every day. */
+export const DEFAULT_SMS_SEND_POLICY: SmsSendPolicy = {
+  windows: [{ days: [0, 1, 2, 3, 4, 5, 6], start: '09:00', end: '20:00' }],
+  messagesPerMinute: 60,
+};
+
+/** Used when an account has no timezone on file. */
+export const DEFAULT_SMS_TIMEZONE = 'America/New_York';
+
+export const MAX_SMS_MESSAGES_PER_MINUTE = 600;
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+function parseClock(value: unknown): number | null {
+  const match = typeof value === 'string' ? value.trim().match(/^(\d{1,2}):(\d{2})$/) : null;
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+}
+
+function formatClock(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Validate an untrusted policy. Invalid windows are dropped; a policy with no
+ * valid windows falls back to the default windows.
+ */
+export function normalizeSmsSendPolicy(raw: unknown): SmsSendPolicy {
+  const source = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw as Record<string, unknown> : {};
+
+  const windows: SmsSendWindow[] = [];
+  for (const entry of Array.isArray(source.windows) ? source.windows : []) {
+    if (!entry || typeof entry !== 'object') continue;
+    const window = entry as Record<string, unknown>;
+    const start = parseClock(window.start);
+    const end = parseClock(window.end);
+    if (start === null || end === null || end <= start) continue;
+    const days = Array.isArray(window.days)
+      ? [...new Set(window.days.map(Number).filter((day) => Number.isInteger(day) && day >= 0 && day <= 6))]
+      : [];
+    if (days.length === 0) continue;
+    windows.push({ days: days.sort(), start: formatClock(start), end: formatClock(end) });
+  }
+
+  const rate = Number(source.messagesPerMinute);
+  const messagesPerMinute = Number.isFinite(rate) && rate >= 1
+    ? Math.min(MAX_SMS_MESSAGES_PER_MINUTE, Math.floor(rate))
+    : DEFAULT_SMS_SEND_POLICY.messagesPerMinute;
+
+  return {
+    windows: windows.length > 0 ? windows : DEFAULT_SMS_SEND_POLICY.windows,
+    messagesPerMinute,
+  };
+}
+
+export function parseSmsSendPolicy(raw: string | null | undefined): SmsSendPolicy {
+  if (!raw) return DEFAULT_SMS_SEND_POLICY;
+  try {
+    return normalizeSmsSendPolicy(JSON.parse(raw));
+  } catch {
+    return DEFAULT_SMS_SEND_POLICY;
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function localWeekdayAndMinute(date: Date, timeZone: string): { weekday: number; minute: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((part) => part.type === type)?.value || '';
+  return {
+    weekday: WEEKDAY_INDEX[get('weekday')] ?? 0,
+    minute: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+export function isWithinSmsSendWindow(policy: SmsSendPolicy, timeZone: string, at: Date): boolean {
+  const { weekday, minute } = localWeekdayAndMinute(at, timeZone);
+  return policy.windows.some((window) => {
+    if (!window.days.includes(weekday)) return false;
+    const start = parseClock(window.start) ?? 0;
+    const end = parseClock(window.end) ?? 0;
+    return minute >= start && minute < end;
+  });
+}
+
+/**
+ * Earliest instant at or after `from` that falls inside a send window, to the
+ * minute. Candidates are the policy's own window starts over the coming week,
+ * so windows of any length are found. Null when the policy never allows
+ * sending.
+ */
+export function nextSmsSendWindowStart(policy: SmsSendPolicy, timeZone: string, from: Date): Date | null {
+  if (isWithinSmsSendWindow(policy, timeZone, from)) return from;
+
+  const origin = Math.floor(from.getTime() / 60_000) * 60_000;
+  const now = localWeekdayAndMinute(from, timeZone);
+  const nowInWeek = now.weekday * MINUTES_PER_DAY + now.minute;
+
+  // Minutes from `from` (local wall clock) to each window start in the next week.
+  const offsets: number[] = [];
+  for (const window of policy.windows) {
+    const start = parseClock(window.start);
+    if (start === null) continue;
+    for (const day of window.days) {
+      let offset = day * MINUTES_PER_DAY + start - nowInWeek;
+      if (offset <= 0) offset += MINUTES_PER_WEEK;
+      offsets.push(offset);
+    }
+  }
+
+  for (const offset of [...new Set(offsets)].sort((a, b) => a - b)) {
+    const target = (nowInWeek + offset) % MINUTES_PER_WEEK;
+    let opensAt = origin + offset * 60_000;
+    // A DST change in between shifts wall-clock time against UTC; land on the
+    // local start minute itself.
+    const local = localWeekdayAndMinute(new Date(opensAt), timeZone);
+    let drift = target - (local.weekday * MINUTES_PER_DAY + local.minute);
+    if (drift > MINUTES_PER_WEEK / 2) drift -= MINUTES_PER_WEEK;
+    if (drift < -MINUTES_PER_WEEK / 2) drift += MINUTES_PER_WEEK;
+    opensAt += drift * 60_000;
+    if (opensAt > from.getTime() && isWithinSmsSendWindow(policy, timeZone, new Date(opensAt))) {
+      return new Date(opensAt);
+    }
+  }
+  return null;
+}
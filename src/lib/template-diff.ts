@@ -0,0 +1,184 @@
+import { parseTemplate, type ParsedComponent, type ParsedTemplate } from './template-parser';
+
+/**
+ * Structural diff between two template sources, at the level the visual
+ * editor works in: frontmatter, `<x-base>` props and the component list.
+ */
+
+export interface PropChange {
+  key: string;
+  before: string | null;
+  after: string | null;
+}
+
+export type ComponentDiffKind = 'unchanged' | 'added' | 'removed' | 'moved' | 'modified';
+
+export interface ComponentDiffEntry {
+  kind: ComponentDiffKind;
+  type: string;
+  /** Position in the older source, null for added components. */
+  beforeIndex: number | null;
+  /** Position in the newer source, null for removed components. */
+  afterIndex: number | null;
+  propChanges: PropChange[];
+  contentChanged: boolean;
+}
+
+export interface TemplateDiff {
+  frontmatter: PropChange[];
+  baseProps: PropChange[];
+  /** In the newer source's order, with removed components at their old position. */
+  components: ComponentDiffEntry[];
+  counts: Record<ComponentDiffKind, number>;
+}
+
+function stringifyValue(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function diffRecords(before: Record<string, unknown>, after: Record<string, unknown>): PropChange[] {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  const changes: PropChange[] = [];
+  for (const key of keys) {
+    const previous = stringifyValue(before[key]);
+    const next = stringifyValue(after[key]);
+    if (previous !== next) changes.push({ key, before: previous, after: next });
+  }
+  return changes;
+}
+
+function componentSignature(component: ParsedComponent): string {
+  const props = Object.keys(component.props)
+    .sort()
+    .map((key) => [key, component.props[key]]);
+  return `${component.type}\u0000${JSON.stringify(props)}\u0000${component.content ?? ''}`;
+}
+
+/** Index pairs of the longest common subsequence of `a` and `b` under `keyOf`. */
+function longestCommonSubsequence<T>(a: T[], b: T[], keyOf: (item: T) => string): Array<[number, number]> {
+  const aKeys = a.map(keyOf);
+  const bKeys = b.map(keyOf);
+  const table: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      table[i][j] = aKeys[i] === bKeys[j]
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (aKeys[i] === bKeys[j]) {
+      pairs.push([i, j]);
+      i += 1;
+      j += 1;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i += 1;
+    } else {
+      j += 1;
+    }
+  }
+  return pairs;
+}
+
+function diffComponents(before: ParsedComponent[], after: ParsedComponent[]): ComponentDiffEntry[] {
+  const pairedBefore = new Map<number, ComponentDiffEntry>();
+  const pairedAfter = new Map<number, ComponentDiffEntry>();
+
+  const pair = (beforeIndex: number, afterIndex: number, kind: ComponentDiffKind) => {
+    const previous = before[beforeIndex];
+    const next = after[afterIndex];
+    const entry: ComponentDiffEntry = {
+      kind,
+      type: next.type,
+      beforeIndex,
+      afterIndex,
+      propChanges: kind === 'modified' ? diffRecords(previous.props, next.props) : [],
+      contentChanged: kind === 'modified' && (previous.content ?? '') !== (next.content ?? ''),
+    };
+    pairedBefore.set(beforeIndex, entry);
+    pairedAfter.set(afterIndex, entry);
+  };
+
+  // 1. Identical components that kept their relative order.
+  const indexed = (list: ParsedComponent[]) => list.map((component, index) => ({ component, index }));
+  for (const [i, j] of longestCommonSubsequence(before, after, componentSignature)) {
+    pair(i, j, 'unchanged');
+  }
+
+  // 2. Identical components that changed position.
+  const unmatchedBefore = new Map<string, number[]>();
+  for (const { component, index } of indexed(before)) {
+    if (pairedBefore.has(index)) continue;
+    const signature = componentSignature(component);
+    unmatchedBefore.set(signature, [...(unmatchedBefore.get(signature) ?? []), index]);
+  }
+  for (const { component, index } of indexed(after)) {
+    if (pairedAfter.has(index)) continue;
+    const candidates = unmatchedBefore.get(componentSignature(component));
+    const beforeIndex = candidates?.shift();
+    if (beforeIndex !== undefined) pair(beforeIndex, index, 'moved');
+  }
+
+  // 3. Same component type in the same relative order, with edited props/content.
+  const remainingBefore = indexed(before).filter(({ index }) => !pairedBefore.has(index));
+  const remainingAfter = indexed(after).filter(({ index }) => !pairedAfter.has(index));
+  for (const [i, j] of longestCommonSubsequence(remainingBefore, remainingAfter, ({ component }) => component.type)) {
+    pair(remainingBefore[i].index, remainingAfter[j].index, 'modified');
+  }
+
+  // 4. Merge into the newer order, slotting removed components where they used to be.
+  const removed = indexed(before)
+    .filter(({ index }) => !pairedBefore.has(index))
+    .map(({ component, index }): ComponentDiffEntry => ({
+      kind: 'removed',
+      type: component.type,
+      beforeIndex: index,
+      afterIndex: null,
+      propChanges: [],
+      contentChanged: false,
+    }));
+
+  const entries: ComponentDiffEntry[] = [];
+  let removedCursor = 0;
+  after.forEach((component, index) => {
+    const entry = pairedAfter.get(index) ?? {
+      kind: 'added' as const,
+      type: component.type,
+      beforeIndex: null,
+      afterIndex: index,
+      propChanges: [],
+      contentChanged: false,
+    };
+    if (entry.kind !== 'added' && entry.kind !== 'moved' && entry.beforeIndex !== null) {
+      while (removedCursor < removed.length && removed[removedCursor].beforeIndex! < entry.beforeIndex) {
+        entries.push(removed[removedCursor]);
+        removedCursor += 1;
+      }
+    }
+    entries.push(entry);
+  });
+  entries.push(...removed.slice(removedCursor));
+  return entries;
+}
+
+export function diffParsedTemplates(before: ParsedTemplate, after: ParsedTemplate): TemplateDiff {
+  const components = diffComponents(before.components, after.components);
+  const counts: Record<ComponentDiffKind, number> = { unchanged: 0, added: 0, removed: 0, moved: 0, modified: 0 };
+  for (const entry of components) counts[entry.kind] += 1;
+
+  return {
+    frontmatter: diffRecords(before.frontmatter ?? {}, after.frontmatter ?? {}),
+    baseProps: diffRecords(before.baseProps, after.baseProps),
+    components,
+    counts,
+  };
+}
+
+export function diffTemplateSources(before: string, after: string): TemplateDiff {
+  return diffParsedTemplates(parseTemplate(before), parseTemplate(after));
+}
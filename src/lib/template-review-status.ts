@@ -0,0 +1,47 @@
+/**
+ * Client-safe template review lifecycle.
+ * Import from here in client components — never from @/lib/services/template-reviews (which imports prisma).
+ *
+ *   draft → in_review → changes_requested ↔ in_review → approved → published
+ *
+ * Editing the HTML of an approved or published template sends it back to draft.
+ */
+
+export const TEMPLATE_REVIEW_STATUSES = [
+  'draft',
+  'in_review',
+  'changes_requested',
+  'approved',
+  'published',
+] as const;
+
+export type TemplateReviewStatus = (typeof TEMPLATE_REVIEW_STATUSES)[number];
+
+export const TEMPLATE_REVIEW_STATUS_LABELS: Record<TemplateReviewStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  changes_requested: 'Changes Requested',
+  approved: 'Approved',
+  published: 'Published',
+};
+
+export const TEMPLATE_REVIEW_STATUS_COLORS: Record<TemplateReviewStatus, { bg: string; text: string }> = {
+  draft: { bg: '#6b728020', text: '#9ca3af' },
+  in_review: { bg: '#3b82f620', text: '#60a5fa' },
+  changes_requested: { bg: '#f59e0b20', text: '#f59e0b' },
+  approved: { bg: '#10b98120', text: '#10b981' },
+  published: { bg: '#8b5cf620', text: '#a78bfa' },
+};
+
+export type TemplateReviewAction = 'submit' | 'approve' | 'request_changes' | 'withdraw';
+
+/** Statuses from which a template may be published without an override. */
+export const PUBLISHABLE_REVIEW_STATUSES: TemplateReviewStatus[] = ['approved', 'published'];
+
+export function isTemplateReviewStatus(value: unknown): value is TemplateReviewStatus {
+  return typeof value === 'string' && (TEMPLATE_REVIEW_STATUSES as readonly string[]).includes(value);
+}
+
+export function normalizeTemplateReviewStatus(value: unknown): TemplateReviewStatus {
+  return isTemplateReviewStatus(value) ? value : 'draft';
+}
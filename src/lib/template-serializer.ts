@@ -39,12 +39,12 @@ export function serializeTemplate(template: ParsedTemplate): string {
   return lines.join('\n');
 }
 
-function serializeComponent(comp: ParsedComponent): string {
+export function serializeComponent(comp: ParsedComponent): string {
   const propEntries = Object.entries(comp.props);
 
   if (propEntries.length <= 2) {
     // Short form - single line
-    const attrStr = propEntries.map(([k, v]) => `${k}="${v}"`).join(' ');
+    const attrStr = propEntries.map(([k, v]) => `${k}="${escapeAttribute(v)}"`).join(' ');
     if (comp.content) {
       return `  <x-core.${comp.type} ${attrStr}>${comp.content}</x-core.${comp.type}>`;
     }
@@ -54,7 +54,7 @@ function serializeComponent(comp: ParsedComponent): string {
   // Multi-line form
   const lines = [`  <x-core.${comp.type}`];
   for (const [key, value] of propEntries) {
-    lines.push(`    ${key}="${value}"`);
+    lines.push(`    ${key}="${escapeAttribute(value)}"`);
   }
 
   if (comp.content) {
@@ -68,6 +68,11 @@ function serializeComponent(comp: ParsedComponent): string {
   return lines.join('\n');
 }
 
+// Visibility rules are JSON, so quotes must survive the round trip through parseAttributes.
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
 function serializeAttributes(attrs: Record<string, string>): string {
   return Object.entries(attrs)
     .map(([k, v]) => `${k}="${v}"`)
@@ -0,0 +1,135 @@
+// ── Theme Tokens ──
+// Component props can reference the account's brand kit instead of hard-coding
+// values: `{brand.primary}`, `{brand.headingFont}`, `{logo.dark}`. Single
+// braces keep them apart from `{{merge.tags}}`, which the ESP resolves per
+// contact; theme tokens are resolved in the template source right before it
+// renders, from the account it's rendered for. One library template cloned
+// to many accounts therefore comes out on-brand for each of them. An account
+// without a value gets a neutral default, and the brand completeness check
+// lists it.
+
+import { IMAGE_PLACEHOLDER } from '@/lib/component-schemas';
+
+export type ThemeTokenKind = 'color' | 'font' | 'logo';
+
+export interface ThemeTokenDefinition {
+  key: string;
+  label: string;
+  kind: ThemeTokenKind;
+  /** Used when the account's brand kit has no value. */
+  fallback: string;
+}
+
+/** The brand kit as stored on the account (`branding` and `logos` JSON). */
+export interface AccountBrandKit {
+  branding?: {
+    colors?: Partial<Record<'primary' | 'secondary' | 'accent' | 'background' | 'text', string>>;
+    fonts?: Partial<Record<'heading' | 'body', string>>;
+  } | null;
+  logos?: Partial<Record<'light' | 'dark' | 'white' | 'black', string>> | null;
+}
+
+export type ThemeTokenValues = Record<string, string>;
+
+export interface ThemeTokenResolution {
+  values: ThemeTokenValues;
+  /** Tokens the brand kit has no value for (they resolve to a fallback). */
+  missing: string[];
+}
+
+export const THEME_TOKENS: ThemeTokenDefinition[] = [
+  { key: 'brand.primary', label: 'Primary color', kind: 'color', fallback: '#2563eb' },
+  { key: 'brand.secondary', label: 'Secondary color', kind: 'color', fallback: '#1d4ed8' },
+  { key: 'brand.accent', label: 'Accent color', kind: 'color', fallback: '#0ea5e9' },
+  { key: 'brand.background', label: 'Background color', kind: 'color', fallback: '#ffffff' },
+  { key: 'brand.text', label: 'Text color', kind: 'color', fallback: '#111827' },
+  { key: 'brand.headingFont', label: 'Heading font', kind: 'font', fallback: 'Helvetica Neue, Helvetica, Arial, sans-serif' },
+  { key: 'brand.bodyFont', label: 'Body font', kind: 'font', fallback: 'Arial, Helvetica, sans-serif' },
+  { key: 'logo.light', label: 'Light logo', kind: 'logo', fallback: IMAGE_PLACEHOLDER },
+  { key: 'logo.dark', label: 'Dark logo', kind: 'logo', fallback: IMAGE_PLACEHOLDER },
+  { key: 'logo.white', label: 'White logo', kind: 'logo', fallback: IMAGE_PLACEHOLDER },
+  { key: 'logo.black', label: 'Black logo', kind: 'logo', fallback: IMAGE_PLACEHOLDER },
+];
+
+const TOKENS_BY_KEY = new Map(THEME_TOKENS.map((token) => [token.key, token]));
+
+/** A missing logo variant borrows the closest one the account has before the placeholder. */
+const LOGO_SUBSTITUTES: Record<string, string[]> = {
+  'logo.light': ['logo.dark', 'logo.white'],
+  'logo.dark': ['logo.light', 'logo.black'],
+  'logo.white': ['logo.light', 'logo.dark'],
+  'logo.black': ['logo.dark', 'logo.light'],
+};
+
+const TOKEN_PATTERN = /(?<!\{)\{((?:brand|logo)\.[A-Za-z]+)\}(?!\})/g;
+const TOKEN_VALUE_PATTERN = /^\{((?:brand|logo)\.[A-Za-z]+)\}$/;
+
+export function getThemeToken(key: string): ThemeTokenDefinition | undefined {
+  return TOKENS_BY_KEY.get(key);
+}
+
+/** The prop value that references a token. */
+export function themeTokenReference(key: string): string {
+  return `{${key}}`;
+}
+
+/** The token a prop value references, when the whole value is one token. */
+export function readThemeTokenReference(value: string | null | undefined): string | null {
+  const match = (value || '').trim().match(TOKEN_VALUE_PATTERN);
+  return match && TOKENS_BY_KEY.has(match[1]) ? match[1] : null;
+}
+
+/** Known tokens a template source references, in catalogue order. */
+export function findThemeTokens(source: string): string[] {
+  if (!source || (!source.includes('{brand.') && !source.includes('{logo.'))) return [];
+  const used = new Set<string>();
+  for (const match of source.matchAll(TOKEN_PATTERN)) {
+    if (TOKENS_BY_KEY.has(match[1])) used.add(match[1]);
+  }
+  return THEME_TOKENS.filter((token) => used.has(token.key)).map((token) => token.key);
+}
+
+function brandKitValue(kit: AccountBrandKit | null | undefined, key: string): string {
+  const [group, name] = key.split('.');
+  let value: string | undefined;
+  if (group === 'logo') {
+    value = kit?.logos?.[name as keyof NonNullable<AccountBrandKit['logos']>];
+  } else if (name === 'headingFont' || name === 'bodyFont') {
+    value = kit?.branding?.fonts?.[name === 'headingFont' ? 'heading' : 'body'];
+  } else {
+    value = kit?.branding?.colors?.[name as keyof NonNullable<NonNullable<AccountBrandKit['branding']>['colors']>];
+  }
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/** Token values for an account's brand kit; without a kit every token is its fallback. */
+export function resolveThemeTokens(kit?: AccountBrandKit | null): ThemeTokenResolution {
+  const values: ThemeTokenValues = {};
+  const missing: string[] = [];
+  for (const token of THEME_TOKENS) {
+    const value = brandKitValue(kit, token.key);
+    if (value) {
+      values[token.key] = value;
+      continue;
+    }
+    missing.push(token.key);
+    const substitute = (LOGO_SUBSTITUTES[token.key] || [])
+      .map((key) => brandKitValue(kit, key))
+      .find(Boolean);
+    values[token.key] = substitute || token.fallback;
+  }
+  return { values, missing };
+}
+
+/**
+ * Replace theme tokens in a template source. Values land inside attribute
+ * values, so double quotes (common in font stacks) become single quotes.
+ * Tokens without a value are left as they are.
+ */
+export function applyThemeTokens(source: string, values: ThemeTokenValues = resolveThemeTokens().values): string {
+  if (!source || (!source.includes('{brand.') && !source.includes('{logo.'))) return source;
+  return source.replace(TOKEN_PATTERN, (token: string, key: string) => {
+    const value = values[key];
+    return value === undefined ? token : value.replace(/"/g, "'").replace(/[<>]/g, '');
+  });
+}
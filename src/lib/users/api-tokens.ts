@@ -0,0 +1,265 @@
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import type { UserRole } from '@/lib/auth';
+import { filterAccountKeysByAccess, hasUnrestrictedAccountAccess } from '@/lib/roles';
+import { isApiTokenScope, type ApiTokenScope } from '@/lib/api-token-scopes';
+import { recordAuditEvent, type AuditActor } from '@/lib/services/audit-log';
+
+const TOKEN_PREFIX = 'loomi_pat_';
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+const MAX_TOKEN_NAME_LENGTH = 80;
+const MAX_EXPIRY_DAYS = 365 * 2;
+// Only persist last-used metadata when it is meaningfully stale, so a busy
+// integration doesn't turn every API request into a write.
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+
+export interface ApiTokenSummary {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  accountKeys: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+/** The user + token a `/api/v1` request is acting as. */
+export interface ApiPrincipal {
+  tokenId: string;
+  userId: string;
+  role: UserRole;
+  /** The user's own account assignments (empty = unrestricted for elevated roles). */
+  userAccountKeys: string[];
+  /** Account restriction on the token itself (empty = everything the user can access). */
+  tokenAccountKeys: string[];
+  scopes: ApiTokenScope[];
+}
+
+export class ApiTokenInputError extends Error {}
+
+function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function generateApiToken(): string {
+  return `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+function parseStringArray(raw: string): string[] {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+function parseScopes(raw: string): ApiTokenScope[] {
+  return parseStringArray(raw).filter(isApiTokenScope);
+}
+
+type ApiTokenRecord = {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: string;
+  accountKeys: string;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+};
+
+function toSummary(record: ApiTokenRecord): ApiTokenSummary {
+  return {
+    id: record.id,
+    name: record.name,
+    tokenPrefix: record.tokenPrefix,
+    scopes: parseScopes(record.scopes),
+    accountKeys: parseStringArray(record.accountKeys),
+    expiresAt: record.expiresAt?.toISOString() ?? null,
+    lastUsedAt: record.lastUsedAt?.toISOString() ?? null,
+    lastUsedIp: record.lastUsedIp,
+    revokedAt: record.revokedAt?.toISOString() ?? null,
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+export async function listApiTokens(userId: string): Promise<ApiTokenSummary[]> {
+  const records = await prisma.apiToken.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  });
+  return records.map(toSummary);
+}
+
+/**
+ * Create a token for a user. The plaintext is returned exactly once — only its
+ * hash is stored. Account restrictions must be a subset of the user's access.
+ */
+export async function createApiToken(input: {
+  userId: string;
+  name: unknown;
+  scopes: unknown;
+  accountKeys?: unknown;
+  expiresInDays?: unknown;
+  actor?: AuditActor | null;
+}): Promise<{ token: string; summary: ApiTokenSummary }> {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) throw new ApiTokenInputError('name is required');
+  if (name.length > MAX_TOKEN_NAME_LENGTH) {
+    throw new ApiTokenInputError(`name must be ${MAX_TOKEN_NAME_LENGTH} characters or fewer`);
+  }
+
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+    throw new ApiTokenInputError('At least one scope is required');
+  }
+  const invalidScope = input.scopes.find((scope) => !isApiTokenScope(scope));
+  if (invalidScope !== undefined) {
+    throw new ApiTokenInputError(`Unknown scope: ${String(invalidScope)}`);
+  }
+  const scopes = [...new Set(input.scopes as ApiTokenScope[])];
+
+  if (input.accountKeys !== undefined && !Array.isArray(input.accountKeys)) {
+    throw new ApiTokenInputError('accountKeys must be an array');
+  }
+  const requestedKeys = [...new Set(((input.accountKeys as unknown[]) ?? []).map(String).filter(Boolean))];
+
+  let expiresAt: Date | null = null;
+  if (input.expiresInDays !== undefined && input.expiresInDays !== null) {
+    const days = Number(input.expiresInDays);
+    if (!Number.isInteger(days) || days <= 0 || days > MAX_EXPIRY_DAYS) {
+      throw new ApiTokenInputError(`expiresInDays must be between 1 and ${MAX_EXPIRY_DAYS}`);
+    }
+    expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: input.userId },
+    select: { role: true, accountKeys: true },
+  });
+  if (!user) throw new ApiTokenInputError('User not found');
+
+  if (requestedKeys.length > 0) {
+    const allowed = filterAccountKeysByAccess(
+      requestedKeys,
+      user.role as UserRole,
+      parseStringArray(user.accountKeys),
+    );
+    if (allowed.length !== requestedKeys.length) {
+      throw new ApiTokenInputError('Tokens can only be restricted to accounts you have access to');
+    }
+  }
+
+  const token = generateApiToken();
+  const record = await prisma.apiToken.create({
+    data: {
+      userId: input.userId,
+      name,
+      tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      tokenHash: hashApiToken(token),
+      scopes: JSON.stringify(scopes),
+      accountKeys: JSON.stringify(requestedKeys),
+      expiresAt,
+    },
+  });
+
+  await recordAuditEvent({
+    action: 'api-token.create',
+    targetType: 'api-token',
+    targetId: record.id,
+    targetLabel: record.name,
+    actor: input.actor,
+    metadata: { scopes, accountKeys: requestedKeys, expiresAt: expiresAt?.toISOString() ?? null },
+  });
+
+  return { token, summary: toSummary(record) };
+}
+
+/** Revoke one of a user's tokens. Returns false when it doesn't belong to them. */
+export async function revokeApiToken(
+  userId: string,
+  tokenId: string,
+  actor?: AuditActor | null,
+): Promise<boolean> {
+  const result = await prisma.apiToken.updateMany({
+    where: { id: tokenId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (result.count > 0) {
+    await recordAuditEvent({
+      action: 'api-token.revoke',
+      targetType: 'api-token',
+      targetId: tokenId,
+      actor,
+    });
+    return true;
+  }
+  const existing = await prisma.apiToken.findFirst({ where: { id: tokenId, userId }, select: { id: true } });
+  return Boolean(existing);
+}
+
+/**
+ * Resolve a plaintext bearer token to the principal it acts as, or null when
+ * the token is unknown, revoked or expired. Role and account assignments are
+ * read fresh from the user so demotions apply to existing tokens immediately.
+ */
+export async function authenticateApiToken(
+  token: string,
+  ip: string | null,
+): Promise<ApiPrincipal | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+  const record = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    include: { user: { select: { id: true, role: true, accountKeys: true } } },
+  });
+  if (!record || record.revokedAt) return null;
+
+  const now = new Date();
+  if (record.expiresAt && record.expiresAt <= now) return null;
+
+  if (
+    !record.lastUsedAt ||
+    now.getTime() - record.lastUsedAt.getTime() > LAST_USED_WRITE_INTERVAL_MS ||
+    record.lastUsedIp !== ip
+  ) {
+    try {
+      await prisma.apiToken.update({
+        where: { id: record.id },
+        data: { lastUsedAt: now, lastUsedIp: ip },
+      });
+    } catch {
+      // Usage metadata must never block an authenticated request.
+    }
+  }
+
+  return {
+    tokenId: record.id,
+    userId: record.user.id,
+    role: record.user.role as UserRole,
+    userAccountKeys: parseStringArray(record.user.accountKeys),
+    tokenAccountKeys: parseStringArray(record.accountKeys),
+    scopes: parseScopes(record.scopes),
+  };
+}
+
+/** Narrow `allKeys` to the accounts both the user and the token may reach. */
+export function filterAccountKeysForPrincipal(allKeys: string[], principal: ApiPrincipal): string[] {
+  const userAllowed = filterAccountKeysByAccess(allKeys, principal.role, principal.userAccountKeys);
+  if (principal.tokenAccountKeys.length === 0) return userAllowed;
+  const tokenAllowed = new Set(principal.tokenAccountKeys);
+  return userAllowed.filter((key) => tokenAllowed.has(key));
+}
+
+export function principalCanAccessAccount(principal: ApiPrincipal, accountKey: string): boolean {
+  const userAllowed =
+    hasUnrestrictedAccountAccess(principal.role, principal.userAccountKeys) ||
+    principal.userAccountKeys.includes(accountKey);
+  if (!userAllowed) return false;
+  return principal.tokenAccountKeys.length === 0 || principal.tokenAccountKeys.includes(accountKey);
+}
@@ -13,6 +13,10 @@ export async function proxy(request: NextRequest) {
     pathname.startsWith('/api/auth') ||
     pathname.startsWith('/api/onboarding/') ||
     pathname.startsWith('/api/webhooks/') ||
+    pathname.startsWith('/api/email/unsubscribe') ||
+    pathname.startsWith('/api/email/track/') ||
+    // Public REST API authenticates with bearer tokens inside each route
+    pathname.startsWith('/api/v1/') ||
     pathname.startsWith('/login') ||
     pathname.startsWith('/onboarding') ||
     pathname.startsWith('/_next') ||